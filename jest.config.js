@@ -17,6 +17,7 @@ module.exports = {
     'src/**/*.ts',
     '!src/**/*.d.ts',
     '!src/index.ts', // Exclude main entry point from coverage
+    '!src/seedAdmins.ts', // Exclude admin seed entry point from coverage
   ],
   coverageDirectory: 'coverage',
   coverageReporters: [
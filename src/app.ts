@@ -12,9 +12,11 @@ import { createErrorHandler, notFoundHandler } from './setup/middleware/errorHan
 import { createRateLimiters } from './setup/middleware/rateLimiters';
 import { createCompressionMiddleware } from './setup/middleware/compression';
 import { sanitizeInput } from './setup/middleware/inputSanitization';
+import { csrfProtection } from './setup/middleware/csrfProtection';
 import { ContainerDAO } from './domain/interfaces/ContainerDAO';
 import { DatabaseSessionProducer } from './domain/interfaces/DatabaseSessionProducer';
 import { TimestampProducer } from './utils/TimestampProducer';
+import { Mailer } from './utils/Mailer';
 
 /**
  * Creates and configures the Express.js application with all necessary middleware and routes.
@@ -28,6 +30,7 @@ import { TimestampProducer } from './utils/TimestampProducer';
  * @param dbSessionProducer - Database session producer for transactions
  * @param timestampProducer - Timestamp producer for consistent time handling
  * @param logger - Winston logger instance for application logging
+ * @param mailer - Mailer delivering account emails
  * @returns Configured Express application ready to start
  */
 export async function createApp(
@@ -35,7 +38,8 @@ export async function createApp(
   containerDAO: ContainerDAO<unknown>,
   dbSessionProducer: DatabaseSessionProducer<unknown>,
   timestampProducer: TimestampProducer,
-  logger: winston.Logger
+  logger: winston.Logger,
+  mailer: Mailer
 ): Promise<Application> {
   const app: Application = express();
 
@@ -80,11 +84,14 @@ export async function createApp(
   app.use(cookieParser());
   app.set('trust proxy', 1);
 
+  // CSRF protection of cookie-authenticated requests
+  app.use(csrfProtection(envVars));
+
   // Setup Swagger documentation
   setupSwaggerUi(app);
 
   // Routes
-  app.use(createRouter(envVars, containerDAO, dbSessionProducer, timestampProducer));
+  app.use(createRouter(envVars, containerDAO, dbSessionProducer, timestampProducer, logger, mailer));
 
   // Error handling middleware (must be last)
   app.use(httpErrorLogger);
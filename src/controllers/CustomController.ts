@@ -1,7 +1,10 @@
 import { Controller } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
 import { EnvVars } from '../setup/EnvVars';
 import { ContainerDAO } from '../domain/interfaces/ContainerDAO';
 import { DatabaseSession } from '../domain/interfaces/DatabaseSession';
+import { AuditAction } from '../domain/interfaces/entities/AuditLog';
+import { AuditLogDBUtils, AuditSnapshot } from '../domain/utils/AuditLogDBUtils';
 
 /**
  * Base controller class for simple operations without database transactions.
@@ -52,4 +55,42 @@ export abstract class TransactionAbstractController extends BaseCustomController
     super(envVars, containerDAO);
     this.session = session;
   }
+
+  /**
+   * Records an action in the audit log within the transaction of the request,
+   * so the entry is committed or rolled back together with the change.
+   * 
+   * @param req - Express request providing the client IP address and user agent
+   * @param action - Action performed
+   * @param user - User performing the action; userId is null for unknown usernames
+   * @param targetId - ID of the entity the action applies to, or null
+   * @param now - Timestamp of the action
+   * @param before - State of the entity before the action, if it existed
+   * @param after - State of the entity after the action, if it still exists
+   */
+  protected async recordAuditLog(
+    req: ExpressRequest,
+    action: AuditAction,
+    user: { userId: string | null; username: string },
+    targetId: string | null,
+    now: number,
+    before?: AuditSnapshot,
+    after?: AuditSnapshot
+  ): Promise<void> {
+    await AuditLogDBUtils.record(
+      this.containerDAO,
+      this.session,
+      action,
+      {
+        userId: user.userId,
+        username: user.username,
+        ip: req.ip || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown'
+      },
+      targetId,
+      now,
+      before,
+      after
+    );
+  }
 }
@@ -0,0 +1,91 @@
+import { Get, Route, Tags, Query, Security } from 'tsoa';
+import { BaseCustomController } from '../../../CustomController';
+import { AuditLogListResponse } from '../../../../dto/admin/audit/AuditLogListResponse';
+import { Roles } from '../../../../setup/middleware/rolesMiddleware';
+import { AppError } from '../../../../setup/middleware/errorHandler';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+import { AuditLogFilter } from '../../../../domain/interfaces/dao/AuditLogDAO';
+import { AUDIT_ACTIONS, AuditAction } from '../../../../domain/interfaces/entities/AuditLog';
+
+@Route('admin')
+@Tags('Admin')
+export class AdminAuditListGetController extends BaseCustomController {
+  constructor(
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>
+  ) {
+    super(envVars, containerDAO);
+  }
+
+  /**
+   * Query the audit log with pagination, newest first (admin only)
+   * Entries can be filtered by action, acting user, target entity and time
+   * range; from and to are ISO 8601 dates and both bounds are inclusive
+   */
+  @Get('audit')
+  @Security('Bearer')
+  @Roles('admin')
+  public async getAuditLogs(
+    @Query() action?: string,
+    @Query() actorId?: string,
+    @Query() targetId?: string,
+    @Query() from?: string,
+    @Query() to?: string,
+    @Query() page: number = 1,
+    @Query() limit: number = 10
+  ): Promise<AuditLogListResponse> {
+    const filter: AuditLogFilter = {
+      action: this.parseAction(action),
+      actorId: actorId || undefined,
+      targetId: targetId || undefined,
+      from: this.parseDate('from', from),
+      to: this.parseDate('to', to)
+    };
+    if (filter.from && filter.to && filter.from > filter.to) {
+      throw new AppError('from must not be after to', 400);
+    }
+
+    const validPage = Math.max(1, Math.floor(page));
+    const validLimit = Math.min(100, Math.max(1, Math.floor(limit)));
+
+    const result = await this.containerDAO.auditLogDAO.findAuditLogs(filter, validPage, validLimit);
+
+    return {
+      auditLogs: result.auditLogs,
+      total: result.total,
+      totalPages: result.totalPages,
+      currentPage: validPage,
+      limit: validLimit
+    };
+  }
+
+  /**
+   * Validates the action filter
+   * @throws AppError with 400 status if the action is unknown
+   */
+  private parseAction(action?: string): AuditAction | undefined {
+    if (!action) {
+      return undefined;
+    }
+    if (!(AUDIT_ACTIONS as readonly string[]).includes(action)) {
+      throw new AppError(`action must be one of: ${AUDIT_ACTIONS.join(', ')}`, 400);
+    }
+    return action as AuditAction;
+  }
+
+  /**
+   * Parses a time range bound
+   * @throws AppError with 400 status if the value is not a valid date
+   */
+  private parseDate(name: 'from' | 'to', value?: string): Date | undefined {
+    if (!value) {
+      return undefined;
+    }
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new AppError(`${name} must be a valid ISO 8601 date`, 400);
+    }
+    return date;
+  }
+}
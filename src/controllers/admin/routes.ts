@@ -0,0 +1,185 @@
+import { Router, Request, Response } from 'express';
+import { AdminUsersListGetController } from './users/list/AdminUsersListGetController';
+import { AdminUsersSearchGetController } from './users/search/AdminUsersSearchGetController';
+import { AdminUsersDisablePostController } from './users/disable/AdminUsersDisablePostController';
+import { AdminUsersEnablePostController } from './users/enable/AdminUsersEnablePostController';
+import { AdminUsersUnlockPostController } from './users/unlock/AdminUsersUnlockPostController';
+import { AdminUsersDeleteController } from './users/delete/AdminUsersDeleteController';
+import { AdminAuditListGetController } from './audit/list/AdminAuditListGetController';
+import { asyncHandler, dbTransactionHandler } from '../../setup/middleware/errorHandler';
+import { validateRequestParams } from '../../setup/middleware/classValidation';
+import { authMiddleware } from '../../setup/middleware/authMiddleware';
+import { requireRoles } from '../../setup/middleware/rolesMiddleware';
+import { EnvVars } from '../../setup/EnvVars';
+import { ContainerDAO } from '../../domain/interfaces/ContainerDAO';
+import { UserParams } from '../../dto/admin/users/UserParams';
+import { DatabaseSession } from '../../domain/interfaces/DatabaseSession';
+import { DatabaseSessionProducer } from '../../domain/interfaces/DatabaseSessionProducer';
+import { TimestampProducer } from '../../utils/TimestampProducer';
+
+/**
+ * Registers all administration routes
+ * All routes require authentication and the roles declared on each controller method
+ * 
+ * @param router - Express router instance
+ * @param envVars - Environment variables configuration
+ * @param containerDAO - Container for all DAO instances
+ * @param databaseSessionProducer - Producer for database sessions
+ * @param timestampProducer - Producer for timestamps
+ */
+export function registerAdminRoutes(
+  router: Router,
+  envVars: EnvVars,
+  containerDAO: ContainerDAO<unknown>,
+  databaseSessionProducer: DatabaseSessionProducer<unknown>,
+  timestampProducer: TimestampProducer
+): void {
+  const authenticate = authMiddleware(envVars, containerDAO, timestampProducer);
+
+  /**
+   * GET /admin/users
+   * Get paginated list of all users
+   * Requires authentication and admin role
+   * Query params: page (default: 1), limit (default: 10)
+   * Returns: 200 with users array and pagination info
+   */
+  router.get(
+    '/admin/users',
+    authenticate,
+    requireRoles(AdminUsersListGetController, 'getUsers'),
+    asyncHandler(async (req: Request, res: Response) => {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      res.json(await new AdminUsersListGetController(envVars, containerDAO).getUsers(page, limit));
+    })
+  );
+
+  /**
+   * GET /admin/users/search
+   * Search users by username prefix
+   * Requires authentication and admin role
+   * Query params: username (required prefix), page (default: 1), limit (default: 10)
+   * Returns: 200 with matching users and pagination info
+   */
+  router.get(
+    '/admin/users/search',
+    authenticate,
+    requireRoles(AdminUsersSearchGetController, 'searchUsers'),
+    asyncHandler(async (req: Request, res: Response) => {
+      const username = typeof req.query.username === 'string' ? req.query.username : '';
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      res.json(await new AdminUsersSearchGetController(envVars, containerDAO).searchUsers(username, page, limit));
+    })
+  );
+
+  /**
+   * POST /admin/users/:userId/disable
+   * Disable a user account and revoke all of its sessions
+   * Requires authentication and admin role; administrators cannot disable themselves
+   * Returns: 200 with updated user data
+   */
+  router.post(
+    '/admin/users/:userId/disable',
+    authenticate,
+    requireRoles(AdminUsersDisablePostController, 'disableUser'),
+    validateRequestParams(UserParams),
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new AdminUsersDisablePostController(
+          envVars, containerDAO, session, timestampProducer.getNow()
+        ).disableUser(req.params.userId, req);
+        return { statusCode: 200, data };
+      }
+    )
+  );
+
+  /**
+   * POST /admin/users/:userId/enable
+   * Re-enable a disabled user account
+   * Requires authentication and admin role
+   * Returns: 200 with updated user data
+   */
+  router.post(
+    '/admin/users/:userId/enable',
+    authenticate,
+    requireRoles(AdminUsersEnablePostController, 'enableUser'),
+    validateRequestParams(UserParams),
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new AdminUsersEnablePostController(
+          envVars, containerDAO, session, timestampProducer.getNow()
+        ).enableUser(req.params.userId, req);
+        return { statusCode: 200, data };
+      }
+    )
+  );
+
+  /**
+   * POST /admin/users/:userId/unlock
+   * Lift a login lockout caused by too many failed login attempts
+   * Requires authentication and admin role
+   * Returns: 200 with whether the account was locked
+   */
+  router.post(
+    '/admin/users/:userId/unlock',
+    authenticate,
+    requireRoles(AdminUsersUnlockPostController, 'unlockUser'),
+    validateRequestParams(UserParams),
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new AdminUsersUnlockPostController(
+          envVars, containerDAO, session, timestampProducer.getNow()
+        ).unlockUser(req.params.userId, req);
+        return { statusCode: 200, data };
+      }
+    )
+  );
+
+  /**
+   * DELETE /admin/users/:userId
+   * Permanently delete a user with their personal projects, sessions and tokens
+   * Requires authentication and admin role; administrators cannot delete themselves,
+   * nor the last owner of an organization
+   * Returns: 200 with deletion confirmation
+   */
+  router.delete(
+    '/admin/users/:userId',
+    authenticate,
+    requireRoles(AdminUsersDeleteController, 'deleteUser'),
+    validateRequestParams(UserParams),
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new AdminUsersDeleteController(
+          envVars, containerDAO, session, timestampProducer.getNow()
+        ).deleteUser(req.params.userId, req);
+        return { statusCode: 200, data };
+      }
+    )
+  );
+
+  /**
+   * GET /admin/audit
+   * Query the audit log, newest first
+   * Requires authentication and admin role
+   * Query params: action, actorId, targetId, from, to (ISO 8601, inclusive), page (default: 1), limit (default: 10)
+   * Returns: 200 with audit log entries and pagination info
+   */
+  router.get(
+    '/admin/audit',
+    authenticate,
+    requireRoles(AdminAuditListGetController, 'getAuditLogs'),
+    asyncHandler(async (req: Request, res: Response) => {
+      const query = (name: string) => typeof req.query[name] === 'string' ? req.query[name] as string : undefined;
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      res.json(await new AdminAuditListGetController(envVars, containerDAO).getAuditLogs(
+        query('action'), query('actorId'), query('targetId'), query('from'), query('to'), page, limit
+      ));
+    })
+  );
+}
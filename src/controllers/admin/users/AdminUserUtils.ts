@@ -0,0 +1,103 @@
+import { AppError } from '../../../setup/middleware/errorHandler';
+import { ContainerDAO } from '../../../domain/interfaces/ContainerDAO';
+import { User } from '../../../domain/interfaces/entities/User';
+import { AdminUserResponse } from '../../../dto/admin/users/AdminUserResponse';
+import { AdminUserListResponse } from '../../../dto/admin/users/AdminUserListResponse';
+import { AuthenticatedUser } from '../../../setup/middleware/authMiddleware';
+import { AuditSnapshot } from '../../../domain/utils/AuditLogDBUtils';
+
+/**
+ * Utility functions for admin user management operations
+ */
+export class AdminUserUtils {
+  /**
+   * Finds a user by ID or throws a 404 error if not found
+   * @param containerDAO - DAO container for database operations
+   * @param userId - ID of the user to find
+   * @returns Promise<User> - The found user
+   * @throws AppError with 404 status if user not found
+   */
+  static async findUserOr404(
+    containerDAO: ContainerDAO<unknown>,
+    userId: string
+  ): Promise<User> {
+    const user = await containerDAO.userDAO.findById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+    return user;
+  }
+
+  /**
+   * Prevents administrators from disabling or deleting their own account
+   * @param admin - The authenticated administrator
+   * @param userId - ID of the target user
+   * @param action - Action being performed, used in the error message
+   * @throws AppError with 400 status if the target is the administrator
+   */
+  static isNotSelfOr400(admin: AuthenticatedUser, userId: string, action: 'disable' | 'delete'): void {
+    if (admin.userId === userId) {
+      throw new AppError(`Cannot ${action} your own account`, 400);
+    }
+  }
+
+  /**
+   * Loads one page of users, optionally filtered by username prefix
+   * @param containerDAO - DAO container for database operations
+   * @param page - Requested page number (clamped to at least 1)
+   * @param limit - Requested page size (clamped to 1-100)
+   * @param usernamePrefix - Optional username prefix to filter by
+   * @returns Promise<AdminUserListResponse> - The formatted page of users
+   */
+  static async findUsersPage(
+    containerDAO: ContainerDAO<unknown>,
+    page: number,
+    limit: number,
+    usernamePrefix?: string
+  ): Promise<AdminUserListResponse> {
+    const validPage = Math.max(1, Math.floor(page));
+    const validLimit = Math.min(100, Math.max(1, Math.floor(limit)));
+
+    const result = await containerDAO.userDAO.findUsers(validPage, validLimit, usernamePrefix);
+
+    return {
+      users: result.users.map(user => this.toAdminUserResponse(user)),
+      total: result.total,
+      totalPages: result.totalPages,
+      currentPage: validPage,
+      limit: validLimit
+    };
+  }
+
+  /**
+   * Converts a User entity to an AdminUserResponse DTO
+   * @param user - The user entity to convert
+   * @returns AdminUserResponse - The formatted response object
+   */
+  static toAdminUserResponse(user: User): AdminUserResponse {
+    return {
+      id: user.id,
+      username: user.username,
+      email: user.email,
+      isEmailVerified: user.isEmailVerified,
+      roles: user.roles,
+      isDisabled: user.isDisabled,
+      createdAt: user.createdAt!,
+      updatedAt: user.updatedAt!
+    };
+  }
+
+  /**
+   * Returns the audited fields of a user
+   * @param user - The user entity
+   * @returns AuditSnapshot - Account fields recorded in the audit log
+   */
+  static toAuditSnapshot(user: User): AuditSnapshot {
+    return {
+      username: user.username,
+      email: user.email,
+      roles: user.roles,
+      isDisabled: user.isDisabled
+    };
+  }
+}
@@ -0,0 +1,83 @@
+import { Delete, Route, Tags, Request, Path, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { TransactionAbstractController } from '../../../CustomController';
+import { AdminUserDeleteResponse } from '../../../../dto/admin/users/AdminUserDeleteResponse';
+import { getAuthenticatedUser } from '../../../../setup/middleware/authMiddleware';
+import { Roles } from '../../../../setup/middleware/rolesMiddleware';
+import { AppError } from '../../../../setup/middleware/errorHandler';
+import { TokenDBUtils } from '../../../../domain/utils/TokenDBUtils';
+import { AdminUserUtils } from '../AdminUserUtils';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../../domain/interfaces/DatabaseSession';
+
+@Route('admin')
+@Tags('Admin')
+export class AdminUsersDeleteController extends TransactionAbstractController {
+  private now: number;
+
+  constructor(
+    envVars: EnvVars, containerDAO: ContainerDAO<unknown>, session: DatabaseSession<unknown>, now: number
+  ) {
+    super(envVars, containerDAO, session);
+    this.now = now;
+  }
+
+  /**
+   * Permanently delete a user together with their personal projects, memberships, sessions and tokens (admin only)
+   * Pending project transfers requested by or offered to the user are dropped.
+   * Refused while the user is the last owner of an organization
+   */
+  @Delete('users/{userId}')
+  @Security('Bearer')
+  @Roles('admin')
+  public async deleteUser(
+    @Path() userId: string,
+    @Request() req: ExpressRequest
+  ): Promise<AdminUserDeleteResponse> {
+    const admin = getAuthenticatedUser(req);
+    AdminUserUtils.isNotSelfOr400(admin, userId, 'delete');
+
+    const user = await AdminUserUtils.findUserOr404(this.containerDAO, userId);
+    await this.isNotLastOrganizationOwnerOr409(userId);
+
+    const projectIds = await this.containerDAO.projectDAO.findProjectIdsByUserId(userId);
+    await this.containerDAO.projectMemberDAO.deleteAllProjectMembers(this.session, projectIds);
+    await this.containerDAO.projectMemberDAO.deleteAllUserMemberships(this.session, userId);
+    await this.containerDAO.organizationMemberDAO.deleteAllUserMemberships(this.session, userId);
+    await this.containerDAO.projectTransferDAO.deleteAllUserProjectTransfers(this.session, userId);
+    const deletedProjects = await this.containerDAO.projectDAO.deleteAllUserProjects(this.session, userId);
+    await TokenDBUtils.deleteAllUserTokens(this.containerDAO, this.session, userId);
+    await this.containerDAO.loginAttemptDAO.resetLoginAttempts(this.session, user.username);
+    await this.containerDAO.totpCredentialDAO.deleteCredential(this.session, userId);
+    await this.containerDAO.linkedIdentityDAO.deleteAllUserLinkedIdentities(this.session, userId);
+    await this.containerDAO.apiKeyDAO.deleteAllUserApiKeys(this.session, userId);
+
+    const deleted = await this.containerDAO.userDAO.deleteUser(this.session, userId);
+    if (!deleted) {
+      throw new AppError('Resource conflict - please try again', 423);
+    }
+
+    await this.recordAuditLog(req, 'user.delete', admin, userId, this.now, AdminUserUtils.toAuditSnapshot(user));
+
+    return {
+      message: 'User deleted successfully',
+      deletedProjects
+    };
+  }
+
+  /**
+   * Checks that the user is not the last owner of an organization, which nobody could manage anymore
+   * @param userId - ID of the user to delete
+   * @throws AppError with 409 status if an organization has the user as only owner
+   */
+  private async isNotLastOrganizationOwnerOr409(userId: string): Promise<void> {
+    const memberships = await this.containerDAO.organizationMemberDAO.findByUserId(userId);
+    for (const member of memberships.filter(membership => membership.role === 'owner')) {
+      const owners = await this.containerDAO.organizationMemberDAO.countMembersWithRole(member.organizationId, 'owner');
+      if (owners <= 1) {
+        throw new AppError('The user is the last owner of an organization', 409);
+      }
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { Post, Route, Tags, Request, Path, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { TransactionAbstractController } from '../../../CustomController';
+import { AdminUserResponse } from '../../../../dto/admin/users/AdminUserResponse';
+import { getAuthenticatedUser } from '../../../../setup/middleware/authMiddleware';
+import { Roles } from '../../../../setup/middleware/rolesMiddleware';
+import { AppError } from '../../../../setup/middleware/errorHandler';
+import { TokenDBUtils } from '../../../../domain/utils/TokenDBUtils';
+import { AdminUserUtils } from '../AdminUserUtils';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../../domain/interfaces/DatabaseSession';
+
+@Route('admin')
+@Tags('Admin')
+export class AdminUsersDisablePostController extends TransactionAbstractController {
+  private now: number;
+
+  constructor(
+    envVars: EnvVars, containerDAO: ContainerDAO<unknown>, session: DatabaseSession<unknown>, now: number
+  ) {
+    super(envVars, containerDAO, session);
+    this.now = now;
+  }
+
+  /**
+   * Disable a user account and revoke all of its sessions (admin only)
+   */
+  @Post('users/{userId}/disable')
+  @Security('Bearer')
+  @Roles('admin')
+  public async disableUser(
+    @Path() userId: string,
+    @Request() req: ExpressRequest
+  ): Promise<AdminUserResponse> {
+    const admin = getAuthenticatedUser(req);
+    AdminUserUtils.isNotSelfOr400(admin, userId, 'disable');
+
+    const existingUser = await AdminUserUtils.findUserOr404(this.containerDAO, userId);
+    const user = await this.containerDAO.userDAO.setUserDisabled(this.session, userId, true);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    await TokenDBUtils.revokeAllUserSessions(this.containerDAO, this.session, userId, this.now);
+
+    await this.recordAuditLog(
+      req, 'user.disable', admin, userId, this.now,
+      AdminUserUtils.toAuditSnapshot(existingUser), AdminUserUtils.toAuditSnapshot(user)
+    );
+
+    return AdminUserUtils.toAdminUserResponse(user);
+  }
+}
@@ -0,0 +1,50 @@
+import { Post, Route, Tags, Request, Path, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { TransactionAbstractController } from '../../../CustomController';
+import { AdminUserResponse } from '../../../../dto/admin/users/AdminUserResponse';
+import { getAuthenticatedUser } from '../../../../setup/middleware/authMiddleware';
+import { Roles } from '../../../../setup/middleware/rolesMiddleware';
+import { AppError } from '../../../../setup/middleware/errorHandler';
+import { AdminUserUtils } from '../AdminUserUtils';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../../domain/interfaces/DatabaseSession';
+
+@Route('admin')
+@Tags('Admin')
+export class AdminUsersEnablePostController extends TransactionAbstractController {
+  private now: number;
+
+  constructor(
+    envVars: EnvVars, containerDAO: ContainerDAO<unknown>, session: DatabaseSession<unknown>, now: number
+  ) {
+    super(envVars, containerDAO, session);
+    this.now = now;
+  }
+
+  /**
+   * Re-enable a disabled user account (admin only)
+   */
+  @Post('users/{userId}/enable')
+  @Security('Bearer')
+  @Roles('admin')
+  public async enableUser(
+    @Path() userId: string,
+    @Request() req: ExpressRequest
+  ): Promise<AdminUserResponse> {
+    const admin = getAuthenticatedUser(req);
+
+    const existingUser = await AdminUserUtils.findUserOr404(this.containerDAO, userId);
+    const user = await this.containerDAO.userDAO.setUserDisabled(this.session, userId, false);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    await this.recordAuditLog(
+      req, 'user.enable', admin, userId, this.now,
+      AdminUserUtils.toAuditSnapshot(existingUser), AdminUserUtils.toAuditSnapshot(user)
+    );
+
+    return AdminUserUtils.toAdminUserResponse(user);
+  }
+}
@@ -0,0 +1,31 @@
+import { Get, Route, Tags, Query, Security } from 'tsoa';
+import { BaseCustomController } from '../../../CustomController';
+import { AdminUserListResponse } from '../../../../dto/admin/users/AdminUserListResponse';
+import { Roles } from '../../../../setup/middleware/rolesMiddleware';
+import { AdminUserUtils } from '../AdminUserUtils';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+
+@Route('admin')
+@Tags('Admin')
+export class AdminUsersListGetController extends BaseCustomController {
+  constructor(
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>
+  ) {
+    super(envVars, containerDAO);
+  }
+
+  /**
+   * List all users with pagination (admin only)
+   */
+  @Get('users')
+  @Security('Bearer')
+  @Roles('admin')
+  public async getUsers(
+    @Query() page: number = 1,
+    @Query() limit: number = 10
+  ): Promise<AdminUserListResponse> {
+    return AdminUserUtils.findUsersPage(this.containerDAO, page, limit);
+  }
+}
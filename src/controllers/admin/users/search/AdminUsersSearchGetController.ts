@@ -0,0 +1,38 @@
+import { Get, Route, Tags, Query, Security } from 'tsoa';
+import { BaseCustomController } from '../../../CustomController';
+import { AdminUserListResponse } from '../../../../dto/admin/users/AdminUserListResponse';
+import { Roles } from '../../../../setup/middleware/rolesMiddleware';
+import { AppError } from '../../../../setup/middleware/errorHandler';
+import { AdminUserUtils } from '../AdminUserUtils';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+
+@Route('admin')
+@Tags('Admin')
+export class AdminUsersSearchGetController extends BaseCustomController {
+  constructor(
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>
+  ) {
+    super(envVars, containerDAO);
+  }
+
+  /**
+   * Search users by username prefix with pagination (admin only)
+   */
+  @Get('users/search')
+  @Security('Bearer')
+  @Roles('admin')
+  public async searchUsers(
+    @Query() username: string,
+    @Query() page: number = 1,
+    @Query() limit: number = 10
+  ): Promise<AdminUserListResponse> {
+    const usernamePrefix = username.trim();
+    if (!usernamePrefix) {
+      throw new AppError('Username prefix is required', 400);
+    }
+
+    return AdminUserUtils.findUsersPage(this.containerDAO, page, limit, usernamePrefix);
+  }
+}
@@ -0,0 +1,53 @@
+import { Post, Route, Tags, Request, Path, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { TransactionAbstractController } from '../../../CustomController';
+import { AdminUserUnlockResponse } from '../../../../dto/admin/users/AdminUserUnlockResponse';
+import { getAuthenticatedUser } from '../../../../setup/middleware/authMiddleware';
+import { Roles } from '../../../../setup/middleware/rolesMiddleware';
+import { AdminUserUtils } from '../AdminUserUtils';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../../domain/interfaces/DatabaseSession';
+
+@Route('admin')
+@Tags('Admin')
+export class AdminUsersUnlockPostController extends TransactionAbstractController {
+  private now: number;
+
+  constructor(
+    envVars: EnvVars, containerDAO: ContainerDAO<unknown>, session: DatabaseSession<unknown>, now: number
+  ) {
+    super(envVars, containerDAO, session);
+    this.now = now;
+  }
+
+  /**
+   * Lift a login lockout and clear the failed login attempts of a user (admin only)
+   */
+  @Post('users/{userId}/unlock')
+  @Security('Bearer')
+  @Roles('admin')
+  public async unlockUser(
+    @Path() userId: string,
+    @Request() req: ExpressRequest
+  ): Promise<AdminUserUnlockResponse> {
+    const admin = getAuthenticatedUser(req);
+    const user = await AdminUserUtils.findUserOr404(this.containerDAO, userId);
+
+    const loginAttempt = await this.containerDAO.loginAttemptDAO.findByUsername(user.username);
+    const wasLocked = !!loginAttempt?.lockedUntil && loginAttempt.lockedUntil > new Date(this.now);
+
+    await this.containerDAO.loginAttemptDAO.resetLoginAttempts(this.session, user.username);
+
+    await this.recordAuditLog(
+      req, 'user.unlock', admin, userId, this.now,
+      { failedAttempts: loginAttempt?.failedAttempts ?? 0, lockedUntil: loginAttempt?.lockedUntil ?? null },
+      { failedAttempts: 0, lockedUntil: null }
+    );
+
+    return {
+      message: 'User unlocked successfully',
+      wasLocked
+    };
+  }
+}
@@ -1,11 +1,20 @@
+import { Request as ExpressRequest } from 'express';
+import winston from 'winston';
 import { TransactionAbstractController } from '../CustomController';
 import { JWTPayload, JWTService } from '../../utils/JWTService';
 import { EnvVars } from '../../setup/EnvVars';
 import { ContainerDAO } from '../../domain/interfaces/ContainerDAO';
 import { DatabaseSession } from '../../domain/interfaces/DatabaseSession';
 import { User } from '../../domain/interfaces/entities/User';
+import { TOKEN_SCOPES, TokenScope } from '../../domain/interfaces/entities/TokenScope';
 import { AuthResponse } from '../../dto/auth/AuthResponse';
 import { TokenDBUtils } from '../../domain/utils/TokenDBUtils';
+import { AppError, CommittingAppError } from '../../setup/middleware/errorHandler';
+import { TimeUtils } from '../../utils/TimeUtils';
+import { OneTimeTokenService } from '../../utils/OneTimeTokenService';
+import { Mailer } from '../../utils/Mailer';
+
+const LOCKED_MESSAGE = 'Account temporarily locked due to too many failed login attempts';
 
 /**
  * Abstract base controller for authentication operations
@@ -22,41 +31,219 @@ export abstract class AuthController extends TransactionAbstractController {
     now: number
   ) {
     super(envVars, containerDAO, session);
-    this.jwtService = new JWTService(envVars);
+    this.jwtService = new JWTService(envVars, now);
     this.now = now;
   }
 
   /**
-   * Generates JWT tokens and stores them in the database
-   * @param user User object with id and username
+   * Starts a new session for the client, generates JWT tokens and stores them in the database
+   * The session ID is the token family that subsequent refreshes will inherit
+   * The login is recorded in the audit log with the session as target
+   * @param user User object with id, username and roles
+   * @param req Express request used to record the client user agent and IP address
+   * @param scopes Scopes granted to the tokens, every scope by default
    * @returns AuthResponse with tokens and user info
    */
-  protected async generateAndStoreTokens(user: User): Promise<AuthResponse> {
+  protected async generateAndStoreTokens(
+    user: User,
+    req: ExpressRequest,
+    scopes: TokenScope[] = [...TOKEN_SCOPES]
+  ): Promise<AuthResponse> {
     const jwtPayload: JWTPayload = {
       userId: user.id,
-      username: user.username
+      username: user.username,
+      roles: user.roles,
+      scopes
     };
   
-    const tokenPair = this.jwtService.generateTokenPair(jwtPayload);
+    const tokenPair = this.jwtService.generateTokenPair(jwtPayload, this.now);
+
+    const userSession = await this.containerDAO.userSessionDAO.createUserSession(
+      this.session,
+      user.id,
+      req.get('user-agent') || 'unknown',
+      req.ip || 'unknown',
+      this.now
+    );
   
     await TokenDBUtils.storeTokens(
       this.containerDAO,
       this.session,
       this.envVars,
       jwtPayload.userId,
+      userSession.id,
       tokenPair.accessToken,
       tokenPair.refreshToken,
       this.now
     );
+
+    await this.recordAuditLog(
+      req, 'auth.login', { userId: user.id, username: user.username }, userSession.id, this.now
+    );
   
     return {
       accessToken: tokenPair.accessToken,
       refreshToken: tokenPair.refreshToken,
       user: {
         id: jwtPayload.userId,
-        username: user.username
+        username: user.username,
+        email: user.email,
+        isEmailVerified: user.isEmailVerified,
+        roles: jwtPayload.roles
       }
     };
 
   }
-}
\ No newline at end of file
+
+  /**
+   * Finds the user logging in, including the password hash
+   * Usernames cannot contain "@", so identifiers with one are looked up as email addresses
+   * @param identifier Username or email address entered by the user
+   * @returns User with password or null if no account matches
+   */
+  protected async findUserByLoginIdentifier(identifier: string): Promise<User | null> {
+    return identifier.includes('@')
+      ? this.containerDAO.userDAO.findByEmailWithPassword(identifier.toLowerCase())
+      : this.containerDAO.userDAO.findByUsernameWithPassword(identifier);
+  }
+
+  /**
+   * Returns the address account emails of a user can be sent to
+   * Unverified addresses are not trusted: the user may have mistyped them
+   * @param user Recipient user
+   * @returns The verified email address, or null when the user has none
+   */
+  protected verifiedEmailOf(user: User): string | null {
+    return user.email && user.isEmailVerified ? user.email : null;
+  }
+
+  /**
+   * Replaces any pending verification token of the user with a new one and mails the link to the address
+   * Delivery is not awaited: its duration and failures must not reveal whether an account exists
+   * @param user User whose address is verified
+   * @param email Address to verify, the current email of the user
+   * @param mailer Mailer delivering the link
+   * @param logger Logger receiving delivery failures
+   */
+  protected async sendVerificationEmail(
+    user: User,
+    email: string,
+    mailer: Mailer,
+    logger: winston.Logger
+  ): Promise<void> {
+    const emailVerificationTokenDAO = this.containerDAO.emailVerificationTokenDAO;
+    await emailVerificationTokenDAO.invalidateAllUserEmailVerificationTokens(this.session, user.id, this.now);
+
+    const { token, tokenHash } = OneTimeTokenService.generate();
+    const expiresAt = new Date(this.now + TimeUtils.parseExpiry(this.envVars.EMAIL_VERIFICATION_EXPIRES_IN));
+    await emailVerificationTokenDAO.createEmailVerificationToken(
+      this.session, user.id, email, tokenHash, expiresAt, this.now
+    );
+
+    const verificationUrl = new URL(this.envVars.EMAIL_VERIFICATION_URL);
+    verificationUrl.searchParams.set('token', token);
+
+    void mailer.send({
+      to: email,
+      subject: 'Verify your email address',
+      text: [
+        `Hello ${user.username},`,
+        '',
+        'Please confirm that this is your email address.',
+        `Open the link below within ${this.envVars.EMAIL_VERIFICATION_EXPIRES_IN} to verify it:`,
+        '',
+        verificationUrl.toString(),
+        '',
+        'If you did not create an account, you can ignore this email.'
+      ].join('\n')
+    }).catch((error: Error) => {
+      logger.error('Failed to send verification email', { userId: user.id, error: error.message });
+    });
+  }
+
+  /**
+   * Rejects the login while the username is locked
+   * Checked before any credential so a locked username cannot be probed further
+   * @param username Username the login is attempted with
+   * @throws AppError with 423 status while the lockout lasts
+   */
+  protected async assertLoginNotLocked(username: string): Promise<void> {
+    const loginAttempt = await this.containerDAO.loginAttemptDAO.findByUsername(username);
+    if (loginAttempt?.lockedUntil && loginAttempt.lockedUntil > new Date(this.now)) {
+      throw new AppError(LOCKED_MESSAGE, 423);
+    }
+  }
+
+  /**
+   * Rejects the login of a disabled account, or of an unverified email address while login requires a verified one
+   * Checked once the credentials are valid; the refusal is recorded in the audit log and committed despite the error
+   * @param user User whose credentials were verified
+   * @param req Express request used to record the client user agent and IP address
+   * @throws CommittingAppError with 403 status when the account may not log in
+   */
+  protected async assertLoginAllowed(user: User, req: ExpressRequest): Promise<void> {
+    let message: string;
+    if (user.isDisabled) {
+      message = 'Account is disabled';
+    } else if (this.envVars.EMAIL_VERIFICATION_REQUIRED && !user.isEmailVerified) {
+      message = 'Email address is not verified';
+    } else {
+      return;
+    }
+
+    await this.recordAuditLog(
+      req, 'auth.login_rejected', { userId: user.id, username: user.username }, user.id, this.now
+    );
+    throw new CommittingAppError(message, 403);
+  }
+
+  /**
+   * Counts a failed login, locks the username once the limit is reached and rejects the request
+   * Every further lockout lasts twice as long, up to the configured maximum
+   * The counters and the audit log entry are committed despite the error
+   * @param username Username the login was attempted with
+   * @param userId ID of the user the username belongs to, null for unknown usernames
+   * @param req Express request used to log the client IP address
+   * @param logger Logger receiving lockout events
+   * @param message Error message when the username does not get locked
+   */
+  protected async rejectFailedLogin(
+    username: string,
+    userId: string | null,
+    req: ExpressRequest,
+    logger: winston.Logger,
+    message: string
+  ): Promise<never> {
+    const loginAttempt = await this.containerDAO.loginAttemptDAO.recordFailedAttempt(
+      this.session, username, this.now
+    );
+    await this.recordAuditLog(req, 'auth.login_failed', { userId, username }, userId, this.now);
+
+    if (loginAttempt.failedAttempts < this.envVars.LOGIN_MAX_FAILED_ATTEMPTS) {
+      throw new CommittingAppError(message, 401);
+    }
+
+    const lockedUntil = new Date(this.now + this.lockoutDuration(loginAttempt.lockouts));
+    await this.containerDAO.loginAttemptDAO.lockUsername(this.session, username, lockedUntil, this.now);
+
+    logger.warn('Too many failed login attempts, username locked', {
+      event: 'login_lockout',
+      username,
+      lockouts: loginAttempt.lockouts + 1,
+      lockedUntil: lockedUntil.toISOString(),
+      ip: req.ip
+    });
+
+    throw new CommittingAppError(LOCKED_MESSAGE, 423);
+  }
+
+  /**
+   * Duration of the next lockout: the base duration doubled for every
+   * previous lockout, capped at the maximum duration
+   */
+  private lockoutDuration(previousLockouts: number): number {
+    const baseDuration = TimeUtils.parseExpiry(this.envVars.LOGIN_LOCKOUT_DURATION);
+    const maxDuration = TimeUtils.parseExpiry(this.envVars.LOGIN_LOCKOUT_MAX_DURATION);
+    return Math.min(baseDuration * 2 ** previousLockouts, maxDuration);
+  }
+}
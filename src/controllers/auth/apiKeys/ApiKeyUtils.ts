@@ -0,0 +1,24 @@
+import { ApiKey } from '../../../domain/interfaces/entities/ApiKey';
+import { ApiKeyResponse } from '../../../dto/auth/apiKeys/ApiKeyResponse';
+
+/**
+ * Utility functions for API key operations
+ */
+export class ApiKeyUtils {
+  /**
+   * Converts an ApiKey entity to an ApiKeyResponse DTO, leaving out the token hash
+   * @param apiKey - The API key entity to convert
+   * @returns ApiKeyResponse - The formatted response object
+   */
+  static toApiKeyResponse(apiKey: ApiKey): ApiKeyResponse {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      tokenPrefix: apiKey.tokenPrefix,
+      scopes: apiKey.scopes,
+      expiresAt: apiKey.expiresAt,
+      lastUsedAt: apiKey.lastUsedAt,
+      createdAt: apiKey.createdAt!
+    };
+  }
+}
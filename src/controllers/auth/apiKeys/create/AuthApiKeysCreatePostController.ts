@@ -0,0 +1,63 @@
+import { Body, Post, Route, Tags, Request, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+
+import { AuthController } from '../../AuthController';
+import { ApiKeyUtils } from '../ApiKeyUtils';
+import { CreateApiKeyRequest } from '../../../../dto/auth/apiKeys/create/CreateApiKeyRequest';
+import { CreateApiKeyResponse } from '../../../../dto/auth/apiKeys/create/CreateApiKeyResponse';
+import { getAuthenticatedUser } from '../../../../setup/middleware/authMiddleware';
+import { ApiKeyService } from '../../../../utils/ApiKeyService';
+import { AppError } from '../../../../setup/middleware/errorHandler';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../../domain/interfaces/DatabaseSession';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Route('auth')
+@Tags('Authentication')
+export class AuthApiKeysCreatePostController extends AuthController {
+  constructor(
+    envVars: EnvVars, containerDAO: ContainerDAO<unknown>, session: DatabaseSession<unknown>, now: number
+  ) {
+    super(envVars, containerDAO, session, now);
+  }
+
+  /**
+   * Create a personal access token (API key) for scripts and CI pipelines
+   * The token is returned only once and stored hashed. It authenticates as the
+   * user on the routes of its scopes, sent as `Authorization: Bearer pat_...`
+   * or in the `X-API-Key` header. A key cannot be granted scopes the access
+   * token creating it does not hold
+   */
+  @Post('api-keys')
+  @Security('Bearer')
+  public async createApiKey(
+    @Body() requestBody: CreateApiKeyRequest,
+    @Request() req: ExpressRequest
+  ): Promise<CreateApiKeyResponse> {
+    const { userId, username, scopes } = getAuthenticatedUser(req);
+
+    const missingScope = requestBody.scopes.find(scope => !scopes.includes(scope));
+    if (missingScope) {
+      throw new AppError(`Access token is missing the ${missingScope} scope`, 403);
+    }
+
+    const { token, tokenHash, tokenPrefix } = ApiKeyService.generate();
+    const expiresAt = requestBody.expiresInDays === undefined
+      ? null
+      : new Date(this.now + requestBody.expiresInDays * DAY_MS);
+
+    const apiKey = await this.containerDAO.apiKeyDAO.createApiKey(
+      this.session, userId, requestBody.name, tokenHash, tokenPrefix, requestBody.scopes, expiresAt, this.now
+    );
+
+    // Only the prefix identifies the key in the audit log; the token itself is never recorded
+    await this.recordAuditLog(
+      req, 'auth.api_key_create', { userId, username }, apiKey.id, this.now, undefined,
+      { name: apiKey.name, tokenPrefix: apiKey.tokenPrefix, scopes: apiKey.scopes, expiresAt: apiKey.expiresAt }
+    );
+
+    return { token, apiKey: ApiKeyUtils.toApiKeyResponse(apiKey) };
+  }
+}
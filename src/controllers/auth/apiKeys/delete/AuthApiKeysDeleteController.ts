@@ -0,0 +1,54 @@
+import { Delete, Route, Tags, Request, Path, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { AuthController } from '../../AuthController';
+import { ApiKeyDeleteResponse } from '../../../../dto/auth/apiKeys/ApiKeyDeleteResponse';
+import { getAuthenticatedUser } from '../../../../setup/middleware/authMiddleware';
+import { AppError } from '../../../../setup/middleware/errorHandler';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../../domain/interfaces/DatabaseSession';
+
+@Route('auth')
+@Tags('Authentication')
+export class AuthApiKeysDeleteController extends AuthController {
+  constructor(
+    envVars: EnvVars, containerDAO: ContainerDAO<unknown>, session: DatabaseSession<unknown>, now: number
+  ) {
+    super(envVars, containerDAO, session, now);
+  }
+
+  /**
+   * Delete one of the authenticated user's API keys; it is refused from then on
+   */
+  @Delete('api-keys/{apiKeyId}')
+  @Security('Bearer')
+  public async deleteApiKey(
+    @Path() apiKeyId: string,
+    @Request() req: ExpressRequest
+  ): Promise<ApiKeyDeleteResponse> {
+    const user = getAuthenticatedUser(req);
+
+    const apiKey = await this.containerDAO.apiKeyDAO.findById(apiKeyId);
+    if (!apiKey) {
+      throw new AppError('API key not found', 404);
+    }
+    if (apiKey.userId !== user.userId) {
+      throw new AppError('Access denied', 403);
+    }
+
+    const deleted = await this.containerDAO.apiKeyDAO.deleteApiKey(this.session, apiKeyId);
+    if (!deleted) {
+      throw new AppError('Resource conflict - please try again', 423);
+    }
+
+    await this.recordAuditLog(
+      req, 'auth.api_key_delete', user, apiKeyId, this.now,
+      { name: apiKey.name, tokenPrefix: apiKey.tokenPrefix, scopes: apiKey.scopes, expiresAt: apiKey.expiresAt }
+    );
+
+    return {
+      message: 'API key deleted successfully',
+      deletedAt: new Date(this.now)
+    };
+  }
+}
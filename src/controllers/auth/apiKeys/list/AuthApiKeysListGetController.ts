@@ -0,0 +1,36 @@
+import { Get, Route, Tags, Request, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { BaseCustomController } from '../../../CustomController';
+import { ApiKeyUtils } from '../ApiKeyUtils';
+import { ApiKeyListResponse } from '../../../../dto/auth/apiKeys/ApiKeyListResponse';
+import { getAuthenticatedUser } from '../../../../setup/middleware/authMiddleware';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+
+@Route('auth')
+@Tags('Authentication')
+export class AuthApiKeysListGetController extends BaseCustomController {
+  constructor(
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>
+  ) {
+    super(envVars, containerDAO);
+  }
+
+  /**
+   * List the API keys of the authenticated user, without their tokens
+   */
+  @Get('api-keys')
+  @Security('Bearer')
+  public async getApiKeys(
+    @Request() req: ExpressRequest
+  ): Promise<ApiKeyListResponse> {
+    const user = getAuthenticatedUser(req);
+
+    const apiKeys = await this.containerDAO.apiKeyDAO.findByUserId(user.userId);
+
+    return {
+      apiKeys: apiKeys.map(apiKey => ApiKeyUtils.toApiKeyResponse(apiKey))
+    };
+  }
+}
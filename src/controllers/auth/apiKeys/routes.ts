@@ -0,0 +1,92 @@
+import { Router, Request, Response } from 'express';
+import { AuthApiKeysCreatePostController } from './create/AuthApiKeysCreatePostController';
+import { AuthApiKeysListGetController } from './list/AuthApiKeysListGetController';
+import { AuthApiKeysDeleteController } from './delete/AuthApiKeysDeleteController';
+import { asyncHandler, dbTransactionHandler } from '../../../setup/middleware/errorHandler';
+import { validateRequestBody, validateRequestParams } from '../../../setup/middleware/classValidation';
+import { authMiddleware } from '../../../setup/middleware/authMiddleware';
+import { EnvVars } from '../../../setup/EnvVars';
+import { ContainerDAO } from '../../../domain/interfaces/ContainerDAO';
+import { CreateApiKeyRequest } from '../../../dto/auth/apiKeys/create/CreateApiKeyRequest';
+import { ApiKeyParams } from '../../../dto/auth/apiKeys/ApiKeyParams';
+import { DatabaseSession } from '../../../domain/interfaces/DatabaseSession';
+import { DatabaseSessionProducer } from '../../../domain/interfaces/DatabaseSessionProducer';
+import { TimestampProducer } from '../../../utils/TimestampProducer';
+
+/**
+ * Registers the API key (personal access token) management routes
+ * All routes require authentication with an access token: API keys cannot
+ * be used to manage API keys
+ * 
+ * @param router - Express router instance
+ * @param envVars - Environment variables configuration
+ * @param containerDAO - Container for all DAO instances
+ * @param databaseSessionProducer - Producer for database sessions
+ * @param timestampProducer - Producer for timestamps
+ */
+export function registerAuthApiKeyRoutes(
+  router: Router,
+  envVars: EnvVars,
+  containerDAO: ContainerDAO<unknown>,
+  databaseSessionProducer: DatabaseSessionProducer<unknown>,
+  timestampProducer: TimestampProducer
+): void {
+  const authenticate = authMiddleware(envVars, containerDAO, timestampProducer);
+
+  /**
+   * POST /auth/api-keys
+   * Create an API key for the authenticated user
+   * Requires authentication
+   * Requires: name (1-100 chars), scopes, expiresInDays (optional, 1-365)
+   * Returns: 201 with the token, shown only once, and the key data
+   */
+  router.post(
+    '/auth/api-keys',
+    authenticate,
+    validateRequestBody(CreateApiKeyRequest),
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new AuthApiKeysCreatePostController(
+          envVars, containerDAO, session, timestampProducer.getNow()
+        ).createApiKey(req.body, req);
+        return { statusCode: 201, data };
+      }
+    )
+  );
+
+  /**
+   * GET /auth/api-keys
+   * List the API keys of the authenticated user
+   * Requires authentication
+   * Returns: 200 with the keys, without their tokens
+   */
+  router.get(
+    '/auth/api-keys',
+    authenticate,
+    asyncHandler(async (req: Request, res: Response) => {
+      res.json(await new AuthApiKeysListGetController(envVars, containerDAO).getApiKeys(req));
+    })
+  );
+
+  /**
+   * DELETE /auth/api-keys/:apiKeyId
+   * Delete an API key of the authenticated user
+   * Requires authentication and key ownership
+   * Returns: 200 with deletion confirmation
+   */
+  router.delete(
+    '/auth/api-keys/:apiKeyId',
+    authenticate,
+    validateRequestParams(ApiKeyParams),
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new AuthApiKeysDeleteController(
+          envVars, containerDAO, session, timestampProducer.getNow()
+        ).deleteApiKey(req.params.apiKeyId, req);
+        return { statusCode: 200, data };
+      }
+    )
+  );
+}
@@ -0,0 +1,26 @@
+import { Get, Route, Tags, Request } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { BaseCustomController } from '../../CustomController';
+import { CsrfTokenResponse } from '../../../dto/auth/csrf/CsrfTokenResponse';
+import { AuthCookieService } from '../../../utils/AuthCookieService';
+import { EnvVars } from '../../../setup/EnvVars';
+import { ContainerDAO } from '../../../domain/interfaces/ContainerDAO';
+
+@Route('auth')
+@Tags('Authentication')
+export class AuthCsrfGetController extends BaseCustomController {
+  constructor(envVars: EnvVars, containerDAO: ContainerDAO<unknown>) {
+    super(envVars, containerDAO);
+  }
+
+  /**
+   * Get the CSRF token to send with cookie-authenticated requests
+   * Returns the token of the csrf_token cookie, or a new one when the browser has none.
+   * Frontends served from another origin cannot read the cookie of the API and
+   * use this endpoint instead, e.g. after a page reload
+   */
+  @Get('csrf')
+  public async getCsrfToken(@Request() req: ExpressRequest): Promise<CsrfTokenResponse> {
+    return { csrfToken: AuthCookieService.readCsrfToken(req) ?? AuthCookieService.generateCsrfToken() };
+  }
+}
@@ -0,0 +1,36 @@
+import { Router, Request, Response } from 'express';
+import { AuthCsrfGetController } from './AuthCsrfGetController';
+import { asyncHandler } from '../../../setup/middleware/errorHandler';
+import { EnvVars } from '../../../setup/EnvVars';
+import { ContainerDAO } from '../../../domain/interfaces/ContainerDAO';
+import { AuthCookieService } from '../../../utils/AuthCookieService';
+
+/**
+ * Registers the CSRF token route of browser clients using cookie authentication
+ * The token is checked by the csrfProtection middleware mounted in createApp
+ *
+ * @param router - Express router instance
+ * @param envVars - Environment variables configuration
+ * @param containerDAO - Container for all DAO instances
+ */
+export function registerAuthCsrfRoutes(
+  router: Router,
+  envVars: EnvVars,
+  containerDAO: ContainerDAO<unknown>
+): void {
+  /**
+   * GET /auth/csrf
+   * Get the CSRF token cookie-authenticated POST, PUT and DELETE requests must send as X-CSRF-Token header
+   * No authentication required
+   * Returns: 200 with the token of the csrf_token cookie, setting a new cookie when there is none
+   */
+  router.get(
+    '/auth/csrf',
+    asyncHandler(async (req: Request, res: Response) => {
+      const data = await new AuthCsrfGetController(envVars, containerDAO).getCsrfToken(req);
+      AuthCookieService.setCsrfTokenCookie(res, envVars, data.csrfToken);
+      res.set('Cache-Control', 'no-store');
+      res.json(data);
+    })
+  );
+}
@@ -0,0 +1,83 @@
+import { Router, Request } from 'express';
+import winston from 'winston';
+import { AuthEmailVerifyPostController } from './verify/AuthEmailVerifyPostController';
+import { AuthEmailVerifyResendPostController } from './verify/resend/AuthEmailVerifyResendPostController';
+import { dbTransactionHandler } from '../../../setup/middleware/errorHandler';
+import { validateRequestBody } from '../../../setup/middleware/classValidation';
+import { createRateLimiters } from '../../../setup/middleware/rateLimiters';
+import { EnvVars } from '../../../setup/EnvVars';
+import { ContainerDAO } from '../../../domain/interfaces/ContainerDAO';
+import { VerifyEmailRequest } from '../../../dto/auth/email/verify/VerifyEmailRequest';
+import {
+  ResendVerificationEmailRequest
+} from '../../../dto/auth/email/verify/resend/ResendVerificationEmailRequest';
+import { DatabaseSession } from '../../../domain/interfaces/DatabaseSession';
+import { DatabaseSessionProducer } from '../../../domain/interfaces/DatabaseSessionProducer';
+import { TimestampProducer } from '../../../utils/TimestampProducer';
+import { Mailer } from '../../../utils/Mailer';
+
+/**
+ * Registers the email verification routes
+ * Both routes are public: the verification link is opened from the mailbox
+ * 
+ * @param router - Express router instance
+ * @param envVars - Environment variables configuration
+ * @param containerDAO - Container for all DAO instances
+ * @param databaseSessionProducer - Producer for database sessions
+ * @param timestampProducer - Producer for timestamps
+ * @param logger - Winston logger for delivery failures
+ * @param mailer - Mailer delivering verification links
+ */
+export function registerAuthEmailRoutes(
+  router: Router,
+  envVars: EnvVars,
+  containerDAO: ContainerDAO<unknown>,
+  databaseSessionProducer: DatabaseSessionProducer<unknown>,
+  timestampProducer: TimestampProducer,
+  logger: winston.Logger,
+  mailer: Mailer
+): void {
+  const { emailVerificationLimiter } = createRateLimiters(envVars);
+
+  /**
+   * POST /auth/email/verify
+   * Verify an email address with a one-time verification token
+   * Requires: token
+   * Returns: 200 with confirmation
+   */
+  router.post(
+    '/auth/email/verify',
+    validateRequestBody(VerifyEmailRequest),
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new AuthEmailVerifyPostController(
+          envVars, containerDAO, session, timestampProducer.getNow()
+        ).verifyEmail(req.body);
+        return { statusCode: 200, data };
+      }
+    )
+  );
+
+  /**
+   * POST /auth/email/verify/resend
+   * Request a new verification link for an address awaiting verification
+   * Rate limited per client IP
+   * Requires: email
+   * Returns: 200 with the same confirmation whether or not the address awaits verification
+   */
+  router.post(
+    '/auth/email/verify/resend',
+    emailVerificationLimiter,
+    validateRequestBody(ResendVerificationEmailRequest),
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new AuthEmailVerifyResendPostController(
+          envVars, containerDAO, session, timestampProducer.getNow(), mailer, logger
+        ).resendVerificationEmail(req.body);
+        return { statusCode: 200, data };
+      }
+    )
+  );
+}
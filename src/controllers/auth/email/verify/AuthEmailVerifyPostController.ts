@@ -0,0 +1,50 @@
+import { Post, Body, Route, Tags } from 'tsoa';
+import { AuthController } from '../../AuthController';
+import { VerifyEmailRequest } from '../../../../dto/auth/email/verify/VerifyEmailRequest';
+import { VerifyEmailResponse } from '../../../../dto/auth/email/verify/VerifyEmailResponse';
+import { AppError } from '../../../../setup/middleware/errorHandler';
+import { OneTimeTokenService } from '../../../../utils/OneTimeTokenService';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../../domain/interfaces/DatabaseSession';
+
+@Route('auth')
+@Tags('Authentication')
+export class AuthEmailVerifyPostController extends AuthController {
+  constructor(
+    envVars: EnvVars, containerDAO: ContainerDAO<unknown>, session: DatabaseSession<unknown>, now: number
+  ) {
+    super(envVars, containerDAO, session, now);
+  }
+
+  /**
+   * Verify an email address with a one-time verification token
+   * The token can be used once and only verifies the address it was sent to
+   */
+  @Post('email/verify')
+  public async verifyEmail(
+    @Body() requestBody: VerifyEmailRequest
+  ): Promise<VerifyEmailResponse> {
+    const verificationToken = await this.containerDAO.emailVerificationTokenDAO.consumeEmailVerificationToken(
+      this.session, OneTimeTokenService.hash(requestBody.token), this.now
+    );
+    if (!verificationToken) {
+      throw new AppError('Invalid or expired verification token', 400);
+    }
+
+    const isVerified = await this.containerDAO.userDAO.markEmailVerified(
+      this.session, verificationToken.userId, verificationToken.email
+    );
+    if (!isVerified) {
+      throw new AppError('Invalid or expired verification token', 400);
+    }
+
+    await this.containerDAO.emailVerificationTokenDAO.invalidateAllUserEmailVerificationTokens(
+      this.session, verificationToken.userId, this.now
+    );
+
+    return {
+      message: 'Email verified successfully'
+    };
+  }
+}
@@ -0,0 +1,56 @@
+import { Post, Body, Route, Tags } from 'tsoa';
+import winston from 'winston';
+import { AuthController } from '../../../AuthController';
+import {
+  ResendVerificationEmailRequest
+} from '../../../../../dto/auth/email/verify/resend/ResendVerificationEmailRequest';
+import {
+  ResendVerificationEmailResponse
+} from '../../../../../dto/auth/email/verify/resend/ResendVerificationEmailResponse';
+import { Mailer } from '../../../../../utils/Mailer';
+import { EnvVars } from '../../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../../../domain/interfaces/DatabaseSession';
+
+@Route('auth')
+@Tags('Authentication')
+export class AuthEmailVerifyResendPostController extends AuthController {
+  private mailer: Mailer;
+  private logger: winston.Logger;
+
+  constructor(
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>,
+    session: DatabaseSession<unknown>,
+    now: number,
+    mailer: Mailer,
+    logger: winston.Logger
+  ) {
+    super(envVars, containerDAO, session, now);
+    this.mailer = mailer;
+    this.logger = logger;
+  }
+
+  /**
+   * Request a new email verification link
+   * Every account awaiting verification of the address gets its own link, and
+   * previous links stop working. The response is the same whether or not the
+   * address belongs to an account awaiting verification, so it cannot be used
+   * to discover registered addresses
+   */
+  @Post('email/verify/resend')
+  public async resendVerificationEmail(
+    @Body() requestBody: ResendVerificationEmailRequest
+  ): Promise<ResendVerificationEmailResponse> {
+    const email = requestBody.email.toLowerCase();
+
+    const users = await this.containerDAO.userDAO.findUnverifiedByEmail(email);
+    for (const user of users.filter(user => !user.isDisabled)) {
+      await this.sendVerificationEmail(user, email, this.mailer, this.logger);
+    }
+
+    return {
+      message: 'If the address awaits verification, a new verification link has been sent'
+    };
+  }
+}
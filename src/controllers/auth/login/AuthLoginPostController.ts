@@ -1,10 +1,13 @@
 import * as bcrypt from 'bcrypt';
-import { Post, Body, Route, Tags } from 'tsoa';
+import { Post, Body, Route, Tags, Request } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import winston from 'winston';
 
 import { AuthController } from '../AuthController';
 import { LoginRequest } from '../../../dto/auth/login/LoginRequest';
 import { AuthResponse } from '../../../dto/auth/AuthResponse';
-import { AppError } from '../../../setup/middleware/errorHandler';
+import { MfaChallengeResponse } from '../../../dto/auth/login/MfaChallengeResponse';
+import { TOKEN_SCOPES } from '../../../domain/interfaces/entities/TokenScope';
 import { EnvVars } from '../../../setup/EnvVars';
 import { ContainerDAO } from '../../../domain/interfaces/ContainerDAO';
 import { DatabaseSession } from '../../../domain/interfaces/DatabaseSession';
@@ -12,31 +15,60 @@ import { DatabaseSession } from '../../../domain/interfaces/DatabaseSession';
 @Route('auth')
 @Tags('Authentication')
 export class AuthLoginPostController extends AuthController {
+  private logger: winston.Logger;
+
   constructor(
-    envVars: EnvVars, containerDAO: ContainerDAO<unknown>, session: DatabaseSession<unknown>, now: number
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>,
+    session: DatabaseSession<unknown>,
+    now: number,
+    logger: winston.Logger
   ) {
     super(envVars, containerDAO, session, now);
+    this.logger = logger;
   }
 
   /**
-   * Login user
+   * Login user with a username or an email address
+   * Consecutive failed attempts lock the account for a while; every further
+   * lockout lasts twice as long, up to the configured maximum.
+   * Users with two-factor authentication receive a short-lived MFA token
+   * instead of tokens, to be completed at POST /auth/login/mfa.
+   * The tokens get every scope unless fewer are requested, e.g. read-only
+   * tokens for an integration
    */
   @Post('login')
   public async login(
-    @Body() requestBody: LoginRequest
-  ): Promise<AuthResponse> {
-    const { username, password } = requestBody;
+    @Body() requestBody: LoginRequest,
+    @Request() req: ExpressRequest
+  ): Promise<AuthResponse | MfaChallengeResponse> {
+    const { username: identifier, password, scopes = [...TOKEN_SCOPES] } = requestBody;
+
+    const user = await this.findUserByLoginIdentifier(identifier);
+    // Attempts are counted per account, so alternating username and email gives no extra guesses
+    const username = user?.username ?? identifier;
+
+    await this.assertLoginNotLocked(username);
 
-    const user = await this.containerDAO.userDAO.findByUsernameWithPassword(username);
-    if (!user) {
-      throw new AppError('Invalid credentials', 401);
+    const isPasswordValid = user ? await bcrypt.compare(password, user.password) : false;
+    if (!user || !isPasswordValid) {
+      return this.rejectFailedLogin(username, user?.id ?? null, req, this.logger, 'Invalid credentials');
     }
 
-    const isPasswordValid = await bcrypt.compare(password, user.password);
-    if (!isPasswordValid) {
-      throw new AppError('Invalid credentials', 401);
+    await this.assertLoginAllowed(user, req);
+
+    // Failed attempts are kept until the second factor is verified too, so
+    // knowing the password does not reset the lockout of code guesses
+    const totpCredential = await this.containerDAO.totpCredentialDAO.findByUserId(user.id);
+    if (totpCredential?.isConfirmed) {
+      return {
+        mfaRequired: true,
+        mfaToken: this.jwtService.generateMfaToken({ userId: user.id, username: user.username, scopes })
+      };
     }
 
-    return this.generateAndStoreTokens(user);
+    await this.containerDAO.loginAttemptDAO.resetLoginAttempts(this.session, username);
+
+    return this.generateAndStoreTokens(user, req, scopes);
   }
 }
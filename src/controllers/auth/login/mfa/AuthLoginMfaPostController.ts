@@ -0,0 +1,88 @@
+import { Post, Body, Route, Tags, Request } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import winston from 'winston';
+
+import { AuthController } from '../../AuthController';
+import { MfaLoginRequest } from '../../../../dto/auth/login/mfa/MfaLoginRequest';
+import { AuthResponse } from '../../../../dto/auth/AuthResponse';
+import { AppError } from '../../../../setup/middleware/errorHandler';
+import { TotpService } from '../../../../utils/TotpService';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../../domain/interfaces/DatabaseSession';
+import { TotpCredential } from '../../../../domain/interfaces/entities/TotpCredential';
+
+@Route('auth')
+@Tags('Authentication')
+export class AuthLoginMfaPostController extends AuthController {
+  private logger: winston.Logger;
+
+  constructor(
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>,
+    session: DatabaseSession<unknown>,
+    now: number,
+    logger: winston.Logger
+  ) {
+    super(envVars, containerDAO, session, now);
+    this.logger = logger;
+  }
+
+  /**
+   * Complete a login with a second factor
+   * Accepts the current authenticator code or an unused recovery code; wrong
+   * codes count towards the login lockout of the username
+   */
+  @Post('login/mfa')
+  public async loginWithMfa(
+    @Body() requestBody: MfaLoginRequest,
+    @Request() req: ExpressRequest
+  ): Promise<AuthResponse> {
+    const { mfaToken, code } = requestBody;
+
+    const { userId, username, scopes } = this.jwtService.verifyMfaToken(mfaToken);
+
+    await this.assertLoginNotLocked(username);
+
+    const user = await this.containerDAO.userDAO.findById(userId);
+    const totpCredential = user ? await this.containerDAO.totpCredentialDAO.findByUserId(user.id) : null;
+    if (!user || !totpCredential?.isConfirmed) {
+      throw new AppError('Invalid or expired MFA token', 401);
+    }
+
+    await this.assertLoginAllowed(user, req);
+
+    const isCodeValid = await this.useSecondFactor(totpCredential, code.trim());
+    if (!isCodeValid) {
+      return this.rejectFailedLogin(username, user.id, req, this.logger, 'Invalid verification code');
+    }
+
+    await this.containerDAO.loginAttemptDAO.resetLoginAttempts(this.session, username);
+
+    return this.generateAndStoreTokens(user, req, scopes);
+  }
+
+  /**
+   * Accepts a TOTP code whose time step was not used yet, or else an unused recovery code
+   */
+  private async useSecondFactor(totpCredential: TotpCredential, code: string): Promise<boolean> {
+    const step = TotpService.matchStep(totpCredential.secret, code, this.now);
+    if (step !== null) {
+      return this.containerDAO.totpCredentialDAO.useStep(this.session, totpCredential.userId, step, this.now);
+    }
+
+    const updatedCredential = await this.containerDAO.totpCredentialDAO.useRecoveryCode(
+      this.session, totpCredential.userId, TotpService.hashRecoveryCode(code), this.now
+    );
+    if (!updatedCredential) {
+      return false;
+    }
+
+    this.logger.info('Recovery code used for login', {
+      event: 'mfa_recovery_code_used',
+      userId: totpCredential.userId,
+      remainingRecoveryCodes: updatedCredential.recoveryCodeHashes.length
+    });
+    return true;
+  }
+}
@@ -1,9 +1,12 @@
-import { Post, Body, Route, Tags } from 'tsoa';
+import { Post, Body, Route, Tags, Request } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
 
 import { AuthController } from '../AuthController';
 import { LogoutRequest } from '../../../dto/auth/logout/LogoutRequest';
 import { LogoutResponse } from '../../../dto/auth/logout/LogoutResponse';
 import { AppError } from '../../../setup/middleware/errorHandler';
+import { AuthCookieService } from '../../../utils/AuthCookieService';
+import { TokenDBUtils } from '../../../domain/utils/TokenDBUtils';
 import { EnvVars } from '../../../setup/EnvVars';
 import { ContainerDAO } from '../../../domain/interfaces/ContainerDAO';
 import { DatabaseSession } from '../../../domain/interfaces/DatabaseSession';
@@ -21,13 +24,27 @@ export class AuthLogoutPostController extends AuthController {
   }
 
   /**
-   * Logout user by invalidating both access and refresh tokens
+   * Logout user by ending their session and revoking every access and refresh token issued for it
+   * Browser clients using AUTH_COOKIES send the tokens carried by cookies instead of the body fields
    * @param requestBody - Logout request containing both tokens
+   * @param req - Express request carrying the token cookies
    * @returns Promise<LogoutResponse> - Logout confirmation
    */
   @Post('logout')
-  public async logout(@Body() requestBody: LogoutRequest): Promise<LogoutResponse> {
-    const { accessToken, refreshToken } = requestBody;
+  public async logout(
+    @Body() requestBody: LogoutRequest,
+    @Request() req: ExpressRequest
+  ): Promise<LogoutResponse> {
+    const accessToken = requestBody.accessToken
+      ?? AuthCookieService.readTokenCookie(req, this.envVars, AuthCookieService.ACCESS_TOKEN_COOKIE);
+    const refreshToken = requestBody.refreshToken
+      ?? AuthCookieService.readTokenCookie(req, this.envVars, AuthCookieService.REFRESH_TOKEN_COOKIE);
+    if (!accessToken) {
+      throw new AppError('Access token is required', 400);
+    }
+    if (!refreshToken) {
+      throw new AppError('Refresh token is required', 400);
+    }
 
     const accessTokenPayload = this.jwtService.verifyAccessToken(accessToken);
     const refreshTokenPayload = this.jwtService.verifyRefreshToken(refreshToken);
@@ -35,18 +52,31 @@ export class AuthLogoutPostController extends AuthController {
       throw new AppError('Invalid tokens', 401);
     }
 
-    await this.revokeTokenIfValid(
+    const storedAccessToken = await this.findOwnedToken(
       accessToken,
       accessTokenPayload.userId,
-      () => this.containerDAO.accessTokenDAO.findAccessToken(accessToken),
-      (token) => this.containerDAO.accessTokenDAO.revokeAccessToken(this.session, token, this.now)
+      (token) => this.containerDAO.accessTokenDAO.findAccessToken(token)
     );
-
-    await this.revokeTokenIfValid(
+    const storedRefreshToken = await this.findOwnedToken(
       refreshToken,
       accessTokenPayload.userId,
-      () => this.containerDAO.refreshTokenDAO.findRefreshToken(refreshToken),
-      (token) => this.containerDAO.refreshTokenDAO.revokeRefreshToken(this.session, token, this.now)
+      (token) => this.containerDAO.refreshTokenDAO.findRefreshToken(token)
+    );
+
+    // Every token of the session is revoked, including access tokens issued before the ones sent
+    const familyIds = new Set([storedAccessToken?.familyId, storedRefreshToken?.familyId]);
+    for (const familyId of familyIds) {
+      if (familyId) {
+        await TokenDBUtils.revokeTokenFamily(this.containerDAO, this.session, familyId, this.now);
+      }
+    }
+
+    await this.recordAuditLog(
+      req,
+      'auth.logout',
+      { userId: accessTokenPayload.userId, username: accessTokenPayload.username },
+      storedAccessToken?.familyId ?? storedRefreshToken?.familyId ?? null,
+      this.now
     );
 
     return {
@@ -56,28 +86,21 @@ export class AuthLogoutPostController extends AuthController {
   }
 
   /**
-   * Generic method to revoke a token if it exists and is valid
+   * Finds a stored token that is still valid and checks it belongs to the expected user
    * @param token - The token string
    * @param expectedUserId - Expected user ID for validation
    * @param findToken - Function to find the token in database
-   * @param revokeToken - Function to revoke the token
+   * @returns The stored token, or null if it was not found or is already revoked
    */
-  private async revokeTokenIfValid<T extends { userId: string; isRevoked: boolean }>(
+  private async findOwnedToken<T extends { userId: string }>(
     token: string,
     expectedUserId: string,
-    findToken: () => Promise<T | null>,
-    revokeToken: (token: string) => Promise<boolean>
-  ): Promise<void> {
-    const storedToken = await findToken();
-    if (storedToken) {
-      if (storedToken.userId !== expectedUserId) {
-        throw new AppError('Token mismatch - tokens belong to different user', 401);
-      } else if (!storedToken.isRevoked) {
-        const revoked = await revokeToken(token);
-        if (!revoked) {
-          throw new AppError('Failed to revoke tokens', 500);
-        }
-      }
+    findToken: (token: string) => Promise<T | null>
+  ): Promise<T | null> {
+    const storedToken = await findToken(token);
+    if (storedToken && storedToken.userId !== expectedUserId) {
+      throw new AppError('Token mismatch - tokens belong to different user', 401);
     }
+    return storedToken;
   }
 }
@@ -0,0 +1,99 @@
+import { Router, Request } from 'express';
+import { AuthMfaTotpEnrollPostController } from './totp/enroll/AuthMfaTotpEnrollPostController';
+import { AuthMfaTotpConfirmPostController } from './totp/confirm/AuthMfaTotpConfirmPostController';
+import { AuthMfaTotpDisablePostController } from './totp/disable/AuthMfaTotpDisablePostController';
+import { dbTransactionHandler } from '../../../setup/middleware/errorHandler';
+import { validateRequestBody } from '../../../setup/middleware/classValidation';
+import { authMiddleware } from '../../../setup/middleware/authMiddleware';
+import { EnvVars } from '../../../setup/EnvVars';
+import { ContainerDAO } from '../../../domain/interfaces/ContainerDAO';
+import { TotpConfirmRequest } from '../../../dto/auth/mfa/totp/confirm/TotpConfirmRequest';
+import { TotpDisableRequest } from '../../../dto/auth/mfa/totp/disable/TotpDisableRequest';
+import { DatabaseSession } from '../../../domain/interfaces/DatabaseSession';
+import { DatabaseSessionProducer } from '../../../domain/interfaces/DatabaseSessionProducer';
+import { TimestampProducer } from '../../../utils/TimestampProducer';
+
+/**
+ * Registers the two-factor authentication management routes
+ * All routes require authentication; completing a login with a second factor
+ * is part of the authentication routes (POST /auth/login/mfa)
+ * 
+ * @param router - Express router instance
+ * @param envVars - Environment variables configuration
+ * @param containerDAO - Container for all DAO instances
+ * @param databaseSessionProducer - Producer for database sessions
+ * @param timestampProducer - Producer for timestamps
+ */
+export function registerAuthMfaRoutes(
+  router: Router,
+  envVars: EnvVars,
+  containerDAO: ContainerDAO<unknown>,
+  databaseSessionProducer: DatabaseSessionProducer<unknown>,
+  timestampProducer: TimestampProducer
+): void {
+  const authenticate = authMiddleware(envVars, containerDAO, timestampProducer);
+
+  /**
+   * POST /auth/mfa/totp/enroll
+   * Start enrolling an authenticator app
+   * Requires authentication
+   * Returns: 200 with the secret, otpauth URI and one-time recovery codes
+   */
+  router.post(
+    '/auth/mfa/totp/enroll',
+    authenticate,
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new AuthMfaTotpEnrollPostController(
+          envVars, containerDAO, session, timestampProducer.getNow()
+        ).enroll(req);
+        return { statusCode: 200, data };
+      }
+    )
+  );
+
+  /**
+   * POST /auth/mfa/totp/confirm
+   * Confirm the enrollment with a first authenticator code, enabling two-factor authentication
+   * Requires authentication
+   * Requires: code
+   * Returns: 200 with confirmation message
+   */
+  router.post(
+    '/auth/mfa/totp/confirm',
+    authenticate,
+    validateRequestBody(TotpConfirmRequest),
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new AuthMfaTotpConfirmPostController(
+          envVars, containerDAO, session, timestampProducer.getNow()
+        ).confirm(req.body, req);
+        return { statusCode: 200, data };
+      }
+    )
+  );
+
+  /**
+   * POST /auth/mfa/totp/disable
+   * Turn two-factor authentication off
+   * Requires authentication
+   * Requires: password
+   * Returns: 200 with confirmation message
+   */
+  router.post(
+    '/auth/mfa/totp/disable',
+    authenticate,
+    validateRequestBody(TotpDisableRequest),
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new AuthMfaTotpDisablePostController(
+          envVars, containerDAO, session, timestampProducer.getNow()
+        ).disable(req.body, req);
+        return { statusCode: 200, data };
+      }
+    )
+  );
+}
@@ -0,0 +1,63 @@
+import { Post, Body, Route, Tags, Request, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+
+import { AuthController } from '../../../AuthController';
+import { TotpConfirmRequest } from '../../../../../dto/auth/mfa/totp/confirm/TotpConfirmRequest';
+import { TotpConfirmResponse } from '../../../../../dto/auth/mfa/totp/confirm/TotpConfirmResponse';
+import { getAuthenticatedUser } from '../../../../../setup/middleware/authMiddleware';
+import { AppError } from '../../../../../setup/middleware/errorHandler';
+import { TotpService } from '../../../../../utils/TotpService';
+import { EnvVars } from '../../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../../../domain/interfaces/DatabaseSession';
+
+@Route('auth')
+@Tags('Authentication')
+export class AuthMfaTotpConfirmPostController extends AuthController {
+  constructor(
+    envVars: EnvVars, containerDAO: ContainerDAO<unknown>, session: DatabaseSession<unknown>, now: number
+  ) {
+    super(envVars, containerDAO, session, now);
+  }
+
+  /**
+   * Confirm the enrollment with a first code from the authenticator app
+   * From now on, logins require a code or a recovery code
+   */
+  @Post('mfa/totp/confirm')
+  @Security('Bearer')
+  public async confirm(
+    @Body() requestBody: TotpConfirmRequest,
+    @Request() req: ExpressRequest
+  ): Promise<TotpConfirmResponse> {
+    const { userId, username } = getAuthenticatedUser(req);
+
+    const credential = await this.containerDAO.totpCredentialDAO.findByUserId(userId);
+    if (credential?.isConfirmed) {
+      throw new AppError('Two-factor authentication is already enabled', 409);
+    }
+    if (!credential) {
+      throw new AppError('No two-factor enrollment in progress', 400);
+    }
+
+    const step = TotpService.matchStep(credential.secret, requestBody.code.trim(), this.now);
+    if (step === null) {
+      throw new AppError('Invalid verification code', 400);
+    }
+
+    const confirmed = await this.containerDAO.totpCredentialDAO.confirmCredential(
+      this.session, userId, step, this.now
+    );
+    if (!confirmed) {
+      throw new AppError('Resource conflict - please try again', 423);
+    }
+
+    await this.recordAuditLog(
+      req, 'auth.mfa_enable', { userId, username }, userId, this.now, { isMfaEnabled: false }, { isMfaEnabled: true }
+    );
+
+    return {
+      message: 'Two-factor authentication enabled'
+    };
+  }
+}
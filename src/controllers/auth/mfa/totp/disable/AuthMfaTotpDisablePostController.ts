@@ -0,0 +1,58 @@
+import * as bcrypt from 'bcrypt';
+import { Post, Body, Route, Tags, Request, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+
+import { AuthController } from '../../../AuthController';
+import { TotpDisableRequest } from '../../../../../dto/auth/mfa/totp/disable/TotpDisableRequest';
+import { TotpDisableResponse } from '../../../../../dto/auth/mfa/totp/disable/TotpDisableResponse';
+import { getAuthenticatedUser } from '../../../../../setup/middleware/authMiddleware';
+import { AppError } from '../../../../../setup/middleware/errorHandler';
+import { EnvVars } from '../../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../../../domain/interfaces/DatabaseSession';
+
+@Route('auth')
+@Tags('Authentication')
+export class AuthMfaTotpDisablePostController extends AuthController {
+  constructor(
+    envVars: EnvVars, containerDAO: ContainerDAO<unknown>, session: DatabaseSession<unknown>, now: number
+  ) {
+    super(envVars, containerDAO, session, now);
+  }
+
+  /**
+   * Turn two-factor authentication off
+   * Requires the current password; removes the secret and every recovery code
+   */
+  @Post('mfa/totp/disable')
+  @Security('Bearer')
+  public async disable(
+    @Body() requestBody: TotpDisableRequest,
+    @Request() req: ExpressRequest
+  ): Promise<TotpDisableResponse> {
+    const authenticatedUser = getAuthenticatedUser(req);
+
+    const user = await this.containerDAO.userDAO.findByUsernameWithPassword(authenticatedUser.username);
+    if (!user || user.id !== authenticatedUser.userId) {
+      throw new AppError('User not found', 404);
+    }
+
+    const isPasswordValid = await bcrypt.compare(requestBody.password, user.password);
+    if (!isPasswordValid) {
+      throw new AppError('Password is incorrect', 400);
+    }
+
+    const deleted = await this.containerDAO.totpCredentialDAO.deleteCredential(this.session, user.id);
+    if (!deleted) {
+      throw new AppError('Two-factor authentication is not enabled', 400);
+    }
+
+    await this.recordAuditLog(
+      req, 'auth.mfa_disable', authenticatedUser, user.id, this.now, { isMfaEnabled: true }, { isMfaEnabled: false }
+    );
+
+    return {
+      message: 'Two-factor authentication disabled'
+    };
+  }
+}
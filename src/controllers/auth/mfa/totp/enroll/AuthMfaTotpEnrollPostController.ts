@@ -0,0 +1,57 @@
+import { Post, Route, Tags, Request, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+
+import { AuthController } from '../../../AuthController';
+import { TotpEnrollResponse } from '../../../../../dto/auth/mfa/totp/enroll/TotpEnrollResponse';
+import { getAuthenticatedUser } from '../../../../../setup/middleware/authMiddleware';
+import { AppError } from '../../../../../setup/middleware/errorHandler';
+import { TotpService } from '../../../../../utils/TotpService';
+import { EnvVars } from '../../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../../../domain/interfaces/DatabaseSession';
+
+@Route('auth')
+@Tags('Authentication')
+export class AuthMfaTotpEnrollPostController extends AuthController {
+  constructor(
+    envVars: EnvVars, containerDAO: ContainerDAO<unknown>, session: DatabaseSession<unknown>, now: number
+  ) {
+    super(envVars, containerDAO, session, now);
+  }
+
+  /**
+   * Start enrolling an authenticator app for two-factor authentication
+   * Returns the secret and one-time recovery codes; logins require a code only
+   * after the enrollment is confirmed. Enrolling again replaces an unconfirmed enrollment
+   */
+  @Post('mfa/totp/enroll')
+  @Security('Bearer')
+  public async enroll(
+    @Request() req: ExpressRequest
+  ): Promise<TotpEnrollResponse> {
+    const { userId, username } = getAuthenticatedUser(req);
+
+    const existingCredential = await this.containerDAO.totpCredentialDAO.findByUserId(userId);
+    if (existingCredential?.isConfirmed) {
+      throw new AppError('Two-factor authentication is already enabled', 409);
+    }
+
+    const secret = TotpService.generateSecret();
+    const recoveryCodes = TotpService.generateRecoveryCodes();
+
+    const credential = await this.containerDAO.totpCredentialDAO.savePendingCredential(
+      this.session, userId, secret, recoveryCodes.map(recoveryCode => recoveryCode.codeHash), this.now
+    );
+    if (!credential) {
+      throw new AppError('Two-factor authentication is already enabled', 409);
+    }
+
+    await this.recordAuditLog(req, 'auth.mfa_enroll', { userId, username }, userId, this.now);
+
+    return {
+      secret,
+      otpauthUri: TotpService.buildUri(this.envVars.TOTP_ISSUER, username, secret),
+      recoveryCodes: recoveryCodes.map(recoveryCode => recoveryCode.code)
+    };
+  }
+}
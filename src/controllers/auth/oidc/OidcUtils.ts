@@ -0,0 +1,66 @@
+import { CookieOptions } from 'express';
+import { AppError } from '../../../setup/middleware/errorHandler';
+import { EnvVars } from '../../../setup/EnvVars';
+import { OidcClient } from '../../../utils/OidcClient';
+
+/** Name of the cookie keeping the state token between start and callback */
+export const OIDC_STATE_COOKIE = 'oidc_state';
+
+/**
+ * Utility functions for OpenID Connect sign-in operations
+ */
+export class OidcUtils {
+  /**
+   * Creates one client per configured provider
+   * Clients cache the provider metadata and keys, so they are created once at startup
+   * @param envVars - Environment variables with the provider settings
+   * @returns Clients by provider name
+   */
+  static createClients(envVars: EnvVars): Map<string, OidcClient> {
+    return new Map(envVars.OIDC_PROVIDERS.map(provider => [
+      provider.name,
+      new OidcClient(provider, `${envVars.OIDC_REDIRECT_BASE_URL}${this.callbackPath(provider.name)}`)
+    ]));
+  }
+
+  /**
+   * Finds the client of a provider or throws a 404 error if it is not configured
+   * @param oidcClients - Clients by provider name
+   * @param provider - Provider name from the request path
+   * @returns OidcClient - The client of the provider
+   * @throws AppError with 404 status if the provider is unknown
+   */
+  static findClientOr404(oidcClients: Map<string, OidcClient>, provider: string): OidcClient {
+    const client = oidcClients.get(provider);
+    if (!client) {
+      throw new AppError('OIDC provider not found', 404);
+    }
+    return client;
+  }
+
+  /**
+   * Returns the path of the callback route of a provider
+   * @param provider - Provider name
+   * @returns Path the provider redirects back to
+   */
+  static callbackPath(provider: string): string {
+    return `/auth/oidc/${provider}/callback`;
+  }
+
+  /**
+   * Returns the options of the state cookie, without lifetime so they also clear it
+   * The cookie is only sent to the callback of the provider; SameSite=Lax
+   * lets it follow the top-level redirect back from the provider
+   * @param envVars - Environment variables configuration
+   * @param provider - Provider name
+   * @returns Cookie options for setting and clearing the state cookie
+   */
+  static stateCookieOptions(envVars: EnvVars, provider: string): CookieOptions {
+    return {
+      httpOnly: true,
+      secure: envVars.isProduction,
+      sameSite: 'lax',
+      path: this.callbackPath(provider)
+    };
+  }
+}
@@ -0,0 +1,167 @@
+import * as bcrypt from 'bcrypt';
+import { randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import { Get, Path, Query, Route, Tags, Request } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+
+import { AuthController } from '../../AuthController';
+import { AuthResponse } from '../../../../dto/auth/AuthResponse';
+import { MfaChallengeResponse } from '../../../../dto/auth/login/MfaChallengeResponse';
+import { AppError } from '../../../../setup/middleware/errorHandler';
+import { TOKEN_SCOPES } from '../../../../domain/interfaces/entities/TokenScope';
+import { OidcClient, OidcIdentity } from '../../../../utils/OidcClient';
+import { OIDC_STATE_COOKIE, OidcUtils } from '../OidcUtils';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../../domain/interfaces/DatabaseSession';
+import { User } from '../../../../domain/interfaces/entities/User';
+
+const CONFLICT_MESSAGE = 'Resource conflict - please try again';
+
+@Route('auth')
+@Tags('Authentication')
+export class AuthOidcCallbackGetController extends AuthController {
+  private oidcClients: Map<string, OidcClient>;
+
+  constructor(
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>,
+    session: DatabaseSession<unknown>,
+    now: number,
+    oidcClients: Map<string, OidcClient>
+  ) {
+    super(envVars, containerDAO, session, now);
+    this.oidcClients = oidcClients;
+  }
+
+  /**
+   * Complete a sign-in with an OpenID Connect provider
+   * The provider redirects here with an authorization code. A provider account
+   * signs in the user it is linked to; otherwise it is linked to the account
+   * with the same verified email address, or a new account is created.
+   * Users with two-factor authentication receive an MFA token instead of
+   * tokens, to be completed at POST /auth/login/mfa
+   */
+  @Get('oidc/{provider}/callback')
+  public async callback(
+    @Path() provider: string,
+    @Request() req: ExpressRequest,
+    @Query() code?: string,
+    @Query() state?: string,
+    @Query() error?: string
+  ): Promise<AuthResponse | MfaChallengeResponse> {
+    const client = OidcUtils.findClientOr404(this.oidcClients, provider);
+
+    if (error) {
+      throw new AppError('Sign-in was cancelled or refused by the provider', 401);
+    }
+    if (!code || !state) {
+      throw new AppError('Authorization code and state are required', 400);
+    }
+
+    // The state must match the cookie of the browser that started the sign-in
+    const statePayload = this.jwtService.verifyOidcStateToken(req.cookies?.[OIDC_STATE_COOKIE] ?? '');
+    if (statePayload.provider !== provider || !this.isSameValue(statePayload.state, state)) {
+      throw new AppError('Invalid or expired OIDC state', 400);
+    }
+
+    const identity = await client.exchangeCode(code, statePayload.codeVerifier, statePayload.nonce, this.now);
+    const user = await this.findOrLinkUser(provider, identity);
+
+    await this.assertLoginAllowed(user, req);
+
+    const totpCredential = await this.containerDAO.totpCredentialDAO.findByUserId(user.id);
+    if (totpCredential?.isConfirmed) {
+      return {
+        mfaRequired: true,
+        mfaToken: this.jwtService.generateMfaToken({
+          userId: user.id, username: user.username, scopes: [...TOKEN_SCOPES]
+        })
+      };
+    }
+
+    return this.generateAndStoreTokens(user, req);
+  }
+
+  /**
+   * Returns the user a provider account signs in, linking the account on its first sign-in
+   * Only a verified email address links to an existing account, and only when
+   * the account verified the address too: otherwise whoever registered the
+   * address first could take over the account of its owner. A new account
+   * takes the address from accounts that registered it without verifying it
+   */
+  private async findOrLinkUser(provider: string, identity: OidcIdentity): Promise<User> {
+    const linkedIdentityDAO = this.containerDAO.linkedIdentityDAO;
+
+    const linkedIdentity = await linkedIdentityDAO.findByProviderSubject(provider, identity.subject);
+    if (linkedIdentity) {
+      await linkedIdentityDAO.recordLogin(this.session, linkedIdentity.id, identity.email, this.now);
+      const linkedUser = await this.containerDAO.userDAO.findById(linkedIdentity.userId);
+      if (!linkedUser) {
+        throw new AppError(CONFLICT_MESSAGE, 423);
+      }
+      return linkedUser;
+    }
+
+    const existingUser = identity.email ? await this.containerDAO.userDAO.findByEmail(identity.email) : null;
+
+    const user = existingUser ?? await this.createUser(provider, identity);
+
+    const created = await linkedIdentityDAO.createLinkedIdentity(
+      this.session, user.id, provider, identity.subject, identity.email, this.now
+    );
+    if (!created) {
+      throw new AppError(CONFLICT_MESSAGE, 423); // Linked by a concurrent sign-in
+    }
+    return user;
+  }
+
+  /**
+   * Creates the account of a provider account without a matching user
+   * The password is random: the user signs in with the provider, or sets a
+   * password with the password reset flow
+   */
+  private async createUser(provider: string, identity: OidcIdentity): Promise<User> {
+    const username = await this.findAvailableUsername(identity.preferredUsername ?? identity.email?.split('@')[0] ?? provider);
+    const hashedPassword = await bcrypt.hash(randomBytes(32).toString('hex'), 12);
+
+    const user = await this.containerDAO.userDAO.createUser(
+      this.session, username, hashedPassword, ['user'], identity.email
+    );
+    if (!user) {
+      throw new AppError(CONFLICT_MESSAGE, 423); // Username taken by a concurrent registration
+    }
+
+    if (identity.email) {
+      await this.containerDAO.userDAO.markEmailVerified(this.session, user.id, identity.email);
+      return { ...user, isEmailVerified: true };
+    }
+    return user;
+  }
+
+  /**
+   * Turns a suggestion into a valid username nobody uses yet
+   * Usernames listed in ADMIN_USERNAMES are never handed out, so a provider
+   * account cannot take the username the admin seed would promote
+   */
+  private async findAvailableUsername(suggestion: string): Promise<string> {
+    const base = suggestion.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 40).padEnd(3, '_');
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const candidate = attempt === 0 ? base : `${base}_${randomInt(1000, 10000)}`;
+      const isReserved = this.envVars.ADMIN_USERNAMES.includes(candidate);
+      if (!isReserved && !(await this.containerDAO.userDAO.findByUsername(candidate))) {
+        return candidate;
+      }
+    }
+    throw new AppError(CONFLICT_MESSAGE, 423);
+  }
+
+  /**
+   * Compares the state values in constant time
+   */
+  private isSameValue(expected: string, actual: string): boolean {
+    const expectedBuffer = Buffer.from(expected);
+    const actualBuffer = Buffer.from(actual);
+    return expectedBuffer.length === actualBuffer.length && timingSafeEqual(expectedBuffer, actualBuffer);
+  }
+}
@@ -0,0 +1,90 @@
+import { Router, Request, Response } from 'express';
+import { AuthOidcStartGetController } from './start/AuthOidcStartGetController';
+import { AuthOidcCallbackGetController } from './callback/AuthOidcCallbackGetController';
+import { OIDC_STATE_COOKIE, OidcUtils } from './OidcUtils';
+import { asyncHandler, dbTransactionHandler } from '../../../setup/middleware/errorHandler';
+import { createRateLimiters } from '../../../setup/middleware/rateLimiters';
+import { EnvVars } from '../../../setup/EnvVars';
+import { ContainerDAO } from '../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../domain/interfaces/DatabaseSession';
+import { DatabaseSessionProducer } from '../../../domain/interfaces/DatabaseSessionProducer';
+import { TimestampProducer } from '../../../utils/TimestampProducer';
+import { TimeUtils } from '../../../utils/TimeUtils';
+import { AuthCookieService } from '../../../utils/AuthCookieService';
+
+/**
+ * Returns a query parameter given once, ignoring repeated and nested parameters
+ */
+function singleQueryValue(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Registers the OpenID Connect sign-in routes
+ * Both routes are public and visited by the browser: start redirects to the
+ * provider, which redirects back to the callback
+ *
+ * @param router - Express router instance
+ * @param envVars - Environment variables configuration
+ * @param containerDAO - Container for all DAO instances
+ * @param databaseSessionProducer - Producer for database sessions
+ * @param timestampProducer - Producer for timestamps
+ */
+export function registerAuthOidcRoutes(
+  router: Router,
+  envVars: EnvVars,
+  containerDAO: ContainerDAO<unknown>,
+  databaseSessionProducer: DatabaseSessionProducer<unknown>,
+  timestampProducer: TimestampProducer
+): void {
+  const { strictLimiter } = createRateLimiters(envVars);
+  const oidcClients = OidcUtils.createClients(envVars);
+
+  /**
+   * GET /auth/oidc/:provider/start
+   * Start a sign-in with a configured OpenID Connect provider
+   * Returns: 302 to the sign-in page of the provider, setting the state cookie
+   */
+  router.get(
+    '/auth/oidc/:provider/start',
+    asyncHandler(async (req: Request, res: Response) => {
+      const { provider } = req.params;
+      const { authorizationUrl, stateToken } = await new AuthOidcStartGetController(
+        envVars, containerDAO, oidcClients, timestampProducer.getNow()
+      ).start(provider);
+      res.cookie(OIDC_STATE_COOKIE, stateToken, {
+        ...OidcUtils.stateCookieOptions(envVars, provider),
+        maxAge: TimeUtils.parseExpiry(envVars.OIDC_STATE_EXPIRES_IN)
+      });
+      res.redirect(302, authorizationUrl);
+    })
+  );
+
+  /**
+   * GET /auth/oidc/:provider/callback
+   * Complete a sign-in, linking the provider account on its first use
+   * Rate limited per client IP (failed requests only)
+   * Requires: code and state query parameters set by the provider, state cookie
+   * Returns: 200 with tokens and user data, or an MFA token for users with two-factor authentication;
+   * with AUTH_COOKIES the tokens are set as cookies
+   */
+  router.get(
+    '/auth/oidc/:provider/callback',
+    strictLimiter,
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request, res: Response) => {
+        const { provider } = req.params;
+        // A state can only be used once, whatever the outcome
+        if (oidcClients.has(provider)) {
+          res.clearCookie(OIDC_STATE_COOKIE, OidcUtils.stateCookieOptions(envVars, provider));
+        }
+        const { code, state, error } = req.query;
+        const data = await new AuthOidcCallbackGetController(
+          envVars, containerDAO, session, timestampProducer.getNow(), oidcClients
+        ).callback(provider, req, singleQueryValue(code), singleQueryValue(state), singleQueryValue(error));
+        return { statusCode: 200, data: AuthCookieService.setTokenCookies(res, envVars, data) };
+      }
+    )
+  );
+}
@@ -0,0 +1,50 @@
+import { Get, Path, Route, Tags, SuccessResponse } from 'tsoa';
+
+import { BaseCustomController } from '../../../CustomController';
+import { OidcAuthorizationRedirect } from '../../../../dto/auth/oidc/start/OidcAuthorizationRedirect';
+import { JWTService } from '../../../../utils/JWTService';
+import { OidcClient } from '../../../../utils/OidcClient';
+import { OidcUtils } from '../OidcUtils';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+
+@Route('auth')
+@Tags('Authentication')
+export class AuthOidcStartGetController extends BaseCustomController {
+  private oidcClients: Map<string, OidcClient>;
+  private now: number;
+
+  constructor(
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>,
+    oidcClients: Map<string, OidcClient>,
+    now: number
+  ) {
+    super(envVars, containerDAO);
+    this.oidcClients = oidcClients;
+    this.now = now;
+  }
+
+  /**
+   * Start a sign-in with an OpenID Connect provider
+   * Redirects the browser to the sign-in page of the provider (authorization
+   * code flow with PKCE); state, nonce and code verifier are kept in an
+   * HTTP-only cookie until the provider redirects back to the callback
+   */
+  @Get('oidc/{provider}/start')
+  @SuccessResponse('302', 'Redirect to the sign-in page of the provider')
+  public async start(@Path() provider: string): Promise<OidcAuthorizationRedirect> {
+    const client = OidcUtils.findClientOr404(this.oidcClients, provider);
+
+    const state = OidcClient.generateRandomValue();
+    const nonce = OidcClient.generateRandomValue();
+    const { codeVerifier, codeChallenge } = OidcClient.generatePkce();
+
+    const jwtService = new JWTService(this.envVars, this.now);
+
+    return {
+      authorizationUrl: await client.buildAuthorizationUrl(state, nonce, codeChallenge),
+      stateToken: jwtService.generateOidcStateToken({ provider, state, nonce, codeVerifier })
+    };
+  }
+}
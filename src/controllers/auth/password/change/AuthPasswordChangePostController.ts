@@ -0,0 +1,66 @@
+import * as bcrypt from 'bcrypt';
+import { Post, Body, Route, Tags, Request, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { AuthController } from '../../AuthController';
+import { ChangePasswordRequest } from '../../../../dto/auth/password/change/ChangePasswordRequest';
+import { ChangePasswordResponse } from '../../../../dto/auth/password/change/ChangePasswordResponse';
+import { getAuthenticatedUser } from '../../../../setup/middleware/authMiddleware';
+import { AppError } from '../../../../setup/middleware/errorHandler';
+import { TokenDBUtils } from '../../../../domain/utils/TokenDBUtils';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../../domain/interfaces/DatabaseSession';
+
+@Route('auth')
+@Tags('Authentication')
+export class AuthPasswordChangePostController extends AuthController {
+  constructor(
+    envVars: EnvVars, containerDAO: ContainerDAO<unknown>, session: DatabaseSession<unknown>, now: number
+  ) {
+    super(envVars, containerDAO, session, now);
+  }
+
+  /**
+   * Change the authenticated user's password
+   * Every other session of the user is revoked; the current session stays logged in
+   */
+  @Post('password/change')
+  @Security('Bearer')
+  public async changePassword(
+    @Body() requestBody: ChangePasswordRequest,
+    @Request() req: ExpressRequest
+  ): Promise<ChangePasswordResponse> {
+    const authenticatedUser = getAuthenticatedUser(req);
+    const { currentPassword, newPassword } = requestBody;
+
+    const user = await this.containerDAO.userDAO.findByUsernameWithPassword(authenticatedUser.username);
+    if (!user || user.id !== authenticatedUser.userId) {
+      throw new AppError('User not found', 404);
+    }
+
+    const isPasswordValid = await bcrypt.compare(currentPassword, user.password);
+    if (!isPasswordValid) {
+      throw new AppError('Current password is incorrect', 400);
+    }
+
+    if (currentPassword === newPassword) {
+      throw new AppError('New password must be different from the current password', 400);
+    }
+
+    const hashedPassword = await bcrypt.hash(newPassword, 12);
+    await this.containerDAO.userDAO.updatePassword(this.session, user.id, hashedPassword);
+
+    const revokedSessions = await TokenDBUtils.revokeAllUserSessions(
+      this.containerDAO, this.session, user.id, this.now, authenticatedUser.sessionId
+    );
+
+    await this.recordAuditLog(
+      req, 'auth.password_change', authenticatedUser, user.id, this.now, undefined, { revokedSessions }
+    );
+
+    return {
+      message: 'Password changed successfully',
+      revokedSessions
+    };
+  }
+}
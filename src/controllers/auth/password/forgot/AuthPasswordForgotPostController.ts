@@ -0,0 +1,89 @@
+import { Post, Body, Route, Tags } from 'tsoa';
+import winston from 'winston';
+import { AuthController } from '../../AuthController';
+import { ForgotPasswordRequest } from '../../../../dto/auth/password/forgot/ForgotPasswordRequest';
+import { ForgotPasswordResponse } from '../../../../dto/auth/password/forgot/ForgotPasswordResponse';
+import { User } from '../../../../domain/interfaces/entities/User';
+import { OneTimeTokenService } from '../../../../utils/OneTimeTokenService';
+import { TimeUtils } from '../../../../utils/TimeUtils';
+import { Mailer } from '../../../../utils/Mailer';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../../domain/interfaces/DatabaseSession';
+
+@Route('auth')
+@Tags('Authentication')
+export class AuthPasswordForgotPostController extends AuthController {
+  private mailer: Mailer;
+  private logger: winston.Logger;
+
+  constructor(
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>,
+    session: DatabaseSession<unknown>,
+    now: number,
+    mailer: Mailer,
+    logger: winston.Logger
+  ) {
+    super(envVars, containerDAO, session, now);
+    this.mailer = mailer;
+    this.logger = logger;
+  }
+
+  /**
+   * Request a password reset link
+   * Sends a one-time reset link to the verified email address of the account;
+   * accounts without one get no link. The response is the same whether or not
+   * the account exists, so it cannot be used to discover usernames
+   */
+  @Post('password/forgot')
+  public async forgotPassword(
+    @Body() requestBody: ForgotPasswordRequest
+  ): Promise<ForgotPasswordResponse> {
+    const user = await this.containerDAO.userDAO.findByUsername(requestBody.username);
+    const email = user && !user.isDisabled ? this.verifiedEmailOf(user) : null;
+    if (user && email) {
+      await this.issueResetToken(user, email);
+    }
+
+    return {
+      message: 'If the account exists, a password reset link has been sent'
+    };
+  }
+
+  /**
+   * Replaces any pending reset token of the user with a new one and mails it
+   * Delivery is not awaited: its duration and failures must not reveal that the account exists
+   * @param user User requesting the reset
+   * @param email Verified email address of the user
+   */
+  private async issueResetToken(user: User, email: string): Promise<void> {
+    await this.containerDAO.passwordResetTokenDAO.invalidateAllUserPasswordResetTokens(this.session, user.id, this.now);
+
+    const { token, tokenHash } = OneTimeTokenService.generate();
+    const expiresAt = new Date(this.now + TimeUtils.parseExpiry(this.envVars.PASSWORD_RESET_EXPIRES_IN));
+    await this.containerDAO.passwordResetTokenDAO.createPasswordResetToken(
+      this.session, user.id, tokenHash, expiresAt, this.now
+    );
+
+    const resetUrl = new URL(this.envVars.PASSWORD_RESET_URL);
+    resetUrl.searchParams.set('token', token);
+
+    void this.mailer.send({
+      to: email,
+      subject: 'Reset your password',
+      text: [
+        `Hello ${user.username},`,
+        '',
+        'We received a request to reset the password of your account.',
+        `Open the link below within ${this.envVars.PASSWORD_RESET_EXPIRES_IN} to choose a new password:`,
+        '',
+        resetUrl.toString(),
+        '',
+        'If you did not request a password reset, you can ignore this email.'
+      ].join('\n')
+    }).catch((error: Error) => {
+      this.logger.error('Failed to send password reset email', { userId: user.id, error: error.message });
+    });
+  }
+}
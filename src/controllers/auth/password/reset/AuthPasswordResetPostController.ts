@@ -0,0 +1,70 @@
+import * as bcrypt from 'bcrypt';
+import { Post, Body, Route, Tags, Request } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { AuthController } from '../../AuthController';
+import { ResetPasswordRequest } from '../../../../dto/auth/password/reset/ResetPasswordRequest';
+import { ResetPasswordResponse } from '../../../../dto/auth/password/reset/ResetPasswordResponse';
+import { AppError } from '../../../../setup/middleware/errorHandler';
+import { OneTimeTokenService } from '../../../../utils/OneTimeTokenService';
+import { TokenDBUtils } from '../../../../domain/utils/TokenDBUtils';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../../domain/interfaces/DatabaseSession';
+
+@Route('auth')
+@Tags('Authentication')
+export class AuthPasswordResetPostController extends AuthController {
+  constructor(
+    envVars: EnvVars, containerDAO: ContainerDAO<unknown>, session: DatabaseSession<unknown>, now: number
+  ) {
+    super(envVars, containerDAO, session, now);
+  }
+
+  /**
+   * Reset a forgotten password with a one-time reset token
+   * The token can be used once; every session of the user is revoked and a login lockout is lifted
+   */
+  @Post('password/reset')
+  public async resetPassword(
+    @Body() requestBody: ResetPasswordRequest,
+    @Request() req: ExpressRequest
+  ): Promise<ResetPasswordResponse> {
+    const { token, newPassword } = requestBody;
+
+    const resetToken = await this.containerDAO.passwordResetTokenDAO.consumePasswordResetToken(
+      this.session, OneTimeTokenService.hash(token), this.now
+    );
+    if (!resetToken) {
+      throw new AppError('Invalid or expired reset token', 400);
+    }
+
+    const user = await this.containerDAO.userDAO.findById(resetToken.userId);
+    if (!user) {
+      throw new AppError('Invalid or expired reset token', 400);
+    }
+
+    if (user.isDisabled) {
+      throw new AppError('Account is disabled', 403);
+    }
+
+    const hashedPassword = await bcrypt.hash(newPassword, 12);
+    await this.containerDAO.userDAO.updatePassword(this.session, user.id, hashedPassword);
+    await this.containerDAO.passwordResetTokenDAO.invalidateAllUserPasswordResetTokens(this.session, user.id, this.now);
+    // The owner proved access to the account: a lockout caused by guessing the old password no longer applies
+    await this.containerDAO.loginAttemptDAO.resetLoginAttempts(this.session, user.username);
+
+    const revokedSessions = await TokenDBUtils.revokeAllUserSessions(
+      this.containerDAO, this.session, user.id, this.now
+    );
+
+    await this.recordAuditLog(
+      req, 'auth.password_reset', { userId: user.id, username: user.username }, user.id, this.now,
+      undefined, { revokedSessions }
+    );
+
+    return {
+      message: 'Password reset successfully',
+      revokedSessions
+    };
+  }
+}
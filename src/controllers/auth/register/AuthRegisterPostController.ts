@@ -1,10 +1,14 @@
 import * as bcrypt from 'bcrypt';
-import { Post, Body, Route, Tags } from 'tsoa';
+import { Post, Body, Route, Tags, Request } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import winston from 'winston';
 
 import { AuthController } from '../AuthController';
 import { RegisterRequest } from '../../../dto/auth/register/RegisterRequest';
 import { AuthResponse } from '../../../dto/auth/AuthResponse';
+import { EmailVerificationPendingResponse } from '../../../dto/auth/register/EmailVerificationPendingResponse';
 import { AppError } from '../../../setup/middleware/errorHandler';
+import { Mailer } from '../../../utils/Mailer';
 import { EnvVars } from '../../../setup/EnvVars';
 import { ContainerDAO } from '../../../domain/interfaces/ContainerDAO';
 import { DatabaseSession } from '../../../domain/interfaces/DatabaseSession';
@@ -12,28 +16,70 @@ import { DatabaseSession } from '../../../domain/interfaces/DatabaseSession';
 @Route('auth')
 @Tags('Authentication')
 export class AuthRegisterPostController extends AuthController {
+  private mailer: Mailer;
+  private logger: winston.Logger;
+
   constructor(
-    envVars: EnvVars, containerDAO: ContainerDAO<unknown>, session: DatabaseSession<unknown>, now: number
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>,
+    session: DatabaseSession<unknown>,
+    now: number,
+    mailer: Mailer,
+    logger: winston.Logger
   ) {
     super(envVars, containerDAO, session, now);
+    this.mailer = mailer;
+    this.logger = logger;
   }
 
   /**
    * Register a new user
+   * A verification link is sent to the email address, if given. When login
+   * requires a verified email, the email is mandatory and no tokens are
+   * issued until the address is verified
    */
   @Post('register')
   public async register(
-    @Body() requestBody: RegisterRequest
-  ): Promise<AuthResponse> {
+    @Body() requestBody: RegisterRequest,
+    @Request() req: ExpressRequest
+  ): Promise<AuthResponse | EmailVerificationPendingResponse> {
     const { username, password } = requestBody;
+    const email = requestBody.email?.toLowerCase() ?? null;
+
+    if (this.envVars.EMAIL_VERIFICATION_REQUIRED && !email) {
+      throw new AppError('Email is required', 400);
+    }
+    // Only verified addresses are taken: an unverified claim does not block the owner of the address
+    if (email && await this.containerDAO.userDAO.findByEmail(email)) {
+      throw new AppError('Email already registered', 409);
+    }
 
     const hashedPassword = await bcrypt.hash(password, 12);
-    const user = await this.containerDAO.userDAO.createUser(this.session, username, hashedPassword);
+    const user = await this.containerDAO.userDAO.createUser(
+      this.session, username, hashedPassword, ['user'], email
+    );
     
     if (!user) {
       throw new AppError('Username already exists', 409);
     }
+
+    await this.recordAuditLog(
+      req, 'user.register', { userId: user.id, username: user.username }, user.id, this.now,
+      undefined, { username: user.username, email: user.email, roles: user.roles }
+    );
+
+    if (email) {
+      await this.sendVerificationEmail(user, email, this.mailer, this.logger);
+    }
+
+    if (this.envVars.EMAIL_VERIFICATION_REQUIRED && email) {
+      return {
+        emailVerificationRequired: true,
+        message: 'Registration successful, check your email to verify your address',
+        user: { id: user.id, username: user.username, email }
+      };
+    }
     
-    return this.generateAndStoreTokens(user);
+    return this.generateAndStoreTokens(user, req);
   }
 }
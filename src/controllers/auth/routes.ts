@@ -1,19 +1,36 @@
-import { Router, Request } from 'express';
+import { Router, Request, Response } from 'express';
+import winston from 'winston';
 import { AuthRegisterPostController } from './register/AuthRegisterPostController';
 import { AuthLoginPostController } from './login/AuthLoginPostController';
+import { AuthLoginMfaPostController } from './login/mfa/AuthLoginMfaPostController';
 import { AuthLogoutPostController } from './logout/AuthLogoutPostController';
 import { AuthTokenRefreshPostController } from './token/refresh/AuthTokenRefreshPostController';
-import { dbTransactionHandler } from '../../setup/middleware/errorHandler';
-import { validateRequestBody } from '../../setup/middleware/classValidation';
+import { AuthSessionsListGetController } from './sessions/list/AuthSessionsListGetController';
+import { AuthSessionsDeleteController } from './sessions/delete/AuthSessionsDeleteController';
+import { AuthSessionsDeleteAllController } from './sessions/deleteAll/AuthSessionsDeleteAllController';
+import { AuthPasswordChangePostController } from './password/change/AuthPasswordChangePostController';
+import { AuthPasswordForgotPostController } from './password/forgot/AuthPasswordForgotPostController';
+import { AuthPasswordResetPostController } from './password/reset/AuthPasswordResetPostController';
+import { asyncHandler, dbTransactionHandler } from '../../setup/middleware/errorHandler';
+import { validateRequestBody, validateRequestParams } from '../../setup/middleware/classValidation';
+import { authMiddleware } from '../../setup/middleware/authMiddleware';
+import { createRateLimiters } from '../../setup/middleware/rateLimiters';
 import { EnvVars } from '../../setup/EnvVars';
 import { ContainerDAO } from '../../domain/interfaces/ContainerDAO';
 import { RegisterRequest } from '../../dto/auth/register/RegisterRequest';
 import { LoginRequest } from '../../dto/auth/login/LoginRequest';
+import { MfaLoginRequest } from '../../dto/auth/login/mfa/MfaLoginRequest';
 import { LogoutRequest } from '../../dto/auth/logout/LogoutRequest';
 import { RefreshTokenRequest } from '../../dto/auth/token/refresh/RefreshTokenRequest';
+import { SessionParams } from '../../dto/auth/sessions/SessionParams';
+import { ChangePasswordRequest } from '../../dto/auth/password/change/ChangePasswordRequest';
+import { ForgotPasswordRequest } from '../../dto/auth/password/forgot/ForgotPasswordRequest';
+import { ResetPasswordRequest } from '../../dto/auth/password/reset/ResetPasswordRequest';
 import { DatabaseSession } from '../../domain/interfaces/DatabaseSession';
 import { DatabaseSessionProducer } from '../../domain/interfaces/DatabaseSessionProducer';
 import { TimestampProducer } from '../../utils/TimestampProducer';
+import { Mailer } from '../../utils/Mailer';
+import { AuthCookieService } from '../../utils/AuthCookieService';
 
 /**
  * Registers all authentication-related routes
@@ -23,31 +40,39 @@ import { TimestampProducer } from '../../utils/TimestampProducer';
  * @param containerDAO - Container for all DAO instances
  * @param databaseSessionProducer - Producer for database sessions
  * @param timestampProducer - Producer for timestamps
+ * @param logger - Winston logger for security events
+ * @param mailer - Mailer delivering account emails (verification and password reset links)
  */
 export function registerAuthRoutes(
   router: Router,
   envVars: EnvVars,
   containerDAO: ContainerDAO<unknown>,
   databaseSessionProducer: DatabaseSessionProducer<unknown>,
-  timestampProducer: TimestampProducer
+  timestampProducer: TimestampProducer,
+  logger: winston.Logger,
+  mailer: Mailer
 ): void {
-    
+  const authenticate = authMiddleware(envVars, containerDAO, timestampProducer);
+  const { strictLimiter, passwordResetLimiter } = createRateLimiters(envVars);
+
   /**
    * POST /auth/register
    * Register a new user account
-   * Requires: username (3-50 chars, alphanumeric), password (8+ chars with mixed case and numbers)
-   * Returns: 201 with user data and tokens
+   * Requires: username (3-50 chars, alphanumeric), password (8+ chars with mixed case and numbers),
+   * email (optional unless EMAIL_VERIFICATION_REQUIRED)
+   * Returns: 201 with user data and tokens, or without tokens while the email awaits verification;
+   * with AUTH_COOKIES the tokens are set as cookies
    */
   router.post(
     '/auth/register',
     validateRequestBody(RegisterRequest),
     dbTransactionHandler(
       databaseSessionProducer, 
-      async (session: DatabaseSession<unknown>, req: Request) => {
+      async (session: DatabaseSession<unknown>, req: Request, res: Response) => {
         const data = await new AuthRegisterPostController(
-          envVars, containerDAO, session, timestampProducer.getNow()
-        ).register(req.body);
-        return { statusCode: 201, data };
+          envVars, containerDAO, session, timestampProducer.getNow(), mailer, logger
+        ).register(req.body, req);
+        return { statusCode: 201, data: AuthCookieService.setTokenCookies(res, envVars, data) };
       }
     )
   );
@@ -55,19 +80,45 @@ export function registerAuthRoutes(
   /**
    * POST /auth/login
    * Authenticate user with credentials
-   * Requires: username, password
-   * Returns: 200 with user data and tokens
+   * Failed attempts are rate limited per client IP and lock the account after too many failures
+   * Requires: username (or email address), password
+   * Returns: 200 with user data and tokens (or an MFA token when two-factor authentication is enabled),
+   * 403 while a required email verification is pending, 423 while the account is locked;
+   * with AUTH_COOKIES the tokens are set as cookies
    */
   router.post(
     '/auth/login', 
+    strictLimiter,
     validateRequestBody(LoginRequest),
     dbTransactionHandler(
       databaseSessionProducer, 
-      async (session: DatabaseSession<unknown>, req: Request) => {
+      async (session: DatabaseSession<unknown>, req: Request, res: Response) => {
         const data = await new AuthLoginPostController(
-          envVars, containerDAO, session, timestampProducer.getNow()
-        ).login(req.body);
-        return { statusCode: 200, data };
+          envVars, containerDAO, session, timestampProducer.getNow(), logger
+        ).login(req.body, req);
+        return { statusCode: 200, data: AuthCookieService.setTokenCookies(res, envVars, data) };
+      }
+    )
+  );
+
+  /**
+   * POST /auth/login/mfa
+   * Complete a login with the current authenticator code or a recovery code
+   * Wrong codes count towards the login lockout
+   * Requires: mfaToken (from POST /auth/login), code
+   * Returns: 200 with user data and tokens; with AUTH_COOKIES the tokens are set as cookies
+   */
+  router.post(
+    '/auth/login/mfa',
+    strictLimiter,
+    validateRequestBody(MfaLoginRequest),
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request, res: Response) => {
+        const data = await new AuthLoginMfaPostController(
+          envVars, containerDAO, session, timestampProducer.getNow(), logger
+        ).loginWithMfa(req.body, req);
+        return { statusCode: 200, data: AuthCookieService.setTokenCookies(res, envVars, data) };
       }
     )
   );
@@ -75,18 +126,20 @@ export function registerAuthRoutes(
   /**
    * POST /auth/logout
    * Logout user by invalidating tokens
-   * Requires: accessToken, refreshToken
-   * Returns: 200 with logout confirmation
+   * Requires: accessToken, refreshToken (in the body or, with AUTH_COOKIES, as cookies)
+   * Returns: 200 with logout confirmation, clearing the authentication cookies
    */
   router.post(
     '/auth/logout', 
     validateRequestBody(LogoutRequest),
     dbTransactionHandler(
       databaseSessionProducer, 
-      async (session: DatabaseSession<unknown>, req: Request) => {
+      async (session: DatabaseSession<unknown>, req: Request, res: Response) => {
+        // The cookies are dropped whatever the outcome, e.g. when the tokens already expired
+        AuthCookieService.clearTokenCookies(res, envVars);
         const data = await new AuthLogoutPostController(
           envVars, containerDAO, session, timestampProducer.getNow()
-        ).logout(req.body);
+        ).logout(req.body, req);
         return { statusCode: 200, data };
       }
     )
@@ -95,18 +148,137 @@ export function registerAuthRoutes(
   /**
    * POST /auth/token/refresh
    * Refresh access token using refresh token
-   * Requires: refreshToken
-   * Returns: 200 with new access and refresh tokens
+   * Requires: refreshToken (in the body or, with AUTH_COOKIES, as cookie)
+   * Returns: 200 with new access and refresh tokens; with AUTH_COOKIES the tokens are set as cookies
    */
   router.post(
     '/auth/token/refresh', 
     validateRequestBody(RefreshTokenRequest),
     dbTransactionHandler(
       databaseSessionProducer, 
-      async (session: DatabaseSession<unknown>, req: Request) => {
+      async (session: DatabaseSession<unknown>, req: Request, res: Response) => {
         const data = await new AuthTokenRefreshPostController(
+          envVars, containerDAO, session, timestampProducer.getNow(), logger
+        ).execute(req.body, req);
+        return { statusCode: 200, data: AuthCookieService.setTokenCookies(res, envVars, data) };
+      }
+    )
+  );
+
+  /**
+   * POST /auth/password/change
+   * Change the authenticated user's password
+   * Requires authentication
+   * Requires: currentPassword, newPassword (8+ chars with mixed case and numbers)
+   * Returns: 200 with number of other sessions revoked; the current session stays valid
+   */
+  router.post(
+    '/auth/password/change',
+    authenticate,
+    validateRequestBody(ChangePasswordRequest),
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new AuthPasswordChangePostController(
+          envVars, containerDAO, session, timestampProducer.getNow()
+        ).changePassword(req.body, req);
+        return { statusCode: 200, data };
+      }
+    )
+  );
+
+  /**
+   * POST /auth/password/forgot
+   * Request a password reset link for an account
+   * Rate limited per client IP
+   * Requires: username
+   * Returns: 200 with the same confirmation whether or not the account exists
+   */
+  router.post(
+    '/auth/password/forgot',
+    passwordResetLimiter,
+    validateRequestBody(ForgotPasswordRequest),
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new AuthPasswordForgotPostController(
+          envVars, containerDAO, session, timestampProducer.getNow(), mailer, logger
+        ).forgotPassword(req.body);
+        return { statusCode: 200, data };
+      }
+    )
+  );
+
+  /**
+   * POST /auth/password/reset
+   * Reset a forgotten password with a one-time reset token
+   * Requires: token, newPassword (8+ chars with mixed case and numbers)
+   * Returns: 200 with number of revoked sessions
+   */
+  router.post(
+    '/auth/password/reset',
+    validateRequestBody(ResetPasswordRequest),
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new AuthPasswordResetPostController(
+          envVars, containerDAO, session, timestampProducer.getNow()
+        ).resetPassword(req.body, req);
+        return { statusCode: 200, data };
+      }
+    )
+  );
+
+  /**
+   * GET /auth/sessions
+   * List active sessions (devices) of the authenticated user
+   * Requires authentication
+   * Returns: 200 with sessions, the caller's own session flagged as current
+   */
+  router.get(
+    '/auth/sessions',
+    authenticate,
+    asyncHandler(async (req: Request, res: Response) => {
+      res.json(await new AuthSessionsListGetController(envVars, containerDAO).getSessions(req));
+    })
+  );
+
+  /**
+   * DELETE /auth/sessions
+   * Log out everywhere: revoke all sessions of the authenticated user
+   * Requires authentication
+   * Returns: 200 with number of revoked sessions
+   */
+  router.delete(
+    '/auth/sessions',
+    authenticate,
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new AuthSessionsDeleteAllController(
+          envVars, containerDAO, session, timestampProducer.getNow()
+        ).revokeAllSessions(req);
+        return { statusCode: 200, data };
+      }
+    )
+  );
+
+  /**
+   * DELETE /auth/sessions/:sessionId
+   * Revoke a single session of the authenticated user and its tokens
+   * Requires authentication and session ownership
+   * Returns: 200 with revocation confirmation
+   */
+  router.delete(
+    '/auth/sessions/:sessionId',
+    authenticate,
+    validateRequestParams(SessionParams),
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new AuthSessionsDeleteController(
           envVars, containerDAO, session, timestampProducer.getNow()
-        ).execute(req.body);
+        ).revokeSession(req.params.sessionId, req);
         return { statusCode: 200, data };
       }
     )
@@ -0,0 +1,54 @@
+import { Delete, Route, Tags, Request, Path, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { AuthController } from '../../AuthController';
+import { SessionRevokeResponse } from '../../../../dto/auth/sessions/SessionRevokeResponse';
+import { getAuthenticatedUser } from '../../../../setup/middleware/authMiddleware';
+import { AppError } from '../../../../setup/middleware/errorHandler';
+import { TokenDBUtils } from '../../../../domain/utils/TokenDBUtils';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../../domain/interfaces/DatabaseSession';
+
+@Route('auth')
+@Tags('Authentication')
+export class AuthSessionsDeleteController extends AuthController {
+  constructor(
+    envVars: EnvVars, containerDAO: ContainerDAO<unknown>, session: DatabaseSession<unknown>, now: number
+  ) {
+    super(envVars, containerDAO, session, now);
+  }
+
+  /**
+   * Revoke one of the authenticated user's sessions and all of its tokens
+   */
+  @Delete('sessions/{sessionId}')
+  @Security('Bearer')
+  public async revokeSession(
+    @Path() sessionId: string,
+    @Request() req: ExpressRequest
+  ): Promise<SessionRevokeResponse> {
+    const user = getAuthenticatedUser(req);
+
+    const userSession = await this.containerDAO.userSessionDAO.findById(sessionId);
+    if (!userSession || userSession.isRevoked) {
+      throw new AppError('Session not found', 404);
+    }
+    if (userSession.userId !== user.userId) {
+      throw new AppError('Access denied', 403);
+    }
+
+    const { revokedAccessTokens, revokedRefreshTokens } = await TokenDBUtils.revokeTokenFamily(
+      this.containerDAO, this.session, sessionId, this.now
+    );
+
+    await this.recordAuditLog(
+      req, 'auth.session_revoke', user, sessionId, this.now, undefined, { revokedAccessTokens, revokedRefreshTokens }
+    );
+
+    return {
+      message: 'Session revoked successfully',
+      revokedSessions: 1,
+      revokedAt: new Date(this.now)
+    };
+  }
+}
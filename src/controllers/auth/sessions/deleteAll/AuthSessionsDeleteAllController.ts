@@ -0,0 +1,44 @@
+import { Delete, Route, Tags, Request, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { AuthController } from '../../AuthController';
+import { SessionRevokeResponse } from '../../../../dto/auth/sessions/SessionRevokeResponse';
+import { getAuthenticatedUser } from '../../../../setup/middleware/authMiddleware';
+import { TokenDBUtils } from '../../../../domain/utils/TokenDBUtils';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../../domain/interfaces/DatabaseSession';
+
+@Route('auth')
+@Tags('Authentication')
+export class AuthSessionsDeleteAllController extends AuthController {
+  constructor(
+    envVars: EnvVars, containerDAO: ContainerDAO<unknown>, session: DatabaseSession<unknown>, now: number
+  ) {
+    super(envVars, containerDAO, session, now);
+  }
+
+  /**
+   * Log out everywhere: revoke every session of the authenticated user, including the current one
+   */
+  @Delete('sessions')
+  @Security('Bearer')
+  public async revokeAllSessions(
+    @Request() req: ExpressRequest
+  ): Promise<SessionRevokeResponse> {
+    const user = getAuthenticatedUser(req);
+
+    const revokedSessions = await TokenDBUtils.revokeAllUserSessions(
+      this.containerDAO, this.session, user.userId, this.now
+    );
+
+    await this.recordAuditLog(
+      req, 'auth.session_revoke_all', user, user.userId, this.now, undefined, { revokedSessions }
+    );
+
+    return {
+      message: 'Logged out from all sessions',
+      revokedSessions,
+      revokedAt: new Date(this.now)
+    };
+  }
+}
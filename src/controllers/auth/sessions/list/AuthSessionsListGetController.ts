@@ -0,0 +1,42 @@
+import { Get, Route, Tags, Request, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { BaseCustomController } from '../../../CustomController';
+import { SessionListResponse } from '../../../../dto/auth/sessions/SessionListResponse';
+import { getAuthenticatedUser } from '../../../../setup/middleware/authMiddleware';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+
+@Route('auth')
+@Tags('Authentication')
+export class AuthSessionsListGetController extends BaseCustomController {
+  constructor(
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>
+  ) {
+    super(envVars, containerDAO);
+  }
+
+  /**
+   * List the active sessions (devices) of the authenticated user
+   */
+  @Get('sessions')
+  @Security('Bearer')
+  public async getSessions(
+    @Request() req: ExpressRequest
+  ): Promise<SessionListResponse> {
+    const user = getAuthenticatedUser(req);
+
+    const userSessions = await this.containerDAO.userSessionDAO.findActiveByUserId(user.userId);
+
+    return {
+      sessions: userSessions.map(userSession => ({
+        id: userSession.id,
+        userAgent: userSession.userAgent,
+        ip: userSession.ip,
+        createdAt: userSession.createdAt!,
+        lastUsedAt: userSession.lastUsedAt,
+        current: userSession.id === user.sessionId
+      }))
+    };
+  }
+}
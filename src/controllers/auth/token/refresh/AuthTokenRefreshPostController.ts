@@ -1,11 +1,15 @@
-import { Post, Body, Route, Tags } from 'tsoa';
+import { Post, Body, Route, Tags, Request } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import winston from 'winston';
 
 import { AuthController } from '../../AuthController';
 import { RefreshTokenRequest } from '../../../../dto/auth/token/refresh/RefreshTokenRequest';
 import { RefreshTokenResponse } from '../../../../dto/auth/token/refresh/RefreshTokenResponse';
-import { JWTPayload } from '../../../../utils/JWTService';
-import { AppError } from '../../../../setup/middleware/errorHandler';
+import { JWTPayload, VerifiedJWTPayload } from '../../../../utils/JWTService';
+import { AppError, CommittingAppError } from '../../../../setup/middleware/errorHandler';
 import { TokenDBUtils } from '../../../../domain/utils/TokenDBUtils';
+import { TOKEN_SCOPES } from '../../../../domain/interfaces/entities/TokenScope';
+import { AuthCookieService } from '../../../../utils/AuthCookieService';
 import { EnvVars } from '../../../../setup/EnvVars';
 import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
 import { DatabaseSession } from '../../../../domain/interfaces/DatabaseSession';
@@ -13,25 +17,39 @@ import { DatabaseSession } from '../../../../domain/interfaces/DatabaseSession';
 @Route('auth')
 @Tags('Authentication')
 export class AuthTokenRefreshPostController extends AuthController {
+  private logger: winston.Logger;
+
   constructor(
     envVars: EnvVars,
     containerDAO: ContainerDAO<unknown>,
     databaseSession: DatabaseSession<unknown>,
-    now: number
+    now: number,
+    logger: winston.Logger
   ) {
     super(envVars, containerDAO, databaseSession, now);
+    this.logger = logger;
   }
 
   /**
    * Refresh access token using refresh token
+   * Rotates the refresh token within its family and revokes the access tokens
+   * issued before; replaying an already rotated refresh token revokes the whole
+   * family and its access tokens.
+   * Browser clients using AUTH_COOKIES send the refresh token cookie instead
+   * of the body field and receive the new tokens as cookies
    */
   @Post('token/refresh')
   public async execute(
-    @Body() requestBody: RefreshTokenRequest
+    @Body() requestBody: RefreshTokenRequest,
+    @Request() req: ExpressRequest
   ): Promise<RefreshTokenResponse> {
-    const { refreshToken } = requestBody;
+    const refreshToken = requestBody.refreshToken
+      ?? AuthCookieService.readTokenCookie(req, this.envVars, AuthCookieService.REFRESH_TOKEN_COOKIE);
+    if (!refreshToken) {
+      throw new AppError('Refresh token is required', 400);
+    }
 
-    let payload: JWTPayload;
+    let payload: VerifiedJWTPayload;
     try {
       payload = this.jwtService.verifyRefreshToken(refreshToken);
     } catch (_error) {
@@ -40,6 +58,7 @@ export class AuthTokenRefreshPostController extends AuthController {
 
     const storedRefreshToken = await this.containerDAO.refreshTokenDAO.findRefreshToken(refreshToken);
     if (!storedRefreshToken || storedRefreshToken.isRevoked) {
+      await this.revokeFamilyIfReused(refreshToken, payload, req);
       throw new AppError('Invalid or revoked refresh token', 401);
     }
 
@@ -52,30 +71,84 @@ export class AuthTokenRefreshPostController extends AuthController {
       throw new AppError('User not found', 404);
     }
 
+    if (user.isDisabled) {
+      throw new AppError('Account is disabled', 403);
+    }
+
     // Create a clean payload without JWT system claims (exp, iat, etc.)
+    // Roles are re-read from the user so role changes apply from the next refresh
+    // Scopes are kept, so a refresh cannot widen them; tokens issued before scopes existed get every scope
     const cleanPayload: JWTPayload = {
       userId: payload.userId,
-      username: payload.username
+      username: payload.username,
+      roles: user.roles,
+      scopes: payload.scopes ?? [...TOKEN_SCOPES]
     };
 
-    const newTokenPair = this.jwtService.generateTokenPair(cleanPayload);
+    const newTokenPair = this.jwtService.generateTokenPair(cleanPayload, this.now);
 
+    // Access tokens issued with the rotated refresh token stop working together with it
     await this.containerDAO.refreshTokenDAO.revokeRefreshToken(this.session, refreshToken, this.now);
+    await this.containerDAO.accessTokenDAO.revokeAccessTokenFamily(this.session, storedRefreshToken.familyId, this.now);
+    await this.containerDAO.userSessionDAO.touchUserSession(this.session, storedRefreshToken.familyId, this.now);
 
     await TokenDBUtils.storeTokens(
       this.containerDAO,
       this.session,
       this.envVars,
       payload.userId,
+      storedRefreshToken.familyId,
       newTokenPair.accessToken,
       newTokenPair.refreshToken,
       this.now
     );
 
+    await this.recordAuditLog(
+      req, 'auth.token_refresh', { userId: user.id, username: user.username }, storedRefreshToken.familyId, this.now
+    );
+
     return {
       accessToken: newTokenPair.accessToken,
       refreshToken: newTokenPair.refreshToken
     };
   }
 
+  /**
+   * Detects replay of an already revoked refresh token
+   * A revoked token being presented again means it was copied, so its session and every
+   * token of its family are revoked and the change is committed even though the request fails,
+   * together with its audit log entry
+   * @param refreshToken Refresh token string presented by the client
+   * @param payload Verified payload of the token, naming its user
+   * @param req Express request used to record the client user agent and IP address
+   * @throws {CommittingAppError} When the token is a revoked member of a family (401)
+   */
+  private async revokeFamilyIfReused(
+    refreshToken: string, payload: VerifiedJWTPayload, req: ExpressRequest
+  ): Promise<void> {
+    const revokedToken = await this.containerDAO.refreshTokenDAO.findRevokedRefreshToken(refreshToken);
+    if (!revokedToken) {
+      return;
+    }
+
+    const { revokedAccessTokens, revokedRefreshTokens } = await TokenDBUtils.revokeTokenFamily(
+      this.containerDAO, this.session, revokedToken.familyId, this.now
+    );
+
+    this.logger.warn('Refresh token reuse detected, token family revoked', {
+      event: 'refresh_token_reuse',
+      userId: revokedToken.userId,
+      familyId: revokedToken.familyId,
+      revokedRefreshTokens,
+      revokedAccessTokens
+    });
+
+    await this.recordAuditLog(
+      req, 'auth.token_reuse', { userId: revokedToken.userId, username: payload.username }, revokedToken.familyId,
+      this.now, undefined, { revokedRefreshTokens, revokedAccessTokens }
+    );
+
+    throw new CommittingAppError('Invalid or revoked refresh token', 401);
+  }
+
 }
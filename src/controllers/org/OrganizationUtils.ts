@@ -0,0 +1,95 @@
+import { AppError } from '../../setup/middleware/errorHandler';
+import { ContainerDAO } from '../../domain/interfaces/ContainerDAO';
+import { Organization } from '../../domain/interfaces/entities/Organization';
+import { ORGANIZATION_ROLES, OrganizationRole } from '../../domain/interfaces/entities/OrganizationMember';
+import { OrganizationResponse } from '../../dto/org/OrganizationResponse';
+import { AuditSnapshot } from '../../domain/utils/AuditLogDBUtils';
+import { JWTPayload } from '../../utils/JWTService';
+
+/**
+ * Utility functions for organization operations
+ */
+export class OrganizationUtils {
+  /**
+   * Finds an organization by ID or throws a 404 error if not found
+   * @param containerDAO - DAO container for database operations
+   * @param organizationId - ID of the organization to find
+   * @returns Promise<Organization> - The found organization
+   * @throws AppError with 404 status if organization not found
+   */
+  static async findOrganizationOr404(
+    containerDAO: ContainerDAO<unknown>,
+    organizationId: string
+  ): Promise<Organization> {
+    const organization = await containerDAO.organizationDAO.findById(organizationId);
+    if (!organization) {
+      throw new AppError('Organization not found', 404);
+    }
+    return organization;
+  }
+
+  /**
+   * Checks that a role grants at least the permissions of the required role or throws a 403 error
+   * Owners can do everything, admins manage members and projects, members work on projects
+   * @param role - The role of the user in the organization, null if not a member
+   * @param requiredRole - The least privileged role allowed
+   * @throws AppError with 403 status if the role is not sufficient
+   */
+  static hasOrganizationRoleOr403(
+    role: OrganizationRole | null,
+    requiredRole: OrganizationRole
+  ): asserts role is OrganizationRole {
+    if (!role || ORGANIZATION_ROLES.indexOf(role) > ORGANIZATION_ROLES.indexOf(requiredRole)) {
+      throw new AppError('Access denied', 403);
+    }
+  }
+
+  /**
+   * Combined utility that finds an organization and verifies the role of the user in one call
+   * @param containerDAO - DAO container for database operations
+   * @param organizationId - ID of the organization to find
+   * @param user - The authenticated user
+   * @param requiredRole - The least privileged role allowed
+   * @returns Promise<{ organization: Organization; role: OrganizationRole }> - The organization and the user's role
+   * @throws AppError with 404 status if organization not found or 403 if access denied
+   */
+  static async findOrganizationAndVerifyRole(
+    containerDAO: ContainerDAO<unknown>,
+    organizationId: string,
+    user: JWTPayload,
+    requiredRole: OrganizationRole
+  ): Promise<{ organization: Organization; role: OrganizationRole }> {
+    const organization = await this.findOrganizationOr404(containerDAO, organizationId);
+    const member = await containerDAO.organizationMemberDAO.findMember(organizationId, user.userId);
+    const role = member ? member.role : null;
+    this.hasOrganizationRoleOr403(role, requiredRole);
+    return { organization, role };
+  }
+
+  /**
+   * Converts an Organization entity to an OrganizationResponse DTO
+   * @param organization - The organization entity to convert
+   * @param role - The role of the authenticated user in the organization
+   * @returns OrganizationResponse - The formatted response object
+   */
+  static toOrganizationResponse(organization: Organization, role: OrganizationRole): OrganizationResponse {
+    return {
+      id: organization.id,
+      name: organization.name,
+      role,
+      createdAt: organization.createdAt!,
+      updatedAt: organization.updatedAt!
+    };
+  }
+
+  /**
+   * Extracts the fields of an organization recorded in the audit log
+   * @param organization - The organization entity
+   * @returns AuditSnapshot - The audited fields
+   */
+  static toAuditSnapshot(organization: Organization): AuditSnapshot {
+    return {
+      name: organization.name
+    };
+  }
+}
@@ -0,0 +1,58 @@
+import { Post, Body, Route, Tags, Request, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { TransactionAbstractController } from '../../CustomController';
+import { CreateOrganizationRequest } from '../../../dto/org/create/CreateOrganizationRequest';
+import { OrganizationResponse } from '../../../dto/org/OrganizationResponse';
+import { getAuthenticatedUser } from '../../../setup/middleware/authMiddleware';
+import { AppError } from '../../../setup/middleware/errorHandler';
+import { OrganizationUtils } from '../OrganizationUtils';
+import { EnvVars } from '../../../setup/EnvVars';
+import { ContainerDAO } from '../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../domain/interfaces/DatabaseSession';
+import { TimestampProducer } from '../../../utils/TimestampProducer';
+
+@Route('org')
+@Tags('Organization')
+export class OrgCreatePostController extends TransactionAbstractController {
+  private readonly timestampProducer: TimestampProducer;
+
+  constructor(
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>,
+    session: DatabaseSession<unknown>,
+    timestampProducer: TimestampProducer
+  ) {
+    super(envVars, containerDAO, session);
+    this.timestampProducer = timestampProducer;
+  }
+
+  /**
+   * Create a new organization, owned by the authenticated user
+   */
+  @Post()
+  @Security('Bearer', ['org:write'])
+  @Security('ApiKey', ['org:write'])
+  public async createOrganization(
+    @Body() requestBody: CreateOrganizationRequest,
+    @Request() req: ExpressRequest
+  ): Promise<OrganizationResponse> {
+    const user = getAuthenticatedUser(req);
+    const now = this.timestampProducer.getNow();
+
+    const organization = await this.containerDAO.organizationDAO.createOrganization(
+      this.session, requestBody.name, now
+    );
+    if (!organization) {
+      throw new AppError('An organization with this name already exists', 409);
+    }
+    await this.containerDAO.organizationMemberDAO.createOrganizationMember(
+      this.session, organization.id, user.userId, 'owner', now
+    );
+
+    await this.recordAuditLog(
+      req, 'org.create', user, organization.id, now, undefined, OrganizationUtils.toAuditSnapshot(organization)
+    );
+
+    return OrganizationUtils.toOrganizationResponse(organization, 'owner');
+  }
+}
@@ -0,0 +1,62 @@
+import { Delete, Route, Tags, Request, Path, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { TransactionAbstractController } from '../../CustomController';
+import { getAuthenticatedUser } from '../../../setup/middleware/authMiddleware';
+import { AppError } from '../../../setup/middleware/errorHandler';
+import { OrganizationUtils } from '../OrganizationUtils';
+import { EnvVars } from '../../../setup/EnvVars';
+import { ContainerDAO } from '../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../domain/interfaces/DatabaseSession';
+import { TimestampProducer } from '../../../utils/TimestampProducer';
+
+@Route('org')
+@Tags('Organization')
+export class OrgDeleteController extends TransactionAbstractController {
+  private readonly timestampProducer: TimestampProducer;
+
+  constructor(
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>,
+    session: DatabaseSession<unknown>,
+    timestampProducer: TimestampProducer
+  ) {
+    super(envVars, containerDAO, session);
+    this.timestampProducer = timestampProducer;
+  }
+
+  /**
+   * Delete organization by ID together with its memberships
+   * Available to the owners of the organization only, once it owns no project anymore
+   */
+  @Delete('{organizationId}')
+  @Security('Bearer', ['org:write'])
+  @Security('ApiKey', ['org:write'])
+  public async deleteOrganization(
+    @Path() organizationId: string,
+    @Request() req: ExpressRequest
+  ): Promise<{ message: string }> {
+    const user = getAuthenticatedUser(req);
+
+    const { organization } = await OrganizationUtils.findOrganizationAndVerifyRole(
+      this.containerDAO, organizationId, user, 'owner'
+    );
+    if (await this.containerDAO.projectDAO.countByOrganizationId(organizationId) > 0) {
+      throw new AppError('The organization still owns projects', 409);
+    }
+
+    const deleted = await this.containerDAO.organizationDAO.deleteOrganization(this.session, organizationId);
+    if (!deleted) {
+      throw new AppError('Resource conflict - please try again', 423);
+    }
+    await this.containerDAO.organizationMemberDAO.deleteAllOrganizationMembers(this.session, organizationId);
+
+    await this.recordAuditLog(
+      req, 'org.delete', user, organizationId, this.timestampProducer.getNow(),
+      OrganizationUtils.toAuditSnapshot(organization)
+    );
+
+    return {
+      message: 'Organization deleted successfully'
+    };
+  }
+}
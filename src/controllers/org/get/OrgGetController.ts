@@ -0,0 +1,39 @@
+import { Get, Route, Tags, Request, Path, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { BaseCustomController } from '../../CustomController';
+import { OrganizationResponse } from '../../../dto/org/OrganizationResponse';
+import { getAuthenticatedUser } from '../../../setup/middleware/authMiddleware';
+import { OrganizationUtils } from '../OrganizationUtils';
+import { EnvVars } from '../../../setup/EnvVars';
+import { ContainerDAO } from '../../../domain/interfaces/ContainerDAO';
+
+@Route('org')
+@Tags('Organization')
+export class OrgGetController extends BaseCustomController {
+  constructor(
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>
+  ) {
+    super(envVars, containerDAO);
+  }
+
+  /**
+   * Get organization by ID
+   * Available to every member of the organization
+   */
+  @Get('{organizationId}')
+  @Security('Bearer', ['org:read'])
+  @Security('ApiKey', ['org:read'])
+  public async getOrganization(
+    @Path() organizationId: string,
+    @Request() req: ExpressRequest
+  ): Promise<OrganizationResponse> {
+    const user = getAuthenticatedUser(req);
+
+    const { organization, role } = await OrganizationUtils.findOrganizationAndVerifyRole(
+      this.containerDAO, organizationId, user, 'member'
+    );
+
+    return OrganizationUtils.toOrganizationResponse(organization, role);
+  }
+}
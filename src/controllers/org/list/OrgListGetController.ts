@@ -0,0 +1,41 @@
+import { Get, Route, Tags, Request, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { BaseCustomController } from '../../CustomController';
+import { OrganizationListResponse } from '../../../dto/org/OrganizationListResponse';
+import { getAuthenticatedUser } from '../../../setup/middleware/authMiddleware';
+import { OrganizationUtils } from '../OrganizationUtils';
+import { EnvVars } from '../../../setup/EnvVars';
+import { ContainerDAO } from '../../../domain/interfaces/ContainerDAO';
+
+@Route('org')
+@Tags('Organization')
+export class OrgListGetController extends BaseCustomController {
+  constructor(
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>
+  ) {
+    super(envVars, containerDAO);
+  }
+
+  /**
+   * Get the organizations the user is a member of
+   */
+  @Get('list')
+  @Security('Bearer', ['org:read'])
+  @Security('ApiKey', ['org:read'])
+  public async getOrganizations(
+    @Request() req: ExpressRequest
+  ): Promise<OrganizationListResponse> {
+    const user = getAuthenticatedUser(req);
+
+    const memberships = await this.containerDAO.organizationMemberDAO.findByUserId(user.userId);
+    const roles = new Map(memberships.map(member => [member.organizationId, member.role]));
+    const organizations = await this.containerDAO.organizationDAO.findByIds([...roles.keys()]);
+
+    return {
+      organizations: organizations.map(organization => OrganizationUtils.toOrganizationResponse(
+        organization, roles.get(organization.id)!
+      ))
+    };
+  }
+}
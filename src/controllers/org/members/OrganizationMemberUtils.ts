@@ -0,0 +1,65 @@
+import { AppError } from '../../../setup/middleware/errorHandler';
+import { ContainerDAO } from '../../../domain/interfaces/ContainerDAO';
+import { OrganizationMember, OrganizationRole } from '../../../domain/interfaces/entities/OrganizationMember';
+import { OrganizationMemberResponse } from '../../../dto/org/members/OrganizationMemberResponse';
+import { AuditSnapshot } from '../../../domain/utils/AuditLogDBUtils';
+
+/**
+ * Utility functions for organization member operations
+ */
+export class OrganizationMemberUtils {
+  /**
+   * Checks that only owners grant or take away the owner role, or throws a 403 error
+   * @param role - The role of the authenticated user in the organization
+   * @param affectedRoles - The roles a membership has before and after the change
+   * @throws AppError with 403 status if an admin changes the owner role
+   */
+  static canChangeOwnersOr403(role: OrganizationRole, affectedRoles: OrganizationRole[]): void {
+    if (role !== 'owner' && affectedRoles.includes('owner')) {
+      throw new AppError('Only owners can grant or take away the owner role', 403);
+    }
+  }
+
+  /**
+   * Checks that a membership is not the last owner of its organization, or throws a 400 error
+   * @param containerDAO - DAO container for database operations
+   * @param member - The membership losing its role or being removed
+   * @throws AppError with 400 status if the organization would have no owner left
+   */
+  static async keepsAnOwnerOr400(containerDAO: ContainerDAO<unknown>, member: OrganizationMember): Promise<void> {
+    if (member.role !== 'owner') {
+      return;
+    }
+    const owners = await containerDAO.organizationMemberDAO.countMembersWithRole(member.organizationId, 'owner');
+    if (owners <= 1) {
+      throw new AppError('An organization must keep at least one owner', 400);
+    }
+  }
+
+  /**
+   * Converts an OrganizationMember entity to an OrganizationMemberResponse DTO
+   * @param member - The membership entity to convert
+   * @param username - The username of the member
+   * @returns OrganizationMemberResponse - The formatted response object
+   */
+  static toOrganizationMemberResponse(member: OrganizationMember, username: string): OrganizationMemberResponse {
+    return {
+      userId: member.userId,
+      username,
+      role: member.role,
+      joinedAt: member.createdAt!
+    };
+  }
+
+  /**
+   * Extracts the fields of a membership recorded in the audit log
+   * @param member - The membership entity
+   * @returns AuditSnapshot - The audited fields
+   */
+  static toAuditSnapshot(member: OrganizationMember): AuditSnapshot {
+    return {
+      userId: member.userId,
+      role: member.role
+    };
+  }
+}
@@ -0,0 +1,68 @@
+import { Post, Body, Route, Tags, Request, Path, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { TransactionAbstractController } from '../../../CustomController';
+import { CreateOrganizationMemberRequest } from '../../../../dto/org/members/create/CreateOrganizationMemberRequest';
+import { OrganizationMemberResponse } from '../../../../dto/org/members/OrganizationMemberResponse';
+import { getAuthenticatedUser } from '../../../../setup/middleware/authMiddleware';
+import { AppError } from '../../../../setup/middleware/errorHandler';
+import { OrganizationUtils } from '../../OrganizationUtils';
+import { OrganizationMemberUtils } from '../OrganizationMemberUtils';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../../domain/interfaces/DatabaseSession';
+import { TimestampProducer } from '../../../../utils/TimestampProducer';
+
+@Route('org')
+@Tags('Organization')
+export class OrgMembersCreatePostController extends TransactionAbstractController {
+  private readonly timestampProducer: TimestampProducer;
+
+  constructor(
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>,
+    session: DatabaseSession<unknown>,
+    timestampProducer: TimestampProducer
+  ) {
+    super(envVars, containerDAO, session);
+    this.timestampProducer = timestampProducer;
+  }
+
+  /**
+   * Add a user to an organization
+   * Available to the owners and admins of the organization; only owners can add owners
+   */
+  @Post('{organizationId}/members')
+  @Security('Bearer', ['org:write'])
+  @Security('ApiKey', ['org:write'])
+  public async addMember(
+    @Path() organizationId: string,
+    @Body() requestBody: CreateOrganizationMemberRequest,
+    @Request() req: ExpressRequest
+  ): Promise<OrganizationMemberResponse> {
+    const user = getAuthenticatedUser(req);
+    const now = this.timestampProducer.getNow();
+
+    const { role } = await OrganizationUtils.findOrganizationAndVerifyRole(
+      this.containerDAO, organizationId, user, 'admin'
+    );
+    OrganizationMemberUtils.canChangeOwnersOr403(role, [requestBody.role]);
+
+    const memberUser = await this.containerDAO.userDAO.findByUsername(requestBody.username);
+    if (!memberUser) {
+      throw new AppError('User not found', 404);
+    }
+
+    const member = await this.containerDAO.organizationMemberDAO.createOrganizationMember(
+      this.session, organizationId, memberUser.id, requestBody.role, now
+    );
+    if (!member) {
+      throw new AppError('User is already a member of this organization', 409);
+    }
+
+    await this.recordAuditLog(
+      req, 'org.member_add', user, organizationId, now, undefined, OrganizationMemberUtils.toAuditSnapshot(member)
+    );
+
+    return OrganizationMemberUtils.toOrganizationMemberResponse(member, memberUser.username);
+  }
+}
@@ -0,0 +1,75 @@
+import { Delete, Route, Tags, Request, Path, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { TransactionAbstractController } from '../../../CustomController';
+import { OrganizationMemberDeleteResponse } from '../../../../dto/org/members/OrganizationMemberDeleteResponse';
+import { getAuthenticatedUser } from '../../../../setup/middleware/authMiddleware';
+import { AppError } from '../../../../setup/middleware/errorHandler';
+import { OrganizationUtils } from '../../OrganizationUtils';
+import { OrganizationMemberUtils } from '../OrganizationMemberUtils';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../../domain/interfaces/DatabaseSession';
+import { TimestampProducer } from '../../../../utils/TimestampProducer';
+
+@Route('org')
+@Tags('Organization')
+export class OrgMembersDeleteController extends TransactionAbstractController {
+  private readonly timestampProducer: TimestampProducer;
+
+  constructor(
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>,
+    session: DatabaseSession<unknown>,
+    timestampProducer: TimestampProducer
+  ) {
+    super(envVars, containerDAO, session);
+    this.timestampProducer = timestampProducer;
+  }
+
+  /**
+   * Remove a member from an organization
+   * Owners and admins can remove members (only owners can remove owners), and members can
+   * remove themselves to leave the organization; the last owner cannot leave
+   */
+  @Delete('{organizationId}/members/{userId}')
+  @Security('Bearer', ['org:write'])
+  @Security('ApiKey', ['org:write'])
+  public async removeMember(
+    @Path() organizationId: string,
+    @Path() userId: string,
+    @Request() req: ExpressRequest
+  ): Promise<OrganizationMemberDeleteResponse> {
+    const user = getAuthenticatedUser(req);
+    const now = this.timestampProducer.getNow();
+    const isSelf = userId === user.userId;
+
+    const { role } = await OrganizationUtils.findOrganizationAndVerifyRole(
+      this.containerDAO, organizationId, user, isSelf ? 'member' : 'admin'
+    );
+
+    const member = await this.containerDAO.organizationMemberDAO.findMember(organizationId, userId);
+    if (!member) {
+      throw new AppError('Member not found', 404);
+    }
+    if (!isSelf) {
+      OrganizationMemberUtils.canChangeOwnersOr403(role, [member.role]);
+    }
+    await OrganizationMemberUtils.keepsAnOwnerOr400(this.containerDAO, member);
+
+    const deleted = await this.containerDAO.organizationMemberDAO.deleteOrganizationMember(
+      this.session, organizationId, userId
+    );
+    if (!deleted) {
+      throw new AppError('Resource conflict - please try again', 423);
+    }
+
+    await this.recordAuditLog(
+      req, 'org.member_remove', user, organizationId, now, OrganizationMemberUtils.toAuditSnapshot(member)
+    );
+
+    return {
+      message: 'Member removed successfully',
+      removedAt: new Date(now)
+    };
+  }
+}
@@ -0,0 +1,47 @@
+import { Get, Route, Tags, Request, Path, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { BaseCustomController } from '../../../CustomController';
+import { OrganizationMemberListResponse } from '../../../../dto/org/members/OrganizationMemberListResponse';
+import { getAuthenticatedUser } from '../../../../setup/middleware/authMiddleware';
+import { OrganizationUtils } from '../../OrganizationUtils';
+import { OrganizationMemberUtils } from '../OrganizationMemberUtils';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+
+@Route('org')
+@Tags('Organization')
+export class OrgMembersListGetController extends BaseCustomController {
+  constructor(
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>
+  ) {
+    super(envVars, containerDAO);
+  }
+
+  /**
+   * List the members of an organization
+   * Available to every member of the organization
+   */
+  @Get('{organizationId}/members')
+  @Security('Bearer', ['org:read'])
+  @Security('ApiKey', ['org:read'])
+  public async getMembers(
+    @Path() organizationId: string,
+    @Request() req: ExpressRequest
+  ): Promise<OrganizationMemberListResponse> {
+    const user = getAuthenticatedUser(req);
+
+    await OrganizationUtils.findOrganizationAndVerifyRole(this.containerDAO, organizationId, user, 'member');
+
+    const members = await this.containerDAO.organizationMemberDAO.findByOrganizationId(organizationId);
+    const memberUsers = await Promise.all(members.map(member => this.containerDAO.userDAO.findById(member.userId)));
+
+    // Memberships are deleted with the account: a missing user was deleted concurrently
+    return {
+      members: members.flatMap((member, index) => {
+        const memberUser = memberUsers[index];
+        return memberUser ? [OrganizationMemberUtils.toOrganizationMemberResponse(member, memberUser.username)] : [];
+      })
+    };
+  }
+}
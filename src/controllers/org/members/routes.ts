@@ -0,0 +1,129 @@
+import { Router, Request, Response } from 'express';
+import { OrgMembersCreatePostController } from './create/OrgMembersCreatePostController';
+import { OrgMembersListGetController } from './list/OrgMembersListGetController';
+import { OrgMembersUpdatePutController } from './update/OrgMembersUpdatePutController';
+import { OrgMembersDeleteController } from './delete/OrgMembersDeleteController';
+import { asyncHandler, dbTransactionHandler } from '../../../setup/middleware/errorHandler';
+import { validateRequestBody, validateRequestParams } from '../../../setup/middleware/classValidation';
+import { authMiddleware, requireScope } from '../../../setup/middleware/authMiddleware';
+import { EnvVars } from '../../../setup/EnvVars';
+import { ContainerDAO } from '../../../domain/interfaces/ContainerDAO';
+import { CreateOrganizationMemberRequest } from '../../../dto/org/members/create/CreateOrganizationMemberRequest';
+import { UpdateOrganizationMemberRequest } from '../../../dto/org/members/update/UpdateOrganizationMemberRequest';
+import { OrganizationParams } from '../../../dto/org/OrganizationParams';
+import { OrganizationMemberParams } from '../../../dto/org/members/OrganizationMemberParams';
+import { DatabaseSession } from '../../../domain/interfaces/DatabaseSession';
+import { DatabaseSessionProducer } from '../../../domain/interfaces/DatabaseSessionProducer';
+import { TimestampProducer } from '../../../utils/TimestampProducer';
+
+/**
+ * Registers the organization membership routes
+ * All routes require authentication, with an access token or an API key
+ * granted the scope of the route (org:read or org:write), and a role in
+ * the organization allowing the operation
+ * 
+ * @param router - Express router instance
+ * @param envVars - Environment variables configuration
+ * @param containerDAO - Container for all DAO instances
+ * @param databaseSessionProducer - Producer for database sessions
+ * @param timestampProducer - Producer for timestamps
+ */
+export function registerOrgMemberRoutes(
+  router: Router,
+  envVars: EnvVars,
+  containerDAO: ContainerDAO<unknown>,
+  databaseSessionProducer: DatabaseSessionProducer<unknown>,
+  timestampProducer: TimestampProducer
+): void {
+  const authenticate = authMiddleware(envVars, containerDAO, timestampProducer, { acceptApiKeys: true });
+
+  /**
+   * POST /org/:organizationId/members
+   * Add a user to an organization
+   * Requires authentication with the org:write scope and the owner or admin role
+   * Requires: username, role (owner, admin or member; owners only grant owner)
+   * Returns: 201 with the new member
+   */
+  router.post(
+    '/org/:organizationId/members',
+    authenticate,
+    requireScope('org:write'),
+    validateRequestParams(OrganizationParams),
+    validateRequestBody(CreateOrganizationMemberRequest),
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new OrgMembersCreatePostController(
+          envVars, containerDAO, session, timestampProducer
+        ).addMember(req.params.organizationId, req.body, req);
+        return { statusCode: 201, data };
+      }
+    )
+  );
+
+  /**
+   * GET /org/:organizationId/members
+   * List the members of an organization
+   * Requires authentication with the org:read scope and membership of the organization
+   * Returns: 200 with the members
+   */
+  router.get(
+    '/org/:organizationId/members',
+    authenticate,
+    requireScope('org:read'),
+    validateRequestParams(OrganizationParams),
+    asyncHandler(async (req: Request, res: Response) => {
+      res.json(
+        await new OrgMembersListGetController(envVars, containerDAO).getMembers(req.params.organizationId, req)
+      );
+    })
+  );
+
+  /**
+   * PUT /org/:organizationId/members/:userId
+   * Change the role of an organization member
+   * Requires authentication with the org:write scope and the owner or admin role
+   * (owner to grant or take away the owner role)
+   * Requires: role (owner, admin or member)
+   * Returns: 200 with the updated member
+   */
+  router.put(
+    '/org/:organizationId/members/:userId',
+    authenticate,
+    requireScope('org:write'),
+    validateRequestParams(OrganizationMemberParams),
+    validateRequestBody(UpdateOrganizationMemberRequest),
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new OrgMembersUpdatePutController(
+          envVars, containerDAO, session, timestampProducer
+        ).updateMember(req.params.organizationId, req.params.userId, req.body, req);
+        return { statusCode: 200, data };
+      }
+    )
+  );
+
+  /**
+   * DELETE /org/:organizationId/members/:userId
+   * Remove a member from an organization
+   * Requires authentication with the org:write scope and the owner or admin role
+   * (owner to remove owners), unless members remove themselves
+   * Returns: 200 with removal confirmation
+   */
+  router.delete(
+    '/org/:organizationId/members/:userId',
+    authenticate,
+    requireScope('org:write'),
+    validateRequestParams(OrganizationMemberParams),
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new OrgMembersDeleteController(
+          envVars, containerDAO, session, timestampProducer
+        ).removeMember(req.params.organizationId, req.params.userId, req);
+        return { statusCode: 200, data };
+      }
+    )
+  );
+}
@@ -0,0 +1,75 @@
+import { Put, Body, Route, Tags, Request, Path, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { TransactionAbstractController } from '../../../CustomController';
+import { UpdateOrganizationMemberRequest } from '../../../../dto/org/members/update/UpdateOrganizationMemberRequest';
+import { OrganizationMemberResponse } from '../../../../dto/org/members/OrganizationMemberResponse';
+import { getAuthenticatedUser } from '../../../../setup/middleware/authMiddleware';
+import { AppError } from '../../../../setup/middleware/errorHandler';
+import { OrganizationUtils } from '../../OrganizationUtils';
+import { OrganizationMemberUtils } from '../OrganizationMemberUtils';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../../domain/interfaces/DatabaseSession';
+import { TimestampProducer } from '../../../../utils/TimestampProducer';
+
+@Route('org')
+@Tags('Organization')
+export class OrgMembersUpdatePutController extends TransactionAbstractController {
+  private readonly timestampProducer: TimestampProducer;
+
+  constructor(
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>,
+    session: DatabaseSession<unknown>,
+    timestampProducer: TimestampProducer
+  ) {
+    super(envVars, containerDAO, session);
+    this.timestampProducer = timestampProducer;
+  }
+
+  /**
+   * Change the role of an organization member
+   * Available to the owners and admins of the organization; only owners can grant or take away
+   * the owner role, and the last owner keeps it
+   */
+  @Put('{organizationId}/members/{userId}')
+  @Security('Bearer', ['org:write'])
+  @Security('ApiKey', ['org:write'])
+  public async updateMember(
+    @Path() organizationId: string,
+    @Path() userId: string,
+    @Body() requestBody: UpdateOrganizationMemberRequest,
+    @Request() req: ExpressRequest
+  ): Promise<OrganizationMemberResponse> {
+    const user = getAuthenticatedUser(req);
+    const now = this.timestampProducer.getNow();
+
+    const { role } = await OrganizationUtils.findOrganizationAndVerifyRole(
+      this.containerDAO, organizationId, user, 'admin'
+    );
+
+    const member = await this.containerDAO.organizationMemberDAO.findMember(organizationId, userId);
+    if (!member) {
+      throw new AppError('Member not found', 404);
+    }
+    OrganizationMemberUtils.canChangeOwnersOr403(role, [member.role, requestBody.role]);
+    if (requestBody.role !== 'owner') {
+      await OrganizationMemberUtils.keepsAnOwnerOr400(this.containerDAO, member);
+    }
+
+    const updatedMember = await this.containerDAO.organizationMemberDAO.updateMemberRole(
+      this.session, organizationId, userId, requestBody.role, now
+    );
+    if (!updatedMember) {
+      throw new AppError('Resource conflict - please try again', 423);
+    }
+    const memberUser = await this.containerDAO.userDAO.findById(userId);
+
+    await this.recordAuditLog(
+      req, 'org.member_update', user, organizationId, now,
+      OrganizationMemberUtils.toAuditSnapshot(member), OrganizationMemberUtils.toAuditSnapshot(updatedMember)
+    );
+
+    return OrganizationMemberUtils.toOrganizationMemberResponse(updatedMember, memberUser?.username ?? '');
+  }
+}
@@ -0,0 +1,138 @@
+import { Router, Request, Response } from 'express';
+import { OrgCreatePostController } from './create/OrgCreatePostController';
+import { OrgListGetController } from './list/OrgListGetController';
+import { OrgGetController } from './get/OrgGetController';
+import { OrgUpdatePutController } from './update/OrgUpdatePutController';
+import { OrgDeleteController } from './delete/OrgDeleteController';
+import { asyncHandler, dbTransactionHandler } from '../../setup/middleware/errorHandler';
+import { validateRequestBody, validateRequestParams } from '../../setup/middleware/classValidation';
+import { authMiddleware, requireScope } from '../../setup/middleware/authMiddleware';
+import { EnvVars } from '../../setup/EnvVars';
+import { ContainerDAO } from '../../domain/interfaces/ContainerDAO';
+import { CreateOrganizationRequest } from '../../dto/org/create/CreateOrganizationRequest';
+import { UpdateOrganizationRequest } from '../../dto/org/update/UpdateOrganizationRequest';
+import { OrganizationParams } from '../../dto/org/OrganizationParams';
+import { DatabaseSession } from '../../domain/interfaces/DatabaseSession';
+import { DatabaseSessionProducer } from '../../domain/interfaces/DatabaseSessionProducer';
+import { TimestampProducer } from '../../utils/TimestampProducer';
+
+/**
+ * Registers all organization management routes
+ * All routes require authentication, with an access token or an API key
+ * granted the scope of the route (org:read or org:write)
+ * 
+ * @param router - Express router instance
+ * @param envVars - Environment variables configuration
+ * @param containerDAO - Container for all DAO instances
+ * @param databaseSessionProducer - Producer for database sessions
+ * @param timestampProducer - Producer for timestamps
+ */
+export function registerOrgRoutes(
+  router: Router,
+  envVars: EnvVars,
+  containerDAO: ContainerDAO<unknown>,
+  databaseSessionProducer: DatabaseSessionProducer<unknown>,
+  timestampProducer: TimestampProducer
+): void {
+  const authenticate = authMiddleware(envVars, containerDAO, timestampProducer, { acceptApiKeys: true });
+
+  /**
+   * POST /org
+   * Create a new organization owned by the authenticated user
+   * Requires authentication with the org:write scope
+   * Requires: name (1-100 chars, unique)
+   * Returns: 201 with created organization data
+   */
+  router.post(
+    '/org',
+    authenticate,
+    requireScope('org:write'),
+    validateRequestBody(CreateOrganizationRequest),
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new OrgCreatePostController(
+          envVars, containerDAO, session, timestampProducer
+        ).createOrganization(req.body, req);
+        return { statusCode: 201, data };
+      }
+    )
+  );
+
+  /**
+   * GET /org/list
+   * Get the organizations the user is a member of
+   * Requires authentication with the org:read scope
+   * Returns: 200 with organizations array
+   */
+  router.get(
+    '/org/list',
+    authenticate,
+    requireScope('org:read'),
+    asyncHandler(async (req: Request, res: Response) => {
+      res.json(await new OrgListGetController(envVars, containerDAO).getOrganizations(req));
+    })
+  );
+
+  /**
+   * GET /org/:organizationId
+   * Get specific organization by ID
+   * Requires authentication with the org:read scope and membership of the organization
+   * Returns: 200 with organization data
+   */
+  router.get(
+    '/org/:organizationId',
+    authenticate,
+    requireScope('org:read'),
+    validateRequestParams(OrganizationParams),
+    asyncHandler(async (req: Request, res: Response) => {
+      res.json(await new OrgGetController(envVars, containerDAO).getOrganization(req.params.organizationId, req));
+    })
+  );
+
+  /**
+   * PUT /org/:organizationId
+   * Rename an organization
+   * Requires authentication with the org:write scope and the owner role
+   * Requires: name (1-100 chars, unique)
+   * Returns: 200 with updated organization data
+   */
+  router.put(
+    '/org/:organizationId',
+    authenticate,
+    requireScope('org:write'),
+    validateRequestParams(OrganizationParams),
+    validateRequestBody(UpdateOrganizationRequest),
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new OrgUpdatePutController(
+          envVars, containerDAO, session, timestampProducer
+        ).updateOrganization(req.params.organizationId, req.body, req);
+        return { statusCode: 200, data };
+      }
+    )
+  );
+
+  /**
+   * DELETE /org/:organizationId
+   * Delete an organization that owns no project
+   * Requires authentication with the org:write scope and the owner role
+   * Returns: 200 with deletion confirmation
+   */
+  router.delete(
+    '/org/:organizationId',
+    authenticate,
+    requireScope('org:write'),
+    validateRequestParams(OrganizationParams),
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new OrgDeleteController(
+          envVars, containerDAO, session, timestampProducer
+        ).deleteOrganization(req.params.organizationId, req);
+        return { statusCode: 200, data };
+      }
+    )
+  );
+}
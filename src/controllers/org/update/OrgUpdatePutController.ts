@@ -0,0 +1,62 @@
+import { Put, Body, Route, Tags, Request, Path, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { TransactionAbstractController } from '../../CustomController';
+import { UpdateOrganizationRequest } from '../../../dto/org/update/UpdateOrganizationRequest';
+import { OrganizationResponse } from '../../../dto/org/OrganizationResponse';
+import { getAuthenticatedUser } from '../../../setup/middleware/authMiddleware';
+import { AppError } from '../../../setup/middleware/errorHandler';
+import { OrganizationUtils } from '../OrganizationUtils';
+import { EnvVars } from '../../../setup/EnvVars';
+import { ContainerDAO } from '../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../domain/interfaces/DatabaseSession';
+import { TimestampProducer } from '../../../utils/TimestampProducer';
+
+@Route('org')
+@Tags('Organization')
+export class OrgUpdatePutController extends TransactionAbstractController {
+  private readonly timestampProducer: TimestampProducer;
+
+  constructor(
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>,
+    session: DatabaseSession<unknown>,
+    timestampProducer: TimestampProducer
+  ) {
+    super(envVars, containerDAO, session);
+    this.timestampProducer = timestampProducer;
+  }
+
+  /**
+   * Rename an organization
+   * Available to the owners of the organization only
+   */
+  @Put('{organizationId}')
+  @Security('Bearer', ['org:write'])
+  @Security('ApiKey', ['org:write'])
+  public async updateOrganization(
+    @Path() organizationId: string,
+    @Body() requestBody: UpdateOrganizationRequest,
+    @Request() req: ExpressRequest
+  ): Promise<OrganizationResponse> {
+    const user = getAuthenticatedUser(req);
+    const now = this.timestampProducer.getNow();
+
+    const { organization, role } = await OrganizationUtils.findOrganizationAndVerifyRole(
+      this.containerDAO, organizationId, user, 'owner'
+    );
+
+    const updatedOrganization = await this.containerDAO.organizationDAO.updateOrganization(
+      this.session, organizationId, requestBody.name, now
+    );
+    if (!updatedOrganization) {
+      throw new AppError('An organization with this name already exists', 409);
+    }
+
+    await this.recordAuditLog(
+      req, 'org.update', user, organizationId, now,
+      OrganizationUtils.toAuditSnapshot(organization), OrganizationUtils.toAuditSnapshot(updatedOrganization)
+    );
+
+    return OrganizationUtils.toOrganizationResponse(updatedOrganization, role);
+  }
+}
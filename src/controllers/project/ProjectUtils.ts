@@ -1,13 +1,25 @@
 import { AppError } from '../../setup/middleware/errorHandler';
 import { ContainerDAO } from '../../domain/interfaces/ContainerDAO';
 import { Project } from '../../domain/interfaces/entities/Project';
+import { PROJECT_ROLES, ProjectMemberRole, ProjectRole } from '../../domain/interfaces/entities/ProjectMember';
+import { OrganizationRole } from '../../domain/interfaces/entities/OrganizationMember';
 import { ProjectResponse } from '../../dto/project/ProjectResponse';
+import { AuditSnapshot } from '../../domain/utils/AuditLogDBUtils';
 import { JWTPayload } from '../../utils/JWTService';
 
 /**
  * Utility functions for project operations
  */
 export class ProjectUtils {
+  /**
+   * Role granted on the projects of an organization by each role in the organization
+   */
+  private static readonly ORGANIZATION_PROJECT_ROLES: Record<OrganizationRole, ProjectRole> = {
+    owner: 'owner',
+    admin: 'owner',
+    member: 'maintainer'
+  };
+
   /**
    * Finds a project by ID or throws a 404 error if not found
    * @param containerDAO - DAO container for database operations
@@ -27,48 +39,133 @@ export class ProjectUtils {
   }
 
   /**
-   * Checks if a project is owned by the authenticated user or throws a 403 error
-   * @param project - The project to check ownership for
-   * @param user - The authenticated user
-   * @throws AppError with 403 status if user doesn't own the project
+   * Checks whether a user owns a personal project
+   * The creator of an organization project has no role on it beyond the one granted by the organization
+   * @param project - The project to check
+   * @param userId - ID of the user
+   * @returns boolean - true if the project is personal and was created by the user
    */
-  static isProjectOwnedByUserOr403(project: Project, user: JWTPayload): void {
-    if (project.userId !== user.userId) {
+  static isPersonalProjectOwner(project: Project, userId: string): boolean {
+    return project.organizationId === null && project.userId === userId;
+  }
+
+  /**
+   * Resolves the role of a user on a project from everything granting them access,
+   * keeping the most privileged one
+   * @param project - The project to check
+   * @param userId - ID of the user
+   * @param organizationRole - Role of the user in the organization of the project, null if none
+   * @param memberRole - Role of the user as a member of the project, null if none
+   * @returns ProjectRole | null - The role, or null if the user has no access to the project
+   */
+  static resolveProjectRole(
+    project: Project,
+    userId: string,
+    organizationRole: OrganizationRole | null,
+    memberRole: ProjectMemberRole | null
+  ): ProjectRole | null {
+    const roles: ProjectRole[] = [];
+    if (this.isPersonalProjectOwner(project, userId)) {
+      roles.push('owner');
+    }
+    if (organizationRole) {
+      roles.push(this.ORGANIZATION_PROJECT_ROLES[organizationRole]);
+    }
+    if (memberRole) {
+      roles.push(memberRole);
+    }
+    return PROJECT_ROLES.find(role => roles.includes(role)) ?? null;
+  }
+
+  /**
+   * Finds the role of a user on a project
+   * Organization owners and admins own the projects of the organization, its members maintain them
+   * @param containerDAO - DAO container for database operations
+   * @param project - The project to check
+   * @param userId - ID of the user
+   * @returns Promise<ProjectRole | null> - The role, or null if the project is not shared with the user
+   */
+  static async findProjectRole(
+    containerDAO: ContainerDAO<unknown>,
+    project: Project,
+    userId: string
+  ): Promise<ProjectRole | null> {
+    if (this.isPersonalProjectOwner(project, userId)) {
+      return 'owner';
+    }
+    const [organizationMember, member] = await Promise.all([
+      project.organizationId
+        ? containerDAO.organizationMemberDAO.findMember(project.organizationId, userId)
+        : null,
+      containerDAO.projectMemberDAO.findMember(project.id, userId)
+    ]);
+    return this.resolveProjectRole(project, userId, organizationMember?.role ?? null, member?.role ?? null);
+  }
+
+  /**
+   * Checks that a role grants at least the permissions of the required role or throws a 403 error
+   * Owners can do everything, maintainers can read and update, viewers can only read
+   * @param role - The role of the user on the project, null if not shared with them
+   * @param requiredRole - The least privileged role allowed
+   * @throws AppError with 403 status if the role is not sufficient
+   */
+  static hasProjectRoleOr403(role: ProjectRole | null, requiredRole: ProjectRole): asserts role is ProjectRole {
+    if (!role || PROJECT_ROLES.indexOf(role) > PROJECT_ROLES.indexOf(requiredRole)) {
       throw new AppError('Access denied', 403);
     }
   }
 
   /**
-   * Combined utility that finds a project and verifies ownership in one call
+   * Combined utility that finds a project and verifies the role of the user in one call
    * @param containerDAO - DAO container for database operations
    * @param projectId - ID of the project to find
    * @param user - The authenticated user
-   * @returns Promise<Project> - The found and verified project
+   * @param requiredRole - The least privileged role allowed
+   * @returns Promise<{ project: Project; role: ProjectRole }> - The found project and the role of the user
    * @throws AppError with 404 status if project not found or 403 if access denied
    */
-  static async findProjectAndVerifyOwnership(
+  static async findProjectAndVerifyRole(
     containerDAO: ContainerDAO<unknown>,
     projectId: string,
-    user: JWTPayload
-  ): Promise<Project> {
+    user: JWTPayload,
+    requiredRole: ProjectRole
+  ): Promise<{ project: Project; role: ProjectRole }> {
     const project = await this.findProjectOr404(containerDAO, projectId);
-    this.isProjectOwnedByUserOr403(project, user);
-    return project;
+    const role = await this.findProjectRole(containerDAO, project, user.userId);
+    this.hasProjectRoleOr403(role, requiredRole);
+    return { project, role };
   }
 
   /**
    * Converts a Project entity to a ProjectResponse DTO
    * @param project - The project entity to convert
+   * @param role - The role of the authenticated user on the project
    * @returns ProjectResponse - The formatted response object
    */
-  static toProjectResponse(project: Project): ProjectResponse {
+  static toProjectResponse(project: Project, role: ProjectRole): ProjectResponse {
     return {
       id: project.id,
       name: project.name,
       gitUrl: project.gitUrl,
       userId: project.userId,
+      organizationId: project.organizationId,
+      role,
       createdAt: project.createdAt!,
       updatedAt: project.updatedAt!
     };
   }
+
+  /**
+   * Extracts the fields of a project recorded in the audit log
+   * @param project - The project entity
+   * @returns AuditSnapshot - The audited fields
+   */
+  static toAuditSnapshot(project: Project): AuditSnapshot {
+    return {
+      name: project.name,
+      gitUrl: project.gitUrl,
+      userId: project.userId,
+      organizationId: project.organizationId
+    };
+  }
 }
\ No newline at end of file
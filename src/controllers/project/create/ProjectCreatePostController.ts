@@ -6,6 +6,7 @@ import { ProjectResponse } from '../../../dto/project/ProjectResponse';
 import { getAuthenticatedUser } from '../../../setup/middleware/authMiddleware';
 import { AppError } from '../../../setup/middleware/errorHandler';
 import { ProjectUtils } from '../ProjectUtils';
+import { OrganizationUtils } from '../../org/OrganizationUtils';
 import { EnvVars } from '../../../setup/EnvVars';
 import { ContainerDAO } from '../../../domain/interfaces/ContainerDAO';
 import { DatabaseSession } from '../../../domain/interfaces/DatabaseSession';
@@ -27,29 +28,41 @@ export class ProjectCreatePostController extends TransactionAbstractController {
   }
 
   /**
-   * Create a new project
+   * Create a new project, owned by the authenticated user or by one of their organizations
+   * Projects of an organization can be created by its owners and admins
    */
   @Post()
-  @Security('Bearer')
+  @Security('Bearer', ['project:write'])
+  @Security('ApiKey', ['project:write'])
   public async createProject(
     @Body() requestBody: CreateProjectRequest,
     @Request() req: ExpressRequest
   ): Promise<ProjectResponse> {
     const user = getAuthenticatedUser(req);
-    const { name, gitUrl } = requestBody;
+    const { name, gitUrl, organizationId } = requestBody;
+    const now = this.timestampProducer.getNow();
+
+    if (organizationId) {
+      await OrganizationUtils.findOrganizationAndVerifyRole(this.containerDAO, organizationId, user, 'admin');
+    }
 
     const project = await this.containerDAO.projectDAO.createProject(
       this.session,
       name,
       gitUrl,
       user.userId,
-      this.timestampProducer.getNow()
+      organizationId ?? null,
+      now
     );
 
     if (!project) {
       throw new AppError('A project with this name already exists', 409);
     }
 
-    return ProjectUtils.toProjectResponse(project);
+    await this.recordAuditLog(
+      req, 'project.create', user, project.id, now, undefined, ProjectUtils.toAuditSnapshot(project)
+    );
+
+    return ProjectUtils.toProjectResponse(project, 'owner');
   }
 }
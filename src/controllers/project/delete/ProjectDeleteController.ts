@@ -7,39 +7,54 @@ import { ProjectUtils } from '../ProjectUtils';
 import { EnvVars } from '../../../setup/EnvVars';
 import { ContainerDAO } from '../../../domain/interfaces/ContainerDAO';
 import { DatabaseSession } from '../../../domain/interfaces/DatabaseSession';
+import { TimestampProducer } from '../../../utils/TimestampProducer';
 
 @Route('project')
 @Tags('Project')
 export class ProjectDeleteController extends TransactionAbstractController {
+  private readonly timestampProducer: TimestampProducer;
+
   constructor(
-    envVars: EnvVars, containerDAO: ContainerDAO<unknown>, session: DatabaseSession<unknown>
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>,
+    session: DatabaseSession<unknown>,
+    timestampProducer: TimestampProducer
   ) {
     super(envVars, containerDAO, session);
+    this.timestampProducer = timestampProducer;
   }
 
   /**
-   * Delete project by ID
+   * Delete project by ID together with its members and its pending transfer
+   * Available to the owner of the project only, the owners and admins of its organization
+   * for organization projects
    */
   @Delete('{projectId}')
-  @Security('Bearer')
+  @Security('Bearer', ['project:write'])
+  @Security('ApiKey', ['project:write'])
   public async deleteProject(
     @Path() projectId: string,
     @Request() req: ExpressRequest
   ): Promise<{ message: string }> {
     const user = getAuthenticatedUser(req);
 
-    await ProjectUtils.findProjectAndVerifyOwnership(
-      this.containerDAO, projectId, user
+    const { project } = await ProjectUtils.findProjectAndVerifyRole(
+      this.containerDAO, projectId, user, 'owner'
     );
 
     // Delete the project
-    const deleted = await this.containerDAO.projectDAO.deleteProject(
-      this.session, projectId, user.userId
-    );
+    const deleted = await this.containerDAO.projectDAO.deleteProject(this.session, projectId);
 
     if (!deleted) {
       throw new AppError('Resource conflict - please try again', 423);
     }
+    await this.containerDAO.projectMemberDAO.deleteAllProjectMembers(this.session, [projectId]);
+    await this.containerDAO.projectTransferDAO.deleteProjectTransfer(this.session, projectId);
+
+    await this.recordAuditLog(
+      req, 'project.delete', user, projectId, this.timestampProducer.getNow(),
+      ProjectUtils.toAuditSnapshot(project)
+    );
 
     return {
       message: 'Project deleted successfully'
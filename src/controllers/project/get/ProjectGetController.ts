@@ -19,19 +19,21 @@ export class ProjectGetController extends BaseCustomController {
 
   /**
    * Get project details by ID
+   * Available to the owner and every member of the project
    */
   @Get('{projectId}')
-  @Security('Bearer')
+  @Security('Bearer', ['project:read'])
+  @Security('ApiKey', ['project:read'])
   public async getProject(
     @Path() projectId: string,
     @Request() req: ExpressRequest
   ): Promise<ProjectResponse> {
     const user = getAuthenticatedUser(req);
 
-    const project = await ProjectUtils.findProjectAndVerifyOwnership(
-      this.containerDAO, projectId, user
+    const { project, role } = await ProjectUtils.findProjectAndVerifyRole(
+      this.containerDAO, projectId, user, 'viewer'
     );
 
-    return ProjectUtils.toProjectResponse(project);
+    return ProjectUtils.toProjectResponse(project, role);
   }
 }
@@ -1,10 +1,17 @@
-import { Get, Route, Tags, Request, Query, Security } from 'tsoa';
+import { Get, Route, Tags, Request, Queries, Security } from 'tsoa';
 import { Request as ExpressRequest } from 'express';
 import { BaseCustomController } from '../../CustomController';
 import { ProjectListResponse } from '../../../dto/project/ProjectListResponse';
+import { ProjectListQuery } from '../../../dto/project/ProjectListQuery';
+import { ProjectListFilters } from '../../../dto/project/ProjectListFilters';
 import { getAuthenticatedUser } from '../../../setup/middleware/authMiddleware';
+import { AppError } from '../../../setup/middleware/errorHandler';
+import { ProjectUtils } from '../ProjectUtils';
 import { EnvVars } from '../../../setup/EnvVars';
 import { ContainerDAO } from '../../../domain/interfaces/ContainerDAO';
+import { ProjectAccess } from '../../../domain/interfaces/dao/ProjectDAO';
+import { Project } from '../../../domain/interfaces/entities/Project';
+import { ProjectListUtils } from './ProjectListUtils';
 
 @Route('project')
 @Tags('Project')
@@ -17,38 +24,111 @@ export class ProjectListGetController extends BaseCustomController {
   }
 
   /**
-   * Get user's projects with pagination
+   * Get the projects the user owns, can access through their organizations or has been shared into,
+   * with pagination, filtering and sorting
+   * Projects can be filtered by organization, name substring, full-text search on the name, git host
+   * and creation or update date range, and sorted by name, creation or update date in either direction;
+   * date bounds are ISO 8601 dates and inclusive. The applied filters are echoed back in the response
+   * Pages are numbered by default; with pagination=cursor they are read from the nextCursor or prevCursor
+   * of the previous page instead, and the total is only counted when includeTotal is set
    */
   @Get('list')
-  @Security('Bearer')
+  @Security('Bearer', ['project:read'])
+  @Security('ApiKey', ['project:read'])
   public async getProjects(
     @Request() req: ExpressRequest,
-    @Query() page: number = 1,
-    @Query() limit: number = 10
+    @Queries() query: ProjectListQuery
   ): Promise<ProjectListResponse> {
     const user = getAuthenticatedUser(req);
+    if (query.pagination === 'offset' && query.cursor) {
+      throw new AppError('cursor can only be used with cursor pagination', 400);
+    }
     
     // Validate pagination parameters
-    const validPage = Math.max(1, Math.floor(page));
-    const validLimit = Math.min(100, Math.max(1, Math.floor(limit)));
+    const validPage = Math.max(1, Math.floor(query.page ?? 1));
+    const validLimit = Math.min(100, Math.max(1, Math.floor(query.limit ?? 10)));
 
-    const result = await this.containerDAO.projectDAO.findByUserId(
-      user.userId, validPage, validLimit
+    const filters = this.toFilters(query);
+    const { sort, ...filter } = filters;
+    const cursor = query.cursor ? ProjectListUtils.decodeCursor(query.cursor, sort) : null;
+
+    const [organizationMemberships, memberships] = await Promise.all([
+      this.containerDAO.organizationMemberDAO.findByUserId(user.userId),
+      this.containerDAO.projectMemberDAO.findByUserId(user.userId)
+    ]);
+    const organizationRoles = new Map(organizationMemberships.map(member => [member.organizationId, member.role]));
+    const sharedRoles = new Map(memberships.map(member => [member.projectId, member.role]));
+    const access: ProjectAccess = {
+      userId: user.userId,
+      organizationIds: [...organizationRoles.keys()],
+      sharedProjectIds: [...sharedRoles.keys()]
+    };
+    const toProjectResponses = (projects: Project[]) => projects.map(project => ProjectUtils.toProjectResponse(
+      project,
+      ProjectUtils.resolveProjectRole(
+        project,
+        user.userId,
+        project.organizationId ? organizationRoles.get(project.organizationId) ?? null : null,
+        sharedRoles.get(project.id) ?? null
+      )!
+    ));
+
+    if (query.pagination === 'cursor' || cursor) {
+      const result = await this.containerDAO.projectDAO.findAccessibleProjectsByCursor(
+        access, filter, ProjectListUtils.toProjectSort(sort), cursor, validLimit, query.includeTotal === 'true'
+      );
+      // A page read backwards always has the page it was read from after it
+      const hasNext = cursor?.direction === 'before' || result.hasMore;
+      const hasPrevious = cursor?.direction === 'before' ? result.hasMore : cursor !== null;
+      const first = result.projects[0];
+      const last = result.projects[result.projects.length - 1];
+
+      return {
+        projects: toProjectResponses(result.projects),
+        ...(result.total !== undefined && { total: result.total, totalPages: Math.ceil(result.total / validLimit) }),
+        limit: validLimit,
+        filters,
+        nextCursor: hasNext && last ? ProjectListUtils.encodeCursor(last, sort, 'after') : null,
+        prevCursor: hasPrevious && first ? ProjectListUtils.encodeCursor(first, sort, 'before') : null
+      };
+    }
+
+    const result = await this.containerDAO.projectDAO.findAccessibleProjects(
+      access, filter, ProjectListUtils.toProjectSort(sort), validPage, validLimit
     );
 
     return {
-      projects: result.projects.map(project => ({
-        id: project.id,
-        name: project.name,
-        gitUrl: project.gitUrl,
-        userId: project.userId,
-        createdAt: project.createdAt!,
-        updatedAt: project.updatedAt!
-      })),
+      projects: toProjectResponses(result.projects),
       total: result.total,
       totalPages: result.totalPages,
       currentPage: validPage,
-      limit: validLimit
+      limit: validLimit,
+      filters
+    };
+  }
+
+  /**
+   * Converts the validated query parameters to the applied filters, dropping empty ones
+   * @throws AppError with 400 status if a date range ends before it starts
+   */
+  private toFilters(query: ProjectListQuery): ProjectListFilters {
+    const filters: ProjectListFilters = {
+      ...(query.organizationId && { organizationId: query.organizationId }),
+      ...(query.name && { name: query.name }),
+      ...(query.search && { search: query.search }),
+      ...(query.gitHost && { gitHost: query.gitHost }),
+      ...(query.createdFrom && { createdFrom: new Date(query.createdFrom) }),
+      ...(query.createdTo && { createdTo: new Date(query.createdTo) }),
+      ...(query.updatedFrom && { updatedFrom: new Date(query.updatedFrom) }),
+      ...(query.updatedTo && { updatedTo: new Date(query.updatedTo) }),
+      sort: query.sort ?? '-createdAt'
     };
+    if (filters.createdFrom && filters.createdTo && filters.createdFrom > filters.createdTo) {
+      throw new AppError('createdFrom must not be after createdTo', 400);
+    }
+    if (filters.updatedFrom && filters.updatedTo && filters.updatedFrom > filters.updatedTo) {
+      throw new AppError('updatedFrom must not be after updatedTo', 400);
+    }
+    return filters;
   }
 }
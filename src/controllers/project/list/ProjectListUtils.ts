@@ -0,0 +1,90 @@
+import { AppError } from '../../../setup/middleware/errorHandler';
+import { Project } from '../../../domain/interfaces/entities/Project';
+import { ProjectCursor, ProjectSort, ProjectSortField } from '../../../domain/interfaces/dao/ProjectDAO';
+import { ProjectListSort } from '../../../dto/project/ProjectListQuery';
+
+/**
+ * Content of an encoded project cursor, with short keys to keep cursors compact
+ */
+interface EncodedProjectCursor {
+  /** Sort order the cursor was issued for */
+  s: ProjectListSort;
+  /** Direction: "a" for the page after the position, "b" for the page before it */
+  d: 'a' | 'b';
+  /** Sort field value, as an ISO 8601 date for date fields */
+  v: string;
+  /** Creation date, as an ISO 8601 date */
+  c: string;
+  /** Project ID */
+  i: string;
+}
+
+/**
+ * Utility functions for the sort orders and opaque cursors of the project list
+ * Cursors are base64url-encoded JSON holding a position in a sort order; clients only pass them back
+ */
+export class ProjectListUtils {
+  /**
+   * Converts a sort query parameter to a sort order, descending when prefixed with "-"
+   * @param sort - The sort query parameter
+   * @returns ProjectSort - The sort order
+   */
+  static toProjectSort(sort: ProjectListSort): ProjectSort {
+    return sort.startsWith('-')
+      ? { field: sort.slice(1) as ProjectSortField, direction: 'desc' }
+      : { field: sort as ProjectSortField, direction: 'asc' };
+  }
+
+  /**
+   * Encodes the position of a project as a cursor
+   * @param project - Project at the position, the last of a page for "after" or the first for "before"
+   * @param sort - Sort order of the list
+   * @param direction - Whether the cursor reads the page after or before the project
+   * @returns string - The opaque cursor
+   */
+  static encodeCursor(project: Project, sort: ProjectListSort, direction: ProjectCursor['direction']): string {
+    const value = project[this.toProjectSort(sort).field]!;
+    const cursor: EncodedProjectCursor = {
+      s: sort,
+      d: direction === 'after' ? 'a' : 'b',
+      v: value instanceof Date ? value.toISOString() : value,
+      c: project.createdAt!.toISOString(),
+      i: project.id
+    };
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  /**
+   * Decodes a cursor issued by encodeCursor
+   * @param cursor - The opaque cursor
+   * @param sort - Sort order of the list, which must be the one the cursor was issued for
+   * @returns ProjectCursor - The position to read the page from
+   * @throws AppError with 400 status if the cursor is malformed or was issued for another sort order
+   */
+  static decodeCursor(cursor: string, sort: ProjectListSort): ProjectCursor {
+    let decoded: Partial<EncodedProjectCursor> | null;
+    try {
+      decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      throw new AppError('Invalid cursor', 400);
+    }
+    if (
+      !decoded || typeof decoded !== 'object' || (decoded.d !== 'a' && decoded.d !== 'b') ||
+      typeof decoded.v !== 'string' || typeof decoded.c !== 'string' ||
+      typeof decoded.i !== 'string' || !/^[0-9a-f]{24}$/.test(decoded.i)
+    ) {
+      throw new AppError('Invalid cursor', 400);
+    }
+    if (decoded.s !== sort) {
+      throw new AppError('Cursor was issued for another sort order', 400);
+    }
+
+    const createdAt = new Date(decoded.c);
+    const value = this.toProjectSort(sort).field === 'name' ? decoded.v : new Date(decoded.v);
+    if (isNaN(createdAt.getTime()) || (value instanceof Date && isNaN(value.getTime()))) {
+      throw new AppError('Invalid cursor', 400);
+    }
+
+    return { value, createdAt, id: decoded.i, direction: decoded.d === 'a' ? 'after' : 'before' };
+  }
+}
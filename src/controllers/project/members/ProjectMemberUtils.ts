@@ -0,0 +1,35 @@
+import { ProjectMember } from '../../../domain/interfaces/entities/ProjectMember';
+import { ProjectMemberResponse } from '../../../dto/project/members/ProjectMemberResponse';
+import { AuditSnapshot } from '../../../domain/utils/AuditLogDBUtils';
+
+/**
+ * Utility functions for project member operations
+ */
+export class ProjectMemberUtils {
+  /**
+   * Converts a ProjectMember entity to a ProjectMemberResponse DTO
+   * @param member - The membership entity to convert
+   * @param username - The username of the member
+   * @returns ProjectMemberResponse - The formatted response object
+   */
+  static toProjectMemberResponse(member: ProjectMember, username: string): ProjectMemberResponse {
+    return {
+      userId: member.userId,
+      username,
+      role: member.role,
+      addedAt: member.createdAt!
+    };
+  }
+
+  /**
+   * Extracts the fields of a membership recorded in the audit log
+   * @param member - The membership entity
+   * @returns AuditSnapshot - The audited fields
+   */
+  static toAuditSnapshot(member: ProjectMember): AuditSnapshot {
+    return {
+      userId: member.userId,
+      role: member.role
+    };
+  }
+}
@@ -0,0 +1,71 @@
+import { Post, Body, Route, Tags, Request, Path, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { TransactionAbstractController } from '../../../CustomController';
+import { CreateProjectMemberRequest } from '../../../../dto/project/members/create/CreateProjectMemberRequest';
+import { ProjectMemberResponse } from '../../../../dto/project/members/ProjectMemberResponse';
+import { getAuthenticatedUser } from '../../../../setup/middleware/authMiddleware';
+import { AppError } from '../../../../setup/middleware/errorHandler';
+import { ProjectUtils } from '../../ProjectUtils';
+import { ProjectMemberUtils } from '../ProjectMemberUtils';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../../domain/interfaces/DatabaseSession';
+import { TimestampProducer } from '../../../../utils/TimestampProducer';
+
+@Route('project')
+@Tags('Project')
+export class ProjectMembersCreatePostController extends TransactionAbstractController {
+  private readonly timestampProducer: TimestampProducer;
+
+  constructor(
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>,
+    session: DatabaseSession<unknown>,
+    timestampProducer: TimestampProducer
+  ) {
+    super(envVars, containerDAO, session);
+    this.timestampProducer = timestampProducer;
+  }
+
+  /**
+   * Share a project with another user as maintainer or viewer
+   * Available to the owner of the project only, the owners and admins of its organization
+   * for organization projects
+   */
+  @Post('{projectId}/members')
+  @Security('Bearer', ['project:write'])
+  @Security('ApiKey', ['project:write'])
+  public async addMember(
+    @Path() projectId: string,
+    @Body() requestBody: CreateProjectMemberRequest,
+    @Request() req: ExpressRequest
+  ): Promise<ProjectMemberResponse> {
+    const user = getAuthenticatedUser(req);
+    const now = this.timestampProducer.getNow();
+
+    const { project } = await ProjectUtils.findProjectAndVerifyRole(
+      this.containerDAO, projectId, user, 'owner'
+    );
+
+    const memberUser = await this.containerDAO.userDAO.findByUsername(requestBody.username);
+    if (!memberUser) {
+      throw new AppError('User not found', 404);
+    }
+    if (ProjectUtils.isPersonalProjectOwner(project, memberUser.id)) {
+      throw new AppError('User is the owner of this project', 409);
+    }
+
+    const member = await this.containerDAO.projectMemberDAO.createProjectMember(
+      this.session, projectId, memberUser.id, requestBody.role, now
+    );
+    if (!member) {
+      throw new AppError('User is already a member of this project', 409);
+    }
+
+    await this.recordAuditLog(
+      req, 'project.member_add', user, projectId, now, undefined, ProjectMemberUtils.toAuditSnapshot(member)
+    );
+
+    return ProjectMemberUtils.toProjectMemberResponse(member, memberUser.username);
+  }
+}
@@ -0,0 +1,71 @@
+import { Delete, Route, Tags, Request, Path, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { TransactionAbstractController } from '../../../CustomController';
+import { ProjectMemberDeleteResponse } from '../../../../dto/project/members/ProjectMemberDeleteResponse';
+import { getAuthenticatedUser } from '../../../../setup/middleware/authMiddleware';
+import { AppError } from '../../../../setup/middleware/errorHandler';
+import { ProjectUtils } from '../../ProjectUtils';
+import { ProjectMemberUtils } from '../ProjectMemberUtils';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../../domain/interfaces/DatabaseSession';
+import { TimestampProducer } from '../../../../utils/TimestampProducer';
+
+@Route('project')
+@Tags('Project')
+export class ProjectMembersDeleteController extends TransactionAbstractController {
+  private readonly timestampProducer: TimestampProducer;
+
+  constructor(
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>,
+    session: DatabaseSession<unknown>,
+    timestampProducer: TimestampProducer
+  ) {
+    super(envVars, containerDAO, session);
+    this.timestampProducer = timestampProducer;
+  }
+
+  /**
+   * Remove a member from a project
+   * The owner (the owners and admins of the organization for organization projects) can remove
+   * any member, and members can remove themselves to leave the project
+   */
+  @Delete('{projectId}/members/{userId}')
+  @Security('Bearer', ['project:write'])
+  @Security('ApiKey', ['project:write'])
+  public async removeMember(
+    @Path() projectId: string,
+    @Path() userId: string,
+    @Request() req: ExpressRequest
+  ): Promise<ProjectMemberDeleteResponse> {
+    const user = getAuthenticatedUser(req);
+    const now = this.timestampProducer.getNow();
+
+    const { project } = await ProjectUtils.findProjectAndVerifyRole(
+      this.containerDAO, projectId, user, userId === user.userId ? 'viewer' : 'owner'
+    );
+    if (ProjectUtils.isPersonalProjectOwner(project, userId)) {
+      throw new AppError('The project owner cannot be removed', 400);
+    }
+
+    const member = await this.containerDAO.projectMemberDAO.findMember(projectId, userId);
+    if (!member) {
+      throw new AppError('Member not found', 404);
+    }
+
+    const deleted = await this.containerDAO.projectMemberDAO.deleteProjectMember(this.session, projectId, userId);
+    if (!deleted) {
+      throw new AppError('Resource conflict - please try again', 423);
+    }
+
+    await this.recordAuditLog(
+      req, 'project.member_remove', user, projectId, now, ProjectMemberUtils.toAuditSnapshot(member)
+    );
+
+    return {
+      message: 'Member removed successfully',
+      removedAt: new Date(now)
+    };
+  }
+}
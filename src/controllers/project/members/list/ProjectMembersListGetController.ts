@@ -0,0 +1,60 @@
+import { Get, Route, Tags, Request, Path, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { BaseCustomController } from '../../../CustomController';
+import { ProjectMemberListResponse } from '../../../../dto/project/members/ProjectMemberListResponse';
+import { getAuthenticatedUser } from '../../../../setup/middleware/authMiddleware';
+import { ProjectUtils } from '../../ProjectUtils';
+import { ProjectMemberUtils } from '../ProjectMemberUtils';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+
+@Route('project')
+@Tags('Project')
+export class ProjectMembersListGetController extends BaseCustomController {
+  constructor(
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>
+  ) {
+    super(envVars, containerDAO);
+  }
+
+  /**
+   * List the members of a project, the owner of a personal project included
+   * Available to everyone with a role on the project; the members of the organization of
+   * a project are listed by the organization
+   */
+  @Get('{projectId}/members')
+  @Security('Bearer', ['project:read'])
+  @Security('ApiKey', ['project:read'])
+  public async getMembers(
+    @Path() projectId: string,
+    @Request() req: ExpressRequest
+  ): Promise<ProjectMemberListResponse> {
+    const user = getAuthenticatedUser(req);
+
+    const { project } = await ProjectUtils.findProjectAndVerifyRole(
+      this.containerDAO, projectId, user, 'viewer'
+    );
+
+    const members = await this.containerDAO.projectMemberDAO.findByProjectId(projectId);
+    const memberUsers = await Promise.all(members.map(member => this.containerDAO.userDAO.findById(member.userId)));
+
+    // Memberships are deleted with the account: a missing user was deleted concurrently
+    const memberResponses = members.flatMap((member, index) => {
+      const memberUser = memberUsers[index];
+      return memberUser ? [ProjectMemberUtils.toProjectMemberResponse(member, memberUser.username)] : [];
+    });
+
+    if (project.organizationId) {
+      return { members: memberResponses };
+    }
+
+    const owner = await this.containerDAO.userDAO.findById(project.userId);
+    return {
+      members: [
+        { userId: project.userId, username: owner?.username ?? '', role: 'owner', addedAt: project.createdAt! },
+        ...memberResponses
+      ]
+    };
+  }
+}
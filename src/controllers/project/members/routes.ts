@@ -0,0 +1,126 @@
+import { Router, Request, Response } from 'express';
+import { ProjectMembersCreatePostController } from './create/ProjectMembersCreatePostController';
+import { ProjectMembersListGetController } from './list/ProjectMembersListGetController';
+import { ProjectMembersUpdatePutController } from './update/ProjectMembersUpdatePutController';
+import { ProjectMembersDeleteController } from './delete/ProjectMembersDeleteController';
+import { asyncHandler, dbTransactionHandler } from '../../../setup/middleware/errorHandler';
+import { validateRequestBody, validateRequestParams } from '../../../setup/middleware/classValidation';
+import { authMiddleware, requireScope } from '../../../setup/middleware/authMiddleware';
+import { EnvVars } from '../../../setup/EnvVars';
+import { ContainerDAO } from '../../../domain/interfaces/ContainerDAO';
+import { CreateProjectMemberRequest } from '../../../dto/project/members/create/CreateProjectMemberRequest';
+import { UpdateProjectMemberRequest } from '../../../dto/project/members/update/UpdateProjectMemberRequest';
+import { ProjectParams } from '../../../dto/project/ProjectParams';
+import { ProjectMemberParams } from '../../../dto/project/members/ProjectMemberParams';
+import { DatabaseSession } from '../../../domain/interfaces/DatabaseSession';
+import { DatabaseSessionProducer } from '../../../domain/interfaces/DatabaseSessionProducer';
+import { TimestampProducer } from '../../../utils/TimestampProducer';
+
+/**
+ * Registers the project collaborator routes
+ * All routes require authentication, with an access token or an API key
+ * granted the scope of the route (project:read or project:write), and a
+ * role on the project allowing the operation
+ * 
+ * @param router - Express router instance
+ * @param envVars - Environment variables configuration
+ * @param containerDAO - Container for all DAO instances
+ * @param databaseSessionProducer - Producer for database sessions
+ * @param timestampProducer - Producer for timestamps
+ */
+export function registerProjectMemberRoutes(
+  router: Router,
+  envVars: EnvVars,
+  containerDAO: ContainerDAO<unknown>,
+  databaseSessionProducer: DatabaseSessionProducer<unknown>,
+  timestampProducer: TimestampProducer
+): void {
+  const authenticate = authMiddleware(envVars, containerDAO, timestampProducer, { acceptApiKeys: true });
+
+  /**
+   * POST /project/:projectId/members
+   * Share a project with another user
+   * Requires authentication with the project:write scope and project ownership
+   * Requires: username, role (maintainer or viewer)
+   * Returns: 201 with the new member
+   */
+  router.post(
+    '/project/:projectId/members',
+    authenticate,
+    requireScope('project:write'),
+    validateRequestParams(ProjectParams),
+    validateRequestBody(CreateProjectMemberRequest),
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new ProjectMembersCreatePostController(
+          envVars, containerDAO, session, timestampProducer
+        ).addMember(req.params.projectId, req.body, req);
+        return { statusCode: 201, data };
+      }
+    )
+  );
+
+  /**
+   * GET /project/:projectId/members
+   * List the members of a project, its owner included
+   * Requires authentication with the project:read scope and any role on the project
+   * Returns: 200 with the members
+   */
+  router.get(
+    '/project/:projectId/members',
+    authenticate,
+    requireScope('project:read'),
+    validateRequestParams(ProjectParams),
+    asyncHandler(async (req: Request, res: Response) => {
+      res.json(await new ProjectMembersListGetController(envVars, containerDAO).getMembers(req.params.projectId, req));
+    })
+  );
+
+  /**
+   * PUT /project/:projectId/members/:userId
+   * Change the role of a project member
+   * Requires authentication with the project:write scope and project ownership
+   * Requires: role (maintainer or viewer)
+   * Returns: 200 with the updated member
+   */
+  router.put(
+    '/project/:projectId/members/:userId',
+    authenticate,
+    requireScope('project:write'),
+    validateRequestParams(ProjectMemberParams),
+    validateRequestBody(UpdateProjectMemberRequest),
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new ProjectMembersUpdatePutController(
+          envVars, containerDAO, session, timestampProducer
+        ).updateMember(req.params.projectId, req.params.userId, req.body, req);
+        return { statusCode: 200, data };
+      }
+    )
+  );
+
+  /**
+   * DELETE /project/:projectId/members/:userId
+   * Remove a member from a project
+   * Requires authentication with the project:write scope and project ownership,
+   * unless members remove themselves
+   * Returns: 200 with removal confirmation
+   */
+  router.delete(
+    '/project/:projectId/members/:userId',
+    authenticate,
+    requireScope('project:write'),
+    validateRequestParams(ProjectMemberParams),
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new ProjectMembersDeleteController(
+          envVars, containerDAO, session, timestampProducer
+        ).removeMember(req.params.projectId, req.params.userId, req);
+        return { statusCode: 200, data };
+      }
+    )
+  );
+}
@@ -0,0 +1,74 @@
+import { Put, Body, Route, Tags, Request, Path, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { TransactionAbstractController } from '../../../CustomController';
+import { UpdateProjectMemberRequest } from '../../../../dto/project/members/update/UpdateProjectMemberRequest';
+import { ProjectMemberResponse } from '../../../../dto/project/members/ProjectMemberResponse';
+import { getAuthenticatedUser } from '../../../../setup/middleware/authMiddleware';
+import { AppError } from '../../../../setup/middleware/errorHandler';
+import { ProjectUtils } from '../../ProjectUtils';
+import { ProjectMemberUtils } from '../ProjectMemberUtils';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../../domain/interfaces/DatabaseSession';
+import { TimestampProducer } from '../../../../utils/TimestampProducer';
+
+@Route('project')
+@Tags('Project')
+export class ProjectMembersUpdatePutController extends TransactionAbstractController {
+  private readonly timestampProducer: TimestampProducer;
+
+  constructor(
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>,
+    session: DatabaseSession<unknown>,
+    timestampProducer: TimestampProducer
+  ) {
+    super(envVars, containerDAO, session);
+    this.timestampProducer = timestampProducer;
+  }
+
+  /**
+   * Change the role of a project member
+   * Available to the owner of the project only, the owners and admins of its organization for
+   * organization projects; the owner's own role cannot change
+   */
+  @Put('{projectId}/members/{userId}')
+  @Security('Bearer', ['project:write'])
+  @Security('ApiKey', ['project:write'])
+  public async updateMember(
+    @Path() projectId: string,
+    @Path() userId: string,
+    @Body() requestBody: UpdateProjectMemberRequest,
+    @Request() req: ExpressRequest
+  ): Promise<ProjectMemberResponse> {
+    const user = getAuthenticatedUser(req);
+    const now = this.timestampProducer.getNow();
+
+    const { project } = await ProjectUtils.findProjectAndVerifyRole(
+      this.containerDAO, projectId, user, 'owner'
+    );
+    if (ProjectUtils.isPersonalProjectOwner(project, userId)) {
+      throw new AppError('The role of the project owner cannot be changed', 400);
+    }
+
+    const member = await this.containerDAO.projectMemberDAO.findMember(projectId, userId);
+    if (!member) {
+      throw new AppError('Member not found', 404);
+    }
+
+    const updatedMember = await this.containerDAO.projectMemberDAO.updateMemberRole(
+      this.session, projectId, userId, requestBody.role, now
+    );
+    if (!updatedMember) {
+      throw new AppError('Resource conflict - please try again', 423);
+    }
+    const memberUser = await this.containerDAO.userDAO.findById(userId);
+
+    await this.recordAuditLog(
+      req, 'project.member_update', user, projectId, now,
+      ProjectMemberUtils.toAuditSnapshot(member), ProjectMemberUtils.toAuditSnapshot(updatedMember)
+    );
+
+    return ProjectMemberUtils.toProjectMemberResponse(updatedMember, memberUser?.username ?? '');
+  }
+}
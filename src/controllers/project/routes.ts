@@ -5,20 +5,24 @@ import { ProjectGetController } from './get/ProjectGetController';
 import { ProjectUpdatePutController } from './update/ProjectUpdatePutController';
 import { ProjectDeleteController } from './delete/ProjectDeleteController';
 import { asyncHandler, dbTransactionHandler } from '../../setup/middleware/errorHandler';
-import { validateRequestBody, validateRequestParams } from '../../setup/middleware/classValidation';
-import { authMiddleware } from '../../setup/middleware/authMiddleware';
+import {
+  validateRequestBody, validateRequestParams, validateRequestQuery
+} from '../../setup/middleware/classValidation';
+import { authMiddleware, requireScope } from '../../setup/middleware/authMiddleware';
 import { EnvVars } from '../../setup/EnvVars';
 import { ContainerDAO } from '../../domain/interfaces/ContainerDAO';
 import { CreateProjectRequest } from '../../dto/project/create/CreateProjectRequest';
 import { UpdateProjectRequest } from '../../dto/project/update/UpdateProjectRequest';
 import { ProjectParams } from '../../dto/project/ProjectParams';
+import { ProjectListQuery } from '../../dto/project/ProjectListQuery';
 import { DatabaseSession } from '../../domain/interfaces/DatabaseSession';
 import { DatabaseSessionProducer } from '../../domain/interfaces/DatabaseSessionProducer';
 import { TimestampProducer } from '../../utils/TimestampProducer';
 
 /**
  * Registers all project management routes
- * All routes require authentication
+ * All routes require authentication, with an access token or an API key
+ * granted the scope of the route (project:read or project:write)
  * 
  * @param router - Express router instance
  * @param envVars - Environment variables configuration
@@ -33,17 +37,19 @@ export function registerProjectRoutes(
   databaseSessionProducer: DatabaseSessionProducer<unknown>,
   timestampProducer: TimestampProducer
 ): void {
+  const authenticate = authMiddleware(envVars, containerDAO, timestampProducer, { acceptApiKeys: true });
 
   /**
    * POST /project
-   * Create a new project for the authenticated user
-   * Requires authentication
-   * Requires: name (1-100 chars), gitUrl
+   * Create a new project for the authenticated user or one of their organizations
+   * Requires authentication with the project:write scope
+   * Requires: name (1-100 chars), gitUrl, organizationId (optional, owner or admin role)
    * Returns: 201 with created project data
    */
   router.post(
     '/project',
-    authMiddleware(envVars),
+    authenticate,
+    requireScope('project:write'),
     validateRequestBody(CreateProjectRequest),
     dbTransactionHandler(
       databaseSessionProducer, 
@@ -58,30 +64,38 @@ export function registerProjectRoutes(
 
   /**
    * GET /project/list
-   * Get paginated list of user's projects
-   * Requires authentication
-   * Query params: page (default: 1), limit (default: 10)
-   * Returns: 200 with projects array and pagination info
+   * Get paginated list of the projects the user owns, can access through their
+   * organizations or has been shared into
+   * Requires authentication with the project:read scope
+   * Query params: page (default: 1), limit (default: 10), organizationId, name, search, gitHost,
+   * createdFrom, createdTo, updatedFrom, updatedTo (ISO 8601, inclusive), sort (default: -createdAt),
+   * pagination (offset or cursor, default: offset), cursor, includeTotal (cursor mode, default: false)
+   * Returns: 200 with projects array, pagination info or cursors and the applied filters
    */
   router.get(
     '/project/list',
-    authMiddleware(envVars),
+    authenticate,
+    requireScope('project:read'),
+    validateRequestQuery(ProjectListQuery),
     asyncHandler(async (req: Request, res: Response) => {
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 10;
-      res.json(await new ProjectListGetController(envVars, containerDAO).getProjects(req, page, limit));
+      res.json(await new ProjectListGetController(envVars, containerDAO).getProjects(req, {
+        ...(req.query as ProjectListQuery),
+        page: parseInt(req.query.page as string) || 1,
+        limit: parseInt(req.query.limit as string) || 10
+      }));
     })
   );
 
   /**
    * GET /project/:projectId
    * Get specific project by ID
-   * Requires authentication and project ownership
+   * Requires authentication with the project:read scope and any role on the project
    * Returns: 200 with project data
    */
   router.get(
     '/project/:projectId',
-    authMiddleware(envVars),
+    authenticate,
+    requireScope('project:read'),
     validateRequestParams(ProjectParams),
     asyncHandler(async (req: Request, res: Response) => {
       res.json(await new ProjectGetController(envVars, containerDAO).getProject(req.params.projectId, req));
@@ -91,13 +105,14 @@ export function registerProjectRoutes(
   /**
    * PUT /project/:projectId
    * Update existing project
-   * Requires authentication and project ownership
+   * Requires authentication with the project:write scope and the owner or maintainer role
    * Requires: name (optional), gitUrl (optional)
    * Returns: 200 with updated project data
    */
   router.put(
     '/project/:projectId',
-    authMiddleware(envVars),
+    authenticate,
+    requireScope('project:write'),
     validateRequestParams(ProjectParams),
     validateRequestBody(UpdateProjectRequest),
     dbTransactionHandler(
@@ -116,19 +131,20 @@ export function registerProjectRoutes(
   /**
    * DELETE /project/:projectId
    * Delete project by ID
-   * Requires authentication and project ownership
+   * Requires authentication with the project:write scope and the owner role on the project
    * Returns: 200 with deletion confirmation
    */
   router.delete(
     '/project/:projectId',
-    authMiddleware(envVars),
+    authenticate,
+    requireScope('project:write'),
     validateRequestParams(ProjectParams),
     dbTransactionHandler(
       databaseSessionProducer, 
       async (session: DatabaseSession<unknown>, req: Request) => {
-        const data = await new ProjectDeleteController(envVars, containerDAO, session).deleteProject(
-          req.params.projectId, req
-        );
+        const data = await new ProjectDeleteController(
+          envVars, containerDAO, session, timestampProducer
+        ).deleteProject(req.params.projectId, req);
         return { statusCode: 200, data };
       }
     )
@@ -0,0 +1,91 @@
+import { AppError } from '../../../setup/middleware/errorHandler';
+import { ContainerDAO } from '../../../domain/interfaces/ContainerDAO';
+import { Project } from '../../../domain/interfaces/entities/Project';
+import { ProjectTransfer } from '../../../domain/interfaces/entities/ProjectTransfer';
+import { ProjectTransferResponse } from '../../../dto/project/transfer/ProjectTransferResponse';
+import { AuditSnapshot } from '../../../domain/utils/AuditLogDBUtils';
+import { ProjectUtils } from '../ProjectUtils';
+
+/**
+ * Utility functions for project transfer operations
+ */
+export class ProjectTransferUtils {
+  /**
+   * Checks whether a user may transfer a project
+   * Accepting a transfer takes an organization project out of its organization, so only the owners of the
+   * organization may transfer it; organization admins own its projects but cannot give them away
+   * @param containerDAO - DAO container for database operations
+   * @param project - The project to transfer
+   * @param userId - ID of the user requesting the transfer
+   * @returns Promise<boolean> - true if the user may transfer the project
+   */
+  static async canTransferProject(
+    containerDAO: ContainerDAO<unknown>,
+    project: Project,
+    userId: string
+  ): Promise<boolean> {
+    if (project.organizationId) {
+      const organizationMember = await containerDAO.organizationMemberDAO.findMember(project.organizationId, userId);
+      return organizationMember?.role === 'owner';
+    }
+    return await ProjectUtils.findProjectRole(containerDAO, project, userId) === 'owner';
+  }
+
+  /**
+   * Finds the pending transfer of a project offered to a user or throws a 404 error
+   * Transfers offered to someone else are reported as missing, so they are not disclosed
+   * @param containerDAO - DAO container for database operations
+   * @param projectId - ID of the project being transferred
+   * @param userId - ID of the recipient
+   * @returns Promise<ProjectTransfer> - The pending transfer
+   * @throws AppError with 404 status if no transfer of the project is offered to the user
+   */
+  static async findIncomingTransferOr404(
+    containerDAO: ContainerDAO<unknown>,
+    projectId: string,
+    userId: string
+  ): Promise<ProjectTransfer> {
+    const transfer = await containerDAO.projectTransferDAO.findByProjectId(projectId);
+    if (!transfer || transfer.toUserId !== userId) {
+      throw new AppError('Transfer not found', 404);
+    }
+    return transfer;
+  }
+
+  /**
+   * Converts a ProjectTransfer entity to a ProjectTransferResponse DTO
+   * @param transfer - The transfer entity to convert
+   * @param project - The project being transferred
+   * @param fromUsername - The username of the user who requested the transfer
+   * @param toUsername - The username of the recipient
+   * @returns ProjectTransferResponse - The formatted response object
+   */
+  static toProjectTransferResponse(
+    transfer: ProjectTransfer,
+    project: Project,
+    fromUsername: string,
+    toUsername: string
+  ): ProjectTransferResponse {
+    return {
+      projectId: project.id,
+      projectName: project.name,
+      fromUserId: transfer.fromUserId,
+      fromUsername,
+      toUserId: transfer.toUserId,
+      toUsername,
+      requestedAt: transfer.createdAt!
+    };
+  }
+
+  /**
+   * Extracts the fields of a transfer recorded in the audit log
+   * @param transfer - The transfer entity
+   * @returns AuditSnapshot - The audited fields
+   */
+  static toAuditSnapshot(transfer: ProjectTransfer): AuditSnapshot {
+    return {
+      fromUserId: transfer.fromUserId,
+      toUserId: transfer.toUserId
+    };
+  }
+}
@@ -0,0 +1,70 @@
+import { Post, Route, Tags, Request, Path, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { TransactionAbstractController } from '../../../CustomController';
+import { ProjectResponse } from '../../../../dto/project/ProjectResponse';
+import { getAuthenticatedUser } from '../../../../setup/middleware/authMiddleware';
+import { AppError } from '../../../../setup/middleware/errorHandler';
+import { ProjectUtils } from '../../ProjectUtils';
+import { ProjectTransferUtils } from '../ProjectTransferUtils';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../../domain/interfaces/DatabaseSession';
+import { TimestampProducer } from '../../../../utils/TimestampProducer';
+
+@Route('project')
+@Tags('Project')
+export class ProjectTransferAcceptPostController extends TransactionAbstractController {
+  private readonly timestampProducer: TimestampProducer;
+
+  constructor(
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>,
+    session: DatabaseSession<unknown>,
+    timestampProducer: TimestampProducer
+  ) {
+    super(envVars, containerDAO, session);
+    this.timestampProducer = timestampProducer;
+  }
+
+  /**
+   * Accept the transfer of a project offered to the authenticated user
+   * The project becomes a personal project of the user; the previous owners keep access only
+   * if they are members of the project
+   */
+  @Post('{projectId}/transfer/accept')
+  @Security('Bearer', ['project:write'])
+  @Security('ApiKey', ['project:write'])
+  public async acceptTransfer(
+    @Path() projectId: string,
+    @Request() req: ExpressRequest
+  ): Promise<ProjectResponse> {
+    const user = getAuthenticatedUser(req);
+    const now = this.timestampProducer.getNow();
+
+    const transfer = await ProjectTransferUtils.findIncomingTransferOr404(this.containerDAO, projectId, user.userId);
+    const project = await ProjectUtils.findProjectOr404(this.containerDAO, projectId);
+    if (transfer.fromUserId === user.userId) {
+      throw new AppError('Cannot transfer a project to yourself', 409);
+    }
+    if (!await ProjectTransferUtils.canTransferProject(this.containerDAO, project, transfer.fromUserId)) {
+      throw new AppError('The user who requested the transfer no longer owns the project', 409);
+    }
+
+    const transferredProject = await this.containerDAO.projectDAO.transferProject(
+      this.session, projectId, user.userId, now
+    );
+    if (!transferredProject) {
+      throw new AppError('You already own a project with this name', 409);
+    }
+    // The new owner no longer needs the role they may have had as a member
+    await this.containerDAO.projectMemberDAO.deleteProjectMember(this.session, projectId, user.userId);
+    await this.containerDAO.projectTransferDAO.deleteProjectTransfer(this.session, projectId);
+
+    await this.recordAuditLog(
+      req, 'project.transfer_accept', user, projectId, now,
+      ProjectUtils.toAuditSnapshot(project), ProjectUtils.toAuditSnapshot(transferredProject)
+    );
+
+    return ProjectUtils.toProjectResponse(transferredProject, 'owner');
+  }
+}
@@ -0,0 +1,72 @@
+import { Post, Body, Route, Tags, Request, Path, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { TransactionAbstractController } from '../../../CustomController';
+import { CreateProjectTransferRequest } from '../../../../dto/project/transfer/create/CreateProjectTransferRequest';
+import { ProjectTransferResponse } from '../../../../dto/project/transfer/ProjectTransferResponse';
+import { getAuthenticatedUser } from '../../../../setup/middleware/authMiddleware';
+import { AppError } from '../../../../setup/middleware/errorHandler';
+import { ProjectUtils } from '../../ProjectUtils';
+import { ProjectTransferUtils } from '../ProjectTransferUtils';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../../domain/interfaces/DatabaseSession';
+import { TimestampProducer } from '../../../../utils/TimestampProducer';
+
+@Route('project')
+@Tags('Project')
+export class ProjectTransferCreatePostController extends TransactionAbstractController {
+  private readonly timestampProducer: TimestampProducer;
+
+  constructor(
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>,
+    session: DatabaseSession<unknown>,
+    timestampProducer: TimestampProducer
+  ) {
+    super(envVars, containerDAO, session);
+    this.timestampProducer = timestampProducer;
+  }
+
+  /**
+   * Offer a project to another user, who becomes its owner once they accept
+   * Available to the owner of the project only, the owners of its organization for organization
+   * projects. Replaces the pending transfer of the project, if any
+   */
+  @Post('{projectId}/transfer')
+  @Security('Bearer', ['project:write'])
+  @Security('ApiKey', ['project:write'])
+  public async requestTransfer(
+    @Path() projectId: string,
+    @Body() requestBody: CreateProjectTransferRequest,
+    @Request() req: ExpressRequest
+  ): Promise<ProjectTransferResponse> {
+    const user = getAuthenticatedUser(req);
+    const now = this.timestampProducer.getNow();
+
+    const project = await ProjectUtils.findProjectOr404(this.containerDAO, projectId);
+    if (!await ProjectTransferUtils.canTransferProject(this.containerDAO, project, user.userId)) {
+      throw new AppError('Access denied', 403);
+    }
+
+    const recipient = await this.containerDAO.userDAO.findByUsername(requestBody.username);
+    if (!recipient) {
+      throw new AppError('User not found', 404);
+    }
+    if (ProjectUtils.isPersonalProjectOwner(project, recipient.id)) {
+      throw new AppError('User is the owner of this project', 409);
+    }
+    if (recipient.id === user.userId) {
+      throw new AppError('Cannot transfer a project to yourself', 409);
+    }
+
+    const transfer = await this.containerDAO.projectTransferDAO.saveProjectTransfer(
+      this.session, projectId, user.userId, recipient.id, now
+    );
+
+    await this.recordAuditLog(
+      req, 'project.transfer_request', user, projectId, now, undefined, ProjectTransferUtils.toAuditSnapshot(transfer)
+    );
+
+    return ProjectTransferUtils.toProjectTransferResponse(transfer, project, user.username, recipient.username);
+  }
+}
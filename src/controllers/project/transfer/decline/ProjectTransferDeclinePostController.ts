@@ -0,0 +1,66 @@
+import { Post, Route, Tags, Request, Path, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { TransactionAbstractController } from '../../../CustomController';
+import { ProjectTransferDeclineResponse } from '../../../../dto/project/transfer/ProjectTransferDeclineResponse';
+import { getAuthenticatedUser } from '../../../../setup/middleware/authMiddleware';
+import { AppError } from '../../../../setup/middleware/errorHandler';
+import { ProjectUtils } from '../../ProjectUtils';
+import { ProjectTransferUtils } from '../ProjectTransferUtils';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../../../../domain/interfaces/DatabaseSession';
+import { TimestampProducer } from '../../../../utils/TimestampProducer';
+
+@Route('project')
+@Tags('Project')
+export class ProjectTransferDeclinePostController extends TransactionAbstractController {
+  private readonly timestampProducer: TimestampProducer;
+
+  constructor(
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>,
+    session: DatabaseSession<unknown>,
+    timestampProducer: TimestampProducer
+  ) {
+    super(envVars, containerDAO, session);
+    this.timestampProducer = timestampProducer;
+  }
+
+  /**
+   * Decline the transfer of a project
+   * Available to the recipient of the transfer, and to the owners of the project to withdraw it
+   */
+  @Post('{projectId}/transfer/decline')
+  @Security('Bearer', ['project:write'])
+  @Security('ApiKey', ['project:write'])
+  public async declineTransfer(
+    @Path() projectId: string,
+    @Request() req: ExpressRequest
+  ): Promise<ProjectTransferDeclineResponse> {
+    const user = getAuthenticatedUser(req);
+    const now = this.timestampProducer.getNow();
+
+    const transfer = await this.containerDAO.projectTransferDAO.findByProjectId(projectId);
+    if (transfer?.toUserId !== user.userId) {
+      // Only owners learn about transfers they are not the recipient of
+      await ProjectUtils.findProjectAndVerifyRole(this.containerDAO, projectId, user, 'owner');
+    }
+    if (!transfer) {
+      throw new AppError('Transfer not found', 404);
+    }
+
+    const deleted = await this.containerDAO.projectTransferDAO.deleteProjectTransfer(this.session, projectId);
+    if (!deleted) {
+      throw new AppError('Resource conflict - please try again', 423);
+    }
+
+    await this.recordAuditLog(
+      req, 'project.transfer_decline', user, projectId, now, ProjectTransferUtils.toAuditSnapshot(transfer)
+    );
+
+    return {
+      message: 'Transfer declined successfully',
+      declinedAt: new Date(now)
+    };
+  }
+}
@@ -0,0 +1,46 @@
+import { Get, Route, Tags, Request, Security } from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { BaseCustomController } from '../../../CustomController';
+import { ProjectTransferListResponse } from '../../../../dto/project/transfer/ProjectTransferListResponse';
+import { getAuthenticatedUser } from '../../../../setup/middleware/authMiddleware';
+import { ProjectTransferUtils } from '../ProjectTransferUtils';
+import { EnvVars } from '../../../../setup/EnvVars';
+import { ContainerDAO } from '../../../../domain/interfaces/ContainerDAO';
+
+@Route('project')
+@Tags('Project')
+export class ProjectTransferListGetController extends BaseCustomController {
+  constructor(
+    envVars: EnvVars,
+    containerDAO: ContainerDAO<unknown>
+  ) {
+    super(envVars, containerDAO);
+  }
+
+  /**
+   * List the pending transfers offered to the authenticated user, newest first
+   */
+  @Get('transfer/incoming')
+  @Security('Bearer', ['project:read'])
+  @Security('ApiKey', ['project:read'])
+  public async getIncomingTransfers(@Request() req: ExpressRequest): Promise<ProjectTransferListResponse> {
+    const user = getAuthenticatedUser(req);
+
+    const transfers = await this.containerDAO.projectTransferDAO.findByToUserId(user.userId);
+    const [projects, requesters] = await Promise.all([
+      Promise.all(transfers.map(transfer => this.containerDAO.projectDAO.findById(transfer.projectId))),
+      Promise.all(transfers.map(transfer => this.containerDAO.userDAO.findById(transfer.fromUserId)))
+    ]);
+
+    // Transfers are deleted with their project and their requester: a missing one was deleted concurrently
+    return {
+      transfers: transfers.flatMap((transfer, index) => {
+        const project = projects[index];
+        const requester = requesters[index];
+        return project && requester
+          ? [ProjectTransferUtils.toProjectTransferResponse(transfer, project, requester.username, user.username)]
+          : [];
+      })
+    };
+  }
+}
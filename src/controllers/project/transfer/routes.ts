@@ -0,0 +1,122 @@
+import { Router, Request, Response } from 'express';
+import { ProjectTransferCreatePostController } from './create/ProjectTransferCreatePostController';
+import { ProjectTransferListGetController } from './list/ProjectTransferListGetController';
+import { ProjectTransferAcceptPostController } from './accept/ProjectTransferAcceptPostController';
+import { ProjectTransferDeclinePostController } from './decline/ProjectTransferDeclinePostController';
+import { asyncHandler, dbTransactionHandler } from '../../../setup/middleware/errorHandler';
+import { validateRequestBody, validateRequestParams } from '../../../setup/middleware/classValidation';
+import { authMiddleware, requireScope } from '../../../setup/middleware/authMiddleware';
+import { EnvVars } from '../../../setup/EnvVars';
+import { ContainerDAO } from '../../../domain/interfaces/ContainerDAO';
+import { CreateProjectTransferRequest } from '../../../dto/project/transfer/create/CreateProjectTransferRequest';
+import { ProjectParams } from '../../../dto/project/ProjectParams';
+import { DatabaseSession } from '../../../domain/interfaces/DatabaseSession';
+import { DatabaseSessionProducer } from '../../../domain/interfaces/DatabaseSessionProducer';
+import { TimestampProducer } from '../../../utils/TimestampProducer';
+
+/**
+ * Registers the project transfer routes
+ * A project changes owner in two steps: an owner offers it to another user,
+ * who accepts or declines the transfer. All routes require authentication,
+ * with an access token or an API key granted the scope of the route
+ * (project:read or project:write)
+ * 
+ * @param router - Express router instance
+ * @param envVars - Environment variables configuration
+ * @param containerDAO - Container for all DAO instances
+ * @param databaseSessionProducer - Producer for database sessions
+ * @param timestampProducer - Producer for timestamps
+ */
+export function registerProjectTransferRoutes(
+  router: Router,
+  envVars: EnvVars,
+  containerDAO: ContainerDAO<unknown>,
+  databaseSessionProducer: DatabaseSessionProducer<unknown>,
+  timestampProducer: TimestampProducer
+): void {
+  const authenticate = authMiddleware(envVars, containerDAO, timestampProducer, { acceptApiKeys: true });
+
+  /**
+   * POST /project/:projectId/transfer
+   * Offer a project to another user, replacing the pending transfer of the project
+   * Requires authentication with the project:write scope and the owner role on the project
+   * Requires: username
+   * Returns: 201 with the pending transfer
+   */
+  router.post(
+    '/project/:projectId/transfer',
+    authenticate,
+    requireScope('project:write'),
+    validateRequestParams(ProjectParams),
+    validateRequestBody(CreateProjectTransferRequest),
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new ProjectTransferCreatePostController(
+          envVars, containerDAO, session, timestampProducer
+        ).requestTransfer(req.params.projectId, req.body, req);
+        return { statusCode: 201, data };
+      }
+    )
+  );
+
+  /**
+   * GET /project/transfer/incoming
+   * List the pending transfers offered to the authenticated user
+   * Requires authentication with the project:read scope
+   * Returns: 200 with the transfers
+   */
+  router.get(
+    '/project/transfer/incoming',
+    authenticate,
+    requireScope('project:read'),
+    asyncHandler(async (req: Request, res: Response) => {
+      res.json(await new ProjectTransferListGetController(envVars, containerDAO).getIncomingTransfers(req));
+    })
+  );
+
+  /**
+   * POST /project/:projectId/transfer/accept
+   * Accept the transfer of a project, which becomes a personal project of the user
+   * Requires authentication with the project:write scope, as recipient of the transfer
+   * Returns: 200 with the transferred project
+   */
+  router.post(
+    '/project/:projectId/transfer/accept',
+    authenticate,
+    requireScope('project:write'),
+    validateRequestParams(ProjectParams),
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new ProjectTransferAcceptPostController(
+          envVars, containerDAO, session, timestampProducer
+        ).acceptTransfer(req.params.projectId, req);
+        return { statusCode: 200, data };
+      }
+    )
+  );
+
+  /**
+   * POST /project/:projectId/transfer/decline
+   * Decline the transfer of a project, or withdraw it
+   * Requires authentication with the project:write scope, as recipient of the transfer
+   * or with the owner role on the project
+   * Returns: 200 with confirmation
+   */
+  router.post(
+    '/project/:projectId/transfer/decline',
+    authenticate,
+    requireScope('project:write'),
+    validateRequestParams(ProjectParams),
+    dbTransactionHandler(
+      databaseSessionProducer,
+      async (session: DatabaseSession<unknown>, req: Request) => {
+        const data = await new ProjectTransferDeclinePostController(
+          envVars, containerDAO, session, timestampProducer
+        ).declineTransfer(req.params.projectId, req);
+        return { statusCode: 200, data };
+      }
+    )
+  );
+}
@@ -28,9 +28,11 @@ export class ProjectUpdatePutController extends TransactionAbstractController {
 
   /**
    * Update project by ID
+   * Available to the owner and the maintainers of the project
    */
   @Put('{projectId}')
-  @Security('Bearer')
+  @Security('Bearer', ['project:write'])
+  @Security('ApiKey', ['project:write'])
   public async updateProject(
     @Path() projectId: string,
     @Body() requestBody: UpdateProjectRequest,
@@ -38,16 +40,16 @@ export class ProjectUpdatePutController extends TransactionAbstractController {
   ): Promise<ProjectResponse> {
     const user = getAuthenticatedUser(req);
     const { name, gitUrl } = requestBody;
+    const now = this.timestampProducer.getNow();
 
-    await ProjectUtils.findProjectAndVerifyOwnership(
-      this.containerDAO, projectId, user
+    const { project, role } = await ProjectUtils.findProjectAndVerifyRole(
+      this.containerDAO, projectId, user, 'maintainer'
     );
 
     const updatedProject = await this.containerDAO.projectDAO.updateProject(
       this.session,
       projectId,
-      user.userId,
-      this.timestampProducer.getNow(),
+      now,
       name,
       gitUrl
     );
@@ -56,6 +58,11 @@ export class ProjectUpdatePutController extends TransactionAbstractController {
       throw new AppError('A project with this name already exists', 409);
     }
 
-    return ProjectUtils.toProjectResponse(updatedProject);
+    await this.recordAuditLog(
+      req, 'project.update', user, projectId, now,
+      ProjectUtils.toAuditSnapshot(project), ProjectUtils.toAuditSnapshot(updatedProject)
+    );
+
+    return ProjectUtils.toProjectResponse(updatedProject, role);
   }
 }
@@ -1,11 +1,24 @@
 import { Router } from 'express';
+import winston from 'winston';
 import { registerHealthRoutes } from './health/routes';
+import { registerWellKnownRoutes } from './wellKnown/routes';
 import { registerAuthRoutes } from './auth/routes';
+import { registerAuthMfaRoutes } from './auth/mfa/routes';
+import { registerAuthEmailRoutes } from './auth/email/routes';
+import { registerAuthOidcRoutes } from './auth/oidc/routes';
+import { registerAuthApiKeyRoutes } from './auth/apiKeys/routes';
+import { registerAuthCsrfRoutes } from './auth/csrf/routes';
 import { registerProjectRoutes } from './project/routes';
+import { registerProjectMemberRoutes } from './project/members/routes';
+import { registerProjectTransferRoutes } from './project/transfer/routes';
+import { registerOrgRoutes } from './org/routes';
+import { registerOrgMemberRoutes } from './org/members/routes';
+import { registerAdminRoutes } from './admin/routes';
 import { EnvVars } from '../setup/EnvVars';
 import { ContainerDAO } from '../domain/interfaces/ContainerDAO';
 import { DatabaseSessionProducer } from '../domain/interfaces/DatabaseSessionProducer';
 import { TimestampProducer } from '../utils/TimestampProducer';
+import { Mailer } from '../utils/Mailer';
 
 /**
  * Creates and configures the main application router with all route modules
@@ -14,24 +27,61 @@ import { TimestampProducer } from '../utils/TimestampProducer';
  * @param containerDAO - Container for all DAO instances
  * @param databaseSessionProducer - Producer for database sessions (required for transactional operations)
  * @param timestampProducer - Producer for consistent timestamps across the application
+ * @param logger - Winston logger instance for application logging
+ * @param mailer - Mailer delivering account emails
  * @returns Configured Express router with all application routes
  */
 export function createRouter(
   envVars: EnvVars, 
   containerDAO: ContainerDAO<unknown>,
   databaseSessionProducer: DatabaseSessionProducer<unknown>,
-  timestampProducer: TimestampProducer
+  timestampProducer: TimestampProducer,
+  logger: winston.Logger,
+  mailer: Mailer
 ): Router {
   const router = Router();
 
   // Health check routes (no authentication required)
   registerHealthRoutes(router, envVars, containerDAO);
+
+  // Well-known routes publishing the keys verifying access tokens (no authentication required)
+  registerWellKnownRoutes(router, envVars, containerDAO, timestampProducer);
   
   // Authentication routes (user registration, login, logout, token management)
-  registerAuthRoutes(router, envVars, containerDAO, databaseSessionProducer, timestampProducer);
+  registerAuthRoutes(router, envVars, containerDAO, databaseSessionProducer, timestampProducer, logger, mailer);
+
+  // Email verification routes (no authentication required)
+  registerAuthEmailRoutes(router, envVars, containerDAO, databaseSessionProducer, timestampProducer, logger, mailer);
+
+  // CSRF token route of cookie-authenticated browser clients (no authentication required)
+  registerAuthCsrfRoutes(router, envVars, containerDAO);
+
+  // OpenID Connect sign-in routes (no authentication required)
+  registerAuthOidcRoutes(router, envVars, containerDAO, databaseSessionProducer, timestampProducer);
+
+  // Two-factor authentication management routes (requires authentication)
+  registerAuthMfaRoutes(router, envVars, containerDAO, databaseSessionProducer, timestampProducer);
+
+  // API key (personal access token) management routes (requires authentication)
+  registerAuthApiKeyRoutes(router, envVars, containerDAO, databaseSessionProducer, timestampProducer);
   
   // Project management routes (requires authentication)
   registerProjectRoutes(router, envVars, containerDAO, databaseSessionProducer, timestampProducer);
 
+  // Project collaborator routes (requires authentication and a role on the project)
+  registerProjectMemberRoutes(router, envVars, containerDAO, databaseSessionProducer, timestampProducer);
+
+  // Project transfer routes (requires authentication, offered by project owners and answered by the recipient)
+  registerProjectTransferRoutes(router, envVars, containerDAO, databaseSessionProducer, timestampProducer);
+
+  // Organization management routes (requires authentication)
+  registerOrgRoutes(router, envVars, containerDAO, databaseSessionProducer, timestampProducer);
+
+  // Organization membership routes (requires authentication and a role in the organization)
+  registerOrgMemberRoutes(router, envVars, containerDAO, databaseSessionProducer, timestampProducer);
+
+  // Administration routes (requires authentication and admin role)
+  registerAdminRoutes(router, envVars, containerDAO, databaseSessionProducer, timestampProducer);
+
   return router;
 }
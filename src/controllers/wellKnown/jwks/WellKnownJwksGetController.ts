@@ -0,0 +1,28 @@
+import { Get, Route, Tags } from 'tsoa';
+import { BaseCustomController } from '../../CustomController';
+import { JwksResponse } from '../../../dto/wellKnown/JwksResponse';
+import { JwtKeyStore } from '../../../utils/JwtKeyStore';
+import { EnvVars } from '../../../setup/EnvVars';
+import { ContainerDAO } from '../../../domain/interfaces/ContainerDAO';
+
+@Route('.well-known')
+@Tags('Authentication')
+export class WellKnownJwksGetController extends BaseCustomController {
+  private keyStore: JwtKeyStore | null;
+
+  constructor(envVars: EnvVars, containerDAO: ContainerDAO<unknown>, keyStore: JwtKeyStore | null) {
+    super(envVars, containerDAO);
+    this.keyStore = keyStore;
+  }
+
+  /**
+   * Get the public keys verifying access tokens (JSON Web Key Set)
+   * Other services verify access tokens with the key named in their kid
+   * header. Keys scheduled to start signing later are published ahead, and
+   * retired keys stay listed while tokens they signed may still be valid
+   */
+  @Get('jwks.json')
+  public async getJwks(): Promise<JwksResponse> {
+    return this.keyStore ? this.keyStore.toJwks() as JwksResponse : { keys: [] };
+  }
+}
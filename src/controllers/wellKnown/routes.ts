@@ -0,0 +1,42 @@
+import { Router, Request, Response } from 'express';
+import { WellKnownJwksGetController } from './jwks/WellKnownJwksGetController';
+import { asyncHandler } from '../../setup/middleware/errorHandler';
+import { EnvVars } from '../../setup/EnvVars';
+import { ContainerDAO } from '../../domain/interfaces/ContainerDAO';
+import { JwtKeyStore } from '../../utils/JwtKeyStore';
+import { TimestampProducer } from '../../utils/TimestampProducer';
+
+/** Time clients may cache the key set in seconds, short enough to pick up new keys quickly */
+const JWKS_MAX_AGE_SECONDS = 5 * 60;
+
+/**
+ * Registers the well-known routes
+ * The key store is loaded here, so invalid key files stop the server at startup
+ * 
+ * @param router - Express router instance
+ * @param envVars - Environment variables configuration
+ * @param containerDAO - Container for all DAO instances
+ * @param timestampProducer - Producer of the timestamp the key store is loaded at
+ */
+export function registerWellKnownRoutes(
+  router: Router,
+  envVars: EnvVars,
+  containerDAO: ContainerDAO<unknown>,
+  timestampProducer: TimestampProducer
+): void {
+  const keyStore = JwtKeyStore.fromEnvVars(envVars, timestampProducer.getNow());
+
+  /**
+   * GET /.well-known/jwks.json
+   * Public keys verifying access tokens
+   * No authentication required
+   * Returns: 200 with the JSON Web Key Set, cacheable for a few minutes
+   */
+  router.get(
+    '/.well-known/jwks.json',
+    asyncHandler(async (_req: Request, res: Response) => {
+      res.set('Cache-Control', `public, max-age=${JWKS_MAX_AGE_SECONDS}`);
+      res.json(await new WellKnownJwksGetController(envVars, containerDAO, keyStore).getJwks());
+    })
+  );
+}
@@ -2,6 +2,19 @@ import { UserDAO } from './dao/UserDAO';
 import { AccessTokenDAO } from './dao/AccessTokenDAO';
 import { RefreshTokenDAO } from './dao/RefreshTokenDAO';
 import { ProjectDAO } from './dao/ProjectDAO';
+import { UserSessionDAO } from './dao/UserSessionDAO';
+import { PasswordResetTokenDAO } from './dao/PasswordResetTokenDAO';
+import { EmailVerificationTokenDAO } from './dao/EmailVerificationTokenDAO';
+import { LoginAttemptDAO } from './dao/LoginAttemptDAO';
+import { TotpCredentialDAO } from './dao/TotpCredentialDAO';
+import { LinkedIdentityDAO } from './dao/LinkedIdentityDAO';
+import { ApiKeyDAO } from './dao/ApiKeyDAO';
+import { JobLockDAO } from './dao/JobLockDAO';
+import { AuditLogDAO } from './dao/AuditLogDAO';
+import { ProjectMemberDAO } from './dao/ProjectMemberDAO';
+import { OrganizationDAO } from './dao/OrganizationDAO';
+import { OrganizationMemberDAO } from './dao/OrganizationMemberDAO';
+import { ProjectTransferDAO } from './dao/ProjectTransferDAO';
 
 /**
  * Container interface that provides access to all DAO instances
@@ -36,4 +49,69 @@ export interface ContainerDAO<S> {
    * Get ProjectDAO instance for project management operations
    */
   readonly projectDAO: ProjectDAO<S>;
+
+  /**
+   * Get UserSessionDAO instance for login session management operations
+   */
+  readonly userSessionDAO: UserSessionDAO<S>;
+
+  /**
+   * Get PasswordResetTokenDAO instance for password reset token management operations
+   */
+  readonly passwordResetTokenDAO: PasswordResetTokenDAO<S>;
+
+  /**
+   * Get EmailVerificationTokenDAO instance for email verification token management operations
+   */
+  readonly emailVerificationTokenDAO: EmailVerificationTokenDAO<S>;
+
+  /**
+   * Get LoginAttemptDAO instance for failed login tracking and lockout operations
+   */
+  readonly loginAttemptDAO: LoginAttemptDAO<S>;
+
+  /**
+   * Get TotpCredentialDAO instance for two-factor authentication operations
+   */
+  readonly totpCredentialDAO: TotpCredentialDAO<S>;
+
+  /**
+   * Get LinkedIdentityDAO instance for external identity provider account operations
+   */
+  readonly linkedIdentityDAO: LinkedIdentityDAO<S>;
+
+  /**
+   * Get ApiKeyDAO instance for personal access token operations
+   */
+  readonly apiKeyDAO: ApiKeyDAO<S>;
+
+  /**
+   * Get JobLockDAO instance for scheduled job leases
+   */
+  readonly jobLockDAO: JobLockDAO;
+
+  /**
+   * Get AuditLogDAO instance for audit trail operations
+   */
+  readonly auditLogDAO: AuditLogDAO<S>;
+
+  /**
+   * Get ProjectMemberDAO instance for project collaborator operations
+   */
+  readonly projectMemberDAO: ProjectMemberDAO<S>;
+
+  /**
+   * Get OrganizationDAO instance for organization management operations
+   */
+  readonly organizationDAO: OrganizationDAO<S>;
+
+  /**
+   * Get OrganizationMemberDAO instance for organization membership operations
+   */
+  readonly organizationMemberDAO: OrganizationMemberDAO<S>;
+
+  /**
+   * Get ProjectTransferDAO instance for pending project transfer operations
+   */
+  readonly projectTransferDAO: ProjectTransferDAO<S>;
 }
@@ -18,10 +18,11 @@ export interface AccessTokenDAO<S> {
    * Create a new access token
    * 
    * Creates a new access token record for user authentication.
-   * The token string must be unique across all access tokens.
+   * Only the hash of the token is stored and it must be unique across all access tokens.
    * 
    * @param session - Database session for transaction support
    * @param userId - User ID associated with the token (must reference existing user)
+   * @param familyId - Token family identifier shared with the refresh tokens of the same login
    * @param token - JWT access token string (must be unique)
    * @param expiresAt - Token expiration date (typically 15-60 minutes from creation)
    * @param now - Current timestamp for createdAt field
@@ -33,6 +34,7 @@ export interface AccessTokenDAO<S> {
   createAccessToken(
     session: DatabaseSession<S>,
     userId: string,
+    familyId: string,
     token: string,
     expiresAt: Date,
     now: number
@@ -68,4 +70,74 @@ export interface AccessTokenDAO<S> {
    * @transactional Requires active database session
    */
   revokeAccessToken(session: DatabaseSession<S>, token: string, now: number): Promise<boolean>;
+
+  /**
+   * Revoke all access tokens of a token family
+   * 
+   * Marks every non-revoked access token issued for the given family as revoked.
+   * Used when refresh token reuse is detected to cut off the whole session.
+   * 
+   * @param session - Database session for transaction support
+   * @param familyId - Token family identifier
+   * @param now - Current timestamp for updatedAt field
+   * @returns Promise<number> - Number of tokens revoked
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  revokeAccessTokenFamily(session: DatabaseSession<S>, familyId: string, now: number): Promise<number>;
+
+  /**
+   * Revoke all access tokens of a user
+   * 
+   * Marks every non-revoked access token of the user as revoked, across all
+   * token families. Used when the user logs out everywhere.
+   * 
+   * @param session - Database session for transaction support
+   * @param userId - User's unique identifier
+   * @param now - Current timestamp for updatedAt field
+   * @param exceptFamilyId - Optional token family whose tokens are kept (e.g. the current session)
+   * @returns Promise<number> - Number of tokens revoked
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  revokeAllUserAccessTokens(
+    session: DatabaseSession<S>,
+    userId: string,
+    now: number,
+    exceptFamilyId?: string
+  ): Promise<number>;
+
+  /**
+   * Clean expired access tokens
+   * 
+   * Removes access tokens that have passed their expiration date. Expired tokens
+   * are refused by signature verification already, so their records only take up
+   * space. This is a maintenance operation run periodically by the job scheduler.
+   * 
+   * @param session - Database session for transaction support
+   * @param expirationDate - Date threshold - tokens expiring before this date will be cleaned
+   * @returns Promise<number> - Number of access tokens deleted
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   * @maintenance This is a cleanup operation for database maintenance
+   */
+  cleanExpiredAccessTokens(session: DatabaseSession<S>, expirationDate: Date): Promise<number>;
+
+  /**
+   * Delete all access tokens of a user
+   * 
+   * Permanently removes every access token of the user, revoked or not. Used when
+   * the user account is deleted.
+   * 
+   * @param session - Database session for transaction support
+   * @param userId - User's unique identifier
+   * @returns Promise<number> - Number of access tokens deleted
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  deleteAllUserAccessTokens(session: DatabaseSession<S>, userId: string): Promise<number>;
 }
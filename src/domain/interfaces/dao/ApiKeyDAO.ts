@@ -0,0 +1,122 @@
+import { ApiKey } from '../entities/ApiKey';
+import { TokenScope } from '../entities/TokenScope';
+import { DatabaseSession } from '../DatabaseSession';
+
+/**
+ * ApiKey Data Access Object Interface
+ *
+ * Provides database-agnostic operations for ApiKey entity management.
+ * Handles the lifecycle of personal access tokens: creation, lookup by
+ * token hash when a key is presented, usage tracking and deletion.
+ *
+ * @template S - Database session type (e.g., MongoDB ClientSession, PostgreSQL PoolClient)
+ */
+export interface ApiKeyDAO<S> {
+  /**
+   * Create a new API key
+   *
+   * @param session - Database session for transaction support
+   * @param userId - User ID owning the key (must reference existing user)
+   * @param name - Display name of the key
+   * @param tokenHash - SHA-256 hash of the token
+   * @param tokenPrefix - First characters of the token, kept for display
+   * @param scopes - Scopes granted to the key
+   * @param expiresAt - Expiration date, or null for keys that do not expire
+   * @param now - Current timestamp for createdAt/updatedAt fields
+   * @returns Promise<ApiKey> - Created API key entity
+   *
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  createApiKey(
+    session: DatabaseSession<S>,
+    userId: string,
+    name: string,
+    tokenHash: string,
+    tokenPrefix: string,
+    scopes: TokenScope[],
+    expiresAt: Date | null,
+    now: number
+  ): Promise<ApiKey>;
+
+  /**
+   * Find API key by token hash
+   *
+   * Retrieves the key a presented token belongs to, including expired keys.
+   *
+   * @param tokenHash - SHA-256 hash of the presented token
+   * @returns Promise<ApiKey | null> - API key entity or null if not found
+   *
+   * @throws Error if database operation fails
+   * @readonly Does not require database session
+   */
+  findByTokenHash(tokenHash: string): Promise<ApiKey | null>;
+
+  /**
+   * Find API key by ID
+   *
+   * @param apiKeyId - API key's unique identifier
+   * @returns Promise<ApiKey | null> - API key entity or null if not found
+   *
+   * @throws Error if database operation fails
+   * @readonly Does not require database session
+   */
+  findById(apiKeyId: string): Promise<ApiKey | null>;
+
+  /**
+   * Find API keys of a user
+   *
+   * Retrieves every key of the user, expired ones included, newest first.
+   *
+   * @param userId - User's unique identifier
+   * @returns Promise<ApiKey[]> - API keys (empty array if none)
+   *
+   * @throws Error if database operation fails
+   * @readonly Does not require database session
+   */
+  findByUserId(userId: string): Promise<ApiKey[]>;
+
+  /**
+   * Record API key usage
+   *
+   * Updates the last-used timestamp unless it was recorded less than a minute
+   * ago, so busy keys do not cause a write per request. Called while
+   * authenticating a request, outside of any transaction: the update touches
+   * a single document and losing it does not affect the request.
+   *
+   * @param apiKeyId - API key's unique identifier
+   * @param now - Current timestamp for lastUsedAt/updatedAt fields
+   * @returns Promise<boolean> - true if the timestamp was updated
+   *
+   * @throws Error if database operation fails
+   */
+  recordUsage(apiKeyId: string, now: number): Promise<boolean>;
+
+  /**
+   * Delete an API key
+   *
+   * Permanently removes the key; it is refused from then on.
+   *
+   * @param session - Database session for transaction support
+   * @param apiKeyId - API key's unique identifier
+   * @returns Promise<boolean> - true if the key was deleted
+   *
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  deleteApiKey(session: DatabaseSession<S>, apiKeyId: string): Promise<boolean>;
+
+  /**
+   * Delete all API keys of a user
+   *
+   * Used when the user account is deleted.
+   *
+   * @param session - Database session for transaction support
+   * @param userId - User's unique identifier
+   * @returns Promise<number> - Number of keys deleted
+   *
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  deleteAllUserApiKeys(session: DatabaseSession<S>, userId: string): Promise<number>;
+}
@@ -0,0 +1,69 @@
+import { AuditAction, AuditActor, AuditChanges, AuditLog } from '../entities/AuditLog';
+import { DatabaseSession } from '../DatabaseSession';
+
+/**
+ * Filters of audit log queries; unset filters match every entry
+ */
+export interface AuditLogFilter {
+  action?: AuditAction;
+  actorId?: string;
+  targetId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Result interface for paginated audit log queries
+ */
+export interface GetAuditLogsResult {
+  auditLogs: AuditLog[];
+  total: number;
+  totalPages: number;
+}
+
+/**
+ * AuditLog Data Access Object Interface
+ *
+ * Provides database-agnostic operations for the append-only audit trail.
+ * There are no update or delete operations: entries are only ever created,
+ * in the transaction of the change they record, and queried by administrators.
+ *
+ * @template S - Database session type (e.g., MongoDB ClientSession, PostgreSQL PoolClient)
+ */
+export interface AuditLogDAO<S> {
+  /**
+   * Append an entry to the audit log
+   *
+   * @param session - Database session of the audited change
+   * @param action - Action performed
+   * @param actor - User and client performing the action
+   * @param targetId - ID of the entity the action applies to, or null
+   * @param changes - Fields changed by the action, or null
+   * @param now - Current timestamp, stored as the time of the action
+   * @returns Promise<AuditLog> - Created entry
+   *
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  createAuditLog(
+    session: DatabaseSession<S>,
+    action: AuditAction,
+    actor: AuditActor,
+    targetId: string | null,
+    changes: AuditChanges | null,
+    now: number
+  ): Promise<AuditLog>;
+
+  /**
+   * Find audit log entries with pagination, newest first
+   *
+   * @param filter - Filters the entries must match; `from` and `to` bound the time of the action, inclusive
+   * @param page - Page number (1-based)
+   * @param limit - Number of entries per page
+   * @returns Promise<GetAuditLogsResult> - Paginated entries with metadata
+   *
+   * @throws Error if database operation fails
+   * @readonly Does not require database session
+   */
+  findAuditLogs(filter: AuditLogFilter, page: number, limit: number): Promise<GetAuditLogsResult>;
+}
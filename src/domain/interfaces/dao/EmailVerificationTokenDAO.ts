@@ -0,0 +1,89 @@
+import { EmailVerificationToken } from '../entities/EmailVerificationToken';
+import { DatabaseSession } from '../DatabaseSession';
+
+/**
+ * EmailVerificationToken Data Access Object Interface
+ * 
+ * Provides database-agnostic operations for EmailVerificationToken entity management.
+ * Handles the lifecycle of one-time email verification tokens: creation,
+ * single-use consumption and invalidation. Tokens are looked up by hash only;
+ * the plain token never reaches the database.
+ * 
+ * @template S - Database session type (e.g., MongoDB ClientSession, PostgreSQL PoolClient)
+ */
+export interface EmailVerificationTokenDAO<S> {
+  /**
+   * Create a new email verification token
+   * 
+   * @param session - Database session for transaction support
+   * @param userId - User ID the token belongs to (must reference existing user)
+   * @param email - Email address the token is sent to
+   * @param tokenHash - Hash of the token sent to the user (must be unique)
+   * @param expiresAt - Token expiration date
+   * @param now - Current timestamp for createdAt field
+   * @returns Promise<EmailVerificationToken> - Created verification token entity
+   * 
+   * @throws Error if database operation fails or token hash is not unique
+   * @transactional Requires active database session
+   */
+  createEmailVerificationToken(
+    session: DatabaseSession<S>,
+    userId: string,
+    email: string,
+    tokenHash: string,
+    expiresAt: Date,
+    now: number
+  ): Promise<EmailVerificationToken>;
+
+  /**
+   * Consume an email verification token
+   * 
+   * Atomically marks an unused, non-expired token as used and returns it.
+   * Tokens that are unknown, already used or expired are not matched, so a
+   * token can be consumed at most once.
+   * 
+   * @param session - Database session for transaction support
+   * @param tokenHash - Hash of the token presented by the user
+   * @param now - Current timestamp for the expiration check and updatedAt field
+   * @returns Promise<EmailVerificationToken | null> - Consumed token or null if not usable
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  consumeEmailVerificationToken(
+    session: DatabaseSession<S>,
+    tokenHash: string,
+    now: number
+  ): Promise<EmailVerificationToken | null>;
+
+  /**
+   * Invalidate all unused verification tokens of a user
+   * 
+   * Marks every unused token of the user as used, so only the most recent
+   * verification email (or none, after a successful verification) stays valid.
+   * 
+   * @param session - Database session for transaction support
+   * @param userId - User's unique identifier
+   * @param now - Current timestamp for updatedAt field
+   * @returns Promise<number> - Number of tokens invalidated
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  invalidateAllUserEmailVerificationTokens(session: DatabaseSession<S>, userId: string, now: number): Promise<number>;
+
+  /**
+   * Delete all verification tokens of a user
+   * 
+   * Permanently removes every verification token of the user, used or not.
+   * Used when the user account is deleted.
+   * 
+   * @param session - Database session for transaction support
+   * @param userId - User's unique identifier
+   * @returns Promise<number> - Number of tokens deleted
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  deleteAllUserEmailVerificationTokens(session: DatabaseSession<S>, userId: string): Promise<number>;
+}
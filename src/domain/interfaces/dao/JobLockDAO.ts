@@ -0,0 +1,40 @@
+/**
+ * JobLock Data Access Object Interface
+ *
+ * Provides database-agnostic leases electing which replica runs a scheduled
+ * job. Leases must be visible to the other replicas as soon as they are
+ * taken, so unlike the other write operations they never join a transaction
+ * and take no database session.
+ */
+export interface JobLockDAO {
+  /**
+   * Acquire the lock of a job
+   *
+   * Takes the lease when nobody holds it, when the current lease has expired
+   * or when the owner already holds it (renewal). Must be atomic: of several
+   * concurrent callers with distinct owners, at most one succeeds.
+   *
+   * @param name - Name of the job
+   * @param owner - Identifier of the scheduler instance taking the lease
+   * @param lockedUntil - End of the lease
+   * @param now - Current timestamp, compared with the end of the current lease
+   * @returns Promise<boolean> - true if the owner now holds the lease
+   *
+   * @throws Error if database operation fails
+   */
+  acquireLock(name: string, owner: string, lockedUntil: Date, now: number): Promise<boolean>;
+
+  /**
+   * Release the lock of a job
+   *
+   * Ends the lease so the other replicas may take the job right away. Does
+   * nothing when the owner no longer holds the lease.
+   *
+   * @param name - Name of the job
+   * @param owner - Identifier of the scheduler instance holding the lease
+   * @returns Promise<boolean> - true if the owner held the lease and released it
+   *
+   * @throws Error if database operation fails
+   */
+  releaseLock(name: string, owner: string): Promise<boolean>;
+}
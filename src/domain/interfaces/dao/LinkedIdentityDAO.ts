@@ -0,0 +1,75 @@
+import { LinkedIdentity } from '../entities/LinkedIdentity';
+import { DatabaseSession } from '../DatabaseSession';
+
+/**
+ * LinkedIdentity Data Access Object Interface
+ *
+ * Provides database-agnostic operations for LinkedIdentity entity management.
+ * Handles linking external OpenID Connect accounts to users, looking them up
+ * at sign-in and removing them with the user.
+ *
+ * @template S - Database session type (e.g., MongoDB ClientSession, PostgreSQL PoolClient)
+ */
+export interface LinkedIdentityDAO<S> {
+  /**
+   * Find the identity of a provider account
+   *
+   * @param provider - Provider name
+   * @param subject - Subject identifier of the account at the provider
+   * @returns Promise<LinkedIdentity | null> - Linked identity or null if the account is not linked
+   *
+   * @throws Error if database operation fails
+   */
+  findByProviderSubject(provider: string, subject: string): Promise<LinkedIdentity | null>;
+
+  /**
+   * Link a provider account to a user
+   *
+   * @param session - Database session for transaction support
+   * @param userId - User ID signing in with the account (must reference existing user)
+   * @param provider - Provider name
+   * @param subject - Subject identifier of the account at the provider
+   * @param email - Verified email address reported by the provider, or null
+   * @param now - Current timestamp for lastLoginAt/createdAt/updatedAt fields
+   * @returns Promise<LinkedIdentity | null> - Created identity or null if the account is already linked
+   *
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  createLinkedIdentity(
+    session: DatabaseSession<S>,
+    userId: string,
+    provider: string,
+    subject: string,
+    email: string | null,
+    now: number
+  ): Promise<LinkedIdentity | null>;
+
+  /**
+   * Record a sign-in with a linked identity
+   *
+   * @param session - Database session for transaction support
+   * @param identityId - Linked identity's unique identifier
+   * @param email - Verified email address currently reported by the provider, or null
+   * @param now - Current timestamp for lastLoginAt/updatedAt fields
+   * @returns Promise<boolean> - True if the identity was updated
+   *
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  recordLogin(session: DatabaseSession<S>, identityId: string, email: string | null, now: number): Promise<boolean>;
+
+  /**
+   * Delete all linked identities of a user
+   *
+   * Used when the user account is deleted.
+   *
+   * @param session - Database session for transaction support
+   * @param userId - User's unique identifier
+   * @returns Promise<number> - Number of identities deleted
+   *
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  deleteAllUserLinkedIdentities(session: DatabaseSession<S>, userId: string): Promise<number>;
+}
@@ -0,0 +1,77 @@
+import { LoginAttempt } from '../entities/LoginAttempt';
+import { DatabaseSession } from '../DatabaseSession';
+
+/**
+ * LoginAttempt Data Access Object Interface
+ *
+ * Provides database-agnostic operations for LoginAttempt entity management.
+ * Keeps the failed login counters and lockouts of usernames. Deciding when
+ * to lock and for how long is left to the caller.
+ *
+ * @template S - Database session type (e.g., MongoDB ClientSession, PostgreSQL PoolClient)
+ */
+export interface LoginAttemptDAO<S> {
+  /**
+   * Find the login attempt record of a username
+   *
+   * @param username - Username the attempts were made with
+   * @returns Promise<LoginAttempt | null> - Record or null if no failure is tracked
+   *
+   * @throws Error if database operation fails
+   */
+  findByUsername(username: string): Promise<LoginAttempt | null>;
+
+  /**
+   * Record a failed login attempt
+   *
+   * Increments the failed attempt counter of the username, creating the
+   * record on the first failure.
+   *
+   * @param session - Database session for transaction support
+   * @param username - Username the attempt was made with
+   * @param now - Current timestamp for lastFailedAt/updatedAt fields
+   * @returns Promise<LoginAttempt> - Updated record
+   *
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  recordFailedAttempt(session: DatabaseSession<S>, username: string, now: number): Promise<LoginAttempt>;
+
+  /**
+   * Lock a username
+   *
+   * Sets the end of the lockout, increments the lockout counter and resets
+   * the failed attempt counter for the next round.
+   *
+   * @param session - Database session for transaction support
+   * @param username - Username to lock
+   * @param lockedUntil - End of the lockout
+   * @param now - Current timestamp for updatedAt field
+   * @returns Promise<LoginAttempt | null> - Updated record or null if no failure is tracked
+   *
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  lockUsername(
+    session: DatabaseSession<S>,
+    username: string,
+    lockedUntil: Date,
+    now: number
+  ): Promise<LoginAttempt | null>;
+
+  /**
+   * Reset the login attempts of a username
+   *
+   * Removes failed attempts, lockout and backoff history. Used after a
+   * successful login, when an administrator unlocks the account and when
+   * the account is deleted.
+   *
+   * @param session - Database session for transaction support
+   * @param username - Username to reset
+   * @returns Promise<boolean> - True if a record was removed
+   *
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  resetLoginAttempts(session: DatabaseSession<S>, username: string): Promise<boolean>;
+}
@@ -0,0 +1,86 @@
+import { Organization } from '../entities/Organization';
+import { DatabaseSession } from '../DatabaseSession';
+
+/**
+ * Organization Data Access Object Interface
+ *
+ * Provides database-agnostic operations for Organization entity management.
+ * Handles organization CRUD operations with unique names; memberships are
+ * managed by the OrganizationMemberDAO.
+ *
+ * All write operations require a database session for transactional consistency.
+ * Read operations are session-free as they don't modify data.
+ *
+ * @template S - Database session type (e.g., MongoDB ClientSession, PostgreSQL PoolClient)
+ */
+export interface OrganizationDAO<S> {
+  /**
+   * Create a new organization with unique name constraint
+   *
+   * @param session - Database session for transaction support
+   * @param name - Organization name (must be unique, 1-100 characters)
+   * @param now - Current timestamp for createdAt/updatedAt fields
+   * @returns Promise<Organization | null> - Created organization or null if the name already exists
+   *
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  createOrganization(session: DatabaseSession<S>, name: string, now: number): Promise<Organization | null>;
+
+  /**
+   * Find organization by ID
+   *
+   * No membership validation - use the OrganizationMemberDAO for access control.
+   *
+   * @param organizationId - Organization's unique identifier
+   * @returns Promise<Organization | null> - Organization entity or null if not found
+   *
+   * @throws Error if database operation fails
+   * @readonly Does not require database session
+   */
+  findById(organizationId: string): Promise<Organization | null>;
+
+  /**
+   * Find organizations by ID, ordered by name
+   *
+   * @param organizationIds - Organizations' unique identifiers
+   * @returns Promise<Organization[]> - Organizations found (empty array if none)
+   *
+   * @throws Error if database operation fails
+   * @readonly Does not require database session
+   */
+  findByIds(organizationIds: string[]): Promise<Organization[]>;
+
+  /**
+   * Rename an organization with unique name constraint
+   *
+   * @param session - Database session for transaction support
+   * @param organizationId - Organization ID to update
+   * @param name - New organization name (must be unique)
+   * @param now - Current timestamp for updatedAt field
+   * @returns Promise<Organization | null> - Updated organization, null if not found or name conflict
+   *
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  updateOrganization(
+    session: DatabaseSession<S>,
+    organizationId: string,
+    name: string,
+    now: number
+  ): Promise<Organization | null>;
+
+  /**
+   * Delete organization by ID
+   *
+   * Access control and the removal of its members and projects are up to the caller.
+   *
+   * @param session - Database session for transaction support
+   * @param organizationId - Organization ID to delete
+   * @returns Promise<boolean> - true if deleted successfully, false if not found
+   *
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  deleteOrganization(session: DatabaseSession<S>, organizationId: string): Promise<boolean>;
+}
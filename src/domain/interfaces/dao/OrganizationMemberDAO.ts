@@ -0,0 +1,144 @@
+import { OrganizationMember, OrganizationRole } from '../entities/OrganizationMember';
+import { DatabaseSession } from '../DatabaseSession';
+
+/**
+ * OrganizationMember Data Access Object Interface
+ *
+ * Provides database-agnostic operations for OrganizationMember entity management.
+ * Handles the members of organizations: adding users with a role, changing
+ * their role, removing them, and finding the organizations of a user.
+ *
+ * @template S - Database session type (e.g., MongoDB ClientSession, PostgreSQL PoolClient)
+ */
+export interface OrganizationMemberDAO<S> {
+  /**
+   * Add a user to an organization
+   *
+   * @param session - Database session for transaction support
+   * @param organizationId - Organization's unique identifier (must reference existing organization)
+   * @param userId - User's unique identifier (must reference existing user)
+   * @param role - Role granted to the user
+   * @param now - Current timestamp for createdAt/updatedAt fields
+   * @returns Promise<OrganizationMember | null> - Created membership or null if the user is already a member
+   *
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  createOrganizationMember(
+    session: DatabaseSession<S>,
+    organizationId: string,
+    userId: string,
+    role: OrganizationRole,
+    now: number
+  ): Promise<OrganizationMember | null>;
+
+  /**
+   * Find the membership of a user in an organization
+   *
+   * @param organizationId - Organization's unique identifier
+   * @param userId - User's unique identifier
+   * @returns Promise<OrganizationMember | null> - Membership or null if the user is not a member
+   *
+   * @throws Error if database operation fails
+   * @readonly Does not require database session
+   */
+  findMember(organizationId: string, userId: string): Promise<OrganizationMember | null>;
+
+  /**
+   * Find all members of an organization, in the order they joined
+   *
+   * @param organizationId - Organization's unique identifier
+   * @returns Promise<OrganizationMember[]> - Memberships (empty array if none)
+   *
+   * @throws Error if database operation fails
+   * @readonly Does not require database session
+   */
+  findByOrganizationId(organizationId: string): Promise<OrganizationMember[]>;
+
+  /**
+   * Find all memberships of a user, i.e. the organizations they belong to
+   *
+   * @param userId - User's unique identifier
+   * @returns Promise<OrganizationMember[]> - Memberships (empty array if none)
+   *
+   * @throws Error if database operation fails
+   * @readonly Does not require database session
+   */
+  findByUserId(userId: string): Promise<OrganizationMember[]>;
+
+  /**
+   * Count the members of an organization holding a role
+   *
+   * Used to keep at least one owner in every organization.
+   *
+   * @param organizationId - Organization's unique identifier
+   * @param role - Role to count the members of
+   * @returns Promise<number> - Number of members with the role
+   *
+   * @throws Error if database operation fails
+   * @readonly Does not require database session
+   */
+  countMembersWithRole(organizationId: string, role: OrganizationRole): Promise<number>;
+
+  /**
+   * Change the role of a member
+   *
+   * @param session - Database session for transaction support
+   * @param organizationId - Organization's unique identifier
+   * @param userId - Member's user identifier
+   * @param role - New role of the member
+   * @param now - Current timestamp for updatedAt field
+   * @returns Promise<OrganizationMember | null> - Updated membership or null if the user is not a member
+   *
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  updateMemberRole(
+    session: DatabaseSession<S>,
+    organizationId: string,
+    userId: string,
+    role: OrganizationRole,
+    now: number
+  ): Promise<OrganizationMember | null>;
+
+  /**
+   * Remove a user from an organization
+   *
+   * @param session - Database session for transaction support
+   * @param organizationId - Organization's unique identifier
+   * @param userId - Member's user identifier
+   * @returns Promise<boolean> - true if the membership was deleted
+   *
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  deleteOrganizationMember(session: DatabaseSession<S>, organizationId: string, userId: string): Promise<boolean>;
+
+  /**
+   * Delete all members of an organization
+   *
+   * Used when the organization is deleted.
+   *
+   * @param session - Database session for transaction support
+   * @param organizationId - Organization's unique identifier
+   * @returns Promise<number> - Number of memberships deleted
+   *
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  deleteAllOrganizationMembers(session: DatabaseSession<S>, organizationId: string): Promise<number>;
+
+  /**
+   * Delete all memberships of a user
+   *
+   * Used when the user account is deleted.
+   *
+   * @param session - Database session for transaction support
+   * @param userId - User's unique identifier
+   * @returns Promise<number> - Number of memberships deleted
+   *
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  deleteAllUserMemberships(session: DatabaseSession<S>, userId: string): Promise<number>;
+}
@@ -0,0 +1,87 @@
+import { PasswordResetToken } from '../entities/PasswordResetToken';
+import { DatabaseSession } from '../DatabaseSession';
+
+/**
+ * PasswordResetToken Data Access Object Interface
+ * 
+ * Provides database-agnostic operations for PasswordResetToken entity management.
+ * Handles the lifecycle of one-time password reset tokens: creation, single-use
+ * consumption and invalidation. Tokens are looked up by hash only; the plain
+ * token never reaches the database.
+ * 
+ * @template S - Database session type (e.g., MongoDB ClientSession, PostgreSQL PoolClient)
+ */
+export interface PasswordResetTokenDAO<S> {
+  /**
+   * Create a new password reset token
+   * 
+   * @param session - Database session for transaction support
+   * @param userId - User ID the token belongs to (must reference existing user)
+   * @param tokenHash - Hash of the token sent to the user (must be unique)
+   * @param expiresAt - Token expiration date
+   * @param now - Current timestamp for createdAt field
+   * @returns Promise<PasswordResetToken> - Created reset token entity
+   * 
+   * @throws Error if database operation fails or token hash is not unique
+   * @transactional Requires active database session
+   */
+  createPasswordResetToken(
+    session: DatabaseSession<S>,
+    userId: string,
+    tokenHash: string,
+    expiresAt: Date,
+    now: number
+  ): Promise<PasswordResetToken>;
+
+  /**
+   * Consume a password reset token
+   * 
+   * Atomically marks an unused, non-expired token as used and returns it.
+   * Tokens that are unknown, already used or expired are not matched, so a
+   * token can be consumed at most once.
+   * 
+   * @param session - Database session for transaction support
+   * @param tokenHash - Hash of the token presented by the user
+   * @param now - Current timestamp for the expiration check and updatedAt field
+   * @returns Promise<PasswordResetToken | null> - Consumed token or null if not usable
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  consumePasswordResetToken(
+    session: DatabaseSession<S>,
+    tokenHash: string,
+    now: number
+  ): Promise<PasswordResetToken | null>;
+
+  /**
+   * Invalidate all unused reset tokens of a user
+   * 
+   * Marks every unused token of the user as used, so only the most recent
+   * reset request (or none, after a successful reset) stays valid.
+   * 
+   * @param session - Database session for transaction support
+   * @param userId - User's unique identifier
+   * @param now - Current timestamp for updatedAt field
+   * @returns Promise<number> - Number of tokens invalidated
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  invalidateAllUserPasswordResetTokens(session: DatabaseSession<S>, userId: string, now: number): Promise<number>;
+
+  /**
+   * Delete all reset tokens of a user
+   * 
+   * Permanently removes every reset token of the user, used or not. Used
+   * when the user account is deleted.
+   * 
+   * @param session - Database session for transaction support
+   * @param userId - User's unique identifier
+   * @returns Promise<number> - Number of tokens deleted
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  deleteAllUserPasswordResetTokens(session: DatabaseSession<S>, userId: string): Promise<number>;
+}
@@ -10,6 +10,70 @@ export interface GetAllProjectsResult {
   totalPages: number;
 }
 
+/**
+ * Result interface for cursor-paginated project queries
+ */
+export interface GetProjectsByCursorResult {
+  projects: Project[];
+  hasMore: boolean;
+  total?: number;
+}
+
+/**
+ * Fields projects can be sorted by
+ */
+export const PROJECT_SORT_FIELDS = ['name', 'createdAt', 'updatedAt'] as const;
+
+/**
+ * Field projects can be sorted by
+ */
+export type ProjectSortField = typeof PROJECT_SORT_FIELDS[number];
+
+/**
+ * Order of project queries; ties are broken by creation order in the same direction
+ */
+export interface ProjectSort {
+  field: ProjectSortField;
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * Filters of project queries; unset filters match every project
+ * Date ranges are inclusive on both bounds
+ */
+export interface ProjectFilter {
+  organizationId?: string;
+  name?: string;
+  search?: string;
+  gitHost?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+  updatedFrom?: Date;
+  updatedTo?: Date;
+}
+
+/**
+ * Projects a user can access: their personal projects, the projects of the organizations
+ * they are a member of and the projects shared with them
+ */
+export interface ProjectAccess {
+  userId: string;
+  organizationIds: string[];
+  sharedProjectIds: string[];
+}
+
+/**
+ * Position in a sort order to read a page of projects from, exclusive
+ * It holds the sort field value, creation date and ID of a project; pages after the position
+ * continue in the sort order, pages before it go back
+ */
+export interface ProjectCursor {
+  value: string | Date;
+  createdAt: Date;
+  id: string;
+  direction: 'after' | 'before';
+}
+
 /**
  * Project Data Access Object Interface
  * 
@@ -24,17 +88,18 @@ export interface GetAllProjectsResult {
  */
 export interface ProjectDAO<S> {
   /**
-   * Create a new project with unique name constraint per user
+   * Create a new project with unique name constraint per owner
    * 
-   * Creates a new project for a specific user with name uniqueness validation.
-   * Each user can have only one project with the same name.
+   * Creates a new project for a specific user or organization with name uniqueness validation.
+   * Each owner can have only one project with the same name.
    * 
    * @param session - Database session for transaction support
-   * @param name - Project name (must be unique per user, 1-100 characters)
+   * @param name - Project name (must be unique per owner, 1-100 characters)
    * @param gitUrl - Git repository URL (any valid Git URL format)
-   * @param userId - Owner user ID (must reference existing user)
+   * @param userId - Creator user ID (must reference existing user)
+   * @param organizationId - Owner organization ID, or null for a project owned by its creator
    * @param now - Current timestamp for createdAt/updatedAt fields
-   * @returns Promise<Project | null> - Created project or null if name already exists for this user
+   * @returns Promise<Project | null> - Created project or null if name already exists for this owner
    * 
    * @throws Error if database operation fails or user doesn't exist
    * @transactional Requires active database session
@@ -44,6 +109,7 @@ export interface ProjectDAO<S> {
     name: string, 
     gitUrl: string, 
     userId: string, 
+    organizationId: string | null,
     now: number
   ): Promise<Project | null>;
 
@@ -51,7 +117,7 @@ export interface ProjectDAO<S> {
    * Find project by ID
    * 
    * Retrieves a project by its unique identifier.
-   * No ownership validation - use isProjectOwnedByUser for access control.
+   * No access control - the roles of users on the project are checked by the caller.
    * 
    * @param projectId - Project's unique identifier
    * @returns Promise<Project | null> - Project entity or null if not found
@@ -62,12 +128,15 @@ export interface ProjectDAO<S> {
   findById(projectId: string): Promise<Project | null>;
 
   /**
-   * Find all projects for a specific user with pagination
+   * Find the projects a user owns, can access through an organization or
+   * has been shared into, with filtering, sorting and offset pagination
    * 
-   * Retrieves projects owned by a specific user with pagination support.
-   * Results are typically ordered by creation date or name.
+   * The name filter matches a case-insensitive substring of the name, the search filter
+   * runs a full-text search on the name and the gitHost filter matches the host of the git URL.
    * 
-   * @param userId - User's unique identifier
+   * @param access - Projects the user can access
+   * @param filter - Filters the projects must match
+   * @param sort - Order of the projects
    * @param page - Page number (1-based)
    * @param limit - Maximum projects per page
    * @returns Promise<GetAllProjectsResult> - Paginated projects with metadata
@@ -75,22 +144,99 @@ export interface ProjectDAO<S> {
    * @throws Error if database operation fails
    * @readonly Does not require database session
    */
-  findByUserId(userId: string, page: number, limit: number): Promise<GetAllProjectsResult>;
+  findAccessibleProjects(
+    access: ProjectAccess,
+    filter: ProjectFilter,
+    sort: ProjectSort,
+    page: number,
+    limit: number
+  ): Promise<GetAllProjectsResult>;
+
+  /**
+   * Find the projects a user can access with keyset pagination
+   * 
+   * Pages are read from a position in the sort order rather than skipped to, so they stay
+   * stable when projects are created between requests and are as fast deep in the list as
+   * at its start. Filters match like in findAccessibleProjects.
+   * 
+   * @param access - Projects the user can access
+   * @param filter - Filters the projects must match
+   * @param sort - Order of the projects
+   * @param cursor - Position to read the page from, or null for the first page
+   * @param limit - Maximum projects per page
+   * @param includeTotal - Whether to count all the matching projects
+   * @returns Promise<GetProjectsByCursorResult> - Projects in sort order, whether more follow in the
+   * direction of the cursor, and the total when requested
+   * 
+   * @throws Error if database operation fails
+   * @readonly Does not require database session
+   */
+  findAccessibleProjectsByCursor(
+    access: ProjectAccess,
+    filter: ProjectFilter,
+    sort: ProjectSort,
+    cursor: ProjectCursor | null,
+    limit: number,
+    includeTotal: boolean
+  ): Promise<GetProjectsByCursorResult>;
 
   /**
-   * Update project by ID with unique name constraint per user
+   * Count the projects owned by an organization
    * 
-   * Updates project fields with ownership validation and name uniqueness check.
-   * Only the project owner can update the project.
-   * Name uniqueness is enforced per user if name is being changed.
+   * @param organizationId - Organization's unique identifier
+   * @returns Promise<number> - Number of projects of the organization
+   * 
+   * @throws Error if database operation fails
+   * @readonly Does not require database session
+   */
+  countByOrganizationId(organizationId: string): Promise<number>;
+
+  /**
+   * Find the IDs of all personal projects owned by a user
+   * 
+   * @param userId - User's unique identifier
+   * @returns Promise<string[]> - Project IDs (empty array if none)
+   * 
+   * @throws Error if database operation fails
+   * @readonly Does not require database session
+   */
+  findProjectIdsByUserId(userId: string): Promise<string[]>;
+
+  /**
+   * Move a project to a user, making it a personal project of theirs
+   * 
+   * Access control is up to the caller: the recipient must have accepted the transfer.
+   * Name uniqueness is enforced for the new owner.
+   * 
+   * @param session - Database session for transaction support
+   * @param projectId - Project ID to transfer
+   * @param userId - ID of the new owner
+   * @param now - Current timestamp for updatedAt field
+   * @returns Promise<Project | null> - Transferred project, null if not found or name conflict
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  transferProject(
+    session: DatabaseSession<S>,
+    projectId: string,
+    userId: string,
+    now: number
+  ): Promise<Project | null>;
+
+  /**
+   * Update project by ID with unique name constraint per owner
+   * 
+   * Updates project fields with name uniqueness check.
+   * Access control is up to the caller: owners and maintainers can update the project.
+   * Name uniqueness is enforced per owner if name is being changed.
    * 
    * @param session - Database session for transaction support
    * @param projectId - Project ID to update
-   * @param userId - Owner user ID (for ownership verification)
    * @param now - Current timestamp for updatedAt field
-   * @param name - New project name (optional, must be unique per user if provided)
+   * @param name - New project name (optional, must be unique per owner if provided)
    * @param gitUrl - New git URL (optional)
-   * @returns Promise<Project | null> - Updated project, null if not found/no ownership or name conflict
+   * @returns Promise<Project | null> - Updated project, null if not found or name conflict
    * 
    * @throws Error if database operation fails
    * @transactional Requires active database session
@@ -98,7 +244,6 @@ export interface ProjectDAO<S> {
   updateProject(
     session: DatabaseSession<S>,
     projectId: string,
-    userId: string,
     now: number,
     name?: string,
     gitUrl?: string
@@ -107,32 +252,30 @@ export interface ProjectDAO<S> {
   /**
    * Delete project by ID
    * 
-   * Deletes a project with ownership validation.
-   * Only the project owner can delete the project.
+   * Access control is up to the caller: only the owners of the project can delete it,
+   * the owners and admins of its organization for organization projects.
    * 
    * @param session - Database session for transaction support
    * @param projectId - Project ID to delete
-   * @param userId - Owner user ID (for ownership verification)
-   * @returns Promise<boolean> - true if deleted successfully, false if not found or no ownership
+   * @returns Promise<boolean> - true if deleted successfully, false if not found
    * 
    * @throws Error if database operation fails
    * @transactional Requires active database session
    */
-  deleteProject(session: DatabaseSession<S>, projectId: string, userId: string): Promise<boolean>;
+  deleteProject(session: DatabaseSession<S>, projectId: string): Promise<boolean>;
 
   /**
-   * Check if user owns the project
+   * Delete all projects of a user
    * 
-   * Validates whether a specific user is the owner of a project.
-   * Used for access control before performing operations on projects.
+   * Permanently removes every personal project owned by the user; projects of
+   * organizations are kept. Used when the user account is deleted.
    * 
-   * @param projectId - Project's unique identifier
+   * @param session - Database session for transaction support
    * @param userId - User's unique identifier
-   * @returns Promise<boolean> - true if user owns the project, false otherwise
+   * @returns Promise<number> - Number of projects deleted
    * 
    * @throws Error if database operation fails
-   * @readonly Does not require database session
+   * @transactional Requires active database session
    */
-  isProjectOwnedByUser(projectId: string, userId: string): Promise<boolean>;
-
+  deleteAllUserProjects(session: DatabaseSession<S>, userId: string): Promise<number>;
 }
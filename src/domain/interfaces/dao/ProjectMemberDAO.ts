@@ -0,0 +1,130 @@
+import { ProjectMember, ProjectMemberRole } from '../entities/ProjectMember';
+import { DatabaseSession } from '../DatabaseSession';
+
+/**
+ * ProjectMember Data Access Object Interface
+ *
+ * Provides database-agnostic operations for ProjectMember entity management.
+ * Handles the collaborators of projects: adding users with a role, changing
+ * their role, removing them, and finding the projects shared with a user.
+ *
+ * @template S - Database session type (e.g., MongoDB ClientSession, PostgreSQL PoolClient)
+ */
+export interface ProjectMemberDAO<S> {
+  /**
+   * Add a user to a project
+   *
+   * @param session - Database session for transaction support
+   * @param projectId - Project's unique identifier (must reference existing project)
+   * @param userId - User's unique identifier (must reference existing user)
+   * @param role - Role granted to the user
+   * @param now - Current timestamp for createdAt/updatedAt fields
+   * @returns Promise<ProjectMember | null> - Created membership or null if the user is already a member
+   *
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  createProjectMember(
+    session: DatabaseSession<S>,
+    projectId: string,
+    userId: string,
+    role: ProjectMemberRole,
+    now: number
+  ): Promise<ProjectMember | null>;
+
+  /**
+   * Find the membership of a user in a project
+   *
+   * @param projectId - Project's unique identifier
+   * @param userId - User's unique identifier
+   * @returns Promise<ProjectMember | null> - Membership or null if the user is not a member
+   *
+   * @throws Error if database operation fails
+   * @readonly Does not require database session
+   */
+  findMember(projectId: string, userId: string): Promise<ProjectMember | null>;
+
+  /**
+   * Find all members of a project, in the order they were added
+   *
+   * @param projectId - Project's unique identifier
+   * @returns Promise<ProjectMember[]> - Memberships (empty array if none)
+   *
+   * @throws Error if database operation fails
+   * @readonly Does not require database session
+   */
+  findByProjectId(projectId: string): Promise<ProjectMember[]>;
+
+  /**
+   * Find all memberships of a user, i.e. the projects shared with them
+   *
+   * @param userId - User's unique identifier
+   * @returns Promise<ProjectMember[]> - Memberships (empty array if none)
+   *
+   * @throws Error if database operation fails
+   * @readonly Does not require database session
+   */
+  findByUserId(userId: string): Promise<ProjectMember[]>;
+
+  /**
+   * Change the role of a member
+   *
+   * @param session - Database session for transaction support
+   * @param projectId - Project's unique identifier
+   * @param userId - Member's user identifier
+   * @param role - New role of the member
+   * @param now - Current timestamp for updatedAt field
+   * @returns Promise<ProjectMember | null> - Updated membership or null if the user is not a member
+   *
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  updateMemberRole(
+    session: DatabaseSession<S>,
+    projectId: string,
+    userId: string,
+    role: ProjectMemberRole,
+    now: number
+  ): Promise<ProjectMember | null>;
+
+  /**
+   * Remove a user from a project
+   *
+   * @param session - Database session for transaction support
+   * @param projectId - Project's unique identifier
+   * @param userId - Member's user identifier
+   * @returns Promise<boolean> - true if the membership was deleted
+   *
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  deleteProjectMember(session: DatabaseSession<S>, projectId: string, userId: string): Promise<boolean>;
+
+  /**
+   * Delete all members of the given projects
+   *
+   * Used when projects are deleted.
+   *
+   * @param session - Database session for transaction support
+   * @param projectIds - Unique identifiers of the projects
+   * @returns Promise<number> - Number of memberships deleted
+   *
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  deleteAllProjectMembers(session: DatabaseSession<S>, projectIds: string[]): Promise<number>;
+
+  /**
+   * Delete all memberships of a user
+   *
+   * Used when the user account is deleted.
+   *
+   * @param session - Database session for transaction support
+   * @param userId - User's unique identifier
+   * @returns Promise<number> - Number of memberships deleted
+   *
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  deleteAllUserMemberships(session: DatabaseSession<S>, userId: string): Promise<number>;
+}
@@ -0,0 +1,84 @@
+import { ProjectTransfer } from '../entities/ProjectTransfer';
+import { DatabaseSession } from '../DatabaseSession';
+
+/**
+ * ProjectTransfer Data Access Object Interface
+ *
+ * Provides database-agnostic operations for ProjectTransfer entity management.
+ * Handles the pending transfers of projects between users: requesting them,
+ * finding those offered to a user, and removing them once answered.
+ *
+ * @template S - Database session type (e.g., MongoDB ClientSession, PostgreSQL PoolClient)
+ */
+export interface ProjectTransferDAO<S> {
+  /**
+   * Request the transfer of a project, replacing any pending transfer of the project
+   *
+   * @param session - Database session for transaction support
+   * @param projectId - Project's unique identifier (must reference existing project)
+   * @param fromUserId - Identifier of the user requesting the transfer
+   * @param toUserId - Identifier of the user the project is offered to
+   * @param now - Current timestamp for createdAt/updatedAt fields
+   * @returns Promise<ProjectTransfer> - Pending transfer
+   *
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  saveProjectTransfer(
+    session: DatabaseSession<S>,
+    projectId: string,
+    fromUserId: string,
+    toUserId: string,
+    now: number
+  ): Promise<ProjectTransfer>;
+
+  /**
+   * Find the pending transfer of a project
+   *
+   * @param projectId - Project's unique identifier
+   * @returns Promise<ProjectTransfer | null> - Pending transfer or null if none
+   *
+   * @throws Error if database operation fails
+   * @readonly Does not require database session
+   */
+  findByProjectId(projectId: string): Promise<ProjectTransfer | null>;
+
+  /**
+   * Find the pending transfers offered to a user, newest first
+   *
+   * @param userId - Recipient's user identifier
+   * @returns Promise<ProjectTransfer[]> - Pending transfers (empty array if none)
+   *
+   * @throws Error if database operation fails
+   * @readonly Does not require database session
+   */
+  findByToUserId(userId: string): Promise<ProjectTransfer[]>;
+
+  /**
+   * Delete the pending transfer of a project
+   *
+   * Used when the transfer is accepted or declined, and when the project is deleted.
+   *
+   * @param session - Database session for transaction support
+   * @param projectId - Project's unique identifier
+   * @returns Promise<boolean> - true if a transfer was deleted
+   *
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  deleteProjectTransfer(session: DatabaseSession<S>, projectId: string): Promise<boolean>;
+
+  /**
+   * Delete all pending transfers requested by or offered to a user
+   *
+   * Used when the user account is deleted.
+   *
+   * @param session - Database session for transaction support
+   * @param userId - User's unique identifier
+   * @returns Promise<number> - Number of transfers deleted
+   *
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  deleteAllUserProjectTransfers(session: DatabaseSession<S>, userId: string): Promise<number>;
+}
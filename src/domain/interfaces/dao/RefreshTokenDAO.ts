@@ -19,11 +19,12 @@ export interface RefreshTokenDAO<S> {
    * Create a new refresh token
    * 
    * Creates a new refresh token record for long-term authentication.
-   * The token string must be unique across all refresh tokens.
+   * Only the hash of the token is stored and it must be unique across all refresh tokens.
    * Used during initial login and token rotation scenarios.
    * 
    * @param session - Database session for transaction support
    * @param userId - User ID associated with the token (must reference existing user)
+   * @param familyId - Token family identifier (new at login, inherited on rotation)
    * @param token - JWT refresh token string (must be unique)
    * @param expiresAt - Token expiration date (typically 7-30 days from creation)
    * @param now - Current timestamp for createdAt field
@@ -35,6 +36,7 @@ export interface RefreshTokenDAO<S> {
   createRefreshToken(
     session: DatabaseSession<S>,
     userId: string,
+    familyId: string,
     token: string,
     expiresAt: Date,
     now: number
@@ -55,6 +57,21 @@ export interface RefreshTokenDAO<S> {
    */
   findRefreshToken(token: string): Promise<RefreshToken | null>;
 
+  /**
+   * Find revoked refresh token by token string
+   * 
+   * Retrieves a refresh token only if it has already been revoked. Used to
+   * detect replay of rotated tokens, which indicates the token family may
+   * have been stolen.
+   * 
+   * @param token - JWT refresh token string to find
+   * @returns Promise<RefreshToken | null> - Revoked refresh token entity or null if not found or still active
+   * 
+   * @throws Error if database operation fails
+   * @readonly Does not require database session
+   */
+  findRevokedRefreshToken(token: string): Promise<RefreshToken | null>;
+
   /**
    * Revoke refresh token
    * 
@@ -72,21 +89,74 @@ export interface RefreshTokenDAO<S> {
    */
   revokeRefreshToken(session: DatabaseSession<S>, token: string, now: number): Promise<boolean>;
 
+  /**
+   * Revoke all refresh tokens of a token family
+   * 
+   * Marks every non-revoked refresh token of the given family as revoked,
+   * forcing the owner of the family to log in again. Used when refresh
+   * token reuse is detected.
+   * 
+   * @param session - Database session for transaction support
+   * @param familyId - Token family identifier
+   * @param now - Current timestamp for updatedAt field
+   * @returns Promise<number> - Number of tokens revoked
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  revokeRefreshTokenFamily(session: DatabaseSession<S>, familyId: string, now: number): Promise<number>;
+
+  /**
+   * Revoke all refresh tokens of a user
+   * 
+   * Marks every non-revoked refresh token of the user as revoked, across all
+   * token families. Used when the user logs out everywhere.
+   * 
+   * @param session - Database session for transaction support
+   * @param userId - User's unique identifier
+   * @param now - Current timestamp for updatedAt field
+   * @param exceptFamilyId - Optional token family whose tokens are kept (e.g. the current session)
+   * @returns Promise<number> - Number of tokens revoked
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  revokeAllUserRefreshTokens(
+    session: DatabaseSession<S>,
+    userId: string,
+    now: number,
+    exceptFamilyId?: string
+  ): Promise<number>;
+
   /**
    * Clean expired refresh tokens
    * 
    * Removes or marks as invalid refresh tokens that have passed their expiration date.
    * This is a maintenance operation that helps keep the token storage clean and
-   * prevents accumulation of stale tokens. Should be run periodically via cron jobs
-   * or scheduled tasks.
+   * prevents accumulation of stale tokens. Run periodically by the job scheduler.
    * 
    * @param session - Database session for transaction support
    * @param expirationDate - Date threshold - tokens expiring before this date will be cleaned
-   * @returns Promise<void> - Operation completes without return value
+   * @returns Promise<number> - Number of refresh tokens deleted
    * 
    * @throws Error if database operation fails
    * @transactional Requires active database session
    * @maintenance This is a cleanup operation for database maintenance
    */
-  cleanExpiredRefreshTokens(session: DatabaseSession<S>, expirationDate: Date): Promise<void>;
+  cleanExpiredRefreshTokens(session: DatabaseSession<S>, expirationDate: Date): Promise<number>;
+
+  /**
+   * Delete all refresh tokens of a user
+   * 
+   * Permanently removes every refresh token of the user, revoked or not. Used when
+   * the user account is deleted.
+   * 
+   * @param session - Database session for transaction support
+   * @param userId - User's unique identifier
+   * @returns Promise<number> - Number of refresh tokens deleted
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  deleteAllUserRefreshTokens(session: DatabaseSession<S>, userId: string): Promise<number>;
 }
@@ -0,0 +1,115 @@
+import { TotpCredential } from '../entities/TotpCredential';
+import { DatabaseSession } from '../DatabaseSession';
+
+/**
+ * TotpCredential Data Access Object Interface
+ * 
+ * Provides database-agnostic operations for TotpCredential entity management.
+ * Handles enrollment, confirmation, replay-safe code usage, single-use
+ * recovery codes and removal of the two-factor setup of a user.
+ * 
+ * @template S - Database session type (e.g., MongoDB ClientSession, PostgreSQL PoolClient)
+ */
+export interface TotpCredentialDAO<S> {
+  /**
+   * Find the credential of a user
+   * 
+   * @param userId - User's unique identifier
+   * @returns Promise<TotpCredential | null> - Credential (pending or confirmed) or null if none
+   * 
+   * @throws Error if database operation fails
+   */
+  findByUserId(userId: string): Promise<TotpCredential | null>;
+
+  /**
+   * Create or replace the pending credential of a user
+   * 
+   * Starts a new enrollment with a fresh secret and recovery codes. An
+   * unconfirmed credential is replaced; a confirmed one is left untouched.
+   * 
+   * @param session - Database session for transaction support
+   * @param userId - User ID enrolling (must reference existing user)
+   * @param secret - Base32 encoded shared secret
+   * @param recoveryCodeHashes - Hashes of the generated recovery codes
+   * @param now - Current timestamp for createdAt/updatedAt fields
+   * @returns Promise<TotpCredential | null> - Pending credential or null if a confirmed one exists
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  savePendingCredential(
+    session: DatabaseSession<S>,
+    userId: string,
+    secret: string,
+    recoveryCodeHashes: string[],
+    now: number
+  ): Promise<TotpCredential | null>;
+
+  /**
+   * Confirm the pending credential of a user
+   * 
+   * @param session - Database session for transaction support
+   * @param userId - User's unique identifier
+   * @param step - Time step of the code used for confirmation
+   * @param now - Current timestamp for updatedAt field
+   * @returns Promise<boolean> - True if a pending credential was confirmed
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  confirmCredential(session: DatabaseSession<S>, userId: string, step: number, now: number): Promise<boolean>;
+
+  /**
+   * Record the use of a code
+   * 
+   * Atomically moves the last used time step forward. Fails when the step
+   * was already used (or an earlier one), which rejects replayed codes.
+   * 
+   * @param session - Database session for transaction support
+   * @param userId - User's unique identifier
+   * @param step - Time step of the accepted code
+   * @param now - Current timestamp for updatedAt field
+   * @returns Promise<boolean> - True if the step had not been used yet
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  useStep(session: DatabaseSession<S>, userId: string, step: number, now: number): Promise<boolean>;
+
+  /**
+   * Use a recovery code
+   * 
+   * Atomically removes the recovery code from the confirmed credential, so
+   * each code can be used once.
+   * 
+   * @param session - Database session for transaction support
+   * @param userId - User's unique identifier
+   * @param codeHash - Hash of the recovery code entered by the user
+   * @param now - Current timestamp for updatedAt field
+   * @returns Promise<TotpCredential | null> - Updated credential or null if the code is unknown or used
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  useRecoveryCode(
+    session: DatabaseSession<S>,
+    userId: string,
+    codeHash: string,
+    now: number
+  ): Promise<TotpCredential | null>;
+
+  /**
+   * Delete the credential of a user
+   * 
+   * Turns two-factor authentication off. Also used when the user account
+   * is deleted.
+   * 
+   * @param session - Database session for transaction support
+   * @param userId - User's unique identifier
+   * @returns Promise<boolean> - True if a credential was deleted
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  deleteCredential(session: DatabaseSession<S>, userId: string): Promise<boolean>;
+}
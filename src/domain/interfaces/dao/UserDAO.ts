@@ -1,6 +1,12 @@
-import { User } from '../entities/User';
+import { User, UserRole } from '../entities/User';
 import { DatabaseSession } from '../DatabaseSession';
 
+export interface GetAllUsersResult {
+  users: User[];
+  total: number;
+  totalPages: number;
+}
+
 /**
  * User Data Access Object Interface
  * 
@@ -19,17 +25,26 @@ export interface UserDAO<S> {
    * 
    * Creates a new user account with the provided credentials.
    * Enforces username uniqueness constraint - returns null if username already exists.
-   * Password should be pre-hashed before calling this method.
+   * Password should be pre-hashed before calling this method. The email
+   * starts unverified.
    * 
    * @param session - Database session for transaction support
    * @param username - Username (must be unique, 3-50 chars, alphanumeric + underscore/hyphen)
    * @param password - Pre-hashed password (bcrypt recommended)
+   * @param roles - Roles granted to the new user
+   * @param email - Lower-case email address, stored unverified, or null
    * @returns Promise<User | null> - Created user entity or null if username already exists
    * 
    * @throws Error if database operation fails
    * @transactional Requires active database session
    */
-  createUser(session: DatabaseSession<S>, username: string, password: string): Promise<User | null>;
+  createUser(
+    session: DatabaseSession<S>,
+    username: string,
+    password: string,
+    roles: UserRole[],
+    email: string | null
+  ): Promise<User | null>;
 
   /**
    * Find user by ID
@@ -74,4 +89,145 @@ export interface UserDAO<S> {
    * @security Returns password field - use only for authentication
    */
   findByUsernameWithPassword(username: string): Promise<User | null>;
+
+  /**
+   * Find user by verified email address
+   * 
+   * Retrieves the user who verified the email address. Unverified addresses
+   * are only claims, which any number of users may hold.
+   * Returns user data without password for security.
+   * 
+   * @param email - Lower-case email address
+   * @returns Promise<User | null> - User entity or null if no user verified the address
+   * 
+   * @throws Error if database operation fails
+   * @readonly Does not require database session
+   * @security Password field is excluded from result
+   */
+  findByEmail(email: string): Promise<User | null>;
+
+  /**
+   * Find user by verified email address including password (for authentication)
+   * 
+   * Retrieves the user who verified the email address, with password field,
+   * for logging in with an email address.
+   * Should only be used during login/authentication flows.
+   * 
+   * @param email - Lower-case email address
+   * @returns Promise<User | null> - User entity with password or null if no user verified the address
+   * 
+   * @throws Error if database operation fails
+   * @readonly Does not require database session
+   * @security Returns password field - use only for authentication
+   */
+  findByEmailWithPassword(email: string): Promise<User | null>;
+
+  /**
+   * Find users claiming an email address they have not verified yet
+   * 
+   * Returns user data without password for security.
+   * 
+   * @param email - Lower-case email address
+   * @returns Promise<User[]> - Users holding the address unverified, possibly none
+   * 
+   * @throws Error if database operation fails
+   * @readonly Does not require database session
+   * @security Password field is excluded from result
+   */
+  findUnverifiedByEmail(email: string): Promise<User[]>;
+
+  /**
+   * Mark the email address of a user as verified
+   * 
+   * Only applies while the user still has the given address, so a
+   * verification of an address the user no longer uses has no effect.
+   * Other users claiming the address unverified lose it, since it now
+   * belongs to this user.
+   * 
+   * @param session - Database session for transaction support
+   * @param userId - User's unique identifier
+   * @param email - Lower-case email address that was verified
+   * @returns Promise<boolean> - True if the user was updated, false if not found or the address changed
+   * 
+   * @throws AppError with 409 status if another user already verified the address
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  markEmailVerified(session: DatabaseSession<S>, userId: string, email: string): Promise<boolean>;
+
+  /**
+   * Replace the roles of a user
+   * 
+   * Overwrites the full role list of the user. Tokens issued before the change
+   * keep their embedded roles until they are refreshed.
+   * 
+   * @param session - Database session for transaction support
+   * @param userId - User's unique identifier
+   * @param roles - New role list
+   * @returns Promise<User | null> - Updated user entity (without password) or null if not found
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  updateRoles(session: DatabaseSession<S>, userId: string, roles: UserRole[]): Promise<User | null>;
+
+  /**
+   * Replace the password hash of a user
+   * 
+   * Password should be pre-hashed before calling this method.
+   * 
+   * @param session - Database session for transaction support
+   * @param userId - User's unique identifier
+   * @param password - New pre-hashed password (bcrypt recommended)
+   * @returns Promise<boolean> - True if the user was updated, false if not found
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  updatePassword(session: DatabaseSession<S>, userId: string, password: string): Promise<boolean>;
+
+  /**
+   * Find users with pagination
+   * 
+   * Retrieves users sorted by username, optionally restricted to usernames
+   * starting with the given prefix. Passwords are excluded from results.
+   * 
+   * @param page - Page number (1-based)
+   * @param limit - Number of users per page
+   * @param usernamePrefix - Optional case-sensitive username prefix to filter by
+   * @returns Promise<GetAllUsersResult> - Paginated users with metadata
+   * 
+   * @throws Error if database operation fails
+   * @readonly Does not require database session
+   * @security Password field is excluded from result
+   */
+  findUsers(page: number, limit: number, usernamePrefix?: string): Promise<GetAllUsersResult>;
+
+  /**
+   * Disable or enable a user account
+   * 
+   * @param session - Database session for transaction support
+   * @param userId - User's unique identifier
+   * @param isDisabled - True to disable the account, false to enable it
+   * @returns Promise<User | null> - Updated user entity (without password) or null if not found
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  setUserDisabled(session: DatabaseSession<S>, userId: string, isDisabled: boolean): Promise<User | null>;
+
+  /**
+   * Delete user by ID
+   * 
+   * Removes only the user record. Callers are responsible for deleting
+   * the data owned by the user within the same transaction.
+   * 
+   * @param session - Database session for transaction support
+   * @param userId - User's unique identifier
+   * @returns Promise<boolean> - True if the user was deleted, false if not found
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  deleteUser(session: DatabaseSession<S>, userId: string): Promise<boolean>;
 }
@@ -0,0 +1,135 @@
+import { UserSession } from '../entities/UserSession';
+import { DatabaseSession } from '../DatabaseSession';
+
+/**
+ * UserSession Data Access Object Interface
+ * 
+ * Provides database-agnostic operations for UserSession entity management.
+ * Handles the lifecycle of login sessions (one per device) including creation,
+ * activity tracking, listing and revocation.
+ * 
+ * Token revocation is not performed here: callers revoke the token family
+ * of a session through AccessTokenDAO and RefreshTokenDAO in the same transaction.
+ * 
+ * @template S - Database session type (e.g., MongoDB ClientSession, PostgreSQL PoolClient)
+ */
+export interface UserSessionDAO<S> {
+  /**
+   * Create a new user session
+   * 
+   * Creates a session record at login or registration. The returned session ID
+   * is used as family identifier for the tokens issued to the client.
+   * 
+   * @param session - Database session for transaction support
+   * @param userId - User ID owning the session (must reference existing user)
+   * @param userAgent - Client User-Agent header
+   * @param ip - Client IP address
+   * @param now - Current timestamp for createdAt/lastUsedAt fields
+   * @returns Promise<UserSession> - Created session entity
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  createUserSession(
+    session: DatabaseSession<S>,
+    userId: string,
+    userAgent: string,
+    ip: string,
+    now: number
+  ): Promise<UserSession>;
+
+  /**
+   * Find session by ID
+   * 
+   * Retrieves a session by its identifier, including revoked sessions.
+   * 
+   * @param sessionId - Session's unique identifier
+   * @returns Promise<UserSession | null> - Session entity or null if not found
+   * 
+   * @throws Error if database operation fails
+   * @readonly Does not require database session
+   */
+  findById(sessionId: string): Promise<UserSession | null>;
+
+  /**
+   * Find active sessions of a user
+   * 
+   * Retrieves every non-revoked session of the user, most recently used first.
+   * 
+   * @param userId - User's unique identifier
+   * @returns Promise<UserSession[]> - Active sessions (empty array if none)
+   * 
+   * @throws Error if database operation fails
+   * @readonly Does not require database session
+   */
+  findActiveByUserId(userId: string): Promise<UserSession[]>;
+
+  /**
+   * Record session activity
+   * 
+   * Updates the last-used timestamp of an active session. Identifiers that do
+   * not match an active session (e.g. token families created before sessions
+   * existed) are ignored.
+   * 
+   * @param session - Database session for transaction support
+   * @param sessionId - Session's unique identifier
+   * @param now - Current timestamp for lastUsedAt/updatedAt fields
+   * @returns Promise<boolean> - true if an active session was updated
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  touchUserSession(session: DatabaseSession<S>, sessionId: string, now: number): Promise<boolean>;
+
+  /**
+   * Revoke a session
+   * 
+   * Marks a single session as revoked. Identifiers that do not match an
+   * active session are ignored.
+   * 
+   * @param session - Database session for transaction support
+   * @param sessionId - Session's unique identifier
+   * @param now - Current timestamp for updatedAt field
+   * @returns Promise<boolean> - true if an active session was revoked
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  revokeUserSession(session: DatabaseSession<S>, sessionId: string, now: number): Promise<boolean>;
+
+  /**
+   * Revoke all sessions of a user
+   * 
+   * Marks every active session of the user as revoked ("log out everywhere").
+   * 
+   * @param session - Database session for transaction support
+   * @param userId - User's unique identifier
+   * @param now - Current timestamp for updatedAt field
+   * @param exceptSessionId - Optional session that is kept active (e.g. the current session)
+   * @returns Promise<number> - Number of sessions revoked
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  revokeAllUserSessions(
+    session: DatabaseSession<S>,
+    userId: string,
+    now: number,
+    exceptSessionId?: string
+  ): Promise<number>;
+
+  /**
+   * Delete all sessions of a user
+   * 
+   * Permanently removes every session of the user, revoked or not. Used when
+   * the user account is deleted.
+   * 
+   * @param session - Database session for transaction support
+   * @param userId - User's unique identifier
+   * @returns Promise<number> - Number of sessions deleted
+   * 
+   * @throws Error if database operation fails
+   * @transactional Requires active database session
+   */
+  deleteAllUserSessions(session: DatabaseSession<S>, userId: string): Promise<number>;
+}
@@ -27,17 +27,27 @@ export interface AccessToken {
   userId: string;
 
   /**
-   * JWT access token string
+   * Token family identifier
    * 
-   * The actual JWT token used for API authentication.
-   * Must be unique across all access tokens to prevent conflicts.
-   * Contains encoded user information and expiration data.
+   * Identifier of the token family (login session) this access token was
+   * issued for. Shared with the refresh tokens of the same lineage so the
+   * access tokens can be revoked together with their family.
+   * 
+   * @type {string}
+   */
+  familyId: string;
+
+  /**
+   * Token hash
+   * 
+   * SHA-256 hash of the JWT access token, used to look the token up. Only the
+   * hash is stored: the token itself never reaches the database.
+   * Must be unique across all access tokens.
    * 
    * @type {string}
    * @unique
-   * @security Contains sensitive authentication data
    */
-  token: string;
+  tokenHash: string;
 
   /**
    * Token expiration timestamp
@@ -0,0 +1,111 @@
+import { TokenScope } from './TokenScope';
+
+/**
+ * ApiKey Entity
+ *
+ * Authentication entity representing a personal access token: a long-lived
+ * credential a user creates for scripts and CI pipelines. Only the hash of
+ * the token is stored; the token itself is shown once, when it is created.
+ */
+export interface ApiKey {
+  /**
+   * Unique identifier for the API key
+   *
+   * Primary key that uniquely identifies each API key in the system.
+   *
+   * @type {string}
+   */
+  id: string;
+
+  /**
+   * Owner user identifier
+   *
+   * Foreign key linking to the User the API key authenticates as.
+   *
+   * @type {string}
+   * @foreignKey References User.id
+   */
+  userId: string;
+
+  /**
+   * Display name
+   *
+   * Name chosen by the user to recognise the key (e.g. the pipeline using it).
+   *
+   * @type {string}
+   */
+  name: string;
+
+  /**
+   * Token hash
+   *
+   * SHA-256 hash of the token, used to look the key up when it is presented.
+   *
+   * @type {string}
+   * @unique
+   */
+  tokenHash: string;
+
+  /**
+   * Token prefix
+   *
+   * First characters of the token, kept in clear so users can tell their
+   * keys apart without the token being stored.
+   *
+   * @type {string}
+   */
+  tokenPrefix: string;
+
+  /**
+   * Granted scopes
+   *
+   * Scopes limiting the routes the key can be used for. Routes without a
+   * scope (account and session management, administration) refuse API keys
+   * altogether.
+   *
+   * @type {TokenScope[]}
+   */
+  scopes: TokenScope[];
+
+  /**
+   * Expiration timestamp
+   *
+   * Date and time after which the key is refused, or null for keys that
+   * do not expire.
+   *
+   * @type {Date | null}
+   */
+  expiresAt: Date | null;
+
+  /**
+   * Last use timestamp
+   *
+   * Date and time when the key last authenticated a request, or null if it
+   * was never used. Recorded at most once a minute.
+   *
+   * @type {Date | null}
+   */
+  lastUsedAt: Date | null;
+
+  /**
+   * Creation timestamp
+   *
+   * Automatically set when the API key is created.
+   * Managed by database layer.
+   *
+   * @type {Date}
+   * @optional
+   */
+  createdAt?: Date;
+
+  /**
+   * Last modification timestamp
+   *
+   * Automatically updated whenever API key data is modified.
+   * Managed by database layer.
+   *
+   * @type {Date}
+   * @optional
+   */
+  updatedAt?: Date;
+}
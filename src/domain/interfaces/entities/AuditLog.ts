@@ -0,0 +1,159 @@
+/**
+ * Audited actions
+ *
+ * Security-relevant events and changes of business data. New actions are
+ * appended; existing names must not change since stored entries refer to them.
+ */
+export const AUDIT_ACTIONS = [
+  'user.register',
+  'auth.login',
+  'auth.login_failed',
+  'auth.logout',
+  'auth.token_refresh',
+  'project.create',
+  'project.update',
+  'project.delete',
+  'project.member_add',
+  'project.member_update',
+  'project.member_remove',
+  'org.create',
+  'org.update',
+  'org.delete',
+  'org.member_add',
+  'org.member_update',
+  'org.member_remove',
+  'project.transfer_request',
+  'project.transfer_accept',
+  'project.transfer_decline',
+  'user.admin_grant',
+  'user.disable',
+  'user.enable',
+  'user.unlock',
+  'user.delete',
+  'auth.token_reuse',
+  'auth.login_rejected',
+  'auth.password_change',
+  'auth.password_reset',
+  'auth.mfa_enroll',
+  'auth.mfa_enable',
+  'auth.mfa_disable',
+  'auth.api_key_create',
+  'auth.api_key_delete',
+  'auth.session_revoke',
+  'auth.session_revoke_all'
+] as const;
+
+/**
+ * Action recorded by an audit log entry
+ */
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+/**
+ * User and client an audited action was performed by
+ */
+export interface AuditActor {
+  /**
+   * ID of the user, null when no account matches (failed login of an unknown username)
+   *
+   * @type {string | null}
+   */
+  userId: string | null;
+
+  /**
+   * Username of the user, or the username a failed login was attempted with
+   *
+   * @type {string}
+   */
+  username: string;
+
+  /**
+   * IP address of the client
+   *
+   * @type {string}
+   */
+  ip: string;
+
+  /**
+   * User agent of the client
+   *
+   * @type {string}
+   */
+  userAgent: string;
+}
+
+/**
+ * Fields changed by an audited action
+ *
+ * Only fields whose value differs are kept. Creations have no `before`,
+ * deletions have no `after`.
+ */
+export interface AuditChanges {
+  /**
+   * Values of the changed fields before the action
+   *
+   * @type {Record<string, unknown> | null}
+   */
+  before: Record<string, unknown> | null;
+
+  /**
+   * Values of the changed fields after the action
+   *
+   * @type {Record<string, unknown> | null}
+   */
+  after: Record<string, unknown> | null;
+}
+
+/**
+ * AuditLog Entity
+ *
+ * Append-only record of a security-relevant or data-changing action. Entries
+ * are written in the transaction of the change they record, so a rolled back
+ * change leaves no entry, and are never updated or deleted by the application.
+ */
+export interface AuditLog {
+  /**
+   * Unique identifier for the audit log entry
+   *
+   * Primary key that uniquely identifies each entry in the system.
+   *
+   * @type {string}
+   */
+  id: string;
+
+  /**
+   * Action performed
+   *
+   * @type {AuditAction}
+   */
+  action: AuditAction;
+
+  /**
+   * User and client performing the action
+   *
+   * @type {AuditActor}
+   */
+  actor: AuditActor;
+
+  /**
+   * ID of the entity the action applies to (user, session or project)
+   *
+   * Null when there is no such entity, e.g. a failed login of an unknown username.
+   *
+   * @type {string | null}
+   */
+  targetId: string | null;
+
+  /**
+   * Fields changed by the action, null for actions that change no business data
+   *
+   * @type {AuditChanges | null}
+   */
+  changes: AuditChanges | null;
+
+  /**
+   * Time of the action
+   *
+   * @type {Date}
+   */
+  timestamp: Date;
+}
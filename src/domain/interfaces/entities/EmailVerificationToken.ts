@@ -0,0 +1,92 @@
+/**
+ * EmailVerificationToken Entity
+ * 
+ * Authentication entity representing a one-time token that proves a user
+ * can read the mailbox of their email address. The token itself is only
+ * sent to that address; the database stores its hash. Verification tokens
+ * expire and can be used a single time.
+ */
+export interface EmailVerificationToken {
+  /**
+   * Unique identifier for the verification token
+   * 
+   * Primary key that uniquely identifies each verification token in the system.
+   * 
+   * @type {string}
+   */
+  id: string;
+
+  /**
+   * Owner user identifier
+   * 
+   * Foreign key linking to the User whose email address the token verifies.
+   * 
+   * @type {string}
+   * @foreignKey References User.id
+   */
+  userId: string;
+
+  /**
+   * Email address the token was sent to
+   * 
+   * Only this address gets verified, so a token cannot verify an address
+   * the user switched to after the token was issued.
+   * 
+   * @type {string}
+   */
+  email: string;
+
+  /**
+   * Hash of the verification token
+   * 
+   * SHA-256 hash of the token delivered to the user. The plain token is
+   * never stored, so a database leak does not allow verifying addresses.
+   * 
+   * @type {string}
+   * @unique
+   * @security Derived from sensitive authentication data
+   */
+  tokenHash: string;
+
+  /**
+   * Token expiration timestamp
+   * 
+   * Date and time after which the token can no longer be used.
+   * 
+   * @type {Date}
+   */
+  expiresAt: Date;
+
+  /**
+   * Token usage flag
+   * 
+   * Indicates whether the token has been used or invalidated (e.g. by a
+   * newer verification email). Used tokens cannot be used again.
+   * 
+   * @type {boolean}
+   * @default false
+   */
+  isUsed: boolean;
+
+  /**
+   * Creation timestamp
+   * 
+   * Automatically set when the verification token is created.
+   * Managed by database layer.
+   * 
+   * @type {Date}
+   * @optional
+   */
+  createdAt?: Date;
+
+  /**
+   * Last modification timestamp
+   * 
+   * Automatically updated whenever token data is modified (e.g. usage).
+   * Managed by database layer.
+   * 
+   * @type {Date}
+   * @optional
+   */
+  updatedAt?: Date;
+}
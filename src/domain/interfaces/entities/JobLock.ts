@@ -0,0 +1,68 @@
+/**
+ * JobLock Entity
+ *
+ * Lease on a scheduled maintenance job. Every replica of the server runs the
+ * same scheduler; before running a job, a replica takes the lock of the job,
+ * renews it while the job runs and releases it once the run has finished. The
+ * other replicas skip the job while the lease is held, and take over once it
+ * has expired (e.g. the holder was stopped mid-run).
+ */
+export interface JobLock {
+  /**
+   * Unique identifier for the job lock record
+   *
+   * Primary key that uniquely identifies each record in the system.
+   *
+   * @type {string}
+   */
+  id: string;
+
+  /**
+   * Name of the scheduled job
+   *
+   * @type {string}
+   * @unique
+   */
+  name: string;
+
+  /**
+   * Identifier of the scheduler instance holding the lease
+   *
+   * Random per server process, so a restarted replica does not inherit the
+   * leases of its previous run.
+   *
+   * @type {string}
+   */
+  owner: string;
+
+  /**
+   * End of the lease
+   *
+   * Other scheduler instances may take the lock from this date on.
+   *
+   * @type {Date}
+   */
+  lockedUntil: Date;
+
+  /**
+   * Creation timestamp
+   *
+   * Automatically set when the job is locked for the first time.
+   * Managed by database layer.
+   *
+   * @type {Date}
+   * @optional
+   */
+  createdAt?: Date;
+
+  /**
+   * Last modification timestamp
+   *
+   * Automatically updated whenever the lease is taken or renewed.
+   * Managed by database layer.
+   *
+   * @type {Date}
+   * @optional
+   */
+  updatedAt?: Date;
+}
@@ -0,0 +1,86 @@
+/**
+ * LinkedIdentity Entity
+ *
+ * Authentication entity linking an account at an external OpenID Connect
+ * provider to a user. Signing in with the provider logs in the linked user;
+ * a user can have identities at several providers, but each provider
+ * account belongs to a single user.
+ */
+export interface LinkedIdentity {
+  /**
+   * Unique identifier for the linked identity
+   *
+   * Primary key that uniquely identifies each linked identity in the system.
+   *
+   * @type {string}
+   */
+  id: string;
+
+  /**
+   * Owner user identifier
+   *
+   * Foreign key linking to the User who signs in with the identity.
+   *
+   * @type {string}
+   * @foreignKey References User.id
+   */
+  userId: string;
+
+  /**
+   * Provider name
+   *
+   * Name of the provider as configured in OIDC_PROVIDERS.
+   *
+   * @type {string}
+   */
+  provider: string;
+
+  /**
+   * Subject identifier
+   *
+   * The `sub` claim of the provider, which identifies the account at the
+   * provider and never changes. Unique together with the provider.
+   *
+   * @type {string}
+   */
+  subject: string;
+
+  /**
+   * Email address reported by the provider
+   *
+   * Informational only, refreshed on every sign-in; null when the provider
+   * does not share a verified address.
+   *
+   * @type {string | null}
+   */
+  email: string | null;
+
+  /**
+   * Timestamp of the last sign-in with the identity
+   *
+   * @type {Date}
+   */
+  lastLoginAt: Date;
+
+  /**
+   * Creation timestamp
+   *
+   * Automatically set when the identity is linked.
+   * Managed by database layer.
+   *
+   * @type {Date}
+   * @optional
+   */
+  createdAt?: Date;
+
+  /**
+   * Last modification timestamp
+   *
+   * Automatically updated on every sign-in with the identity.
+   * Managed by database layer.
+   *
+   * @type {Date}
+   * @optional
+   */
+  updatedAt?: Date;
+}
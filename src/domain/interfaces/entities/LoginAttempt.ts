@@ -0,0 +1,90 @@
+/**
+ * LoginAttempt Entity
+ *
+ * Security entity tracking failed login attempts for a username. After too
+ * many consecutive failures the username is locked for a while; each new
+ * lockout lasts longer than the previous one. Attempts are tracked by
+ * username rather than user ID so unknown usernames behave like existing
+ * ones and do not reveal which accounts exist.
+ */
+export interface LoginAttempt {
+  /**
+   * Unique identifier for the login attempt record
+   *
+   * Primary key that uniquely identifies each record in the system.
+   *
+   * @type {string}
+   */
+  id: string;
+
+  /**
+   * Username the attempts were made with
+   *
+   * Not a foreign key: records also exist for usernames without an account.
+   *
+   * @type {string}
+   * @unique
+   */
+  username: string;
+
+  /**
+   * Consecutive failed attempts since the last lockout
+   *
+   * Reset to zero when the username gets locked.
+   *
+   * @type {number}
+   * @default 0
+   */
+  failedAttempts: number;
+
+  /**
+   * Number of lockouts applied so far
+   *
+   * Drives the exponential backoff of the lockout duration.
+   *
+   * @type {number}
+   * @default 0
+   */
+  lockouts: number;
+
+  /**
+   * End of the current lockout
+   *
+   * Login is refused for the username until this date; null when the
+   * username has never been locked.
+   *
+   * @type {Date | null}
+   */
+  lockedUntil: Date | null;
+
+  /**
+   * Timestamp of the last failed attempt
+   *
+   * Records are forgotten one day after the last failure.
+   *
+   * @type {Date}
+   */
+  lastFailedAt: Date;
+
+  /**
+   * Creation timestamp
+   *
+   * Automatically set when the first failed attempt is recorded.
+   * Managed by database layer.
+   *
+   * @type {Date}
+   * @optional
+   */
+  createdAt?: Date;
+
+  /**
+   * Last modification timestamp
+   *
+   * Automatically updated on every failed attempt or lockout.
+   * Managed by database layer.
+   *
+   * @type {Date}
+   * @optional
+   */
+  updatedAt?: Date;
+}
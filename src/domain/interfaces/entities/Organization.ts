@@ -0,0 +1,51 @@
+/**
+ * Organization Entity
+ *
+ * Business entity representing a team that owns projects. Projects of an
+ * organization belong to the team rather than to the member who created
+ * them, so they outlive the membership of any single user.
+ */
+export interface Organization {
+  /**
+   * Unique identifier for the organization
+   *
+   * Primary key that uniquely identifies each organization in the system.
+   *
+   * @type {string}
+   */
+  id: string;
+
+  /**
+   * Organization display name
+   *
+   * Human-readable name for the organization.
+   * Must be unique across all organizations.
+   * Constraints: 1-100 characters.
+   *
+   * @type {string}
+   * @constraints 1-100 characters, unique
+   */
+  name: string;
+
+  /**
+   * Creation timestamp
+   *
+   * Automatically set when the organization is created.
+   * Managed by database layer.
+   *
+   * @type {Date}
+   * @optional
+   */
+  createdAt?: Date;
+
+  /**
+   * Last modification timestamp
+   *
+   * Automatically updated whenever organization data is modified.
+   * Managed by database layer.
+   *
+   * @type {Date}
+   * @optional
+   */
+  updatedAt?: Date;
+}
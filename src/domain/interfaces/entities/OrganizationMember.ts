@@ -0,0 +1,80 @@
+/**
+ * Roles a user can hold in an organization, from the most to the least privileged
+ *
+ * Owners manage the organization itself, admins manage its members and
+ * projects, members work on its projects.
+ */
+export const ORGANIZATION_ROLES = ['owner', 'admin', 'member'] as const;
+
+/**
+ * Role of a user in an organization
+ */
+export type OrganizationRole = typeof ORGANIZATION_ROLES[number];
+
+/**
+ * OrganizationMember Entity
+ *
+ * Membership entity linking a user to an organization with a role. A user
+ * is a member of an organization at most once, and every organization keeps
+ * at least one owner.
+ */
+export interface OrganizationMember {
+  /**
+   * Unique identifier for the membership
+   *
+   * Primary key that uniquely identifies each membership in the system.
+   *
+   * @type {string}
+   */
+  id: string;
+
+  /**
+   * Organization identifier
+   *
+   * Foreign key linking to the Organization.
+   *
+   * @type {string}
+   * @foreignKey References Organization.id
+   */
+  organizationId: string;
+
+  /**
+   * Member user identifier
+   *
+   * Foreign key linking to the User belonging to the organization.
+   * Unique together with the organization identifier.
+   *
+   * @type {string}
+   * @foreignKey References User.id
+   */
+  userId: string;
+
+  /**
+   * Role of the member in the organization
+   *
+   * @type {OrganizationRole}
+   */
+  role: OrganizationRole;
+
+  /**
+   * Creation timestamp
+   *
+   * Set when the user joins the organization.
+   * Managed by database layer.
+   *
+   * @type {Date}
+   * @optional
+   */
+  createdAt?: Date;
+
+  /**
+   * Last modification timestamp
+   *
+   * Automatically updated whenever the role of the member changes.
+   * Managed by database layer.
+   *
+   * @type {Date}
+   * @optional
+   */
+  updatedAt?: Date;
+}
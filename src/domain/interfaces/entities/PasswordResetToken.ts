@@ -0,0 +1,82 @@
+/**
+ * PasswordResetToken Entity
+ * 
+ * Authentication entity representing a one-time token that lets a user
+ * choose a new password without knowing the current one. The token itself
+ * is only sent to the user; the database stores its hash. Reset tokens are
+ * short-lived and can be used a single time.
+ */
+export interface PasswordResetToken {
+  /**
+   * Unique identifier for the reset token
+   * 
+   * Primary key that uniquely identifies each reset token in the system.
+   * 
+   * @type {string}
+   */
+  id: string;
+
+  /**
+   * Owner user identifier
+   * 
+   * Foreign key linking to the User whose password the token can reset.
+   * 
+   * @type {string}
+   * @foreignKey References User.id
+   */
+  userId: string;
+
+  /**
+   * Hash of the reset token
+   * 
+   * SHA-256 hash of the token delivered to the user. The plain token is
+   * never stored, so a database leak does not allow resetting passwords.
+   * 
+   * @type {string}
+   * @unique
+   * @security Derived from sensitive authentication data
+   */
+  tokenHash: string;
+
+  /**
+   * Token expiration timestamp
+   * 
+   * Date and time after which the token can no longer be used.
+   * 
+   * @type {Date}
+   */
+  expiresAt: Date;
+
+  /**
+   * Token usage flag
+   * 
+   * Indicates whether the token has been used or invalidated (e.g. by a
+   * newer reset request). Used tokens cannot be used again.
+   * 
+   * @type {boolean}
+   * @default false
+   */
+  isUsed: boolean;
+
+  /**
+   * Creation timestamp
+   * 
+   * Automatically set when the reset token is created.
+   * Managed by database layer.
+   * 
+   * @type {Date}
+   * @optional
+   */
+  createdAt?: Date;
+
+  /**
+   * Last modification timestamp
+   * 
+   * Automatically updated whenever token data is modified (e.g. usage).
+   * Managed by database layer.
+   * 
+   * @type {Date}
+   * @optional
+   */
+  updatedAt?: Date;
+}
@@ -1,9 +1,10 @@
 /**
  * Project Entity
  * 
- * Business entity representing user projects with Git repositories.
- * Each project belongs to exactly one user and contains project metadata
- * including name and Git repository information.
+ * Business entity representing projects with Git repositories.
+ * Each project belongs either to the user who created it or to an
+ * organization, and contains project metadata including name and Git
+ * repository information.
  */
 export interface Project {
   /**
@@ -19,11 +20,12 @@ export interface Project {
    * Project display name
    * 
    * Human-readable name for the project.
-   * Must be unique per user (same user cannot have multiple projects with same name).
+   * Must be unique per owner (the same user or organization cannot have
+   * multiple projects with same name).
    * Constraints: 1-100 characters.
    * 
    * @type {string}
-   * @constraints 1-100 characters, unique per user
+   * @constraints 1-100 characters, unique per owner
    */
   name: string;
 
@@ -38,9 +40,10 @@ export interface Project {
   gitUrl: string;
 
   /**
-   * Owner user identifier
+   * Creator user identifier
    * 
-   * Foreign key linking to the User who owns this project.
+   * Foreign key linking to the User who created this project, who owns it
+   * unless it belongs to an organization.
    * Used for ownership validation and access control.
    * 
    * @type {string}
@@ -48,6 +51,17 @@ export interface Project {
    */
   userId: string;
 
+  /**
+   * Owner organization identifier
+   * 
+   * Foreign key linking to the Organization owning this project, or null
+   * for personal projects owned by their creator.
+   * 
+   * @type {string | null}
+   * @foreignKey References Organization.id
+   */
+  organizationId: string | null;
+
   /**
    * Creation timestamp
    * 
@@ -0,0 +1,90 @@
+/**
+ * Roles a user can hold on a project, from the most to the least privileged
+ *
+ * The owner is the user the project belongs to (Project.userId); maintainers
+ * and viewers are collaborators the owner has shared the project with.
+ */
+export const PROJECT_ROLES = ['owner', 'maintainer', 'viewer'] as const;
+
+/**
+ * Role of a user on a project
+ */
+export type ProjectRole = typeof PROJECT_ROLES[number];
+
+/**
+ * Roles that can be granted to collaborators: ownership is not shared
+ */
+export const PROJECT_MEMBER_ROLES = ['maintainer', 'viewer'] as const;
+
+/**
+ * Role of a collaborator on a project
+ */
+export type ProjectMemberRole = typeof PROJECT_MEMBER_ROLES[number];
+
+/**
+ * ProjectMember Entity
+ *
+ * Collaboration entity granting a user other than the owner access to a
+ * project. A user is a member of a project at most once; viewers can read
+ * the project, maintainers can also update it.
+ */
+export interface ProjectMember {
+  /**
+   * Unique identifier for the membership
+   *
+   * Primary key that uniquely identifies each membership in the system.
+   *
+   * @type {string}
+   */
+  id: string;
+
+  /**
+   * Project identifier
+   *
+   * Foreign key linking to the shared Project.
+   *
+   * @type {string}
+   * @foreignKey References Project.id
+   */
+  projectId: string;
+
+  /**
+   * Member user identifier
+   *
+   * Foreign key linking to the User the project is shared with.
+   * Unique together with the project identifier.
+   *
+   * @type {string}
+   * @foreignKey References User.id
+   */
+  userId: string;
+
+  /**
+   * Role granted to the member
+   *
+   * @type {ProjectMemberRole}
+   */
+  role: ProjectMemberRole;
+
+  /**
+   * Creation timestamp
+   *
+   * Set when the user is added to the project.
+   * Managed by database layer.
+   *
+   * @type {Date}
+   * @optional
+   */
+  createdAt?: Date;
+
+  /**
+   * Last modification timestamp
+   *
+   * Automatically updated whenever the role of the member changes.
+   * Managed by database layer.
+   *
+   * @type {Date}
+   * @optional
+   */
+  updatedAt?: Date;
+}
@@ -0,0 +1,72 @@
+/**
+ * ProjectTransfer Entity
+ *
+ * Pending request to move a project to another user. The project changes
+ * hands only once the recipient accepts, so nobody becomes the owner of a
+ * project they did not ask for. A project has at most one pending transfer;
+ * a new request replaces the previous one.
+ */
+export interface ProjectTransfer {
+  /**
+   * Unique identifier for the transfer
+   *
+   * Primary key that uniquely identifies each transfer in the system.
+   *
+   * @type {string}
+   */
+  id: string;
+
+  /**
+   * Project identifier
+   *
+   * Foreign key linking to the Project being transferred.
+   * Unique: a project has at most one pending transfer.
+   *
+   * @type {string}
+   * @foreignKey References Project.id
+   * @unique
+   */
+  projectId: string;
+
+  /**
+   * Requesting user identifier
+   *
+   * Foreign key linking to the User who requested the transfer as owner of
+   * the project.
+   *
+   * @type {string}
+   * @foreignKey References User.id
+   */
+  fromUserId: string;
+
+  /**
+   * Recipient user identifier
+   *
+   * Foreign key linking to the User the project is offered to.
+   *
+   * @type {string}
+   * @foreignKey References User.id
+   */
+  toUserId: string;
+
+  /**
+   * Creation timestamp
+   *
+   * Set when the transfer is requested.
+   * Managed by database layer.
+   *
+   * @type {Date}
+   * @optional
+   */
+  createdAt?: Date;
+
+  /**
+   * Last modification timestamp
+   *
+   * Managed by database layer.
+   *
+   * @type {Date}
+   * @optional
+   */
+  updatedAt?: Date;
+}
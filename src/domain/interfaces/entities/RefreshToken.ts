@@ -28,17 +28,28 @@ export interface RefreshToken {
   userId: string;
 
   /**
-   * JWT refresh token string
+   * Token family identifier
    * 
-   * The actual JWT refresh token used for obtaining new access tokens.
-   * Must be unique across all refresh tokens to prevent conflicts.
-   * Contains encoded user information and longer expiration data.
+   * Identifier shared by every refresh token issued from the same login.
+   * A new family is started at login/registration and inherited by each
+   * rotated token, so a replayed (already revoked) token can be traced back
+   * to its lineage and the whole family revoked.
+   * 
+   * @type {string}
+   */
+  familyId: string;
+
+  /**
+   * Token hash
+   * 
+   * SHA-256 hash of the JWT refresh token, used to look the token up. Only the
+   * hash is stored: the token itself never reaches the database.
+   * Must be unique across all refresh tokens.
    * 
    * @type {string}
    * @unique
-   * @security Contains sensitive authentication data
    */
-  token: string;
+  tokenHash: string;
 
   /**
    * Token expiration timestamp
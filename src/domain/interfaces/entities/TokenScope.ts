@@ -0,0 +1,13 @@
+/**
+ * Scopes limiting what a credential can be used for
+ *
+ * Access tokens and API keys carry scopes, and routes declare the scope they
+ * need. Access tokens get every scope unless fewer are requested at login;
+ * API keys only get the scopes chosen when they are created.
+ */
+export const TOKEN_SCOPES = ['project:read', 'project:write', 'org:read', 'org:write'] as const;
+
+/**
+ * Scope granted to an access token or API key
+ */
+export type TokenScope = typeof TOKEN_SCOPES[number];
@@ -0,0 +1,95 @@
+/**
+ * TotpCredential Entity
+ * 
+ * Authentication entity holding the TOTP two-factor authentication setup of
+ * a user. A credential starts pending when the user enrolls and only protects
+ * logins once the user confirmed it with a first code from the authenticator
+ * app. Each user has at most one credential.
+ */
+export interface TotpCredential {
+  /**
+   * Unique identifier for the credential
+   * 
+   * Primary key that uniquely identifies each credential in the system.
+   * 
+   * @type {string}
+   */
+  id: string;
+
+  /**
+   * Owner user identifier
+   * 
+   * Foreign key linking to the User protected by this credential.
+   * 
+   * @type {string}
+   * @foreignKey References User.id
+   * @unique
+   */
+  userId: string;
+
+  /**
+   * Shared secret
+   * 
+   * Base32 encoded secret shared with the authenticator app. It must be
+   * readable to verify codes, so unlike tokens it cannot be hashed.
+   * 
+   * @type {string}
+   * @security Highly sensitive authentication data
+   */
+  secret: string;
+
+  /**
+   * Confirmation flag
+   * 
+   * Set once the user entered a valid code after enrolling. Only confirmed
+   * credentials are required at login.
+   * 
+   * @type {boolean}
+   * @default false
+   */
+  isConfirmed: boolean;
+
+  /**
+   * Last used time step
+   * 
+   * Time step of the last accepted code. Codes of this or an earlier step
+   * are refused, so an observed code cannot be replayed.
+   * 
+   * @type {number}
+   * @default 0
+   */
+  lastUsedStep: number;
+
+  /**
+   * Hashes of the unused recovery codes
+   * 
+   * SHA-256 hashes of the one-time recovery codes generated at enrollment.
+   * A code is removed from the list when it is used.
+   * 
+   * @type {string[]}
+   * @security Derived from sensitive authentication data
+   */
+  recoveryCodeHashes: string[];
+
+  /**
+   * Creation timestamp
+   * 
+   * Automatically set when the user enrolls.
+   * Managed by database layer.
+   * 
+   * @type {Date}
+   * @optional
+   */
+  createdAt?: Date;
+
+  /**
+   * Last modification timestamp
+   * 
+   * Automatically updated on confirmation, code usage and recovery code usage.
+   * Managed by database layer.
+   * 
+   * @type {Date}
+   * @optional
+   */
+  updatedAt?: Date;
+}
@@ -1,3 +1,11 @@
+/**
+ * Role granted to a user
+ * 
+ * Every user holds `user`; `admin` unlocks administrative routes.
+ * Extend this union when the application needs additional roles.
+ */
+export type UserRole = 'user' | 'admin';
+
 /**
  * User Entity
  * 
@@ -37,6 +45,49 @@ export interface User {
    */
   password: string;
 
+  /**
+   * Email address of the user
+   * 
+   * Optional. Unique across all users once verified: until then several
+   * users may claim the same address. Stored in lower case.
+   * Can be used instead of the username to log in once verified.
+   * 
+   * @type {string | null}
+   * @unique
+   */
+  email: string | null;
+
+  /**
+   * Email verified flag
+   * 
+   * Set once the user opens the verification link sent to their email
+   * address. Login can be restricted to users with a verified email.
+   * 
+   * @type {boolean}
+   * @default false
+   */
+  isEmailVerified: boolean;
+
+  /**
+   * Roles granted to the user
+   * 
+   * Embedded in issued JWTs and checked by role-protected routes.
+   * New users receive the `user` role.
+   * 
+   * @type {UserRole[]}
+   */
+  roles: UserRole[];
+
+  /**
+   * Account disabled flag
+   * 
+   * Set by administrators. Disabled users cannot log in or refresh tokens.
+   * 
+   * @type {boolean}
+   * @default false
+   */
+  isDisabled: boolean;
+
   /**
    * Creation timestamp
    * 
@@ -0,0 +1,92 @@
+/**
+ * UserSession Entity
+ * 
+ * Authentication entity representing a login session on a specific device.
+ * A session is started at login or registration and groups every access and
+ * refresh token issued for it: the session identifier is used as the token
+ * family identifier. Revoking a session revokes its whole token family.
+ */
+export interface UserSession {
+  /**
+   * Unique identifier for the session
+   * 
+   * Primary key that uniquely identifies each session in the system.
+   * Also used as `familyId` of the tokens issued for the session.
+   * 
+   * @type {string}
+   */
+  id: string;
+
+  /**
+   * Owner user identifier
+   * 
+   * Foreign key linking to the User who opened this session.
+   * 
+   * @type {string}
+   * @foreignKey References User.id
+   */
+  userId: string;
+
+  /**
+   * Client user agent
+   * 
+   * User-Agent header sent by the client when the session was started.
+   * Helps users recognise their devices when reviewing active sessions.
+   * 
+   * @type {string}
+   */
+  userAgent: string;
+
+  /**
+   * Client IP address
+   * 
+   * IP address of the client when the session was started
+   * (resolved through the trusted proxy configuration).
+   * 
+   * @type {string}
+   */
+  ip: string;
+
+  /**
+   * Last activity timestamp
+   * 
+   * Date and time when the session was last used to obtain tokens.
+   * Updated at every token refresh.
+   * 
+   * @type {Date}
+   */
+  lastUsedAt: Date;
+
+  /**
+   * Session revocation flag
+   * 
+   * Indicates whether this session has been terminated (logout, remote
+   * revocation, refresh token reuse). Revoked sessions cannot be used again.
+   * 
+   * @type {boolean}
+   * @default false
+   */
+  isRevoked: boolean;
+
+  /**
+   * Creation timestamp
+   * 
+   * Automatically set when the session is created.
+   * Managed by database layer.
+   * 
+   * @type {Date}
+   * @optional
+   */
+  createdAt?: Date;
+
+  /**
+   * Last modification timestamp
+   * 
+   * Automatically updated whenever session data is modified.
+   * Managed by database layer.
+   * 
+   * @type {Date}
+   * @optional
+   */
+  updatedAt?: Date;
+}
@@ -4,10 +4,36 @@ import { UserDAO } from '../interfaces/dao/UserDAO';
 import { AccessTokenDAO } from '../interfaces/dao/AccessTokenDAO';
 import { RefreshTokenDAO } from '../interfaces/dao/RefreshTokenDAO';
 import { ProjectDAO } from '../interfaces/dao/ProjectDAO';
+import { UserSessionDAO } from '../interfaces/dao/UserSessionDAO';
+import { PasswordResetTokenDAO } from '../interfaces/dao/PasswordResetTokenDAO';
+import { EmailVerificationTokenDAO } from '../interfaces/dao/EmailVerificationTokenDAO';
+import { LoginAttemptDAO } from '../interfaces/dao/LoginAttemptDAO';
+import { TotpCredentialDAO } from '../interfaces/dao/TotpCredentialDAO';
+import { LinkedIdentityDAO } from '../interfaces/dao/LinkedIdentityDAO';
+import { ApiKeyDAO } from '../interfaces/dao/ApiKeyDAO';
+import { JobLockDAO } from '../interfaces/dao/JobLockDAO';
+import { AuditLogDAO } from '../interfaces/dao/AuditLogDAO';
+import { ProjectMemberDAO } from '../interfaces/dao/ProjectMemberDAO';
+import { OrganizationDAO } from '../interfaces/dao/OrganizationDAO';
+import { OrganizationMemberDAO } from '../interfaces/dao/OrganizationMemberDAO';
+import { ProjectTransferDAO } from '../interfaces/dao/ProjectTransferDAO';
 import { UserDAOMongoDB } from './dao/UserDAOMongoDB';
 import { AccessTokenDAOMongoDB } from './dao/AccessTokenDAOMongoDB';
 import { RefreshTokenDAOMongoDB } from './dao/RefreshTokenDAOMongoDB';
 import { ProjectDAOMongoDB } from './dao/ProjectDAOMongoDB';
+import { UserSessionDAOMongoDB } from './dao/UserSessionDAOMongoDB';
+import { PasswordResetTokenDAOMongoDB } from './dao/PasswordResetTokenDAOMongoDB';
+import { EmailVerificationTokenDAOMongoDB } from './dao/EmailVerificationTokenDAOMongoDB';
+import { LoginAttemptDAOMongoDB } from './dao/LoginAttemptDAOMongoDB';
+import { TotpCredentialDAOMongoDB } from './dao/TotpCredentialDAOMongoDB';
+import { LinkedIdentityDAOMongoDB } from './dao/LinkedIdentityDAOMongoDB';
+import { ApiKeyDAOMongoDB } from './dao/ApiKeyDAOMongoDB';
+import { JobLockDAOMongoDB } from './dao/JobLockDAOMongoDB';
+import { AuditLogDAOMongoDB } from './dao/AuditLogDAOMongoDB';
+import { ProjectMemberDAOMongoDB } from './dao/ProjectMemberDAOMongoDB';
+import { OrganizationDAOMongoDB } from './dao/OrganizationDAOMongoDB';
+import { OrganizationMemberDAOMongoDB } from './dao/OrganizationMemberDAOMongoDB';
+import { ProjectTransferDAOMongoDB } from './dao/ProjectTransferDAOMongoDB';
 
 /**
  * MongoDB implementation of the ContainerDAO interface
@@ -26,6 +52,19 @@ export class ContainerDAOMongoDB implements ContainerDAO<ClientSession> {
   private readonly _accessTokenDAO: AccessTokenDAO<ClientSession>;
   private readonly _refreshTokenDAO: RefreshTokenDAO<ClientSession>;
   private readonly _projectDAO: ProjectDAO<ClientSession>;
+  private readonly _userSessionDAO: UserSessionDAO<ClientSession>;
+  private readonly _passwordResetTokenDAO: PasswordResetTokenDAO<ClientSession>;
+  private readonly _emailVerificationTokenDAO: EmailVerificationTokenDAO<ClientSession>;
+  private readonly _loginAttemptDAO: LoginAttemptDAO<ClientSession>;
+  private readonly _totpCredentialDAO: TotpCredentialDAO<ClientSession>;
+  private readonly _linkedIdentityDAO: LinkedIdentityDAO<ClientSession>;
+  private readonly _apiKeyDAO: ApiKeyDAO<ClientSession>;
+  private readonly _jobLockDAO: JobLockDAO;
+  private readonly _auditLogDAO: AuditLogDAO<ClientSession>;
+  private readonly _projectMemberDAO: ProjectMemberDAO<ClientSession>;
+  private readonly _organizationDAO: OrganizationDAO<ClientSession>;
+  private readonly _organizationMemberDAO: OrganizationMemberDAO<ClientSession>;
+  private readonly _projectTransferDAO: ProjectTransferDAO<ClientSession>;
 
   /**
    * Initialize MongoDB DAO container
@@ -39,6 +78,19 @@ export class ContainerDAOMongoDB implements ContainerDAO<ClientSession> {
     this._accessTokenDAO = new AccessTokenDAOMongoDB();
     this._refreshTokenDAO = new RefreshTokenDAOMongoDB();
     this._projectDAO = new ProjectDAOMongoDB();
+    this._userSessionDAO = new UserSessionDAOMongoDB();
+    this._passwordResetTokenDAO = new PasswordResetTokenDAOMongoDB();
+    this._emailVerificationTokenDAO = new EmailVerificationTokenDAOMongoDB();
+    this._loginAttemptDAO = new LoginAttemptDAOMongoDB();
+    this._totpCredentialDAO = new TotpCredentialDAOMongoDB();
+    this._linkedIdentityDAO = new LinkedIdentityDAOMongoDB();
+    this._apiKeyDAO = new ApiKeyDAOMongoDB();
+    this._jobLockDAO = new JobLockDAOMongoDB();
+    this._auditLogDAO = new AuditLogDAOMongoDB();
+    this._projectMemberDAO = new ProjectMemberDAOMongoDB();
+    this._organizationDAO = new OrganizationDAOMongoDB();
+    this._organizationMemberDAO = new OrganizationMemberDAOMongoDB();
+    this._projectTransferDAO = new ProjectTransferDAOMongoDB();
   }
 
   /**
@@ -76,4 +128,121 @@ export class ContainerDAOMongoDB implements ContainerDAO<ClientSession> {
   public get projectDAO(): ProjectDAO<ClientSession> {
     return this._projectDAO;
   }
+
+  /**
+   * Get UserSession DAO instance
+   * 
+   * @returns {UserSessionDAO<ClientSession>} MongoDB implementation of UserSession data access
+   */
+  public get userSessionDAO(): UserSessionDAO<ClientSession> {
+    return this._userSessionDAO;
+  }
+
+  /**
+   * Get PasswordResetToken DAO instance
+   * 
+   * @returns {PasswordResetTokenDAO<ClientSession>} MongoDB implementation of PasswordResetToken data access
+   */
+  public get passwordResetTokenDAO(): PasswordResetTokenDAO<ClientSession> {
+    return this._passwordResetTokenDAO;
+  }
+
+  /**
+   * Get EmailVerificationToken DAO instance
+   * 
+   * @returns {EmailVerificationTokenDAO<ClientSession>} MongoDB implementation of EmailVerificationToken data access
+   */
+  public get emailVerificationTokenDAO(): EmailVerificationTokenDAO<ClientSession> {
+    return this._emailVerificationTokenDAO;
+  }
+
+  /**
+   * Get LoginAttempt DAO instance
+   * 
+   * @returns {LoginAttemptDAO<ClientSession>} MongoDB implementation of LoginAttempt data access
+   */
+  public get loginAttemptDAO(): LoginAttemptDAO<ClientSession> {
+    return this._loginAttemptDAO;
+  }
+
+  /**
+   * Get TotpCredential DAO instance
+   * 
+   * @returns {TotpCredentialDAO<ClientSession>} MongoDB implementation of TotpCredential data access
+   */
+  public get totpCredentialDAO(): TotpCredentialDAO<ClientSession> {
+    return this._totpCredentialDAO;
+  }
+
+  /**
+   * Get LinkedIdentity DAO instance
+   * 
+   * @returns {LinkedIdentityDAO<ClientSession>} MongoDB implementation of LinkedIdentity data access
+   */
+  public get linkedIdentityDAO(): LinkedIdentityDAO<ClientSession> {
+    return this._linkedIdentityDAO;
+  }
+
+  /**
+   * Get ApiKey DAO instance
+   * 
+   * @returns {ApiKeyDAO<ClientSession>} MongoDB implementation of ApiKey data access
+   */
+  public get apiKeyDAO(): ApiKeyDAO<ClientSession> {
+    return this._apiKeyDAO;
+  }
+
+  /**
+   * Get JobLock DAO instance
+   * 
+   * @returns {JobLockDAO} MongoDB implementation of JobLock data access
+   */
+  public get jobLockDAO(): JobLockDAO {
+    return this._jobLockDAO;
+  }
+
+  /**
+   * Get AuditLog DAO instance
+   * 
+   * @returns {AuditLogDAO<ClientSession>} MongoDB implementation of AuditLog data access
+   */
+  public get auditLogDAO(): AuditLogDAO<ClientSession> {
+    return this._auditLogDAO;
+  }
+
+  /**
+   * Get ProjectMember DAO instance
+   * 
+   * @returns {ProjectMemberDAO<ClientSession>} MongoDB implementation of ProjectMember data access
+   */
+  public get projectMemberDAO(): ProjectMemberDAO<ClientSession> {
+    return this._projectMemberDAO;
+  }
+
+  /**
+   * Get Organization DAO instance
+   * 
+   * @returns {OrganizationDAO<ClientSession>} MongoDB implementation of Organization data access
+   */
+  public get organizationDAO(): OrganizationDAO<ClientSession> {
+    return this._organizationDAO;
+  }
+
+  /**
+   * Get OrganizationMember DAO instance
+   * 
+   * @returns {OrganizationMemberDAO<ClientSession>} MongoDB implementation of OrganizationMember data access
+   */
+  public get organizationMemberDAO(): OrganizationMemberDAO<ClientSession> {
+    return this._organizationMemberDAO;
+  }
+
+  /**
+   * Get ProjectTransfer DAO instance
+   * 
+   * @returns {ProjectTransferDAO<ClientSession>} MongoDB implementation of ProjectTransfer data access
+   */
+  public get projectTransferDAO(): ProjectTransferDAO<ClientSession> {
+    return this._projectTransferDAO;
+  }
 }
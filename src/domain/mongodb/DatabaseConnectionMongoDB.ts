@@ -3,6 +3,11 @@ import { DatabaseConnection } from '../interfaces/DatabaseConnection';
 import { EnvVars } from '../../setup/EnvVars';
 import winston from 'winston';
 import { MongoClient } from 'mongodb';
+import { AccessTokenMongoDB } from './entities/AccessTokenMongoDB';
+import { RefreshTokenMongoDB } from './entities/RefreshTokenMongoDB';
+import { migrateLegacyTokenRecords } from './utils/BaseTokenMongoDB';
+import { migrateProjectOwners } from './entities/ProjectMongoDB';
+import { migrateUserEmailIndex } from './entities/UserMongoDB';
 
 /**
  * MongoDB implementation of the DatabaseConnection interface
@@ -72,6 +77,10 @@ export class DatabaseConnectionMongoDB implements DatabaseConnection {
       this.isConnected = true;
       logger.info('Connected to MongoDB at ' + mongoUri);
 
+      await this.migrateTokenCollections(logger);
+      await this.migrateProjectCollection(logger);
+      await this.migrateUserCollection(logger);
+
       // Set up connection event listeners for monitoring
       mongoose.connection.on('error', (error) => {
         logger.error('MongoDB connection error at ' + mongoUri + ':', error);
@@ -93,6 +102,51 @@ export class DatabaseConnectionMongoDB implements DatabaseConnection {
     }
   }
 
+  /**
+   * Migrate the access and refresh token collections to records keyed by token hash
+   * 
+   * Legacy records stored the whole token or its `jti` claim: they are deleted,
+   * so their owners have to log in again.
+   * 
+   * @param {winston.Logger} logger - Logger instance reporting the deleted records
+   * @returns {Promise<void>} Resolves when both collections are migrated
+   */
+  private async migrateTokenCollections(logger: winston.Logger): Promise<void> {
+    const deletedAccessTokens = await migrateLegacyTokenRecords(AccessTokenMongoDB);
+    const deletedRefreshTokens = await migrateLegacyTokenRecords(RefreshTokenMongoDB);
+    if (deletedAccessTokens > 0 || deletedRefreshTokens > 0) {
+      logger.info('Deleted token records stored before token hashes', { deletedAccessTokens, deletedRefreshTokens });
+    }
+  }
+
+  /**
+   * Migrate the projects collection to project names unique per owner
+   * 
+   * Projects stored before organizations are owned by their creator.
+   * 
+   * @param {winston.Logger} logger - Logger instance reporting the migrated projects
+   * @returns {Promise<void>} Resolves when the collection is migrated
+   */
+  private async migrateProjectCollection(logger: winston.Logger): Promise<void> {
+    const migratedProjects = await migrateProjectOwners();
+    if (migratedProjects > 0) {
+      logger.info('Assigned owners to projects stored before organizations', { migratedProjects });
+    }
+  }
+
+  /**
+   * Migrate the users collection to email addresses unique once verified
+   * 
+   * @param {winston.Logger} logger - Logger instance reporting the dropped index
+   * @returns {Promise<void>} Resolves when the collection is migrated
+   */
+  private async migrateUserCollection(logger: winston.Logger): Promise<void> {
+    const droppedIndexes = await migrateUserEmailIndex();
+    if (droppedIndexes > 0) {
+      logger.info('Dropped the unique index on unverified email addresses', { droppedIndexes });
+    }
+  }
+
   /**
    * Disconnect from MongoDB database
    * 
@@ -3,7 +3,8 @@ import { AccessTokenMongoDB, AccessTokenMongoDBInterface } from '../entities/Acc
 import { AccessToken } from '../../interfaces/entities/AccessToken';
 import { AccessTokenDAO } from '../../interfaces/dao/AccessTokenDAO';
 import { DatabaseSession } from '../../interfaces/DatabaseSession';
-import { extractUserIdString } from '../utils/MongoDBErrorUtils';
+import { extractUserIdString, validateMongoObjectId } from '../utils/MongoDBErrorUtils';
+import { hashToken } from '../utils/BaseTokenMongoDB';
 
 /**
  * MongoDB implementation of the AccessTokenDAO interface
@@ -28,7 +29,9 @@ export class AccessTokenDAOMongoDB implements AccessTokenDAO<ClientSession> {
     return {
       id: (doc._id as mongoose.Types.ObjectId).toString(),
       userId: userIdString,
-      token: doc.token,
+      // Tokens stored before families were introduced form a family of their own
+      familyId: doc.familyId ?? (doc._id as mongoose.Types.ObjectId).toString(),
+      tokenHash: doc.tokenHash,
       expiresAt: doc.expiresAt,
       isRevoked: doc.isRevoked,
       createdAt: doc.createdAt,
@@ -44,7 +47,8 @@ export class AccessTokenDAOMongoDB implements AccessTokenDAO<ClientSession> {
    * 
    * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
    * @param {string} userId - User ID associated with the token
-   * @param {string} token - JWT access token string (must be unique)
+   * @param {string} familyId - Token family identifier
+   * @param {string} token - JWT access token string, stored as its hash (must be unique)
    * @param {Date} expiresAt - Token expiration date
    * @param {number} now - Current timestamp for createdAt/updatedAt
    * @returns {Promise<AccessToken>} Created access token entity
@@ -52,6 +56,7 @@ export class AccessTokenDAOMongoDB implements AccessTokenDAO<ClientSession> {
   public async createAccessToken(
     session: DatabaseSession<ClientSession>,
     userId: string,
+    familyId: string,
     token: string,
     expiresAt: Date,
     now: number
@@ -59,7 +64,8 @@ export class AccessTokenDAOMongoDB implements AccessTokenDAO<ClientSession> {
     const currentDate = new Date(now);
     const savedToken = await new AccessTokenMongoDB({
       userId,
-      token,
+      familyId,
+      tokenHash: hashToken(token),
       expiresAt,
       createdAt: currentDate,
       updatedAt: currentDate
@@ -74,12 +80,12 @@ export class AccessTokenDAOMongoDB implements AccessTokenDAO<ClientSession> {
    * Retrieves non-revoked access token with user information populated.
    * Filters out revoked tokens for security.
    * 
-   * @param {string} token - JWT access token string to find
+   * @param {string} token - JWT access token string to find, looked up by its hash
    * @returns {Promise<AccessToken | null>} Access token with user data or null if not found
    */
   public async findAccessToken(token: string): Promise<AccessToken | null> {
     const accessToken = await AccessTokenMongoDB.findOne({
-      token, 
+      tokenHash: hashToken(token),
       isRevoked: false 
     }).populate('userId').exec();
 
@@ -93,21 +99,118 @@ export class AccessTokenDAOMongoDB implements AccessTokenDAO<ClientSession> {
    * multiple times - returns false if token doesn't exist.
    * 
    * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
-   * @param {string} token - JWT access token string to revoke
+   * @param {string} token - JWT access token string to revoke, looked up by its hash
    * @param {number} now - Current timestamp for updatedAt field
    * @returns {Promise<boolean>} true if token was found and revoked, false if not found
    */
   public async revokeAccessToken(
     session: DatabaseSession<ClientSession>, 
-    token: string, 
+    token: string,
     now: number
   ): Promise<boolean> {
     const result = await AccessTokenMongoDB.updateOne(
-      { token },
+      { tokenHash: hashToken(token) },
       { isRevoked: true, updatedAt: new Date(now) },
       { session: session.session }
     );
 
     return result.modifiedCount > 0;
   }
+
+  /**
+   * Revoke all access tokens of a token family
+   * 
+   * Marks every non-revoked access token of the family as revoked in a
+   * single update.
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} familyId - Token family identifier
+   * @param {number} now - Current timestamp for updatedAt field
+   * @returns {Promise<number>} Number of tokens revoked
+   */
+  public async revokeAccessTokenFamily(
+    session: DatabaseSession<ClientSession>,
+    familyId: string,
+    now: number
+  ): Promise<number> {
+    const result = await AccessTokenMongoDB.updateMany(
+      { familyId, isRevoked: false },
+      { isRevoked: true, updatedAt: new Date(now) },
+      { session: session.session }
+    );
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Revoke all access tokens of a user
+   * 
+   * Marks every non-revoked access token of the user as revoked in a
+   * single update.
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @param {number} now - Current timestamp for updatedAt field
+   * @param {string} [exceptFamilyId] - Optional token family whose tokens are kept
+   * @returns {Promise<number>} Number of tokens revoked
+   * 
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async revokeAllUserAccessTokens(
+    session: DatabaseSession<ClientSession>,
+    userId: string,
+    now: number,
+    exceptFamilyId?: string
+  ): Promise<number> {
+    validateMongoObjectId(userId, 'user');
+    const result = await AccessTokenMongoDB.updateMany(
+      {
+        userId: new mongoose.Types.ObjectId(userId),
+        isRevoked: false,
+        ...(exceptFamilyId ? { familyId: { $ne: exceptFamilyId } } : {})
+      },
+      { isRevoked: true, updatedAt: new Date(now) },
+      { session: session.session }
+    );
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Clean expired access tokens
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {Date} expirationDate - Date threshold for token cleanup
+   * @returns {Promise<number>} Number of access tokens deleted
+   */
+  public async cleanExpiredAccessTokens(
+    session: DatabaseSession<ClientSession>,
+    expirationDate: Date
+  ): Promise<number> {
+    const result = await AccessTokenMongoDB.deleteMany(
+      { expiresAt: { $lt: expirationDate } },
+      { session: session.session }
+    ).exec();
+
+    return result.deletedCount;
+  }
+
+  /**
+   * Delete all access tokens of a user
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @returns {Promise<number>} Number of access tokens deleted
+   * 
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async deleteAllUserAccessTokens(session: DatabaseSession<ClientSession>, userId: string): Promise<number> {
+    validateMongoObjectId(userId, 'user');
+    const result = await AccessTokenMongoDB.deleteMany(
+      { userId: new mongoose.Types.ObjectId(userId) },
+      { session: session.session }
+    ).exec();
+
+    return result.deletedCount;
+  }
 }
@@ -0,0 +1,187 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { ApiKeyMongoDB, ApiKeyMongoDBInterface } from '../entities/ApiKeyMongoDB';
+import { ApiKey } from '../../interfaces/entities/ApiKey';
+import { TokenScope } from '../../interfaces/entities/TokenScope';
+import { ApiKeyDAO } from '../../interfaces/dao/ApiKeyDAO';
+import { DatabaseSession } from '../../interfaces/DatabaseSession';
+import { validateMongoObjectId } from '../utils/MongoDBErrorUtils';
+
+/** Minimum time between two recorded uses of a key in milliseconds */
+const USAGE_RECORD_INTERVAL_MS = 60 * 1000;
+
+/**
+ * MongoDB implementation of the ApiKeyDAO interface
+ *
+ * @implements {ApiKeyDAO<ClientSession>}
+ */
+export class ApiKeyDAOMongoDB implements ApiKeyDAO<ClientSession> {
+
+  /**
+   * Convert MongoDB document to ApiKey interface
+   *
+   * @param {ApiKeyMongoDBInterface} doc - MongoDB API key document
+   * @returns {ApiKey} Clean API key entity with string IDs
+   */
+  private documentToApiKey(doc: ApiKeyMongoDBInterface): ApiKey {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      userId: doc.userId.toString(),
+      name: doc.name,
+      tokenHash: doc.tokenHash,
+      tokenPrefix: doc.tokenPrefix,
+      scopes: [...doc.scopes],
+      expiresAt: doc.expiresAt,
+      lastUsedAt: doc.lastUsedAt,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+
+  /**
+   * Create a new API key
+   *
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - Owner's user ID (MongoDB ObjectId as string)
+   * @param {string} name - Display name of the key
+   * @param {string} tokenHash - SHA-256 hash of the token
+   * @param {string} tokenPrefix - First characters of the token
+   * @param {TokenScope[]} scopes - Scopes granted to the key
+   * @param {Date | null} expiresAt - Expiration date, or null for keys that do not expire
+   * @param {number} now - Current timestamp for createdAt/updatedAt
+   * @returns {Promise<ApiKey>} Created API key
+   *
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async createApiKey(
+    session: DatabaseSession<ClientSession>,
+    userId: string,
+    name: string,
+    tokenHash: string,
+    tokenPrefix: string,
+    scopes: TokenScope[],
+    expiresAt: Date | null,
+    now: number
+  ): Promise<ApiKey> {
+    validateMongoObjectId(userId, 'user');
+
+    const currentDate = new Date(now);
+    const savedApiKey = await new ApiKeyMongoDB({
+      userId: new mongoose.Types.ObjectId(userId),
+      name,
+      tokenHash,
+      tokenPrefix,
+      scopes,
+      expiresAt,
+      lastUsedAt: null,
+      createdAt: currentDate,
+      updatedAt: currentDate
+    }).save({ session: session.session });
+
+    return this.documentToApiKey(savedApiKey);
+  }
+
+  /**
+   * Find API key by token hash
+   *
+   * @param {string} tokenHash - SHA-256 hash of the presented token
+   * @returns {Promise<ApiKey | null>} API key or null if not found
+   */
+  public async findByTokenHash(tokenHash: string): Promise<ApiKey | null> {
+    const apiKey = await ApiKeyMongoDB.findOne({ tokenHash }).exec();
+    return apiKey ? this.documentToApiKey(apiKey) : null;
+  }
+
+  /**
+   * Find API key by ID
+   *
+   * @param {string} apiKeyId - API key's MongoDB ObjectId as string
+   * @returns {Promise<ApiKey | null>} API key or null if not found
+   *
+   * @throws {AppError} If API key ID format is invalid
+   */
+  public async findById(apiKeyId: string): Promise<ApiKey | null> {
+    validateMongoObjectId(apiKeyId, 'API key');
+    const apiKey = await ApiKeyMongoDB.findById(apiKeyId).exec();
+    return apiKey ? this.documentToApiKey(apiKey) : null;
+  }
+
+  /**
+   * Find API keys of a user, newest first
+   *
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @returns {Promise<ApiKey[]>} API keys of the user
+   *
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async findByUserId(userId: string): Promise<ApiKey[]> {
+    validateMongoObjectId(userId, 'user');
+    const apiKeys = await ApiKeyMongoDB.find({ userId: new mongoose.Types.ObjectId(userId) })
+      .sort({ createdAt: -1 })
+      .exec();
+
+    return apiKeys.map(apiKey => this.documentToApiKey(apiKey));
+  }
+
+  /**
+   * Record API key usage, at most once a minute
+   *
+   * @param {string} apiKeyId - API key's MongoDB ObjectId as string
+   * @param {number} now - Current timestamp for lastUsedAt/updatedAt
+   * @returns {Promise<boolean>} true if the timestamp was updated
+   *
+   * @throws {AppError} If API key ID format is invalid
+   */
+  public async recordUsage(apiKeyId: string, now: number): Promise<boolean> {
+    validateMongoObjectId(apiKeyId, 'API key');
+
+    const currentDate = new Date(now);
+    const result = await ApiKeyMongoDB.updateOne(
+      {
+        _id: new mongoose.Types.ObjectId(apiKeyId),
+        $or: [{ lastUsedAt: null }, { lastUsedAt: { $lte: new Date(now - USAGE_RECORD_INTERVAL_MS) } }]
+      },
+      { $set: { lastUsedAt: currentDate, updatedAt: currentDate } },
+      { timestamps: false }
+    ).exec();
+
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Delete an API key
+   *
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} apiKeyId - API key's MongoDB ObjectId as string
+   * @returns {Promise<boolean>} true if the key was deleted
+   *
+   * @throws {AppError} If API key ID format is invalid
+   */
+  public async deleteApiKey(session: DatabaseSession<ClientSession>, apiKeyId: string): Promise<boolean> {
+    validateMongoObjectId(apiKeyId, 'API key');
+    const result = await ApiKeyMongoDB.deleteOne(
+      { _id: new mongoose.Types.ObjectId(apiKeyId) },
+      { session: session.session }
+    ).exec();
+
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Delete all API keys of a user
+   *
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @returns {Promise<number>} Number of keys deleted
+   *
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async deleteAllUserApiKeys(session: DatabaseSession<ClientSession>, userId: string): Promise<number> {
+    validateMongoObjectId(userId, 'user');
+    const result = await ApiKeyMongoDB.deleteMany(
+      { userId: new mongoose.Types.ObjectId(userId) },
+      { session: session.session }
+    ).exec();
+
+    return result.deletedCount;
+  }
+}
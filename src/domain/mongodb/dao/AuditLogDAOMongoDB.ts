@@ -0,0 +1,108 @@
+import mongoose, { ClientSession, FilterQuery } from 'mongoose';
+import { AuditLogMongoDB, AuditLogMongoDBInterface } from '../entities/AuditLogMongoDB';
+import { AuditAction, AuditActor, AuditChanges, AuditLog } from '../../interfaces/entities/AuditLog';
+import { AuditLogDAO, AuditLogFilter, GetAuditLogsResult } from '../../interfaces/dao/AuditLogDAO';
+import { DatabaseSession } from '../../interfaces/DatabaseSession';
+
+/**
+ * MongoDB implementation of the AuditLogDAO interface
+ *
+ * @implements {AuditLogDAO<ClientSession>}
+ */
+export class AuditLogDAOMongoDB implements AuditLogDAO<ClientSession> {
+
+  /**
+   * Convert MongoDB document to AuditLog interface
+   *
+   * @param {AuditLogMongoDBInterface} doc - MongoDB audit log document
+   * @returns {AuditLog} Clean audit log entity with string IDs
+   */
+  private documentToAuditLog(doc: AuditLogMongoDBInterface): AuditLog {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      action: doc.action,
+      actor: {
+        userId: doc.actor.userId ?? null,
+        username: doc.actor.username,
+        ip: doc.actor.ip,
+        userAgent: doc.actor.userAgent
+      },
+      targetId: doc.targetId ?? null,
+      changes: doc.changes ?? null,
+      timestamp: doc.timestamp
+    };
+  }
+
+  /**
+   * Append an entry to the audit log
+   *
+   * @param {DatabaseSession<ClientSession>} session - Database session of the audited change
+   * @param {AuditAction} action - Action performed
+   * @param {AuditActor} actor - User and client performing the action
+   * @param {string | null} targetId - ID of the entity the action applies to, or null
+   * @param {AuditChanges | null} changes - Fields changed by the action, or null
+   * @param {number} now - Current timestamp, stored as the time of the action
+   * @returns {Promise<AuditLog>} Created entry
+   */
+  public async createAuditLog(
+    session: DatabaseSession<ClientSession>,
+    action: AuditAction,
+    actor: AuditActor,
+    targetId: string | null,
+    changes: AuditChanges | null,
+    now: number
+  ): Promise<AuditLog> {
+    const savedAuditLog = await new AuditLogMongoDB({
+      action,
+      actor,
+      targetId,
+      changes,
+      timestamp: new Date(now)
+    }).save({ session: session.session });
+
+    return this.documentToAuditLog(savedAuditLog);
+  }
+
+  /**
+   * Find audit log entries with pagination, newest first
+   *
+   * @param {AuditLogFilter} filter - Filters the entries must match
+   * @param {number} page - Page number (1-based)
+   * @param {number} limit - Number of entries per page
+   * @returns {Promise<GetAuditLogsResult>} Paginated entries with metadata
+   */
+  public async findAuditLogs(filter: AuditLogFilter, page: number, limit: number): Promise<GetAuditLogsResult> {
+    const skip = (page - 1) * limit;
+    const query: FilterQuery<AuditLogMongoDBInterface> = {};
+    if (filter.action) {
+      query.action = filter.action;
+    }
+    if (filter.actorId) {
+      query['actor.userId'] = filter.actorId;
+    }
+    if (filter.targetId) {
+      query.targetId = filter.targetId;
+    }
+    if (filter.from || filter.to) {
+      query.timestamp = {
+        ...(filter.from && { $gte: filter.from }),
+        ...(filter.to && { $lte: filter.to })
+      };
+    }
+
+    const [auditLogs, total] = await Promise.all([
+      AuditLogMongoDB.find(query)
+        .sort({ timestamp: -1, _id: -1 })
+        .skip(skip)
+        .limit(limit)
+        .exec(),
+      AuditLogMongoDB.countDocuments(query).exec()
+    ]);
+
+    return {
+      auditLogs: auditLogs.map(auditLog => this.documentToAuditLog(auditLog)),
+      total,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+}
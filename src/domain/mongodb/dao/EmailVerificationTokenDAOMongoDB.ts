@@ -0,0 +1,145 @@
+import mongoose, { ClientSession } from 'mongoose';
+import {
+  EmailVerificationTokenMongoDB,
+  EmailVerificationTokenMongoDBInterface
+} from '../entities/EmailVerificationTokenMongoDB';
+import { EmailVerificationToken } from '../../interfaces/entities/EmailVerificationToken';
+import { EmailVerificationTokenDAO } from '../../interfaces/dao/EmailVerificationTokenDAO';
+import { DatabaseSession } from '../../interfaces/DatabaseSession';
+import { validateMongoObjectId } from '../utils/MongoDBErrorUtils';
+
+/**
+ * MongoDB implementation of the EmailVerificationTokenDAO interface
+ * 
+ * @implements {EmailVerificationTokenDAO<ClientSession>}
+ */
+export class EmailVerificationTokenDAOMongoDB implements EmailVerificationTokenDAO<ClientSession> {
+
+  /**
+   * Convert MongoDB document to EmailVerificationToken interface
+   * 
+   * @param {EmailVerificationTokenMongoDBInterface} doc - MongoDB email verification token document
+   * @returns {EmailVerificationToken} Clean email verification token entity with string IDs
+   */
+  private documentToEmailVerificationToken(doc: EmailVerificationTokenMongoDBInterface): EmailVerificationToken {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      userId: doc.userId.toString(),
+      email: doc.email,
+      tokenHash: doc.tokenHash,
+      expiresAt: doc.expiresAt,
+      isUsed: doc.isUsed,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+
+  /**
+   * Create a new email verification token
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - Owner's user ID (MongoDB ObjectId as string)
+   * @param {string} email - Email address the token is sent to
+   * @param {string} tokenHash - Hash of the token sent to the user
+   * @param {Date} expiresAt - Token expiration date
+   * @param {number} now - Current timestamp for createdAt/updatedAt
+   * @returns {Promise<EmailVerificationToken>} Created email verification token
+   * 
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async createEmailVerificationToken(
+    session: DatabaseSession<ClientSession>,
+    userId: string,
+    email: string,
+    tokenHash: string,
+    expiresAt: Date,
+    now: number
+  ): Promise<EmailVerificationToken> {
+    validateMongoObjectId(userId, 'user');
+
+    const currentDate = new Date(now);
+    const savedToken = await new EmailVerificationTokenMongoDB({
+      userId: new mongoose.Types.ObjectId(userId),
+      email,
+      tokenHash,
+      expiresAt,
+      createdAt: currentDate,
+      updatedAt: currentDate
+    }).save({ session: session.session });
+
+    return this.documentToEmailVerificationToken(savedToken);
+  }
+
+  /**
+   * Consume an email verification token
+   * 
+   * Uses a single findOneAndUpdate so concurrent requests cannot consume
+   * the same token twice.
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} tokenHash - Hash of the token presented by the user
+   * @param {number} now - Current timestamp for the expiration check and updatedAt field
+   * @returns {Promise<EmailVerificationToken | null>} Consumed token or null if not usable
+   */
+  public async consumeEmailVerificationToken(
+    session: DatabaseSession<ClientSession>,
+    tokenHash: string,
+    now: number
+  ): Promise<EmailVerificationToken | null> {
+    const currentDate = new Date(now);
+    const consumedToken = await EmailVerificationTokenMongoDB.findOneAndUpdate(
+      { tokenHash, isUsed: false, expiresAt: { $gt: currentDate } },
+      { $set: { isUsed: true, updatedAt: currentDate } },
+      { new: true, session: session.session }
+    ).exec();
+
+    return consumedToken ? this.documentToEmailVerificationToken(consumedToken) : null;
+  }
+
+  /**
+   * Invalidate all unused verification tokens of a user
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @param {number} now - Current timestamp for updatedAt field
+   * @returns {Promise<number>} Number of tokens invalidated
+   * 
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async invalidateAllUserEmailVerificationTokens(
+    session: DatabaseSession<ClientSession>,
+    userId: string,
+    now: number
+  ): Promise<number> {
+    validateMongoObjectId(userId, 'user');
+    const result = await EmailVerificationTokenMongoDB.updateMany(
+      { userId: new mongoose.Types.ObjectId(userId), isUsed: false },
+      { $set: { isUsed: true, updatedAt: new Date(now) } },
+      { session: session.session }
+    ).exec();
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Delete all verification tokens of a user
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @returns {Promise<number>} Number of tokens deleted
+   * 
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async deleteAllUserEmailVerificationTokens(
+    session: DatabaseSession<ClientSession>,
+    userId: string
+  ): Promise<number> {
+    validateMongoObjectId(userId, 'user');
+    const result = await EmailVerificationTokenMongoDB.deleteMany(
+      { userId: new mongoose.Types.ObjectId(userId) },
+      { session: session.session }
+    ).exec();
+
+    return result.deletedCount;
+  }
+}
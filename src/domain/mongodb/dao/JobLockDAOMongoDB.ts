@@ -0,0 +1,59 @@
+import { JobLockMongoDB } from '../entities/JobLockMongoDB';
+import { JobLockDAO } from '../../interfaces/dao/JobLockDAO';
+import { isMongoDBDuplicateKeyError } from '../utils/MongoDBErrorUtils';
+
+/**
+ * MongoDB implementation of the JobLockDAO interface
+ *
+ * @implements {JobLockDAO}
+ */
+export class JobLockDAOMongoDB implements JobLockDAO {
+
+  /**
+   * Acquire the lock of a job
+   *
+   * Uses a single conditional upsert. When the lease is held by another
+   * owner the filter matches nothing and the upsert tries to insert a second
+   * record with the same name, which the unique index refuses.
+   *
+   * @param {string} name - Name of the job
+   * @param {string} owner - Identifier of the scheduler instance taking the lease
+   * @param {Date} lockedUntil - End of the lease
+   * @param {number} now - Current timestamp for the expiry check and updatedAt field
+   * @returns {Promise<boolean>} true if the owner now holds the lease
+   */
+  public async acquireLock(name: string, owner: string, lockedUntil: Date, now: number): Promise<boolean> {
+    const currentDate = new Date(now);
+    try {
+      await JobLockMongoDB.updateOne(
+        { name, $or: [{ owner }, { lockedUntil: { $lte: currentDate } }] },
+        {
+          $set: { owner, lockedUntil, updatedAt: currentDate },
+          $setOnInsert: { createdAt: currentDate }
+        },
+        { upsert: true, timestamps: false }
+      ).exec();
+      return true;
+    } catch (error) {
+      if (isMongoDBDuplicateKeyError(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Release the lock of a job
+   *
+   * Deletes the record only while the owner holds it, so a lease taken over
+   * by another instance is left alone.
+   *
+   * @param {string} name - Name of the job
+   * @param {string} owner - Identifier of the scheduler instance holding the lease
+   * @returns {Promise<boolean>} true if the owner held the lease and released it
+   */
+  public async releaseLock(name: string, owner: string): Promise<boolean> {
+    const result = await JobLockMongoDB.deleteOne({ name, owner }).exec();
+    return result.deletedCount > 0;
+  }
+}
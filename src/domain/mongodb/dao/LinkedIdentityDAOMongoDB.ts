@@ -0,0 +1,140 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { LinkedIdentityMongoDB, LinkedIdentityMongoDBInterface } from '../entities/LinkedIdentityMongoDB';
+import { LinkedIdentity } from '../../interfaces/entities/LinkedIdentity';
+import { LinkedIdentityDAO } from '../../interfaces/dao/LinkedIdentityDAO';
+import { DatabaseSession } from '../../interfaces/DatabaseSession';
+import { isMongoDBDuplicateKeyError, validateMongoObjectId } from '../utils/MongoDBErrorUtils';
+
+/**
+ * MongoDB implementation of the LinkedIdentityDAO interface
+ *
+ * @implements {LinkedIdentityDAO<ClientSession>}
+ */
+export class LinkedIdentityDAOMongoDB implements LinkedIdentityDAO<ClientSession> {
+
+  /**
+   * Convert MongoDB document to LinkedIdentity interface
+   *
+   * @param {LinkedIdentityMongoDBInterface} doc - MongoDB linked identity document
+   * @returns {LinkedIdentity} Clean linked identity entity with string IDs
+   */
+  private documentToLinkedIdentity(doc: LinkedIdentityMongoDBInterface): LinkedIdentity {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      userId: doc.userId.toString(),
+      provider: doc.provider,
+      subject: doc.subject,
+      email: doc.email,
+      lastLoginAt: doc.lastLoginAt,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+
+  /**
+   * Find the identity of a provider account
+   *
+   * @param {string} provider - Provider name
+   * @param {string} subject - Subject identifier of the account at the provider
+   * @returns {Promise<LinkedIdentity | null>} Linked identity or null if the account is not linked
+   */
+  public async findByProviderSubject(provider: string, subject: string): Promise<LinkedIdentity | null> {
+    const identity = await LinkedIdentityMongoDB.findOne({ provider, subject }).exec();
+    return identity ? this.documentToLinkedIdentity(identity) : null;
+  }
+
+  /**
+   * Link a provider account to a user
+   *
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @param {string} provider - Provider name
+   * @param {string} subject - Subject identifier of the account at the provider
+   * @param {string | null} email - Verified email address reported by the provider, or null
+   * @param {number} now - Current timestamp for lastLoginAt/createdAt/updatedAt
+   * @returns {Promise<LinkedIdentity | null>} Created identity or null if the account is already linked
+   *
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async createLinkedIdentity(
+    session: DatabaseSession<ClientSession>,
+    userId: string,
+    provider: string,
+    subject: string,
+    email: string | null,
+    now: number
+  ): Promise<LinkedIdentity | null> {
+    validateMongoObjectId(userId, 'user');
+
+    const currentDate = new Date(now);
+    try {
+      const savedIdentity = await new LinkedIdentityMongoDB({
+        userId: new mongoose.Types.ObjectId(userId),
+        provider,
+        subject,
+        email,
+        lastLoginAt: currentDate,
+        createdAt: currentDate,
+        updatedAt: currentDate
+      }).save({ session: session.session });
+
+      return this.documentToLinkedIdentity(savedIdentity);
+    } catch (error: unknown) {
+      if (isMongoDBDuplicateKeyError(error)) {
+        return null; // The provider account is already linked
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Record a sign-in with a linked identity
+   *
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} identityId - Linked identity's MongoDB ObjectId as string
+   * @param {string | null} email - Verified email address currently reported by the provider, or null
+   * @param {number} now - Current timestamp for lastLoginAt/updatedAt fields
+   * @returns {Promise<boolean>} True if the identity was updated
+   *
+   * @throws {AppError} If identity ID format is invalid
+   */
+  public async recordLogin(
+    session: DatabaseSession<ClientSession>,
+    identityId: string,
+    email: string | null,
+    now: number
+  ): Promise<boolean> {
+    validateMongoObjectId(identityId, 'linked identity');
+
+    const currentDate = new Date(now);
+    const result = await LinkedIdentityMongoDB.updateOne(
+      { _id: new mongoose.Types.ObjectId(identityId) },
+      { $set: { email, lastLoginAt: currentDate, updatedAt: currentDate } },
+      { timestamps: false, session: session.session }
+    ).exec();
+
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Delete all linked identities of a user
+   *
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @returns {Promise<number>} Number of identities deleted
+   *
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async deleteAllUserLinkedIdentities(
+    session: DatabaseSession<ClientSession>,
+    userId: string
+  ): Promise<number> {
+    validateMongoObjectId(userId, 'user');
+    const result = await LinkedIdentityMongoDB.deleteMany(
+      { userId: new mongoose.Types.ObjectId(userId) },
+      { session: session.session }
+    ).exec();
+
+    return result.deletedCount;
+  }
+}
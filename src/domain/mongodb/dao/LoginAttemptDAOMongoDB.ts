@@ -0,0 +1,118 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { LoginAttemptMongoDB, LoginAttemptMongoDBInterface } from '../entities/LoginAttemptMongoDB';
+import { LoginAttempt } from '../../interfaces/entities/LoginAttempt';
+import { LoginAttemptDAO } from '../../interfaces/dao/LoginAttemptDAO';
+import { DatabaseSession } from '../../interfaces/DatabaseSession';
+
+/**
+ * MongoDB implementation of the LoginAttemptDAO interface
+ *
+ * @implements {LoginAttemptDAO<ClientSession>}
+ */
+export class LoginAttemptDAOMongoDB implements LoginAttemptDAO<ClientSession> {
+
+  /**
+   * Convert MongoDB document to LoginAttempt interface
+   *
+   * @param {LoginAttemptMongoDBInterface} doc - MongoDB login attempt document
+   * @returns {LoginAttempt} Clean login attempt entity with string IDs
+   */
+  private documentToLoginAttempt(doc: LoginAttemptMongoDBInterface): LoginAttempt {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      username: doc.username,
+      failedAttempts: doc.failedAttempts,
+      lockouts: doc.lockouts,
+      lockedUntil: doc.lockedUntil,
+      lastFailedAt: doc.lastFailedAt,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+
+  /**
+   * Find the login attempt record of a username
+   *
+   * @param {string} username - Username the attempts were made with
+   * @returns {Promise<LoginAttempt | null>} Record or null if no failure is tracked
+   */
+  public async findByUsername(username: string): Promise<LoginAttempt | null> {
+    const loginAttempt = await LoginAttemptMongoDB.findOne({ username }).exec();
+    return loginAttempt ? this.documentToLoginAttempt(loginAttempt) : null;
+  }
+
+  /**
+   * Record a failed login attempt
+   *
+   * Uses a single upsert so concurrent failures are all counted.
+   *
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} username - Username the attempt was made with
+   * @param {number} now - Current timestamp for lastFailedAt/updatedAt fields
+   * @returns {Promise<LoginAttempt>} Updated record
+   */
+  public async recordFailedAttempt(
+    session: DatabaseSession<ClientSession>,
+    username: string,
+    now: number
+  ): Promise<LoginAttempt> {
+    const currentDate = new Date(now);
+    const loginAttempt = await LoginAttemptMongoDB.findOneAndUpdate(
+      { username },
+      {
+        $inc: { failedAttempts: 1 },
+        $set: { lastFailedAt: currentDate, updatedAt: currentDate },
+        $setOnInsert: { lockouts: 0, lockedUntil: null, createdAt: currentDate }
+      },
+      { new: true, upsert: true, timestamps: false, session: session.session }
+    ).exec();
+
+    return this.documentToLoginAttempt(loginAttempt);
+  }
+
+  /**
+   * Lock a username
+   *
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} username - Username to lock
+   * @param {Date} lockedUntil - End of the lockout
+   * @param {number} now - Current timestamp for updatedAt field
+   * @returns {Promise<LoginAttempt | null>} Updated record or null if no failure is tracked
+   */
+  public async lockUsername(
+    session: DatabaseSession<ClientSession>,
+    username: string,
+    lockedUntil: Date,
+    now: number
+  ): Promise<LoginAttempt | null> {
+    const loginAttempt = await LoginAttemptMongoDB.findOneAndUpdate(
+      { username },
+      {
+        $inc: { lockouts: 1 },
+        $set: { failedAttempts: 0, lockedUntil, updatedAt: new Date(now) }
+      },
+      { new: true, timestamps: false, session: session.session }
+    ).exec();
+
+    return loginAttempt ? this.documentToLoginAttempt(loginAttempt) : null;
+  }
+
+  /**
+   * Reset the login attempts of a username
+   *
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} username - Username to reset
+   * @returns {Promise<boolean>} True if a record was removed
+   */
+  public async resetLoginAttempts(
+    session: DatabaseSession<ClientSession>,
+    username: string
+  ): Promise<boolean> {
+    const result = await LoginAttemptMongoDB.deleteOne(
+      { username },
+      { session: session.session }
+    ).exec();
+
+    return result.deletedCount > 0;
+  }
+}
@@ -0,0 +1,152 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { OrganizationMongoDB, OrganizationMongoDBInterface } from '../entities/OrganizationMongoDB';
+import { Organization } from '../../interfaces/entities/Organization';
+import { OrganizationDAO } from '../../interfaces/dao/OrganizationDAO';
+import { DatabaseSession } from '../../interfaces/DatabaseSession';
+import { isMongoDBDuplicateKeyError, validateMongoObjectId, validateMongoObjectIds } from '../utils/MongoDBErrorUtils';
+
+/**
+ * MongoDB implementation of the OrganizationDAO interface
+ *
+ * @implements {OrganizationDAO<ClientSession>}
+ */
+export class OrganizationDAOMongoDB implements OrganizationDAO<ClientSession> {
+
+  /**
+   * Convert MongoDB document to Organization interface
+   *
+   * @param {OrganizationMongoDBInterface} doc - MongoDB organization document
+   * @returns {Organization} Clean organization entity with string IDs
+   */
+  private documentToOrganization(doc: OrganizationMongoDBInterface): Organization {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      name: doc.name,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+
+  /**
+   * Create a new organization with unique name constraint
+   *
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} name - Organization name (must be unique)
+   * @param {number} now - Current timestamp for createdAt/updatedAt
+   * @returns {Promise<Organization | null>} Created organization or null if name conflict
+   *
+   * @throws {Error} For database errors other than duplicate name
+   */
+  public async createOrganization(
+    session: DatabaseSession<ClientSession>,
+    name: string,
+    now: number
+  ): Promise<Organization | null> {
+    try {
+      const currentDate = new Date(now);
+      const savedOrganization = await new OrganizationMongoDB({
+        name,
+        createdAt: currentDate,
+        updatedAt: currentDate
+      }).save({ session: session.session });
+
+      return this.documentToOrganization(savedOrganization);
+    } catch (error: unknown) {
+      if (isMongoDBDuplicateKeyError(error) && error.keyPattern?.name) {
+        return null; // Organization name already exists
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Find organization by ID
+   *
+   * @param {string} organizationId - Organization's MongoDB ObjectId as string
+   * @returns {Promise<Organization | null>} Organization entity or null if not found
+   *
+   * @throws {AppError} If organization ID format is invalid
+   */
+  public async findById(organizationId: string): Promise<Organization | null> {
+    validateMongoObjectId(organizationId, 'organization');
+    const organization = await OrganizationMongoDB.findById(organizationId).exec();
+    return organization ? this.documentToOrganization(organization) : null;
+  }
+
+  /**
+   * Find organizations by ID, sorted by name
+   *
+   * @param {string[]} organizationIds - Organizations' MongoDB ObjectIds as strings
+   * @returns {Promise<Organization[]>} Organizations found
+   *
+   * @throws {AppError} If an organization ID format is invalid
+   */
+  public async findByIds(organizationIds: string[]): Promise<Organization[]> {
+    if (organizationIds.length === 0) {
+      return [];
+    }
+    validateMongoObjectIds(organizationIds.map(id => ({ id, entityName: 'organization' })));
+
+    const organizations = await OrganizationMongoDB.find(
+      { _id: { $in: organizationIds.map(id => new mongoose.Types.ObjectId(id)) } }
+    ).sort({ name: 1 }).exec();
+
+    return organizations.map(organization => this.documentToOrganization(organization));
+  }
+
+  /**
+   * Rename an organization with unique name constraint
+   *
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} organizationId - Organization's MongoDB ObjectId as string
+   * @param {string} name - New organization name (must be unique)
+   * @param {number} now - Current timestamp for updatedAt field
+   * @returns {Promise<Organization | null>} Updated organization or null if not found/conflict
+   *
+   * @throws {AppError} If organization ID format is invalid
+   * @throws {Error} For database errors other than duplicate name
+   */
+  public async updateOrganization(
+    session: DatabaseSession<ClientSession>,
+    organizationId: string,
+    name: string,
+    now: number
+  ): Promise<Organization | null> {
+    validateMongoObjectId(organizationId, 'organization');
+
+    try {
+      const updatedOrganization = await OrganizationMongoDB.findOneAndUpdate(
+        { _id: new mongoose.Types.ObjectId(organizationId) },
+        { name, updatedAt: new Date(now) },
+        { new: true, session: session.session, runValidators: true }
+      ).exec();
+
+      return updatedOrganization ? this.documentToOrganization(updatedOrganization) : null;
+    } catch (error: unknown) {
+      if (isMongoDBDuplicateKeyError(error) && error.keyPattern?.name) {
+        return null; // Organization name conflict
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete organization by ID
+   *
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} organizationId - Organization's MongoDB ObjectId as string
+   * @returns {Promise<boolean>} true if the organization was deleted, false if not found
+   *
+   * @throws {AppError} If organization ID format is invalid
+   */
+  public async deleteOrganization(session: DatabaseSession<ClientSession>, organizationId: string): Promise<boolean> {
+    validateMongoObjectId(organizationId, 'organization');
+
+    const result = await OrganizationMongoDB.deleteOne(
+      { _id: new mongoose.Types.ObjectId(organizationId) },
+      { session: session.session }
+    ).exec();
+
+    return result.deletedCount === 1;
+  }
+}
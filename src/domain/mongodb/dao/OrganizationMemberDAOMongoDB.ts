@@ -0,0 +1,256 @@
+import mongoose, { ClientSession } from 'mongoose';
+import {
+  OrganizationMemberMongoDB, OrganizationMemberMongoDBInterface
+} from '../entities/OrganizationMemberMongoDB';
+import { OrganizationMember, OrganizationRole } from '../../interfaces/entities/OrganizationMember';
+import { OrganizationMemberDAO } from '../../interfaces/dao/OrganizationMemberDAO';
+import { DatabaseSession } from '../../interfaces/DatabaseSession';
+import { isMongoDBDuplicateKeyError, validateMongoObjectId, validateMongoObjectIds } from '../utils/MongoDBErrorUtils';
+
+/**
+ * MongoDB implementation of the OrganizationMemberDAO interface
+ *
+ * @implements {OrganizationMemberDAO<ClientSession>}
+ */
+export class OrganizationMemberDAOMongoDB implements OrganizationMemberDAO<ClientSession> {
+
+  /**
+   * Convert MongoDB document to OrganizationMember interface
+   *
+   * @param {OrganizationMemberMongoDBInterface} doc - MongoDB organization member document
+   * @returns {OrganizationMember} Clean organization member entity with string IDs
+   */
+  private documentToOrganizationMember(doc: OrganizationMemberMongoDBInterface): OrganizationMember {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      organizationId: doc.organizationId.toString(),
+      userId: doc.userId.toString(),
+      role: doc.role,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+
+  /**
+   * Add a user to an organization
+   *
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} organizationId - Organization's MongoDB ObjectId as string
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @param {OrganizationRole} role - Role granted to the user
+   * @param {number} now - Current timestamp for createdAt/updatedAt
+   * @returns {Promise<OrganizationMember | null>} Created membership or null if the user is already a member
+   *
+   * @throws {AppError} If organization ID or user ID format is invalid
+   * @throws {Error} For database errors other than duplicate membership
+   */
+  public async createOrganizationMember(
+    session: DatabaseSession<ClientSession>,
+    organizationId: string,
+    userId: string,
+    role: OrganizationRole,
+    now: number
+  ): Promise<OrganizationMember | null> {
+    validateMongoObjectIds([
+      { id: organizationId, entityName: 'organization' },
+      { id: userId, entityName: 'user' }
+    ]);
+
+    try {
+      const currentDate = new Date(now);
+      const savedMember = await new OrganizationMemberMongoDB({
+        organizationId: new mongoose.Types.ObjectId(organizationId),
+        userId: new mongoose.Types.ObjectId(userId),
+        role,
+        createdAt: currentDate,
+        updatedAt: currentDate
+      }).save({ session: session.session });
+
+      return this.documentToOrganizationMember(savedMember);
+    } catch (error: unknown) {
+      if (isMongoDBDuplicateKeyError(error) && error.keyPattern?.organizationId && error.keyPattern?.userId) {
+        return null; // User is already a member of the organization
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Find the membership of a user in an organization
+   *
+   * @param {string} organizationId - Organization's MongoDB ObjectId as string
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @returns {Promise<OrganizationMember | null>} Membership or null if the user is not a member
+   *
+   * @throws {AppError} If organization ID or user ID format is invalid
+   */
+  public async findMember(organizationId: string, userId: string): Promise<OrganizationMember | null> {
+    validateMongoObjectIds([
+      { id: organizationId, entityName: 'organization' },
+      { id: userId, entityName: 'user' }
+    ]);
+
+    const member = await OrganizationMemberMongoDB.findOne({
+      organizationId: new mongoose.Types.ObjectId(organizationId),
+      userId: new mongoose.Types.ObjectId(userId)
+    }).exec();
+    return member ? this.documentToOrganizationMember(member) : null;
+  }
+
+  /**
+   * Find all members of an organization, oldest first
+   *
+   * @param {string} organizationId - Organization's MongoDB ObjectId as string
+   * @returns {Promise<OrganizationMember[]>} Memberships of the organization
+   *
+   * @throws {AppError} If organization ID format is invalid
+   */
+  public async findByOrganizationId(organizationId: string): Promise<OrganizationMember[]> {
+    validateMongoObjectId(organizationId, 'organization');
+    const members = await OrganizationMemberMongoDB.find(
+      { organizationId: new mongoose.Types.ObjectId(organizationId) }
+    ).sort({ createdAt: 1, _id: 1 }).exec();
+
+    return members.map(member => this.documentToOrganizationMember(member));
+  }
+
+  /**
+   * Find all memberships of a user
+   *
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @returns {Promise<OrganizationMember[]>} Memberships of the user
+   *
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async findByUserId(userId: string): Promise<OrganizationMember[]> {
+    validateMongoObjectId(userId, 'user');
+    const members = await OrganizationMemberMongoDB.find({ userId: new mongoose.Types.ObjectId(userId) }).exec();
+
+    return members.map(member => this.documentToOrganizationMember(member));
+  }
+
+  /**
+   * Count the members of an organization holding a role
+   *
+   * @param {string} organizationId - Organization's MongoDB ObjectId as string
+   * @param {OrganizationRole} role - Role to count the members of
+   * @returns {Promise<number>} Number of members with the role
+   *
+   * @throws {AppError} If organization ID format is invalid
+   */
+  public async countMembersWithRole(organizationId: string, role: OrganizationRole): Promise<number> {
+    validateMongoObjectId(organizationId, 'organization');
+    return OrganizationMemberMongoDB.countDocuments({
+      organizationId: new mongoose.Types.ObjectId(organizationId),
+      role
+    }).exec();
+  }
+
+  /**
+   * Change the role of a member
+   *
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} organizationId - Organization's MongoDB ObjectId as string
+   * @param {string} userId - Member's MongoDB ObjectId as string
+   * @param {OrganizationRole} role - New role of the member
+   * @param {number} now - Current timestamp for updatedAt field
+   * @returns {Promise<OrganizationMember | null>} Updated membership or null if the user is not a member
+   *
+   * @throws {AppError} If organization ID or user ID format is invalid
+   */
+  public async updateMemberRole(
+    session: DatabaseSession<ClientSession>,
+    organizationId: string,
+    userId: string,
+    role: OrganizationRole,
+    now: number
+  ): Promise<OrganizationMember | null> {
+    validateMongoObjectIds([
+      { id: organizationId, entityName: 'organization' },
+      { id: userId, entityName: 'user' }
+    ]);
+
+    const updatedMember = await OrganizationMemberMongoDB.findOneAndUpdate(
+      {
+        organizationId: new mongoose.Types.ObjectId(organizationId),
+        userId: new mongoose.Types.ObjectId(userId)
+      },
+      { role, updatedAt: new Date(now) },
+      { new: true, session: session.session, runValidators: true }
+    ).exec();
+
+    return updatedMember ? this.documentToOrganizationMember(updatedMember) : null;
+  }
+
+  /**
+   * Remove a user from an organization
+   *
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} organizationId - Organization's MongoDB ObjectId as string
+   * @param {string} userId - Member's MongoDB ObjectId as string
+   * @returns {Promise<boolean>} true if the membership was deleted
+   *
+   * @throws {AppError} If organization ID or user ID format is invalid
+   */
+  public async deleteOrganizationMember(
+    session: DatabaseSession<ClientSession>,
+    organizationId: string,
+    userId: string
+  ): Promise<boolean> {
+    validateMongoObjectIds([
+      { id: organizationId, entityName: 'organization' },
+      { id: userId, entityName: 'user' }
+    ]);
+
+    const result = await OrganizationMemberMongoDB.deleteOne(
+      {
+        organizationId: new mongoose.Types.ObjectId(organizationId),
+        userId: new mongoose.Types.ObjectId(userId)
+      },
+      { session: session.session }
+    ).exec();
+
+    return result.deletedCount === 1;
+  }
+
+  /**
+   * Delete all members of an organization
+   *
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} organizationId - Organization's MongoDB ObjectId as string
+   * @returns {Promise<number>} Number of memberships deleted
+   *
+   * @throws {AppError} If organization ID format is invalid
+   */
+  public async deleteAllOrganizationMembers(
+    session: DatabaseSession<ClientSession>,
+    organizationId: string
+  ): Promise<number> {
+    validateMongoObjectId(organizationId, 'organization');
+    const result = await OrganizationMemberMongoDB.deleteMany(
+      { organizationId: new mongoose.Types.ObjectId(organizationId) },
+      { session: session.session }
+    ).exec();
+
+    return result.deletedCount;
+  }
+
+  /**
+   * Delete all memberships of a user
+   *
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @returns {Promise<number>} Number of memberships deleted
+   *
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async deleteAllUserMemberships(session: DatabaseSession<ClientSession>, userId: string): Promise<number> {
+    validateMongoObjectId(userId, 'user');
+    const result = await OrganizationMemberMongoDB.deleteMany(
+      { userId: new mongoose.Types.ObjectId(userId) },
+      { session: session.session }
+    ).exec();
+
+    return result.deletedCount;
+  }
+}
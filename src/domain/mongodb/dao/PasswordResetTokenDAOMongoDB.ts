@@ -0,0 +1,141 @@
+import mongoose, { ClientSession } from 'mongoose';
+import {
+  PasswordResetTokenMongoDB,
+  PasswordResetTokenMongoDBInterface
+} from '../entities/PasswordResetTokenMongoDB';
+import { PasswordResetToken } from '../../interfaces/entities/PasswordResetToken';
+import { PasswordResetTokenDAO } from '../../interfaces/dao/PasswordResetTokenDAO';
+import { DatabaseSession } from '../../interfaces/DatabaseSession';
+import { validateMongoObjectId } from '../utils/MongoDBErrorUtils';
+
+/**
+ * MongoDB implementation of the PasswordResetTokenDAO interface
+ * 
+ * @implements {PasswordResetTokenDAO<ClientSession>}
+ */
+export class PasswordResetTokenDAOMongoDB implements PasswordResetTokenDAO<ClientSession> {
+
+  /**
+   * Convert MongoDB document to PasswordResetToken interface
+   * 
+   * @param {PasswordResetTokenMongoDBInterface} doc - MongoDB password reset token document
+   * @returns {PasswordResetToken} Clean password reset token entity with string IDs
+   */
+  private documentToPasswordResetToken(doc: PasswordResetTokenMongoDBInterface): PasswordResetToken {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      userId: doc.userId.toString(),
+      tokenHash: doc.tokenHash,
+      expiresAt: doc.expiresAt,
+      isUsed: doc.isUsed,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+
+  /**
+   * Create a new password reset token
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - Owner's user ID (MongoDB ObjectId as string)
+   * @param {string} tokenHash - Hash of the token sent to the user
+   * @param {Date} expiresAt - Token expiration date
+   * @param {number} now - Current timestamp for createdAt/updatedAt
+   * @returns {Promise<PasswordResetToken>} Created password reset token
+   * 
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async createPasswordResetToken(
+    session: DatabaseSession<ClientSession>,
+    userId: string,
+    tokenHash: string,
+    expiresAt: Date,
+    now: number
+  ): Promise<PasswordResetToken> {
+    validateMongoObjectId(userId, 'user');
+
+    const currentDate = new Date(now);
+    const savedToken = await new PasswordResetTokenMongoDB({
+      userId: new mongoose.Types.ObjectId(userId),
+      tokenHash,
+      expiresAt,
+      createdAt: currentDate,
+      updatedAt: currentDate
+    }).save({ session: session.session });
+
+    return this.documentToPasswordResetToken(savedToken);
+  }
+
+  /**
+   * Consume a password reset token
+   * 
+   * Uses a single findOneAndUpdate so concurrent requests cannot consume
+   * the same token twice.
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} tokenHash - Hash of the token presented by the user
+   * @param {number} now - Current timestamp for the expiration check and updatedAt field
+   * @returns {Promise<PasswordResetToken | null>} Consumed token or null if not usable
+   */
+  public async consumePasswordResetToken(
+    session: DatabaseSession<ClientSession>,
+    tokenHash: string,
+    now: number
+  ): Promise<PasswordResetToken | null> {
+    const currentDate = new Date(now);
+    const consumedToken = await PasswordResetTokenMongoDB.findOneAndUpdate(
+      { tokenHash, isUsed: false, expiresAt: { $gt: currentDate } },
+      { $set: { isUsed: true, updatedAt: currentDate } },
+      { new: true, session: session.session }
+    ).exec();
+
+    return consumedToken ? this.documentToPasswordResetToken(consumedToken) : null;
+  }
+
+  /**
+   * Invalidate all unused reset tokens of a user
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @param {number} now - Current timestamp for updatedAt field
+   * @returns {Promise<number>} Number of tokens invalidated
+   * 
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async invalidateAllUserPasswordResetTokens(
+    session: DatabaseSession<ClientSession>,
+    userId: string,
+    now: number
+  ): Promise<number> {
+    validateMongoObjectId(userId, 'user');
+    const result = await PasswordResetTokenMongoDB.updateMany(
+      { userId: new mongoose.Types.ObjectId(userId), isUsed: false },
+      { $set: { isUsed: true, updatedAt: new Date(now) } },
+      { session: session.session }
+    ).exec();
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Delete all reset tokens of a user
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @returns {Promise<number>} Number of tokens deleted
+   * 
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async deleteAllUserPasswordResetTokens(
+    session: DatabaseSession<ClientSession>,
+    userId: string
+  ): Promise<number> {
+    validateMongoObjectId(userId, 'user');
+    const result = await PasswordResetTokenMongoDB.deleteMany(
+      { userId: new mongoose.Types.ObjectId(userId) },
+      { session: session.session }
+    ).exec();
+
+    return result.deletedCount;
+  }
+}
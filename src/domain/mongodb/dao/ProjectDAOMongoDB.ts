@@ -1,8 +1,11 @@
-import mongoose, { ClientSession } from 'mongoose';
+import mongoose, { ClientSession, UpdateQuery } from 'mongoose';
 import { ProjectMongoDB, ProjectMongoDBInterface } from '../entities/ProjectMongoDB';
 import { Project } from '../../interfaces/entities/Project';
-import { ProjectDAO, GetAllProjectsResult } from '../../interfaces/dao/ProjectDAO';
+import {
+  GetAllProjectsResult, GetProjectsByCursorResult, ProjectAccess, ProjectCursor, ProjectDAO, ProjectFilter, ProjectSort
+} from '../../interfaces/dao/ProjectDAO';
 import { DatabaseSession } from '../../interfaces/DatabaseSession';
+import { toAccessibleProjectsQuery, toProjectKeysetQuery, toProjectSortQuery } from '../utils/ProjectQueryMongoDB';
 import { isMongoDBDuplicateKeyError, validateMongoObjectId, validateMongoObjectIds } from '../utils/MongoDBErrorUtils';
 
 /**
@@ -16,7 +19,7 @@ export class ProjectDAOMongoDB implements ProjectDAO<ClientSession> {
    * Convert MongoDB document to Project interface
    * 
    * Transforms MongoDB document structure to clean domain entity interface.
-   * Handles ObjectId conversion for both project ID and user ID references.
+   * Handles ObjectId conversion for the project ID, user ID and organization ID references.
    * 
    * @param {ProjectMongoDBInterface} doc - MongoDB project document
    * @returns {Project} Clean project entity with string IDs
@@ -27,25 +30,28 @@ export class ProjectDAOMongoDB implements ProjectDAO<ClientSession> {
       name: doc.name,
       gitUrl: doc.gitUrl,
       userId: doc.userId.toString(),
+      organizationId: doc.organizationId ? doc.organizationId.toString() : null,
       createdAt: doc.createdAt,
       updatedAt: doc.updatedAt
     };
   }
 
   /**
-   * Create a new project with unique name constraint per user
+   * Create a new project with unique name constraint per owner
    * 
-   * Creates a new project ensuring unique project names within each user's scope.
-   * Validates user ID format and handles duplicate name conflicts gracefully.
+   * Creates a new project ensuring unique project names within each owner's scope: the
+   * organization of the project, or its creator for personal projects.
+   * Validates ID formats and handles duplicate name conflicts gracefully.
    * 
    * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
-   * @param {string} name - Project name (must be unique per user)
+   * @param {string} name - Project name (must be unique per owner)
    * @param {string} gitUrl - Git repository URL
-   * @param {string} userId - Owner's user ID (MongoDB ObjectId as string)
+   * @param {string} userId - Creator's user ID (MongoDB ObjectId as string)
+   * @param {string | null} organizationId - Owner organization's MongoDB ObjectId as string, or null
    * @param {number} now - Current timestamp for createdAt/updatedAt
    * @returns {Promise<Project | null>} Created project or null if name conflict
    * 
-   * @throws {AppError} If user ID format is invalid
+   * @throws {AppError} If user ID or organization ID format is invalid
    * @throws {Error} For database errors other than duplicate name
    */
   public async createProject(
@@ -53,25 +59,33 @@ export class ProjectDAOMongoDB implements ProjectDAO<ClientSession> {
     name: string,
     gitUrl: string,
     userId: string,
+    organizationId: string | null,
     now: number
   ): Promise<Project | null> {
-    validateMongoObjectId(userId, 'user');
+    validateMongoObjectIds([
+      { id: userId, entityName: 'user' },
+      ...(organizationId ? [{ id: organizationId, entityName: 'organization' }] : [])
+    ]);
 
     try {
       const currentDate = new Date(now);
+      const userObjectId = new mongoose.Types.ObjectId(userId);
+      const organizationObjectId = organizationId ? new mongoose.Types.ObjectId(organizationId) : null;
       const savedProject = await new ProjectMongoDB({
         name,
         gitUrl,
-        userId: new mongoose.Types.ObjectId(userId),
+        userId: userObjectId,
+        organizationId: organizationObjectId,
+        ownerId: organizationObjectId ?? userObjectId,
         createdAt: currentDate,
         updatedAt: currentDate
       }).save({ session: session.session });
 
       return this.documentToProject(savedProject);
     } catch (error: unknown) {
-      // Handle MongoDB duplicate key error for project name per user
-      if (isMongoDBDuplicateKeyError(error) && error.keyPattern?.name && error.keyPattern?.userId) {
-        return null; // Project name already exists for this user
+      // Handle MongoDB duplicate key error for project name per owner
+      if (isMongoDBDuplicateKeyError(error) && error.keyPattern?.name && error.keyPattern?.ownerId) {
+        return null; // Project name already exists for this owner
       }
       throw error; // Re-throw other errors
     }
@@ -104,71 +118,152 @@ export class ProjectDAOMongoDB implements ProjectDAO<ClientSession> {
   }
 
   /**
-   * Find all projects for a specific user with pagination
-   * 
-   * Retrieves user's projects with pagination support, sorted by creation date
-   * (newest first). Uses compound index on userId + createdAt for optimal performance.
+   * Find the projects a user owns, can access through an organization or has been shared into,
+   * with filtering, sorting and offset pagination
    * 
-   * @param {string} userId - User's MongoDB ObjectId as string
+   * @param {ProjectAccess} access - Projects the user can access
+   * @param {ProjectFilter} filter - Filters the projects must match
+   * @param {ProjectSort} sort - Order of the projects
    * @param {number} page - Page number (1-based)
    * @param {number} limit - Number of projects per page
    * @returns {Promise<GetAllProjectsResult>} Paginated projects with metadata
    * 
-   * @throws {AppError} If user ID format is invalid
+   * @throws {AppError} If user ID, an organization ID or a project ID format is invalid
    */
-  public async findByUserId(userId: string, page: number, limit: number): Promise<GetAllProjectsResult> {
-    validateMongoObjectId(userId, 'user');
-
-    const skip = (page - 1) * limit;
-    const userObjectId = new mongoose.Types.ObjectId(userId);
-
+  public async findAccessibleProjects(
+    access: ProjectAccess,
+    filter: ProjectFilter,
+    sort: ProjectSort,
+    page: number,
+    limit: number
+  ): Promise<GetAllProjectsResult> {
+    const query = toAccessibleProjectsQuery(access, filter);
     const [projects, total] = await Promise.all([
-      ProjectMongoDB.find({ userId: userObjectId })
-        .sort({ createdAt: -1 })
-        .skip(skip)
-        .limit(limit)
-        .exec(),
-      ProjectMongoDB.countDocuments({ userId: userObjectId }).exec()
+      ProjectMongoDB.find(query).sort(toProjectSortQuery(sort)).skip((page - 1) * limit).limit(limit).exec(),
+      ProjectMongoDB.countDocuments(query).exec()
     ]);
 
-    const totalPages = Math.ceil(total / limit);
-
     return {
       projects: projects.map(project => this.documentToProject(project)),
       total,
-      totalPages
+      totalPages: Math.ceil(total / limit)
     };
   }
 
   /**
-   * Update project by ID with unique name constraint per user
+   * Find the projects a user can access with keyset pagination
+   * 
+   * Reads one project past the page to know whether more follow; pages before the cursor
+   * are read in reverse order and flipped back.
+   * 
+   * @param {ProjectAccess} access - Projects the user can access
+   * @param {ProjectFilter} filter - Filters the projects must match
+   * @param {ProjectSort} sort - Order of the projects
+   * @param {ProjectCursor | null} cursor - Position to read the page from, or null for the first page
+   * @param {number} limit - Number of projects per page
+   * @param {boolean} includeTotal - Whether to count all the matching projects
+   * @returns {Promise<GetProjectsByCursorResult>} Projects in sort order with paging metadata
+   * 
+   * @throws {AppError} If user ID, an organization ID or a project ID format is invalid
+   */
+  public async findAccessibleProjectsByCursor(
+    access: ProjectAccess,
+    filter: ProjectFilter,
+    sort: ProjectSort,
+    cursor: ProjectCursor | null,
+    limit: number,
+    includeTotal: boolean
+  ): Promise<GetProjectsByCursorResult> {
+    const query = toAccessibleProjectsQuery(access, filter);
+    const backwards = cursor?.direction === 'before';
+    const [projects, total] = await Promise.all([
+      ProjectMongoDB.find(cursor ? { ...query, $and: [toProjectKeysetQuery(sort, cursor)] } : query)
+        .sort(toProjectSortQuery(sort, backwards)).limit(limit + 1).exec(),
+      includeTotal ? ProjectMongoDB.countDocuments(query).exec() : undefined
+    ]);
+
+    const page = projects.slice(0, limit).map(project => this.documentToProject(project));
+    return { projects: backwards ? page.reverse() : page, hasMore: projects.length > limit, total };
+  }
+
+  /**
+   * Count the projects owned by an organization
+   * 
+   * @param {string} organizationId - Organization's MongoDB ObjectId as string
+   * @returns {Promise<number>} Number of projects of the organization
+   * 
+   * @throws {AppError} If organization ID format is invalid
+   */
+  public async countByOrganizationId(organizationId: string): Promise<number> {
+    validateMongoObjectId(organizationId, 'organization');
+    return ProjectMongoDB.countDocuments({ organizationId: new mongoose.Types.ObjectId(organizationId) }).exec();
+  }
+
+  /**
+   * Find the IDs of all personal projects owned by a user
+   * 
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @returns {Promise<string[]>} Project IDs
+   * 
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async findProjectIdsByUserId(userId: string): Promise<string[]> {
+    validateMongoObjectId(userId, 'user');
+    const projects = await ProjectMongoDB.find(
+      { userId: new mongoose.Types.ObjectId(userId), organizationId: null }, { _id: 1 }
+    ).exec();
+    return projects.map(project => (project._id as mongoose.Types.ObjectId).toString());
+  }
+
+  /**
+   * Move a project to a user, making it a personal project of theirs
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} projectId - Project's MongoDB ObjectId as string
+   * @param {string} userId - New owner's MongoDB ObjectId as string
+   * @param {number} now - Current timestamp for updatedAt field
+   * @returns {Promise<Project | null>} Transferred project or null if not found/name conflict
+   * 
+   * @throws {AppError} If project ID or user ID format is invalid
+   * @throws {Error} For database errors other than duplicate name
+   */
+  public async transferProject(
+    session: DatabaseSession<ClientSession>,
+    projectId: string,
+    userId: string,
+    now: number
+  ): Promise<Project | null> {
+    validateMongoObjectIds([{ id: projectId, entityName: 'project' }, { id: userId, entityName: 'user' }]);
+
+    const userObjectId = new mongoose.Types.ObjectId(userId);
+    const update = { userId: userObjectId, ownerId: userObjectId, organizationId: null, updatedAt: new Date(now) };
+    return this.findAndUpdate(session, projectId, update);
+  }
+
+  /**
+   * Update project by ID with unique name constraint per owner
    * 
-   * Updates project fields while maintaining ownership validation and unique
-   * name constraints. Only updates provided fields, preserving others unchanged.
+   * Updates project fields while maintaining unique name constraints.
+   * Only updates provided fields, preserving others unchanged.
    * 
    * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
    * @param {string} projectId - Project's MongoDB ObjectId as string
-   * @param {string} userId - Owner's user ID for ownership validation
    * @param {number} now - Current timestamp for updatedAt field
-   * @param {string} name - Optional new project name (must be unique per user)
+   * @param {string} name - Optional new project name (must be unique per owner)
    * @param {string} gitUrl - Optional new git repository URL
    * @returns {Promise<Project | null>} Updated project or null if not found/conflict
    * 
-   * @throws {AppError} If project ID or user ID format is invalid
+   * @throws {AppError} If project ID format is invalid
    * @throws {Error} For database errors other than duplicate name
    */
   public async updateProject(
     session: DatabaseSession<ClientSession>,
     projectId: string,
-    userId: string,
     now: number,
     name?: string,
     gitUrl?: string
   ): Promise<Project | null> {
-    validateMongoObjectIds([
-      { id: projectId, entityName: 'project' },
-      { id: userId, entityName: 'user' }
-    ]);
+    validateMongoObjectId(projectId, 'project');
 
     const updateData: Partial<Project> = {
       updatedAt: new Date(now)
@@ -176,25 +271,37 @@ export class ProjectDAOMongoDB implements ProjectDAO<ClientSession> {
     if (name !== undefined) updateData.name = name;
     if (gitUrl !== undefined) updateData.gitUrl = gitUrl;
 
+    return this.findAndUpdate(session, projectId, updateData);
+  }
+
+  /**
+   * Apply an update to a project, which fails if the project ends up with the name of
+   * another project of the same owner
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} projectId - Project's MongoDB ObjectId as string
+   * @param {UpdateQuery<ProjectMongoDBInterface>} update - Fields to update
+   * @returns {Promise<Project | null>} Updated project or null if not found/name conflict
+   * 
+   * @throws {Error} For database errors other than duplicate name
+   */
+  private async findAndUpdate(
+    session: DatabaseSession<ClientSession>,
+    projectId: string,
+    update: UpdateQuery<ProjectMongoDBInterface>
+  ): Promise<Project | null> {
     try {
       const updatedProject = await ProjectMongoDB.findOneAndUpdate(
-        { 
-          _id: new mongoose.Types.ObjectId(projectId),
-          userId: new mongoose.Types.ObjectId(userId)
-        },
-        updateData,
-        { 
-          new: true,
-          session: session.session,
-          runValidators: true
-        }
+        { _id: new mongoose.Types.ObjectId(projectId) },
+        update,
+        { new: true, session: session.session, runValidators: true }
       ).exec();
 
       return updatedProject ? this.documentToProject(updatedProject) : null;
     } catch (error: unknown) {
-      // Handle MongoDB duplicate key error for project name per user
-      if (isMongoDBDuplicateKeyError(error) && error.keyPattern?.name && error.keyPattern?.userId) {
-        return null; // Project name conflict for this user
+      // Handle MongoDB duplicate key error for project name per owner
+      if (isMongoDBDuplicateKeyError(error) && error.keyPattern?.name && error.keyPattern?.ownerId) {
+        return null; // Project name conflict for the owner
       }
       throw error; // Re-throw other errors
     }
@@ -203,31 +310,19 @@ export class ProjectDAOMongoDB implements ProjectDAO<ClientSession> {
   /**
    * Delete project by ID
    * 
-   * Deletes a project with ownership validation. Only the project owner
-   * can delete their projects, ensuring data security.
+   * Ownership is validated by the caller before deleting the project.
    * 
    * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
    * @param {string} projectId - Project's MongoDB ObjectId as string
-   * @param {string} userId - Owner's user ID for ownership validation
    * @returns {Promise<boolean>} true if project was deleted, false if not found
    * 
-   * @throws {AppError} If project ID or user ID format is invalid
+   * @throws {AppError} If project ID format is invalid
    */
-  public async deleteProject(
-    session: DatabaseSession<ClientSession>,
-    projectId: string,
-    userId: string
-  ): Promise<boolean> {
-    validateMongoObjectIds([
-      { id: projectId, entityName: 'project' },
-      { id: userId, entityName: 'user' }
-    ]);
+  public async deleteProject(session: DatabaseSession<ClientSession>, projectId: string): Promise<boolean> {
+    validateMongoObjectId(projectId, 'project');
 
     const result = await ProjectMongoDB.deleteOne(
-      { 
-        _id: new mongoose.Types.ObjectId(projectId),
-        userId: new mongoose.Types.ObjectId(userId)
-      },
+      { _id: new mongoose.Types.ObjectId(projectId) },
       { session: session.session }
     ).exec();
 
@@ -235,29 +330,21 @@ export class ProjectDAOMongoDB implements ProjectDAO<ClientSession> {
   }
 
   /**
-   * Check if user owns the project
-   * 
-   * Validates project ownership without retrieving the full project data.
-   * Optimized for authorization checks before project operations.
+   * Delete all personal projects of a user
    * 
-   * @param {string} projectId - Project's MongoDB ObjectId as string
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
    * @param {string} userId - User's MongoDB ObjectId as string
-   * @returns {Promise<boolean>} true if user owns the project, false otherwise
+   * @returns {Promise<number>} Number of projects deleted
    * 
-   * @throws {AppError} If project ID or user ID format is invalid
+   * @throws {AppError} If user ID format is invalid
    */
-  public async isProjectOwnedByUser(projectId: string, userId: string): Promise<boolean> {
-    validateMongoObjectIds([
-      { id: projectId, entityName: 'project' },
-      { id: userId, entityName: 'user' }
-    ]);
-
-    const project = await ProjectMongoDB.findOne({
-      _id: new mongoose.Types.ObjectId(projectId),
-      userId: new mongoose.Types.ObjectId(userId)
-    }).exec();
+  public async deleteAllUserProjects(session: DatabaseSession<ClientSession>, userId: string): Promise<number> {
+    validateMongoObjectId(userId, 'user');
+    const result = await ProjectMongoDB.deleteMany(
+      { userId: new mongoose.Types.ObjectId(userId), organizationId: null },
+      { session: session.session }
+    ).exec();
 
-    return project !== null;
+    return result.deletedCount;
   }
-
 }
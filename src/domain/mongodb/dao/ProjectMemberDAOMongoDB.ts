@@ -0,0 +1,238 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { ProjectMemberMongoDB, ProjectMemberMongoDBInterface } from '../entities/ProjectMemberMongoDB';
+import { ProjectMember, ProjectMemberRole } from '../../interfaces/entities/ProjectMember';
+import { ProjectMemberDAO } from '../../interfaces/dao/ProjectMemberDAO';
+import { DatabaseSession } from '../../interfaces/DatabaseSession';
+import { isMongoDBDuplicateKeyError, validateMongoObjectId, validateMongoObjectIds } from '../utils/MongoDBErrorUtils';
+
+/**
+ * MongoDB implementation of the ProjectMemberDAO interface
+ *
+ * @implements {ProjectMemberDAO<ClientSession>}
+ */
+export class ProjectMemberDAOMongoDB implements ProjectMemberDAO<ClientSession> {
+
+  /**
+   * Convert MongoDB document to ProjectMember interface
+   *
+   * @param {ProjectMemberMongoDBInterface} doc - MongoDB project member document
+   * @returns {ProjectMember} Clean project member entity with string IDs
+   */
+  private documentToProjectMember(doc: ProjectMemberMongoDBInterface): ProjectMember {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      projectId: doc.projectId.toString(),
+      userId: doc.userId.toString(),
+      role: doc.role,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+
+  /**
+   * Add a user to a project
+   *
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} projectId - Project's MongoDB ObjectId as string
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @param {ProjectMemberRole} role - Role granted to the user
+   * @param {number} now - Current timestamp for createdAt/updatedAt
+   * @returns {Promise<ProjectMember | null>} Created membership or null if the user is already a member
+   *
+   * @throws {AppError} If project ID or user ID format is invalid
+   * @throws {Error} For database errors other than duplicate membership
+   */
+  public async createProjectMember(
+    session: DatabaseSession<ClientSession>,
+    projectId: string,
+    userId: string,
+    role: ProjectMemberRole,
+    now: number
+  ): Promise<ProjectMember | null> {
+    validateMongoObjectIds([
+      { id: projectId, entityName: 'project' },
+      { id: userId, entityName: 'user' }
+    ]);
+
+    try {
+      const currentDate = new Date(now);
+      const savedMember = await new ProjectMemberMongoDB({
+        projectId: new mongoose.Types.ObjectId(projectId),
+        userId: new mongoose.Types.ObjectId(userId),
+        role,
+        createdAt: currentDate,
+        updatedAt: currentDate
+      }).save({ session: session.session });
+
+      return this.documentToProjectMember(savedMember);
+    } catch (error: unknown) {
+      if (isMongoDBDuplicateKeyError(error) && error.keyPattern?.projectId && error.keyPattern?.userId) {
+        return null; // User is already a member of the project
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Find the membership of a user in a project
+   *
+   * @param {string} projectId - Project's MongoDB ObjectId as string
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @returns {Promise<ProjectMember | null>} Membership or null if the user is not a member
+   *
+   * @throws {AppError} If project ID or user ID format is invalid
+   */
+  public async findMember(projectId: string, userId: string): Promise<ProjectMember | null> {
+    validateMongoObjectIds([
+      { id: projectId, entityName: 'project' },
+      { id: userId, entityName: 'user' }
+    ]);
+
+    const member = await ProjectMemberMongoDB.findOne({
+      projectId: new mongoose.Types.ObjectId(projectId),
+      userId: new mongoose.Types.ObjectId(userId)
+    }).exec();
+    return member ? this.documentToProjectMember(member) : null;
+  }
+
+  /**
+   * Find all members of a project, oldest first
+   *
+   * @param {string} projectId - Project's MongoDB ObjectId as string
+   * @returns {Promise<ProjectMember[]>} Memberships of the project
+   *
+   * @throws {AppError} If project ID format is invalid
+   */
+  public async findByProjectId(projectId: string): Promise<ProjectMember[]> {
+    validateMongoObjectId(projectId, 'project');
+    const members = await ProjectMemberMongoDB.find({ projectId: new mongoose.Types.ObjectId(projectId) })
+      .sort({ createdAt: 1, _id: 1 })
+      .exec();
+
+    return members.map(member => this.documentToProjectMember(member));
+  }
+
+  /**
+   * Find all memberships of a user
+   *
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @returns {Promise<ProjectMember[]>} Memberships of the user
+   *
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async findByUserId(userId: string): Promise<ProjectMember[]> {
+    validateMongoObjectId(userId, 'user');
+    const members = await ProjectMemberMongoDB.find({ userId: new mongoose.Types.ObjectId(userId) }).exec();
+
+    return members.map(member => this.documentToProjectMember(member));
+  }
+
+  /**
+   * Change the role of a member
+   *
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} projectId - Project's MongoDB ObjectId as string
+   * @param {string} userId - Member's MongoDB ObjectId as string
+   * @param {ProjectMemberRole} role - New role of the member
+   * @param {number} now - Current timestamp for updatedAt field
+   * @returns {Promise<ProjectMember | null>} Updated membership or null if the user is not a member
+   *
+   * @throws {AppError} If project ID or user ID format is invalid
+   */
+  public async updateMemberRole(
+    session: DatabaseSession<ClientSession>,
+    projectId: string,
+    userId: string,
+    role: ProjectMemberRole,
+    now: number
+  ): Promise<ProjectMember | null> {
+    validateMongoObjectIds([
+      { id: projectId, entityName: 'project' },
+      { id: userId, entityName: 'user' }
+    ]);
+
+    const updatedMember = await ProjectMemberMongoDB.findOneAndUpdate(
+      {
+        projectId: new mongoose.Types.ObjectId(projectId),
+        userId: new mongoose.Types.ObjectId(userId)
+      },
+      { role, updatedAt: new Date(now) },
+      { new: true, session: session.session, runValidators: true }
+    ).exec();
+
+    return updatedMember ? this.documentToProjectMember(updatedMember) : null;
+  }
+
+  /**
+   * Remove a user from a project
+   *
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} projectId - Project's MongoDB ObjectId as string
+   * @param {string} userId - Member's MongoDB ObjectId as string
+   * @returns {Promise<boolean>} true if the membership was deleted
+   *
+   * @throws {AppError} If project ID or user ID format is invalid
+   */
+  public async deleteProjectMember(
+    session: DatabaseSession<ClientSession>,
+    projectId: string,
+    userId: string
+  ): Promise<boolean> {
+    validateMongoObjectIds([
+      { id: projectId, entityName: 'project' },
+      { id: userId, entityName: 'user' }
+    ]);
+
+    const result = await ProjectMemberMongoDB.deleteOne(
+      {
+        projectId: new mongoose.Types.ObjectId(projectId),
+        userId: new mongoose.Types.ObjectId(userId)
+      },
+      { session: session.session }
+    ).exec();
+
+    return result.deletedCount === 1;
+  }
+
+  /**
+   * Delete all members of the given projects
+   *
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string[]} projectIds - Projects' MongoDB ObjectIds as strings
+   * @returns {Promise<number>} Number of memberships deleted
+   *
+   * @throws {AppError} If a project ID format is invalid
+   */
+  public async deleteAllProjectMembers(session: DatabaseSession<ClientSession>, projectIds: string[]): Promise<number> {
+    if (projectIds.length === 0) {
+      return 0;
+    }
+    validateMongoObjectIds(projectIds.map(id => ({ id, entityName: 'project' })));
+
+    const result = await ProjectMemberMongoDB.deleteMany(
+      { projectId: { $in: projectIds.map(id => new mongoose.Types.ObjectId(id)) } },
+      { session: session.session }
+    ).exec();
+
+    return result.deletedCount;
+  }
+
+  /**
+   * Delete all memberships of a user
+   *
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @returns {Promise<number>} Number of memberships deleted
+   *
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async deleteAllUserMemberships(session: DatabaseSession<ClientSession>, userId: string): Promise<number> {
+    validateMongoObjectId(userId, 'user');
+    const result = await ProjectMemberMongoDB.deleteMany(
+      { userId: new mongoose.Types.ObjectId(userId) },
+      { session: session.session }
+    ).exec();
+
+    return result.deletedCount;
+  }
+}
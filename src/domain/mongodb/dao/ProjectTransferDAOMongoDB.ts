@@ -0,0 +1,146 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { ProjectTransferMongoDB, ProjectTransferMongoDBInterface } from '../entities/ProjectTransferMongoDB';
+import { ProjectTransfer } from '../../interfaces/entities/ProjectTransfer';
+import { ProjectTransferDAO } from '../../interfaces/dao/ProjectTransferDAO';
+import { DatabaseSession } from '../../interfaces/DatabaseSession';
+import { validateMongoObjectId, validateMongoObjectIds } from '../utils/MongoDBErrorUtils';
+
+/**
+ * MongoDB implementation of the ProjectTransferDAO interface
+ *
+ * @implements {ProjectTransferDAO<ClientSession>}
+ */
+export class ProjectTransferDAOMongoDB implements ProjectTransferDAO<ClientSession> {
+
+  /**
+   * Convert MongoDB document to ProjectTransfer interface
+   *
+   * @param {ProjectTransferMongoDBInterface} doc - MongoDB project transfer document
+   * @returns {ProjectTransfer} Clean project transfer entity with string IDs
+   */
+  private documentToProjectTransfer(doc: ProjectTransferMongoDBInterface): ProjectTransfer {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      projectId: doc.projectId.toString(),
+      fromUserId: doc.fromUserId.toString(),
+      toUserId: doc.toUserId.toString(),
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+
+  /**
+   * Request the transfer of a project, replacing any pending transfer of the project
+   *
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} projectId - Project's MongoDB ObjectId as string
+   * @param {string} fromUserId - Requesting user's MongoDB ObjectId as string
+   * @param {string} toUserId - Recipient's MongoDB ObjectId as string
+   * @param {number} now - Current timestamp for createdAt/updatedAt
+   * @returns {Promise<ProjectTransfer>} Pending transfer
+   *
+   * @throws {AppError} If project ID or user ID format is invalid
+   */
+  public async saveProjectTransfer(
+    session: DatabaseSession<ClientSession>,
+    projectId: string,
+    fromUserId: string,
+    toUserId: string,
+    now: number
+  ): Promise<ProjectTransfer> {
+    validateMongoObjectIds([
+      { id: projectId, entityName: 'project' },
+      { id: fromUserId, entityName: 'user' },
+      { id: toUserId, entityName: 'user' }
+    ]);
+
+    const currentDate = new Date(now);
+    const transfer = await ProjectTransferMongoDB.findOneAndUpdate(
+      { projectId: new mongoose.Types.ObjectId(projectId) },
+      {
+        fromUserId: new mongoose.Types.ObjectId(fromUserId),
+        toUserId: new mongoose.Types.ObjectId(toUserId),
+        createdAt: currentDate,
+        updatedAt: currentDate
+      },
+      { new: true, upsert: true, session: session.session, timestamps: false }
+    ).exec();
+
+    return this.documentToProjectTransfer(transfer);
+  }
+
+  /**
+   * Find the pending transfer of a project
+   *
+   * @param {string} projectId - Project's MongoDB ObjectId as string
+   * @returns {Promise<ProjectTransfer | null>} Pending transfer or null if none
+   *
+   * @throws {AppError} If project ID format is invalid
+   */
+  public async findByProjectId(projectId: string): Promise<ProjectTransfer | null> {
+    validateMongoObjectId(projectId, 'project');
+    const transfer = await ProjectTransferMongoDB.findOne(
+      { projectId: new mongoose.Types.ObjectId(projectId) }
+    ).exec();
+    return transfer ? this.documentToProjectTransfer(transfer) : null;
+  }
+
+  /**
+   * Find the pending transfers offered to a user, newest first
+   *
+   * @param {string} userId - Recipient's MongoDB ObjectId as string
+   * @returns {Promise<ProjectTransfer[]>} Pending transfers
+   *
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async findByToUserId(userId: string): Promise<ProjectTransfer[]> {
+    validateMongoObjectId(userId, 'user');
+    const transfers = await ProjectTransferMongoDB.find(
+      { toUserId: new mongoose.Types.ObjectId(userId) }
+    ).sort({ createdAt: -1, _id: -1 }).exec();
+
+    return transfers.map(transfer => this.documentToProjectTransfer(transfer));
+  }
+
+  /**
+   * Delete the pending transfer of a project
+   *
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} projectId - Project's MongoDB ObjectId as string
+   * @returns {Promise<boolean>} true if a transfer was deleted
+   *
+   * @throws {AppError} If project ID format is invalid
+   */
+  public async deleteProjectTransfer(session: DatabaseSession<ClientSession>, projectId: string): Promise<boolean> {
+    validateMongoObjectId(projectId, 'project');
+    const result = await ProjectTransferMongoDB.deleteOne(
+      { projectId: new mongoose.Types.ObjectId(projectId) },
+      { session: session.session }
+    ).exec();
+
+    return result.deletedCount === 1;
+  }
+
+  /**
+   * Delete all pending transfers requested by or offered to a user
+   *
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @returns {Promise<number>} Number of transfers deleted
+   *
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async deleteAllUserProjectTransfers(
+    session: DatabaseSession<ClientSession>,
+    userId: string
+  ): Promise<number> {
+    validateMongoObjectId(userId, 'user');
+    const userObjectId = new mongoose.Types.ObjectId(userId);
+    const result = await ProjectTransferMongoDB.deleteMany(
+      { $or: [{ fromUserId: userObjectId }, { toUserId: userObjectId }] },
+      { session: session.session }
+    ).exec();
+
+    return result.deletedCount;
+  }
+}
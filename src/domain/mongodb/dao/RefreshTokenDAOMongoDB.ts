@@ -3,7 +3,8 @@ import { RefreshTokenMongoDB, RefreshTokenMongoDBInterface } from '../entities/R
 import { RefreshToken } from '../../interfaces/entities/RefreshToken';
 import { RefreshTokenDAO } from '../../interfaces/dao/RefreshTokenDAO';
 import { DatabaseSession } from '../../interfaces/DatabaseSession';
-import { extractUserIdString } from '../utils/MongoDBErrorUtils';
+import { extractUserIdString, validateMongoObjectId } from '../utils/MongoDBErrorUtils';
+import { hashToken } from '../utils/BaseTokenMongoDB';
 
 /**
  * MongoDB implementation of the RefreshTokenDAO interface
@@ -28,7 +29,9 @@ export class RefreshTokenDAOMongoDB implements RefreshTokenDAO<ClientSession> {
     return {
       id: (doc._id as mongoose.Types.ObjectId).toString(),
       userId: userIdString,
-      token: doc.token,
+      // Tokens stored before families were introduced form a family of their own
+      familyId: doc.familyId ?? (doc._id as mongoose.Types.ObjectId).toString(),
+      tokenHash: doc.tokenHash,
       expiresAt: doc.expiresAt,
       isRevoked: doc.isRevoked,
       createdAt: doc.createdAt,
@@ -44,7 +47,8 @@ export class RefreshTokenDAOMongoDB implements RefreshTokenDAO<ClientSession> {
    * 
    * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
    * @param {string} userId - User ID associated with the token
-   * @param {string} token - JWT refresh token string (must be unique)
+   * @param {string} familyId - Token family identifier
+   * @param {string} token - JWT refresh token string, stored as its hash (must be unique)
    * @param {Date} expiresAt - Token expiration date
    * @param {number} now - Current timestamp for createdAt/updatedAt
    * @returns {Promise<RefreshToken>} Created refresh token entity
@@ -52,6 +56,7 @@ export class RefreshTokenDAOMongoDB implements RefreshTokenDAO<ClientSession> {
   public async createRefreshToken(
     session: DatabaseSession<ClientSession>,
     userId: string,
+    familyId: string,
     token: string,
     expiresAt: Date,
     now: number
@@ -59,7 +64,8 @@ export class RefreshTokenDAOMongoDB implements RefreshTokenDAO<ClientSession> {
     const currentDate = new Date(now);
     const savedToken = await new RefreshTokenMongoDB({
       userId,
-      token,
+      familyId,
+      tokenHash: hashToken(token),
       expiresAt,
       createdAt: currentDate,
       updatedAt: currentDate
@@ -74,18 +80,36 @@ export class RefreshTokenDAOMongoDB implements RefreshTokenDAO<ClientSession> {
    * Retrieves non-revoked refresh token with user information populated.
    * Filters out revoked tokens for security.
    * 
-   * @param {string} token - JWT refresh token string to find
+   * @param {string} token - JWT refresh token string to find, looked up by its hash
    * @returns {Promise<RefreshToken | null>} Refresh token with user data or null if not found
    */
   public async findRefreshToken(token: string): Promise<RefreshToken | null> {
     const refreshToken = await RefreshTokenMongoDB.findOne({
-      token, 
+      tokenHash: hashToken(token),
       isRevoked: false 
     }).populate('userId').exec();
 
     return refreshToken ? this.documentToRefreshToken(refreshToken) : null;
   }
 
+  /**
+   * Find revoked refresh token by token string
+   * 
+   * Retrieves refresh token only when it is already revoked, allowing
+   * callers to detect replay of rotated tokens.
+   * 
+   * @param {string} token - JWT refresh token string to find, looked up by its hash
+   * @returns {Promise<RefreshToken | null>} Revoked refresh token or null if not found or still active
+   */
+  public async findRevokedRefreshToken(token: string): Promise<RefreshToken | null> {
+    const refreshToken = await RefreshTokenMongoDB.findOne({
+      tokenHash: hashToken(token),
+      isRevoked: true
+    }).exec();
+
+    return refreshToken ? this.documentToRefreshToken(refreshToken) : null;
+  }
+
   /**
    * Revoke refresh token
    * 
@@ -93,17 +117,17 @@ export class RefreshTokenDAOMongoDB implements RefreshTokenDAO<ClientSession> {
    * multiple times - returns false if token doesn't exist.
    * 
    * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
-   * @param {string} token - JWT refresh token string to revoke
+   * @param {string} token - JWT refresh token string to revoke, looked up by its hash
    * @param {number} now - Current timestamp for updatedAt field
    * @returns {Promise<boolean>} true if token was found and revoked, false if not found
    */
   public async revokeRefreshToken(
     session: DatabaseSession<ClientSession>, 
-    token: string, 
+    token: string,
     now: number
   ): Promise<boolean> {
     const result = await RefreshTokenMongoDB.updateOne(
-      { token },
+      { tokenHash: hashToken(token) },
       { $set: { isRevoked: true, updatedAt: new Date(now) } },
       { session: session.session }
     ).exec();
@@ -111,6 +135,65 @@ export class RefreshTokenDAOMongoDB implements RefreshTokenDAO<ClientSession> {
     return result.modifiedCount > 0;
   }
 
+  /**
+   * Revoke all refresh tokens of a token family
+   * 
+   * Marks every non-revoked refresh token of the family as revoked in a
+   * single update.
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} familyId - Token family identifier
+   * @param {number} now - Current timestamp for updatedAt field
+   * @returns {Promise<number>} Number of tokens revoked
+   */
+  public async revokeRefreshTokenFamily(
+    session: DatabaseSession<ClientSession>,
+    familyId: string,
+    now: number
+  ): Promise<number> {
+    const result = await RefreshTokenMongoDB.updateMany(
+      { familyId, isRevoked: false },
+      { $set: { isRevoked: true, updatedAt: new Date(now) } },
+      { session: session.session }
+    ).exec();
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Revoke all refresh tokens of a user
+   * 
+   * Marks every non-revoked refresh token of the user as revoked in a
+   * single update.
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @param {number} now - Current timestamp for updatedAt field
+   * @param {string} [exceptFamilyId] - Optional token family whose tokens are kept
+   * @returns {Promise<number>} Number of tokens revoked
+   * 
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async revokeAllUserRefreshTokens(
+    session: DatabaseSession<ClientSession>,
+    userId: string,
+    now: number,
+    exceptFamilyId?: string
+  ): Promise<number> {
+    validateMongoObjectId(userId, 'user');
+    const result = await RefreshTokenMongoDB.updateMany(
+      {
+        userId: new mongoose.Types.ObjectId(userId),
+        isRevoked: false,
+        ...(exceptFamilyId ? { familyId: { $ne: exceptFamilyId } } : {})
+      },
+      { $set: { isRevoked: true, updatedAt: new Date(now) } },
+      { session: session.session }
+    ).exec();
+
+    return result.modifiedCount;
+  }
+
   /**
    * Clean expired refresh tokens
    * 
@@ -119,12 +202,36 @@ export class RefreshTokenDAOMongoDB implements RefreshTokenDAO<ClientSession> {
    * 
    * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
    * @param {Date} expirationDate - Date threshold for token cleanup
-   * @returns {Promise<void>} Resolves when cleanup is complete
+   * @returns {Promise<number>} Number of refresh tokens deleted
    */
-  public async cleanExpiredRefreshTokens(session: DatabaseSession<ClientSession>, expirationDate: Date): Promise<void> {
-    await RefreshTokenMongoDB.deleteMany(
+  public async cleanExpiredRefreshTokens(
+    session: DatabaseSession<ClientSession>,
+    expirationDate: Date
+  ): Promise<number> {
+    const result = await RefreshTokenMongoDB.deleteMany(
       { expiresAt: { $lt: expirationDate } },
       { session: session.session }
     ).exec();
+
+    return result.deletedCount;
+  }
+
+  /**
+   * Delete all refresh tokens of a user
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @returns {Promise<number>} Number of refresh tokens deleted
+   * 
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async deleteAllUserRefreshTokens(session: DatabaseSession<ClientSession>, userId: string): Promise<number> {
+    validateMongoObjectId(userId, 'user');
+    const result = await RefreshTokenMongoDB.deleteMany(
+      { userId: new mongoose.Types.ObjectId(userId) },
+      { session: session.session }
+    ).exec();
+
+    return result.deletedCount;
   }
 }
@@ -0,0 +1,190 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { TotpCredentialMongoDB, TotpCredentialMongoDBInterface } from '../entities/TotpCredentialMongoDB';
+import { TotpCredential } from '../../interfaces/entities/TotpCredential';
+import { TotpCredentialDAO } from '../../interfaces/dao/TotpCredentialDAO';
+import { DatabaseSession } from '../../interfaces/DatabaseSession';
+import { isMongoDBDuplicateKeyError, validateMongoObjectId } from '../utils/MongoDBErrorUtils';
+
+/**
+ * MongoDB implementation of the TotpCredentialDAO interface
+ * 
+ * @implements {TotpCredentialDAO<ClientSession>}
+ */
+export class TotpCredentialDAOMongoDB implements TotpCredentialDAO<ClientSession> {
+
+  /**
+   * Convert MongoDB document to TotpCredential interface
+   * 
+   * @param {TotpCredentialMongoDBInterface} doc - MongoDB TOTP credential document
+   * @returns {TotpCredential} Clean TOTP credential entity with string IDs
+   */
+  private documentToTotpCredential(doc: TotpCredentialMongoDBInterface): TotpCredential {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      userId: doc.userId.toString(),
+      secret: doc.secret,
+      isConfirmed: doc.isConfirmed,
+      lastUsedStep: doc.lastUsedStep,
+      recoveryCodeHashes: [...doc.recoveryCodeHashes],
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+
+  /**
+   * Find the credential of a user
+   * 
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @returns {Promise<TotpCredential | null>} Credential or null if none
+   * 
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async findByUserId(userId: string): Promise<TotpCredential | null> {
+    validateMongoObjectId(userId, 'user');
+    const credential = await TotpCredentialMongoDB.findOne({ userId: new mongoose.Types.ObjectId(userId) }).exec();
+    return credential ? this.documentToTotpCredential(credential) : null;
+  }
+
+  /**
+   * Create or replace the pending credential of a user
+   * 
+   * Upserts on the unconfirmed credential; when a confirmed credential exists
+   * the insert hits the unique user index and null is returned.
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @param {string} secret - Base32 encoded shared secret
+   * @param {string[]} recoveryCodeHashes - Hashes of the generated recovery codes
+   * @param {number} now - Current timestamp for createdAt/updatedAt
+   * @returns {Promise<TotpCredential | null>} Pending credential or null if a confirmed one exists
+   * 
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async savePendingCredential(
+    session: DatabaseSession<ClientSession>,
+    userId: string,
+    secret: string,
+    recoveryCodeHashes: string[],
+    now: number
+  ): Promise<TotpCredential | null> {
+    validateMongoObjectId(userId, 'user');
+
+    const currentDate = new Date(now);
+    try {
+      const credential = await TotpCredentialMongoDB.findOneAndUpdate(
+        { userId: new mongoose.Types.ObjectId(userId), isConfirmed: false },
+        {
+          $set: { secret, recoveryCodeHashes, lastUsedStep: 0, createdAt: currentDate, updatedAt: currentDate }
+        },
+        { new: true, upsert: true, timestamps: false, session: session.session }
+      ).exec();
+
+      return this.documentToTotpCredential(credential);
+    } catch (error: unknown) {
+      if (isMongoDBDuplicateKeyError(error)) {
+        return null; // A confirmed credential already exists
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Confirm the pending credential of a user
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @param {number} step - Time step of the code used for confirmation
+   * @param {number} now - Current timestamp for updatedAt field
+   * @returns {Promise<boolean>} True if a pending credential was confirmed
+   * 
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async confirmCredential(
+    session: DatabaseSession<ClientSession>,
+    userId: string,
+    step: number,
+    now: number
+  ): Promise<boolean> {
+    validateMongoObjectId(userId, 'user');
+    const result = await TotpCredentialMongoDB.updateOne(
+      { userId: new mongoose.Types.ObjectId(userId), isConfirmed: false },
+      { $set: { isConfirmed: true, lastUsedStep: step, updatedAt: new Date(now) } },
+      { timestamps: false, session: session.session }
+    ).exec();
+
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Record the use of a code
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @param {number} step - Time step of the accepted code
+   * @param {number} now - Current timestamp for updatedAt field
+   * @returns {Promise<boolean>} True if the step had not been used yet
+   * 
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async useStep(
+    session: DatabaseSession<ClientSession>,
+    userId: string,
+    step: number,
+    now: number
+  ): Promise<boolean> {
+    validateMongoObjectId(userId, 'user');
+    const result = await TotpCredentialMongoDB.updateOne(
+      { userId: new mongoose.Types.ObjectId(userId), isConfirmed: true, lastUsedStep: { $lt: step } },
+      { $set: { lastUsedStep: step, updatedAt: new Date(now) } },
+      { timestamps: false, session: session.session }
+    ).exec();
+
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Use a recovery code
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @param {string} codeHash - Hash of the recovery code entered by the user
+   * @param {number} now - Current timestamp for updatedAt field
+   * @returns {Promise<TotpCredential | null>} Updated credential or null if the code is unknown or used
+   * 
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async useRecoveryCode(
+    session: DatabaseSession<ClientSession>,
+    userId: string,
+    codeHash: string,
+    now: number
+  ): Promise<TotpCredential | null> {
+    validateMongoObjectId(userId, 'user');
+    const credential = await TotpCredentialMongoDB.findOneAndUpdate(
+      { userId: new mongoose.Types.ObjectId(userId), isConfirmed: true, recoveryCodeHashes: codeHash },
+      { $pull: { recoveryCodeHashes: codeHash }, $set: { updatedAt: new Date(now) } },
+      { new: true, timestamps: false, session: session.session }
+    ).exec();
+
+    return credential ? this.documentToTotpCredential(credential) : null;
+  }
+
+  /**
+   * Delete the credential of a user
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @returns {Promise<boolean>} True if a credential was deleted
+   * 
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async deleteCredential(session: DatabaseSession<ClientSession>, userId: string): Promise<boolean> {
+    validateMongoObjectId(userId, 'user');
+    const result = await TotpCredentialMongoDB.deleteOne(
+      { userId: new mongoose.Types.ObjectId(userId) },
+      { session: session.session }
+    ).exec();
+
+    return result.deletedCount > 0;
+  }
+}
@@ -1,9 +1,10 @@
 import mongoose, { ClientSession } from 'mongoose';
 import { UserMongoDB, UserMongoDBInterface } from '../entities/UserMongoDB';
-import { User } from '../../interfaces/entities/User';
-import { UserDAO } from '../../interfaces/dao/UserDAO';
+import { User, UserRole } from '../../interfaces/entities/User';
+import { GetAllUsersResult, UserDAO } from '../../interfaces/dao/UserDAO';
 import { DatabaseSession } from '../../interfaces/DatabaseSession';
-import { isMongoDBDuplicateKeyError, validateMongoObjectId } from '../utils/MongoDBErrorUtils';
+import { escapeRegex, isMongoDBDuplicateKeyError, validateMongoObjectId } from '../utils/MongoDBErrorUtils';
+import { AppError } from '../../../setup/middleware/errorHandler';
 
 /**
  * MongoDB implementation of the UserDAO interface
@@ -26,6 +27,10 @@ export class UserDAOMongoDB implements UserDAO<ClientSession> {
       id: (doc._id as mongoose.Types.ObjectId).toString(),
       username: doc.username,
       password: doc.password,
+      email: doc.email,
+      isEmailVerified: doc.isEmailVerified,
+      roles: doc.roles,
+      isDisabled: doc.isDisabled,
       createdAt: doc.createdAt,
       updatedAt: doc.updatedAt
     };
@@ -41,6 +46,8 @@ export class UserDAOMongoDB implements UserDAO<ClientSession> {
    * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
    * @param {string} username - Unique username for the user
    * @param {string} hashedPassword - Pre-hashed password (never store plain text)
+   * @param {UserRole[]} roles - Roles granted to the new user
+   * @param {string | null} email - Lower-case email address, stored unverified, or null
    * @returns {Promise<User | null>} Created user or null if username exists
    * 
    * @throws {Error} For database errors other than duplicate username
@@ -48,12 +55,16 @@ export class UserDAOMongoDB implements UserDAO<ClientSession> {
   public async createUser(
     session: DatabaseSession<ClientSession>,
     username: string, 
-    hashedPassword: string
+    hashedPassword: string,
+    roles: UserRole[],
+    email: string | null
   ): Promise<User | null> {
     try {
       const savedUser = await new UserMongoDB({
         username,
-        password: hashedPassword
+        password: hashedPassword,
+        roles,
+        email
       }).save({ session: session.session });
 
       return this.documentToUser(savedUser);
@@ -113,4 +124,217 @@ export class UserDAOMongoDB implements UserDAO<ClientSession> {
     const user = await UserMongoDB.findOne({ username }).exec();
     return user ? this.documentToUser(user) : null;
   }
+
+  /**
+   * Find user by verified email address (excluding password)
+   * 
+   * @param {string} email - Lower-case email address to search for
+   * @returns {Promise<User | null>} User without password or null if no user verified the address
+   */
+  public async findByEmail(email: string): Promise<User | null> {
+    const user = await UserMongoDB.findOne({ email, isEmailVerified: true }).select('-password').exec();
+    return user ? this.documentToUser(user) : null;
+  }
+
+  /**
+   * Find user by verified email address including password (for authentication)
+   * 
+   * @param {string} email - Lower-case email address to search for
+   * @returns {Promise<User | null>} User with password or null if no user verified the address
+   * 
+   * @security Only use for authentication - password field is included
+   */
+  public async findByEmailWithPassword(email: string): Promise<User | null> {
+    const user = await UserMongoDB.findOne({ email, isEmailVerified: true }).exec();
+    return user ? this.documentToUser(user) : null;
+  }
+
+  /**
+   * Find users claiming an email address they have not verified yet (excluding password)
+   * 
+   * @param {string} email - Lower-case email address to search for
+   * @returns {Promise<User[]>} Users without password holding the address unverified
+   */
+  public async findUnverifiedByEmail(email: string): Promise<User[]> {
+    const users = await UserMongoDB.find({ email, isEmailVerified: false }).select('-password').exec();
+    return users.map(user => this.documentToUser(user));
+  }
+
+  /**
+   * Mark the email address of a user as verified
+   * 
+   * Matches on both ID and address so a changed address stays unverified.
+   * The address is then removed from the users claiming it unverified.
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @param {string} email - Lower-case email address that was verified
+   * @returns {Promise<boolean>} true if the user was updated, false if not found or the address changed
+   * 
+   * @throws {AppError} If userId format is invalid or another user already verified the address (409)
+   */
+  public async markEmailVerified(
+    session: DatabaseSession<ClientSession>,
+    userId: string,
+    email: string
+  ): Promise<boolean> {
+    validateMongoObjectId(userId, 'user');
+    const _id = new mongoose.Types.ObjectId(userId);
+    try {
+      const result = await UserMongoDB.updateOne(
+        { _id, email },
+        { $set: { isEmailVerified: true } },
+        { session: session.session }
+      ).exec();
+      if (result.matchedCount !== 1) {
+        return false;
+      }
+    } catch (error: unknown) {
+      if (isMongoDBDuplicateKeyError(error) && error.keyPattern?.email) {
+        throw new AppError('Email already registered', 409);
+      }
+      throw error;
+    }
+
+    await UserMongoDB.updateMany(
+      { _id: { $ne: _id }, email, isEmailVerified: false },
+      { $set: { email: null } },
+      { session: session.session }
+    ).exec();
+    return true;
+  }
+
+  /**
+   * Replace the roles of a user
+   * 
+   * Overwrites the role list and returns the updated user with password
+   * excluded. Validates ObjectId format before querying.
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @param {UserRole[]} roles - New role list
+   * @returns {Promise<User | null>} Updated user without password or null if not found
+   * 
+   * @throws {AppError} If userId format is invalid
+   */
+  public async updateRoles(
+    session: DatabaseSession<ClientSession>,
+    userId: string,
+    roles: UserRole[]
+  ): Promise<User | null> {
+    validateMongoObjectId(userId, 'user');
+    const user = await UserMongoDB.findByIdAndUpdate(
+      userId,
+      { $set: { roles } },
+      { new: true, session: session.session }
+    ).select('-password').exec();
+    return user ? this.documentToUser(user) : null;
+  }
+
+  /**
+   * Replace the password hash of a user
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @param {string} hashedPassword - New pre-hashed password (never store plain text)
+   * @returns {Promise<boolean>} true if the user was updated, false if not found
+   * 
+   * @throws {AppError} If userId format is invalid
+   */
+  public async updatePassword(
+    session: DatabaseSession<ClientSession>,
+    userId: string,
+    hashedPassword: string
+  ): Promise<boolean> {
+    validateMongoObjectId(userId, 'user');
+    const result = await UserMongoDB.updateOne(
+      { _id: new mongoose.Types.ObjectId(userId) },
+      { $set: { password: hashedPassword } },
+      { session: session.session }
+    ).exec();
+
+    return result.matchedCount === 1;
+  }
+
+  /**
+   * Find users with pagination
+   * 
+   * Retrieves users sorted by username with password excluded. The optional
+   * prefix is escaped and anchored so the username index can serve the query.
+   * 
+   * @param {number} page - Page number (1-based)
+   * @param {number} limit - Number of users per page
+   * @param {string} [usernamePrefix] - Optional username prefix to filter by
+   * @returns {Promise<GetAllUsersResult>} Paginated users with metadata
+   */
+  public async findUsers(page: number, limit: number, usernamePrefix?: string): Promise<GetAllUsersResult> {
+    const skip = (page - 1) * limit;
+    const filter = usernamePrefix
+      ? { username: { $regex: `^${escapeRegex(usernamePrefix)}` } }
+      : {};
+
+    const [users, total] = await Promise.all([
+      UserMongoDB.find(filter)
+        .select('-password')
+        .sort({ username: 1 })
+        .skip(skip)
+        .limit(limit)
+        .exec(),
+      UserMongoDB.countDocuments(filter).exec()
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      users: users.map(user => this.documentToUser(user)),
+      total,
+      totalPages
+    };
+  }
+
+  /**
+   * Disable or enable a user account
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @param {boolean} isDisabled - True to disable the account, false to enable it
+   * @returns {Promise<User | null>} Updated user without password or null if not found
+   * 
+   * @throws {AppError} If userId format is invalid
+   */
+  public async setUserDisabled(
+    session: DatabaseSession<ClientSession>,
+    userId: string,
+    isDisabled: boolean
+  ): Promise<User | null> {
+    validateMongoObjectId(userId, 'user');
+    const user = await UserMongoDB.findByIdAndUpdate(
+      userId,
+      { $set: { isDisabled } },
+      { new: true, session: session.session }
+    ).select('-password').exec();
+    return user ? this.documentToUser(user) : null;
+  }
+
+  /**
+   * Delete user by ID
+   * 
+   * Removes the user document only; owned projects and tokens must be
+   * deleted by the caller within the same transaction.
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @returns {Promise<boolean>} true if user was deleted, false if not found
+   * 
+   * @throws {AppError} If userId format is invalid
+   */
+  public async deleteUser(session: DatabaseSession<ClientSession>, userId: string): Promise<boolean> {
+    validateMongoObjectId(userId, 'user');
+    const result = await UserMongoDB.deleteOne(
+      { _id: new mongoose.Types.ObjectId(userId) },
+      { session: session.session }
+    ).exec();
+
+    return result.deletedCount === 1;
+  }
 }
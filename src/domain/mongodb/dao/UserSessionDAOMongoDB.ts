@@ -0,0 +1,207 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { UserSessionMongoDB, UserSessionMongoDBInterface } from '../entities/UserSessionMongoDB';
+import { UserSession } from '../../interfaces/entities/UserSession';
+import { UserSessionDAO } from '../../interfaces/dao/UserSessionDAO';
+import { DatabaseSession } from '../../interfaces/DatabaseSession';
+import { validateMongoObjectId } from '../utils/MongoDBErrorUtils';
+
+/**
+ * MongoDB implementation of the UserSessionDAO interface
+ * 
+ * @implements {UserSessionDAO<ClientSession>}
+ */
+export class UserSessionDAOMongoDB implements UserSessionDAO<ClientSession> {
+
+  /**
+   * Convert MongoDB document to UserSession interface
+   * 
+   * @param {UserSessionMongoDBInterface} doc - MongoDB user session document
+   * @returns {UserSession} Clean user session entity with string IDs
+   */
+  private documentToUserSession(doc: UserSessionMongoDBInterface): UserSession {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      userId: doc.userId.toString(),
+      userAgent: doc.userAgent,
+      ip: doc.ip,
+      lastUsedAt: doc.lastUsedAt,
+      isRevoked: doc.isRevoked,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+
+  /**
+   * Create a new user session
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - Owner's user ID (MongoDB ObjectId as string)
+   * @param {string} userAgent - Client User-Agent header
+   * @param {string} ip - Client IP address
+   * @param {number} now - Current timestamp for createdAt/updatedAt/lastUsedAt
+   * @returns {Promise<UserSession>} Created user session
+   * 
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async createUserSession(
+    session: DatabaseSession<ClientSession>,
+    userId: string,
+    userAgent: string,
+    ip: string,
+    now: number
+  ): Promise<UserSession> {
+    validateMongoObjectId(userId, 'user');
+
+    const currentDate = new Date(now);
+    const savedSession = await new UserSessionMongoDB({
+      userId: new mongoose.Types.ObjectId(userId),
+      userAgent,
+      ip,
+      lastUsedAt: currentDate,
+      createdAt: currentDate,
+      updatedAt: currentDate
+    }).save({ session: session.session });
+
+    return this.documentToUserSession(savedSession);
+  }
+
+  /**
+   * Find session by ID
+   * 
+   * @param {string} sessionId - Session's MongoDB ObjectId as string
+   * @returns {Promise<UserSession | null>} Session entity or null if not found
+   * 
+   * @throws {AppError} If session ID format is invalid
+   */
+  public async findById(sessionId: string): Promise<UserSession | null> {
+    validateMongoObjectId(sessionId, 'session');
+    const userSession = await UserSessionMongoDB.findById(sessionId).exec();
+    return userSession ? this.documentToUserSession(userSession) : null;
+  }
+
+  /**
+   * Find active sessions of a user, most recently used first
+   * 
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @returns {Promise<UserSession[]>} Active sessions of the user
+   * 
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async findActiveByUserId(userId: string): Promise<UserSession[]> {
+    validateMongoObjectId(userId, 'user');
+    const userSessions = await UserSessionMongoDB.find({
+      userId: new mongoose.Types.ObjectId(userId),
+      isRevoked: false
+    }).sort({ lastUsedAt: -1 }).exec();
+
+    return userSessions.map(userSession => this.documentToUserSession(userSession));
+  }
+
+  /**
+   * Record session activity
+   * 
+   * Identifiers that are not valid ObjectIds (token families created before
+   * sessions existed) cannot match any session and are ignored.
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} sessionId - Session's MongoDB ObjectId as string
+   * @param {number} now - Current timestamp for lastUsedAt/updatedAt
+   * @returns {Promise<boolean>} true if an active session was updated
+   */
+  public async touchUserSession(
+    session: DatabaseSession<ClientSession>,
+    sessionId: string,
+    now: number
+  ): Promise<boolean> {
+    if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+      return false;
+    }
+
+    const currentDate = new Date(now);
+    const result = await UserSessionMongoDB.updateOne(
+      { _id: new mongoose.Types.ObjectId(sessionId), isRevoked: false },
+      { $set: { lastUsedAt: currentDate, updatedAt: currentDate } },
+      { session: session.session }
+    ).exec();
+
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Revoke a session
+   * 
+   * Identifiers that are not valid ObjectIds cannot match any session and are ignored.
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} sessionId - Session's MongoDB ObjectId as string
+   * @param {number} now - Current timestamp for updatedAt field
+   * @returns {Promise<boolean>} true if an active session was revoked
+   */
+  public async revokeUserSession(
+    session: DatabaseSession<ClientSession>,
+    sessionId: string,
+    now: number
+  ): Promise<boolean> {
+    if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+      return false;
+    }
+
+    const result = await UserSessionMongoDB.updateOne(
+      { _id: new mongoose.Types.ObjectId(sessionId), isRevoked: false },
+      { $set: { isRevoked: true, updatedAt: new Date(now) } },
+      { session: session.session }
+    ).exec();
+
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Revoke all active sessions of a user
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @param {number} now - Current timestamp for updatedAt field
+   * @param {string} [exceptSessionId] - Optional session that is kept active
+   * @returns {Promise<number>} Number of sessions revoked
+   * 
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async revokeAllUserSessions(
+    session: DatabaseSession<ClientSession>,
+    userId: string,
+    now: number,
+    exceptSessionId?: string
+  ): Promise<number> {
+    validateMongoObjectId(userId, 'user');
+    const result = await UserSessionMongoDB.updateMany(
+      {
+        userId: new mongoose.Types.ObjectId(userId),
+        isRevoked: false,
+        ...(exceptSessionId ? { _id: { $ne: new mongoose.Types.ObjectId(exceptSessionId) } } : {})
+      },
+      { $set: { isRevoked: true, updatedAt: new Date(now) } },
+      { session: session.session }
+    ).exec();
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Delete all sessions of a user
+   * 
+   * @param {DatabaseSession<ClientSession>} session - Database session for transaction support
+   * @param {string} userId - User's MongoDB ObjectId as string
+   * @returns {Promise<number>} Number of sessions deleted
+   * 
+   * @throws {AppError} If user ID format is invalid
+   */
+  public async deleteAllUserSessions(session: DatabaseSession<ClientSession>, userId: string): Promise<number> {
+    validateMongoObjectId(userId, 'user');
+    const result = await UserSessionMongoDB.deleteMany(
+      { userId: new mongoose.Types.ObjectId(userId) },
+      { session: session.session }
+    ).exec();
+
+    return result.deletedCount;
+  }
+}
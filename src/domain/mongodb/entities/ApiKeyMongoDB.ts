@@ -0,0 +1,56 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ApiKey } from '../../interfaces/entities/ApiKey';
+import { TOKEN_SCOPES } from '../../interfaces/entities/TokenScope';
+
+/**
+ * MongoDB document interface for ApiKey entity
+ * Extends ApiKey domain interface and Mongoose Document
+ */
+export interface ApiKeyMongoDBInterface extends Omit<ApiKey, 'id'>, Document {}
+
+/**
+ * MongoDB schema for ApiKey entity
+ * Stores the hash of each personal access token, never the token itself
+ */
+const ApiKeySchemaMongoDB: Schema = new Schema({
+  userId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User',
+    index: true
+  },
+  name: {
+    type: String,
+    required: true,
+    maxlength: 100
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  tokenPrefix: {
+    type: String,
+    required: true
+  },
+  scopes: {
+    type: [{ type: String, enum: TOKEN_SCOPES }],
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    default: null
+  },
+  lastUsedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true,
+  collection: 'api_keys'
+});
+
+/**
+ * MongoDB model for ApiKey entity
+ */
+export const ApiKeyMongoDB = mongoose.model<ApiKeyMongoDBInterface>('ApiKey', ApiKeySchemaMongoDB);
@@ -0,0 +1,63 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { AUDIT_ACTIONS, AuditLog } from '../../interfaces/entities/AuditLog';
+
+/**
+ * MongoDB document interface for AuditLog entity
+ * Extends AuditLog domain interface and Mongoose Document
+ */
+export interface AuditLogMongoDBInterface extends Omit<AuditLog, 'id'>, Document {}
+
+/**
+ * MongoDB schema for AuditLog entity
+ * Append-only: the timestamp of each entry comes from the application clock and there is no updatedAt
+ */
+const AuditLogSchemaMongoDB: Schema = new Schema({
+  action: {
+    type: String,
+    enum: AUDIT_ACTIONS,
+    required: true
+  },
+  actor: {
+    userId: {
+      type: String,
+      default: null
+    },
+    username: {
+      type: String,
+      required: true
+    },
+    ip: {
+      type: String,
+      required: true
+    },
+    userAgent: {
+      type: String,
+      required: true
+    }
+  },
+  targetId: {
+    type: String,
+    default: null
+  },
+  changes: {
+    type: Schema.Types.Mixed,
+    default: null
+  },
+  timestamp: {
+    type: Date,
+    required: true
+  }
+}, {
+  collection: 'audit_logs'
+});
+
+// Every query is sorted by time, newest first
+AuditLogSchemaMongoDB.index({ timestamp: -1 });
+AuditLogSchemaMongoDB.index({ action: 1, timestamp: -1 });
+AuditLogSchemaMongoDB.index({ 'actor.userId': 1, timestamp: -1 });
+AuditLogSchemaMongoDB.index({ targetId: 1, timestamp: -1 });
+
+/**
+ * MongoDB model for AuditLog entity
+ */
+export const AuditLogMongoDB = mongoose.model<AuditLogMongoDBInterface>('AuditLog', AuditLogSchemaMongoDB);
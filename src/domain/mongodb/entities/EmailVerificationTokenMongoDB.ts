@@ -0,0 +1,52 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { EmailVerificationToken } from '../../interfaces/entities/EmailVerificationToken';
+
+/**
+ * MongoDB document interface for EmailVerificationToken entity
+ * Extends EmailVerificationToken domain interface and Mongoose Document
+ */
+export interface EmailVerificationTokenMongoDBInterface extends Omit<EmailVerificationToken, 'id'>, Document {}
+
+/**
+ * MongoDB schema for EmailVerificationToken entity
+ * Stores hashed one-time tokens; expired tokens are removed by a TTL index
+ */
+const EmailVerificationTokenSchemaMongoDB: Schema = new Schema({
+  userId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User',
+    index: true
+  },
+  email: {
+    type: String,
+    required: true
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+    index: { expireAfterSeconds: 0 }
+  },
+  isUsed: {
+    type: Boolean,
+    default: false
+  }
+}, {
+  timestamps: true,
+  collection: 'email_verification_tokens'
+});
+
+// Compound index for invalidating the pending tokens of a user
+EmailVerificationTokenSchemaMongoDB.index({ userId: 1, isUsed: 1 });
+
+/**
+ * MongoDB model for EmailVerificationToken entity
+ */
+export const EmailVerificationTokenMongoDB = mongoose.model<EmailVerificationTokenMongoDBInterface>(
+  'EmailVerificationToken', EmailVerificationTokenSchemaMongoDB
+);
@@ -0,0 +1,36 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { JobLock } from '../../interfaces/entities/JobLock';
+
+/**
+ * MongoDB document interface for JobLock entity
+ * Extends JobLock domain interface and Mongoose Document
+ */
+export interface JobLockMongoDBInterface extends Omit<JobLock, 'id'>, Document {}
+
+/**
+ * MongoDB schema for JobLock entity
+ * One record per job; the unique name makes concurrent first acquisitions fail but one
+ */
+const JobLockSchemaMongoDB: Schema = new Schema({
+  name: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  owner: {
+    type: String,
+    required: true
+  },
+  lockedUntil: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true,
+  collection: 'job_locks'
+});
+
+/**
+ * MongoDB model for JobLock entity
+ */
+export const JobLockMongoDB = mongoose.model<JobLockMongoDBInterface>('JobLock', JobLockSchemaMongoDB);
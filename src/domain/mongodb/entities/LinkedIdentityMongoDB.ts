@@ -0,0 +1,50 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { LinkedIdentity } from '../../interfaces/entities/LinkedIdentity';
+
+/**
+ * MongoDB document interface for LinkedIdentity entity
+ * Extends LinkedIdentity domain interface and Mongoose Document
+ */
+export interface LinkedIdentityMongoDBInterface extends Omit<LinkedIdentity, 'id'>, Document {}
+
+/**
+ * MongoDB schema for LinkedIdentity entity
+ * Each provider account (provider + subject) is linked to a single user
+ */
+const LinkedIdentitySchemaMongoDB: Schema = new Schema({
+  userId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User',
+    index: true
+  },
+  provider: {
+    type: String,
+    required: true
+  },
+  subject: {
+    type: String,
+    required: true
+  },
+  email: {
+    type: String,
+    default: null
+  },
+  lastLoginAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true,
+  collection: 'linked_identities'
+});
+
+// Unique compound index for the sign-in lookup
+LinkedIdentitySchemaMongoDB.index({ provider: 1, subject: 1 }, { unique: true });
+
+/**
+ * MongoDB model for LinkedIdentity entity
+ */
+export const LinkedIdentityMongoDB = mongoose.model<LinkedIdentityMongoDBInterface>(
+  'LinkedIdentity', LinkedIdentitySchemaMongoDB
+);
@@ -0,0 +1,47 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { LoginAttempt } from '../../interfaces/entities/LoginAttempt';
+
+/**
+ * MongoDB document interface for LoginAttempt entity
+ * Extends LoginAttempt domain interface and Mongoose Document
+ */
+export interface LoginAttemptMongoDBInterface extends Omit<LoginAttempt, 'id'>, Document {}
+
+/**
+ * MongoDB schema for LoginAttempt entity
+ * One record per username; records are removed by a TTL index one day after the last failure
+ */
+const LoginAttemptSchemaMongoDB: Schema = new Schema({
+  username: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  failedAttempts: {
+    type: Number,
+    default: 0
+  },
+  lockouts: {
+    type: Number,
+    default: 0
+  },
+  lockedUntil: {
+    type: Date,
+    default: null
+  },
+  lastFailedAt: {
+    type: Date,
+    required: true,
+    index: { expireAfterSeconds: 24 * 60 * 60 }
+  }
+}, {
+  timestamps: true,
+  collection: 'login_attempts'
+});
+
+/**
+ * MongoDB model for LoginAttempt entity
+ */
+export const LoginAttemptMongoDB = mongoose.model<LoginAttemptMongoDBInterface>(
+  'LoginAttempt', LoginAttemptSchemaMongoDB
+);
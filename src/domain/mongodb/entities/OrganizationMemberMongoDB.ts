@@ -0,0 +1,44 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { OrganizationMember, ORGANIZATION_ROLES } from '../../interfaces/entities/OrganizationMember';
+
+/**
+ * MongoDB document interface for OrganizationMember entity
+ * Extends OrganizationMember domain interface and Mongoose Document
+ */
+export interface OrganizationMemberMongoDBInterface extends Omit<OrganizationMember, 'id'>, Document {}
+
+/**
+ * MongoDB schema for OrganizationMember entity
+ * A user is a member of an organization at most once
+ */
+const OrganizationMemberSchemaMongoDB: Schema = new Schema({
+  organizationId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'Organization'
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User',
+    index: true
+  },
+  role: {
+    type: String,
+    enum: ORGANIZATION_ROLES,
+    required: true
+  }
+}, {
+  timestamps: true,
+  collection: 'organization_members'
+});
+
+OrganizationMemberSchemaMongoDB.index({ organizationId: 1, userId: 1 }, { unique: true });
+OrganizationMemberSchemaMongoDB.index({ organizationId: 1, role: 1 });
+
+/**
+ * MongoDB model for OrganizationMember entity
+ */
+export const OrganizationMemberMongoDB = mongoose.model<OrganizationMemberMongoDBInterface>(
+  'OrganizationMember', OrganizationMemberSchemaMongoDB
+);
@@ -0,0 +1,33 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { Organization } from '../../interfaces/entities/Organization';
+
+/**
+ * MongoDB document interface for Organization entity
+ * Extends Organization domain interface and Mongoose Document
+ */
+export interface OrganizationMongoDBInterface extends Omit<Organization, 'id'>, Document {}
+
+/**
+ * MongoDB schema for Organization entity
+ * Organization names are unique
+ */
+const OrganizationSchemaMongoDB: Schema = new Schema({
+  name: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+    minlength: 1,
+    maxlength: 100
+  }
+}, {
+  timestamps: true,
+  collection: 'organizations'
+});
+
+/**
+ * MongoDB model for Organization entity
+ */
+export const OrganizationMongoDB = mongoose.model<OrganizationMongoDBInterface>(
+  'Organization', OrganizationSchemaMongoDB
+);
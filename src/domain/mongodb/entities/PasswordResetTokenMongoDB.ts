@@ -0,0 +1,48 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { PasswordResetToken } from '../../interfaces/entities/PasswordResetToken';
+
+/**
+ * MongoDB document interface for PasswordResetToken entity
+ * Extends PasswordResetToken domain interface and Mongoose Document
+ */
+export interface PasswordResetTokenMongoDBInterface extends Omit<PasswordResetToken, 'id'>, Document {}
+
+/**
+ * MongoDB schema for PasswordResetToken entity
+ * Stores hashed one-time tokens; expired tokens are removed by a TTL index
+ */
+const PasswordResetTokenSchemaMongoDB: Schema = new Schema({
+  userId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User',
+    index: true
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+    index: { expireAfterSeconds: 0 }
+  },
+  isUsed: {
+    type: Boolean,
+    default: false
+  }
+}, {
+  timestamps: true,
+  collection: 'password_reset_tokens'
+});
+
+// Compound index for invalidating the pending tokens of a user
+PasswordResetTokenSchemaMongoDB.index({ userId: 1, isUsed: 1 });
+
+/**
+ * MongoDB model for PasswordResetToken entity
+ */
+export const PasswordResetTokenMongoDB = mongoose.model<PasswordResetTokenMongoDBInterface>(
+  'PasswordResetToken', PasswordResetTokenSchemaMongoDB
+);
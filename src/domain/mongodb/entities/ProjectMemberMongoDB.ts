@@ -0,0 +1,43 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ProjectMember, PROJECT_MEMBER_ROLES } from '../../interfaces/entities/ProjectMember';
+
+/**
+ * MongoDB document interface for ProjectMember entity
+ * Extends ProjectMember domain interface and Mongoose Document
+ */
+export interface ProjectMemberMongoDBInterface extends Omit<ProjectMember, 'id'>, Document {}
+
+/**
+ * MongoDB schema for ProjectMember entity
+ * A user is a member of a project at most once
+ */
+const ProjectMemberSchemaMongoDB: Schema = new Schema({
+  projectId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'Project'
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User',
+    index: true
+  },
+  role: {
+    type: String,
+    enum: PROJECT_MEMBER_ROLES,
+    required: true
+  }
+}, {
+  timestamps: true,
+  collection: 'project_members'
+});
+
+ProjectMemberSchemaMongoDB.index({ projectId: 1, userId: 1 }, { unique: true });
+
+/**
+ * MongoDB model for ProjectMember entity
+ */
+export const ProjectMemberMongoDB = mongoose.model<ProjectMemberMongoDBInterface>(
+  'ProjectMember', ProjectMemberSchemaMongoDB
+);
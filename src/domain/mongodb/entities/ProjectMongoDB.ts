@@ -1,15 +1,22 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import { Project } from '../../interfaces/entities/Project';
+import { dropIndexIfExists } from '../utils/MongoDBErrorUtils';
 
 /**
  * MongoDB document interface for Project entity
  * Extends Project domain interface and Mongoose Document
  */
-export interface ProjectMongoDBInterface extends Omit<Project, 'id'>, Document {}
+export interface ProjectMongoDBInterface extends Omit<Project, 'id'>, Document {
+  /**
+   * Owner the project name is unique for: the organization of the project, or its creator
+   * for personal projects
+   */
+  ownerId: mongoose.Types.ObjectId;
+}
 
 /**
  * MongoDB schema for Project entity
- * Includes git URL validation and user-scoped unique project names
+ * Includes git URL validation and owner-scoped unique project names
  */
 const ProjectSchemaMongoDB: Schema = new Schema({
   name: {
@@ -36,6 +43,15 @@ const ProjectSchemaMongoDB: Schema = new Schema({
     required: true,
     ref: 'User',
     index: true
+  },
+  organizationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Organization',
+    default: null
+  },
+  ownerId: {
+    type: Schema.Types.ObjectId,
+    required: true
   }
 }, {
   timestamps: true,
@@ -44,9 +60,39 @@ const ProjectSchemaMongoDB: Schema = new Schema({
 
 // Compound indexes for better query performance
 ProjectSchemaMongoDB.index({ userId: 1, createdAt: -1 });
-ProjectSchemaMongoDB.index({ userId: 1, name: 1 }, { unique: true }); // Prevent duplicate project names per user
+ProjectSchemaMongoDB.index({ organizationId: 1, createdAt: -1 });
+ProjectSchemaMongoDB.index({ userId: 1, updatedAt: -1 });
+ProjectSchemaMongoDB.index({ organizationId: 1, updatedAt: -1 });
+ProjectSchemaMongoDB.index({ name: 'text' }); // Full-text search on project names
+ProjectSchemaMongoDB.index({ ownerId: 1, name: 1 }, { unique: true }); // Prevent duplicate project names per owner
 
 /**
  * MongoDB model for Project entity
  */
 export const ProjectMongoDB = mongoose.model<ProjectMongoDBInterface>('Project', ProjectSchemaMongoDB);
+
+/**
+ * Migrates the projects collection from per-user to per-owner unique names
+ * Names used to be unique under a `{ userId, name }` index, which would refuse two projects with the
+ * same name in different organizations created by the same user. The legacy index is dropped, projects
+ * stored before organizations get their creator as owner, then the schema indexes are built
+ * @returns Number of projects given an owner
+ */
+export async function migrateProjectOwners(): Promise<number> {
+  const collections = await ProjectMongoDB.db.listCollections();
+  if (!collections.some(collection => collection.name === ProjectMongoDB.collection.collectionName)) {
+    return 0;
+  }
+
+  const legacyIndexes = (await ProjectMongoDB.collection.indexes())
+    .filter(index => index.unique && index.key.userId !== undefined && index.key.name !== undefined);
+  for (const index of legacyIndexes) {
+    await dropIndexIfExists(ProjectMongoDB.collection, index.name as string);
+  }
+  const { modifiedCount } = await ProjectMongoDB.collection.updateMany(
+    { ownerId: { $exists: false } },
+    [{ $set: { ownerId: '$userId', organizationId: null } }]
+  );
+  await ProjectMongoDB.createIndexes();
+  return modifiedCount;
+}
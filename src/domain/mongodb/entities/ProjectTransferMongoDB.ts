@@ -0,0 +1,43 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ProjectTransfer } from '../../interfaces/entities/ProjectTransfer';
+
+/**
+ * MongoDB document interface for ProjectTransfer entity
+ * Extends ProjectTransfer domain interface and Mongoose Document
+ */
+export interface ProjectTransferMongoDBInterface extends Omit<ProjectTransfer, 'id'>, Document {}
+
+/**
+ * MongoDB schema for ProjectTransfer entity
+ * A project has at most one pending transfer
+ */
+const ProjectTransferSchemaMongoDB: Schema = new Schema({
+  projectId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+    unique: true,
+    ref: 'Project'
+  },
+  fromUserId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User',
+    index: true
+  },
+  toUserId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User',
+    index: true
+  }
+}, {
+  timestamps: true,
+  collection: 'project_transfers'
+});
+
+/**
+ * MongoDB model for ProjectTransfer entity
+ */
+export const ProjectTransferMongoDB = mongoose.model<ProjectTransferMongoDBInterface>(
+  'ProjectTransfer', ProjectTransferSchemaMongoDB
+);
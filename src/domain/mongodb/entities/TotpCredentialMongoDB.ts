@@ -0,0 +1,47 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { TotpCredential } from '../../interfaces/entities/TotpCredential';
+
+/**
+ * MongoDB document interface for TotpCredential entity
+ * Extends TotpCredential domain interface and Mongoose Document
+ */
+export interface TotpCredentialMongoDBInterface extends Omit<TotpCredential, 'id'>, Document {}
+
+/**
+ * MongoDB schema for TotpCredential entity
+ * One credential per user; recovery codes are stored as hashes
+ */
+const TotpCredentialSchemaMongoDB: Schema = new Schema({
+  userId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User',
+    unique: true
+  },
+  secret: {
+    type: String,
+    required: true
+  },
+  isConfirmed: {
+    type: Boolean,
+    default: false
+  },
+  lastUsedStep: {
+    type: Number,
+    default: 0
+  },
+  recoveryCodeHashes: {
+    type: [String],
+    default: []
+  }
+}, {
+  timestamps: true,
+  collection: 'totp_credentials'
+});
+
+/**
+ * MongoDB model for TotpCredential entity
+ */
+export const TotpCredentialMongoDB = mongoose.model<TotpCredentialMongoDBInterface>(
+  'TotpCredential', TotpCredentialSchemaMongoDB
+);
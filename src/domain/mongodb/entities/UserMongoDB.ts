@@ -1,5 +1,9 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import { User } from '../../interfaces/entities/User';
+import { dropIndexIfExists } from '../utils/MongoDBErrorUtils';
+
+/** Name of the unique index on verified email addresses */
+const VERIFIED_EMAIL_INDEX = 'email_verified_unique';
 
 /**
  * MongoDB document interface for User entity
@@ -9,7 +13,7 @@ export interface UserMongoDBInterface extends Omit<User, 'id'>, Document {}
 
 /**
  * MongoDB schema for User entity
- * Includes username uniqueness and validation constraints
+ * Includes username and verified email uniqueness and validation constraints
  */
 const UserSchemaMongoDB: Schema = new Schema({
   username: {
@@ -25,6 +29,24 @@ const UserSchemaMongoDB: Schema = new Schema({
     type: String,
     required: true,
     minlength: 8
+  },
+  email: {
+    type: String,
+    default: null,
+    trim: true,
+    lowercase: true
+  },
+  isEmailVerified: {
+    type: Boolean,
+    default: false
+  },
+  roles: {
+    type: [{ type: String, enum: ['user', 'admin'] }],
+    default: ['user']
+  },
+  isDisabled: {
+    type: Boolean,
+    default: false
   }
 }, {
   timestamps: true,
@@ -34,7 +56,36 @@ const UserSchemaMongoDB: Schema = new Schema({
 // Compound index for username queries with creation date sorting
 UserSchemaMongoDB.index({ username: 1, createdAt: -1 });
 
+// Email is optional and unique once verified: unverified addresses are claims that must not block their owner
+UserSchemaMongoDB.index(
+  { email: 1 },
+  { unique: true, partialFilterExpression: { isEmailVerified: true }, name: VERIFIED_EMAIL_INDEX }
+);
+UserSchemaMongoDB.index({ email: 1, isEmailVerified: 1 });
+
 /**
  * MongoDB model for User entity
  */
 export const UserMongoDB = mongoose.model<UserMongoDBInterface>('User', UserSchemaMongoDB);
+
+/**
+ * Migrates the users collection to email addresses unique once verified
+ * Addresses used to be unique under an `email_1` index as soon as they were stored, so anyone could block
+ * the owner of an address by registering it first. The legacy index is dropped, then the schema indexes
+ * are built
+ * @returns Number of legacy indexes dropped
+ */
+export async function migrateUserEmailIndex(): Promise<number> {
+  const collections = await UserMongoDB.db.listCollections();
+  if (!collections.some(collection => collection.name === UserMongoDB.collection.collectionName)) {
+    return 0;
+  }
+
+  const legacyIndexes = (await UserMongoDB.collection.indexes())
+    .filter(index => index.unique && index.key.email !== undefined && index.name !== VERIFIED_EMAIL_INDEX);
+  for (const index of legacyIndexes) {
+    await dropIndexIfExists(UserMongoDB.collection, index.name as string);
+  }
+  await UserMongoDB.createIndexes();
+  return legacyIndexes.length;
+}
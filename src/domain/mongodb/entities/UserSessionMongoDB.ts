@@ -0,0 +1,51 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { UserSession } from '../../interfaces/entities/UserSession';
+
+/**
+ * MongoDB document interface for UserSession entity
+ * Extends UserSession domain interface and Mongoose Document
+ */
+export interface UserSessionMongoDBInterface extends Omit<UserSession, 'id'>, Document {}
+
+/**
+ * MongoDB schema for UserSession entity
+ * Stores device information and activity of each login session
+ */
+const UserSessionSchemaMongoDB: Schema = new Schema({
+  userId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User',
+    index: true
+  },
+  userAgent: {
+    type: String,
+    required: true,
+    maxlength: 512
+  },
+  ip: {
+    type: String,
+    required: true,
+    maxlength: 64
+  },
+  lastUsedAt: {
+    type: Date,
+    required: true
+  },
+  isRevoked: {
+    type: Boolean,
+    default: false,
+    index: true
+  }
+}, {
+  timestamps: true,
+  collection: 'user_sessions'
+});
+
+// Compound index for listing the active sessions of a user
+UserSessionSchemaMongoDB.index({ userId: 1, isRevoked: 1, lastUsedAt: -1 });
+
+/**
+ * MongoDB model for UserSession entity
+ */
+export const UserSessionMongoDB = mongoose.model<UserSessionMongoDBInterface>('UserSession', UserSessionSchemaMongoDB);
@@ -1,8 +1,21 @@
-import mongoose, { Schema } from 'mongoose';
+import { createHash } from 'crypto';
+import mongoose, { Model, Schema } from 'mongoose';
+import { dropIndexIfExists } from './MongoDBErrorUtils';
+
+/**
+ * Hashes an access or refresh token for storage and lookups
+ * JWTs carry a signature no one can guess, so a fast unsalted SHA-256 hash protects them at rest
+ * @param token - Plain token string
+ * @returns SHA-256 hash of the token as hex string
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
 
 /**
  * Base schema definition for token entities
  * Provides common fields and configuration for access and refresh tokens
+ * Records are keyed by the SHA-256 hash of their token; tokens themselves are never stored
  */
 export function createBaseTokenSchema(collectionName: string): Schema {
   return new Schema({
@@ -12,7 +25,12 @@ export function createBaseTokenSchema(collectionName: string): Schema {
       required: true,
       index: true
     },
-    token: {
+    familyId: {
+      type: String,
+      required: true,
+      index: true
+    },
+    tokenHash: {
       type: String,
       required: true,
       unique: true,
@@ -41,5 +59,33 @@ export function createBaseTokenSchema(collectionName: string): Schema {
 export function addTokenIndexes(schema: Schema): void {
   // Compound indexes for better query performance
   schema.index({ userId: 1, isRevoked: 1 });
-  schema.index({ token: 1, isRevoked: 1 });
-}
\ No newline at end of file
+  schema.index({ tokenHash: 1, isRevoked: 1 });
+  schema.index({ familyId: 1, isRevoked: 1 });
+}
+
+/**
+ * Removes token records written before token hashes from a token collection
+ * Records used to be keyed by the whole JWT, then by its `jti` claim, under unique `token` and `jti` indexes
+ * which would refuse a second record without those fields. No token can be looked up against these records
+ * anymore, and the tokens they were written for lack the claims verification requires, so their owners have
+ * to log in again. The legacy indexes are dropped together with the records, then the schema indexes are built.
+ * Safe to run on every start, also by several replicas at once
+ * @param model - The access or refresh token model to migrate
+ * @returns Number of legacy records deleted
+ */
+export async function migrateLegacyTokenRecords<T>(model: Model<T>): Promise<number> {
+  const collections = await model.db.listCollections();
+  if (!collections.some(collection => collection.name === model.collection.collectionName)) {
+    return 0;
+  }
+
+  const legacyIndexes = (await model.collection.indexes())
+    .filter(index => index.key.token !== undefined || index.key.jti !== undefined);
+  for (const index of legacyIndexes) {
+    await dropIndexIfExists(model.collection, index.name as string);
+  }
+  const { deletedCount } = await model.collection.deleteMany({ tokenHash: { $exists: false } });
+
+  await model.createIndexes();
+  return deletedCount;
+}
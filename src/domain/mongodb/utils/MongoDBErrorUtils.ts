@@ -6,6 +6,7 @@
  */
 
 import mongoose from 'mongoose';
+import { Collection } from 'mongodb';
 import { AppError } from '../../../setup/middleware/errorHandler';
 
 /**
@@ -32,6 +33,41 @@ export function isMongoDBDuplicateKeyError(error: unknown): error is MongoDBDupl
          (error as MongoDBDuplicateKeyError).code === 11000;
 }
 
+/**
+ * Type guard to check if an error is a MongoDB index not found error
+ * 
+ * MongoDB throws errors with code 27 when dropping an index that does not
+ * exist, e.g. because another replica dropped it first.
+ * 
+ * @param {unknown} error - The error to check
+ * @returns {boolean} True if error is a MongoDB index not found error (code 27)
+ */
+export function isMongoDBIndexNotFoundError(error: unknown): boolean {
+  return error instanceof Error && 
+         'code' in error && 
+         (error as { code: unknown }).code === 27;
+}
+
+/**
+ * Drops an index, treating an index already dropped as success
+ * 
+ * Used by the migrations run when the connection starts, which several
+ * replicas may run at the same time.
+ * 
+ * @param {Collection} collection - Native collection holding the index
+ * @param {string} indexName - Name of the index to drop
+ * @returns {Promise<void>} Resolves once the index no longer exists
+ */
+export async function dropIndexIfExists(collection: Collection, indexName: string): Promise<void> {
+  try {
+    await collection.dropIndex(indexName);
+  } catch (error) {
+    if (!isMongoDBIndexNotFoundError(error)) {
+      throw error;
+    }
+  }
+}
+
 /**
  * Extracts a clean userId string from MongoDB document userId field
  * 
@@ -88,4 +124,16 @@ export function validateMongoObjectIds(validations: Array<{id: string, entityNam
   for (const { id, entityName } of validations) {
     validateMongoObjectId(id, entityName);
   }
-}
\ No newline at end of file
+}
+/**
+ * Escapes regular expression metacharacters
+ * 
+ * Used by DAOs that match user-provided text with `$regex` queries, so the
+ * text is matched literally.
+ * 
+ * @param {string} value - Raw user-provided text
+ * @returns {string} Text safe to embed in a regular expression
+ */
+export function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
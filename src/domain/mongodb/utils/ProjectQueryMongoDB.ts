@@ -0,0 +1,131 @@
+/**
+ * Project Query Utilities
+ * 
+ * Translates the database-agnostic project filters, sort orders and cursors to MongoDB queries.
+ */
+
+import mongoose, { FilterQuery, SortOrder } from 'mongoose';
+import { ProjectMongoDBInterface } from '../entities/ProjectMongoDB';
+import { ProjectAccess, ProjectCursor, ProjectFilter, ProjectSort } from '../../interfaces/dao/ProjectDAO';
+import { escapeRegex, validateMongoObjectIds } from './MongoDBErrorUtils';
+
+/**
+ * Builds an inclusive date range condition
+ * 
+ * @param {Date} from - Lower bound (optional)
+ * @param {Date} to - Upper bound (optional)
+ * @returns {Record<string, Date>} Condition matching dates within the bounds
+ */
+function toDateRange(from?: Date, to?: Date): Record<string, Date> {
+  return {
+    ...(from && { $gte: from }),
+    ...(to && { $lte: to })
+  };
+}
+
+/**
+ * Translates project filters to a MongoDB query
+ * 
+ * The name is matched as a case-insensitive substring, the search text against the
+ * text index on the name and the git host against the host part of HTTP(S) and SSH
+ * (`git@host:path`) git URLs.
+ * 
+ * @param {ProjectFilter} filter - Filters the projects must match
+ * @returns {FilterQuery<ProjectMongoDBInterface>} Query matching the filters
+ */
+function toProjectFilterQuery(filter: ProjectFilter): FilterQuery<ProjectMongoDBInterface> {
+  const query: FilterQuery<ProjectMongoDBInterface> = {};
+  if (filter.organizationId !== undefined) {
+    query.organizationId = new mongoose.Types.ObjectId(filter.organizationId);
+  }
+  if (filter.name) {
+    query.name = { $regex: escapeRegex(filter.name), $options: 'i' };
+  }
+  if (filter.search) {
+    query.$text = { $search: filter.search };
+  }
+  if (filter.gitHost) {
+    query.gitUrl = { $regex: `^(https?://([^@/]+@)?|[^@/:]+@)${escapeRegex(filter.gitHost)}([:/]|$)`, $options: 'i' };
+  }
+  if (filter.createdFrom || filter.createdTo) {
+    query.createdAt = toDateRange(filter.createdFrom, filter.createdTo);
+  }
+  if (filter.updatedFrom || filter.updatedTo) {
+    query.updatedAt = toDateRange(filter.updatedFrom, filter.updatedTo);
+  }
+  return query;
+}
+
+/**
+ * Builds the query of the projects a user can access that match filters
+ * 
+ * @param {ProjectAccess} access - Projects the user can access
+ * @param {ProjectFilter} filter - Filters the projects must match
+ * @returns {FilterQuery<ProjectMongoDBInterface>} Query matching the accessible projects
+ * 
+ * @throws {AppError} If user ID, an organization ID or a project ID format is invalid
+ */
+export function toAccessibleProjectsQuery(
+  access: ProjectAccess,
+  filter: ProjectFilter
+): FilterQuery<ProjectMongoDBInterface> {
+  validateMongoObjectIds([
+    { id: access.userId, entityName: 'user' },
+    ...access.organizationIds.map(id => ({ id, entityName: 'organization' })),
+    ...access.sharedProjectIds.map(id => ({ id, entityName: 'project' })),
+    ...(filter.organizationId === undefined ? [] : [{ id: filter.organizationId, entityName: 'organization' }])
+  ]);
+
+  return {
+    ...toProjectFilterQuery(filter),
+    $or: [
+      { userId: new mongoose.Types.ObjectId(access.userId), organizationId: null },
+      { organizationId: { $in: access.organizationIds.map(id => new mongoose.Types.ObjectId(id)) } },
+      { _id: { $in: access.sharedProjectIds.map(id => new mongoose.Types.ObjectId(id)) } }
+    ]
+  };
+}
+
+/**
+ * Translates a project sort order to a MongoDB sort
+ * Ties are broken by creation date, then by ID, in the same direction
+ * 
+ * @param {ProjectSort} sort - Order of the projects
+ * @param {boolean} reverse - Whether to sort in the opposite direction, to read a page backwards
+ * @returns {Record<string, SortOrder>} MongoDB sort specification
+ */
+export function toProjectSortQuery(sort: ProjectSort, reverse: boolean = false): Record<string, SortOrder> {
+  const order: SortOrder = (sort.direction === 'asc') === reverse ? -1 : 1;
+  return { [sort.field]: order, createdAt: order, _id: order };
+}
+
+/**
+ * Builds the query of the projects after or before a cursor in a sort order
+ * 
+ * Projects are compared on the sort field, then on the creation date and ID that break ties,
+ * so that every project is on exactly one side of the cursor.
+ * 
+ * @param {ProjectSort} sort - Order of the projects
+ * @param {ProjectCursor} cursor - Position the projects must be after or before
+ * @returns {FilterQuery<ProjectMongoDBInterface>} Query matching the projects past the cursor
+ * 
+ * @throws {AppError} If the cursor project ID format is invalid
+ */
+export function toProjectKeysetQuery(sort: ProjectSort, cursor: ProjectCursor): FilterQuery<ProjectMongoDBInterface> {
+  validateMongoObjectIds([{ id: cursor.id, entityName: 'project' }]);
+  const operator = (sort.direction === 'asc') === (cursor.direction === 'after') ? '$gt' : '$lt';
+  const id = new mongoose.Types.ObjectId(cursor.id);
+  const tieBreakers: FilterQuery<ProjectMongoDBInterface>[] = [
+    { createdAt: { [operator]: cursor.createdAt } },
+    { createdAt: cursor.createdAt, _id: { [operator]: id } }
+  ];
+  if (sort.field === 'createdAt') {
+    return { $or: tieBreakers };
+  }
+  return {
+    $or: [
+      { [sort.field]: { [operator]: cursor.value } },
+      ...tieBreakers.map(tieBreaker => ({ [sort.field]: cursor.value, ...tieBreaker }))
+    ]
+  };
+}
@@ -0,0 +1,69 @@
+import { ContainerDAO } from '../interfaces/ContainerDAO';
+import { DatabaseSession } from '../interfaces/DatabaseSession';
+import { AuditAction, AuditActor, AuditChanges } from '../interfaces/entities/AuditLog';
+
+/**
+ * State of an audited entity: the business fields worth recording, never secrets
+ */
+export type AuditSnapshot = Record<string, unknown>;
+
+/**
+ * Utility class for database operations related to the audit log
+ */
+export class AuditLogDBUtils {
+  /**
+   * Appends an entry to the audit log, keeping only the fields the action changed
+   * @param containerDAO The database container DAO
+   * @param session The database session/transaction of the audited change
+   * @param action The action performed
+   * @param actor The user and client performing the action
+   * @param targetId The ID of the entity the action applies to, or null
+   * @param now Current timestamp, stored as the time of the action
+   * @param before State of the entity before the action, null if it did not exist
+   * @param after State of the entity after the action, null if it no longer exists
+   */
+  public static async record(
+    containerDAO: ContainerDAO<unknown>,
+    session: DatabaseSession<unknown>,
+    action: AuditAction,
+    actor: AuditActor,
+    targetId: string | null,
+    now: number,
+    before: AuditSnapshot | null = null,
+    after: AuditSnapshot | null = null
+  ): Promise<void> {
+    await containerDAO.auditLogDAO.createAuditLog(
+      session, action, actor, targetId, this.diff(before, after), now
+    );
+  }
+
+  /**
+   * Computes the changes between two states of an entity
+   * @param before State before the action, null if the entity did not exist
+   * @param after State after the action, null if the entity no longer exists
+   * @returns The differing fields on both sides, or null when nothing changed
+   */
+  public static diff(before: AuditSnapshot | null, after: AuditSnapshot | null): AuditChanges | null {
+    if (!before || !after) {
+      return before || after ? { before, after } : null;
+    }
+
+    const changedFields = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+      .filter(field => !this.isEqual(before[field], after[field]));
+    if (changedFields.length === 0) {
+      return null;
+    }
+
+    return {
+      before: Object.fromEntries(changedFields.map(field => [field, before[field] ?? null])),
+      after: Object.fromEntries(changedFields.map(field => [field, after[field] ?? null]))
+    };
+  }
+
+  /**
+   * Compares two field values, dates and arrays included
+   */
+  private static isEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+  }
+}
@@ -8,13 +8,14 @@ import { TimeUtils } from '../../utils/TimeUtils';
  */
 export class TokenDBUtils {
   /**
-   * Stores both access and refresh tokens in the database
+   * Stores the records of both access and refresh tokens in the database
    * @param containerDAO The database container DAO
    * @param session The database session/transaction
    * @param envVars Environment variables containing token expiry settings
    * @param userId The user ID for whom to create the tokens
-   * @param accessToken The access token string
-   * @param refreshToken The refresh token string
+   * @param familyId The token family both tokens belong to
+   * @param accessToken The access token string, stored as its hash
+   * @param refreshToken The refresh token string, stored as its hash
    * @param now Current timestamp for expiry calculation
    */
   public static async storeTokens(
@@ -22,6 +23,7 @@ export class TokenDBUtils {
     session: DatabaseSession<unknown>,
     envVars: EnvVars,
     userId: string,
+    familyId: string,
     accessToken: string,
     refreshToken: string,
     now: number
@@ -33,6 +35,7 @@ export class TokenDBUtils {
     await containerDAO.accessTokenDAO.createAccessToken(
       session,
       userId,
+      familyId,
       accessToken,
       accessTokenExpiresAt,
       now
@@ -41,9 +44,90 @@ export class TokenDBUtils {
     await containerDAO.refreshTokenDAO.createRefreshToken(
       session,
       userId,
+      familyId,
       refreshToken,
       refreshTokenExpiresAt,
       now
     );
   }
+
+  /**
+   * Revokes a whole token family: its session and every access and refresh token issued for it
+   * @param containerDAO The database container DAO
+   * @param session The database session/transaction
+   * @param familyId The token family (user session) to revoke
+   * @param now Current timestamp for updatedAt fields
+   * @returns Number of revoked access and refresh tokens
+   */
+  public static async revokeTokenFamily(
+    containerDAO: ContainerDAO<unknown>,
+    session: DatabaseSession<unknown>,
+    familyId: string,
+    now: number
+  ): Promise<{ revokedAccessTokens: number; revokedRefreshTokens: number }> {
+    await containerDAO.userSessionDAO.revokeUserSession(session, familyId, now);
+    const revokedRefreshTokens = await containerDAO.refreshTokenDAO.revokeRefreshTokenFamily(session, familyId, now);
+    const revokedAccessTokens = await containerDAO.accessTokenDAO.revokeAccessTokenFamily(session, familyId, now);
+    return { revokedAccessTokens, revokedRefreshTokens };
+  }
+
+  /**
+   * Revokes every session of a user together with all of their access and refresh tokens
+   * @param containerDAO The database container DAO
+   * @param session The database session/transaction
+   * @param userId The user whose sessions are revoked
+   * @param now Current timestamp for updatedAt fields
+   * @param exceptSessionId Optional session kept active together with its tokens
+   * @returns Number of revoked sessions
+   */
+  public static async revokeAllUserSessions(
+    containerDAO: ContainerDAO<unknown>,
+    session: DatabaseSession<unknown>,
+    userId: string,
+    now: number,
+    exceptSessionId?: string
+  ): Promise<number> {
+    const revokedSessions = await containerDAO.userSessionDAO.revokeAllUserSessions(
+      session, userId, now, exceptSessionId
+    );
+    await containerDAO.refreshTokenDAO.revokeAllUserRefreshTokens(session, userId, now, exceptSessionId);
+    await containerDAO.accessTokenDAO.revokeAllUserAccessTokens(session, userId, now, exceptSessionId);
+    return revokedSessions;
+  }
+
+  /**
+   * Permanently deletes every session of a user together with all of their access, refresh,
+   * password reset and email verification tokens
+   * @param containerDAO The database container DAO
+   * @param session The database session/transaction
+   * @param userId The user whose sessions and tokens are deleted
+   */
+  public static async deleteAllUserTokens(
+    containerDAO: ContainerDAO<unknown>,
+    session: DatabaseSession<unknown>,
+    userId: string
+  ): Promise<void> {
+    await containerDAO.userSessionDAO.deleteAllUserSessions(session, userId);
+    await containerDAO.refreshTokenDAO.deleteAllUserRefreshTokens(session, userId);
+    await containerDAO.accessTokenDAO.deleteAllUserAccessTokens(session, userId);
+    await containerDAO.passwordResetTokenDAO.deleteAllUserPasswordResetTokens(session, userId);
+    await containerDAO.emailVerificationTokenDAO.deleteAllUserEmailVerificationTokens(session, userId);
+  }
+
+  /**
+   * Deletes the records of every access and refresh token that expired before the given date
+   * @param containerDAO The database container DAO
+   * @param session The database session/transaction
+   * @param expirationDate Tokens expiring before this date are deleted
+   * @returns Number of deleted access and refresh tokens
+   */
+  public static async cleanExpiredTokens(
+    containerDAO: ContainerDAO<unknown>,
+    session: DatabaseSession<unknown>,
+    expirationDate: Date
+  ): Promise<{ deletedAccessTokens: number; deletedRefreshTokens: number }> {
+    const deletedRefreshTokens = await containerDAO.refreshTokenDAO.cleanExpiredRefreshTokens(session, expirationDate);
+    const deletedAccessTokens = await containerDAO.accessTokenDAO.cleanExpiredAccessTokens(session, expirationDate);
+    return { deletedAccessTokens, deletedRefreshTokens };
+  }
 }
@@ -0,0 +1,35 @@
+import { AuditLogResponse } from './AuditLogResponse';
+
+/**
+ * Paginated list of audit log entries response, newest first
+ */
+export interface AuditLogListResponse {
+  /**
+   * List of audit log entries
+   */
+  auditLogs: AuditLogResponse[];
+
+  /**
+   * Total number of matching entries
+   * @example 42
+   */
+  total: number;
+
+  /**
+   * Total number of pages
+   * @example 5
+   */
+  totalPages: number;
+
+  /**
+   * Current page number
+   * @example 1
+   */
+  currentPage: number;
+
+  /**
+   * Number of items per page
+   * @example 10
+   */
+  limit: number;
+}
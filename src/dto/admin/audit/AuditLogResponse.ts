@@ -0,0 +1,86 @@
+import { AuditAction } from '../../../domain/interfaces/entities/AuditLog';
+
+/**
+ * User and client an audited action was performed by
+ */
+export interface AuditActorResponse {
+  /**
+   * User ID, null for failed logins of unknown usernames
+   * @example "507f1f77bcf86cd799439011"
+   */
+  userId: string | null;
+
+  /**
+   * Username, or the username a failed login was attempted with
+   * @example "john_doe"
+   */
+  username: string;
+
+  /**
+   * Client IP address
+   * @example "203.0.113.42"
+   */
+  ip: string;
+
+  /**
+   * Client user agent
+   * @example "Mozilla/5.0 (Windows NT 10.0; Win64; x64)"
+   */
+  userAgent: string;
+}
+
+/**
+ * Fields changed by an audited action
+ */
+export interface AuditChangesResponse {
+  /**
+   * Values before the action, null for creations
+   * @example {"name": "My Project"}
+   */
+  before: Record<string, unknown> | null;
+
+  /**
+   * Values after the action, null for deletions
+   * @example {"name": "Renamed Project"}
+   */
+  after: Record<string, unknown> | null;
+}
+
+/**
+ * Audit log entry as seen by administrators
+ */
+export interface AuditLogResponse {
+  /**
+   * Entry ID
+   * @example "651a2b3c4d5e6f7a8b9c0d1e"
+   */
+  id: string;
+
+  /**
+   * Action performed
+   * @example "project.update"
+   */
+  action: AuditAction;
+
+  /**
+   * User and client performing the action
+   */
+  actor: AuditActorResponse;
+
+  /**
+   * ID of the user, session or project the action applies to
+   * @example "650f1e2d3c4b5a6978877665"
+   */
+  targetId: string | null;
+
+  /**
+   * Changed fields, null for actions that change no business data
+   */
+  changes: AuditChangesResponse | null;
+
+  /**
+   * Time of the action
+   * @example "2025-09-18T10:30:00.000Z"
+   */
+  timestamp: Date;
+}
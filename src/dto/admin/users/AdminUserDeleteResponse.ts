@@ -0,0 +1,16 @@
+/**
+ * Response for successful user deletion
+ */
+export interface AdminUserDeleteResponse {
+  /**
+   * Success message
+   * @example "User deleted successfully"
+   */
+  message: string;
+
+  /**
+   * Number of personal projects deleted together with the user
+   * @example 3
+   */
+  deletedProjects: number;
+}
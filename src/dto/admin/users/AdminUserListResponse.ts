@@ -0,0 +1,35 @@
+import { AdminUserResponse } from './AdminUserResponse';
+
+/**
+ * Paginated list of users response
+ */
+export interface AdminUserListResponse {
+  /**
+   * List of users
+   */
+  users: AdminUserResponse[];
+
+  /**
+   * Total number of matching users
+   * @example 42
+   */
+  total: number;
+
+  /**
+   * Total number of pages
+   * @example 5
+   */
+  totalPages: number;
+
+  /**
+   * Current page number
+   * @example 1
+   */
+  currentPage: number;
+
+  /**
+   * Number of items per page
+   * @example 10
+   */
+  limit: number;
+}
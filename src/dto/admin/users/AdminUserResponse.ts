@@ -0,0 +1,54 @@
+import { UserRole } from '../../../domain/interfaces/entities/User';
+
+/**
+ * User account data as seen by administrators
+ */
+export interface AdminUserResponse {
+  /**
+   * User ID
+   * @example "507f1f77bcf86cd799439011"
+   */
+  id: string;
+
+  /**
+   * Username
+   * @example "john_doe"
+   */
+  username: string;
+
+  /**
+   * Email address, null if the user has none
+   * @example "john.doe@example.com"
+   */
+  email: string | null;
+
+  /**
+   * Whether the email address has been verified
+   * @example true
+   */
+  isEmailVerified: boolean;
+
+  /**
+   * Roles granted to the user
+   * @example ["user"]
+   */
+  roles: UserRole[];
+
+  /**
+   * Whether the account is disabled
+   * @example false
+   */
+  isDisabled: boolean;
+
+  /**
+   * Account creation date
+   * @example "2025-09-18T10:30:00.000Z"
+   */
+  createdAt: Date;
+
+  /**
+   * Last update date
+   * @example "2025-09-18T10:30:00.000Z"
+   */
+  updatedAt: Date;
+}
@@ -0,0 +1,16 @@
+/**
+ * Response for a successful account unlock
+ */
+export interface AdminUserUnlockResponse {
+  /**
+   * Success message
+   * @example "User unlocked successfully"
+   */
+  message: string;
+
+  /**
+   * Whether the account was locked when the request was made
+   * @example true
+   */
+  wasLocked: boolean;
+}
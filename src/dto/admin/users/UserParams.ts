@@ -0,0 +1,15 @@
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+
+/**
+ * Request parameters for admin user endpoints that require userId
+ */
+export class UserParams {
+    /**
+     * User ID (MongoDB ObjectId)
+     * @example "507f1f77bcf86cd799439011"
+     */
+    @IsNotEmpty({ message: 'User ID is required' })
+    @IsString({ message: 'User ID must be a string' })
+    @Matches(/^[0-9a-fA-F]{24}$/, { message: 'Invalid user ID format' })
+      userId!: string;
+}
@@ -1,18 +1,29 @@
+import { UserRole } from '../../domain/interfaces/entities/User';
+
 /**
  * Authentication response containing tokens and user information
  */
 export interface AuthResponse {
   /**
    * JWT access token for API authentication
+   * Omitted when AUTH_COOKIES is "both": the token is set as HttpOnly cookie instead
    * @example "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
    */
-  accessToken: string;
+  accessToken?: string;
 
   /**
    * JWT refresh token for token renewal
+   * Omitted when AUTH_COOKIES is enabled: the token is set as HttpOnly cookie instead
    * @example "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
    */
-  refreshToken: string;
+  refreshToken?: string;
+
+  /**
+   * Token to echo in the X-CSRF-Token header of cookie-authenticated requests
+   * Only returned when AUTH_COOKIES is enabled, also set as readable cookie
+   * @example "q3yJ0x6dXa8S1mN2bV7cR4tW9eZ5uI0oP3lK8jH6gF2"
+   */
+  csrfToken?: string;
 
   /**
    * User information
@@ -29,5 +40,23 @@ export interface AuthResponse {
      * @example "john_doe"
      */
     username: string;
+
+    /**
+     * Email address, null if the user has none
+     * @example "john.doe@example.com"
+     */
+    email: string | null;
+
+    /**
+     * Whether the email address has been verified
+     * @example true
+     */
+    isEmailVerified: boolean;
+
+    /**
+     * Roles granted to the user
+     * @example ["user"]
+     */
+    roles: UserRole[];
   };
 }
@@ -0,0 +1,20 @@
+import { IsNotEmpty, IsString, Length, Matches } from 'class-validator';
+
+/**
+ * Applies the password strength rules shared by every endpoint that sets a password:
+ * required string, at least 8 characters, with uppercase, lowercase and numeric characters.
+ *
+ * @param label - Field name used in validation messages (e.g. "Password", "New password")
+ * @returns Property decorator applying all password validators
+ */
+export function StrongPassword(label: string = 'Password'): PropertyDecorator {
+  // Applied bottom-up, in the same order as stacked decorators would be
+  return (target: object, propertyKey: string | symbol) => {
+    Matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, {
+      message: `${label} must contain at least one uppercase letter, one lowercase letter, and one number`
+    })(target, propertyKey);
+    Length(8, undefined, { message: `${label} must be at least 8 characters long` })(target, propertyKey);
+    IsString({ message: `${label} must be a string` })(target, propertyKey);
+    IsNotEmpty({ message: `${label} is required` })(target, propertyKey);
+  };
+}
@@ -0,0 +1,16 @@
+/**
+ * Response for successful API key deletion
+ */
+export interface ApiKeyDeleteResponse {
+  /**
+   * Success message
+   * @example "API key deleted successfully"
+   */
+  message: string;
+
+  /**
+   * Timestamp when the deletion was performed
+   * @example "2025-09-18T11:30:00.000Z"
+   */
+  deletedAt: Date;
+}
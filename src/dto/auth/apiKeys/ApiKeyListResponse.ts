@@ -0,0 +1,11 @@
+import { ApiKeyResponse } from './ApiKeyResponse';
+
+/**
+ * List of API keys response
+ */
+export interface ApiKeyListResponse {
+  /**
+   * API keys of the user, expired ones included, newest first
+   */
+  apiKeys: ApiKeyResponse[];
+}
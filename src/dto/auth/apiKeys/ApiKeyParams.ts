@@ -0,0 +1,15 @@
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+
+/**
+ * Request parameters for API key endpoints that require apiKeyId
+ */
+export class ApiKeyParams {
+    /**
+     * API key ID (MongoDB ObjectId)
+     * @example "6502f1a2b3c4d5e6f7a8b9c1"
+     */
+    @IsNotEmpty({ message: 'API key ID is required' })
+    @IsString({ message: 'API key ID must be a string' })
+    @Matches(/^[0-9a-fA-F]{24}$/, { message: 'Invalid API key ID format' })
+      apiKeyId!: string;
+}
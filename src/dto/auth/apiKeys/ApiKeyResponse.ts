@@ -0,0 +1,48 @@
+import { TokenScope } from '../../../domain/interfaces/entities/TokenScope';
+
+/**
+ * API key data, without the token
+ */
+export interface ApiKeyResponse {
+  /**
+   * API key ID
+   * @example "6502f1a2b3c4d5e6f7a8b9c1"
+   */
+  id: string;
+
+  /**
+   * Name of the key
+   * @example "GitHub Actions deploy"
+   */
+  name: string;
+
+  /**
+   * First characters of the token, to tell keys apart
+   * @example "pat_3f9a1c2e"
+   */
+  tokenPrefix: string;
+
+  /**
+   * Scopes granted to the key
+   * @example ["project:read"]
+   */
+  scopes: TokenScope[];
+
+  /**
+   * Expiration date, or null for keys that do not expire
+   * @example "2025-12-17T08:15:00.000Z"
+   */
+  expiresAt: Date | null;
+
+  /**
+   * Date of the last request made with the key, or null if never used
+   * @example "2025-09-18T11:30:00.000Z"
+   */
+  lastUsedAt: Date | null;
+
+  /**
+   * Creation date
+   * @example "2025-09-18T08:15:00.000Z"
+   */
+  createdAt: Date;
+}
@@ -0,0 +1,38 @@
+import {
+  ArrayNotEmpty, ArrayUnique, IsArray, IsIn, IsInt, IsNotEmpty, IsString, Max, MaxLength, Min, ValidateIf
+} from 'class-validator';
+import { TOKEN_SCOPES, TokenScope } from '../../../../domain/interfaces/entities/TokenScope';
+
+/**
+ * Request for creating an API key
+ */
+export class CreateApiKeyRequest {
+  /**
+   * Name to recognise the key by, e.g. the pipeline using it
+   * @example "GitHub Actions deploy"
+   */
+  @IsNotEmpty({ message: 'Name is required' })
+  @IsString({ message: 'Name must be a string' })
+  @MaxLength(100, { message: 'Name cannot exceed 100 characters' })
+    name!: string;
+
+  /**
+   * Scopes granted to the key
+   * @example ["project:read"]
+   */
+  @IsArray({ message: 'Scopes must be an array' })
+  @ArrayNotEmpty({ message: 'At least one scope is required' })
+  @ArrayUnique({ message: 'Scopes must be unique' })
+  @IsIn(TOKEN_SCOPES, { each: true, message: `Scopes must be among: ${TOKEN_SCOPES.join(', ')}` })
+    scopes!: TokenScope[];
+
+  /**
+   * Days until the key expires (1-365); the key does not expire when omitted
+   * @example 90
+   */
+  @ValidateIf((o, value) => value !== undefined)
+  @IsInt({ message: 'Expiry must be a whole number of days' })
+  @Min(1, { message: 'Expiry must be at least 1 day' })
+  @Max(365, { message: 'Expiry cannot exceed 365 days' })
+    expiresInDays?: number;
+}
@@ -0,0 +1,17 @@
+import { ApiKeyResponse } from '../ApiKeyResponse';
+
+/**
+ * Response for a created API key
+ */
+export interface CreateApiKeyResponse {
+  /**
+   * The API key token, shown only once; send it as `Authorization: Bearer <token>` or `X-API-Key: <token>`
+   * @example "pat_3f9a1c2e5b7d4f6a8c0e2b4d6f8a0c2e4b6d8f0a2c4e6b8d0f2a4c6e8b0d2f4a"
+   */
+  token: string;
+
+  /**
+   * The created API key
+   */
+  apiKey: ApiKeyResponse;
+}
@@ -0,0 +1,10 @@
+/**
+ * Response carrying the CSRF token of the browser
+ */
+export interface CsrfTokenResponse {
+  /**
+   * Token to echo in the X-CSRF-Token header of cookie-authenticated POST, PUT and DELETE requests
+   * @example "q3yJ0x6dXa8S1mN2bV7cR4tW9eZ5uI0oP3lK8jH6gF2"
+   */
+  csrfToken: string;
+}
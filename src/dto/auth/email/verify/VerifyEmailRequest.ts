@@ -0,0 +1,14 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * Request for verifying an email address with a one-time verification token
+ */
+export class VerifyEmailRequest {
+  /**
+   * Verification token received by email
+   * @example "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08"
+   */
+  @IsNotEmpty({ message: 'Verification token is required' })
+  @IsString({ message: 'Verification token must be a string' })
+    token!: string;
+}
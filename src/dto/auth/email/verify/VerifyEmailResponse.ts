@@ -0,0 +1,10 @@
+/**
+ * Response for successful email verification
+ */
+export interface VerifyEmailResponse {
+  /**
+   * Success message
+   * @example "Email verified successfully"
+   */
+  message: string;
+}
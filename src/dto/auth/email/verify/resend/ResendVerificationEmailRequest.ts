@@ -0,0 +1,15 @@
+import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * Request for a new email verification link
+ */
+export class ResendVerificationEmailRequest {
+  /**
+   * Email address awaiting verification
+   * @example "john.doe@example.com"
+   */
+  @IsNotEmpty({ message: 'Email is required' })
+  @IsString({ message: 'Email must be a string' })
+  @IsEmail({}, { message: 'Email must be a valid email address' })
+    email!: string;
+}
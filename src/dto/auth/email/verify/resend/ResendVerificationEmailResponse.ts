@@ -0,0 +1,11 @@
+/**
+ * Response for a verification link request
+ * Identical whether or not the address awaits verification
+ */
+export interface ResendVerificationEmailResponse {
+  /**
+   * Confirmation message
+   * @example "If the address awaits verification, a new verification link has been sent"
+   */
+  message: string;
+}
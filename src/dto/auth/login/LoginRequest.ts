@@ -1,11 +1,12 @@
-import { IsNotEmpty, IsString } from 'class-validator';
+import { ArrayNotEmpty, ArrayUnique, IsArray, IsIn, IsNotEmpty, IsString, ValidateIf } from 'class-validator';
+import { TOKEN_SCOPES, TokenScope } from '../../../domain/interfaces/entities/TokenScope';
 
 /**
  * Request for user login
  */
 export class LoginRequest {
   /**
-   * Username for login
+   * Username or email address for login
    * @example "john_doe"
    */
   @IsNotEmpty({ message: 'Username is required' })
@@ -19,4 +20,15 @@ export class LoginRequest {
   @IsNotEmpty({ message: 'Password is required' })
   @IsString({ message: 'Password must be a string' })
     password!: string;
+
+  /**
+   * Scopes granted to the issued tokens; every scope when omitted
+   * @example ["project:read"]
+   */
+  @ValidateIf((o, value) => value !== undefined)
+  @IsArray({ message: 'Scopes must be an array' })
+  @ArrayNotEmpty({ message: 'At least one scope is required' })
+  @ArrayUnique({ message: 'Scopes must be unique' })
+  @IsIn(TOKEN_SCOPES, { each: true, message: `Scopes must be among: ${TOKEN_SCOPES.join(', ')}` })
+    scopes?: TokenScope[];
 }
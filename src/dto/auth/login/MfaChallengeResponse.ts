@@ -0,0 +1,17 @@
+/**
+ * Login response for users with two-factor authentication enabled
+ * The token is exchanged for real tokens at POST /auth/login/mfa
+ */
+export interface MfaChallengeResponse {
+  /**
+   * Always true: a second factor is needed to complete the login
+   * @example true
+   */
+  mfaRequired: true;
+
+  /**
+   * Short-lived token identifying the pending login
+   * @example "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+   */
+  mfaToken: string;
+}
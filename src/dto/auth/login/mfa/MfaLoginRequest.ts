@@ -0,0 +1,22 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * Request for completing a login with a second factor
+ */
+export class MfaLoginRequest {
+  /**
+   * Token returned by POST /auth/login
+   * @example "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+   */
+  @IsNotEmpty({ message: 'MFA token is required' })
+  @IsString({ message: 'MFA token must be a string' })
+    mfaToken!: string;
+
+  /**
+   * Current code of the authenticator app, or one of the recovery codes
+   * @example "123456"
+   */
+  @IsNotEmpty({ message: 'Code is required' })
+  @IsString({ message: 'Code must be a string' })
+    code!: string;
+}
@@ -1,4 +1,4 @@
-import { IsNotEmpty, IsString } from 'class-validator';
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
 
 /**
  * Request for user logout
@@ -6,17 +6,21 @@ import { IsNotEmpty, IsString } from 'class-validator';
 export class LogoutRequest {
   /**
    * JWT access token to invalidate
+   * Optional for browser clients sending the access token cookie (AUTH_COOKIES both)
    * @example "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
    */
+  @IsOptional()
   @IsNotEmpty({ message: 'Access token is required' })
   @IsString({ message: 'Access token must be a string' })
-    accessToken!: string;
+    accessToken?: string;
 
   /**
    * JWT refresh token to invalidate
+   * Optional for browser clients sending the refresh token cookie (AUTH_COOKIES)
    * @example "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
    */
+  @IsOptional()
   @IsNotEmpty({ message: 'Refresh token is required' })
   @IsString({ message: 'Refresh token must be a string' })
-    refreshToken!: string;
+    refreshToken?: string;
 }
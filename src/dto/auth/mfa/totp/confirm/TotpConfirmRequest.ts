@@ -0,0 +1,14 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * Request for confirming a TOTP enrollment
+ */
+export class TotpConfirmRequest {
+  /**
+   * Current code of the authenticator app
+   * @example "123456"
+   */
+  @IsNotEmpty({ message: 'Code is required' })
+  @IsString({ message: 'Code must be a string' })
+    code!: string;
+}
@@ -0,0 +1,10 @@
+/**
+ * Response for a confirmed TOTP enrollment
+ */
+export interface TotpConfirmResponse {
+  /**
+   * Success message
+   * @example "Two-factor authentication enabled"
+   */
+  message: string;
+}
@@ -0,0 +1,14 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * Request for turning TOTP two-factor authentication off
+ */
+export class TotpDisableRequest {
+  /**
+   * Current password of the user
+   * @example "MySecurePassword123"
+   */
+  @IsNotEmpty({ message: 'Password is required' })
+  @IsString({ message: 'Password must be a string' })
+    password!: string;
+}
@@ -0,0 +1,10 @@
+/**
+ * Response for turning TOTP two-factor authentication off
+ */
+export interface TotpDisableResponse {
+  /**
+   * Success message
+   * @example "Two-factor authentication disabled"
+   */
+  message: string;
+}
@@ -0,0 +1,23 @@
+/**
+ * Response for a started TOTP enrollment
+ * Nothing changes at login until the enrollment is confirmed with a first code
+ */
+export interface TotpEnrollResponse {
+  /**
+   * Base32 encoded secret, for manual entry in the authenticator app
+   * @example "JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP"
+   */
+  secret: string;
+
+  /**
+   * URI to import into the authenticator app, usually rendered as QR code
+   * @example "otpauth://totp/Express%20Server:john_doe?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=Express+Server&algorithm=SHA1&digits=6&period=30"
+   */
+  otpauthUri: string;
+
+  /**
+   * One-time recovery codes, shown only once
+   * @example ["k3mf-q8zt-a2bc-7dex", "p4rw-m2nq-x7yk-b5cj"]
+   */
+  recoveryCodes: string[];
+}
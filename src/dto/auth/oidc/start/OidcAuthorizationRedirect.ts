@@ -0,0 +1,18 @@
+/**
+ * Result of starting a sign-in with an OpenID Connect provider
+ * Not sent as body: the browser is redirected to the authorization URL and
+ * the state token is stored in an HTTP-only cookie for the callback
+ */
+export interface OidcAuthorizationRedirect {
+  /**
+   * Sign-in page of the provider, including state, nonce and PKCE challenge
+   * @example "https://idp.example.com/authorize?response_type=code&client_id=express-server&state=..."
+   */
+  authorizationUrl: string;
+
+  /**
+   * Signed token keeping state, nonce and PKCE verifier until the callback
+   * @example "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+   */
+  stateToken: string;
+}
@@ -0,0 +1,22 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { StrongPassword } from '../../StrongPassword';
+
+/**
+ * Request for changing the authenticated user's password
+ */
+export class ChangePasswordRequest {
+  /**
+   * Current password of the user
+   * @example "MySecurePassword123"
+   */
+  @IsNotEmpty({ message: 'Current password is required' })
+  @IsString({ message: 'Current password must be a string' })
+    currentPassword!: string;
+
+  /**
+   * New password, subject to the same strength rules as registration
+   * @example "MyNewSecurePassword456"
+   */
+  @StrongPassword('New password')
+    newPassword!: string;
+}
@@ -0,0 +1,16 @@
+/**
+ * Response for successful password change
+ */
+export interface ChangePasswordResponse {
+  /**
+   * Success message
+   * @example "Password changed successfully"
+   */
+  message: string;
+
+  /**
+   * Number of other sessions that were revoked
+   * @example 2
+   */
+  revokedSessions: number;
+}
@@ -0,0 +1,14 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * Request for a password reset link
+ */
+export class ForgotPasswordRequest {
+  /**
+   * Username of the account whose password was forgotten
+   * @example "john_doe"
+   */
+  @IsNotEmpty({ message: 'Username is required' })
+  @IsString({ message: 'Username must be a string' })
+    username!: string;
+}
@@ -0,0 +1,11 @@
+/**
+ * Response for a password reset link request
+ * Identical whether or not the account exists
+ */
+export interface ForgotPasswordResponse {
+  /**
+   * Confirmation message
+   * @example "If the account exists, a password reset link has been sent"
+   */
+  message: string;
+}
@@ -0,0 +1,22 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { StrongPassword } from '../../StrongPassword';
+
+/**
+ * Request for resetting a password with a one-time reset token
+ */
+export class ResetPasswordRequest {
+  /**
+   * Reset token received by email
+   * @example "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08"
+   */
+  @IsNotEmpty({ message: 'Reset token is required' })
+  @IsString({ message: 'Reset token must be a string' })
+    token!: string;
+
+  /**
+   * New password, subject to the same strength rules as registration
+   * @example "MyNewSecurePassword456"
+   */
+  @StrongPassword('New password')
+    newPassword!: string;
+}
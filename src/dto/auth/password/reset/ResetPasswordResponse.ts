@@ -0,0 +1,16 @@
+/**
+ * Response for successful password reset
+ */
+export interface ResetPasswordResponse {
+  /**
+   * Success message
+   * @example "Password reset successfully"
+   */
+  message: string;
+
+  /**
+   * Number of sessions that were revoked
+   * @example 2
+   */
+  revokedSessions: number;
+}
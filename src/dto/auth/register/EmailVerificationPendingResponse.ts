@@ -0,0 +1,40 @@
+/**
+ * Registration response while login requires a verified email address
+ * No tokens are issued until the user opens the verification link
+ */
+export interface EmailVerificationPendingResponse {
+  /**
+   * Always true: the email address must be verified before logging in
+   * @example true
+   */
+  emailVerificationRequired: true;
+
+  /**
+   * Confirmation message
+   * @example "Registration successful, check your email to verify your address"
+   */
+  message: string;
+
+  /**
+   * Registered user information
+   */
+  user: {
+    /**
+     * User ID
+     * @example "507f1f77bcf86cd799439011"
+     */
+    id: string;
+
+    /**
+     * Username
+     * @example "john_doe"
+     */
+    username: string;
+
+    /**
+     * Email address the verification link was sent to
+     * @example "john.doe@example.com"
+     */
+    email: string;
+  };
+}
@@ -1,4 +1,5 @@
-import { IsNotEmpty, IsString, Length, Matches } from 'class-validator';
+import { IsEmail, IsNotEmpty, IsString, Length, Matches, MaxLength, ValidateIf } from 'class-validator';
+import { StrongPassword } from '../StrongPassword';
 
 /**
  * Request for user registration
@@ -18,9 +19,17 @@ export class RegisterRequest {
    * Password for registration
    * @example "MySecurePassword123"
    */
-  @IsNotEmpty({ message: 'Password is required' })
-  @IsString({ message: 'Password must be a string' })
-  @Length(8, undefined, { message: 'Password must be at least 8 characters long' })
-  @Matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, { message: 'Password must contain at least one uppercase letter, one lowercase letter, and one number' })
+  @StrongPassword()
     password!: string;
+
+  /**
+   * Email address (optional unless email verification is required)
+   * A verification link is sent to it; it can be used instead of the username to log in
+   * @example "john.doe@example.com"
+   */
+  @ValidateIf((o, value) => value !== undefined)
+  @IsString({ message: 'Email must be a string' })
+  @IsEmail({}, { message: 'Email must be a valid email address' })
+  @MaxLength(254, { message: 'Email cannot exceed 254 characters' })
+    email?: string;
 }
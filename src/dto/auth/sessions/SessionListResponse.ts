@@ -0,0 +1,11 @@
+import { SessionResponse } from './SessionResponse';
+
+/**
+ * List of active sessions response
+ */
+export interface SessionListResponse {
+  /**
+   * Active sessions, most recently used first
+   */
+  sessions: SessionResponse[];
+}
@@ -0,0 +1,15 @@
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+
+/**
+ * Request parameters for session endpoints that require sessionId
+ */
+export class SessionParams {
+    /**
+     * Session ID (MongoDB ObjectId)
+     * @example "6502f1a2b3c4d5e6f7a8b9c0"
+     */
+    @IsNotEmpty({ message: 'Session ID is required' })
+    @IsString({ message: 'Session ID must be a string' })
+    @Matches(/^[0-9a-fA-F]{24}$/, { message: 'Invalid session ID format' })
+      sessionId!: string;
+}
@@ -0,0 +1,40 @@
+/**
+ * Active session (device) data
+ */
+export interface SessionResponse {
+  /**
+   * Session ID
+   * @example "6502f1a2b3c4d5e6f7a8b9c0"
+   */
+  id: string;
+
+  /**
+   * User agent of the client that started the session
+   * @example "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36"
+   */
+  userAgent: string;
+
+  /**
+   * IP address of the client that started the session
+   * @example "203.0.113.42"
+   */
+  ip: string;
+
+  /**
+   * Session start date
+   * @example "2025-09-18T08:15:00.000Z"
+   */
+  createdAt: Date;
+
+  /**
+   * Date of the last token refresh
+   * @example "2025-09-18T11:30:00.000Z"
+   */
+  lastUsedAt: Date;
+
+  /**
+   * Whether this is the session of the access token used for the request
+   * @example true
+   */
+  current: boolean;
+}
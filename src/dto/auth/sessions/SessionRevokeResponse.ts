@@ -0,0 +1,22 @@
+/**
+ * Response for successful session revocation
+ */
+export interface SessionRevokeResponse {
+  /**
+   * Success message
+   * @example "Session revoked successfully"
+   */
+  message: string;
+
+  /**
+   * Number of sessions revoked
+   * @example 1
+   */
+  revokedSessions: number;
+
+  /**
+   * Timestamp when the revocation was performed
+   * @example "2025-09-18T11:30:00.000Z"
+   */
+  revokedAt: Date;
+}
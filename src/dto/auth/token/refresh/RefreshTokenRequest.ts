@@ -1,4 +1,4 @@
-import { IsNotEmpty, IsString } from 'class-validator';
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
 
 /**
  * Request for refreshing access token
@@ -6,9 +6,11 @@ import { IsNotEmpty, IsString } from 'class-validator';
 export class RefreshTokenRequest {
   /**
    * The refresh token to use for generating a new access token
+   * Optional for browser clients sending the refresh token cookie (AUTH_COOKIES)
    * @example "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
    */
+  @IsOptional()
   @IsNotEmpty({ message: 'Refresh token is required' })
   @IsString({ message: 'Refresh token must be a string' })
-    refreshToken!: string;
+    refreshToken?: string;
 }
@@ -4,13 +4,22 @@
 export interface RefreshTokenResponse {
   /**
    * New JWT access token
+   * Omitted when AUTH_COOKIES is "both": the token is set as HttpOnly cookie instead
    * @example "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
    */
-  accessToken: string;
+  accessToken?: string;
 
   /**
    * New JWT refresh token
+   * Omitted when AUTH_COOKIES is enabled: the token is set as HttpOnly cookie instead
    * @example "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
    */
-  refreshToken: string;
+  refreshToken?: string;
+
+  /**
+   * New token to echo in the X-CSRF-Token header of cookie-authenticated requests
+   * Only returned when AUTH_COOKIES is enabled, also set as readable cookie
+   * @example "q3yJ0x6dXa8S1mN2bV7cR4tW9eZ5uI0oP3lK8jH6gF2"
+   */
+  csrfToken?: string;
 }
@@ -0,0 +1,11 @@
+import { OrganizationResponse } from './OrganizationResponse';
+
+/**
+ * List of organizations response
+ */
+export interface OrganizationListResponse {
+  /**
+   * Organizations the user is a member of, ordered by name
+   */
+  organizations: OrganizationResponse[];
+}
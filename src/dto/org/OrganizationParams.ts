@@ -0,0 +1,15 @@
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+
+/**
+ * Request parameters for organization endpoints that require organizationId
+ */
+export class OrganizationParams {
+    /**
+     * Organization ID (MongoDB ObjectId)
+     * @example "507f1f77bcf86cd799439014"
+     */
+    @IsNotEmpty({ message: 'Organization ID is required' })
+    @IsString({ message: 'Organization ID must be a string' })
+    @Matches(/^[0-9a-fA-F]{24}$/, { message: 'Invalid organization ID format' })
+      organizationId!: string;
+}
@@ -0,0 +1,36 @@
+import { OrganizationRole } from '../../domain/interfaces/entities/OrganizationMember';
+
+/**
+ * Organization response data
+ */
+export interface OrganizationResponse {
+  /**
+   * Organization ID
+   * @example "507f1f77bcf86cd799439014"
+   */
+  id: string;
+
+  /**
+   * Organization name
+   * @example "Platform Team"
+   */
+  name: string;
+
+  /**
+   * Role of the authenticated user in the organization
+   * @example "owner"
+   */
+  role: OrganizationRole;
+
+  /**
+   * Organization creation date
+   * @example "2023-09-16T10:30:00.000Z"
+   */
+  createdAt: Date;
+
+  /**
+   * Organization last update date
+   * @example "2023-09-16T15:45:00.000Z"
+   */
+  updatedAt: Date;
+}
@@ -0,0 +1,16 @@
+/**
+ * Response for successful removal of an organization member
+ */
+export interface OrganizationMemberDeleteResponse {
+  /**
+   * Success message
+   * @example "Member removed successfully"
+   */
+  message: string;
+
+  /**
+   * Timestamp when the member was removed
+   * @example "2025-09-18T11:30:00.000Z"
+   */
+  removedAt: Date;
+}
@@ -0,0 +1,11 @@
+import { OrganizationMemberResponse } from './OrganizationMemberResponse';
+
+/**
+ * List of organization members response
+ */
+export interface OrganizationMemberListResponse {
+  /**
+   * Members of the organization in the order they joined
+   */
+  members: OrganizationMemberResponse[];
+}
@@ -0,0 +1,24 @@
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+
+/**
+ * Request parameters for organization member endpoints that require organizationId and userId
+ */
+export class OrganizationMemberParams {
+    /**
+     * Organization ID (MongoDB ObjectId)
+     * @example "507f1f77bcf86cd799439014"
+     */
+    @IsNotEmpty({ message: 'Organization ID is required' })
+    @IsString({ message: 'Organization ID must be a string' })
+    @Matches(/^[0-9a-fA-F]{24}$/, { message: 'Invalid organization ID format' })
+      organizationId!: string;
+
+    /**
+     * User ID of the member (MongoDB ObjectId)
+     * @example "507f1f77bcf86cd799439013"
+     */
+    @IsNotEmpty({ message: 'User ID is required' })
+    @IsString({ message: 'User ID must be a string' })
+    @Matches(/^[0-9a-fA-F]{24}$/, { message: 'Invalid user ID format' })
+      userId!: string;
+}
@@ -0,0 +1,30 @@
+import { OrganizationRole } from '../../../domain/interfaces/entities/OrganizationMember';
+
+/**
+ * Organization member response data
+ */
+export interface OrganizationMemberResponse {
+  /**
+   * User ID of the member
+   * @example "507f1f77bcf86cd799439013"
+   */
+  userId: string;
+
+  /**
+   * Username of the member
+   * @example "jane_doe"
+   */
+  username: string;
+
+  /**
+   * Role of the member in the organization
+   * @example "admin"
+   */
+  role: OrganizationRole;
+
+  /**
+   * Date the user joined the organization
+   * @example "2023-09-16T10:30:00.000Z"
+   */
+  joinedAt: Date;
+}
@@ -0,0 +1,22 @@
+import { IsIn, IsNotEmpty, IsString } from 'class-validator';
+import { ORGANIZATION_ROLES, OrganizationRole } from '../../../../domain/interfaces/entities/OrganizationMember';
+
+/**
+ * Request for adding a member to an organization
+ */
+export class CreateOrganizationMemberRequest {
+  /**
+   * Username of the user to add to the organization
+   * @example "jane_doe"
+   */
+  @IsNotEmpty({ message: 'Username is required' })
+  @IsString({ message: 'Username must be a string' })
+    username!: string;
+
+  /**
+   * Role granted to the user; only owners can grant the owner role
+   * @example "member"
+   */
+  @IsIn(ORGANIZATION_ROLES, { message: `Role must be one of: ${ORGANIZATION_ROLES.join(', ')}` })
+    role!: OrganizationRole;
+}
@@ -0,0 +1,14 @@
+import { IsIn } from 'class-validator';
+import { ORGANIZATION_ROLES, OrganizationRole } from '../../../../domain/interfaces/entities/OrganizationMember';
+
+/**
+ * Request for changing the role of an organization member
+ */
+export class UpdateOrganizationMemberRequest {
+  /**
+   * New role of the member; only owners can grant or take away the owner role
+   * @example "admin"
+   */
+  @IsIn(ORGANIZATION_ROLES, { message: `Role must be one of: ${ORGANIZATION_ROLES.join(', ')}` })
+    role!: OrganizationRole;
+}
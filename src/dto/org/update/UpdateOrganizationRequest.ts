@@ -0,0 +1,16 @@
+import { IsNotEmpty, IsString, MaxLength, MinLength } from 'class-validator';
+
+/**
+ * Request for renaming an organization
+ */
+export class UpdateOrganizationRequest {
+  /**
+   * New organization name, unique across all organizations
+   * @example "Platform Engineering"
+   */
+  @IsNotEmpty({ message: 'Organization name is required' })
+  @IsString({ message: 'Organization name must be a string' })
+  @MinLength(1, { message: 'Organization name must be at least 1 character long' })
+  @MaxLength(100, { message: 'Organization name cannot exceed 100 characters' })
+    name!: string;
+}
@@ -0,0 +1,60 @@
+import { ProjectListSort } from './ProjectListQuery';
+
+/**
+ * Filters and sort order applied to a project list; filters that were not requested are omitted
+ */
+export interface ProjectListFilters {
+  /**
+   * Organization the projects belong to
+   * @example "507f1f77bcf86cd799439011"
+   */
+  organizationId?: string;
+
+  /**
+   * Case-insensitive substring of the project name
+   * @example "api"
+   */
+  name?: string;
+
+  /**
+   * Full-text search on the words of the project name
+   * @example "payment service"
+   */
+  search?: string;
+
+  /**
+   * Host of the git repository URL
+   * @example "github.com"
+   */
+  gitHost?: string;
+
+  /**
+   * Lower bound of the creation date
+   * @example "2024-01-01T00:00:00.000Z"
+   */
+  createdFrom?: Date;
+
+  /**
+   * Upper bound of the creation date
+   * @example "2024-12-31T23:59:59.999Z"
+   */
+  createdTo?: Date;
+
+  /**
+   * Lower bound of the last update date
+   * @example "2024-01-01T00:00:00.000Z"
+   */
+  updatedFrom?: Date;
+
+  /**
+   * Upper bound of the last update date
+   * @example "2024-12-31T23:59:59.999Z"
+   */
+  updatedTo?: Date;
+
+  /**
+   * Sort order of the projects
+   * @example "-createdAt"
+   */
+  sort: ProjectListSort;
+}
@@ -0,0 +1,146 @@
+import { IsIn, IsISO8601, IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+
+/**
+ * Orders the project list can be sorted in: a field, descending when prefixed with "-"
+ */
+export const PROJECT_LIST_SORTS = ['name', '-name', 'createdAt', '-createdAt', 'updatedAt', '-updatedAt'] as const;
+
+/**
+ * Order the project list can be sorted in
+ */
+export type ProjectListSort = typeof PROJECT_LIST_SORTS[number];
+
+/**
+ * Ways the project list can be paginated: by page number, or by cursor
+ */
+export const PROJECT_LIST_PAGINATIONS = ['offset', 'cursor'] as const;
+
+/**
+ * Way the project list can be paginated
+ */
+export type ProjectListPagination = typeof PROJECT_LIST_PAGINATIONS[number];
+
+/**
+ * Query parameters paginating, filtering and sorting the project list
+ * Date ranges are ISO 8601 dates and both bounds are inclusive
+ */
+export class ProjectListQuery {
+  /**
+   * Pagination mode (default: offset); cursor mode reads pages from the nextCursor and prevCursor
+   * of the previous page, which stay stable when projects are created in between
+   * @example "cursor"
+   */
+  @IsOptional()
+  @IsIn(PROJECT_LIST_PAGINATIONS, { message: `Pagination must be one of: ${PROJECT_LIST_PAGINATIONS.join(', ')}` })
+    pagination?: ProjectListPagination;
+
+  /**
+   * Cursor returned as nextCursor or prevCursor by the previous page, in cursor mode; omit it for
+   * the first page. A cursor only works with the sort order it was issued for
+   * @example "eyJzIjoiLWNyZWF0ZWRBdCIsImQiOiJhIn0"
+   */
+  @IsOptional()
+  @IsString({ message: 'Cursor must be a string' })
+  @MaxLength(1000, { message: 'Invalid cursor' })
+  @Matches(/^[A-Za-z0-9_-]+$/, { message: 'Invalid cursor' })
+    cursor?: string;
+
+  /**
+   * Whether to count the matching projects in cursor mode (default: false); offset mode always counts them
+   * @example "true"
+   */
+  @IsOptional()
+  @IsIn(['true', 'false'], { message: 'includeTotal must be true or false' })
+    includeTotal?: 'true' | 'false';
+
+  /**
+   * Page number in offset mode (default: 1); invalid values fall back to the default
+   * @example 1
+   */
+  @IsOptional()
+    page?: number;
+
+  /**
+   * Number of projects per page, at most 100 (default: 10); invalid values fall back to the default
+   * @example 10
+   */
+  @IsOptional()
+    limit?: number;
+
+  /**
+   * Only list the projects of this organization (MongoDB ObjectId)
+   * @example "507f1f77bcf86cd799439011"
+   */
+  @IsOptional()
+  @IsString({ message: 'Organization ID must be a string' })
+  @Matches(/^[0-9a-fA-F]{24}$/, { message: 'Invalid organization ID format' })
+    organizationId?: string;
+
+  /**
+   * Case-insensitive substring of the project name
+   * @example "api"
+   */
+  @IsOptional()
+  @IsString({ message: 'Name must be a string' })
+  @MaxLength(100, { message: 'Name cannot exceed 100 characters' })
+    name?: string;
+
+  /**
+   * Full-text search on the words of the project name
+   * @example "payment service"
+   */
+  @IsOptional()
+  @IsString({ message: 'Search must be a string' })
+  @MaxLength(100, { message: 'Search cannot exceed 100 characters' })
+    search?: string;
+
+  /**
+   * Host of the git repository URL
+   * @example "github.com"
+   */
+  @IsOptional()
+  @IsString({ message: 'Git host must be a string' })
+  @MaxLength(253, { message: 'Git host cannot exceed 253 characters' })
+  @Matches(/^[A-Za-z0-9.-]+$/, { message: 'Git host must be a host name' })
+    gitHost?: string;
+
+  /**
+   * Only list projects created at or after this date
+   * @example "2024-01-01T00:00:00.000Z"
+   */
+  @IsOptional()
+  @IsISO8601({}, { message: 'createdFrom must be a valid ISO 8601 date' })
+    createdFrom?: string;
+
+  /**
+   * Only list projects created at or before this date
+   * @example "2024-12-31T23:59:59.999Z"
+   */
+  @IsOptional()
+  @IsISO8601({}, { message: 'createdTo must be a valid ISO 8601 date' })
+    createdTo?: string;
+
+  /**
+   * Only list projects last updated at or after this date
+   * @example "2024-01-01T00:00:00.000Z"
+   */
+  @IsOptional()
+  @IsISO8601({}, { message: 'updatedFrom must be a valid ISO 8601 date' })
+    updatedFrom?: string;
+
+  /**
+   * Only list projects last updated at or before this date
+   * @example "2024-12-31T23:59:59.999Z"
+   */
+  @IsOptional()
+  @IsISO8601({}, { message: 'updatedTo must be a valid ISO 8601 date' })
+    updatedTo?: string;
+
+  /**
+   * Sort order (default: -createdAt, newest first)
+   * @example "name"
+   */
+  @IsOptional()
+  @IsIn(PROJECT_LIST_SORTS, { message: `Sort must be one of: ${PROJECT_LIST_SORTS.join(', ')}` })
+    sort?: ProjectListSort;
+}
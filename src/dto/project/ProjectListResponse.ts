@@ -1,35 +1,55 @@
 import { ProjectResponse } from './ProjectResponse';
+import { ProjectListFilters } from './ProjectListFilters';
 
 /**
  * Paginated list of projects response
+ * Offset mode returns the page number and total; cursor mode returns the cursors of the
+ * adjacent pages, and the total only when requested
  */
 export interface ProjectListResponse {
   /**
-   * List of projects
+   * Projects owned by the user, by their organizations or shared with them, in the requested order
    */
   projects: ProjectResponse[];
 
   /**
-   * Total number of projects
+   * Total number of projects, omitted in cursor mode unless includeTotal is set
    * @example 42
    */
-  total: number;
+  total?: number;
 
   /**
-   * Total number of pages
+   * Total number of pages, omitted in cursor mode unless includeTotal is set
    * @example 5
    */
-  totalPages: number;
+  totalPages?: number;
 
   /**
-   * Current page number
+   * Current page number, in offset mode
    * @example 1
    */
-  currentPage: number;
+  currentPage?: number;
+
+  /**
+   * Cursor of the next page in cursor mode, null on the last page
+   * @example "eyJzIjoiLWNyZWF0ZWRBdCIsImQiOiJhIn0"
+   */
+  nextCursor?: string | null;
+
+  /**
+   * Cursor of the previous page in cursor mode, null on the first page
+   * @example null
+   */
+  prevCursor?: string | null;
 
   /**
    * Number of items per page
    * @example 10
    */
   limit: number;
+
+  /**
+   * Filters and sort order applied to the list
+   */
+  filters: ProjectListFilters;
 }
@@ -1,3 +1,5 @@
+import { ProjectRole } from '../../domain/interfaces/entities/ProjectMember';
+
 /**
  * Project response data
  */
@@ -21,11 +23,23 @@ export interface ProjectResponse {
   gitUrl: string;
 
   /**
-   * User ID who owns the project
+   * User ID who created the project, its owner unless it belongs to an organization
    * @example "507f1f77bcf86cd799439012"
    */
   userId: string;
 
+  /**
+   * Organization ID who owns the project, null for personal projects
+   * @example "507f1f77bcf86cd799439014"
+   */
+  organizationId: string | null;
+
+  /**
+   * Role of the authenticated user on the project
+   * @example "owner"
+   */
+  role: ProjectRole;
+
   /**
    * Project creation date
    * @example "2023-09-16T10:30:00.000Z"
@@ -1,4 +1,4 @@
-import { IsNotEmpty, IsString, MaxLength, MinLength } from 'class-validator';
+import { IsNotEmpty, IsOptional, IsString, Matches, MaxLength, MinLength } from 'class-validator';
 
 /**
  * Request for creating a new project
@@ -21,4 +21,13 @@ export class CreateProjectRequest {
   @IsNotEmpty({ message: 'Git URL is required' })
   @IsString({ message: 'Git URL must be a string' })
     gitUrl!: string;
+
+  /**
+   * ID of the organization owning the project (optional, personal project if omitted)
+   * @example "507f1f77bcf86cd799439014"
+   */
+  @IsOptional()
+  @IsString({ message: 'Organization ID must be a string' })
+  @Matches(/^[0-9a-fA-F]{24}$/, { message: 'Invalid organization ID format' })
+    organizationId?: string;
 }
@@ -0,0 +1,12 @@
+import { ProjectMemberResponse } from './ProjectMemberResponse';
+
+/**
+ * List of project members response
+ */
+export interface ProjectMemberListResponse {
+  /**
+   * Owner of a personal project first, then the other members in the order they were added;
+   * the members of the organization of a project are listed by the organization
+   */
+  members: ProjectMemberResponse[];
+}
@@ -0,0 +1,24 @@
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+
+/**
+ * Request parameters for project member endpoints that require projectId and userId
+ */
+export class ProjectMemberParams {
+    /**
+     * Project ID (MongoDB ObjectId)
+     * @example "507f1f77bcf86cd799439011"
+     */
+    @IsNotEmpty({ message: 'Project ID is required' })
+    @IsString({ message: 'Project ID must be a string' })
+    @Matches(/^[0-9a-fA-F]{24}$/, { message: 'Invalid project ID format' })
+      projectId!: string;
+
+    /**
+     * User ID of the member (MongoDB ObjectId)
+     * @example "507f1f77bcf86cd799439013"
+     */
+    @IsNotEmpty({ message: 'User ID is required' })
+    @IsString({ message: 'User ID must be a string' })
+    @Matches(/^[0-9a-fA-F]{24}$/, { message: 'Invalid user ID format' })
+      userId!: string;
+}
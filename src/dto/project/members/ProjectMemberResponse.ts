@@ -0,0 +1,30 @@
+import { ProjectRole } from '../../../domain/interfaces/entities/ProjectMember';
+
+/**
+ * Project member response data
+ */
+export interface ProjectMemberResponse {
+  /**
+   * User ID of the member
+   * @example "507f1f77bcf86cd799439013"
+   */
+  userId: string;
+
+  /**
+   * Username of the member
+   * @example "jane_doe"
+   */
+  username: string;
+
+  /**
+   * Role of the member on the project
+   * @example "maintainer"
+   */
+  role: ProjectRole;
+
+  /**
+   * Date the user was added to the project; the creation date of the project for its owner
+   * @example "2023-09-16T10:30:00.000Z"
+   */
+  addedAt: Date;
+}
@@ -0,0 +1,22 @@
+import { IsIn, IsNotEmpty, IsString } from 'class-validator';
+import { PROJECT_MEMBER_ROLES, ProjectMemberRole } from '../../../../domain/interfaces/entities/ProjectMember';
+
+/**
+ * Request for adding a member to a project
+ */
+export class CreateProjectMemberRequest {
+  /**
+   * Username of the user to share the project with
+   * @example "jane_doe"
+   */
+  @IsNotEmpty({ message: 'Username is required' })
+  @IsString({ message: 'Username must be a string' })
+    username!: string;
+
+  /**
+   * Role granted to the user
+   * @example "viewer"
+   */
+  @IsIn(PROJECT_MEMBER_ROLES, { message: `Role must be one of: ${PROJECT_MEMBER_ROLES.join(', ')}` })
+    role!: ProjectMemberRole;
+}
@@ -0,0 +1,14 @@
+import { IsIn } from 'class-validator';
+import { PROJECT_MEMBER_ROLES, ProjectMemberRole } from '../../../../domain/interfaces/entities/ProjectMember';
+
+/**
+ * Request for changing the role of a project member
+ */
+export class UpdateProjectMemberRequest {
+  /**
+   * New role of the member
+   * @example "maintainer"
+   */
+  @IsIn(PROJECT_MEMBER_ROLES, { message: `Role must be one of: ${PROJECT_MEMBER_ROLES.join(', ')}` })
+    role!: ProjectMemberRole;
+}
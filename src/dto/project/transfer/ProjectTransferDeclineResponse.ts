@@ -0,0 +1,16 @@
+/**
+ * Response for a declined or withdrawn project transfer
+ */
+export interface ProjectTransferDeclineResponse {
+  /**
+   * Success message
+   * @example "Transfer declined successfully"
+   */
+  message: string;
+
+  /**
+   * Timestamp when the transfer was declined
+   * @example "2025-09-18T11:30:00.000Z"
+   */
+  declinedAt: Date;
+}
@@ -0,0 +1,11 @@
+import { ProjectTransferResponse } from './ProjectTransferResponse';
+
+/**
+ * List of pending project transfers response
+ */
+export interface ProjectTransferListResponse {
+  /**
+   * Transfers offered to the authenticated user, newest first
+   */
+  transfers: ProjectTransferResponse[];
+}
@@ -0,0 +1,46 @@
+/**
+ * Pending project transfer response data
+ */
+export interface ProjectTransferResponse {
+  /**
+   * ID of the project being transferred
+   * @example "507f1f77bcf86cd799439011"
+   */
+  projectId: string;
+
+  /**
+   * Name of the project being transferred
+   * @example "My Awesome Project"
+   */
+  projectName: string;
+
+  /**
+   * User ID of the user who requested the transfer
+   * @example "507f1f77bcf86cd799439012"
+   */
+  fromUserId: string;
+
+  /**
+   * Username of the user who requested the transfer
+   * @example "john_doe"
+   */
+  fromUsername: string;
+
+  /**
+   * User ID of the user the project is offered to
+   * @example "507f1f77bcf86cd799439013"
+   */
+  toUserId: string;
+
+  /**
+   * Username of the user the project is offered to
+   * @example "jane_doe"
+   */
+  toUsername: string;
+
+  /**
+   * Date the transfer was requested
+   * @example "2025-09-18T10:30:00.000Z"
+   */
+  requestedAt: Date;
+}
@@ -0,0 +1,14 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * Request for transferring a project to another user
+ */
+export class CreateProjectTransferRequest {
+  /**
+   * Username of the user the project is offered to
+   * @example "jane_doe"
+   */
+  @IsNotEmpty({ message: 'Username is required' })
+  @IsString({ message: 'Username must be a string' })
+    username!: string;
+}
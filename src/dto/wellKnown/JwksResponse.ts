@@ -0,0 +1,69 @@
+/**
+ * Public key verifying access tokens, in JSON Web Key format
+ * RSA keys carry n and e, EC keys carry crv, x and y
+ */
+export interface JwkResponse {
+  /**
+   * Key type
+   * @example "RSA"
+   */
+  kty: string;
+
+  /**
+   * Key ID, matching the kid header of the tokens signed with the key
+   * @example "2025-07-01"
+   */
+  kid: string;
+
+  /**
+   * Intended use of the key: token signatures
+   * @example "sig"
+   */
+  use: string;
+
+  /**
+   * Algorithm of the signatures
+   * @example "RS256"
+   */
+  alg: string;
+
+  /**
+   * RSA modulus (base64url)
+   * @example "0vx7agoebGcQSuuPiLJXZptN9nndrQmbXEps2aiAFbWhM78LhWx4..."
+   */
+  n?: string;
+
+  /**
+   * RSA public exponent (base64url)
+   * @example "AQAB"
+   */
+  e?: string;
+
+  /**
+   * EC curve
+   * @example "P-256"
+   */
+  crv?: string;
+
+  /**
+   * EC x coordinate (base64url)
+   * @example "f83OJ3D2xF1Bg8vub9tLe1gHMzV76e8Tus9uPHvRVEU"
+   */
+  x?: string;
+
+  /**
+   * EC y coordinate (base64url)
+   * @example "x_FEzRu9m36HLN_tue659LNpXW6pCyStikYjKIWI5a0"
+   */
+  y?: string;
+}
+
+/**
+ * JSON Web Key Set of the keys verifying access tokens
+ */
+export interface JwksResponse {
+  /**
+   * Public keys, including keys that will start signing later; empty when access tokens are signed with HS256
+   */
+  keys: JwkResponse[];
+}
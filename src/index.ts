@@ -1,6 +1,8 @@
 import 'reflect-metadata';
 import { createApp, EnvVars } from './app';
 import { createLogger } from './setup/logger';
+import { createMailer } from './setup/mailer';
+import { createScheduler } from './setup/scheduler';
 import { ContainerDAOMongoDB } from './domain/mongodb/ContainerDAOMongoDB';
 import { DatabaseConnectionMongoDB } from './domain/mongodb/DatabaseConnectionMongoDB';
 import { MongoDBSessionProducer } from './domain/mongodb/MongoDBSessionProducer';
@@ -12,6 +14,7 @@ async function startServer() {
   const logger = createLogger(envVars);
   const dbConnection = new DatabaseConnectionMongoDB();
   const timestampProducer = new DefaultTimestampProducer();
+  const mailer = createMailer(envVars, logger, timestampProducer);
 
   try {
     // Connect to database
@@ -19,7 +22,13 @@ async function startServer() {
     
     const dbSessionProducer = new MongoDBSessionProducer();
     
-    const app = await createApp(envVars, containerDAO, dbSessionProducer, timestampProducer, logger);
+    const app = await createApp(envVars, containerDAO, dbSessionProducer, timestampProducer, logger, mailer);
+
+    // Start maintenance jobs
+    const scheduler = createScheduler(envVars, containerDAO, dbSessionProducer, timestampProducer, logger);
+    if (envVars.JOBS_ENABLED) {
+      scheduler.start();
+    }
     
     // Start server
     const server = app.listen(envVars.PORT, () => {
@@ -29,6 +38,8 @@ async function startServer() {
       logger.info('Security headers enabled with Helmet');
       logger.info('Rate limiting enabled');
       logger.info('Input sanitization enabled');
+      logger.info(`Mail transport: ${envVars.MAIL_TRANSPORT}`, { mailTransport: envVars.MAIL_TRANSPORT });
+      logger.info(`Scheduled jobs ${envVars.JOBS_ENABLED ? 'enabled' : 'disabled'}`, { jobsEnabled: envVars.JOBS_ENABLED });
       logger.info(`Health check available at http://localhost:${envVars.PORT}/health`);
       logger.info(`API docs available at http://localhost:${envVars.PORT}/docs`);
     });
@@ -39,6 +50,8 @@ async function startServer() {
       
       server.close(async () => {
         try {
+          // Let running jobs finish before their database connection goes away
+          await scheduler.stop();
           await dbConnection.disconnect(envVars, logger);
           logger.info('Server closed');
           process.exit(0);
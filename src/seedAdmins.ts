@@ -0,0 +1,29 @@
+import 'reflect-metadata';
+import { EnvVars } from './setup/EnvVars';
+import { createLogger } from './setup/logger';
+import { seedAdmins } from './setup/adminSeed';
+import { ContainerDAOMongoDB } from './domain/mongodb/ContainerDAOMongoDB';
+import { DatabaseConnectionMongoDB } from './domain/mongodb/DatabaseConnectionMongoDB';
+import { MongoDBSessionProducer } from './domain/mongodb/MongoDBSessionProducer';
+import { DefaultTimestampProducer } from './utils/TimestampProducer';
+
+async function runAdminSeed() {
+  const envVars = new EnvVars();
+  const logger = createLogger(envVars);
+  const dbConnection = new DatabaseConnectionMongoDB();
+
+  await dbConnection.connect(envVars, logger);
+  try {
+    const promoted = await seedAdmins(
+      envVars, new ContainerDAOMongoDB(), new MongoDBSessionProducer(), new DefaultTimestampProducer(), logger
+    );
+    logger.info(`Admin seed completed, ${promoted.length} user(s) granted the admin role`, { promoted });
+  } finally {
+    await dbConnection.disconnect(envVars, logger);
+  }
+}
+
+runAdminSeed().catch((error) => {
+  console.error('Admin seed failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,58 @@
+import winston from 'winston';
+import { EnvVars } from './EnvVars';
+import { runInTransaction } from './scheduler';
+import { ContainerDAO } from '../domain/interfaces/ContainerDAO';
+import { DatabaseSessionProducer } from '../domain/interfaces/DatabaseSessionProducer';
+import { UserRole } from '../domain/interfaces/entities/User';
+import { AuditLogDBUtils } from '../domain/utils/AuditLogDBUtils';
+import { TimestampProducer } from '../utils/TimestampProducer';
+
+/** Actor recorded in the audit log for the roles granted by the seed */
+const SEED_ACTOR = { userId: null, username: 'admin-seed', ip: 'local', userAgent: 'admin-seed' };
+
+/**
+ * Grants the admin role to the existing users listed in ADMIN_USERNAMES.
+ *
+ * Run once by an operator (`npm run seed:admins`) after the accounts were registered.
+ * Usernames without an account are skipped rather than reserved, so nobody can become
+ * admin by registering one of them, and the role is never granted again on its own:
+ * an admin whose role was taken away keeps it taken away until the seed is run again.
+ *
+ * @param envVars - Environment configuration with ADMIN_USERNAMES
+ * @param containerDAO - DAO container of the users
+ * @param dbSessionProducer - Producer of the session the roles are written with
+ * @param timestampProducer - Producer of the timestamp of the audit log entries
+ * @param logger - Logger of the outcome for each username
+ * @returns Usernames granted the admin role
+ */
+export async function seedAdmins(
+  envVars: EnvVars,
+  containerDAO: ContainerDAO<unknown>,
+  dbSessionProducer: DatabaseSessionProducer<unknown>,
+  timestampProducer: TimestampProducer,
+  logger: winston.Logger
+): Promise<string[]> {
+  const promoted: string[] = [];
+  for (const username of envVars.ADMIN_USERNAMES) {
+    const user = await containerDAO.userDAO.findByUsername(username);
+    if (!user) {
+      logger.warn('Admin seed skipped an unknown username', { username });
+      continue;
+    }
+    if (user.roles.includes('admin')) {
+      continue;
+    }
+
+    const roles: UserRole[] = [...user.roles, 'admin'];
+    await runInTransaction(dbSessionProducer, async session => {
+      await containerDAO.userDAO.updateRoles(session, user.id, roles);
+      await AuditLogDBUtils.record(
+        containerDAO, session, 'user.admin_grant', SEED_ACTOR, user.id, timestampProducer.getNow(),
+        { roles: user.roles }, { roles }
+      );
+    });
+    logger.info('Admin role granted', { username });
+    promoted.push(username);
+  }
+  return promoted;
+}
@@ -0,0 +1,36 @@
+/**
+ * Reads an environment variable, applying its default when unset.
+ */
+export type EnvReader = (key: string, defaultValue?: string) => string;
+
+/**
+ * Reads an environment variable from process.env.
+ * 
+ * @param key - Name of the variable
+ * @param defaultValue - Value used when the variable is unset; required variables have none
+ * @returns Value of the variable
+ * @throws {Error} When the variable is unset and has no default value
+ */
+export const getEnvVar: EnvReader = (key, defaultValue) => {
+  const value = process.env[key];
+  if (value === undefined) {
+    if (defaultValue !== undefined) {
+      return defaultValue;
+    }
+    throw new Error(`Environment variable ${key} is required`);
+  }
+  return value;
+};
+
+/**
+ * Splits a comma-separated variable into its trimmed, non-empty entries.
+ * 
+ * @param value - Comma-separated value
+ * @returns Entries of the list (empty when the value is blank)
+ */
+export function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0);
+}
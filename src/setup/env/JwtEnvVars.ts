@@ -0,0 +1,207 @@
+import { EnvReader, parseList } from './EnvReader';
+import { ServerConfig, ServerEnvVars } from './ServerEnvVars';
+
+/**
+ * Supported signing algorithms of access tokens.
+ */
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+/**
+ * Settings of the access and refresh tokens.
+ */
+export interface JwtConfig {
+  /** Secret key for signing JWT access tokens */
+  JWT_SECRET: string;
+  
+  /** Expiration time for JWT access tokens (e.g., "15m", "1h") */
+  JWT_EXPIRES_IN: string;
+  
+  /** Secret key for signing JWT refresh tokens */
+  JWT_REFRESH_SECRET: string;
+  
+  /** Expiration time for JWT refresh tokens (e.g., "7d", "30d") */
+  JWT_REFRESH_EXPIRES_IN: string;
+
+  /** Signing algorithm of access tokens; RS256 and ES256 sign with the keys of JWT_KEY_FILES and JWT_KEYS_DIR */
+  JWT_ALGORITHM: JwtAlgorithm;
+
+  /** PEM private key files signing access tokens */
+  JWT_KEY_FILES: string[];
+
+  /** Directory whose .pem private key files sign access tokens */
+  JWT_KEYS_DIR: string;
+
+  /** Issuer (`iss` claim) of access and refresh tokens, defaults to SERVER_NAME */
+  JWT_ISSUER: string;
+
+  /** Audience (`aud` claim) of access and refresh tokens, defaults to JWT_ISSUER */
+  JWT_AUDIENCE: string;
+
+  /** Clock skew tolerated when checking token expiration (e.g., "0s", "30s") */
+  JWT_CLOCK_TOLERANCE: string;
+
+  /** Whether revoked access tokens are cached in-process by the auth middleware */
+  TOKEN_REVOCATION_CACHE_ENABLED: boolean;
+
+  /** Time-to-live of revocation cache entries (e.g., "30s", "1m") */
+  TOKEN_REVOCATION_CACHE_TTL: string;
+
+  /** Maximum number of entries kept in the revocation cache */
+  TOKEN_REVOCATION_CACHE_MAX_SIZE: number;
+}
+
+/**
+ * Parses and validates the settings of the access and refresh tokens.
+ * 
+ * @param getEnvVar - Reader applying defaults and rejecting missing variables
+ * @param serverName - Name of the server instance, the default issuer
+ * @returns Validated token settings
+ * @throws {Error} When a setting is invalid
+ */
+export function parseJwtConfig(getEnvVar: EnvReader, serverName: string): JwtConfig {
+  const revocationCacheMaxSize = parseInt(getEnvVar('TOKEN_REVOCATION_CACHE_MAX_SIZE', '10000'), 10);
+  if (isNaN(revocationCacheMaxSize) || revocationCacheMaxSize <= 0) {
+    throw new Error('TOKEN_REVOCATION_CACHE_MAX_SIZE must be a positive number');
+  }
+
+  const jwtAlgorithm = getEnvVar('JWT_ALGORITHM', 'HS256') as JwtAlgorithm;
+  if (!['HS256', 'RS256', 'ES256'].includes(jwtAlgorithm)) {
+    throw new Error('JWT_ALGORITHM must be one of: HS256, RS256, ES256');
+  }
+
+  const jwtKeyFiles = parseList(getEnvVar('JWT_KEY_FILES', ''));
+  const jwtKeysDir = getEnvVar('JWT_KEYS_DIR', '');
+  if (jwtAlgorithm !== 'HS256' && jwtKeyFiles.length === 0 && !jwtKeysDir) {
+    throw new Error(`JWT_KEY_FILES or JWT_KEYS_DIR is required with JWT_ALGORITHM ${jwtAlgorithm}`);
+  }
+
+  const jwtIssuer = getEnvVar('JWT_ISSUER', serverName);
+
+  return {
+    JWT_SECRET: getEnvVar('JWT_SECRET', 'your-super-secret-jwt-key-change-in-production'),
+    JWT_EXPIRES_IN: getEnvVar('JWT_EXPIRES_IN', '15m'),
+    JWT_REFRESH_SECRET: getEnvVar('JWT_REFRESH_SECRET', 'your-super-secret-refresh-key-change-in-production'),
+    JWT_REFRESH_EXPIRES_IN: getEnvVar('JWT_REFRESH_EXPIRES_IN', '7d'),
+    JWT_ALGORITHM: jwtAlgorithm,
+    JWT_KEY_FILES: jwtKeyFiles,
+    JWT_KEYS_DIR: jwtKeysDir,
+    JWT_ISSUER: jwtIssuer,
+    JWT_AUDIENCE: getEnvVar('JWT_AUDIENCE', jwtIssuer),
+    JWT_CLOCK_TOLERANCE: getEnvVar('JWT_CLOCK_TOLERANCE', '0s'),
+    TOKEN_REVOCATION_CACHE_ENABLED: getEnvVar('TOKEN_REVOCATION_CACHE_ENABLED', 'true').toLowerCase() !== 'false',
+    TOKEN_REVOCATION_CACHE_TTL: getEnvVar('TOKEN_REVOCATION_CACHE_TTL', '30s'),
+    TOKEN_REVOCATION_CACHE_MAX_SIZE: revocationCacheMaxSize
+  };
+}
+
+/**
+ * Getters of the settings of the access and refresh tokens.
+ */
+export abstract class JwtEnvVars extends ServerEnvVars {
+  /** Parsed and validated environment configuration */
+  protected abstract override readonly env: ServerConfig & JwtConfig;
+
+  /**
+   * Gets the JWT access token secret.
+   * @returns Secret key for signing access tokens
+   */
+  get JWT_SECRET(): string {
+    return this.env.JWT_SECRET;
+  }
+
+  /**
+   * Gets the JWT access token expiration time.
+   * @returns Time string (e.g., "15m", "1h")
+   */
+  get JWT_EXPIRES_IN(): string {
+    return this.env.JWT_EXPIRES_IN;
+  }
+
+  /**
+   * Gets the JWT refresh token secret.
+   * @returns Secret key for signing refresh tokens
+   */
+  get JWT_REFRESH_SECRET(): string {
+    return this.env.JWT_REFRESH_SECRET;
+  }
+
+  /**
+   * Gets the JWT refresh token expiration time.
+   * @returns Time string (e.g., "7d", "30d")
+   */
+  get JWT_REFRESH_EXPIRES_IN(): string {
+    return this.env.JWT_REFRESH_EXPIRES_IN;
+  }
+
+  /**
+   * Gets the signing algorithm of access tokens.
+   * @returns HS256 (JWT_SECRET), or RS256/ES256 (private key files)
+   */
+  get JWT_ALGORITHM(): JwtAlgorithm {
+    return this.env.JWT_ALGORITHM;
+  }
+
+  /**
+   * Gets the private key files signing access tokens.
+   * @returns Paths of PEM files, named after their key ID
+   */
+  get JWT_KEY_FILES(): string[] {
+    return this.env.JWT_KEY_FILES;
+  }
+
+  /**
+   * Gets the directory of the private keys signing access tokens.
+   * @returns Directory of .pem files named after their key ID, empty when unset
+   */
+  get JWT_KEYS_DIR(): string {
+    return this.env.JWT_KEYS_DIR;
+  }
+
+  /**
+   * Gets the issuer of access and refresh tokens.
+   * @returns Value of the `iss` claim, SERVER_NAME unless configured
+   */
+  get JWT_ISSUER(): string {
+    return this.env.JWT_ISSUER;
+  }
+
+  /**
+   * Gets the audience of access and refresh tokens.
+   * @returns Value of the `aud` claim, JWT_ISSUER unless configured
+   */
+  get JWT_AUDIENCE(): string {
+    return this.env.JWT_AUDIENCE;
+  }
+
+  /**
+   * Gets the clock skew tolerated when verifying tokens.
+   * @returns Time string (e.g., "0s", "30s")
+   */
+  get JWT_CLOCK_TOLERANCE(): string {
+    return this.env.JWT_CLOCK_TOLERANCE;
+  }
+
+  /**
+   * Gets whether the access token revocation cache is enabled.
+   * @returns True if revoked tokens are cached in-process
+   */
+  get TOKEN_REVOCATION_CACHE_ENABLED(): boolean {
+    return this.env.TOKEN_REVOCATION_CACHE_ENABLED;
+  }
+
+  /**
+   * Gets the revocation cache entry time-to-live.
+   * @returns Time string (e.g., "30s", "1m")
+   */
+  get TOKEN_REVOCATION_CACHE_TTL(): string {
+    return this.env.TOKEN_REVOCATION_CACHE_TTL;
+  }
+
+  /**
+   * Gets the maximum size of the revocation cache.
+   * @returns Maximum number of cached revocations
+   */
+  get TOKEN_REVOCATION_CACHE_MAX_SIZE(): number {
+    return this.env.TOKEN_REVOCATION_CACHE_MAX_SIZE;
+  }
+}
@@ -0,0 +1,156 @@
+import { EnvReader } from './EnvReader';
+import { JwtConfig } from './JwtEnvVars';
+import { MailConfig, MailEnvVars } from './MailEnvVars';
+import { ServerConfig } from './ServerEnvVars';
+
+/**
+ * Tokens handed to browser clients as HttpOnly cookies instead of in response bodies.
+ */
+export type AuthCookieMode = 'off' | 'refresh' | 'both';
+
+/**
+ * Supported SameSite attributes of the authentication cookies.
+ */
+export type AuthCookieSameSite = 'strict' | 'lax' | 'none';
+
+/**
+ * Settings of login lockout, second factors and authentication cookies.
+ */
+export interface LoginConfig {
+  /** Consecutive failed logins after which a username gets locked */
+  LOGIN_MAX_FAILED_ATTEMPTS: number;
+
+  /** Duration of the first lockout, doubled on every further lockout (e.g., "1m") */
+  LOGIN_LOCKOUT_DURATION: string;
+
+  /** Upper bound of the lockout duration (e.g., "1h") */
+  LOGIN_LOCKOUT_MAX_DURATION: string;
+
+  /** Lifetime of the token exchanged for real tokens with a second factor (e.g., "5m") */
+  MFA_TOKEN_EXPIRES_IN: string;
+
+  /** Service name shown by authenticator apps, defaults to SERVER_NAME */
+  TOTP_ISSUER: string;
+
+  /** Tokens set as HttpOnly cookies: none (off), the refresh token, or both tokens */
+  AUTH_COOKIES: AuthCookieMode;
+
+  /** SameSite attribute of the authentication cookies */
+  AUTH_COOKIE_SAME_SITE: AuthCookieSameSite;
+
+  /** Whether the authentication cookies are only sent over HTTPS */
+  AUTH_COOKIE_SECURE: boolean;
+}
+
+/**
+ * Parses and validates the settings of login lockout, second factors and authentication cookies.
+ * 
+ * @param getEnvVar - Reader applying defaults and rejecting missing variables
+ * @param serverName - Name of the server instance, the default TOTP issuer
+ * @returns Validated login settings
+ * @throws {Error} When a setting is invalid
+ */
+export function parseLoginConfig(getEnvVar: EnvReader, serverName: string): LoginConfig {
+  const loginMaxFailedAttempts = parseInt(getEnvVar('LOGIN_MAX_FAILED_ATTEMPTS', '5'), 10);
+  if (isNaN(loginMaxFailedAttempts) || loginMaxFailedAttempts <= 0) {
+    throw new Error('LOGIN_MAX_FAILED_ATTEMPTS must be a positive number');
+  }
+
+  const authCookies = getEnvVar('AUTH_COOKIES', 'off') as AuthCookieMode;
+  if (!['off', 'refresh', 'both'].includes(authCookies)) {
+    throw new Error('AUTH_COOKIES must be one of: off, refresh, both');
+  }
+
+  const authCookieSameSite = getEnvVar('AUTH_COOKIE_SAME_SITE', 'strict') as AuthCookieSameSite;
+  if (!['strict', 'lax', 'none'].includes(authCookieSameSite)) {
+    throw new Error('AUTH_COOKIE_SAME_SITE must be one of: strict, lax, none');
+  }
+
+  const authCookieSecure = getEnvVar('AUTH_COOKIE_SECURE', 'true').toLowerCase() !== 'false';
+  if (authCookieSameSite === 'none' && !authCookieSecure) {
+    throw new Error('AUTH_COOKIE_SECURE must be true with AUTH_COOKIE_SAME_SITE none');
+  }
+
+  return {
+    LOGIN_MAX_FAILED_ATTEMPTS: loginMaxFailedAttempts,
+    LOGIN_LOCKOUT_DURATION: getEnvVar('LOGIN_LOCKOUT_DURATION', '1m'),
+    LOGIN_LOCKOUT_MAX_DURATION: getEnvVar('LOGIN_LOCKOUT_MAX_DURATION', '1h'),
+    MFA_TOKEN_EXPIRES_IN: getEnvVar('MFA_TOKEN_EXPIRES_IN', '5m'),
+    TOTP_ISSUER: getEnvVar('TOTP_ISSUER', serverName),
+    AUTH_COOKIES: authCookies,
+    AUTH_COOKIE_SAME_SITE: authCookieSameSite,
+    AUTH_COOKIE_SECURE: authCookieSecure
+  };
+}
+
+/**
+ * Getters of the settings of login lockout, second factors and authentication cookies.
+ */
+export abstract class LoginEnvVars extends MailEnvVars {
+  /** Parsed and validated environment configuration */
+  protected abstract override readonly env: ServerConfig & JwtConfig & MailConfig & LoginConfig;
+
+  /**
+   * Gets the number of failed logins that locks a username.
+   * @returns Maximum consecutive failed login attempts
+   */
+  get LOGIN_MAX_FAILED_ATTEMPTS(): number {
+    return this.env.LOGIN_MAX_FAILED_ATTEMPTS;
+  }
+
+  /**
+   * Gets the duration of the first login lockout.
+   * @returns Time string (e.g., "1m", "5m")
+   */
+  get LOGIN_LOCKOUT_DURATION(): string {
+    return this.env.LOGIN_LOCKOUT_DURATION;
+  }
+
+  /**
+   * Gets the maximum duration of a login lockout.
+   * @returns Time string (e.g., "1h", "12h")
+   */
+  get LOGIN_LOCKOUT_MAX_DURATION(): string {
+    return this.env.LOGIN_LOCKOUT_MAX_DURATION;
+  }
+
+  /**
+   * Gets the lifetime of pending two-factor login tokens.
+   * @returns Time string (e.g., "5m")
+   */
+  get MFA_TOKEN_EXPIRES_IN(): string {
+    return this.env.MFA_TOKEN_EXPIRES_IN;
+  }
+
+  /**
+   * Gets the issuer name embedded in TOTP enrollment URIs.
+   * @returns Service name shown by authenticator apps
+   */
+  get TOTP_ISSUER(): string {
+    return this.env.TOTP_ISSUER;
+  }
+
+  /**
+   * Gets the tokens handed to browser clients as HttpOnly cookies.
+   * @returns "off" (tokens in response bodies only), "refresh" or "both"
+   */
+  get AUTH_COOKIES(): AuthCookieMode {
+    return this.env.AUTH_COOKIES;
+  }
+
+  /**
+   * Gets the SameSite attribute of the authentication cookies.
+   * @returns "strict", "lax" or "none"
+   */
+  get AUTH_COOKIE_SAME_SITE(): AuthCookieSameSite {
+    return this.env.AUTH_COOKIE_SAME_SITE;
+  }
+
+  /**
+   * Checks if the authentication cookies are only sent over HTTPS.
+   * @returns True unless AUTH_COOKIE_SECURE is 'false'
+   */
+  get AUTH_COOKIE_SECURE(): boolean {
+    return this.env.AUTH_COOKIE_SECURE;
+  }
+}
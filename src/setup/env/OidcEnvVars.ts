@@ -0,0 +1,131 @@
+import { EnvReader, parseList } from './EnvReader';
+import { JwtConfig } from './JwtEnvVars';
+import { LoginConfig, LoginEnvVars } from './LoginEnvVars';
+import { MailConfig } from './MailEnvVars';
+import { ServerConfig } from './ServerEnvVars';
+
+/**
+ * Settings of an external OpenID Connect provider users can sign in with.
+ */
+export interface OidcProviderConfig {
+  /** Name used in the /auth/oidc/{provider} routes (e.g., "corporate") */
+  name: string;
+
+  /** Issuer URL; endpoints are discovered at <issuer>/.well-known/openid-configuration */
+  issuer: string;
+
+  /** Client ID registered at the provider */
+  clientId: string;
+
+  /** Client secret registered at the provider, empty for public clients relying on PKCE alone */
+  clientSecret: string;
+
+  /** Space-separated scopes requested at the provider, always including "openid" */
+  scopes: string;
+}
+
+/**
+ * Settings of the sign-in with external OpenID Connect providers.
+ */
+export interface OidcConfig {
+  /** OpenID Connect providers users can sign in with, configured by OIDC_<NAME>_* variables */
+  OIDC_PROVIDERS: OidcProviderConfig[];
+
+  /** Public base URL of this server, used to build the callback URL registered at the providers */
+  OIDC_REDIRECT_BASE_URL: string;
+
+  /** Time a provider sign-in may take between start and callback (e.g., "10m") */
+  OIDC_STATE_EXPIRES_IN: string;
+}
+
+/**
+ * Parses and validates the settings of the OpenID Connect providers.
+ * 
+ * @param getEnvVar - Reader applying defaults and rejecting missing variables
+ * @param port - Port of the HTTP server, used by the default redirect base URL
+ * @returns Validated OpenID Connect settings
+ * @throws {Error} When a provider or setting is invalid
+ */
+export function parseOidcConfig(getEnvVar: EnvReader, port: number): OidcConfig {
+  const oidcProviders = parseList(getEnvVar('OIDC_PROVIDERS', ''))
+    .map(name => parseOidcProvider(name, getEnvVar));
+
+  const oidcRedirectBaseUrl = getEnvVar('OIDC_REDIRECT_BASE_URL', `http://localhost:${port}`).replace(/\/+$/, '');
+  if (!URL.canParse(oidcRedirectBaseUrl)) {
+    throw new Error('OIDC_REDIRECT_BASE_URL must be a valid URL');
+  }
+
+  return {
+    OIDC_PROVIDERS: oidcProviders,
+    OIDC_REDIRECT_BASE_URL: oidcRedirectBaseUrl,
+    OIDC_STATE_EXPIRES_IN: getEnvVar('OIDC_STATE_EXPIRES_IN', '10m')
+  };
+}
+
+/**
+ * Parses the settings of one OpenID Connect provider.
+ * 
+ * Settings are read from variables prefixed with the upper-cased provider
+ * name, hyphens replaced by underscores (e.g., OIDC_CORPORATE_ISSUER).
+ * 
+ * @param name - Provider name listed in OIDC_PROVIDERS
+ * @param getEnvVar - Reader applying defaults and rejecting missing variables
+ * @returns Validated provider settings
+ * @throws {Error} When the name is malformed or a setting is missing or invalid
+ */
+function parseOidcProvider(name: string, getEnvVar: EnvReader): OidcProviderConfig {
+  if (!/^[a-z0-9-]+$/.test(name)) {
+    throw new Error('OIDC_PROVIDERS names may only contain lowercase letters, numbers and hyphens');
+  }
+  const prefix = `OIDC_${name.toUpperCase().replace(/-/g, '_')}_`;
+
+  const issuer = getEnvVar(`${prefix}ISSUER`);
+  if (!URL.canParse(issuer)) {
+    throw new Error(`${prefix}ISSUER must be a valid URL`);
+  }
+
+  const scopes = getEnvVar(`${prefix}SCOPES`, 'openid email profile').trim();
+  if (!scopes.split(/\s+/).includes('openid')) {
+    throw new Error(`${prefix}SCOPES must include openid`);
+  }
+
+  return {
+    name,
+    issuer,
+    clientId: getEnvVar(`${prefix}CLIENT_ID`),
+    clientSecret: getEnvVar(`${prefix}CLIENT_SECRET`, ''),
+    scopes
+  };
+}
+
+/**
+ * Getters of the settings of the OpenID Connect providers.
+ */
+export abstract class OidcEnvVars extends LoginEnvVars {
+  /** Parsed and validated environment configuration */
+  protected abstract override readonly env: ServerConfig & JwtConfig & MailConfig & LoginConfig & OidcConfig;
+
+  /**
+   * Gets the OpenID Connect providers users can sign in with.
+   * @returns Provider settings (empty when none are configured)
+   */
+  get OIDC_PROVIDERS(): OidcProviderConfig[] {
+    return this.env.OIDC_PROVIDERS;
+  }
+
+  /**
+   * Gets the public base URL the provider callback URLs are built from.
+   * @returns Base URL without trailing slash
+   */
+  get OIDC_REDIRECT_BASE_URL(): string {
+    return this.env.OIDC_REDIRECT_BASE_URL;
+  }
+
+  /**
+   * Gets the time a provider sign-in may take between start and callback.
+   * @returns Time string (e.g., "10m")
+   */
+  get OIDC_STATE_EXPIRES_IN(): string {
+    return this.env.OIDC_STATE_EXPIRES_IN;
+  }
+}
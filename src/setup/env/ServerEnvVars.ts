@@ -0,0 +1,152 @@
+import { EnvReader, parseList } from './EnvReader';
+
+/**
+ * General settings of the server instance.
+ */
+export interface ServerConfig {
+  /** Name of the server instance */
+  SERVER_NAME: string;
+  
+  /** Port number for the HTTP server */
+  PORT: number;
+  
+  /** Node.js environment (development, production, test) */
+  NODE_ENV: string;
+  
+  /** Array of allowed CORS origins */
+  CORS_ORIGIN: string[];
+  
+  /** MongoDB connection string */
+  DATABASE_URL: string;
+
+  /** Usernames of existing users granted the admin role by the admin seed */
+  ADMIN_USERNAMES: string[];
+
+  /** Whether this instance runs the scheduled maintenance jobs */
+  JOBS_ENABLED: boolean;
+
+  /** Time between two deletions of expired access and refresh tokens (e.g., "1h") */
+  TOKEN_CLEANUP_INTERVAL: string;
+}
+
+/**
+ * Parses and validates the general settings of the server instance.
+ * 
+ * @param getEnvVar - Reader applying defaults and rejecting missing variables
+ * @returns Validated server settings
+ * @throws {Error} When a setting is invalid
+ */
+export function parseServerConfig(getEnvVar: EnvReader): ServerConfig {
+  const corsOrigin = getEnvVar('CORS_ORIGIN', 'http://localhost:3000')
+    .split(',')
+    .map(origin => origin.trim());
+
+  const port = parseInt(getEnvVar('PORT', '8080'), 10);
+  if (isNaN(port)) {
+    throw new Error('PORT must be a valid number');
+  }
+
+  const tokenCleanupInterval = getEnvVar('TOKEN_CLEANUP_INTERVAL', '1h');
+  if (!/^[1-9]\d*[smhd]$/.test(tokenCleanupInterval)) {
+    throw new Error('TOKEN_CLEANUP_INTERVAL must be a positive duration (e.g., "30m", "1h")');
+  }
+
+  return {
+    SERVER_NAME: getEnvVar('SERVER_NAME', 'Express Server'),
+    PORT: port,
+    NODE_ENV: getEnvVar('NODE_ENV', 'development'),
+    CORS_ORIGIN: corsOrigin,
+    DATABASE_URL: getEnvVar('DATABASE_URL', 'mongodb://localhost:27017/express-server-advanced'),
+    ADMIN_USERNAMES: parseList(getEnvVar('ADMIN_USERNAMES', '')),
+    JOBS_ENABLED: getEnvVar('JOBS_ENABLED', 'true').toLowerCase() !== 'false',
+    TOKEN_CLEANUP_INTERVAL: tokenCleanupInterval
+  };
+}
+
+/**
+ * Getters of the general settings of the server instance.
+ */
+export abstract class ServerEnvVars {
+  /** Parsed and validated environment configuration */
+  protected abstract readonly env: ServerConfig;
+
+  /**
+   * Gets the server name.
+   * @returns Server instance name
+   */
+  get SERVER_NAME(): string {
+    return this.env.SERVER_NAME;
+  }
+
+  /**
+   * Gets the HTTP server port.
+   * @returns Port number for the server
+   */
+  get PORT(): number {
+    return this.env.PORT;
+  }
+
+  /**
+   * Gets the Node.js environment.
+   * @returns Environment name (development, production, test)
+   */
+  get NODE_ENV(): string {
+    return this.env.NODE_ENV;
+  }
+
+  /**
+   * Gets the allowed CORS origins.
+   * @returns Array of allowed origin URLs
+   */
+  get CORS_ORIGIN(): string[] {
+    return this.env.CORS_ORIGIN;
+  }
+
+  /**
+   * Gets the database connection URL.
+   * @returns MongoDB connection string
+   */
+  get DATABASE_URL(): string {
+    return this.env.DATABASE_URL;
+  }
+
+  /**
+   * Gets the usernames granted the admin role by the admin seed.
+   * @returns Array of admin usernames (empty when none are configured)
+   */
+  get ADMIN_USERNAMES(): string[] {
+    return this.env.ADMIN_USERNAMES;
+  }
+
+  /**
+   * Checks if this instance runs the scheduled maintenance jobs.
+   * @returns True unless JOBS_ENABLED is 'false'
+   */
+  get JOBS_ENABLED(): boolean {
+    return this.env.JOBS_ENABLED;
+  }
+
+  /**
+   * Gets the time between two deletions of expired tokens.
+   * @returns Interval string (e.g., "1h")
+   */
+  get TOKEN_CLEANUP_INTERVAL(): string {
+    return this.env.TOKEN_CLEANUP_INTERVAL;
+  }
+
+  /**
+   * Checks if the application is running in development mode.
+   * @returns True if NODE_ENV is 'development'
+   */
+  get isDevelopment(): boolean {
+    return this.env.NODE_ENV === 'development';
+  }
+
+  /**
+   * Checks if the application is running in production mode.
+   * @returns True if NODE_ENV is 'production'
+   */
+  get isProduction(): boolean {
+    return this.env.NODE_ENV === 'production';
+  }
+}
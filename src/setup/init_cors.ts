@@ -37,7 +37,7 @@ export function initCors(app: Application, envVars: EnvVars): void {
     },
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-CSRF-Token', 'X-Requested-With'],
   };
 
   app.use(cors(corsOptions));
@@ -0,0 +1,52 @@
+import winston from 'winston';
+import { EnvVars } from './EnvVars';
+import { Mailer } from '../utils/Mailer';
+import { ConsoleMailer } from '../utils/ConsoleMailer';
+import { FileMailer } from '../utils/FileMailer';
+import { SmtpMailer } from '../utils/SmtpMailer';
+import { TimestampProducer } from '../utils/TimestampProducer';
+
+/** Inactivity timeout of SMTP connections in milliseconds */
+const SMTP_TIMEOUT_MS = 10000;
+
+/** Outbox file written by the file transport */
+const MAIL_OUTBOX_FILE = 'logs/mail-outbox.log';
+
+/**
+ * Creates the mailer selected by the MAIL_TRANSPORT environment variable.
+ * 
+ * - `console`: writes messages to the application log, tokens redacted (development)
+ * - `file`: appends messages to logs/mail-outbox.log (development, testing)
+ * - `smtp`: delivers messages to the SMTP_URL server, upgrading with STARTTLS when offered
+ * 
+ * @param envVars - Environment configuration with the mail settings
+ * @param logger - Logger used by the console transport
+ * @param timestampProducer - Producer for message Date headers
+ * @returns Configured mailer instance
+ */
+export function createMailer(
+  envVars: EnvVars,
+  logger: winston.Logger,
+  timestampProducer: TimestampProducer
+): Mailer {
+  switch (envVars.MAIL_TRANSPORT) {
+  case 'file':
+    return new FileMailer(MAIL_OUTBOX_FILE, envVars.MAIL_FROM, timestampProducer);
+  case 'smtp': {
+    const smtpUrl = new URL(envVars.SMTP_URL);
+    const secure = smtpUrl.protocol === 'smtps:';
+    return new SmtpMailer({
+      host: smtpUrl.hostname,
+      port: smtpUrl.port ? parseInt(smtpUrl.port, 10) : (secure ? 465 : 25),
+      secure,
+      username: decodeURIComponent(smtpUrl.username),
+      password: decodeURIComponent(smtpUrl.password),
+      allowInsecureAuth: envVars.SMTP_ALLOW_INSECURE_AUTH,
+      from: envVars.MAIL_FROM,
+      timeoutMs: SMTP_TIMEOUT_MS
+    }, timestampProducer);
+  }
+  default:
+    return new ConsoleMailer(logger);
+  }
+}
@@ -1,17 +1,65 @@
 import { Request, Response, NextFunction } from 'express';
-import { JWTService, JWTPayload } from '../../utils/JWTService';
+import { JWTService, VerifiedJWTPayload } from '../../utils/JWTService';
 import { AppError } from './errorHandler';
 import { EnvVars } from '../EnvVars';
+import { ContainerDAO } from '../../domain/interfaces/ContainerDAO';
+import { TimestampProducer } from '../../utils/TimestampProducer';
+import { LRUCache } from '../../utils/LRUCache';
+import { TimeUtils } from '../../utils/TimeUtils';
+import { UserRole } from '../../domain/interfaces/entities/User';
+import { TOKEN_SCOPES, TokenScope } from '../../domain/interfaces/entities/TokenScope';
+import { ApiKeyService } from '../../utils/ApiKeyService';
+import { AuthCookieService } from '../../utils/AuthCookieService';
+
+/**
+ * Authenticated user information attached to the request.
+ */
+export interface AuthenticatedUser {
+  /** User ID from the JWT token */
+  userId: string;
+
+  /** Username from the JWT token */
+  username: string;
+
+  /** Session (token family) the access token was issued for, or the ID of the API key */
+  sessionId: string;
+
+  /** Roles embedded in the JWT token */
+  roles: UserRole[];
+
+  /** Scopes of the JWT token or of the API key */
+  scopes: TokenScope[];
+}
+
+/**
+ * API key that authenticated the request.
+ */
+export interface AuthenticatedApiKey {
+  /** ID of the API key */
+  id: string;
+}
 
 /**
  * Interface for authenticated request extensions.
  */
 export interface AuthenticatedRequest {
-  /** User information extracted from JWT token */
-  user?: {
-    userId: string;
-    username: string;
-  };
+  /** User information extracted from JWT token or API key */
+  user?: AuthenticatedUser;
+
+  /** API key used for the request, unset for JWT access tokens */
+  apiKey?: AuthenticatedApiKey;
+}
+
+/**
+ * Options of the authentication middleware.
+ */
+export interface AuthMiddlewareOptions {
+  /**
+   * Accept API keys as well as JWT access tokens. Routes accepting API keys
+   * must declare the scope they need with requireScope.
+   * @default false
+   */
+  acceptApiKeys?: boolean;
 }
 
 /**
@@ -22,45 +70,182 @@ export interface AuthenticatedRequestExtended extends Request, AuthenticatedRequ
 /**
  * JWT authentication middleware for protected routes.
  * 
- * Verifies the Authorization header Bearer token, extracts user information
- * from the JWT payload, and attaches it to the request object. Protected
- * routes can then access authenticated user data through the request.
+ * Verifies the Authorization header Bearer token, checks that the token is
+ * still stored and not revoked, extracts user information from the JWT
+ * payload, and attaches it to the request object. Protected routes can then
+ * access authenticated user data through the request.
  * 
  * Features:
  * - Bearer token extraction from Authorization header
+ * - Access token cookie of browser clients when AUTH_COOKIES is "both" (the header takes precedence)
+ * - Optional API keys (`Bearer pat_...` or `X-API-Key` header) resolving to the same user information
  * - JWT signature and expiration validation
+ * - Revocation check against the stored access token records, looked up by token hash (logout takes effect immediately)
+ * - Optional in-process LRU cache of revoked token IDs to skip repeated lookups
  * - User information injection into request object
  * - Consistent error handling for authentication failures
  * 
- * @param envVars - Environment configuration containing JWT secrets
+ * Create the middleware once per router and reuse it across routes so the
+ * revocation cache is shared.
+ * 
+ * @param envVars - Environment configuration containing JWT secrets and cache settings
+ * @param containerDAO - Container for all DAO instances
+ * @param timestampProducer - Producer for timestamps used by the revocation cache and API key expiry
+ * @param options - Middleware options, e.g. whether API keys are accepted
  * @returns Express middleware function for JWT authentication
  */
-export function authMiddleware(envVars: EnvVars) {
-  const jwtService = new JWTService(envVars);
+export function authMiddleware(
+  envVars: EnvVars,
+  containerDAO: ContainerDAO<unknown>,
+  timestampProducer: TimestampProducer,
+  options: AuthMiddlewareOptions = {}
+) {
+  const jwtService = new JWTService(envVars, timestampProducer.getNow());
+  const revokedTokens = envVars.TOKEN_REVOCATION_CACHE_ENABLED
+    ? new LRUCache<string, true>(
+      envVars.TOKEN_REVOCATION_CACHE_MAX_SIZE,
+      TimeUtils.parseExpiry(envVars.TOKEN_REVOCATION_CACHE_TTL),
+      timestampProducer
+    )
+    : null;
 
   return (req: AuthenticatedRequestExtended, res: Response, next: NextFunction): void => {
     const authHeader = req.headers.authorization;
+    const apiKeyHeader = req.headers['x-api-key'];
+
+    if (typeof apiKeyHeader === 'string') {
+      authenticateApiKey(apiKeyHeader, req, next);
+      return;
+    }
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    const token = authHeader
+      ? bearerToken(authHeader)
+      : AuthCookieService.readTokenCookie(req, envVars, AuthCookieService.ACCESS_TOKEN_COOKIE);
+    if (!token) {
       throw new AppError('Access token required', 401);
     }
 
-    const token = authHeader.substring(7); // Remove 'Bearer ' prefix
+    if (ApiKeyService.isApiKey(token)) {
+      authenticateApiKey(token, req, next);
+      return;
+    }
 
+    let payload: VerifiedJWTPayload;
     try {
-      const payload: JWTPayload = jwtService.verifyAccessToken(token);
-      
+      payload = jwtService.verifyAccessToken(token);
+    } catch (error) {
+      // JWTService.verifyAccessToken already throws AppError with appropriate message
+      next(error);
+      return;
+    }
+
+    if (revokedTokens?.has(payload.jti)) {
+      next(new AppError('Access token has been revoked', 401));
+      return;
+    }
+
+    containerDAO.accessTokenDAO.findAccessToken(token).then((storedToken) => {
+      if (!storedToken || storedToken.userId !== payload.userId) {
+        revokedTokens?.set(payload.jti, true);
+        next(new AppError('Access token has been revoked', 401));
+        return;
+      }
+
       // Add user information to request object
       req.user = {
         userId: payload.userId,
-        username: payload.username
+        username: payload.username,
+        sessionId: storedToken.familyId,
+        // Tokens issued before roles existed carry none
+        roles: payload.roles ?? [],
+        // Tokens issued before scopes existed were not limited
+        scopes: payload.scopes ?? [...TOKEN_SCOPES]
       };
 
       next();
-    } catch (error) {
-      // JWTService.verifyAccessToken already throws AppError with appropriate message
-      next(error);
+    }, next);
+  };
+
+  /**
+   * Authenticates a request with an API key, rejecting it on routes that do not accept API keys
+   */
+  function authenticateApiKey(apiKey: string, req: AuthenticatedRequestExtended, next: NextFunction): void {
+    if (!options.acceptApiKeys) {
+      throw new AppError('API keys are not accepted for this endpoint', 403);
+    }
+    if (!ApiKeyService.isWellFormed(apiKey)) {
+      throw new AppError('Invalid API key', 401);
+    }
+
+    resolveApiKey(apiKey).then(({ user, storedKey }) => {
+      req.user = {
+        userId: user.id,
+        username: user.username,
+        sessionId: storedKey.id,
+        roles: user.roles,
+        scopes: storedKey.scopes
+      };
+      req.apiKey = { id: storedKey.id };
+      next();
+    }, next);
+  }
+
+  /**
+   * Looks up an API key and its owner, recording the use of the key
+   */
+  async function resolveApiKey(apiKey: string) {
+    const now = timestampProducer.getNow();
+
+    const storedKey = await containerDAO.apiKeyDAO.findByTokenHash(ApiKeyService.hash(apiKey));
+    if (!storedKey) {
+      throw new AppError('Invalid API key', 401);
+    }
+    if (storedKey.expiresAt && storedKey.expiresAt.getTime() <= now) {
+      throw new AppError('API key has expired', 401);
+    }
+
+    const user = await containerDAO.userDAO.findById(storedKey.userId);
+    if (!user) {
+      throw new AppError('Invalid API key', 401);
+    }
+    if (user.isDisabled) {
+      throw new AppError('Account is disabled', 403);
+    }
+
+    await containerDAO.apiKeyDAO.recordUsage(storedKey.id, now);
+    return { user, storedKey };
+  }
+}
+
+/**
+ * Extracts the token of a Bearer Authorization header.
+ *
+ * @param authHeader - Value of the Authorization header
+ * @returns The token, or undefined for other authorization schemes
+ */
+function bearerToken(authHeader: string): string | undefined {
+  return authHeader.startsWith('Bearer ') ? authHeader.substring(7) : undefined;
+}
+
+/**
+ * Scope check middleware.
+ * 
+ * Requires the scope among the scopes of the access token or API key that
+ * authenticated the request, so read-only credentials cannot modify data.
+ * Place it after the authentication middleware; declare the scope on the
+ * controller method with `@Security('Bearer', [scope])`.
+ * 
+ * @param scope - Scope the route requires
+ * @returns Express middleware function checking the scope
+ */
+export function requireScope(scope: TokenScope) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const user = getAuthenticatedUser(req);
+    if (!user.scopes.includes(scope)) {
+      const credential = (req as AuthenticatedRequestExtended).apiKey ? 'API key' : 'Access token';
+      throw new AppError(`${credential} is missing the ${scope} scope`, 403);
     }
+    next();
   };
 }
 
@@ -75,7 +260,7 @@ export function authMiddleware(envVars: EnvVars) {
  * @returns User information from the JWT token
  * @throws {AppError} When user is not authenticated (401)
  */
-export function getAuthenticatedUser(req: Request): { userId: string; username: string } {
+export function getAuthenticatedUser(req: Request): AuthenticatedUser {
   const authReq = req as AuthenticatedRequestExtended;
   if (!authReq.user) {
     throw new AppError('User not authenticated', 401);
@@ -96,3 +96,45 @@ export function validateRequestParams<T extends object>(classType: new () => T)
     }
   };
 }
+
+/**
+ * Creates middleware for validating query parameters against a DTO class.
+ * 
+ * Similar to validateRequestParams but for the query string. Query parameters
+ * are optional by nature, so DTO properties are expected to be declared with
+ * IsOptional; parameters the DTO does not declare are left untouched.
+ * 
+ * Features:
+ * - Query parameter validation with DTO classes
+ * - Detailed validation error messages
+ * - Request query replacement with validated instance
+ * 
+ * @param classType - DTO class constructor for query parameter validation
+ * @returns Express middleware function for query parameter validation
+ */
+export function validateRequestQuery<T extends object>(classType: new () => T) {
+  return async (req: Request, _res: Response, next: NextFunction) => {
+    try {
+      // Transform plain object to class instance
+      const dto = plainToClass(classType, req.query);
+      
+      // Validate the instance
+      const errors = await validate(dto);
+      
+      if (errors.length > 0) {
+        const errorMessages = errors.map(error => {
+          const constraints = error.constraints;
+          return constraints ? Object.values(constraints).join(', ') : 'Validation error';
+        });
+        
+        throw new AppError(`Query validation failed: ${errorMessages.join('; ')}`, 400);
+      }
+      
+      // Replace req.query with validated and transformed object
+      req.query = dto as Request['query'];
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,43 @@
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from './errorHandler';
+import { EnvVars } from '../EnvVars';
+import { AuthCookieService } from '../../utils/AuthCookieService';
+
+/**
+ * Methods that do not change state and are never checked.
+ */
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * CSRF protection middleware for cookie-authenticated requests.
+ *
+ * Browsers attach cookies to requests triggered by any site, so unsafe
+ * requests carrying an authentication cookie must echo the CSRF token cookie
+ * in the X-CSRF-Token header (double-submit): other sites can neither read
+ * the cookie nor set the header. Requests authenticated by the Authorization
+ * or X-API-Key header are exempt, as browsers never add those on their own.
+ * Does nothing while AUTH_COOKIES is off.
+ *
+ * @param envVars - Environment configuration with the cookie mode
+ * @returns Express middleware function rejecting forged requests with 403
+ */
+export function csrfProtection(envVars: EnvVars) {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    if (
+      SAFE_METHODS.includes(req.method) ||
+      req.headers.authorization !== undefined ||
+      req.headers['x-api-key'] !== undefined ||
+      !AuthCookieService.hasTokenCookie(req, envVars)
+    ) {
+      next();
+      return;
+    }
+
+    if (!AuthCookieService.hasValidCsrfToken(req)) {
+      next(new AppError('Invalid or missing CSRF token', 403));
+      return;
+    }
+
+    next();
+  };
+}
@@ -58,6 +58,16 @@ export class AppError extends Error implements ApiError {
   }
 }
 
+/**
+ * Application error that keeps the work done by the current transaction.
+ * 
+ * By default `dbTransactionHandler` rolls back every change when an error is
+ * thrown. Throw this error instead when the changes made before the failure
+ * must be persisted anyway (e.g. revoking a compromised token family) while
+ * still answering the request with an error status.
+ */
+export class CommittingAppError extends AppError {}
+
 /**
  * Creates the main error handling middleware for the Express application.
  * 
@@ -158,6 +168,7 @@ export function asyncHandler(
  * Features:
  * - Automatic transaction lifecycle management
  * - Error handling with automatic rollback
+ * - Commit before forwarding a `CommittingAppError`
  * - Session cleanup in finally block
  * - Response sent only after successful commit
  * 
@@ -193,6 +204,15 @@ export function dbTransactionHandler<S>(
       res.status(statusCode).json(result.data);
       
     } catch (error) {
+      let forwardedError = error;
+      if (session && !transactionCommitted && error instanceof CommittingAppError) {
+        try {
+          await session.commitTransaction();
+          transactionCommitted = true;
+        } catch (commitError) {
+          forwardedError = commitError;
+        }
+      }
       if (session && !transactionCommitted) {
         try {
           await session.abortTransaction();
@@ -200,8 +220,8 @@ export function dbTransactionHandler<S>(
           console.error('Error aborting transaction:', abortError);
         }
       }
-      // Pass the original error to the error handler
-      next(error);
+      // Pass the original error (or the failed commit) to the error handler
+      next(forwardedError);
     } finally {
       if (session) {
         try {
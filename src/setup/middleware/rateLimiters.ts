@@ -8,6 +8,8 @@ import { EnvVars } from '../EnvVars';
  * Provides multiple rate limiting strategies to protect the API from abuse:
  * - General limiter for standard API endpoints
  * - Strict limiter for sensitive operations (auth, user management)
+ * - Password reset limiter for requests that send email to account owners
+ * - Email verification limiter for requests that resend verification links
  * - Speed limiter for progressive request slowing
  * 
  * Features environment-specific limits (more generous in development)
@@ -29,7 +31,8 @@ export function createRateLimiters(envVars: EnvVars) {
     legacyHeaders: false,
   });
 
-  // Strict rate limiter for sensitive endpoints
+  // Strict rate limiter for sensitive endpoints (login): only failed requests count,
+  // so one client cannot try many usernames even though each one locks separately
   const strictLimiter = rateLimit({
     windowMs: 15 * 60 * 1000, // 15 minutes
     max: envVars.isDevelopment ? 100 : 5, // Very strict
@@ -37,6 +40,31 @@ export function createRateLimiters(envVars: EnvVars) {
       error: 'Too many requests to this endpoint, please try again later.',
       retryAfter: '15 minutes',
     },
+    skipSuccessfulRequests: true,
+    standardHeaders: true,
+    legacyHeaders: false,
+  });
+
+  // Password reset limiter: every accepted request may send an email
+  const passwordResetLimiter = rateLimit({
+    windowMs: 60 * 60 * 1000, // 1 hour
+    max: envVars.isDevelopment ? 20 : 3,
+    message: {
+      error: 'Too many password reset requests, please try again later.',
+      retryAfter: '1 hour',
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+  });
+
+  // Email verification limiter: every accepted request may send an email
+  const emailVerificationLimiter = rateLimit({
+    windowMs: 60 * 60 * 1000, // 1 hour
+    max: envVars.isDevelopment ? 20 : 3,
+    message: {
+      error: 'Too many verification email requests, please try again later.',
+      retryAfter: '1 hour',
+    },
     standardHeaders: true,
     legacyHeaders: false,
   });
@@ -52,6 +80,8 @@ export function createRateLimiters(envVars: EnvVars) {
   return {
     generalLimiter,
     strictLimiter,
+    passwordResetLimiter,
+    emailVerificationLimiter,
     speedLimiter,
   };
 }
@@ -0,0 +1,89 @@
+import 'reflect-metadata';
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from './errorHandler';
+import { AuthenticatedRequestExtended } from './authMiddleware';
+import { UserRole } from '../../domain/interfaces/entities/User';
+
+/**
+ * Metadata key under which @Roles stores the roles required by a controller method.
+ */
+const ROLES_METADATA_KEY = Symbol('roles');
+
+/**
+ * Declares the roles allowed to call a controller method.
+ *
+ * Used next to tsoa's `@Security('Bearer')`: tsoa documents the
+ * authentication requirement while this decorator records which roles
+ * may use the endpoint. The route registration enforces it through
+ * `requireRoles(ControllerClass, 'method')`, placed after `authenticate`.
+ * A user needs at least one of the listed roles.
+ *
+ * @example
+ * ```typescript
+ * @Get('users')
+ * @Security('Bearer')
+ * @Roles('admin')
+ * public async listUsers(@Request() req: ExpressRequest) { ... }
+ * ```
+ *
+ * @param roles - Roles allowed to call the method
+ * @returns Method decorator storing the roles as metadata
+ */
+export function Roles(...roles: UserRole[]): MethodDecorator {
+  return (target: object, propertyKey: string | symbol) => {
+    Reflect.defineMetadata(ROLES_METADATA_KEY, roles, target, propertyKey);
+  };
+}
+
+/**
+ * Reads the roles declared with @Roles on a controller method.
+ *
+ * @param controllerClass - Controller class declaring the method
+ * @param methodName - Name of the decorated method
+ * @returns Declared roles, or an empty array when the method is not decorated
+ */
+export function getRequiredRoles<T extends object>(
+  controllerClass: new (...args: never[]) => T,
+  methodName: keyof T & string
+): UserRole[] {
+  const roles: UserRole[] | undefined = Reflect.getMetadata(ROLES_METADATA_KEY, controllerClass.prototype, methodName);
+  return roles ?? [];
+}
+
+/**
+ * Creates role authorization middleware for a controller method.
+ *
+ * Reads the roles declared with @Roles on the method once, at route
+ * registration, and rejects requests whose authenticated user holds none
+ * of them. Must run after the authentication middleware, which attaches
+ * the user and the roles embedded in the access token.
+ *
+ * @param controllerClass - Controller class declaring the method
+ * @param methodName - Name of the method decorated with @Roles
+ * @returns Express middleware function for role authorization
+ * @throws {Error} When the method has no @Roles declaration
+ */
+export function requireRoles<T extends object>(
+  controllerClass: new (...args: never[]) => T,
+  methodName: keyof T & string
+) {
+  const allowedRoles = getRequiredRoles(controllerClass, methodName);
+  if (allowedRoles.length === 0) {
+    throw new Error(`No @Roles declared on ${controllerClass.name}.${methodName}`);
+  }
+
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    const user = (req as AuthenticatedRequestExtended).user;
+    if (!user) {
+      next(new AppError('User not authenticated', 401));
+      return;
+    }
+
+    if (!user.roles.some(role => allowedRoles.includes(role))) {
+      next(new AppError('Insufficient permissions', 403));
+      return;
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,70 @@
+import winston from 'winston';
+import { EnvVars } from './EnvVars';
+import { ContainerDAO } from '../domain/interfaces/ContainerDAO';
+import { DatabaseSession } from '../domain/interfaces/DatabaseSession';
+import { DatabaseSessionProducer } from '../domain/interfaces/DatabaseSessionProducer';
+import { TokenDBUtils } from '../domain/utils/TokenDBUtils';
+import { JobScheduler } from '../utils/JobScheduler';
+import { TimestampProducer } from '../utils/TimestampProducer';
+import { TimeUtils } from '../utils/TimeUtils';
+
+/** Name of the job deleting expired access and refresh tokens */
+export const TOKEN_CLEANUP_JOB = 'token-cleanup';
+
+/**
+ * Creates the scheduler of the maintenance jobs.
+ *
+ * Jobs:
+ * - `token-cleanup`: deletes expired access and refresh tokens every TOKEN_CLEANUP_INTERVAL,
+ *   so storage does not depend on database features such as MongoDB TTL indexes
+ *
+ * @param envVars - Environment configuration with the job settings
+ * @param containerDAO - DAO container used by the jobs
+ * @param dbSessionProducer - Producer of the sessions the jobs write with
+ * @param timestampProducer - Producer of the run timestamps
+ * @param logger - Logger of the job outcomes
+ * @returns Scheduler with every job registered, not started yet
+ */
+export function createScheduler(
+  envVars: EnvVars,
+  containerDAO: ContainerDAO<unknown>,
+  dbSessionProducer: DatabaseSessionProducer<unknown>,
+  timestampProducer: TimestampProducer,
+  logger: winston.Logger
+): JobScheduler {
+  const scheduler = new JobScheduler(containerDAO.jobLockDAO, timestampProducer, logger);
+
+  scheduler.schedule({
+    name: TOKEN_CLEANUP_JOB,
+    interval: TimeUtils.parseExpiry(envVars.TOKEN_CLEANUP_INTERVAL),
+    run: async (now) => {
+      const deleted = await runInTransaction(dbSessionProducer, session =>
+        TokenDBUtils.cleanExpiredTokens(containerDAO, session, new Date(now))
+      );
+      logger.info('Expired tokens deleted', deleted);
+    }
+  });
+
+  return scheduler;
+}
+
+/**
+ * Runs work outside of a request in a transaction, committed on success and aborted on failure.
+ */
+export async function runInTransaction<T>(
+  dbSessionProducer: DatabaseSessionProducer<unknown>,
+  fn: (session: DatabaseSession<unknown>) => Promise<T>
+): Promise<T> {
+  const session = await dbSessionProducer.createSession();
+  try {
+    await session.startTransaction();
+    const result = await fn(session);
+    await session.commitTransaction();
+    return result;
+  } catch (error) {
+    await session.abortTransaction();
+    throw error;
+  } finally {
+    await session.endSession();
+  }
+}
@@ -0,0 +1,77 @@
+import { OneTimeTokenService } from './OneTimeTokenService';
+
+/**
+ * Generated API key together with the values to store.
+ */
+export interface GeneratedApiKey {
+  /** Plain token, shown to the user once and never stored */
+  token: string;
+
+  /** SHA-256 hash of the token, stored in the database for lookups */
+  tokenHash: string;
+
+  /** First characters of the token, stored so users can tell their keys apart */
+  tokenPrefix: string;
+}
+
+/**
+ * Service class for personal access tokens (API keys).
+ * 
+ * Keys are one-time tokens with a recognisable `pat_` prefix, which tells
+ * them apart from JWT access tokens in the Authorization header and lets
+ * secret scanners find leaked keys.
+ */
+export class ApiKeyService {
+  /** Prefix of every API key */
+  public static readonly PREFIX = 'pat_';
+
+  /** Number of characters of the token kept in clear, prefix included */
+  private static readonly DISPLAYED_LENGTH = 12;
+
+  /** Format of a well-formed API key */
+  private static readonly FORMAT = /^pat_[a-f0-9]{64}$/;
+
+  /**
+   * Generates a new API key, its hash and its displayed prefix.
+   * 
+   * @returns Plain token (`pat_` followed by 64 hex characters), hash and prefix
+   */
+  public static generate(): GeneratedApiKey {
+    const token = `${this.PREFIX}${OneTimeTokenService.generate().token}`;
+    return {
+      token,
+      tokenHash: this.hash(token),
+      tokenPrefix: token.substring(0, this.DISPLAYED_LENGTH)
+    };
+  }
+
+  /**
+   * Tells whether a credential looks like an API key rather than a JWT.
+   * 
+   * @param credential - Credential presented by a client
+   * @returns true if the credential starts with the API key prefix
+   */
+  public static isApiKey(credential: string): boolean {
+    return credential.startsWith(this.PREFIX);
+  }
+
+  /**
+   * Checks that a credential has the exact format of generated API keys.
+   * 
+   * @param credential - Credential presented by a client
+   * @returns true if the credential is well-formed
+   */
+  public static isWellFormed(credential: string): boolean {
+    return this.FORMAT.test(credential);
+  }
+
+  /**
+   * Hashes an API key presented by a client for lookup.
+   * 
+   * @param token - Plain token
+   * @returns SHA-256 hash of the token as hex string
+   */
+  public static hash(token: string): string {
+    return OneTimeTokenService.hash(token);
+  }
+}
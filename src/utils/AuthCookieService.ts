@@ -0,0 +1,193 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { CookieOptions, Request, Response } from 'express';
+import { EnvVars } from '../setup/EnvVars';
+import { TimeUtils } from './TimeUtils';
+
+/**
+ * Tokens of a response body that can be handed over as cookies.
+ */
+interface CookieTokens {
+  accessToken?: string;
+  refreshToken?: string;
+  csrfToken?: string;
+}
+
+/**
+ * Service class for the authentication cookies of browser clients.
+ *
+ * With AUTH_COOKIES enabled, the refresh token (and with "both" the access
+ * token as well) is set as an HttpOnly cookie instead of being returned in
+ * the response body, so scripts injected into the page cannot read it. The
+ * refresh token cookie is only sent to the /auth routes that use it.
+ *
+ * Cookies are sent by the browser whatever page triggers the request, so
+ * they come with a CSRF token (double-submit): a cookie readable by the
+ * frontend whose value must be echoed in the X-CSRF-Token header of unsafe
+ * requests authenticated by cookie.
+ */
+export class AuthCookieService {
+  /** Name of the cookie carrying the access token */
+  public static readonly ACCESS_TOKEN_COOKIE = 'access_token';
+
+  /** Name of the cookie carrying the refresh token */
+  public static readonly REFRESH_TOKEN_COOKIE = 'refresh_token';
+
+  /** Name of the cookie carrying the CSRF token, readable by the frontend */
+  public static readonly CSRF_TOKEN_COOKIE = 'csrf_token';
+
+  /** Header echoing the CSRF token */
+  public static readonly CSRF_TOKEN_HEADER = 'x-csrf-token';
+
+  /** Path of the refresh token cookie: token refresh and logout */
+  private static readonly REFRESH_TOKEN_PATH = '/auth';
+
+  /** Length of the random CSRF token in bytes */
+  private static readonly CSRF_TOKEN_LENGTH = 32;
+
+  /**
+   * Moves the tokens of a response body into cookies, depending on AUTH_COOKIES.
+   *
+   * Bodies without refresh token (e.g. a pending two-factor login) are
+   * returned unchanged. Otherwise the cookie tokens are removed from the
+   * body and a new CSRF token is set and added to the body.
+   *
+   * @param res - Express response receiving the cookies
+   * @param envVars - Environment variables with the cookie settings
+   * @param data - Response body, possibly containing tokens
+   * @returns The response body to send
+   */
+  public static setTokenCookies<T extends object>(res: Response, envVars: EnvVars, data: T): T {
+    const tokens = data as CookieTokens;
+    if (envVars.AUTH_COOKIES === 'off' || typeof tokens.refreshToken !== 'string') {
+      return data;
+    }
+
+    const body: CookieTokens = { ...tokens };
+
+    res.cookie(this.REFRESH_TOKEN_COOKIE, tokens.refreshToken, {
+      ...this.cookieOptions(envVars, this.REFRESH_TOKEN_COOKIE),
+      maxAge: TimeUtils.parseExpiry(envVars.JWT_REFRESH_EXPIRES_IN)
+    });
+    delete body.refreshToken;
+
+    if (envVars.AUTH_COOKIES === 'both' && typeof tokens.accessToken === 'string') {
+      res.cookie(this.ACCESS_TOKEN_COOKIE, tokens.accessToken, {
+        ...this.cookieOptions(envVars, this.ACCESS_TOKEN_COOKIE),
+        maxAge: TimeUtils.parseExpiry(envVars.JWT_EXPIRES_IN)
+      });
+      delete body.accessToken;
+    }
+
+    body.csrfToken = this.generateCsrfToken();
+    this.setCsrfTokenCookie(res, envVars, body.csrfToken);
+
+    return body as T;
+  }
+
+  /**
+   * Generates a new random CSRF token.
+   *
+   * @returns 256 random bits, base64url-encoded
+   */
+  public static generateCsrfToken(): string {
+    return randomBytes(this.CSRF_TOKEN_LENGTH).toString('base64url');
+  }
+
+  /**
+   * Reads the CSRF token cookie of the request.
+   *
+   * @param req - Express request
+   * @returns The CSRF token, or undefined when the cookie is missing
+   */
+  public static readCsrfToken(req: Request): string | undefined {
+    const token: unknown = req.cookies?.[this.CSRF_TOKEN_COOKIE];
+    return typeof token === 'string' && token.length > 0 ? token : undefined;
+  }
+
+  /**
+   * Sets the CSRF token cookie, living as long as the refresh token cookie.
+   *
+   * @param res - Express response receiving the cookie
+   * @param envVars - Environment variables with the cookie settings
+   * @param csrfToken - Token to set
+   */
+  public static setCsrfTokenCookie(res: Response, envVars: EnvVars, csrfToken: string): void {
+    res.cookie(this.CSRF_TOKEN_COOKIE, csrfToken, {
+      ...this.cookieOptions(envVars, this.CSRF_TOKEN_COOKIE),
+      maxAge: TimeUtils.parseExpiry(envVars.JWT_REFRESH_EXPIRES_IN)
+    });
+  }
+
+  /**
+   * Clears the authentication cookies, e.g. on logout.
+   *
+   * @param res - Express response receiving the expired cookies
+   * @param envVars - Environment variables with the cookie settings
+   */
+  public static clearTokenCookies(res: Response, envVars: EnvVars): void {
+    if (envVars.AUTH_COOKIES === 'off') {
+      return;
+    }
+    for (const name of [this.ACCESS_TOKEN_COOKIE, this.REFRESH_TOKEN_COOKIE, this.CSRF_TOKEN_COOKIE]) {
+      res.clearCookie(name, this.cookieOptions(envVars, name));
+    }
+  }
+
+  /**
+   * Reads a token cookie of the request.
+   *
+   * @param req - Express request
+   * @param envVars - Environment variables; cookies are ignored while AUTH_COOKIES is off
+   * @param name - ACCESS_TOKEN_COOKIE or REFRESH_TOKEN_COOKIE
+   * @returns The token, or undefined when the cookie is missing or not in use
+   */
+  public static readTokenCookie(req: Request, envVars: EnvVars, name: string): string | undefined {
+    const inUse = name === this.REFRESH_TOKEN_COOKIE
+      ? envVars.AUTH_COOKIES !== 'off'
+      : envVars.AUTH_COOKIES === 'both';
+    const token: unknown = req.cookies?.[name];
+    return inUse && typeof token === 'string' && token.length > 0 ? token : undefined;
+  }
+
+  /**
+   * Tells whether the request carries an authentication cookie in use.
+   *
+   * @param req - Express request
+   * @param envVars - Environment variables with the cookie mode
+   * @returns true if an access or refresh token cookie was sent
+   */
+  public static hasTokenCookie(req: Request, envVars: EnvVars): boolean {
+    return this.readTokenCookie(req, envVars, this.ACCESS_TOKEN_COOKIE) !== undefined
+      || this.readTokenCookie(req, envVars, this.REFRESH_TOKEN_COOKIE) !== undefined;
+  }
+
+  /**
+   * Checks that the X-CSRF-Token header matches the CSRF token cookie.
+   *
+   * @param req - Express request
+   * @returns true if both are present and equal
+   */
+  public static hasValidCsrfToken(req: Request): boolean {
+    const cookie = this.readCsrfToken(req);
+    const header = req.get(this.CSRF_TOKEN_HEADER);
+    if (!cookie || !header) {
+      return false;
+    }
+    const cookieBuffer = Buffer.from(cookie);
+    const headerBuffer = Buffer.from(header);
+    return cookieBuffer.length === headerBuffer.length && timingSafeEqual(cookieBuffer, headerBuffer);
+  }
+
+  /**
+   * Returns the options of a cookie, without lifetime so they also clear it.
+   * Token cookies are HttpOnly; the CSRF token cookie must be readable by the frontend.
+   */
+  private static cookieOptions(envVars: EnvVars, name: string): CookieOptions {
+    return {
+      httpOnly: name !== this.CSRF_TOKEN_COOKIE,
+      secure: envVars.AUTH_COOKIE_SECURE,
+      sameSite: envVars.AUTH_COOKIE_SAME_SITE,
+      path: name === this.REFRESH_TOKEN_COOKIE ? this.REFRESH_TOKEN_PATH : '/'
+    };
+  }
+}
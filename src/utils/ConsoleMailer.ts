@@ -0,0 +1,34 @@
+import winston from 'winston';
+import { Mailer, MailMessage } from './Mailer';
+
+/** Query parameters carrying one-time tokens, such as `?token=` in reset and verification links */
+const TOKEN_PARAMETER_PATTERN = /([?&][\w-]*token=)[^&#\s]+/gi;
+
+/**
+ * Mailer that writes messages to the application log instead of sending them.
+ * 
+ * Intended for local development. Logs are kept and shipped far more widely
+ * than mailboxes, so token values in links are redacted: use the file
+ * transport to follow reset and verification links locally.
+ */
+export class ConsoleMailer implements Mailer {
+  /**
+   * Creates a new console mailer.
+   * 
+   * @param logger - Logger receiving the messages
+   */
+  public constructor(private readonly logger: winston.Logger) {}
+
+  /**
+   * Logs the message at info level, with token values redacted.
+   * 
+   * @param message - Message to log
+   */
+  public async send(message: MailMessage): Promise<void> {
+    const text = message.text.replace(TOKEN_PARAMETER_PATTERN, '$1[redacted]');
+    this.logger.info(`Mail to ${message.to}: ${message.subject}\n${text}`, {
+      to: message.to,
+      subject: message.subject
+    });
+  }
+}
@@ -0,0 +1,40 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Mailer, MailMessage, formatMailMessage } from './Mailer';
+import { TimestampProducer } from './TimestampProducer';
+
+/**
+ * Mailer that appends messages to a local file instead of sending them.
+ * 
+ * Each message is written in raw RFC 5322 format, preceded by a separator
+ * line, so the outbox can be inspected by hand or by scripts. Intended for
+ * development and testing environments.
+ */
+export class FileMailer implements Mailer {
+  /**
+   * Creates a new file mailer.
+   * 
+   * @param filePath - Outbox file, created together with its directory when missing
+   * @param from - Sender address
+   * @param timestampProducer - Producer for the Date header
+   */
+  public constructor(
+    private readonly filePath: string,
+    private readonly from: string,
+    private readonly timestampProducer: TimestampProducer
+  ) {}
+
+  /**
+   * Appends the message to the outbox file.
+   * 
+   * @param message - Message to store
+   * @throws {Error} When the file cannot be written
+   */
+  public async send(message: MailMessage): Promise<void> {
+    const now = this.timestampProducer.getNow();
+    const rawMessage = formatMailMessage(this.from, message, now);
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, `----- ${new Date(now).toISOString()} -----\r\n${rawMessage}\r\n\r\n`, 'utf8');
+  }
+}
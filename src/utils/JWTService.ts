@@ -1,6 +1,14 @@
+import { randomUUID } from 'crypto';
 import jwt from 'jsonwebtoken';
 import { EnvVars } from '../setup/EnvVars';
 import { AppError } from '../setup/middleware/errorHandler';
+import { UserRole } from '../domain/interfaces/entities/User';
+import { TokenScope } from '../domain/interfaces/entities/TokenScope';
+import { JwtAccessTokenKeys } from './JwtAccessTokenKeys';
+import { JwtPurposeTokenService, MfaTokenPayload, OidcStatePayload } from './JwtPurposeTokenService';
+import { TimeUtils } from './TimeUtils';
+
+export type { MfaTokenPayload, OidcStatePayload } from './JwtPurposeTokenService';
 
 /**
  * JWT payload interface containing user information.
@@ -14,6 +22,22 @@ export interface JWTPayload {
   
   /** Username of the authenticated user */
   username: string;
+
+  /** Roles granted to the user when the token was issued */
+  roles: UserRole[];
+
+  /** Scopes the token can be used for, kept when the token is refreshed */
+  scopes: TokenScope[];
+}
+
+/**
+ * Payload of a verified access or refresh token.
+ * 
+ * Adds the token ID, which identifies the database record of the token.
+ */
+export interface VerifiedJWTPayload extends JWTPayload {
+  /** Unique identifier of the token (`jti` claim) */
+  jti: string;
 }
 
 /**
@@ -28,6 +52,12 @@ export interface TokenPair {
   
   /** JWT refresh token for obtaining new access tokens */
   refreshToken: string;
+
+  /** Unique identifier (`jti` claim) of the access token */
+  accessTokenId: string;
+
+  /** Unique identifier (`jti` claim) of the refresh token */
+  refreshTokenId: string;
 }
 
 /**
@@ -36,39 +66,55 @@ export interface TokenPair {
  * Provides comprehensive JWT functionality including token generation,
  * verification, and decoding. Supports both access and refresh tokens
  * with different secrets and expiration times.
+ * 
+ * Access tokens are signed with the keys of JwtAccessTokenKeys: JWT_SECRET
+ * (HS256) or the key store (RS256/ES256). Refresh tokens are only read by this
+ * server and always use JWT_REFRESH_SECRET; MFA and OIDC state tokens are
+ * handled by JwtPurposeTokenService.
+ * 
+ * Access and refresh tokens carry the registered claims `iss`, `aud`, `sub`
+ * (the user ID) and a random `jti` identifying their database record.
+ * Verification only accepts the configured algorithm, issuer and audience.
  */
 export class JWTService {
   /** Environment variables containing JWT configuration */
   private envVars: EnvVars;
 
+  /** Keys signing and verifying access tokens */
+  private accessTokenKeys: JwtAccessTokenKeys;
+
+  /** Service handling the MFA and OIDC state tokens */
+  private purposeTokens: JwtPurposeTokenService;
+
   /**
    * Creates a new JWT service instance.
    * 
    * @param envVars - Environment variables containing JWT secrets and expiration settings
+   * @param now - Current timestamp, checked against the key activations when the key store is loaded
    */
-  constructor(envVars: EnvVars) {
+  constructor(envVars: EnvVars, now: number) {
     this.envVars = envVars;
+    this.accessTokenKeys = new JwtAccessTokenKeys(envVars, now);
+    this.purposeTokens = new JwtPurposeTokenService(envVars);
   }
 
   /**
    * Generates a JWT access token.
    * 
-   * Creates a signed JWT token with the provided payload, adding entropy
-   * to ensure uniqueness even with identical payloads and timestamps.
+   * Creates a signed JWT token with the provided payload and the registered
+   * claims; the random token ID keeps tokens unique even with identical
+   * payloads and timestamps.
+   * With a key store the token is signed by its current key, named in the
+   * `kid` header.
    * 
    * @param payload - User information to include in the token
+   * @param now - Current timestamp of the caller, selecting the signing key of the store
+   * @param jti - Unique identifier of the token, random by default
    * @returns Signed JWT access token string
    */
-  public generateAccessToken(payload: JWTPayload): string {
-    // Add entropy to ensure uniqueness even with same payload and timestamp
-    const uniquePayload = {
-      ...payload,
-      nonce: Math.random().toString(36).substring(2, 15)
-    };
-    
-    return jwt.sign(uniquePayload, this.envVars.JWT_SECRET, {
-      expiresIn: this.envVars.JWT_EXPIRES_IN,
-    } as jwt.SignOptions);
+  public generateAccessToken(payload: JWTPayload, now: number, jti: string = randomUUID()): string {
+    const { key, options } = this.accessTokenKeys.signingKey(now);
+    return this.signUserToken(payload, jti, key, this.envVars.JWT_EXPIRES_IN, options);
   }
 
   /**
@@ -78,18 +124,12 @@ export class JWTService {
    * a different secret and longer expiration time than access tokens.
    * 
    * @param payload - User information to include in the token
+   * @param jti - Unique identifier of the token, random by default
    * @returns Signed JWT refresh token string
    */
-  public generateRefreshToken(payload: JWTPayload): string {
-    // Add entropy to ensure uniqueness even with same payload and timestamp
-    const uniquePayload = {
-      ...payload,
-      nonce: Math.random().toString(36).substring(2, 15)
-    };
-    
-    return jwt.sign(uniquePayload, this.envVars.JWT_REFRESH_SECRET, {
-      expiresIn: this.envVars.JWT_REFRESH_EXPIRES_IN,
-    } as jwt.SignOptions);
+  public generateRefreshToken(payload: JWTPayload, jti: string = randomUUID()): string {
+    const { JWT_REFRESH_SECRET, JWT_REFRESH_EXPIRES_IN } = this.envVars;
+    return this.signUserToken(payload, jti, JWT_REFRESH_SECRET, JWT_REFRESH_EXPIRES_IN, { algorithm: 'HS256' });
   }
 
   /**
@@ -99,49 +139,165 @@ export class JWTService {
    * ensuring they contain identical user information.
    * 
    * @param payload - User information to include in both tokens
-   * @returns Object containing both access and refresh tokens
+   * @param now - Current timestamp of the caller, selecting the signing key of the access token
+   * @returns Object containing both tokens and their IDs
    */
-  public generateTokenPair(payload: JWTPayload): TokenPair {
+  public generateTokenPair(payload: JWTPayload, now: number): TokenPair {
+    const accessTokenId = randomUUID();
+    const refreshTokenId = randomUUID();
     return {
-      accessToken: this.generateAccessToken(payload),
-      refreshToken: this.generateRefreshToken(payload),
+      accessToken: this.generateAccessToken(payload, now, accessTokenId),
+      refreshToken: this.generateRefreshToken(payload, refreshTokenId),
+      accessTokenId,
+      refreshTokenId
     };
   }
 
   /**
    * Verifies and decodes a JWT access token.
    * 
-   * Validates the token signature and expiration using the access token secret.
+   * Validates the token signature and expiration using the access token secret,
+   * or the key of the store named in the `kid` header, together with its
+   * algorithm, issuer and audience.
    * Returns the decoded payload if valid.
    * 
    * @param token - JWT access token string to verify
-   * @returns Decoded JWT payload containing user information
+   * @returns Decoded JWT payload containing user information and the token ID
    * @throws {AppError} When token is invalid, expired, or malformed
    */
-  public verifyAccessToken(token: string): JWTPayload {
+  public verifyAccessToken(token: string): VerifiedJWTPayload {
+    let claims: jwt.JwtPayload;
     try {
-      return jwt.verify(token, this.envVars.JWT_SECRET) as JWTPayload;
+      claims = this.verifyAccessTokenSignature(token);
     } catch (_error) {
       throw new AppError('Invalid or expired access token', 401);
     }
+    return this.toVerifiedPayload(claims, 'Invalid or expired access token');
+  }
+
+  /**
+   * Verifies the signature, claims and expiration of an access token.
+   * 
+   * @param token - JWT access token string to verify
+   * @returns Decoded claims
+   * @throws {Error} When the token is invalid, expired or signed with an unknown key
+   */
+  private verifyAccessTokenSignature(token: string): jwt.JwtPayload {
+    const { key, algorithm } = this.accessTokenKeys.verificationKey(token);
+    return jwt.verify(token, key, this.verifyOptions(algorithm)) as jwt.JwtPayload;
   }
 
   /**
    * Verifies and decodes a JWT refresh token.
    * 
-   * Validates the token signature and expiration using the refresh token secret.
+   * Validates the token signature and expiration using the refresh token secret,
+   * together with its algorithm, issuer and audience.
    * Returns the decoded payload if valid.
    * 
    * @param token - JWT refresh token string to verify
-   * @returns Decoded JWT payload containing user information
+   * @returns Decoded JWT payload containing user information and the token ID
    * @throws {AppError} When token is invalid, expired, or malformed
    */
-  public verifyRefreshToken(token: string): JWTPayload {
+  public verifyRefreshToken(token: string): VerifiedJWTPayload {
+    let claims: jwt.JwtPayload;
     try {
-      return jwt.verify(token, this.envVars.JWT_REFRESH_SECRET) as JWTPayload;
+      claims = jwt.verify(token, this.envVars.JWT_REFRESH_SECRET, this.verifyOptions('HS256')) as jwt.JwtPayload;
     } catch (_error) {
       throw new AppError('Invalid or expired refresh token', 401);
     }
+    return this.toVerifiedPayload(claims, 'Invalid or expired refresh token');
+  }
+
+  /**
+   * Signs an access or refresh token with the user claims and the registered claims.
+   */
+  private signUserToken(
+    payload: JWTPayload, jti: string, key: jwt.Secret, expiresIn: string, options: jwt.SignOptions
+  ): string {
+    const { userId, username, roles, scopes } = payload;
+    return jwt.sign({ userId, username, roles, scopes }, key, {
+      ...options,
+      issuer: this.envVars.JWT_ISSUER,
+      audience: this.envVars.JWT_AUDIENCE,
+      subject: userId,
+      jwtid: jti,
+      expiresIn
+    } as jwt.SignOptions);
+  }
+
+  /**
+   * Returns the verify options enforcing the algorithm, issuer, audience and clock tolerance.
+   */
+  private verifyOptions(algorithm: jwt.Algorithm): jwt.VerifyOptions {
+    return {
+      algorithms: [algorithm],
+      issuer: this.envVars.JWT_ISSUER,
+      audience: this.envVars.JWT_AUDIENCE,
+      clockTolerance: TimeUtils.parseExpiry(this.envVars.JWT_CLOCK_TOLERANCE) / 1000
+    };
+  }
+
+  /**
+   * Checks the claims of a verified access or refresh token and returns its payload.
+   * 
+   * @throws {AppError} When the token has no ID, its subject is not its user or it has a purpose
+   */
+  private toVerifiedPayload(claims: jwt.JwtPayload, message: string): VerifiedJWTPayload {
+    // Pending two-factor login and OIDC state tokens share the secret but never grant access
+    if (claims.purpose || typeof claims.jti !== 'string' || claims.sub !== claims.userId) {
+      throw new AppError(message, 401);
+    }
+    return {
+      userId: claims.userId,
+      username: claims.username,
+      roles: claims.roles,
+      scopes: claims.scopes,
+      jti: claims.jti
+    };
+  }
+
+  /**
+   * Generates a pending two-factor login token.
+   * 
+   * Access token verification refuses it; see JwtPurposeTokenService.
+   * 
+   * @param payload - User whose login is pending
+   * @returns Signed JWT string
+   */
+  public generateMfaToken(payload: MfaTokenPayload): string {
+    return this.purposeTokens.generateMfaToken(payload);
+  }
+
+  /**
+   * Verifies and decodes a pending two-factor login token.
+   * 
+   * @param token - Token returned by a login that requires a second factor
+   * @returns Decoded payload identifying the user and the scopes requested at login
+   * @throws {AppError} When the token is invalid, expired or not a two-factor login token
+   */
+  public verifyMfaToken(token: string): MfaTokenPayload {
+    return this.purposeTokens.verifyMfaToken(token);
+  }
+
+  /**
+   * Generates an OpenID Connect state token.
+   * 
+   * @param payload - Values to check in the callback
+   * @returns Signed JWT string
+   */
+  public generateOidcStateToken(payload: OidcStatePayload): string {
+    return this.purposeTokens.generateOidcStateToken(payload);
+  }
+
+  /**
+   * Verifies and decodes an OpenID Connect state token.
+   * 
+   * @param token - Token stored when the provider sign-in started
+   * @returns Decoded values of the sign-in
+   * @throws {AppError} When the token is invalid, expired or not a state token
+   */
+  public verifyOidcStateToken(token: string): OidcStatePayload {
+    return this.purposeTokens.verifyOidcStateToken(token);
   }
 
   /**
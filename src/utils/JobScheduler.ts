@@ -0,0 +1,171 @@
+import { randomUUID } from 'crypto';
+import winston from 'winston';
+import { JobLockDAO } from '../domain/interfaces/dao/JobLockDAO';
+import { TimestampProducer } from './TimestampProducer';
+
+/**
+ * Maintenance job run periodically by the JobScheduler.
+ */
+export interface ScheduledJob {
+  /** Unique name of the job, also naming its lock */
+  name: string;
+
+  /** Time between two runs in milliseconds */
+  interval: number;
+
+  /**
+   * Runs the job once.
+   *
+   * @param now - Timestamp the run was started at
+   */
+  run(now: number): Promise<void>;
+}
+
+/**
+ * In-process scheduler of maintenance jobs.
+ *
+ * Each job runs when the scheduler starts and then every `interval`
+ * milliseconds after the previous run has finished, so runs of a job never
+ * overlap within one process. Across replicas, a run first takes the lease of
+ * the job for LEASE_DURATION, renews it while the job runs and releases it
+ * once the run has finished, so a job runs on one replica at a time however
+ * long it takes. The others skip the job while the lease is held, and take
+ * over when it expires if the holder was stopped mid-run. Failures are logged
+ * and the job runs again at its next turn.
+ */
+export class JobScheduler {
+  /** Duration of a lease in milliseconds, renewed every third of it while the job runs */
+  public static readonly LEASE_DURATION = 60 * 1000;
+
+  private readonly jobs: ScheduledJob[] = [];
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private readonly runs = new Set<Promise<void>>();
+  private started = false;
+
+  /**
+   * Creates a scheduler without jobs.
+   *
+   * @param jobLockDAO - DAO of the job leases shared by all replicas
+   * @param timestampProducer - Producer of the run timestamps
+   * @param logger - Logger of the job outcomes
+   * @param owner - Identifier of this scheduler in the leases, random by default
+   */
+  constructor(
+    private readonly jobLockDAO: JobLockDAO,
+    private readonly timestampProducer: TimestampProducer,
+    private readonly logger: winston.Logger,
+    private readonly owner: string = randomUUID()
+  ) {}
+
+  /**
+   * Adds a job, to be registered before the scheduler starts.
+   *
+   * @param job - Job to run periodically
+   * @throws {Error} When a job with the same name is already scheduled
+   */
+  public schedule(job: ScheduledJob): void {
+    if (this.jobs.some(scheduled => scheduled.name === job.name)) {
+      throw new Error(`Job ${job.name} is already scheduled`);
+    }
+    this.jobs.push(job);
+  }
+
+  /**
+   * Starts running the scheduled jobs.
+   */
+  public start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    for (const job of this.jobs) {
+      this.trigger(job);
+    }
+  }
+
+  /**
+   * Stops scheduling new runs and waits for the running ones to finish and release their leases.
+   */
+  public async stop(): Promise<void> {
+    this.started = false;
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    await Promise.all(this.runs);
+  }
+
+  /**
+   * Runs a job now and schedules its next run once it has finished.
+   */
+  private trigger(job: ScheduledJob): void {
+    this.timers.delete(job.name);
+    const run = this.runJob(job).finally(() => {
+      this.runs.delete(run);
+      if (this.started) {
+        // Timers must not keep the process alive on their own
+        this.timers.set(job.name, setTimeout(() => this.trigger(job), job.interval).unref());
+      }
+    });
+    this.runs.add(run);
+  }
+
+  /**
+   * Runs a job if this scheduler gets its lease; never throws.
+   */
+  private async runJob(job: ScheduledJob): Promise<void> {
+    const now = this.timestampProducer.getNow();
+    try {
+      const acquired = await this.jobLockDAO.acquireLock(
+        job.name, this.owner, new Date(now + JobScheduler.LEASE_DURATION), now
+      );
+      if (!acquired) {
+        this.logger.debug(`Job ${job.name} skipped: run by another instance`, { job: job.name });
+        return;
+      }
+      await this.runHoldingLease(job, now);
+      this.logger.info(`Job ${job.name} completed`, {
+        job: job.name,
+        durationMs: this.timestampProducer.getNow() - now
+      });
+    } catch (error) {
+      this.logger.error(`Job ${job.name} failed:`, error);
+    }
+  }
+
+  /**
+   * Runs a job whose lease was just taken, renewing the lease until the run
+   * has finished and then releasing it.
+   */
+  private async runHoldingLease(job: ScheduledJob, now: number): Promise<void> {
+    let renewal = Promise.resolve();
+    const renewalTimer = setInterval(() => {
+      renewal = renewal.then(() => this.renewLease(job));
+    }, JobScheduler.LEASE_DURATION / 3).unref();
+    try {
+      await job.run(now);
+    } finally {
+      clearInterval(renewalTimer);
+      // A renewal still in flight would take the lease again after the release
+      await renewal;
+      await this.jobLockDAO.releaseLock(job.name, this.owner);
+    }
+  }
+
+  /**
+   * Extends the lease of a running job; never throws.
+   */
+  private async renewLease(job: ScheduledJob): Promise<void> {
+    const now = this.timestampProducer.getNow();
+    try {
+      const renewed = await this.jobLockDAO.acquireLock(
+        job.name, this.owner, new Date(now + JobScheduler.LEASE_DURATION), now
+      );
+      if (!renewed) {
+        this.logger.warn(`Job ${job.name} lost its lease to another instance`, { job: job.name });
+      }
+    } catch (error) {
+      this.logger.error(`Job ${job.name} lease renewal failed:`, error);
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { KeyObject } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { EnvVars } from '../setup/EnvVars';
+import { JwtKeyStore } from './JwtKeyStore';
+
+/**
+ * Key and header options signing an access token.
+ */
+export interface AccessTokenSigningKey {
+  /** Secret or private key signing the token */
+  key: jwt.Secret;
+
+  /** Algorithm and, with a key store, the `kid` header of the token */
+  options: jwt.SignOptions;
+}
+
+/**
+ * Key and algorithm verifying an access token.
+ */
+export interface AccessTokenVerificationKey {
+  /** Secret or public key verifying the token */
+  key: jwt.Secret | KeyObject;
+
+  /** Only algorithm the token may be signed with */
+  algorithm: jwt.Algorithm;
+}
+
+/**
+ * Keys signing and verifying access tokens.
+ *
+ * Access tokens are signed with JWT_SECRET (HS256), or with the private keys
+ * of the key store (RS256/ES256) so other services can verify them with the
+ * public keys published in the JWKS.
+ */
+export class JwtAccessTokenKeys {
+  /** Environment variables containing the access token secret */
+  private envVars: EnvVars;
+
+  /** Keys signing access tokens, null when they are signed with JWT_SECRET */
+  private keyStore: JwtKeyStore | null;
+
+  /**
+   * Creates the access token keys of a configuration.
+   *
+   * @param envVars - Environment variables containing JWT_SECRET and the key store settings
+   * @param now - Current timestamp, checked against the key activations when the key store is loaded
+   */
+  constructor(envVars: EnvVars, now: number) {
+    this.envVars = envVars;
+    this.keyStore = JwtKeyStore.fromEnvVars(envVars, now);
+  }
+
+  /**
+   * Returns the key signing access tokens issued at the given time.
+   *
+   * With a key store this is its current key, named in the `kid` header.
+   *
+   * @param now - Current time in milliseconds, selecting the active key of the store
+   * @returns Key and sign options of the token
+   */
+  public signingKey(now: number): AccessTokenSigningKey {
+    if (!this.keyStore) {
+      return { key: this.envVars.JWT_SECRET, options: { algorithm: 'HS256' } };
+    }
+
+    const { kid, privateKey } = this.keyStore.signingKey(now);
+    return { key: privateKey, options: { algorithm: this.keyStore.algorithm, keyid: kid } };
+  }
+
+  /**
+   * Returns the key verifying an access token.
+   *
+   * With a key store the key is the one named in the `kid` header of the token.
+   *
+   * @param token - JWT access token string to verify
+   * @returns Key and algorithm the token must be signed with
+   * @throws {Error} When the token names no loaded key
+   */
+  public verificationKey(token: string): AccessTokenVerificationKey {
+    if (!this.keyStore) {
+      return { key: this.envVars.JWT_SECRET, algorithm: 'HS256' };
+    }
+
+    const publicKey = this.keyStore.findPublicKey(jwt.decode(token, { complete: true })?.header.kid);
+    if (!publicKey) {
+      throw new Error('Unknown signing key');
+    }
+    return { key: publicKey, algorithm: this.keyStore.algorithm };
+  }
+}
@@ -0,0 +1,198 @@
+import { createPrivateKey, createPublicKey, JsonWebKey, KeyObject } from 'crypto';
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { EnvVars, JwtAlgorithm } from '../setup/EnvVars';
+
+/**
+ * Asymmetric algorithms access tokens can be signed with.
+ */
+export type AsymmetricJwtAlgorithm = Exclude<JwtAlgorithm, 'HS256'>;
+
+/**
+ * Key pair signing access tokens.
+ */
+export interface JwtSigningKey {
+  /** Key ID written in the `kid` header, the file name without extension */
+  kid: string;
+
+  /** Private key signing the tokens */
+  privateKey: KeyObject;
+
+  /** Public key verifying the tokens, published in the JWKS */
+  publicKey: KeyObject;
+
+  /** Time the key starts signing in milliseconds, 0 for keys without date prefix */
+  activatesAt: number;
+}
+
+/**
+ * Public key as published in the JWKS.
+ */
+export type PublicJwk = JsonWebKey & { kid: string; use: 'sig'; alg: AsymmetricJwtAlgorithm };
+
+/** Key IDs are written in token headers, so they are restricted to URL-safe characters */
+const KID_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+/** Key IDs starting with a date activate at midnight UTC of that date */
+const ACTIVATION_DATE_PATTERN = /^(\d{4}-\d{2}-\d{2})/;
+
+/** Minimum RSA modulus length accepted for RS256 keys */
+const MIN_RSA_MODULUS_LENGTH = 2048;
+
+/** Key stores loaded per configuration, so keys are read from disk once */
+const loadedKeyStores = new WeakMap<EnvVars, JwtKeyStore>();
+
+/**
+ * Private keys signing access tokens with RS256 or ES256.
+ *
+ * Keys are read from PEM files; the file name without extension is the key ID.
+ * Key IDs starting with a date (e.g. `2025-07-01.pem`) activate on that date,
+ * so rotations are scheduled by adding the next key ahead of time: it is
+ * published in the JWKS right away and starts signing once its date is
+ * reached. The newest active key signs; every loaded key keeps verifying, so
+ * old keys are removed only after the tokens they signed have expired.
+ */
+export class JwtKeyStore {
+  /** Algorithm of every key of the store */
+  public readonly algorithm: AsymmetricJwtAlgorithm;
+
+  /** Loaded keys, oldest activation first */
+  private readonly keys: JwtSigningKey[];
+
+  /**
+   * @param algorithm - Algorithm the keys sign with
+   * @param keys - Keys of the store
+   */
+  constructor(algorithm: AsymmetricJwtAlgorithm, keys: JwtSigningKey[]) {
+    this.algorithm = algorithm;
+    this.keys = [...keys].sort((a, b) => a.activatesAt - b.activatesAt || a.kid.localeCompare(b.kid));
+  }
+
+  /**
+   * Returns the key store of the configuration, loading the keys on first use.
+   *
+   * @param envVars - Configuration naming the algorithm and the key files
+   * @param now - Current timestamp; at least one key must be active when the keys are loaded
+   * @returns The key store, or null when access tokens are signed with JWT_SECRET (HS256)
+   * @throws {Error} When a key file cannot be read, is not a private key of the algorithm or no key is active
+   */
+  public static fromEnvVars(envVars: EnvVars, now: number): JwtKeyStore | null {
+    if (envVars.JWT_ALGORITHM === 'HS256') {
+      return null;
+    }
+
+    let keyStore = loadedKeyStores.get(envVars);
+    if (!keyStore) {
+      const files = [...envVars.JWT_KEY_FILES];
+      if (envVars.JWT_KEYS_DIR) {
+        files.push(...readdirSync(envVars.JWT_KEYS_DIR)
+          .filter(file => file.endsWith('.pem'))
+          .map(file => path.join(envVars.JWT_KEYS_DIR, file)));
+      }
+      keyStore = JwtKeyStore.load(envVars.JWT_ALGORITHM, files, now);
+      loadedKeyStores.set(envVars, keyStore);
+    }
+    return keyStore;
+  }
+
+  /**
+   * Loads private keys from PEM files.
+   *
+   * @param algorithm - Algorithm the keys must be suited for
+   * @param files - PEM files named after their key ID
+   * @param now - Current timestamp; at least one key must be active
+   * @returns The key store
+   * @throws {Error} When there is no key file, a key file is invalid, a key ID is repeated or no key is active
+   */
+  public static load(algorithm: AsymmetricJwtAlgorithm, files: string[], now: number): JwtKeyStore {
+    if (files.length === 0) {
+      throw new Error(`No JWT key file found for ${algorithm}`);
+    }
+    const keys = files.map(file => JwtKeyStore.loadKey(algorithm, file));
+
+    const kids = keys.map(key => key.kid);
+    const repeatedKid = kids.find((kid, index) => kids.indexOf(kid) !== index);
+    if (repeatedKid) {
+      throw new Error(`JWT key ID ${repeatedKid} is used by several key files`);
+    }
+
+    const keyStore = new JwtKeyStore(algorithm, keys);
+    keyStore.signingKey(now);
+    return keyStore;
+  }
+
+  /**
+   * Returns the key signing new tokens: the active key activated last.
+   *
+   * @param now - Current timestamp
+   * @returns The signing key
+   * @throws {Error} When every key activates in the future
+   */
+  public signingKey(now: number): JwtSigningKey {
+    const activeKeys = this.keys.filter(key => key.activatesAt <= now);
+    if (activeKeys.length === 0) {
+      throw new Error('No JWT signing key is active yet');
+    }
+    return activeKeys[activeKeys.length - 1];
+  }
+
+  /**
+   * Returns the public key verifying tokens signed with a key ID.
+   *
+   * @param kid - Key ID of the token header
+   * @returns The public key, or null when no key has the ID
+   */
+  public findPublicKey(kid: string | undefined): KeyObject | null {
+    return this.keys.find(key => key.kid === kid)?.publicKey ?? null;
+  }
+
+  /**
+   * Returns the public keys as JSON Web Key Set, keys activating later included.
+   *
+   * @returns Public keys with their ID, use and algorithm
+   */
+  public toJwks(): { keys: PublicJwk[] } {
+    return {
+      keys: this.keys.map(key => ({
+        ...key.publicKey.export({ format: 'jwk' }),
+        kid: key.kid,
+        use: 'sig',
+        alg: this.algorithm
+      }))
+    };
+  }
+
+  /**
+   * Loads one private key, checking that it suits the algorithm.
+   */
+  private static loadKey(algorithm: AsymmetricJwtAlgorithm, file: string): JwtSigningKey {
+    const kid = path.basename(file, path.extname(file));
+    if (!KID_PATTERN.test(kid)) {
+      throw new Error(`JWT key file ${file} must be named with letters, digits, dots, hyphens and underscores`);
+    }
+
+    let privateKey: KeyObject;
+    try {
+      privateKey = createPrivateKey(readFileSync(file));
+    } catch (_error) {
+      throw new Error(`JWT key file ${file} is not a readable PEM private key`);
+    }
+
+    const details = privateKey.asymmetricKeyDetails;
+    const isSuited = algorithm === 'RS256'
+      ? privateKey.asymmetricKeyType === 'rsa' && (details?.modulusLength ?? 0) >= MIN_RSA_MODULUS_LENGTH
+      : privateKey.asymmetricKeyType === 'ec' && details?.namedCurve === 'prime256v1';
+    if (!isSuited) {
+      const expected = algorithm === 'RS256' ? `an RSA key of at least ${MIN_RSA_MODULUS_LENGTH} bits` : 'a P-256 EC key';
+      throw new Error(`JWT key file ${file} must contain ${expected} for ${algorithm}`);
+    }
+
+    const activationDate = ACTIVATION_DATE_PATTERN.exec(kid)?.[1];
+    const activatesAt = activationDate ? Date.parse(`${activationDate}T00:00:00Z`) : 0;
+    if (Number.isNaN(activatesAt)) {
+      throw new Error(`JWT key file ${file} starts with an invalid date`);
+    }
+
+    return { kid, privateKey, publicKey: createPublicKey(privateKey), activatesAt };
+  }
+}
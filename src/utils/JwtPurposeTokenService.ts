@@ -0,0 +1,161 @@
+import { randomUUID } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { EnvVars } from '../setup/EnvVars';
+import { AppError } from '../setup/middleware/errorHandler';
+import { TokenScope } from '../domain/interfaces/entities/TokenScope';
+
+/**
+ * Payload of a pending two-factor login token.
+ *
+ * Identifies the user whose password was verified and who still has to
+ * enter a second factor.
+ */
+export interface MfaTokenPayload {
+  /** Unique identifier of the user completing the login */
+  userId: string;
+
+  /** Username of the user completing the login */
+  username: string;
+
+  /** Scopes requested at login, granted to the tokens issued once the login completes */
+  scopes: TokenScope[];
+}
+
+/** Value of the `purpose` claim of pending two-factor login tokens */
+const MFA_TOKEN_PURPOSE = 'mfa';
+
+/**
+ * Payload of an OpenID Connect state token.
+ *
+ * Keeps the values of a provider sign-in between its start and the
+ * callback, so the callback can check that it answers a sign-in started
+ * by the same browser.
+ */
+export interface OidcStatePayload {
+  /** Name of the provider the sign-in was started with */
+  provider: string;
+
+  /** Random value sent as `state` parameter and expected back in the callback */
+  state: string;
+
+  /** Random value sent as `nonce` parameter and expected in the ID token */
+  nonce: string;
+
+  /** PKCE code verifier proving the callback comes from the client that started the sign-in */
+  codeVerifier: string;
+}
+
+/** Value of the `purpose` claim of OpenID Connect state tokens */
+const OIDC_STATE_TOKEN_PURPOSE = 'oidc-state';
+
+/**
+ * Signs and verifies the tokens that never grant access.
+ *
+ * Pending two-factor login and OpenID Connect state tokens are only read by
+ * this server, so they are always signed with JWT_SECRET (HS256). Their
+ * `purpose` claim keeps one type from being accepted as another, and makes
+ * access token verification refuse them.
+ */
+export class JwtPurposeTokenService {
+  /** Environment variables containing the secret and the expiration settings */
+  private envVars: EnvVars;
+
+  /**
+   * Creates a new purpose token service instance.
+   *
+   * @param envVars - Environment variables containing JWT_SECRET and the expiration settings
+   */
+  constructor(envVars: EnvVars) {
+    this.envVars = envVars;
+  }
+
+  /**
+   * Generates a pending two-factor login token.
+   *
+   * Issued after the password of a user with two-factor authentication was
+   * verified. The token is short-lived and can only be exchanged for real
+   * tokens together with a second factor.
+   *
+   * @param payload - User whose login is pending
+   * @returns Signed JWT string
+   */
+  public generateMfaToken(payload: MfaTokenPayload): string {
+    const { userId, username, scopes } = payload;
+    return this.sign({ userId, username, scopes }, MFA_TOKEN_PURPOSE, this.envVars.MFA_TOKEN_EXPIRES_IN);
+  }
+
+  /**
+   * Verifies and decodes a pending two-factor login token.
+   *
+   * @param token - Token returned by a login that requires a second factor
+   * @returns Decoded payload identifying the user and the scopes requested at login
+   * @throws {AppError} When the token is invalid, expired or not a two-factor login token
+   */
+  public verifyMfaToken(token: string): MfaTokenPayload {
+    const payload = this.verify<MfaTokenPayload>(token, MFA_TOKEN_PURPOSE);
+    if (!payload) {
+      throw new AppError('Invalid or expired MFA token', 401);
+    }
+    return { userId: payload.userId, username: payload.username, scopes: payload.scopes };
+  }
+
+  /**
+   * Generates an OpenID Connect state token.
+   *
+   * Issued when a provider sign-in starts and stored in a cookie of the browser.
+   *
+   * @param payload - Values to check in the callback
+   * @returns Signed JWT string
+   */
+  public generateOidcStateToken(payload: OidcStatePayload): string {
+    const { provider, state, nonce, codeVerifier } = payload;
+    return this.sign(
+      { provider, state, nonce, codeVerifier }, OIDC_STATE_TOKEN_PURPOSE, this.envVars.OIDC_STATE_EXPIRES_IN
+    );
+  }
+
+  /**
+   * Verifies and decodes an OpenID Connect state token.
+   *
+   * @param token - Token stored when the provider sign-in started
+   * @returns Decoded values of the sign-in
+   * @throws {AppError} When the token is invalid, expired or not a state token
+   */
+  public verifyOidcStateToken(token: string): OidcStatePayload {
+    const payload = this.verify<OidcStatePayload>(token, OIDC_STATE_TOKEN_PURPOSE);
+    if (!payload) {
+      throw new AppError('Invalid or expired OIDC state', 400);
+    }
+    return {
+      provider: payload.provider,
+      state: payload.state,
+      nonce: payload.nonce,
+      codeVerifier: payload.codeVerifier
+    };
+  }
+
+  /**
+   * Signs a token identified by its `purpose` claim.
+   */
+  private sign(claims: object, purpose: string, expiresIn: string): string {
+    return jwt.sign({ ...claims, purpose }, this.envVars.JWT_SECRET, {
+      algorithm: 'HS256',
+      jwtid: randomUUID(),
+      expiresIn
+    } as jwt.SignOptions);
+  }
+
+  /**
+   * Verifies a token signed by sign.
+   *
+   * @returns The decoded claims, or null when the token is invalid, expired or has another purpose
+   */
+  private verify<T>(token: string, purpose: string): T | null {
+    try {
+      const claims = jwt.verify(token, this.envVars.JWT_SECRET, { algorithms: ['HS256'] }) as jwt.JwtPayload;
+      return claims.purpose === purpose ? claims as T : null;
+    } catch (_error) {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import { TimestampProducer } from './TimestampProducer';
+
+/**
+ * Internal cache entry holding a value and its expiration timestamp.
+ */
+interface CacheEntry<V> {
+  /** Cached value */
+  value: V;
+
+  /** Timestamp (ms since epoch) after which the entry is considered stale */
+  expiresAt: number;
+}
+
+/**
+ * In-process least-recently-used cache with per-entry time-to-live.
+ *
+ * Keeps at most `maxSize` entries, evicting the least recently used one
+ * when full. Entries older than `ttlMs` are treated as missing and removed
+ * lazily on access. Relies on Map insertion order to track recency, so
+ * every read moves the entry to the most recently used position.
+ *
+ * Time is read through an injected TimestampProducer to keep expiration
+ * behaviour deterministic in tests.
+ *
+ * @template K - Type of cache keys
+ * @template V - Type of cached values
+ */
+export class LRUCache<K, V> {
+  /** Entries ordered from least to most recently used */
+  private readonly entries = new Map<K, CacheEntry<V>>();
+
+  /**
+   * Creates a new LRU cache.
+   *
+   * @param maxSize - Maximum number of entries kept in memory (must be positive)
+   * @param ttlMs - Time-to-live of each entry in milliseconds
+   * @param timestampProducer - Producer for current timestamps
+   * @throws {Error} When maxSize is not a positive integer
+   */
+  public constructor(
+    private readonly maxSize: number,
+    private readonly ttlMs: number,
+    private readonly timestampProducer: TimestampProducer
+  ) {
+    if (!Number.isInteger(maxSize) || maxSize <= 0) {
+      throw new Error('LRUCache maxSize must be a positive integer');
+    }
+  }
+
+  /**
+   * Gets a value from the cache and marks it as most recently used.
+   *
+   * @param key - Key to look up
+   * @returns Cached value, or undefined when missing or expired
+   */
+  public get(key: K): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= this.timestampProducer.getNow()) {
+      return undefined;
+    }
+
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * Checks whether a non-expired value is cached for the key.
+   *
+   * @param key - Key to look up
+   * @returns True if the key is cached and not expired
+   */
+  public has(key: K): boolean {
+    return this.get(key) !== undefined;
+  }
+
+  /**
+   * Stores a value, evicting the least recently used entry when full.
+   *
+   * @param key - Key to store the value under
+   * @param value - Value to cache
+   */
+  public set(key: K, value: V): void {
+    this.entries.delete(key);
+    if (this.entries.size >= this.maxSize) {
+      const oldestKey = this.entries.keys().next().value as K;
+      this.entries.delete(oldestKey);
+    }
+    this.entries.set(key, { value, expiresAt: this.timestampProducer.getNow() + this.ttlMs });
+  }
+
+  /**
+   * Removes a value from the cache.
+   *
+   * @param key - Key to remove
+   * @returns True if an entry was removed
+   */
+  public delete(key: K): boolean {
+    return this.entries.delete(key);
+  }
+
+  /**
+   * Removes all entries from the cache.
+   */
+  public clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Gets the number of entries currently stored, including expired ones
+   * that have not been accessed since they expired.
+   * @returns Number of stored entries
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
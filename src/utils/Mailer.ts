@@ -0,0 +1,73 @@
+/**
+ * Plain-text email to deliver through a Mailer.
+ */
+export interface MailMessage {
+  /** Recipient email address */
+  to: string;
+
+  /** Subject line */
+  subject: string;
+
+  /** Plain-text body */
+  text: string;
+}
+
+/**
+ * Outgoing email delivery abstraction.
+ * 
+ * Controllers depend on this interface only, so the transport (console,
+ * file, SMTP) is chosen at startup through configuration and tests can
+ * inject a recording implementation.
+ */
+export interface Mailer {
+  /**
+   * Delivers a message.
+   * 
+   * @param message - Message to deliver
+   * @returns Promise resolving once the transport has accepted the message
+   * @throws {Error} When the message cannot be delivered
+   */
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Encodes a header value as an RFC 2047 encoded-word when it is not plain ASCII.
+ * 
+ * @param value - Header value
+ * @returns Value safe to use in a message header
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Formats a message as an RFC 5322 plain-text email with CRLF line endings.
+ * 
+ * Shared by the mailers that produce raw messages (file, SMTP).
+ * 
+ * @param from - Sender address
+ * @param message - Message to format
+ * @param now - Current timestamp for the Date header
+ * @returns Raw message (headers and body)
+ * @throws {Error} When an address or the subject contains line breaks (header injection)
+ */
+export function formatMailMessage(from: string, message: MailMessage, now: number): string {
+  if ([from, message.to, message.subject].some(value => /[\r\n]/.test(value))) {
+    throw new Error('Mail headers must not contain line breaks');
+  }
+
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date(now).toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit'
+  ];
+  const body = message.text.replace(/\r?\n/g, '\r\n');
+
+  return `${headers.join('\r\n')}\r\n\r\n${body}`;
+}
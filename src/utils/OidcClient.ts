@@ -0,0 +1,197 @@
+import jwt from 'jsonwebtoken';
+import { createHash, randomBytes } from 'crypto';
+import { OidcProviderConfig } from '../setup/EnvVars';
+import { AppError } from '../setup/middleware/errorHandler';
+import { OidcDiscovery } from './OidcDiscovery';
+
+/**
+ * Account of a user at the provider, as asserted by a verified ID token.
+ */
+export interface OidcIdentity {
+  /** Subject identifier of the account at the provider */
+  subject: string;
+
+  /** Lower-case email address, only set when the provider reports it as verified */
+  email: string | null;
+
+  /** Username preferred by the user, a suggestion for new accounts */
+  preferredUsername: string | null;
+}
+
+/**
+ * PKCE code verifier together with the challenge sent to the provider.
+ */
+export interface PkcePair {
+  /** Random secret kept by the client until the code is exchanged */
+  codeVerifier: string;
+
+  /** Base64url encoded SHA-256 hash of the verifier */
+  codeChallenge: string;
+}
+
+/** Asymmetric algorithms accepted for ID token signatures */
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384'];
+
+const AUTHENTICATION_FAILED_MESSAGE = 'OIDC authentication failed';
+
+/**
+ * Client of an OpenID Connect provider using the authorization code flow with PKCE.
+ *
+ * Discovers the provider endpoints from its issuer URL, builds authorization
+ * URLs, exchanges authorization codes at the token endpoint and verifies the
+ * returned ID token (signature, issuer, audience, expiry and nonce). The
+ * discovery document and the signing keys are cached by an OidcDiscovery.
+ *
+ * Uses the built-in fetch and jsonwebtoken, with no extra dependency. One
+ * instance is created per configured provider and shared by all requests.
+ */
+export class OidcClient {
+  /** Provider settings */
+  private readonly provider: OidcProviderConfig;
+
+  /** Callback URL registered at the provider */
+  private readonly redirectUri: string;
+
+  /** Cached discovery document and signing keys of the issuer */
+  private readonly discovery: OidcDiscovery;
+
+  /**
+   * Creates a client for one provider.
+   *
+   * @param provider - Provider settings
+   * @param redirectUri - Callback URL registered at the provider
+   */
+  constructor(provider: OidcProviderConfig, redirectUri: string) {
+    this.provider = provider;
+    this.redirectUri = redirectUri;
+    this.discovery = new OidcDiscovery(provider.issuer);
+  }
+
+  /**
+   * Generates a random value for the `state` and `nonce` parameters.
+   *
+   * @returns 128-bit random value, base64url encoded
+   */
+  public static generateRandomValue(): string {
+    return randomBytes(16).toString('base64url');
+  }
+
+  /**
+   * Generates a PKCE code verifier and its S256 challenge.
+   *
+   * @returns Verifier to keep and challenge to send
+   */
+  public static generatePkce(): PkcePair {
+    const codeVerifier = randomBytes(32).toString('base64url');
+    const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+    return { codeVerifier, codeChallenge };
+  }
+
+  /**
+   * Builds the URL of the provider sign-in page.
+   *
+   * @param state - Value the provider echoes to the callback
+   * @param nonce - Value the provider embeds in the ID token
+   * @param codeChallenge - PKCE challenge of the verifier kept for the code exchange
+   * @returns Authorization URL the browser is redirected to
+   * @throws {AppError} When the provider cannot be reached (502)
+   */
+  public async buildAuthorizationUrl(state: string, nonce: string, codeChallenge: string): Promise<string> {
+    const metadata = await this.discovery.discover();
+
+    const authorizationUrl = new URL(metadata.authorization_endpoint);
+    authorizationUrl.searchParams.set('response_type', 'code');
+    authorizationUrl.searchParams.set('client_id', this.provider.clientId);
+    authorizationUrl.searchParams.set('redirect_uri', this.redirectUri);
+    authorizationUrl.searchParams.set('scope', this.provider.scopes);
+    authorizationUrl.searchParams.set('state', state);
+    authorizationUrl.searchParams.set('nonce', nonce);
+    authorizationUrl.searchParams.set('code_challenge', codeChallenge);
+    authorizationUrl.searchParams.set('code_challenge_method', 'S256');
+    return authorizationUrl.toString();
+  }
+
+  /**
+   * Exchanges an authorization code for the identity of the user.
+   *
+   * @param code - Authorization code received by the callback
+   * @param codeVerifier - PKCE verifier kept since the sign-in started
+   * @param nonce - Nonce sent when the sign-in started
+   * @param now - Current timestamp in milliseconds, used to check the ID token expiry
+   * @returns Identity asserted by the verified ID token
+   * @throws {AppError} When the code or the ID token is rejected (401) or the provider cannot be reached (502)
+   */
+  public async exchangeCode(code: string, codeVerifier: string, nonce: string, now: number): Promise<OidcIdentity> {
+    const metadata = await this.discovery.discover();
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json'
+    };
+    const body = new URLSearchParams([
+      ['grant_type', 'authorization_code'],
+      ['code', code],
+      ['redirect_uri', this.redirectUri],
+      ['code_verifier', codeVerifier],
+      ['client_id', this.provider.clientId]
+    ]);
+    if (this.provider.clientSecret) {
+      // client_secret_basic: both parts are form-encoded before base64 (RFC 6749 section 2.3.1)
+      const credentials = `${encodeURIComponent(this.provider.clientId)}:${encodeURIComponent(this.provider.clientSecret)}`;
+      headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const response = await this.discovery.request(metadata.token_endpoint, { method: 'POST', headers, body });
+    if (!response.ok) {
+      throw new AppError(AUTHENTICATION_FAILED_MESSAGE, 401);
+    }
+
+    const tokens = await this.discovery.readJson<{ id_token?: unknown }>(response);
+    if (typeof tokens.id_token !== 'string') {
+      throw new AppError(AUTHENTICATION_FAILED_MESSAGE, 401);
+    }
+
+    return this.verifyIdToken(tokens.id_token, nonce, now);
+  }
+
+  /**
+   * Verifies an ID token and extracts the identity it asserts.
+   */
+  private async verifyIdToken(idToken: string, nonce: string, now: number): Promise<OidcIdentity> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new AppError(AUTHENTICATION_FAILED_MESSAGE, 401);
+    }
+
+    const key = await this.discovery.findSigningKey(decoded.header.kid);
+    if (!key) {
+      throw new AppError(AUTHENTICATION_FAILED_MESSAGE, 401);
+    }
+
+    let claims: jwt.JwtPayload;
+    try {
+      claims = jwt.verify(idToken, key, {
+        algorithms: ID_TOKEN_ALGORITHMS,
+        issuer: this.provider.issuer,
+        audience: this.provider.clientId,
+        clockTimestamp: Math.floor(now / 1000)
+      }) as jwt.JwtPayload;
+    } catch (_error) {
+      throw new AppError(AUTHENTICATION_FAILED_MESSAGE, 401);
+    }
+
+    if (claims.nonce !== nonce || typeof claims.sub !== 'string' || claims.sub.length === 0) {
+      throw new AppError(AUTHENTICATION_FAILED_MESSAGE, 401);
+    }
+    // A token issued to several audiences must name this client as authorized party
+    if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims.azp !== this.provider.clientId) {
+      throw new AppError(AUTHENTICATION_FAILED_MESSAGE, 401);
+    }
+
+    return {
+      subject: claims.sub,
+      email: typeof claims.email === 'string' && claims.email_verified === true ? claims.email.toLowerCase() : null,
+      preferredUsername: typeof claims.preferred_username === 'string' ? claims.preferred_username : null
+    };
+  }
+}
@@ -0,0 +1,161 @@
+import { createPublicKey, JsonWebKey, KeyObject } from 'crypto';
+import { AppError } from '../setup/middleware/errorHandler';
+
+/**
+ * Provider endpoints read from the discovery document.
+ */
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+/**
+ * Signing key of the provider, identified by its key ID when it has one.
+ */
+interface SigningKey {
+  kid?: string;
+  key: KeyObject;
+}
+
+/** Maximum time a request to the provider may take in milliseconds */
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+export const PROVIDER_UNAVAILABLE_MESSAGE = 'OIDC provider is unavailable';
+
+/**
+ * Discovery document and signing keys of an OpenID Connect issuer.
+ *
+ * Both are loaded on first use and cached. A failed discovery is retried on
+ * the next use; a key ID missing from the cache reloads the key set once, to
+ * follow key rotation.
+ */
+export class OidcDiscovery {
+  /** Issuer URL, compared exactly with the issuer of the discovery document */
+  private readonly issuer: string;
+
+  /** Cached discovery document, reset when loading fails */
+  private metadata: Promise<OidcProviderMetadata> | null = null;
+
+  /** Cached signing keys of the provider */
+  private signingKeys: SigningKey[] = [];
+
+  /**
+   * @param issuer - Issuer URL of the provider
+   */
+  constructor(issuer: string) {
+    this.issuer = issuer;
+  }
+
+  /**
+   * Returns the discovery document, loading it on first use.
+   *
+   * @returns Provider endpoints
+   * @throws {AppError} When the document cannot be loaded or names another issuer (502)
+   */
+  public discover(): Promise<OidcProviderMetadata> {
+    if (!this.metadata) {
+      this.metadata = this.loadMetadata().catch((error: unknown) => {
+        this.metadata = null; // Retry on the next sign-in
+        throw error;
+      });
+    }
+    return this.metadata;
+  }
+
+  /**
+   * Returns the key a token was signed with, reloading the key set once when it is unknown.
+   * Tokens without key ID are only accepted while the provider publishes a single key.
+   *
+   * @param kid - Key ID of the token header
+   * @returns The signing key, or null when the provider does not publish it
+   * @throws {AppError} When the key set cannot be loaded (502)
+   */
+  public async findSigningKey(kid: string | undefined): Promise<KeyObject | null> {
+    const pick = (): KeyObject | undefined => kid
+      ? this.signingKeys.find(signingKey => signingKey.kid === kid)?.key
+      : this.signingKeys.length === 1 ? this.signingKeys[0].key : undefined;
+
+    const key = pick();
+    if (key) {
+      return key;
+    }
+    await this.loadSigningKeys();
+    return pick() ?? null;
+  }
+
+  /**
+   * Sends a request to the provider, turning network failures and timeouts into 502 errors.
+   *
+   * @param url - Endpoint of the provider
+   * @param init - Request options
+   * @returns The response, whatever its status
+   */
+  public async request(url: string, init: RequestInit): Promise<Response> {
+    try {
+      return await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    } catch (_error) {
+      throw new AppError(PROVIDER_UNAVAILABLE_MESSAGE, 502);
+    }
+  }
+
+  /**
+   * Parses a JSON response of the provider, turning malformed bodies into 502 errors.
+   *
+   * @param response - Response of the provider
+   * @returns The parsed body
+   */
+  public async readJson<T>(response: Response): Promise<T> {
+    try {
+      return await response.json() as T;
+    } catch (_error) {
+      throw new AppError(PROVIDER_UNAVAILABLE_MESSAGE, 502);
+    }
+  }
+
+  /**
+   * Loads the signing keys from the key set of the provider.
+   */
+  private async loadSigningKeys(): Promise<void> {
+    const metadata = await this.discover();
+    const response = await this.request(metadata.jwks_uri, { headers: { 'Accept': 'application/json' } });
+    if (!response.ok) {
+      throw new AppError(PROVIDER_UNAVAILABLE_MESSAGE, 502);
+    }
+
+    const jwks = await this.readJson<{ keys?: (JsonWebKey & { kid?: string; use?: string })[] }>(response);
+    this.signingKeys = (jwks.keys ?? [])
+      .filter(jwk => jwk.use === undefined || jwk.use === 'sig')
+      .flatMap(jwk => {
+        try {
+          return [{ kid: jwk.kid, key: createPublicKey({ key: jwk, format: 'jwk' }) }];
+        } catch (_error) {
+          return []; // Skip key types Node.js cannot import
+        }
+      });
+  }
+
+  /**
+   * Loads and validates the discovery document.
+   */
+  private async loadMetadata(): Promise<OidcProviderMetadata> {
+    const discoveryUrl = `${this.issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`;
+    const response = await this.request(discoveryUrl, { headers: { 'Accept': 'application/json' } });
+    if (!response.ok) {
+      throw new AppError(PROVIDER_UNAVAILABLE_MESSAGE, 502);
+    }
+
+    const metadata = await this.readJson<Partial<OidcProviderMetadata>>(response);
+    // The issuer must match exactly, otherwise ID tokens of another issuer could be accepted
+    if (
+      metadata.issuer !== this.issuer ||
+      typeof metadata.authorization_endpoint !== 'string' ||
+      typeof metadata.token_endpoint !== 'string' ||
+      typeof metadata.jwks_uri !== 'string'
+    ) {
+      throw new AppError(PROVIDER_UNAVAILABLE_MESSAGE, 502);
+    }
+    return metadata as OidcProviderMetadata;
+  }
+}
@@ -0,0 +1,44 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Generated one-time token together with the hash to store.
+ */
+export interface OneTimeToken {
+  /** Plain token, handed to the user and never stored */
+  token: string;
+
+  /** SHA-256 hash of the token, stored in the database for lookups */
+  tokenHash: string;
+}
+
+/**
+ * Service class for random one-time tokens such as password reset tokens.
+ * 
+ * Tokens carry 256 bits of cryptographic randomness, so a fast unsalted
+ * SHA-256 hash is enough to protect them at rest (unlike passwords, they
+ * cannot be guessed from a dictionary) while still allowing lookups by hash.
+ */
+export class OneTimeTokenService {
+  /** Length of the random token in bytes */
+  private static readonly TOKEN_LENGTH = 32;
+
+  /**
+   * Generates a new random token and its hash.
+   * 
+   * @returns Plain token (64 hex characters) and its SHA-256 hash
+   */
+  public static generate(): OneTimeToken {
+    const token = randomBytes(this.TOKEN_LENGTH).toString('hex');
+    return { token, tokenHash: this.hash(token) };
+  }
+
+  /**
+   * Hashes a token presented by a user for lookup.
+   * 
+   * @param token - Plain token
+   * @returns SHA-256 hash of the token as hex string
+   */
+  public static hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,256 @@
+import * as net from 'net';
+import * as tls from 'tls';
+import { Mailer, MailMessage, formatMailMessage } from './Mailer';
+import { TimestampProducer } from './TimestampProducer';
+
+/**
+ * Connection settings of the SMTP server.
+ */
+export interface SmtpMailerOptions {
+  /** SMTP server host name */
+  host: string;
+
+  /** SMTP server port (e.g. 25, 465, 1025 for local catchers) */
+  port: number;
+
+  /** Whether to connect with implicit TLS (SMTPS, usually port 465) */
+  secure: boolean;
+
+  /** Username for AUTH PLAIN (authentication is skipped when empty) */
+  username: string;
+
+  /** Password for AUTH PLAIN */
+  password: string;
+
+  /** Whether AUTH may be sent over a connection that is not encrypted (trusted networks only) */
+  allowInsecureAuth: boolean;
+
+  /** Extra TLS settings, e.g. `ca` to trust a server with a self-signed certificate */
+  tlsOptions?: tls.ConnectionOptions;
+
+  /** Sender address used in the envelope and From header */
+  from: string;
+
+  /** Socket inactivity timeout in milliseconds */
+  timeoutMs: number;
+}
+
+/**
+ * Reply received from the SMTP server.
+ */
+interface SmtpReply {
+  /** Three-digit reply code */
+  code: number;
+
+  /** Reply text, one line per reply line */
+  text: string;
+}
+
+/**
+ * Line-oriented SMTP conversation over a single socket.
+ *
+ * Buffers incoming data and hands out complete (possibly multi-line)
+ * replies one at a time. Socket errors, timeouts and unexpected closes
+ * reject the pending read.
+ */
+class SmtpConnection {
+  private buffer = '';
+  private failure: Error | null = null;
+  private wakeUp: (() => void) | null = null;
+
+  public constructor(private readonly socket: net.Socket, private readonly timeoutMs: number) {
+    socket.setEncoding('utf8');
+    socket.setTimeout(timeoutMs);
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      this.notify();
+    });
+    socket.on('timeout', () => socket.destroy(new Error('SMTP connection timed out')));
+    socket.on('error', (error: Error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed unexpectedly')));
+  }
+
+  /**
+   * Sends a command and checks the reply code.
+   */
+  public async command(line: string, expectedCodes: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expectedCodes);
+  }
+
+  /**
+   * Reads the next reply and checks its code.
+   */
+  public async expect(expectedCodes: number[]): Promise<SmtpReply> {
+    const reply = await this.readReply();
+    if (!expectedCodes.includes(reply.code)) {
+      throw new Error(`SMTP server replied ${reply.code}: ${reply.text}`);
+    }
+    return reply;
+  }
+
+  /**
+   * Whether the conversation is encrypted with TLS.
+   */
+  public get isEncrypted(): boolean {
+    return this.socket instanceof tls.TLSSocket;
+  }
+
+  /**
+   * Upgrades the connection to TLS once the server accepted STARTTLS.
+   *
+   * The plain socket is handed over to the TLS socket, which carries the
+   * rest of the conversation.
+   *
+   * @param options - TLS settings, including the server name to verify
+   * @returns Connection over the encrypted socket
+   * @throws {Error} When the handshake fails or the certificate is not trusted
+   */
+  public async startTls(options: tls.ConnectionOptions): Promise<SmtpConnection> {
+    this.socket.removeAllListeners('data');
+    this.socket.setTimeout(0);
+    const secureSocket = tls.connect({ ...options, socket: this.socket });
+    await new Promise<void>((resolve, reject) => {
+      secureSocket.once('secureConnect', resolve);
+      secureSocket.once('error', reject);
+    });
+    return new SmtpConnection(secureSocket, this.timeoutMs);
+  }
+
+  /**
+   * Closes the socket.
+   */
+  public close(): void {
+    this.socket.destroy();
+  }
+
+  private async readReply(): Promise<SmtpReply> {
+    for (;;) {
+      const reply = this.takeReply();
+      if (reply) {
+        return reply;
+      }
+      if (this.failure) {
+        throw this.failure;
+      }
+      await new Promise<void>(resolve => {
+        this.wakeUp = resolve;
+      });
+    }
+  }
+
+  /**
+   * Removes the first complete reply from the buffer. The last line of a
+   * reply has a space (or nothing) after the code; other lines have a dash.
+   */
+  private takeReply(): SmtpReply | null {
+    const lines = this.buffer.split('\r\n');
+    for (let i = 0; i < lines.length - 1; i++) {
+      if (/^\d{3}( |$)/.test(lines[i])) {
+        this.buffer = lines.slice(i + 1).join('\r\n');
+        return {
+          code: parseInt(lines[i].slice(0, 3), 10),
+          text: lines.slice(0, i + 1).map(line => line.slice(4)).join('\n')
+        };
+      }
+    }
+    return null;
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    this.notify();
+  }
+
+  private notify(): void {
+    const wakeUp = this.wakeUp;
+    this.wakeUp = null;
+    wakeUp?.();
+  }
+}
+
+/**
+ * Mailer that delivers messages to an SMTP server.
+ *
+ * Implements the minimal client side of RFC 5321 needed to submit a
+ * plain-text message: EHLO, STARTTLS when offered, optional AUTH PLAIN,
+ * MAIL FROM, RCPT TO, DATA and QUIT, over a plain or implicit-TLS
+ * connection. Every message uses a new connection. Credentials are only
+ * sent over an encrypted connection unless `allowInsecureAuth` is set.
+ */
+export class SmtpMailer implements Mailer {
+  /**
+   * Creates a new SMTP mailer.
+   *
+   * @param options - SMTP server connection settings
+   * @param timestampProducer - Producer for the Date header
+   */
+  public constructor(
+    private readonly options: SmtpMailerOptions,
+    private readonly timestampProducer: TimestampProducer
+  ) {}
+
+  /**
+   * Submits the message to the SMTP server.
+   *
+   * @param message - Message to deliver
+   * @throws {Error} When the connection fails or the server rejects a command
+   */
+  public async send(message: MailMessage): Promise<void> {
+    const rawMessage = formatMailMessage(this.options.from, message, this.timestampProducer.getNow());
+    let connection = new SmtpConnection(this.connect(), this.options.timeoutMs);
+
+    try {
+      await connection.expect([220]);
+      const greeting = await connection.command(`EHLO ${this.heloName()}`, [250]);
+      if (!connection.isEncrypted && this.offersStartTls(greeting.text)) {
+        await connection.command('STARTTLS', [220]);
+        connection = await connection.startTls(this.tlsOptions());
+        // The server forgets what was negotiated before TLS, so the client greets it again
+        await connection.command(`EHLO ${this.heloName()}`, [250]);
+      }
+      if (this.options.username) {
+        if (!connection.isEncrypted && !this.options.allowInsecureAuth) {
+          throw new Error('SMTP server does not offer STARTTLS, refusing to send credentials unencrypted');
+        }
+        const credentials = Buffer.from(`\0${this.options.username}\0${this.options.password}`, 'utf8');
+        await connection.command(`AUTH PLAIN ${credentials.toString('base64')}`, [235]);
+      }
+      await connection.command(`MAIL FROM:<${this.options.from}>`, [250]);
+      await connection.command(`RCPT TO:<${message.to}>`, [250, 251]);
+      await connection.command('DATA', [354]);
+      // Lines starting with a dot are escaped so they cannot end the DATA section early
+      await connection.command(`${rawMessage.replace(/^\./gm, '..')}\r\n.`, [250]);
+      await connection.command('QUIT', [221]);
+    } finally {
+      connection.close();
+    }
+  }
+
+  private connect(): net.Socket {
+    const { host, port, secure } = this.options;
+    return secure ? tls.connect({ ...this.tlsOptions(), host, port }) : net.connect({ host, port });
+  }
+
+  /**
+   * TLS settings verifying the certificate against the configured host.
+   */
+  private tlsOptions(): tls.ConnectionOptions {
+    const { host, tlsOptions } = this.options;
+    return { ...tlsOptions, servername: net.isIP(host) ? undefined : host };
+  }
+
+  /**
+   * Whether the EHLO reply lists the STARTTLS extension.
+   */
+  private offersStartTls(ehloText: string): boolean {
+    return ehloText.split('\n').some(line => line.trim().toUpperCase() === 'STARTTLS');
+  }
+
+  /**
+   * Domain announced in EHLO, taken from the sender address.
+   */
+  private heloName(): string {
+    return this.options.from.split('@')[1] || 'localhost';
+  }
+}
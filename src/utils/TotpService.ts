@@ -0,0 +1,186 @@
+import { createHmac, randomBytes } from 'crypto';
+import { OneTimeTokenService } from './OneTimeTokenService';
+
+/**
+ * Generated recovery code together with the hash to store.
+ */
+export interface RecoveryCode {
+  /** Plain code, shown to the user once and never stored */
+  code: string;
+
+  /** SHA-256 hash of the normalized code, stored in the database */
+  codeHash: string;
+}
+
+/**
+ * Service class for RFC 6238 time-based one-time passwords (TOTP).
+ *
+ * Uses the parameters understood by common authenticator apps: HMAC-SHA1,
+ * 6 digits and a 30 second period. Codes from the previous and the next
+ * period are accepted to tolerate clock drift; callers prevent replays by
+ * remembering the last time step that was used.
+ *
+ * Also generates the recovery codes that replace a TOTP code when the
+ * authenticator is lost. Recovery codes carry 80 bits of randomness, so like
+ * one-time tokens they are stored as plain SHA-256 hashes.
+ */
+export class TotpService {
+  /** RFC 4648 base32 alphabet used for secrets in otpauth URIs */
+  private static readonly BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+  /** Length of the shared secret in bytes (160 bits, as recommended for HMAC-SHA1) */
+  private static readonly SECRET_LENGTH = 20;
+
+  /** Number of digits of a code */
+  private static readonly DIGITS = 6;
+
+  /** Duration of a time step in milliseconds */
+  private static readonly PERIOD_MS = 30 * 1000;
+
+  /** Number of time steps accepted before and after the current one */
+  private static readonly WINDOW = 1;
+
+  /** Number of recovery codes generated at enrollment */
+  private static readonly RECOVERY_CODE_COUNT = 10;
+
+  /** Length of the random part of a recovery code in bytes */
+  private static readonly RECOVERY_CODE_LENGTH = 10;
+
+  /**
+   * Generates a new random shared secret.
+   *
+   * @returns Base32 encoded secret (32 characters)
+   */
+  public static generateSecret(): string {
+    return this.base32Encode(randomBytes(this.SECRET_LENGTH));
+  }
+
+  /**
+   * Builds the otpauth URI that authenticator apps import (usually as QR code).
+   *
+   * @param issuer - Service name displayed by the authenticator app
+   * @param accountName - Account name displayed by the authenticator app
+   * @param secret - Base32 encoded shared secret
+   * @returns otpauth://totp URI
+   */
+  public static buildUri(issuer: string, accountName: string, secret: string): string {
+    const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+    const params = new URLSearchParams({
+      secret,
+      issuer,
+      algorithm: 'SHA1',
+      digits: String(this.DIGITS),
+      period: String(this.PERIOD_MS / 1000)
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  /**
+   * Computes the code of a time step.
+   *
+   * @param secret - Base32 encoded shared secret
+   * @param step - Time step (milliseconds since epoch divided by the period)
+   * @returns Zero-padded code
+   */
+  public static generateCode(secret: string, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+    const hmac = createHmac('sha1', this.base32Decode(secret)).update(counter).digest();
+
+    // Dynamic truncation (RFC 4226 section 5.3)
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+    return String(binary % 10 ** this.DIGITS).padStart(this.DIGITS, '0');
+  }
+
+  /**
+   * Returns the time step containing a timestamp.
+   *
+   * @param now - Timestamp in milliseconds
+   * @returns Time step
+   */
+  public static stepAt(now: number): number {
+    return Math.floor(now / this.PERIOD_MS);
+  }
+
+  /**
+   * Finds the time step a code belongs to.
+   *
+   * @param secret - Base32 encoded shared secret
+   * @param code - Code entered by the user
+   * @param now - Current timestamp in milliseconds
+   * @returns Matching time step, or null if the code is not valid around now
+   */
+  public static matchStep(secret: string, code: string, now: number): number | null {
+    if (!new RegExp(`^\\d{${this.DIGITS}}$`).test(code)) {
+      return null;
+    }
+
+    const currentStep = this.stepAt(now);
+    for (let step = currentStep - this.WINDOW; step <= currentStep + this.WINDOW; step++) {
+      if (this.generateCode(secret, step) === code) {
+        return step;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Generates a new set of recovery codes.
+   *
+   * @returns Recovery codes formatted as four dash-separated groups (e.g. "k3mf-q8zt-a2bc-7dex")
+   */
+  public static generateRecoveryCodes(): RecoveryCode[] {
+    return Array.from({ length: this.RECOVERY_CODE_COUNT }, () => {
+      const code = this.base32Encode(randomBytes(this.RECOVERY_CODE_LENGTH)).toLowerCase().match(/.{4}/g)!.join('-');
+      return { code, codeHash: this.hashRecoveryCode(code) };
+    });
+  }
+
+  /**
+   * Hashes a recovery code for lookup. Case, spaces and dashes are ignored.
+   *
+   * @param code - Recovery code as entered by the user
+   * @returns SHA-256 hash of the normalized code as hex string
+   */
+  public static hashRecoveryCode(code: string): string {
+    return OneTimeTokenService.hash(code.toLowerCase().replace(/[\s-]/g, ''));
+  }
+
+  private static base32Encode(data: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of data) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        output += this.BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+    if (bits > 0) {
+      output += this.BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+  }
+
+  private static base32Decode(encoded: string): Buffer {
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+    for (const char of encoded.toUpperCase().replace(/=+$/, '')) {
+      const index = this.BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new Error('Invalid base32 character in TOTP secret');
+      }
+      value = (value << 5) | index;
+      bits += 5;
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 255);
+        bits -= 8;
+      }
+    }
+    return Buffer.from(bytes);
+  }
+}
@@ -0,0 +1,80 @@
+import { setupIntegrationTest } from '../../../setup';
+import { JobLockDAOMongoDB } from '../../../../../src/domain/mongodb/dao/JobLockDAOMongoDB';
+import { JobLockMongoDB } from '../../../../../src/domain/mongodb/entities/JobLockMongoDB';
+
+describe('JobLockDAOMongoDB', () => {
+  const jobLockDAO = new JobLockDAOMongoDB();
+  const now = Date.now();
+  const leaseEnd = new Date(now + 60 * 1000);
+
+  beforeAll(async () => {
+    await setupIntegrationTest();
+  });
+
+  // The unique name index must exist for concurrent acquisitions to conflict
+  beforeEach(async () => {
+    await JobLockMongoDB.init();
+    await JobLockMongoDB.deleteMany({});
+  });
+
+  it('should take a free lock', async () => {
+    expect(await jobLockDAO.acquireLock('cleanup', 'instance-1', leaseEnd, now)).toBe(true);
+
+    const lock = await JobLockMongoDB.findOne({ name: 'cleanup' }).lean();
+    expect(lock).toEqual(expect.objectContaining({ owner: 'instance-1', lockedUntil: leaseEnd }));
+  });
+
+  it('should let the holder renew its lease', async () => {
+    await jobLockDAO.acquireLock('cleanup', 'instance-1', leaseEnd, now);
+
+    const renewedUntil = new Date(leaseEnd.getTime() + 60 * 1000);
+    expect(await jobLockDAO.acquireLock('cleanup', 'instance-1', renewedUntil, now + 1000)).toBe(true);
+
+    const lock = await JobLockMongoDB.findOne({ name: 'cleanup' }).lean();
+    expect(lock?.lockedUntil).toEqual(renewedUntil);
+  });
+
+  it('should refuse a lock held by another instance', async () => {
+    await jobLockDAO.acquireLock('cleanup', 'instance-1', leaseEnd, now);
+
+    expect(await jobLockDAO.acquireLock('cleanup', 'instance-2', leaseEnd, now + 1000)).toBe(false);
+
+    const lock = await JobLockMongoDB.findOne({ name: 'cleanup' }).lean();
+    expect(lock?.owner).toBe('instance-1');
+  });
+
+  it('should hand an expired lease over to another instance', async () => {
+    await jobLockDAO.acquireLock('cleanup', 'instance-1', leaseEnd, now);
+
+    expect(await jobLockDAO.acquireLock(
+      'cleanup', 'instance-2', new Date(leaseEnd.getTime() + 60 * 1000), leaseEnd.getTime()
+    )).toBe(true);
+  });
+
+  it('should release a lease so another instance can take it at once', async () => {
+    await jobLockDAO.acquireLock('cleanup', 'instance-1', leaseEnd, now);
+
+    expect(await jobLockDAO.releaseLock('cleanup', 'instance-1')).toBe(true);
+
+    expect(await JobLockMongoDB.findOne({ name: 'cleanup' }).lean()).toBeNull();
+    expect(await jobLockDAO.acquireLock('cleanup', 'instance-2', leaseEnd, now + 1000)).toBe(true);
+  });
+
+  it('should not release a lease taken over by another instance', async () => {
+    await jobLockDAO.acquireLock('cleanup', 'instance-1', leaseEnd, now);
+    await jobLockDAO.acquireLock('cleanup', 'instance-2', new Date(leaseEnd.getTime() + 60 * 1000), leaseEnd.getTime());
+
+    expect(await jobLockDAO.releaseLock('cleanup', 'instance-1')).toBe(false);
+
+    const lock = await JobLockMongoDB.findOne({ name: 'cleanup' }).lean();
+    expect(lock?.owner).toBe('instance-2');
+  });
+
+  it('should grant a free lock to only one of concurrent instances', async () => {
+    const results = await Promise.all(['instance-1', 'instance-2', 'instance-3'].map(owner =>
+      jobLockDAO.acquireLock('cleanup', owner, leaseEnd, now)
+    ));
+
+    expect(results.filter(acquired => acquired)).toHaveLength(1);
+  });
+});
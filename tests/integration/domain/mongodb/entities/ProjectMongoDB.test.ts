@@ -0,0 +1,60 @@
+import mongoose from 'mongoose';
+import { setupIntegrationTest } from '../../../setup';
+import { migrateProjectOwners, ProjectMongoDB } from '../../../../../src/domain/mongodb/entities/ProjectMongoDB';
+
+describe('migrateProjectOwners', () => {
+  const legacyProject = (userId: mongoose.Types.ObjectId, name: string) => ({
+    name,
+    gitUrl: 'https://github.com/user/legacy.git',
+    userId,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+
+  beforeAll(async () => {
+    await setupIntegrationTest();
+    await ProjectMongoDB.init();
+  });
+
+  // The projects collection is shared with the endpoint tests, so only records inserted here are inspected
+  it('should make the creator the owner of projects stored before organizations', async () => {
+    const userId = new mongoose.Types.ObjectId();
+    await ProjectMongoDB.collection.insertMany([
+      legacyProject(userId, 'legacy-one'),
+      legacyProject(userId, 'legacy-two')
+    ]);
+
+    expect(await migrateProjectOwners()).toBeGreaterThanOrEqual(2);
+
+    const projects = await ProjectMongoDB.find({ userId }).lean().exec();
+    expect(projects).toHaveLength(2);
+    projects.forEach(project => {
+      expect(project.ownerId.toString()).toBe(userId.toString());
+      expect(project.organizationId).toBeNull();
+    });
+  });
+
+  it('should leave projects that already have an owner untouched', async () => {
+    const userId = new mongoose.Types.ObjectId();
+    const organizationId = new mongoose.Types.ObjectId();
+    await ProjectMongoDB.collection.insertOne({
+      ...legacyProject(userId, 'organization-project'),
+      organizationId,
+      ownerId: organizationId
+    });
+
+    await migrateProjectOwners();
+
+    const project = await ProjectMongoDB.findOne({ userId }).lean().exec();
+    expect(project?.ownerId.toString()).toBe(organizationId.toString());
+    expect(project?.organizationId?.toString()).toBe(organizationId.toString());
+  });
+
+  it('should keep the owner unique index', async () => {
+    await migrateProjectOwners();
+
+    const indexes = await ProjectMongoDB.collection.indexes();
+    expect(indexes.find(index => index.key.ownerId === 1 && index.key.name === 1)?.unique).toBe(true);
+    expect(indexes.filter(index => index.unique && index.key.userId !== undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,30 @@
+import { setupIntegrationTest } from '../../../setup';
+import { migrateUserEmailIndex, UserMongoDB } from '../../../../../src/domain/mongodb/entities/UserMongoDB';
+
+describe('migrateUserEmailIndex', () => {
+  beforeAll(async () => {
+    await setupIntegrationTest();
+    await UserMongoDB.init();
+  });
+
+  // The users collection is shared with the endpoint tests, so the legacy index only covers an address no test uses
+  it('should drop unique email indexes that also cover unverified addresses', async () => {
+    await UserMongoDB.collection.createIndex(
+      { email: 1 },
+      { unique: true, name: 'email_1', partialFilterExpression: { email: 'legacy-index@example.com' } }
+    );
+
+    expect(await migrateUserEmailIndex()).toBe(1);
+
+    const indexes = await UserMongoDB.collection.indexes();
+    expect(indexes.find(index => index.name === 'email_1')).toBeUndefined();
+  });
+
+  it('should keep the unique index on verified email addresses', async () => {
+    expect(await migrateUserEmailIndex()).toBe(0);
+
+    const indexes = await UserMongoDB.collection.indexes();
+    const verifiedEmailIndex = indexes.find(index => index.unique && index.key.email === 1);
+    expect(verifiedEmailIndex?.partialFilterExpression).toEqual({ isEmailVerified: true });
+  });
+});
@@ -0,0 +1,86 @@
+import mongoose from 'mongoose';
+import { setupIntegrationTest } from '../../../setup';
+import {
+  addTokenIndexes, createBaseTokenSchema, hashToken, migrateLegacyTokenRecords
+} from '../../../../../src/domain/mongodb/utils/BaseTokenMongoDB';
+
+describe('migrateLegacyTokenRecords', () => {
+  const schema = createBaseTokenSchema('legacy_token_migration');
+  addTokenIndexes(schema);
+  const TokenModel = mongoose.model('LegacyTokenMigration', schema);
+
+  const tokenRecord = (fields: object) => ({
+    userId: new mongoose.Types.ObjectId(),
+    familyId: 'family',
+    expiresAt: new Date(Date.now() + 60 * 1000),
+    isRevoked: false,
+    ...fields
+  });
+
+  beforeAll(async () => {
+    await setupIntegrationTest();
+  });
+
+  // Drop the collection once the schema indexes are built, so each test starts before any record exists
+  beforeEach(async () => {
+    await TokenModel.init();
+    await TokenModel.collection.drop().catch(() => undefined);
+  });
+
+  it('should do nothing before the collection exists', async () => {
+    expect(await migrateLegacyTokenRecords(TokenModel)).toBe(0);
+  });
+
+  it('should delete the records stored before token hashes and drop their indexes', async () => {
+    await TokenModel.collection.insertMany([
+      tokenRecord({ token: 'legacy.token' }),
+      tokenRecord({ jti: '0f8c2f4e-6b1d-4c3a-9e7f-2d5b8a1c4e60', isRevoked: true }),
+      tokenRecord({ tokenHash: hashToken('current.token') })
+    ]);
+    await TokenModel.collection.createIndex({ token: 1 }, { unique: true, sparse: true });
+    await TokenModel.collection.createIndex({ jti: 1 }, { unique: true, sparse: true });
+    await TokenModel.collection.createIndex({ jti: 1, isRevoked: 1 });
+
+    expect(await migrateLegacyTokenRecords(TokenModel)).toBe(2);
+
+    const indexes = await TokenModel.collection.indexes();
+    expect(indexes.filter(index => index.key.token !== undefined || index.key.jti !== undefined)).toEqual([]);
+    expect(indexes.find(index => index.name === 'tokenHash_1')?.unique).toBe(true);
+
+    const records = await TokenModel.find().lean().exec();
+    expect(records).toHaveLength(1);
+    expect(records[0].tokenHash).toBe(hashToken('current.token'));
+  });
+
+  it('should leave current records untouched when run again', async () => {
+    await TokenModel.collection.insertMany([
+      tokenRecord({ token: 'legacy.token' }),
+      tokenRecord({ tokenHash: hashToken('current.token') })
+    ]);
+
+    expect(await migrateLegacyTokenRecords(TokenModel)).toBe(1);
+    expect(await migrateLegacyTokenRecords(TokenModel)).toBe(0);
+
+    expect(await TokenModel.countDocuments({ tokenHash: hashToken('current.token') }).exec()).toBe(1);
+  });
+
+  it('should succeed when run by several replicas at once', async () => {
+    await TokenModel.collection.insertOne(tokenRecord({ token: 'legacy.token' }));
+    await TokenModel.collection.createIndex({ token: 1 }, { unique: true });
+
+    const deleted = await Promise.all([migrateLegacyTokenRecords(TokenModel), migrateLegacyTokenRecords(TokenModel)]);
+
+    expect(deleted[0] + deleted[1]).toBe(1);
+    expect(await TokenModel.countDocuments().exec()).toBe(0);
+  });
+
+  it('should accept new records once the legacy unique index is gone', async () => {
+    await TokenModel.collection.insertOne(tokenRecord({ token: 'legacy.token' }));
+    await TokenModel.collection.createIndex({ token: 1 }, { unique: true });
+
+    await migrateLegacyTokenRecords(TokenModel);
+    await TokenModel.create([tokenRecord({ tokenHash: 'first' }), tokenRecord({ tokenHash: 'second' })]);
+
+    expect(await TokenModel.countDocuments().exec()).toBe(2);
+  });
+});
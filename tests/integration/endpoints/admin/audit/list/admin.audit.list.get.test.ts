@@ -0,0 +1,138 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse } from '../../../../helpers';
+import { createAdminAndGetToken, createRegularUser } from '../../users/adminHelpers';
+import { createTestProject } from '../../../project/projectHelpers';
+
+describe('Admin Audit List Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('GET /admin/audit', () => {
+    it('should record registration and login of a user', async () => {
+      const admin = await createAdminAndGetToken(context);
+      const { user } = await createRegularUser(context);
+
+      const response = await request(context.app)
+        .get(`/admin/audit?actorId=${user.id}`)
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(200);
+
+      expect(response.body.currentPage).toBe(1);
+      expect(response.body.limit).toBe(10);
+      expect(response.body.auditLogs.map((entry: { action: string }) => entry.action))
+        .toEqual(['auth.login', 'user.register']);
+
+      const registration = response.body.auditLogs[1];
+      expect(registration.targetId).toBe(user.id);
+      expect(registration.actor.username).toBe(user.username);
+      expect(typeof registration.actor.ip).toBe('string');
+      expect(registration.changes.before).toBeNull();
+      expect(registration.changes.after).toEqual({ username: user.username, email: null, roles: ['user'] });
+    });
+
+    it('should record failed logins without the password', async () => {
+      const admin = await createAdminAndGetToken(context);
+      const { user, credentials } = await createRegularUser(context);
+
+      await request(context.app)
+        .post('/auth/login')
+        .set('User-Agent', 'audit-test-agent')
+        .send({ username: credentials.username, password: 'WrongPassword123!' })
+        .expect(401);
+
+      const response = await request(context.app)
+        .get(`/admin/audit?actorId=${user.id}&action=auth.login_failed`)
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(200);
+
+      expect(response.body.total).toBe(1);
+      expect(response.body.auditLogs[0].actor.userAgent).toBe('audit-test-agent');
+      expect(JSON.stringify(response.body.auditLogs[0])).not.toContain('WrongPassword123!');
+    });
+
+    it('should record only the changed fields of a project update', async () => {
+      const admin = await createAdminAndGetToken(context);
+      const { token } = await createRegularUser(context);
+      const project = createTestProject();
+
+      const createResponse = await request(context.app)
+        .post('/project')
+        .set('Authorization', `Bearer ${token}`)
+        .send(project)
+        .expect(201);
+      const projectId = createResponse.body.id;
+
+      await request(context.app)
+        .put(`/project/${projectId}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name: `${project.name} renamed`, gitUrl: project.gitUrl })
+        .expect(200);
+
+      await request(context.app)
+        .delete(`/project/${projectId}`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      const response = await request(context.app)
+        .get(`/admin/audit?targetId=${projectId}`)
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(200);
+
+      expect(response.body.auditLogs.map((entry: { action: string }) => entry.action))
+        .toEqual(['project.delete', 'project.update', 'project.create']);
+      expect(response.body.auditLogs[1].changes).toEqual({
+        before: { name: project.name },
+        after: { name: `${project.name} renamed` }
+      });
+      expect(response.body.auditLogs[0].changes.after).toBeNull();
+    });
+
+    it('should filter entries by time range', async () => {
+      const admin = await createAdminAndGetToken(context);
+      const { user } = await createRegularUser(context);
+
+      const response = await request(context.app)
+        .get(`/admin/audit?actorId=${user.id}&to=${encodeURIComponent('2000-01-01T00:00:00.000Z')}`)
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(200);
+
+      expect(response.body.total).toBe(0);
+      expect(response.body.auditLogs).toEqual([]);
+    });
+
+    it('should reject unknown actions', async () => {
+      const admin = await createAdminAndGetToken(context);
+
+      const response = await request(context.app)
+        .get('/admin/audit?action=project.explode')
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'action must be one of');
+    });
+
+    it('should reject invalid dates', async () => {
+      const admin = await createAdminAndGetToken(context);
+
+      const response = await request(context.app)
+        .get('/admin/audit?from=yesterday')
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'from must be a valid ISO 8601 date');
+    });
+
+    it('should reject users without the admin role', async () => {
+      const { token } = await createRegularUser(context);
+
+      await request(context.app)
+        .get('/admin/audit')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(403);
+    });
+  });
+});
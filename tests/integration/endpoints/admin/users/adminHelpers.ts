@@ -0,0 +1,57 @@
+import request from 'supertest';
+import { IntegrationTestContext } from '../../../setup';
+import { createTestCredentials } from '../../../helpers';
+import { MongoDBSessionProducer } from '../../../../../src/domain/mongodb/MongoDBSessionProducer';
+
+/**
+ * Admin test utilities
+ */
+
+/**
+ * Register a user, grant it the admin role and log in again so the token carries the role
+ */
+export const createAdminAndGetToken = async (context: IntegrationTestContext) => {
+  const credentials = createTestCredentials();
+
+  const registerResponse = await request(context.app)
+    .post('/auth/register')
+    .send(credentials)
+    .expect(201);
+
+  const dbSession = await new MongoDBSessionProducer().createSession();
+  try {
+    await context.containerDAO.userDAO.updateRoles(dbSession, registerResponse.body.user.id, ['user', 'admin']);
+  } finally {
+    await dbSession.endSession();
+  }
+
+  const loginResponse = await request(context.app)
+    .post('/auth/login')
+    .send(credentials)
+    .expect(200);
+
+  return {
+    user: loginResponse.body.user,
+    token: loginResponse.body.accessToken as string,
+    credentials
+  };
+};
+
+/**
+ * Register a regular user
+ */
+export const createRegularUser = async (context: IntegrationTestContext) => {
+  const credentials = createTestCredentials();
+
+  const response = await request(context.app)
+    .post('/auth/register')
+    .send(credentials)
+    .expect(201);
+
+  return {
+    user: response.body.user,
+    token: response.body.accessToken as string,
+    refreshToken: response.body.refreshToken as string,
+    credentials
+  };
+};
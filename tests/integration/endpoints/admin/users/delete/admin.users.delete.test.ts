@@ -0,0 +1,167 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse } from '../../../../helpers';
+import { createAdminAndGetToken, createRegularUser } from '../adminHelpers';
+import {
+  createTestProject, createProjectViaAPI, addMemberViaAPI, requestTransferViaAPI
+} from '../../../project/projectHelpers';
+import { addOrganizationMemberViaAPI, createOrganizationViaAPI } from '../../../org/orgHelpers';
+
+describe('Admin Users Delete Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('DELETE /admin/users/:userId', () => {
+    it('should delete the user with their projects, sessions and tokens', async () => {
+      const admin = await createAdminAndGetToken(context);
+      const target = await createRegularUser(context);
+
+      const projectResponse = await request(context.app)
+        .post('/project')
+        .set('Authorization', `Bearer ${target.token}`)
+        .send(createTestProject())
+        .expect(201);
+
+      const response = await request(context.app)
+        .delete(`/admin/users/${target.user.id}`)
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(200);
+
+      expect(response.body.message).toBe('User deleted successfully');
+      expect(response.body.deletedProjects).toBe(1);
+
+      expect(await context.containerDAO.userDAO.findById(target.user.id)).toBeNull();
+      expect(await context.containerDAO.projectDAO.findById(projectResponse.body.id)).toBeNull();
+      expect(await context.containerDAO.accessTokenDAO.findAccessToken(target.token)).toBeNull();
+      expect(await context.containerDAO.userSessionDAO.findActiveByUserId(target.user.id)).toEqual([]);
+
+      const { auditLogs } = await context.containerDAO.auditLogDAO.findAuditLogs(
+        { action: 'user.delete', targetId: target.user.id }, 1, 10
+      );
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0].actor.userId).toBe(admin.user.id);
+      expect(auditLogs[0].changes).toEqual({
+        before: { username: target.credentials.username, email: null, roles: ['user'], isDisabled: false },
+        after: null
+      });
+
+      await request(context.app)
+        .get('/project/list')
+        .set('Authorization', `Bearer ${target.token}`)
+        .expect(401);
+
+      await request(context.app)
+        .post('/auth/login')
+        .send(target.credentials)
+        .expect(401);
+    });
+
+    it('should delete the memberships of the user and the members of their projects', async () => {
+      const admin = await createAdminAndGetToken(context);
+      const target = await createRegularUser(context);
+      const other = await createRegularUser(context);
+
+      const ownProjectId = (await createProjectViaAPI(context.app, target.token)).body.id;
+      const sharedProjectId = (await createProjectViaAPI(context.app, other.token)).body.id;
+      await addMemberViaAPI(context.app, target.token, ownProjectId, other.user.username, 'viewer');
+      await addMemberViaAPI(context.app, other.token, sharedProjectId, target.user.username, 'maintainer');
+
+      await request(context.app)
+        .delete(`/admin/users/${target.user.id}`)
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(200);
+
+      expect(await context.containerDAO.projectMemberDAO.findByUserId(target.user.id)).toEqual([]);
+      expect(await context.containerDAO.projectMemberDAO.findByProjectId(ownProjectId)).toEqual([]);
+      expect(await context.containerDAO.projectDAO.findById(sharedProjectId)).not.toBeNull();
+    });
+
+    it('should keep the organizations of the user and their projects', async () => {
+      const admin = await createAdminAndGetToken(context);
+      const target = await createRegularUser(context);
+      const other = await createRegularUser(context);
+
+      const organizationId = (await createOrganizationViaAPI(context.app, other.token)).body.id;
+      await addOrganizationMemberViaAPI(context.app, other.token, organizationId, target.user.username, 'admin');
+      const projectId = (await createProjectViaAPI(
+        context.app, target.token, { ...createTestProject(), organizationId }
+      )).body.id;
+
+      const response = await request(context.app)
+        .delete(`/admin/users/${target.user.id}`)
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(200);
+
+      expect(response.body.deletedProjects).toBe(0);
+      expect(await context.containerDAO.projectDAO.findById(projectId)).not.toBeNull();
+      expect(await context.containerDAO.organizationMemberDAO.findByUserId(target.user.id)).toEqual([]);
+    });
+
+    it('should return 409 for the last owner of an organization', async () => {
+      const admin = await createAdminAndGetToken(context);
+      const target = await createRegularUser(context);
+      const organizationId = (await createOrganizationViaAPI(context.app, target.token)).body.id;
+
+      const response = await request(context.app)
+        .delete(`/admin/users/${target.user.id}`)
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(409);
+
+      validateErrorResponse(response, 409, 'last owner of an organization');
+      expect(await context.containerDAO.userDAO.findById(target.user.id)).not.toBeNull();
+      expect(await context.containerDAO.organizationMemberDAO.findByOrganizationId(organizationId)).toHaveLength(1);
+    });
+
+    it('should drop the pending transfers offered to the user', async () => {
+      const admin = await createAdminAndGetToken(context);
+      const target = await createRegularUser(context);
+      const other = await createRegularUser(context);
+      const projectId = (await createProjectViaAPI(context.app, other.token)).body.id;
+      await requestTransferViaAPI(context.app, other.token, projectId, target.user.username);
+
+      await request(context.app)
+        .delete(`/admin/users/${target.user.id}`)
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(200);
+
+      expect(await context.containerDAO.projectTransferDAO.findByProjectId(projectId)).toBeNull();
+    });
+
+    it('should not let admins delete their own account', async () => {
+      const admin = await createAdminAndGetToken(context);
+
+      const response = await request(context.app)
+        .delete(`/admin/users/${admin.user.id}`)
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'Cannot delete your own account');
+    });
+
+    it('should return 404 for unknown users', async () => {
+      const admin = await createAdminAndGetToken(context);
+
+      const response = await request(context.app)
+        .delete('/admin/users/507f1f77bcf86cd799439099')
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(404);
+
+      validateErrorResponse(response, 404, 'User not found');
+    });
+
+    it('should reject users without the admin role', async () => {
+      const caller = await createRegularUser(context);
+      const target = await createRegularUser(context);
+
+      await request(context.app)
+        .delete(`/admin/users/${target.user.id}`)
+        .set('Authorization', `Bearer ${caller.token}`)
+        .expect(403);
+
+      expect(await context.containerDAO.userDAO.findById(target.user.id)).not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse } from '../../../../helpers';
+import { createAdminAndGetToken, createRegularUser } from '../adminHelpers';
+
+describe('Admin Users Disable Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('POST /admin/users/:userId/disable', () => {
+    it('should disable the account and revoke its sessions', async () => {
+      const admin = await createAdminAndGetToken(context);
+      const target = await createRegularUser(context);
+
+      const response = await request(context.app)
+        .post(`/admin/users/${target.user.id}/disable`)
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(200);
+
+      expect(response.body.id).toBe(target.user.id);
+      expect(response.body.isDisabled).toBe(true);
+
+      // Existing tokens stop working
+      await request(context.app)
+        .get('/project/list')
+        .set('Authorization', `Bearer ${target.token}`)
+        .expect(401);
+
+      await request(context.app)
+        .post('/auth/token/refresh')
+        .send({ refreshToken: target.refreshToken })
+        .expect(401);
+
+      // New logins are rejected
+      const loginResponse = await request(context.app)
+        .post('/auth/login')
+        .send(target.credentials)
+        .expect(403);
+
+      validateErrorResponse(loginResponse, 403, 'Account is disabled');
+
+      const { auditLogs } = await context.containerDAO.auditLogDAO.findAuditLogs(
+        { action: 'user.disable', targetId: target.user.id }, 1, 10
+      );
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0].actor.userId).toBe(admin.user.id);
+      expect(auditLogs[0].changes).toEqual({ before: { isDisabled: false }, after: { isDisabled: true } });
+    });
+
+    it('should not let admins disable their own account', async () => {
+      const admin = await createAdminAndGetToken(context);
+
+      const response = await request(context.app)
+        .post(`/admin/users/${admin.user.id}/disable`)
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'Cannot disable your own account');
+    });
+
+    it('should return 404 for unknown users', async () => {
+      const admin = await createAdminAndGetToken(context);
+
+      const response = await request(context.app)
+        .post('/admin/users/507f1f77bcf86cd799439099/disable')
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(404);
+
+      validateErrorResponse(response, 404, 'User not found');
+    });
+
+    it('should validate the user ID format', async () => {
+      const admin = await createAdminAndGetToken(context);
+
+      await request(context.app)
+        .post('/admin/users/not-an-id/disable')
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(400);
+    });
+
+    it('should reject users without the admin role', async () => {
+      const caller = await createRegularUser(context);
+      const target = await createRegularUser(context);
+
+      await request(context.app)
+        .post(`/admin/users/${target.user.id}/disable`)
+        .set('Authorization', `Bearer ${caller.token}`)
+        .expect(403);
+    });
+  });
+});
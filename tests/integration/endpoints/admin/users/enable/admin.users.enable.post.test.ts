@@ -0,0 +1,63 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse } from '../../../../helpers';
+import { createAdminAndGetToken, createRegularUser } from '../adminHelpers';
+
+describe('Admin Users Enable Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('POST /admin/users/:userId/enable', () => {
+    it('should let a disabled user log in again', async () => {
+      const admin = await createAdminAndGetToken(context);
+      const target = await createRegularUser(context);
+
+      await request(context.app)
+        .post(`/admin/users/${target.user.id}/disable`)
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(200);
+
+      const response = await request(context.app)
+        .post(`/admin/users/${target.user.id}/enable`)
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(200);
+
+      expect(response.body.isDisabled).toBe(false);
+
+      await request(context.app)
+        .post('/auth/login')
+        .send(target.credentials)
+        .expect(200);
+
+      const { auditLogs } = await context.containerDAO.auditLogDAO.findAuditLogs(
+        { action: 'user.enable', targetId: target.user.id }, 1, 10
+      );
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0].actor.userId).toBe(admin.user.id);
+      expect(auditLogs[0].changes).toEqual({ before: { isDisabled: true }, after: { isDisabled: false } });
+    });
+
+    it('should return 404 for unknown users', async () => {
+      const admin = await createAdminAndGetToken(context);
+
+      const response = await request(context.app)
+        .post('/admin/users/507f1f77bcf86cd799439099/enable')
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(404);
+
+      validateErrorResponse(response, 404, 'User not found');
+    });
+
+    it('should reject users without the admin role', async () => {
+      const caller = await createRegularUser(context);
+
+      await request(context.app)
+        .post(`/admin/users/${caller.user.id}/enable`)
+        .set('Authorization', `Bearer ${caller.token}`)
+        .expect(403);
+    });
+  });
+});
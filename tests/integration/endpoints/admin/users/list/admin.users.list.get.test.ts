@@ -0,0 +1,67 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse } from '../../../../helpers';
+import { createAdminAndGetToken, createRegularUser } from '../adminHelpers';
+
+describe('Admin Users List Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('GET /admin/users', () => {
+    it('should list users with pagination for admins', async () => {
+      const admin = await createAdminAndGetToken(context);
+      await createRegularUser(context);
+
+      const response = await request(context.app)
+        .get('/admin/users?page=1&limit=1')
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(200);
+
+      expect(response.body.users).toHaveLength(1);
+      expect(response.body.total).toBeGreaterThanOrEqual(2);
+      expect(response.body.totalPages).toBeGreaterThanOrEqual(2);
+      expect(response.body.currentPage).toBe(1);
+      expect(response.body.limit).toBe(1);
+
+      const [user] = response.body.users;
+      expect(user).toHaveProperty('id');
+      expect(user).toHaveProperty('username');
+      expect(user).toHaveProperty('roles');
+      expect(user).toHaveProperty('isDisabled');
+      expect(user).not.toHaveProperty('password');
+    });
+
+    it('should clamp the page size to 100', async () => {
+      const admin = await createAdminAndGetToken(context);
+
+      const response = await request(context.app)
+        .get('/admin/users?limit=1000')
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(200);
+
+      expect(response.body.limit).toBe(100);
+    });
+
+    it('should reject users without the admin role', async () => {
+      const { token } = await createRegularUser(context);
+
+      const response = await request(context.app)
+        .get('/admin/users')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(403);
+
+      validateErrorResponse(response, 403, 'Insufficient permissions');
+    });
+
+    it('should require authentication', async () => {
+      const response = await request(context.app)
+        .get('/admin/users')
+        .expect(401);
+
+      validateErrorResponse(response, 401);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse } from '../../../../helpers';
+import { createAdminAndGetToken, createRegularUser } from '../adminHelpers';
+
+describe('Admin Users Search Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('GET /admin/users/search', () => {
+    it('should find users by username prefix', async () => {
+      const admin = await createAdminAndGetToken(context);
+      const { user } = await createRegularUser(context);
+
+      const response = await request(context.app)
+        .get(`/admin/users/search?username=${user.username}`)
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(200);
+
+      expect(response.body.total).toBe(1);
+      expect(response.body.users[0].id).toBe(user.id);
+      expect(response.body.users[0].username).toBe(user.username);
+    });
+
+    it('should match only usernames starting with the prefix', async () => {
+      const admin = await createAdminAndGetToken(context);
+      const { user } = await createRegularUser(context);
+
+      const response = await request(context.app)
+        .get(`/admin/users/search?username=${user.username.substring(1)}`)
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(200);
+
+      expect(response.body.users.map((u: { id: string }) => u.id)).not.toContain(user.id);
+    });
+
+    it('should treat regular expression characters literally', async () => {
+      const admin = await createAdminAndGetToken(context);
+
+      const response = await request(context.app)
+        .get(`/admin/users/search?username=${encodeURIComponent('.*')}`)
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(200);
+
+      expect(response.body.total).toBe(0);
+      expect(response.body.users).toEqual([]);
+    });
+
+    it('should require a username prefix', async () => {
+      const admin = await createAdminAndGetToken(context);
+
+      const response = await request(context.app)
+        .get('/admin/users/search')
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'Username prefix is required');
+    });
+
+    it('should reject users without the admin role', async () => {
+      const { token, user } = await createRegularUser(context);
+
+      await request(context.app)
+        .get(`/admin/users/search?username=${user.username}`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(403);
+    });
+  });
+});
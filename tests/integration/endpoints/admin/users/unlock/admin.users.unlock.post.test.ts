@@ -0,0 +1,86 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse } from '../../../../helpers';
+import { createAdminAndGetToken, createRegularUser } from '../adminHelpers';
+
+describe('Admin Users Unlock Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  // A fresh app per test resets the per-IP limiter on failed logins
+  beforeEach(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  /**
+   * Fail logins until the username is locked (integration tests allow 3 failed attempts)
+   */
+  const lockUsername = async (username: string) => {
+    for (const expectedStatus of [401, 401, 423]) {
+      await request(context.app)
+        .post('/auth/login')
+        .send({ username, password: 'WrongPassword123' })
+        .expect(expectedStatus);
+    }
+  };
+
+  describe('POST /admin/users/:userId/unlock', () => {
+    it('should let a locked user log in again', async () => {
+      const admin = await createAdminAndGetToken(context);
+      const target = await createRegularUser(context);
+      await lockUsername(target.credentials.username);
+
+      const response = await request(context.app)
+        .post(`/admin/users/${target.user.id}/unlock`)
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(200);
+
+      expect(response.body.message).toBe('User unlocked successfully');
+      expect(response.body.wasLocked).toBe(true);
+
+      await request(context.app)
+        .post('/auth/login')
+        .send(target.credentials)
+        .expect(200);
+      expect(await context.containerDAO.loginAttemptDAO.findByUsername(target.credentials.username)).toBeNull();
+
+      const { auditLogs } = await context.containerDAO.auditLogDAO.findAuditLogs(
+        { action: 'user.unlock', targetId: target.user.id }, 1, 10
+      );
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0].actor.userId).toBe(admin.user.id);
+      expect(auditLogs[0].changes?.after).toEqual({ failedAttempts: 0, lockedUntil: null });
+    });
+
+    it('should report users that were not locked', async () => {
+      const admin = await createAdminAndGetToken(context);
+      const target = await createRegularUser(context);
+
+      const response = await request(context.app)
+        .post(`/admin/users/${target.user.id}/unlock`)
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(200);
+
+      expect(response.body.wasLocked).toBe(false);
+    });
+
+    it('should return 404 for unknown users', async () => {
+      const admin = await createAdminAndGetToken(context);
+
+      const response = await request(context.app)
+        .post('/admin/users/507f1f77bcf86cd799439099/unlock')
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(404);
+
+      validateErrorResponse(response, 404, 'User not found');
+    });
+
+    it('should reject users without the admin role', async () => {
+      const caller = await createRegularUser(context);
+
+      await request(context.app)
+        .post(`/admin/users/${caller.user.id}/unlock`)
+        .set('Authorization', `Bearer ${caller.token}`)
+        .expect(403);
+    });
+  });
+});
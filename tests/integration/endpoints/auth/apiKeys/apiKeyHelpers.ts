@@ -0,0 +1,38 @@
+import request from 'supertest';
+import { Application } from 'express';
+import { createTestCredentials } from '../../../helpers';
+import { TokenScope } from '../../../../../src/domain/interfaces/entities/TokenScope';
+
+/**
+ * API key test utilities
+ */
+
+/**
+ * Register a user and return its access token
+ */
+export const registerAndGetToken = async (app: Application) => {
+  const response = await request(app)
+    .post('/auth/register')
+    .send(createTestCredentials())
+    .expect(201);
+
+  return { accessToken: response.body.accessToken as string, user: response.body.user };
+};
+
+/**
+ * Create an API key with the given scopes and return the token together with the key data
+ */
+export const createApiKey = async (
+  app: Application,
+  accessToken: string,
+  scopes: TokenScope[],
+  expiresInDays?: number
+) => {
+  const response = await request(app)
+    .post('/auth/api-keys')
+    .set('Authorization', `Bearer ${accessToken}`)
+    .send({ name: 'CI pipeline', scopes, expiresInDays })
+    .expect(201);
+
+  return { token: response.body.token as string, apiKey: response.body.apiKey };
+};
@@ -0,0 +1,159 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse } from '../../../../helpers';
+import { createTestProject } from '../../../project/projectHelpers';
+import { createApiKey, registerAndGetToken } from '../apiKeyHelpers';
+
+describe('Auth API Keys Create Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('POST /auth/api-keys', () => {
+    it('should create an API key and show its token once', async () => {
+      const { accessToken, user } = await registerAndGetToken(context.app);
+
+      const response = await request(context.app)
+        .post('/auth/api-keys')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'GitHub Actions deploy', scopes: ['project:read'], expiresInDays: 30 })
+        .expect(201);
+
+      expect(response.body.token).toMatch(/^pat_[a-f0-9]{64}$/);
+      expect(response.body.apiKey.name).toBe('GitHub Actions deploy');
+      expect(response.body.apiKey.scopes).toEqual(['project:read']);
+      expect(response.body.apiKey.tokenPrefix).toBe(response.body.token.substring(0, 12));
+      expect(response.body.apiKey.lastUsedAt).toBeNull();
+      expect(response.body.apiKey).not.toHaveProperty('tokenHash');
+
+      const { expiresAt, createdAt } = response.body.apiKey;
+      expect(new Date(expiresAt).getTime() - new Date(createdAt).getTime()).toBe(30 * 24 * 60 * 60 * 1000);
+
+      const { auditLogs } = await context.containerDAO.auditLogDAO.findAuditLogs(
+        { action: 'auth.api_key_create', targetId: response.body.apiKey.id }, 1, 10
+      );
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0].actor).toMatchObject({ userId: user.id, username: user.username });
+      expect(auditLogs[0].changes?.after).toMatchObject({
+        name: 'GitHub Actions deploy', tokenPrefix: response.body.apiKey.tokenPrefix, scopes: ['project:read']
+      });
+      expect(JSON.stringify(auditLogs[0])).not.toContain(response.body.token);
+    });
+
+    it('should create API keys that do not expire', async () => {
+      const { accessToken } = await registerAndGetToken(context.app);
+
+      const { apiKey } = await createApiKey(context.app, accessToken, ['project:read']);
+
+      expect(apiKey.expiresAt).toBeNull();
+    });
+
+    it('should authenticate as the owner with Bearer and X-API-Key headers', async () => {
+      const { accessToken } = await registerAndGetToken(context.app);
+      const { token } = await createApiKey(context.app, accessToken, ['project:read', 'project:write']);
+
+      const created = await request(context.app)
+        .post('/project')
+        .set('Authorization', `Bearer ${token}`)
+        .send(createTestProject())
+        .expect(201);
+
+      const response = await request(context.app)
+        .get(`/project/${created.body.id}`)
+        .set('X-API-Key', token)
+        .expect(200);
+
+      expect(response.body.id).toBe(created.body.id);
+    });
+
+    it('should limit API keys to their scopes', async () => {
+      const { accessToken } = await registerAndGetToken(context.app);
+      const { token } = await createApiKey(context.app, accessToken, ['project:read']);
+
+      await request(context.app)
+        .get('/project/list')
+        .set('X-API-Key', token)
+        .expect(200);
+
+      const response = await request(context.app)
+        .post('/project')
+        .set('X-API-Key', token)
+        .send(createTestProject())
+        .expect(403);
+
+      validateErrorResponse(response, 403, 'API key is missing the project:write scope');
+    });
+
+    it('should refuse API keys on account routes', async () => {
+      const { accessToken } = await registerAndGetToken(context.app);
+      const { token } = await createApiKey(context.app, accessToken, ['project:read', 'project:write']);
+
+      const response = await request(context.app)
+        .post('/auth/api-keys')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name: 'Escalated', scopes: ['project:write'] })
+        .expect(403);
+
+      validateErrorResponse(response, 403, 'API keys are not accepted for this endpoint');
+
+      await request(context.app)
+        .get('/auth/sessions')
+        .set('X-API-Key', token)
+        .expect(403);
+    });
+
+    it('should reject unknown API keys', async () => {
+      const response = await request(context.app)
+        .get('/project/list')
+        .set('X-API-Key', `pat_${'0'.repeat(64)}`)
+        .expect(401);
+
+      validateErrorResponse(response, 401, 'Invalid API key');
+    });
+
+    it('should reject unknown scopes', async () => {
+      const { accessToken } = await registerAndGetToken(context.app);
+
+      const response = await request(context.app)
+        .post('/auth/api-keys')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'Admin key', scopes: ['admin'] })
+        .expect(400);
+
+      validateErrorResponse(response, 400);
+    });
+
+    it('should reject API keys without scopes', async () => {
+      const { accessToken } = await registerAndGetToken(context.app);
+
+      const response = await request(context.app)
+        .post('/auth/api-keys')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'Useless key', scopes: [] })
+        .expect(400);
+
+      validateErrorResponse(response, 400);
+    });
+
+    it('should reject an expiry beyond one year', async () => {
+      const { accessToken } = await registerAndGetToken(context.app);
+
+      const response = await request(context.app)
+        .post('/auth/api-keys')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'Forever key', scopes: ['project:read'], expiresInDays: 366 })
+        .expect(400);
+
+      validateErrorResponse(response, 400);
+    });
+
+    it('should require authentication', async () => {
+      await request(context.app)
+        .post('/auth/api-keys')
+        .send({ name: 'Anonymous key', scopes: ['project:read'] })
+        .expect(401);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse } from '../../../../helpers';
+import { createApiKey, registerAndGetToken } from '../apiKeyHelpers';
+
+describe('Auth API Keys Delete Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('DELETE /auth/api-keys/:apiKeyId', () => {
+    it('should delete the key and refuse it from then on', async () => {
+      const { accessToken, user } = await registerAndGetToken(context.app);
+      const { token, apiKey } = await createApiKey(context.app, accessToken, ['project:read']);
+
+      const response = await request(context.app)
+        .delete(`/auth/api-keys/${apiKey.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.message).toBe('API key deleted successfully');
+      expect(response.body.deletedAt).toBeDefined();
+
+      const rejected = await request(context.app)
+        .get('/project/list')
+        .set('X-API-Key', token)
+        .expect(401);
+
+      validateErrorResponse(rejected, 401, 'Invalid API key');
+
+      const { auditLogs } = await context.containerDAO.auditLogDAO.findAuditLogs(
+        { action: 'auth.api_key_delete', targetId: apiKey.id }, 1, 10
+      );
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0].actor).toMatchObject({ userId: user.id, username: user.username });
+      expect(auditLogs[0].changes?.before).toMatchObject({ name: 'CI pipeline', tokenPrefix: apiKey.tokenPrefix });
+      expect(auditLogs[0].changes?.after).toBeNull();
+    });
+
+    it('should not delete keys of other users', async () => {
+      const owner = await registerAndGetToken(context.app);
+      const { token, apiKey } = await createApiKey(context.app, owner.accessToken, ['project:read']);
+      const other = await registerAndGetToken(context.app);
+
+      const response = await request(context.app)
+        .delete(`/auth/api-keys/${apiKey.id}`)
+        .set('Authorization', `Bearer ${other.accessToken}`)
+        .expect(403);
+
+      validateErrorResponse(response, 403, 'Access denied');
+
+      await request(context.app)
+        .get('/project/list')
+        .set('X-API-Key', token)
+        .expect(200);
+    });
+
+    it('should return 404 for unknown keys', async () => {
+      const { accessToken } = await registerAndGetToken(context.app);
+
+      const response = await request(context.app)
+        .delete('/auth/api-keys/507f1f77bcf86cd799439011')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(404);
+
+      validateErrorResponse(response, 404, 'API key not found');
+    });
+
+    it('should reject invalid key IDs', async () => {
+      const { accessToken } = await registerAndGetToken(context.app);
+
+      const response = await request(context.app)
+        .delete('/auth/api-keys/not-an-id')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(400);
+
+      validateErrorResponse(response, 400);
+    });
+
+    it('should require authentication', async () => {
+      await request(context.app)
+        .delete('/auth/api-keys/507f1f77bcf86cd799439011')
+        .expect(401);
+    });
+  });
+});
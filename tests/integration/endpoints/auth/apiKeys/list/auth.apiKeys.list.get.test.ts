@@ -0,0 +1,69 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { createApiKey, registerAndGetToken } from '../apiKeyHelpers';
+
+describe('Auth API Keys List Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('GET /auth/api-keys', () => {
+    it('should list the keys of the user, newest first, without tokens', async () => {
+      const { accessToken } = await registerAndGetToken(context.app);
+      const first = await createApiKey(context.app, accessToken, ['project:read']);
+      const second = await createApiKey(context.app, accessToken, ['project:read', 'project:write']);
+
+      const response = await request(context.app)
+        .get('/auth/api-keys')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.apiKeys).toHaveLength(2);
+      expect(response.body.apiKeys.map((apiKey: { id: string }) => apiKey.id))
+        .toEqual([second.apiKey.id, first.apiKey.id]);
+      for (const apiKey of response.body.apiKeys) {
+        expect(apiKey).not.toHaveProperty('token');
+        expect(apiKey).not.toHaveProperty('tokenHash');
+        expect(apiKey.tokenPrefix).toMatch(/^pat_/);
+      }
+    });
+
+    it('should record when a key was last used', async () => {
+      const { accessToken } = await registerAndGetToken(context.app);
+      const { token } = await createApiKey(context.app, accessToken, ['project:read']);
+
+      await request(context.app)
+        .get('/project/list')
+        .set('X-API-Key', token)
+        .expect(200);
+
+      const response = await request(context.app)
+        .get('/auth/api-keys')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.apiKeys[0].lastUsedAt).not.toBeNull();
+    });
+
+    it('should not list keys of other users', async () => {
+      const owner = await registerAndGetToken(context.app);
+      await createApiKey(context.app, owner.accessToken, ['project:read']);
+      const other = await registerAndGetToken(context.app);
+
+      const response = await request(context.app)
+        .get('/auth/api-keys')
+        .set('Authorization', `Bearer ${other.accessToken}`)
+        .expect(200);
+
+      expect(response.body.apiKeys).toEqual([]);
+    });
+
+    it('should require authentication', async () => {
+      await request(context.app)
+        .get('/auth/api-keys')
+        .expect(401);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../setup';
+import {
+  validateErrorResponse, createTestCredentials, extractCookieValue, extractSetCookieHeader
+} from '../../../helpers';
+import { createTestProject } from '../../project/projectHelpers';
+
+describe('Auth Cookies Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest({ AUTH_COOKIES: 'both' });
+  });
+
+  /**
+   * Registers and logs in a new user, returning the cookies to send back
+   */
+  const loginWithCookies = async () => {
+    const credentials = createTestCredentials();
+    await request(context.app).post('/auth/register').send(credentials).expect(201);
+    const response = await request(context.app).post('/auth/login').send(credentials).expect(200);
+
+    const csrfToken = extractCookieValue(response, 'csrf_token');
+    return {
+      response,
+      csrfToken,
+      cookies: [
+        `access_token=${extractCookieValue(response, 'access_token')}`,
+        `refresh_token=${extractCookieValue(response, 'refresh_token')}`,
+        `csrf_token=${csrfToken}`
+      ]
+    };
+  };
+
+  describe('POST /auth/login', () => {
+    it('should set the tokens as HttpOnly cookies instead of returning them', async () => {
+      const { response, csrfToken } = await loginWithCookies();
+
+      expect(response.body).not.toHaveProperty('accessToken');
+      expect(response.body).not.toHaveProperty('refreshToken');
+      expect(response.body.csrfToken).toBe(csrfToken);
+      expect(response.body.user).toHaveProperty('username');
+
+      expect(extractSetCookieHeader(response, 'access_token')).toMatch(/; Path=\/; .*HttpOnly; Secure; SameSite=Strict$/);
+      expect(extractSetCookieHeader(response, 'refresh_token')).toMatch(/; Path=\/auth; .*HttpOnly; Secure; SameSite=Strict$/);
+      expect(extractSetCookieHeader(response, 'csrf_token')).not.toContain('HttpOnly');
+    });
+  });
+
+  describe('cookie-authenticated requests', () => {
+    it('should authenticate safe requests with the access token cookie', async () => {
+      const { cookies } = await loginWithCookies();
+
+      await request(context.app)
+        .get('/project/list')
+        .set('Cookie', cookies)
+        .expect(200);
+    });
+
+    it('should reject unsafe requests without CSRF token', async () => {
+      const { cookies } = await loginWithCookies();
+
+      const response = await request(context.app)
+        .post('/project')
+        .set('Cookie', cookies)
+        .send(createTestProject())
+        .expect(403);
+
+      validateErrorResponse(response, 403);
+      expect(response.body.message).toBe('Invalid or missing CSRF token');
+    });
+
+    it('should accept unsafe requests echoing the CSRF token', async () => {
+      const { cookies, csrfToken } = await loginWithCookies();
+
+      await request(context.app)
+        .post('/project')
+        .set('Cookie', cookies)
+        .set('X-CSRF-Token', csrfToken)
+        .send(createTestProject())
+        .expect(201);
+    });
+
+    it('should not check CSRF tokens of bearer-authenticated requests', async () => {
+      const credentials = createTestCredentials();
+      await request(context.app).post('/auth/register').send(credentials).expect(201);
+      const loginResponse = await request(context.app).post('/auth/login').send(credentials).expect(200);
+
+      await request(context.app)
+        .post('/project')
+        .set('Authorization', `Bearer ${extractCookieValue(loginResponse, 'access_token')}`)
+        .send(createTestProject())
+        .expect(201);
+    });
+  });
+
+  describe('POST /auth/token/refresh', () => {
+    it('should refresh with the refresh token cookie and set new cookies', async () => {
+      const { cookies, csrfToken } = await loginWithCookies();
+
+      const response = await request(context.app)
+        .post('/auth/token/refresh')
+        .set('Cookie', cookies)
+        .set('X-CSRF-Token', csrfToken)
+        .send({})
+        .expect(200);
+
+      expect(response.body).not.toHaveProperty('refreshToken');
+      expect(response.body.csrfToken).toBe(extractCookieValue(response, 'csrf_token'));
+      expect(extractCookieValue(response, 'refresh_token')).not.toBe(cookies[1].substring('refresh_token='.length));
+      expect(extractSetCookieHeader(response, 'access_token')).toBeDefined();
+    });
+
+    it('should require the CSRF token', async () => {
+      const { cookies } = await loginWithCookies();
+
+      await request(context.app)
+        .post('/auth/token/refresh')
+        .set('Cookie', cookies)
+        .send({})
+        .expect(403);
+    });
+  });
+
+  describe('POST /auth/logout', () => {
+    it('should revoke the cookie tokens and clear the cookies', async () => {
+      const { cookies, csrfToken } = await loginWithCookies();
+
+      const response = await request(context.app)
+        .post('/auth/logout')
+        .set('Cookie', cookies)
+        .set('X-CSRF-Token', csrfToken)
+        .send({})
+        .expect(200);
+
+      expect(response.body).toHaveProperty('message', 'Logout successful');
+      for (const name of ['access_token', 'refresh_token', 'csrf_token']) {
+        expect(extractSetCookieHeader(response, name)).toContain('Expires=Thu, 01 Jan 1970 00:00:00 GMT');
+      }
+
+      await request(context.app)
+        .get('/project/list')
+        .set('Cookie', cookies)
+        .expect(401);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../setup';
+import {
+  validateErrorResponse, createTestCredentials, extractCookieValue, extractSetCookieHeader
+} from '../../../helpers';
+import { createTestProject } from '../../project/projectHelpers';
+
+describe('Auth CSRF Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest({ AUTH_COOKIES: 'both' });
+  });
+
+  describe('GET /auth/csrf', () => {
+    it('should issue a new token readable by the frontend', async () => {
+      const response = await request(context.app)
+        .get('/auth/csrf')
+        .expect(200);
+
+      expect(response.body.csrfToken).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(extractCookieValue(response, 'csrf_token')).toBe(response.body.csrfToken);
+      expect(extractSetCookieHeader(response, 'csrf_token')).not.toContain('HttpOnly');
+      expect(response.headers['cache-control']).toBe('no-store');
+    });
+
+    it('should return the token of the csrf_token cookie', async () => {
+      const response = await request(context.app)
+        .get('/auth/csrf')
+        .set('Cookie', 'csrf_token=existing-token')
+        .expect(200);
+
+      expect(response.body).toEqual({ csrfToken: 'existing-token' });
+    });
+  });
+
+  describe('CSRF protection', () => {
+    let cookies: string[];
+    let accessToken: string;
+    let projectId: string;
+
+    beforeEach(async () => {
+      const credentials = createTestCredentials();
+      await request(context.app).post('/auth/register').send(credentials).expect(201);
+      const loginResponse = await request(context.app).post('/auth/login').send(credentials).expect(200);
+
+      accessToken = extractCookieValue(loginResponse, 'access_token');
+      cookies = [`access_token=${accessToken}`, `csrf_token=${extractCookieValue(loginResponse, 'csrf_token')}`];
+
+      const projectResponse = await request(context.app)
+        .post('/project')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send(createTestProject())
+        .expect(201);
+      projectId = projectResponse.body.id;
+    });
+
+    it('should accept cookie-authenticated updates with the token from GET /auth/csrf', async () => {
+      const csrfResponse = await request(context.app)
+        .get('/auth/csrf')
+        .set('Cookie', cookies)
+        .expect(200);
+
+      await request(context.app)
+        .put(`/project/${projectId}`)
+        .set('Cookie', cookies)
+        .set('X-CSRF-Token', csrfResponse.body.csrfToken)
+        .send(createTestProject())
+        .expect(200);
+    });
+
+    it('should reject cookie-authenticated updates without the token', async () => {
+      const response = await request(context.app)
+        .put(`/project/${projectId}`)
+        .set('Cookie', cookies)
+        .send(createTestProject())
+        .expect(403);
+
+      validateErrorResponse(response, 403, 'Invalid or missing CSRF token');
+    });
+
+    it('should reject cookie-authenticated deletions with another token', async () => {
+      await request(context.app)
+        .delete(`/project/${projectId}`)
+        .set('Cookie', cookies)
+        .set('X-CSRF-Token', 'forged-token')
+        .expect(403);
+    });
+
+    it('should exempt bearer-authenticated updates even when cookies are sent', async () => {
+      await request(context.app)
+        .put(`/project/${projectId}`)
+        .set('Cookie', cookies)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send(createTestProject())
+        .expect(200);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import request from 'supertest';
+import { IntegrationTestContext } from '../../../setup';
+import { createTestCredentials } from '../../../helpers';
+
+/**
+ * Email verification test utilities
+ */
+
+/**
+ * Create unique registration data with an email address
+ */
+export const createTestCredentialsWithEmail = () => {
+  const credentials = createTestCredentials();
+  return { ...credentials, email: `${credentials.username}@example.com` };
+};
+
+/**
+ * Extract the token of the last verification link sent to an address
+ */
+export const verificationTokenSentTo = (context: IntegrationTestContext, email: string): string => {
+  const mail = context.mailer.lastMessageTo(email);
+  const token = mail?.text.match(/verify-email\?token=([a-f0-9]{64})/)?.[1];
+  if (!token) {
+    throw new Error(`No verification link sent to ${email}`);
+  }
+  return token;
+};
+
+/**
+ * Register a user with an email address and verify it
+ */
+export const registerWithVerifiedEmail = async (context: IntegrationTestContext) => {
+  const credentials = createTestCredentialsWithEmail();
+
+  const registerResponse = await request(context.app)
+    .post('/auth/register')
+    .send(credentials)
+    .expect(201);
+
+  await request(context.app)
+    .post('/auth/email/verify')
+    .send({ token: verificationTokenSentTo(context, credentials.email) })
+    .expect(200);
+
+  return { credentials, user: registerResponse.body.user };
+};
@@ -0,0 +1,138 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse } from '../../../../helpers';
+import { createTestCredentialsWithEmail, verificationTokenSentTo } from '../emailHelpers';
+
+const INVALID_TOKEN_MESSAGE = 'Invalid or expired verification token';
+
+describe('Auth Email Verify Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  /**
+   * Register a user with an email address and return the verification token mailed to it
+   */
+  const registerWithEmail = async () => {
+    const credentials = createTestCredentialsWithEmail();
+    const response = await request(context.app)
+      .post('/auth/register')
+      .send(credentials)
+      .expect(201);
+
+    return {
+      credentials,
+      accessToken: response.body.accessToken as string,
+      token: verificationTokenSentTo(context, credentials.email)
+    };
+  };
+
+  describe('POST /auth/email/verify', () => {
+    it('should verify the email address', async () => {
+      const { credentials, token } = await registerWithEmail();
+
+      const response = await request(context.app)
+        .post('/auth/email/verify')
+        .send({ token })
+        .expect(200);
+
+      expect(response.body.message).toBe('Email verified successfully');
+
+      const user = await context.containerDAO.userDAO.findByUsername(credentials.username);
+      expect(user?.email).toBe(credentials.email);
+      expect(user?.isEmailVerified).toBe(true);
+    });
+
+    it('should reject a token that was already used', async () => {
+      const { token } = await registerWithEmail();
+
+      await request(context.app)
+        .post('/auth/email/verify')
+        .send({ token })
+        .expect(200);
+
+      const response = await request(context.app)
+        .post('/auth/email/verify')
+        .send({ token })
+        .expect(400);
+
+      validateErrorResponse(response, 400, INVALID_TOKEN_MESSAGE);
+    });
+
+    it('should reject a token replaced by a newer verification email', async () => {
+      const { credentials, token } = await registerWithEmail();
+
+      await request(context.app)
+        .post('/auth/email/verify/resend')
+        .send({ email: credentials.email })
+        .expect(200);
+
+      const response = await request(context.app)
+        .post('/auth/email/verify')
+        .send({ token })
+        .expect(400);
+
+      validateErrorResponse(response, 400, INVALID_TOKEN_MESSAGE);
+    });
+
+    it('should give the address to the first account verifying it', async () => {
+      const { credentials, token: firstToken } = await registerWithEmail();
+      await request(context.app)
+        .post('/auth/register')
+        .send({ ...createTestCredentialsWithEmail(), email: credentials.email })
+        .expect(201);
+      const secondToken = verificationTokenSentTo(context, credentials.email);
+
+      await request(context.app)
+        .post('/auth/email/verify')
+        .send({ token: secondToken })
+        .expect(200);
+
+      const response = await request(context.app)
+        .post('/auth/email/verify')
+        .send({ token: firstToken })
+        .expect(400);
+
+      validateErrorResponse(response, 400, INVALID_TOKEN_MESSAGE);
+      const firstUser = await context.containerDAO.userDAO.findByUsername(credentials.username);
+      expect(firstUser?.email).toBeNull();
+    });
+
+    it('should reject unknown tokens', async () => {
+      const response = await request(context.app)
+        .post('/auth/email/verify')
+        .send({ token: 'a'.repeat(64) })
+        .expect(400);
+
+      validateErrorResponse(response, 400, INVALID_TOKEN_MESSAGE);
+    });
+
+    it('should report the verified address at login', async () => {
+      const { credentials, token } = await registerWithEmail();
+
+      await request(context.app)
+        .post('/auth/email/verify')
+        .send({ token })
+        .expect(200);
+
+      const response = await request(context.app)
+        .post('/auth/login')
+        .send({ username: credentials.username, password: credentials.password })
+        .expect(200);
+
+      expect(response.body.user.email).toBe(credentials.email);
+      expect(response.body.user.isEmailVerified).toBe(true);
+    });
+
+    it('should validate required fields', async () => {
+      const response = await request(context.app)
+        .post('/auth/email/verify')
+        .send({})
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'Verification token is required');
+    });
+  });
+});
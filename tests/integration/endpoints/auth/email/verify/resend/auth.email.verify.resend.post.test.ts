@@ -0,0 +1,82 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../../setup';
+import { validateErrorResponse } from '../../../../../helpers';
+import { createTestCredentialsWithEmail, registerWithVerifiedEmail } from '../../emailHelpers';
+
+const GENERIC_MESSAGE = 'If the address awaits verification, a new verification link has been sent';
+
+describe('Auth Email Verify Resend Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  // A fresh app per test gives every test its own verification email rate limit budget
+  beforeEach(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('POST /auth/email/verify/resend', () => {
+    it('should send a new verification link', async () => {
+      const credentials = createTestCredentialsWithEmail();
+      await request(context.app).post('/auth/register').send(credentials).expect(201);
+
+      const response = await request(context.app)
+        .post('/auth/email/verify/resend')
+        .send({ email: credentials.email.toUpperCase() })
+        .expect(200);
+
+      expect(response.body.message).toBe(GENERIC_MESSAGE);
+
+      const verificationMails = context.mailer.sentMessages.filter(mail => mail.to === credentials.email);
+      expect(verificationMails).toHaveLength(2);
+      expect(verificationMails[1].subject).toBe('Verify your email address');
+      expect(verificationMails[1].text).not.toBe(verificationMails[0].text);
+    });
+
+    it('should answer identically for unknown addresses without sending mail', async () => {
+      const response = await request(context.app)
+        .post('/auth/email/verify/resend')
+        .send({ email: createTestCredentialsWithEmail().email })
+        .expect(200);
+
+      expect(response.body.message).toBe(GENERIC_MESSAGE);
+      expect(context.mailer.sentMessages).toHaveLength(0);
+    });
+
+    it('should not send mail to an address that is already verified', async () => {
+      const { credentials } = await registerWithVerifiedEmail(context);
+      const sentBefore = context.mailer.sentMessages.length;
+
+      const response = await request(context.app)
+        .post('/auth/email/verify/resend')
+        .send({ email: credentials.email })
+        .expect(200);
+
+      expect(response.body.message).toBe(GENERIC_MESSAGE);
+      expect(context.mailer.sentMessages).toHaveLength(sentBefore);
+    });
+
+    it('should rate limit verification email requests', async () => {
+      const { email } = createTestCredentialsWithEmail();
+
+      for (let i = 0; i < 3; i++) {
+        await request(context.app)
+          .post('/auth/email/verify/resend')
+          .send({ email })
+          .expect(200);
+      }
+
+      await request(context.app)
+        .post('/auth/email/verify/resend')
+        .send({ email })
+        .expect(429);
+    });
+
+    it('should validate the email address', async () => {
+      const response = await request(context.app)
+        .post('/auth/email/verify/resend')
+        .send({ email: 'not-an-email' })
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'Email must be a valid email address');
+    });
+  });
+});
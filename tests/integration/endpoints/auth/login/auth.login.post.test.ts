@@ -1,14 +1,46 @@
 import request, { Response } from 'supertest';
 import { setupIntegrationTest, IntegrationTestContext } from '../../../setup';
 import { validateAuthResponse, validateErrorResponse, createTestCredentials } from '../../../helpers';
+import { MongoDBSessionProducer } from '../../../../../src/domain/mongodb/MongoDBSessionProducer';
+import { LoginAttemptMongoDB } from '../../../../../src/domain/mongodb/entities/LoginAttemptMongoDB';
+import { AccessTokenMongoDB } from '../../../../../src/domain/mongodb/entities/AccessTokenMongoDB';
+import { RefreshTokenMongoDB } from '../../../../../src/domain/mongodb/entities/RefreshTokenMongoDB';
+import { hashToken } from '../../../../../src/domain/mongodb/utils/BaseTokenMongoDB';
+import {
+  createTestCredentialsWithEmail, registerWithVerifiedEmail, verificationTokenSentTo
+} from '../email/emailHelpers';
+import { createTestProject } from '../../project/projectHelpers';
+
+const LOCKED_MESSAGE = 'Account temporarily locked due to too many failed login attempts';
 
 describe('Auth Login Integration Tests', () => {
   let context: IntegrationTestContext;
 
-  beforeAll(async () => {
+  // A fresh app per test resets the per-IP limiter on failed logins
+  beforeEach(async () => {
     context = await setupIntegrationTest();
   });
 
+  /**
+   * Register a user and return its credentials
+   */
+  const registerUser = async () => {
+    const credentials = createTestCredentials();
+    await request(context.app)
+      .post('/auth/register')
+      .send(credentials)
+      .expect(201);
+    return credentials;
+  };
+
+  /**
+   * Attempt a login with a wrong password and check the expected status
+   */
+  const failLogin = (username: string, expectedStatus: number) => request(context.app)
+    .post('/auth/login')
+    .send({ username, password: 'WrongPassword123' })
+    .expect(expectedStatus);
+
   describe('POST /auth/login', () => {
     it('should login with valid credentials', async () => {
       const credentials = createTestCredentials();
@@ -103,6 +135,32 @@ describe('Auth Login Integration Tests', () => {
       validateErrorResponse(response, 401, 'Invalid credentials');
     });
 
+    it('should reject and audit the login of a disabled account', async () => {
+      const credentials = createTestCredentials();
+      const registerResponse = await request(context.app).post('/auth/register').send(credentials).expect(201);
+      const userId = registerResponse.body.user.id;
+
+      const dbSession = await new MongoDBSessionProducer().createSession();
+      try {
+        await context.containerDAO.userDAO.setUserDisabled(dbSession, userId, true);
+      } finally {
+        await dbSession.endSession();
+      }
+
+      const response = await request(context.app)
+        .post('/auth/login')
+        .send(credentials)
+        .expect(403);
+
+      validateErrorResponse(response, 403, 'Account is disabled');
+
+      const { auditLogs } = await context.containerDAO.auditLogDAO.findAuditLogs(
+        { action: 'auth.login_rejected', targetId: userId }, 1, 10
+      );
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0].actor).toMatchObject({ userId, username: credentials.username });
+    });
+
     it('should validate required fields', async () => {
       const response = await request(context.app)
         .post('/auth/login')
@@ -166,6 +224,24 @@ describe('Auth Login Integration Tests', () => {
       expect(response1.body.user.username).toBe(response2.body.user.username);
     });
 
+    it('should store the token hashes, never the tokens', async () => {
+      const credentials = createTestCredentials();
+      await request(context.app).post('/auth/register').send(credentials).expect(201);
+
+      const response = await request(context.app)
+        .post('/auth/login')
+        .send(credentials)
+        .expect(200);
+
+      const { accessToken, refreshToken } = response.body;
+      const accessTokenRecord = await AccessTokenMongoDB.findOne({ tokenHash: hashToken(accessToken) }).lean().exec();
+      const refreshTokenRecord = await RefreshTokenMongoDB.findOne({ tokenHash: hashToken(refreshToken) }).lean().exec();
+      expect(accessTokenRecord).not.toBeNull();
+      expect(refreshTokenRecord).not.toBeNull();
+      expect(JSON.stringify(accessTokenRecord)).not.toContain(accessToken);
+      expect(JSON.stringify(refreshTokenRecord)).not.toContain(refreshToken);
+    });
+
     it('should handle multiple concurrent logins for same user', async () => {
       const credentials = createTestCredentials();
       
@@ -216,4 +292,245 @@ describe('Auth Login Integration Tests', () => {
       validateErrorResponse(response, 400);
     });
   });
+
+  describe('login lockout', () => {
+    // Integration tests configure LOGIN_MAX_FAILED_ATTEMPTS=3
+    it('should lock the username after too many failed attempts', async () => {
+      const credentials = await registerUser();
+
+      await failLogin(credentials.username, 401);
+      await failLogin(credentials.username, 401);
+      const lockResponse = await failLogin(credentials.username, 423);
+      validateErrorResponse(lockResponse, 423, LOCKED_MESSAGE);
+
+      const response = await request(context.app)
+        .post('/auth/login')
+        .send(credentials)
+        .expect(423);
+      validateErrorResponse(response, 423, LOCKED_MESSAGE);
+    });
+
+    it('should lock unknown usernames like existing ones', async () => {
+      const { username } = createTestCredentials();
+
+      await failLogin(username, 401);
+      await failLogin(username, 401);
+      await failLogin(username, 423);
+      await failLogin(username, 423);
+    });
+
+    it('should reset the failed attempts after a successful login', async () => {
+      const credentials = await registerUser();
+
+      await failLogin(credentials.username, 401);
+      await failLogin(credentials.username, 401);
+      await request(context.app)
+        .post('/auth/login')
+        .send(credentials)
+        .expect(200);
+      await failLogin(credentials.username, 401);
+      await failLogin(credentials.username, 401);
+
+      const loginAttempt = await context.containerDAO.loginAttemptDAO.findByUsername(credentials.username);
+      expect(loginAttempt?.failedAttempts).toBe(2);
+      expect(loginAttempt?.lockouts).toBe(0);
+    });
+
+    it('should double the lockout duration on every lockout', async () => {
+      const credentials = await registerUser();
+
+      for (const expectedStatus of [401, 401, 423]) {
+        await failLogin(credentials.username, expectedStatus);
+      }
+      const firstLockout = await context.containerDAO.loginAttemptDAO.findByUsername(credentials.username);
+      expect(firstLockout?.lockouts).toBe(1);
+      expect(firstLockout!.lockedUntil!.getTime() - firstLockout!.lastFailedAt.getTime())
+        .toBe(60 * 1000);
+
+      // Let the first lockout expire, then fail again from a fresh client
+      await LoginAttemptMongoDB.updateOne({ username: credentials.username }, { lockedUntil: new Date(0) });
+      context = await setupIntegrationTest();
+
+      for (const expectedStatus of [401, 401, 423]) {
+        await failLogin(credentials.username, expectedStatus);
+      }
+      const secondLockout = await context.containerDAO.loginAttemptDAO.findByUsername(credentials.username);
+      expect(secondLockout?.lockouts).toBe(2);
+      expect(secondLockout!.lockedUntil!.getTime() - secondLockout!.lastFailedAt.getTime())
+        .toBe(2 * 60 * 1000);
+    });
+
+    it('should rate limit failed logins per client across usernames', async () => {
+      for (let i = 0; i < 5; i++) {
+        await failLogin(createTestCredentials().username, 401);
+      }
+
+      await failLogin(createTestCredentials().username, 429);
+    });
+  });
+
+  describe('login with email address', () => {
+    /**
+     * Register a user with an email address and return its credentials
+     */
+    const registerUserWithEmail = async (app = context.app) => {
+      const credentials = createTestCredentialsWithEmail();
+      await request(app)
+        .post('/auth/register')
+        .send(credentials)
+        .expect(201);
+      return credentials;
+    };
+
+    it('should login with the email address instead of the username', async () => {
+      const { credentials } = await registerWithVerifiedEmail(context);
+
+      const response = await request(context.app)
+        .post('/auth/login')
+        .send({ username: credentials.email.toUpperCase(), password: credentials.password })
+        .expect(200);
+
+      validateAuthResponse(response);
+      expect(response.body.user.username).toBe(credentials.username);
+    });
+
+    it('should not login with an email address that is not verified', async () => {
+      const credentials = await registerUserWithEmail();
+
+      const response = await request(context.app)
+        .post('/auth/login')
+        .send({ username: credentials.email, password: credentials.password })
+        .expect(401);
+
+      validateErrorResponse(response, 401, 'Invalid credentials');
+    });
+
+    it('should reject a wrong password for the email address', async () => {
+      const { credentials } = await registerWithVerifiedEmail(context);
+
+      const response = await failLogin(credentials.email, 401);
+
+      validateErrorResponse(response, 401, 'Invalid credentials');
+    });
+
+    it('should count attempts with username and email address together', async () => {
+      const { credentials } = await registerWithVerifiedEmail(context);
+
+      await failLogin(credentials.email, 401);
+      await failLogin(credentials.username, 401);
+      await failLogin(credentials.email, 423);
+
+      await request(context.app)
+        .post('/auth/login')
+        .send({ username: credentials.username, password: credentials.password })
+        .expect(423);
+    });
+
+    it('should require a verified email address when configured', async () => {
+      const requiredContext = await setupIntegrationTest({ EMAIL_VERIFICATION_REQUIRED: 'true' });
+      const credentials = await registerUserWithEmail(requiredContext.app);
+
+      const response = await request(requiredContext.app)
+        .post('/auth/login')
+        .send({ username: credentials.username, password: credentials.password })
+        .expect(403);
+      validateErrorResponse(response, 403, 'Email address is not verified');
+
+      const { auditLogs } = await requiredContext.containerDAO.auditLogDAO.findAuditLogs(
+        { action: 'auth.login_rejected' }, 1, 100
+      );
+      expect(auditLogs.some(entry => entry.actor.username === credentials.username)).toBe(true);
+
+      await request(requiredContext.app)
+        .post('/auth/email/verify')
+        .send({ token: verificationTokenSentTo(requiredContext, credentials.email) })
+        .expect(200);
+
+      const verifiedResponse = await request(requiredContext.app)
+        .post('/auth/login')
+        .send({ username: credentials.email, password: credentials.password })
+        .expect(200);
+      validateAuthResponse(verifiedResponse);
+      expect(verifiedResponse.body.user.isEmailVerified).toBe(true);
+    });
+  });
+
+  describe('login with scopes', () => {
+    /**
+     * Register a user and log in with the given scopes
+     */
+    const loginWithScopes = async (scopes: string[]) => {
+      const credentials = await registerUser();
+      const response = await request(context.app)
+        .post('/auth/login')
+        .send({ username: credentials.username, password: credentials.password, scopes })
+        .expect(200);
+      return response.body;
+    };
+
+    it('should issue read-only tokens that cannot modify projects', async () => {
+      const { accessToken } = await loginWithScopes(['project:read']);
+
+      await request(context.app)
+        .get('/project/list')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      const response = await request(context.app)
+        .post('/project')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send(createTestProject())
+        .expect(403);
+      validateErrorResponse(response, 403, 'Access token is missing the project:write scope');
+    });
+
+    it('should keep the scopes when the tokens are refreshed', async () => {
+      const { refreshToken } = await loginWithScopes(['project:read']);
+
+      const refreshResponse = await request(context.app)
+        .post('/auth/token/refresh')
+        .send({ refreshToken })
+        .expect(200);
+
+      await request(context.app)
+        .delete('/project/507f1f77bcf86cd799439011')
+        .set('Authorization', `Bearer ${refreshResponse.body.accessToken}`)
+        .expect(403);
+    });
+
+    it('should not let read-only tokens create API keys with more scopes', async () => {
+      const { accessToken } = await loginWithScopes(['project:read']);
+
+      const response = await request(context.app)
+        .post('/auth/api-keys')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'Escalated', scopes: ['project:read', 'project:write'] })
+        .expect(403);
+      validateErrorResponse(response, 403, 'Access token is missing the project:write scope');
+    });
+
+    it('should grant every scope when none is requested', async () => {
+      const credentials = await registerUser();
+      const loginResponse = await request(context.app)
+        .post('/auth/login')
+        .send({ username: credentials.username, password: credentials.password })
+        .expect(200);
+
+      await request(context.app)
+        .post('/project')
+        .set('Authorization', `Bearer ${loginResponse.body.accessToken}`)
+        .send(createTestProject())
+        .expect(201);
+    });
+
+    it('should reject unknown scopes', async () => {
+      const credentials = await registerUser();
+
+      const response = await request(context.app)
+        .post('/auth/login')
+        .send({ username: credentials.username, password: credentials.password, scopes: ['admin'] })
+        .expect(400);
+      validateErrorResponse(response, 400);
+    });
+  });
 });
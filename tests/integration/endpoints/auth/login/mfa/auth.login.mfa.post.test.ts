@@ -0,0 +1,186 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse } from '../../../../helpers';
+import { createUserWithTotp, loginForMfaToken, totpCode } from '../../mfa/mfaHelpers';
+import { createTestProject } from '../../../project/projectHelpers';
+
+const INVALID_MFA_TOKEN_MESSAGE = 'Invalid or expired MFA token';
+const INVALID_CODE_MESSAGE = 'Invalid verification code';
+
+describe('Auth Login MFA Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  // A fresh app per test gets fresh rate limiters, so failed codes of one test do not throttle the next
+  beforeEach(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  /**
+   * Return a six digit code that differs from every code accepted around now
+   */
+  const wrongCode = (secret: string): string => {
+    const acceptedCodes = [-1, 0, 1].map(offset => totpCode(secret, offset));
+    let code = 0;
+    while (acceptedCodes.includes(String(code).padStart(6, '0'))) {
+      code++;
+    }
+    return String(code).padStart(6, '0');
+  };
+
+  describe('POST /auth/login', () => {
+    it('should return an MFA challenge instead of tokens', async () => {
+      const { credentials } = await createUserWithTotp(context);
+
+      const response = await request(context.app)
+        .post('/auth/login')
+        .send(credentials)
+        .expect(200);
+
+      expect(response.body).toEqual({ mfaRequired: true, mfaToken: expect.any(String) });
+    });
+  });
+
+  describe('POST /auth/login/mfa', () => {
+    it('should issue tokens for a valid authenticator code', async () => {
+      const { user, credentials, secret } = await createUserWithTotp(context);
+      const mfaToken = await loginForMfaToken(context, credentials);
+
+      // The current step was used to confirm the enrollment
+      const response = await request(context.app)
+        .post('/auth/login/mfa')
+        .send({ mfaToken, code: totpCode(secret, 1) })
+        .expect(200);
+
+      expect(response.body.accessToken).toBeDefined();
+      expect(response.body.refreshToken).toBeDefined();
+      expect(response.body.user.id).toBe(user.id);
+
+      await request(context.app)
+        .get('/projects')
+        .set('Authorization', `Bearer ${response.body.accessToken}`)
+        .expect(200);
+    });
+
+    it('should grant the scopes requested at login', async () => {
+      const { credentials, secret } = await createUserWithTotp(context);
+      const mfaToken = await loginForMfaToken(context, { ...credentials, scopes: ['project:read'] });
+
+      const response = await request(context.app)
+        .post('/auth/login/mfa')
+        .send({ mfaToken, code: totpCode(secret, 1) })
+        .expect(200);
+
+      await request(context.app)
+        .post('/project')
+        .set('Authorization', `Bearer ${response.body.accessToken}`)
+        .send(createTestProject())
+        .expect(403);
+    });
+
+    it('should refuse an authenticator code that was already used', async () => {
+      const { credentials, secret } = await createUserWithTotp(context);
+
+      const response = await request(context.app)
+        .post('/auth/login/mfa')
+        .send({ mfaToken: await loginForMfaToken(context, credentials), code: totpCode(secret) })
+        .expect(401);
+
+      validateErrorResponse(response, 401, INVALID_CODE_MESSAGE);
+    });
+
+    it('should accept each recovery code once', async () => {
+      const { credentials, recoveryCodes } = await createUserWithTotp(context);
+
+      await request(context.app)
+        .post('/auth/login/mfa')
+        .send({ mfaToken: await loginForMfaToken(context, credentials), code: recoveryCodes[0].toUpperCase() })
+        .expect(200);
+
+      const response = await request(context.app)
+        .post('/auth/login/mfa')
+        .send({ mfaToken: await loginForMfaToken(context, credentials), code: recoveryCodes[0] })
+        .expect(401);
+
+      validateErrorResponse(response, 401, INVALID_CODE_MESSAGE);
+    });
+
+    it('should lock the username after too many wrong codes', async () => {
+      // Integration tests configure LOGIN_MAX_FAILED_ATTEMPTS=3
+      const { credentials, secret } = await createUserWithTotp(context);
+      const mfaToken = await loginForMfaToken(context, credentials);
+
+      for (const expectedStatus of [401, 401, 423]) {
+        await request(context.app)
+          .post('/auth/login/mfa')
+          .send({ mfaToken, code: wrongCode(secret) })
+          .expect(expectedStatus);
+      }
+
+      await request(context.app)
+        .post('/auth/login/mfa')
+        .send({ mfaToken, code: totpCode(secret, 1) })
+        .expect(423);
+    });
+
+    it('should not reset the failed attempts after the password step', async () => {
+      const { credentials, secret } = await createUserWithTotp(context);
+
+      await request(context.app)
+        .post('/auth/login/mfa')
+        .send({ mfaToken: await loginForMfaToken(context, credentials), code: wrongCode(secret) })
+        .expect(401);
+      await loginForMfaToken(context, credentials);
+
+      const loginAttempt = await context.containerDAO.loginAttemptDAO.findByUsername(credentials.username);
+      expect(loginAttempt?.failedAttempts).toBe(1);
+    });
+
+    it('should reject an access token used as MFA token', async () => {
+      const { accessToken, secret } = await createUserWithTotp(context);
+
+      const response = await request(context.app)
+        .post('/auth/login/mfa')
+        .send({ mfaToken: accessToken, code: totpCode(secret, 1) })
+        .expect(401);
+
+      validateErrorResponse(response, 401, INVALID_MFA_TOKEN_MESSAGE);
+    });
+
+    it('should reject an MFA token used as access token', async () => {
+      const { credentials } = await createUserWithTotp(context);
+      const mfaToken = await loginForMfaToken(context, credentials);
+
+      await request(context.app)
+        .get('/projects')
+        .set('Authorization', `Bearer ${mfaToken}`)
+        .expect(401);
+    });
+
+    it('should reject MFA tokens once two-factor authentication is disabled', async () => {
+      const { accessToken, credentials, secret } = await createUserWithTotp(context);
+      const mfaToken = await loginForMfaToken(context, credentials);
+
+      await request(context.app)
+        .post('/auth/mfa/totp/disable')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password: credentials.password })
+        .expect(200);
+
+      const response = await request(context.app)
+        .post('/auth/login/mfa')
+        .send({ mfaToken, code: totpCode(secret, 1) })
+        .expect(401);
+
+      validateErrorResponse(response, 401, INVALID_MFA_TOKEN_MESSAGE);
+    });
+
+    it('should validate required fields', async () => {
+      const response = await request(context.app)
+        .post('/auth/login/mfa')
+        .send({ code: '123456' })
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'MFA token is required');
+    });
+  });
+});
@@ -40,6 +40,44 @@ describe('Auth Logout Integration Tests', () => {
       expect(new Date(logoutResponse.body.loggedOutAt).getTime()).not.toBeNaN();
     });
 
+    it('should revoke every access token of the session', async () => {
+      const credentials = createTestCredentials();
+
+      await request(context.app)
+        .post('/auth/register')
+        .send(credentials)
+        .expect(201);
+
+      const loginResponse = await request(context.app)
+        .post('/auth/login')
+        .send(credentials)
+        .expect(200);
+
+      const refreshResponse = await request(context.app)
+        .post('/auth/token/refresh')
+        .send({ refreshToken: loginResponse.body.refreshToken })
+        .expect(200);
+
+      await request(context.app)
+        .post('/auth/logout')
+        .send({ accessToken: refreshResponse.body.accessToken, refreshToken: refreshResponse.body.refreshToken })
+        .expect(200);
+
+      for (const accessToken of [loginResponse.body.accessToken, refreshResponse.body.accessToken]) {
+        const response = await request(context.app)
+          .get('/project/list')
+          .set('Authorization', `Bearer ${accessToken}`)
+          .expect(401);
+
+        validateErrorResponse(response, 401, 'Access token has been revoked');
+      }
+
+      await request(context.app)
+        .post('/auth/token/refresh')
+        .send({ refreshToken: refreshResponse.body.refreshToken })
+        .expect(401);
+    });
+
     it('should return proper content type', async () => {
       const credentials = createTestCredentials();
       
@@ -272,7 +310,7 @@ describe('Auth Logout Integration Tests', () => {
     });
 
     it('should handle tokens that exist in database but belong to different users', async () => {
-      // This test targets the token mismatch scenario in revokeTokenIfValid
+      // This test targets the token mismatch scenario in findOwnedToken
       // We'll create two users, get their tokens, then try to logout with mixed tokens where
       // the tokens themselves are valid but the stored tokens in DB belong to different users
       const credentials1 = createTestCredentials();
@@ -338,7 +376,6 @@ describe('Auth Logout Integration Tests', () => {
         .expect(200);
 
       // Second logout with same tokens should still succeed (graceful handling)
-      // This tests the "isRevoked" branch in revokeTokenIfValid
       const secondLogoutResponse = await request(context.app)
         .post('/auth/logout')
         .send({ accessToken, refreshToken })
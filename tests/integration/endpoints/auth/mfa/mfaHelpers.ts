@@ -0,0 +1,63 @@
+import request from 'supertest';
+import { IntegrationTestContext } from '../../../setup';
+import { createTestCredentials } from '../../../helpers';
+import { TotpService } from '../../../../../src/utils/TotpService';
+
+/**
+ * Two-factor authentication test utilities
+ */
+
+/**
+ * Compute the authenticator code of the current time step, or of a neighbouring step
+ * Codes of a step can be used once, so tests use the next step for a second code
+ */
+export const totpCode = (secret: string, stepOffset: number = 0): string =>
+  TotpService.generateCode(secret, TotpService.stepAt(Date.now()) + stepOffset);
+
+/**
+ * Register a user, enroll an authenticator app and confirm it with the current code
+ */
+export const createUserWithTotp = async (context: IntegrationTestContext) => {
+  const credentials = createTestCredentials();
+
+  const registerResponse = await request(context.app)
+    .post('/auth/register')
+    .send(credentials)
+    .expect(201);
+  const accessToken = registerResponse.body.accessToken as string;
+
+  const enrollResponse = await request(context.app)
+    .post('/auth/mfa/totp/enroll')
+    .set('Authorization', `Bearer ${accessToken}`)
+    .expect(200);
+  const secret = enrollResponse.body.secret as string;
+
+  await request(context.app)
+    .post('/auth/mfa/totp/confirm')
+    .set('Authorization', `Bearer ${accessToken}`)
+    .send({ code: totpCode(secret) })
+    .expect(200);
+
+  return {
+    user: registerResponse.body.user,
+    accessToken,
+    credentials,
+    secret,
+    recoveryCodes: enrollResponse.body.recoveryCodes as string[]
+  };
+};
+
+/**
+ * Log in with the password of a user with two-factor authentication and return the MFA token
+ */
+export const loginForMfaToken = async (
+  context: IntegrationTestContext,
+  credentials: { username: string; password: string; scopes?: string[] }
+): Promise<string> => {
+  const response = await request(context.app)
+    .post('/auth/login')
+    .send(credentials)
+    .expect(200);
+
+  return response.body.mfaToken as string;
+};
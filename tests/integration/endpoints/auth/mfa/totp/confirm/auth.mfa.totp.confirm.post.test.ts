@@ -0,0 +1,115 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../../setup';
+import { validateErrorResponse, createTestCredentials } from '../../../../../helpers';
+import { createUserWithTotp, totpCode } from '../../mfaHelpers';
+
+describe('Auth MFA TOTP Confirm Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  /**
+   * Register a user and start an enrollment
+   */
+  const registerAndEnroll = async () => {
+    const credentials = createTestCredentials();
+    const registerResponse = await request(context.app)
+      .post('/auth/register')
+      .send(credentials)
+      .expect(201);
+    const accessToken = registerResponse.body.accessToken as string;
+
+    const enrollResponse = await request(context.app)
+      .post('/auth/mfa/totp/enroll')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200);
+
+    return {
+      credentials, accessToken, userId: registerResponse.body.user.id as string,
+      secret: enrollResponse.body.secret as string
+    };
+  };
+
+  describe('POST /auth/mfa/totp/confirm', () => {
+    it('should enable two-factor authentication', async () => {
+      const { credentials, accessToken, userId, secret } = await registerAndEnroll();
+
+      const response = await request(context.app)
+        .post('/auth/mfa/totp/confirm')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ code: totpCode(secret) })
+        .expect(200);
+
+      expect(response.body.message).toBe('Two-factor authentication enabled');
+
+      const loginResponse = await request(context.app)
+        .post('/auth/login')
+        .send(credentials)
+        .expect(200);
+
+      expect(loginResponse.body.mfaRequired).toBe(true);
+      expect(loginResponse.body.accessToken).toBeUndefined();
+
+      const { auditLogs } = await context.containerDAO.auditLogDAO.findAuditLogs(
+        { action: 'auth.mfa_enable', targetId: userId }, 1, 10
+      );
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0].changes).toEqual({ before: { isMfaEnabled: false }, after: { isMfaEnabled: true } });
+    });
+
+    it('should reject wrong codes', async () => {
+      const { accessToken, secret } = await registerAndEnroll();
+      const wrongCode = totpCode(secret) === '000000' ? '111111' : '000000';
+
+      const response = await request(context.app)
+        .post('/auth/mfa/totp/confirm')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ code: wrongCode })
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'Invalid verification code');
+    });
+
+    it('should reject users without an enrollment in progress', async () => {
+      const credentials = createTestCredentials();
+      const registerResponse = await request(context.app)
+        .post('/auth/register')
+        .send(credentials)
+        .expect(201);
+
+      const response = await request(context.app)
+        .post('/auth/mfa/totp/confirm')
+        .set('Authorization', `Bearer ${registerResponse.body.accessToken}`)
+        .send({ code: '123456' })
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'No two-factor enrollment in progress');
+    });
+
+    it('should reject users that already enabled two-factor authentication', async () => {
+      const { accessToken, secret } = await createUserWithTotp(context);
+
+      const response = await request(context.app)
+        .post('/auth/mfa/totp/confirm')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ code: totpCode(secret, 1) })
+        .expect(409);
+
+      validateErrorResponse(response, 409, 'Two-factor authentication is already enabled');
+    });
+
+    it('should validate required fields', async () => {
+      const { accessToken } = await registerAndEnroll();
+
+      const response = await request(context.app)
+        .post('/auth/mfa/totp/confirm')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({})
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'Code is required');
+    });
+  });
+});
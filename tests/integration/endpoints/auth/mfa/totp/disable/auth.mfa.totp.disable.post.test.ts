@@ -0,0 +1,75 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../../setup';
+import { validateErrorResponse, createTestCredentials } from '../../../../../helpers';
+import { createUserWithTotp } from '../../mfaHelpers';
+
+describe('Auth MFA TOTP Disable Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('POST /auth/mfa/totp/disable', () => {
+    it('should turn two-factor authentication off', async () => {
+      const { user, accessToken, credentials } = await createUserWithTotp(context);
+
+      const response = await request(context.app)
+        .post('/auth/mfa/totp/disable')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password: credentials.password })
+        .expect(200);
+
+      expect(response.body.message).toBe('Two-factor authentication disabled');
+
+      const loginResponse = await request(context.app)
+        .post('/auth/login')
+        .send(credentials)
+        .expect(200);
+
+      expect(loginResponse.body.accessToken).toBeDefined();
+
+      const { auditLogs } = await context.containerDAO.auditLogDAO.findAuditLogs(
+        { action: 'auth.mfa_disable', targetId: user.id }, 1, 10
+      );
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0].actor).toMatchObject({ userId: user.id, username: credentials.username });
+      expect(auditLogs[0].changes).toEqual({ before: { isMfaEnabled: true }, after: { isMfaEnabled: false } });
+    });
+
+    it('should reject a wrong password', async () => {
+      const { accessToken } = await createUserWithTotp(context);
+
+      const response = await request(context.app)
+        .post('/auth/mfa/totp/disable')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password: 'WrongPassword123' })
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'Password is incorrect');
+    });
+
+    it('should reject users without two-factor authentication', async () => {
+      const credentials = createTestCredentials();
+      const registerResponse = await request(context.app)
+        .post('/auth/register')
+        .send(credentials)
+        .expect(201);
+
+      const response = await request(context.app)
+        .post('/auth/mfa/totp/disable')
+        .set('Authorization', `Bearer ${registerResponse.body.accessToken}`)
+        .send({ password: credentials.password })
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'Two-factor authentication is not enabled');
+    });
+
+    it('should require authentication', async () => {
+      await request(context.app)
+        .post('/auth/mfa/totp/disable')
+        .send({ password: 'MySecurePassword123' })
+        .expect(401);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../../setup';
+import { validateErrorResponse, createTestCredentials } from '../../../../../helpers';
+import { createUserWithTotp } from '../../mfaHelpers';
+
+describe('Auth MFA TOTP Enroll Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  /**
+   * Register a user and return its access token
+   */
+  const registerUser = async () => {
+    const credentials = createTestCredentials();
+    const response = await request(context.app)
+      .post('/auth/register')
+      .send(credentials)
+      .expect(201);
+    return { credentials, accessToken: response.body.accessToken as string, userId: response.body.user.id as string };
+  };
+
+  describe('POST /auth/mfa/totp/enroll', () => {
+    it('should return a secret, an otpauth URI and recovery codes', async () => {
+      const { credentials, accessToken, userId } = await registerUser();
+
+      const response = await request(context.app)
+        .post('/auth/mfa/totp/enroll')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(response.body.otpauthUri).toBe(
+        `otpauth://totp/Test%20Server:${credentials.username}` +
+        `?secret=${response.body.secret}&issuer=Test+Server&algorithm=SHA1&digits=6&period=30`
+      );
+      expect(response.body.recoveryCodes).toHaveLength(10);
+
+      const { auditLogs } = await context.containerDAO.auditLogDAO.findAuditLogs(
+        { action: 'auth.mfa_enroll', targetId: userId }, 1, 10
+      );
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0].actor).toMatchObject({ userId, username: credentials.username });
+      expect(JSON.stringify(auditLogs[0])).not.toContain(response.body.secret);
+    });
+
+    it('should not require a code at login before the enrollment is confirmed', async () => {
+      const { credentials, accessToken } = await registerUser();
+
+      await request(context.app)
+        .post('/auth/mfa/totp/enroll')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      const response = await request(context.app)
+        .post('/auth/login')
+        .send(credentials)
+        .expect(200);
+
+      expect(response.body.accessToken).toBeDefined();
+      expect(response.body.mfaRequired).toBeUndefined();
+    });
+
+    it('should replace an unconfirmed enrollment', async () => {
+      const { accessToken } = await registerUser();
+
+      const first = await request(context.app)
+        .post('/auth/mfa/totp/enroll')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+      const second = await request(context.app)
+        .post('/auth/mfa/totp/enroll')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(second.body.secret).not.toBe(first.body.secret);
+    });
+
+    it('should reject users that already enabled two-factor authentication', async () => {
+      const { accessToken } = await createUserWithTotp(context);
+
+      const response = await request(context.app)
+        .post('/auth/mfa/totp/enroll')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(409);
+
+      validateErrorResponse(response, 409, 'Two-factor authentication is already enabled');
+    });
+
+    it('should require authentication', async () => {
+      await request(context.app)
+        .post('/auth/mfa/totp/enroll')
+        .expect(401);
+    });
+  });
+});
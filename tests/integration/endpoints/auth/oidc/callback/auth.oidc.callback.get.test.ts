@@ -0,0 +1,201 @@
+import request from 'supertest';
+import { IntegrationTestContext } from '../../../../setup';
+import { validateAuthResponse, validateErrorResponse } from '../../../../helpers';
+import { MongoDBSessionProducer } from '../../../../../../src/domain/mongodb/MongoDBSessionProducer';
+import { MockOidcIssuer } from '../../../../../mocks/MockOidcIssuer';
+import { registerWithVerifiedEmail, createTestCredentialsWithEmail } from '../../email/emailHelpers';
+import { totpCode } from '../../mfa/mfaHelpers';
+import {
+  callbackPath,
+  createOidcAccount,
+  OIDC_PROVIDER,
+  setupOidcIntegrationTest,
+  signInWithOidc,
+  startOidcSignIn
+} from '../oidcHelpers';
+
+describe('Auth OIDC Callback Integration Tests', () => {
+  const issuer = new MockOidcIssuer();
+
+  beforeAll(async () => {
+    await issuer.start();
+  });
+
+  afterAll(async () => {
+    await issuer.stop();
+  });
+
+  describe('GET /auth/oidc/:provider/callback', () => {
+    let context: IntegrationTestContext;
+
+    beforeAll(async () => {
+      context = await setupOidcIntegrationTest(issuer);
+    });
+
+    it('should create a user with a verified email on the first sign-in', async () => {
+      const account = createOidcAccount();
+
+      const response = await signInWithOidc(context, issuer, account);
+
+      validateAuthResponse(response);
+      expect(response.body.user.username).toBe(account.preferred_username);
+      expect(response.body.user.email).toBe(account.email);
+      expect(response.body.user.isEmailVerified).toBe(true);
+      expect(response.body.user.roles).toEqual(['user']);
+    });
+
+    it('should sign in the same user with the same provider account', async () => {
+      const account = createOidcAccount();
+
+      const first = await signInWithOidc(context, issuer, account);
+      const second = await signInWithOidc(context, issuer, account);
+
+      expect(second.body.user.id).toBe(first.body.user.id);
+    });
+
+    it('should link the provider account to the user with the same verified email', async () => {
+      const { credentials, user } = await registerWithVerifiedEmail(context);
+      const account = createOidcAccount({ email: credentials.email, preferred_username: 'someone_else' });
+
+      const response = await signInWithOidc(context, issuer, account);
+
+      expect(response.body.user.id).toBe(user.id);
+      expect(response.body.user.username).toBe(credentials.username);
+    });
+
+    it('should pick another username when the preferred one is taken', async () => {
+      const { credentials } = await registerWithVerifiedEmail(context);
+      const account = createOidcAccount({ preferred_username: credentials.username });
+
+      const response = await signInWithOidc(context, issuer, account);
+
+      expect(response.body.user.username).toMatch(new RegExp(`^${credentials.username}_\\d{4}$`));
+    });
+
+    it('should create a user without email when the provider did not verify it', async () => {
+      const account = createOidcAccount({ email_verified: false });
+
+      const response = await signInWithOidc(context, issuer, account);
+
+      expect(response.body.user.email).toBeNull();
+      expect(response.body.user.isEmailVerified).toBe(false);
+    });
+
+    it('should require the second factor of users with two-factor authentication', async () => {
+      const account = createOidcAccount();
+      const signInResponse = await signInWithOidc(context, issuer, account);
+      const accessToken = signInResponse.body.accessToken as string;
+
+      const enrollResponse = await request(context.app)
+        .post('/auth/mfa/totp/enroll')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+      await request(context.app)
+        .post('/auth/mfa/totp/confirm')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ code: totpCode(enrollResponse.body.secret) })
+        .expect(200);
+
+      const response = await signInWithOidc(context, issuer, account);
+
+      expect(response.body.mfaRequired).toBe(true);
+      expect(typeof response.body.mfaToken).toBe('string');
+      expect(response.body.accessToken).toBeUndefined();
+    });
+
+    it('should clear the state cookie', async () => {
+      const response = await signInWithOidc(context, issuer, createOidcAccount());
+
+      const cookies = response.headers['set-cookie'] as unknown as string[];
+      const stateCookie = cookies.find(cookie => cookie.startsWith('oidc_state='));
+      expect(stateCookie).toContain('Expires=Thu, 01 Jan 1970');
+      expect(stateCookie).toContain(`Path=/auth/oidc/${OIDC_PROVIDER}/callback`);
+    });
+  });
+
+  describe('GET /auth/oidc/:provider/callback - rejections', () => {
+    // Each test starts from a fresh app, as failed callbacks count against the strict rate limit
+    let context: IntegrationTestContext;
+
+    beforeEach(async () => {
+      context = await setupOidcIntegrationTest(issuer);
+    });
+
+    it('should reject a callback without the state cookie', async () => {
+      const { authorizationUrl } = await startOidcSignIn(context);
+
+      const response = await request(context.app)
+        .get(callbackPath(issuer.authorize(authorizationUrl, createOidcAccount())))
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'Invalid or expired OIDC state');
+    });
+
+    it('should reject a callback with the state of another sign-in', async () => {
+      const { cookies } = await startOidcSignIn(context);
+      const { authorizationUrl } = await startOidcSignIn(context);
+
+      const response = await request(context.app)
+        .get(callbackPath(issuer.authorize(authorizationUrl, createOidcAccount())))
+        .set('Cookie', cookies)
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'Invalid or expired OIDC state');
+    });
+
+    it('should reject a callback without code and state', async () => {
+      const response = await request(context.app)
+        .get(`/auth/oidc/${OIDC_PROVIDER}/callback`)
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'Authorization code and state are required');
+    });
+
+    it('should reject a sign-in refused by the provider', async () => {
+      const response = await request(context.app)
+        .get(`/auth/oidc/${OIDC_PROVIDER}/callback?error=access_denied&state=abc`)
+        .expect(401);
+
+      validateErrorResponse(response, 401, 'Sign-in was cancelled or refused by the provider');
+    });
+
+    it('should take the email address from an account that has not verified it', async () => {
+      const credentials = createTestCredentialsWithEmail();
+      const registerResponse = await request(context.app)
+        .post('/auth/register')
+        .send(credentials)
+        .expect(201);
+
+      const response = await signInWithOidc(context, issuer, createOidcAccount({ email: credentials.email }));
+
+      expect(response.body.user.id).not.toBe(registerResponse.body.user.id);
+      expect(response.body.user).toMatchObject({ email: credentials.email, isEmailVerified: true });
+      const squatter = await context.containerDAO.userDAO.findById(registerResponse.body.user.id);
+      expect(squatter?.email).toBeNull();
+    });
+
+    it('should reject the sign-in of a disabled user', async () => {
+      const account = createOidcAccount();
+      const signInResponse = await signInWithOidc(context, issuer, account);
+
+      const dbSession = await new MongoDBSessionProducer().createSession();
+      try {
+        await context.containerDAO.userDAO.setUserDisabled(dbSession, signInResponse.body.user.id, true);
+      } finally {
+        await dbSession.endSession();
+      }
+
+      const response = await signInWithOidc(context, issuer, account, 403);
+
+      validateErrorResponse(response, 403, 'Account is disabled');
+    });
+
+    it('should return 404 for providers that are not configured', async () => {
+      const response = await request(context.app)
+        .get('/auth/oidc/unknown/callback?code=abc&state=abc')
+        .expect(404);
+
+      validateErrorResponse(response, 404, 'OIDC provider not found');
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import request from 'supertest';
+import { randomBytes } from 'crypto';
+import { IntegrationTestContext, setupIntegrationTest } from '../../../setup';
+import { createTestCredentials } from '../../../helpers';
+import { MockOidcAccount, MockOidcIssuer } from '../../../../mocks/MockOidcIssuer';
+
+/**
+ * OpenID Connect sign-in test utilities
+ */
+
+/** Name of the provider configured for the mock issuer */
+export const OIDC_PROVIDER = 'mock';
+
+/**
+ * Setup an integration test with the mock issuer configured as provider
+ */
+export const setupOidcIntegrationTest = (
+  issuer: MockOidcIssuer,
+  envOverrides: Record<string, string> = {}
+): Promise<IntegrationTestContext> => setupIntegrationTest({
+  OIDC_PROVIDERS: OIDC_PROVIDER,
+  OIDC_MOCK_ISSUER: issuer.issuer,
+  OIDC_MOCK_CLIENT_ID: issuer.clientId,
+  OIDC_MOCK_CLIENT_SECRET: issuer.clientSecret,
+  ...envOverrides
+});
+
+/**
+ * Create a unique provider account with a verified email address
+ */
+export const createOidcAccount = (overrides: Partial<MockOidcAccount> = {}): MockOidcAccount => {
+  const { username } = createTestCredentials();
+  return {
+    sub: randomBytes(12).toString('hex'),
+    email: `${username}@example.com`,
+    email_verified: true,
+    preferred_username: username,
+    ...overrides
+  };
+};
+
+/**
+ * Start a sign-in and return the provider URL together with the state cookie
+ */
+export const startOidcSignIn = async (context: IntegrationTestContext) => {
+  const response = await request(context.app)
+    .get(`/auth/oidc/${OIDC_PROVIDER}/start`)
+    .expect(302);
+
+  return {
+    authorizationUrl: response.headers.location as string,
+    cookies: response.headers['set-cookie'] as unknown as string[]
+  };
+};
+
+/**
+ * Return path and query of a callback URL, as requested by the browser
+ */
+export const callbackPath = (callbackUrl: string): string => {
+  const url = new URL(callbackUrl);
+  return `${url.pathname}${url.search}`;
+};
+
+/**
+ * Sign in with a provider account through start, provider and callback
+ */
+export const signInWithOidc = async (
+  context: IntegrationTestContext,
+  issuer: MockOidcIssuer,
+  account: MockOidcAccount,
+  expectedStatus: number = 200
+) => {
+  const { authorizationUrl, cookies } = await startOidcSignIn(context);
+  return request(context.app)
+    .get(callbackPath(issuer.authorize(authorizationUrl, account)))
+    .set('Cookie', cookies)
+    .expect(expectedStatus);
+};
@@ -0,0 +1,62 @@
+import request from 'supertest';
+import { IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse } from '../../../../helpers';
+import { MockOidcIssuer } from '../../../../../mocks/MockOidcIssuer';
+import { OIDC_PROVIDER, setupOidcIntegrationTest, startOidcSignIn } from '../oidcHelpers';
+
+describe('Auth OIDC Start Integration Tests', () => {
+  const issuer = new MockOidcIssuer();
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    await issuer.start();
+    context = await setupOidcIntegrationTest(issuer, { OIDC_REDIRECT_BASE_URL: 'https://api.example.com' });
+  });
+
+  afterAll(async () => {
+    await issuer.stop();
+  });
+
+  describe('GET /auth/oidc/:provider/start', () => {
+    it('should redirect to the provider with state, nonce and PKCE challenge', async () => {
+      const { authorizationUrl } = await startOidcSignIn(context);
+
+      const url = new URL(authorizationUrl);
+      expect(`${url.origin}${url.pathname}`).toBe(`${issuer.issuer}/authorize`);
+      expect(url.searchParams.get('response_type')).toBe('code');
+      expect(url.searchParams.get('client_id')).toBe(issuer.clientId);
+      expect(url.searchParams.get('redirect_uri')).toBe(`https://api.example.com/auth/oidc/${OIDC_PROVIDER}/callback`);
+      expect(url.searchParams.get('scope')).toBe('openid email profile');
+      expect(url.searchParams.get('state')).toBeTruthy();
+      expect(url.searchParams.get('nonce')).toBeTruthy();
+      expect(url.searchParams.get('code_challenge')).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    });
+
+    it('should keep the state in an HTTP-only cookie scoped to the callback', async () => {
+      const { cookies } = await startOidcSignIn(context);
+
+      const stateCookie = cookies.find(cookie => cookie.startsWith('oidc_state='));
+      expect(stateCookie).toBeDefined();
+      expect(stateCookie).toContain('HttpOnly');
+      expect(stateCookie).toContain('SameSite=Lax');
+      expect(stateCookie).toContain(`Path=/auth/oidc/${OIDC_PROVIDER}/callback`);
+    });
+
+    it('should use a new state for every sign-in', async () => {
+      const first = new URL((await startOidcSignIn(context)).authorizationUrl);
+      const second = new URL((await startOidcSignIn(context)).authorizationUrl);
+
+      expect(first.searchParams.get('state')).not.toBe(second.searchParams.get('state'));
+      expect(first.searchParams.get('nonce')).not.toBe(second.searchParams.get('nonce'));
+    });
+
+    it('should return 404 for providers that are not configured', async () => {
+      const response = await request(context.app)
+        .get('/auth/oidc/unknown/start')
+        .expect(404);
+
+      validateErrorResponse(response, 404, 'OIDC provider not found');
+    });
+  });
+});
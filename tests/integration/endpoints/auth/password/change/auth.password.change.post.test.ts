@@ -0,0 +1,158 @@
+import request from 'supertest';
+import { Application } from 'express';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse, createTestCredentials } from '../../../../helpers';
+
+const NEW_PASSWORD = 'NewPassword456!';
+
+/**
+ * Register a user and open a second session for it
+ */
+const createUserWithTwoSessions = async (app: Application) => {
+  const credentials = createTestCredentials();
+
+  const current = await request(app)
+    .post('/auth/register')
+    .send(credentials)
+    .expect(201);
+
+  const other = await request(app)
+    .post('/auth/login')
+    .send(credentials)
+    .expect(200);
+
+  return { credentials, current: current.body, other: other.body };
+};
+
+describe('Auth Password Change Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('POST /auth/password/change', () => {
+    it('should change the password and revoke every other session', async () => {
+      const { credentials, current, other } = await createUserWithTwoSessions(context.app);
+
+      const response = await request(context.app)
+        .post('/auth/password/change')
+        .set('Authorization', `Bearer ${current.accessToken}`)
+        .send({ currentPassword: credentials.password, newPassword: NEW_PASSWORD })
+        .expect(200);
+
+      expect(response.body.message).toBe('Password changed successfully');
+      expect(response.body.revokedSessions).toBe(1);
+
+      // Current session keeps working
+      await request(context.app)
+        .get('/project/list')
+        .set('Authorization', `Bearer ${current.accessToken}`)
+        .expect(200);
+
+      await request(context.app)
+        .post('/auth/token/refresh')
+        .send({ refreshToken: current.refreshToken })
+        .expect(200);
+
+      // Other session is logged out
+      await request(context.app)
+        .get('/project/list')
+        .set('Authorization', `Bearer ${other.accessToken}`)
+        .expect(401);
+
+      await request(context.app)
+        .post('/auth/token/refresh')
+        .send({ refreshToken: other.refreshToken })
+        .expect(401);
+
+      // Only the new password is accepted from now on
+      await request(context.app)
+        .post('/auth/login')
+        .send(credentials)
+        .expect(401);
+
+      await request(context.app)
+        .post('/auth/login')
+        .send({ username: credentials.username, password: NEW_PASSWORD })
+        .expect(200);
+
+      const { auditLogs } = await context.containerDAO.auditLogDAO.findAuditLogs(
+        { action: 'auth.password_change', targetId: current.user.id }, 1, 10
+      );
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0].actor).toMatchObject({ userId: current.user.id, username: credentials.username });
+      expect(auditLogs[0].changes?.after).toEqual({ revokedSessions: 1 });
+    });
+
+    it('should reject an incorrect current password', async () => {
+      const { credentials, current, other } = await createUserWithTwoSessions(context.app);
+
+      const response = await request(context.app)
+        .post('/auth/password/change')
+        .set('Authorization', `Bearer ${current.accessToken}`)
+        .send({ currentPassword: 'WrongPassword123', newPassword: NEW_PASSWORD })
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'Current password is incorrect');
+
+      // Nothing changed
+      await request(context.app)
+        .get('/project/list')
+        .set('Authorization', `Bearer ${other.accessToken}`)
+        .expect(200);
+
+      await request(context.app)
+        .post('/auth/login')
+        .send(credentials)
+        .expect(200);
+    });
+
+    it('should apply the registration strength rules to the new password', async () => {
+      const { credentials, current } = await createUserWithTwoSessions(context.app);
+
+      const weakPasswords = ['short1A', 'nouppercase123', 'NOLOWERCASE123', 'NoNumbersHere'];
+
+      for (const newPassword of weakPasswords) {
+        const response = await request(context.app)
+          .post('/auth/password/change')
+          .set('Authorization', `Bearer ${current.accessToken}`)
+          .send({ currentPassword: credentials.password, newPassword })
+          .expect(400);
+
+        validateErrorResponse(response, 400, 'New password must');
+      }
+    });
+
+    it('should reject reusing the current password', async () => {
+      const { credentials, current } = await createUserWithTwoSessions(context.app);
+
+      const response = await request(context.app)
+        .post('/auth/password/change')
+        .set('Authorization', `Bearer ${current.accessToken}`)
+        .send({ currentPassword: credentials.password, newPassword: credentials.password })
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'New password must be different from the current password');
+    });
+
+    it('should validate required fields', async () => {
+      const { current } = await createUserWithTwoSessions(context.app);
+
+      await request(context.app)
+        .post('/auth/password/change')
+        .set('Authorization', `Bearer ${current.accessToken}`)
+        .send({ newPassword: NEW_PASSWORD })
+        .expect(400);
+    });
+
+    it('should require authentication', async () => {
+      const response = await request(context.app)
+        .post('/auth/password/change')
+        .send({ currentPassword: 'TestPassword123!', newPassword: NEW_PASSWORD })
+        .expect(401);
+
+      validateErrorResponse(response, 401);
+    });
+  });
+});
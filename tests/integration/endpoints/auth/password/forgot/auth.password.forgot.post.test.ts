@@ -0,0 +1,123 @@
+import request from 'supertest';
+import { MongoDBSessionProducer } from '../../../../../../src/domain/mongodb/MongoDBSessionProducer';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse, createTestCredentials } from '../../../../helpers';
+import { createTestCredentialsWithEmail, registerWithVerifiedEmail } from '../../email/emailHelpers';
+
+const GENERIC_MESSAGE = 'If the account exists, a password reset link has been sent';
+
+describe('Auth Password Forgot Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  // A fresh app per test gives every test its own password reset rate limit budget
+  beforeEach(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('POST /auth/password/forgot', () => {
+    it('should send the reset link to a verified email address', async () => {
+      const { credentials } = await registerWithVerifiedEmail(context);
+
+      const response = await request(context.app)
+        .post('/auth/password/forgot')
+        .send({ username: credentials.username })
+        .expect(200);
+
+      expect(response.body.message).toBe(GENERIC_MESSAGE);
+
+      const mail = context.mailer.lastMessageTo(credentials.email);
+      expect(mail).toBeDefined();
+      expect(mail!.subject).toBe('Reset your password');
+      expect(mail!.text).toMatch(/http:\/\/localhost:3000\/reset-password\?token=[a-f0-9]{64}/);
+    });
+
+    it('should not send a reset link to an account without email address', async () => {
+      const credentials = createTestCredentials();
+      await request(context.app).post('/auth/register').send(credentials).expect(201);
+
+      const response = await request(context.app)
+        .post('/auth/password/forgot')
+        .send({ username: credentials.username })
+        .expect(200);
+
+      expect(response.body.message).toBe(GENERIC_MESSAGE);
+      expect(context.mailer.sentMessages).toHaveLength(0);
+    });
+
+    it('should not send the reset link to an unverified email address', async () => {
+      const credentials = createTestCredentialsWithEmail();
+      await request(context.app).post('/auth/register').send(credentials).expect(201);
+
+      await request(context.app)
+        .post('/auth/password/forgot')
+        .send({ username: credentials.username })
+        .expect(200);
+
+      expect(context.mailer.sentMessages).toHaveLength(1);
+      expect(context.mailer.lastMessageTo(credentials.email)?.subject).toBe('Verify your email address');
+    });
+
+    it('should answer identically for unknown usernames without sending mail', async () => {
+      const { credentials } = await registerWithVerifiedEmail(context);
+      const sentBefore = context.mailer.sentMessages.length;
+
+      const knownResponse = await request(context.app)
+        .post('/auth/password/forgot')
+        .send({ username: credentials.username })
+        .expect(200);
+
+      const unknownResponse = await request(context.app)
+        .post('/auth/password/forgot')
+        .send({ username: `missing_${credentials.username}` })
+        .expect(200);
+
+      expect(unknownResponse.body).toEqual(knownResponse.body);
+      expect(context.mailer.sentMessages).toHaveLength(sentBefore + 1);
+    });
+
+    it('should not send mail to a disabled account', async () => {
+      const { credentials, user } = await registerWithVerifiedEmail(context);
+      const sentBefore = context.mailer.sentMessages.length;
+
+      const dbSession = await new MongoDBSessionProducer().createSession();
+      try {
+        await context.containerDAO.userDAO.setUserDisabled(dbSession, user.id, true);
+      } finally {
+        await dbSession.endSession();
+      }
+
+      const response = await request(context.app)
+        .post('/auth/password/forgot')
+        .send({ username: credentials.username })
+        .expect(200);
+
+      expect(response.body.message).toBe(GENERIC_MESSAGE);
+      expect(context.mailer.sentMessages).toHaveLength(sentBefore);
+    });
+
+    it('should validate required fields', async () => {
+      const response = await request(context.app)
+        .post('/auth/password/forgot')
+        .send({})
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'Username is required');
+    });
+
+    it('should rate limit reset requests', async () => {
+      for (let i = 0; i < 3; i++) {
+        await request(context.app)
+          .post('/auth/password/forgot')
+          .send({ username: 'nobody' })
+          .expect(200);
+      }
+
+      const response = await request(context.app)
+        .post('/auth/password/forgot')
+        .send({ username: 'nobody' })
+        .expect(429);
+
+      expect(response.body.error).toBe('Too many password reset requests, please try again later.');
+    });
+  });
+});
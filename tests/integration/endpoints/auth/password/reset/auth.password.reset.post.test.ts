@@ -0,0 +1,193 @@
+import request from 'supertest';
+import { MongoDBSessionProducer } from '../../../../../../src/domain/mongodb/MongoDBSessionProducer';
+import { OneTimeTokenService } from '../../../../../../src/utils/OneTimeTokenService';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse } from '../../../../helpers';
+import {
+  createTestCredentialsWithEmail, registerWithVerifiedEmail, verificationTokenSentTo
+} from '../../email/emailHelpers';
+
+const NEW_PASSWORD = 'NewPassword456!';
+
+describe('Auth Password Reset Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  // A fresh app per test gives every test its own password reset rate limit budget
+  beforeEach(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  /**
+   * Request a reset link and extract the token from the delivered mail
+   */
+  const requestResetToken = async (credentials: { username: string; email: string }): Promise<string> => {
+    await request(context.app)
+      .post('/auth/password/forgot')
+      .send({ username: credentials.username })
+      .expect(200);
+
+    const mail = context.mailer.lastMessageTo(credentials.email);
+    const token = mail?.text.match(/reset-password\?token=([a-f0-9]{64})/)?.[1];
+    if (!token) {
+      throw new Error(`No reset token was mailed to ${credentials.email}`);
+    }
+    return token;
+  };
+
+  describe('POST /auth/password/reset', () => {
+    it('should reset the password and revoke every session', async () => {
+      const credentials = createTestCredentialsWithEmail();
+      const registerResponse = await request(context.app).post('/auth/register').send(credentials).expect(201);
+      await request(context.app)
+        .post('/auth/email/verify')
+        .send({ token: verificationTokenSentTo(context, credentials.email) })
+        .expect(200);
+      const token = await requestResetToken(credentials);
+
+      const response = await request(context.app)
+        .post('/auth/password/reset')
+        .send({ token, newPassword: NEW_PASSWORD })
+        .expect(200);
+
+      expect(response.body.message).toBe('Password reset successfully');
+      expect(response.body.revokedSessions).toBe(1);
+
+      await request(context.app)
+        .get('/project/list')
+        .set('Authorization', `Bearer ${registerResponse.body.accessToken}`)
+        .expect(401);
+
+      await request(context.app)
+        .post('/auth/token/refresh')
+        .send({ refreshToken: registerResponse.body.refreshToken })
+        .expect(401);
+
+      await request(context.app)
+        .post('/auth/login')
+        .send(credentials)
+        .expect(401);
+
+      await request(context.app)
+        .post('/auth/login')
+        .send({ username: credentials.username, password: NEW_PASSWORD })
+        .expect(200);
+
+      const { auditLogs } = await context.containerDAO.auditLogDAO.findAuditLogs(
+        { action: 'auth.password_reset', targetId: registerResponse.body.user.id }, 1, 10
+      );
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0].actor).toMatchObject({ userId: registerResponse.body.user.id, username: credentials.username });
+      expect(auditLogs[0].changes?.after).toEqual({ revokedSessions: 1 });
+    });
+
+    it('should lift a login lockout', async () => {
+      const { credentials } = await registerWithVerifiedEmail(context);
+      for (const expectedStatus of [401, 401, 423]) {
+        await request(context.app)
+          .post('/auth/login')
+          .send({ username: credentials.username, password: 'WrongPassword123' })
+          .expect(expectedStatus);
+      }
+      const token = await requestResetToken(credentials);
+
+      await request(context.app)
+        .post('/auth/password/reset')
+        .send({ token, newPassword: NEW_PASSWORD })
+        .expect(200);
+
+      await request(context.app)
+        .post('/auth/login')
+        .send({ username: credentials.username, password: NEW_PASSWORD })
+        .expect(200);
+    });
+
+    it('should accept a token only once', async () => {
+      const { credentials } = await registerWithVerifiedEmail(context);
+      const token = await requestResetToken(credentials);
+
+      await request(context.app)
+        .post('/auth/password/reset')
+        .send({ token, newPassword: NEW_PASSWORD })
+        .expect(200);
+
+      const response = await request(context.app)
+        .post('/auth/password/reset')
+        .send({ token, newPassword: 'AnotherPassword789!' })
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'Invalid or expired reset token');
+    });
+
+    it('should invalidate older tokens when a new one is requested', async () => {
+      const { credentials } = await registerWithVerifiedEmail(context);
+      const olderToken = await requestResetToken(credentials);
+      const newerToken = await requestResetToken(credentials);
+
+      await request(context.app)
+        .post('/auth/password/reset')
+        .send({ token: olderToken, newPassword: NEW_PASSWORD })
+        .expect(400);
+
+      await request(context.app)
+        .post('/auth/password/reset')
+        .send({ token: newerToken, newPassword: NEW_PASSWORD })
+        .expect(200);
+    });
+
+    it('should reject expired tokens', async () => {
+      const { user } = await registerWithVerifiedEmail(context);
+      const { token, tokenHash } = OneTimeTokenService.generate();
+
+      const dbSession = await new MongoDBSessionProducer().createSession();
+      try {
+        await context.containerDAO.passwordResetTokenDAO.createPasswordResetToken(
+          dbSession, user.id, tokenHash, new Date(Date.now() - 60000), Date.now() - 120000
+        );
+      } finally {
+        await dbSession.endSession();
+      }
+
+      const response = await request(context.app)
+        .post('/auth/password/reset')
+        .send({ token, newPassword: NEW_PASSWORD })
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'Invalid or expired reset token');
+    });
+
+    it('should reject unknown tokens', async () => {
+      const response = await request(context.app)
+        .post('/auth/password/reset')
+        .send({ token: OneTimeTokenService.generate().token, newPassword: NEW_PASSWORD })
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'Invalid or expired reset token');
+    });
+
+    it('should apply the registration strength rules without using the token', async () => {
+      const { credentials } = await registerWithVerifiedEmail(context);
+      const token = await requestResetToken(credentials);
+
+      const response = await request(context.app)
+        .post('/auth/password/reset')
+        .send({ token, newPassword: 'weak' })
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'New password must');
+
+      await request(context.app)
+        .post('/auth/password/reset')
+        .send({ token, newPassword: NEW_PASSWORD })
+        .expect(200);
+    });
+
+    it('should validate required fields', async () => {
+      const response = await request(context.app)
+        .post('/auth/password/reset')
+        .send({ newPassword: NEW_PASSWORD })
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'Reset token is required');
+    });
+  });
+});
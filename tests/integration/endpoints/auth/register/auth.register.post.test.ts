@@ -1,6 +1,7 @@
 import request from 'supertest';
 import { setupIntegrationTest, IntegrationTestContext } from '../../../setup';
 import { validateAuthResponse, validateErrorResponse, createTestCredentials } from '../../../helpers';
+import { createTestCredentialsWithEmail, registerWithVerifiedEmail, verificationTokenSentTo } from '../email/emailHelpers';
 
 describe('Auth Register Integration Tests', () => {
   let context: IntegrationTestContext;
@@ -20,6 +21,7 @@ describe('Auth Register Integration Tests', () => {
 
       validateAuthResponse(response);
       expect(response.body.user.username).toBe(credentials.username);
+      expect(response.body.user.roles).toEqual(['user']);
     });
 
     it('should return proper content type', async () => {
@@ -167,4 +169,110 @@ describe('Auth Register Integration Tests', () => {
       validateErrorResponse(response, 400);
     });
   });
+
+  describe('POST /auth/register with email', () => {
+    it('should store the email unverified and send a verification link', async () => {
+      const credentials = createTestCredentialsWithEmail();
+
+      const response = await request(context.app)
+        .post('/auth/register')
+        .send({ ...credentials, email: credentials.email.toUpperCase() })
+        .expect(201);
+
+      validateAuthResponse(response);
+      expect(response.body.user.email).toBe(credentials.email);
+      expect(response.body.user.isEmailVerified).toBe(false);
+
+      const mail = context.mailer.lastMessageTo(credentials.email);
+      expect(mail?.subject).toBe('Verify your email address');
+      expect(verificationTokenSentTo(context, credentials.email)).toHaveLength(64);
+    });
+
+    it('should register without email', async () => {
+      const credentials = createTestCredentials();
+
+      const response = await request(context.app)
+        .post('/auth/register')
+        .send(credentials)
+        .expect(201);
+
+      expect(response.body.user.email).toBeNull();
+      expect(response.body.user.isEmailVerified).toBe(false);
+    });
+
+    it('should prevent registering an email address another user verified', async () => {
+      const { credentials } = await registerWithVerifiedEmail(context);
+
+      const response = await request(context.app)
+        .post('/auth/register')
+        .send({ ...createTestCredentials(), email: credentials.email.toUpperCase() })
+        .expect(409);
+
+      validateErrorResponse(response, 409, 'Email already registered');
+    });
+
+    it('should let the owner register an email address another user claimed without verifying it', async () => {
+      const squatterCredentials = createTestCredentialsWithEmail();
+      const squatterResponse = await request(context.app)
+        .post('/auth/register')
+        .send(squatterCredentials)
+        .expect(201);
+
+      const ownerResponse = await request(context.app)
+        .post('/auth/register')
+        .send({ ...createTestCredentials(), email: squatterCredentials.email })
+        .expect(201);
+      expect(ownerResponse.body.user.email).toBe(squatterCredentials.email);
+
+      await request(context.app)
+        .post('/auth/email/verify')
+        .send({ token: verificationTokenSentTo(context, squatterCredentials.email) })
+        .expect(200);
+
+      const owner = await context.containerDAO.userDAO.findById(ownerResponse.body.user.id);
+      const squatter = await context.containerDAO.userDAO.findById(squatterResponse.body.user.id);
+      expect(owner).toMatchObject({ email: squatterCredentials.email, isEmailVerified: true });
+      expect(squatter).toMatchObject({ email: null, isEmailVerified: false });
+    });
+
+    it('should validate email format', async () => {
+      const response = await request(context.app)
+        .post('/auth/register')
+        .send({ ...createTestCredentials(), email: 'not-an-email' })
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'Email must be a valid email address');
+    });
+  });
+
+  describe('POST /auth/register with required email verification', () => {
+    let requiredContext: IntegrationTestContext;
+
+    beforeAll(async () => {
+      requiredContext = await setupIntegrationTest({ EMAIL_VERIFICATION_REQUIRED: 'true' });
+    });
+
+    it('should not issue tokens before the email is verified', async () => {
+      const credentials = createTestCredentialsWithEmail();
+
+      const response = await request(requiredContext.app)
+        .post('/auth/register')
+        .send(credentials)
+        .expect(201);
+
+      expect(response.body.emailVerificationRequired).toBe(true);
+      expect(response.body.user.email).toBe(credentials.email);
+      expect(response.body.accessToken).toBeUndefined();
+      expect(response.body.refreshToken).toBeUndefined();
+    });
+
+    it('should require an email address', async () => {
+      const response = await request(requiredContext.app)
+        .post('/auth/register')
+        .send(createTestCredentials())
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'Email is required');
+    });
+  });
 });
@@ -0,0 +1,167 @@
+import request from 'supertest';
+import { Application } from 'express';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse, createTestCredentials } from '../../../../helpers';
+
+/**
+ * Register a user and open a second session for it
+ */
+const createUserWithTwoSessions = async (app: Application) => {
+  const credentials = createTestCredentials();
+
+  const laptop = await request(app)
+    .post('/auth/register')
+    .set('User-Agent', 'lost-laptop')
+    .send(credentials)
+    .expect(201);
+
+  const phone = await request(app)
+    .post('/auth/login')
+    .set('User-Agent', 'phone')
+    .send(credentials)
+    .expect(200);
+
+  const sessionsResponse = await request(app)
+    .get('/auth/sessions')
+    .set('Authorization', `Bearer ${phone.body.accessToken}`)
+    .expect(200);
+
+  const laptopSession = sessionsResponse.body.sessions.find(
+    (s: { userAgent: string }) => s.userAgent === 'lost-laptop'
+  );
+
+  return { laptop: laptop.body, phone: phone.body, laptopSessionId: laptopSession.id as string };
+};
+
+describe('Auth Session Delete Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('DELETE /auth/sessions/:sessionId', () => {
+    it('should revoke another session and all of its tokens', async () => {
+      const { laptop, phone, laptopSessionId } = await createUserWithTwoSessions(context.app);
+
+      const response = await request(context.app)
+        .delete(`/auth/sessions/${laptopSessionId}`)
+        .set('Authorization', `Bearer ${phone.accessToken}`)
+        .expect(200);
+
+      expect(response.body.message).toBe('Session revoked successfully');
+      expect(response.body.revokedSessions).toBe(1);
+      expect(new Date(response.body.revokedAt).getTime()).not.toBeNaN();
+
+      // Laptop tokens no longer work
+      await request(context.app)
+        .get('/project/list')
+        .set('Authorization', `Bearer ${laptop.accessToken}`)
+        .expect(401);
+
+      await request(context.app)
+        .post('/auth/token/refresh')
+        .send({ refreshToken: laptop.refreshToken })
+        .expect(401);
+
+      // Phone session is untouched
+      const sessionsResponse = await request(context.app)
+        .get('/auth/sessions')
+        .set('Authorization', `Bearer ${phone.accessToken}`)
+        .expect(200);
+
+      expect(sessionsResponse.body.sessions).toHaveLength(1);
+      expect(sessionsResponse.body.sessions[0].userAgent).toBe('phone');
+
+      const { auditLogs } = await context.containerDAO.auditLogDAO.findAuditLogs(
+        { action: 'auth.session_revoke', targetId: laptopSessionId }, 1, 10
+      );
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0].actor.userId).toBe(phone.user.id);
+      expect(auditLogs[0].changes?.after).toEqual({ revokedAccessTokens: 1, revokedRefreshTokens: 1 });
+    });
+
+    it('should allow revoking the current session', async () => {
+      const { phone } = await createUserWithTwoSessions(context.app);
+
+      const sessionsResponse = await request(context.app)
+        .get('/auth/sessions')
+        .set('Authorization', `Bearer ${phone.accessToken}`)
+        .expect(200);
+
+      const currentSession = sessionsResponse.body.sessions.find((s: { current: boolean }) => s.current);
+
+      await request(context.app)
+        .delete(`/auth/sessions/${currentSession.id}`)
+        .set('Authorization', `Bearer ${phone.accessToken}`)
+        .expect(200);
+
+      await request(context.app)
+        .get('/auth/sessions')
+        .set('Authorization', `Bearer ${phone.accessToken}`)
+        .expect(401);
+    });
+
+    it('should return 404 for an already revoked session', async () => {
+      const { phone, laptopSessionId } = await createUserWithTwoSessions(context.app);
+
+      await request(context.app)
+        .delete(`/auth/sessions/${laptopSessionId}`)
+        .set('Authorization', `Bearer ${phone.accessToken}`)
+        .expect(200);
+
+      const response = await request(context.app)
+        .delete(`/auth/sessions/${laptopSessionId}`)
+        .set('Authorization', `Bearer ${phone.accessToken}`)
+        .expect(404);
+
+      validateErrorResponse(response, 404, 'Session not found');
+    });
+
+    it('should return 404 for a non-existent session', async () => {
+      const { phone } = await createUserWithTwoSessions(context.app);
+
+      const response = await request(context.app)
+        .delete('/auth/sessions/507f1f77bcf86cd799439011')
+        .set('Authorization', `Bearer ${phone.accessToken}`)
+        .expect(404);
+
+      validateErrorResponse(response, 404, 'Session not found');
+    });
+
+    it('should forbid revoking a session of another user', async () => {
+      const { laptopSessionId } = await createUserWithTwoSessions(context.app);
+
+      const otherUser = await request(context.app)
+        .post('/auth/register')
+        .send(createTestCredentials())
+        .expect(201);
+
+      const response = await request(context.app)
+        .delete(`/auth/sessions/${laptopSessionId}`)
+        .set('Authorization', `Bearer ${otherUser.body.accessToken}`)
+        .expect(403);
+
+      validateErrorResponse(response, 403, 'Access denied');
+    });
+
+    it('should reject invalid session ID format', async () => {
+      const { phone } = await createUserWithTwoSessions(context.app);
+
+      const response = await request(context.app)
+        .delete('/auth/sessions/invalid-id')
+        .set('Authorization', `Bearer ${phone.accessToken}`)
+        .expect(400);
+
+      validateErrorResponse(response, 400);
+    });
+
+    it('should require authentication', async () => {
+      const response = await request(context.app)
+        .delete('/auth/sessions/507f1f77bcf86cd799439011')
+        .expect(401);
+
+      validateErrorResponse(response, 401);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse, createTestCredentials } from '../../../../helpers';
+
+describe('Auth Sessions Delete All Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('DELETE /auth/sessions', () => {
+    it('should log out everywhere', async () => {
+      const credentials = createTestCredentials();
+
+      const first = await request(context.app)
+        .post('/auth/register')
+        .send(credentials)
+        .expect(201);
+
+      const second = await request(context.app)
+        .post('/auth/login')
+        .send(credentials)
+        .expect(200);
+
+      const response = await request(context.app)
+        .delete('/auth/sessions')
+        .set('Authorization', `Bearer ${second.body.accessToken}`)
+        .expect(200);
+
+      expect(response.body.message).toBe('Logged out from all sessions');
+      expect(response.body.revokedSessions).toBe(2);
+      expect(new Date(response.body.revokedAt).getTime()).not.toBeNaN();
+
+      for (const tokens of [first.body, second.body]) {
+        await request(context.app)
+          .get('/project/list')
+          .set('Authorization', `Bearer ${tokens.accessToken}`)
+          .expect(401);
+
+        await request(context.app)
+          .post('/auth/token/refresh')
+          .send({ refreshToken: tokens.refreshToken })
+          .expect(401);
+      }
+
+      const { auditLogs } = await context.containerDAO.auditLogDAO.findAuditLogs(
+        { action: 'auth.session_revoke_all', targetId: first.body.user.id }, 1, 10
+      );
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0].actor).toMatchObject({ userId: first.body.user.id, username: credentials.username });
+      expect(auditLogs[0].changes?.after).toEqual({ revokedSessions: 2 });
+    });
+
+    it('should allow logging in again afterwards', async () => {
+      const credentials = createTestCredentials();
+
+      const registerResponse = await request(context.app)
+        .post('/auth/register')
+        .send(credentials)
+        .expect(201);
+
+      await request(context.app)
+        .delete('/auth/sessions')
+        .set('Authorization', `Bearer ${registerResponse.body.accessToken}`)
+        .expect(200);
+
+      const loginResponse = await request(context.app)
+        .post('/auth/login')
+        .send(credentials)
+        .expect(200);
+
+      const sessionsResponse = await request(context.app)
+        .get('/auth/sessions')
+        .set('Authorization', `Bearer ${loginResponse.body.accessToken}`)
+        .expect(200);
+
+      expect(sessionsResponse.body.sessions).toHaveLength(1);
+    });
+
+    it('should not affect other users', async () => {
+      const user = await request(context.app)
+        .post('/auth/register')
+        .send(createTestCredentials())
+        .expect(201);
+
+      const otherUser = await request(context.app)
+        .post('/auth/register')
+        .send(createTestCredentials())
+        .expect(201);
+
+      await request(context.app)
+        .delete('/auth/sessions')
+        .set('Authorization', `Bearer ${user.body.accessToken}`)
+        .expect(200);
+
+      await request(context.app)
+        .get('/project/list')
+        .set('Authorization', `Bearer ${otherUser.body.accessToken}`)
+        .expect(200);
+    });
+
+    it('should require authentication', async () => {
+      const response = await request(context.app)
+        .delete('/auth/sessions')
+        .expect(401);
+
+      validateErrorResponse(response, 401);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse, createTestCredentials } from '../../../../helpers';
+
+describe('Auth Sessions List Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('GET /auth/sessions', () => {
+    it('should list the session created at registration', async () => {
+      const registerResponse = await request(context.app)
+        .post('/auth/register')
+        .set('User-Agent', 'integration-test-agent/1.0')
+        .send(createTestCredentials())
+        .expect(201);
+
+      const response = await request(context.app)
+        .get('/auth/sessions')
+        .set('Authorization', `Bearer ${registerResponse.body.accessToken}`)
+        .expect(200)
+        .expect('Content-Type', /json/);
+
+      expect(response.body.sessions).toHaveLength(1);
+      const [session] = response.body.sessions;
+      expect(session).toHaveProperty('id');
+      expect(session.userAgent).toBe('integration-test-agent/1.0');
+      expect(typeof session.ip).toBe('string');
+      expect(new Date(session.createdAt).getTime()).not.toBeNaN();
+      expect(new Date(session.lastUsedAt).getTime()).not.toBeNaN();
+      expect(session.current).toBe(true);
+    });
+
+    it('should list one session per login and flag only the current one', async () => {
+      const credentials = createTestCredentials();
+
+      await request(context.app)
+        .post('/auth/register')
+        .send(credentials)
+        .expect(201);
+
+      const loginResponse = await request(context.app)
+        .post('/auth/login')
+        .set('User-Agent', 'second-device')
+        .send(credentials)
+        .expect(200);
+
+      const response = await request(context.app)
+        .get('/auth/sessions')
+        .set('Authorization', `Bearer ${loginResponse.body.accessToken}`)
+        .expect(200);
+
+      expect(response.body.sessions).toHaveLength(2);
+      const currentSessions = response.body.sessions.filter((s: { current: boolean }) => s.current);
+      expect(currentSessions).toHaveLength(1);
+      expect(currentSessions[0].userAgent).toBe('second-device');
+    });
+
+    it('should keep the session across token refresh and update lastUsedAt', async () => {
+      const registerResponse = await request(context.app)
+        .post('/auth/register')
+        .send(createTestCredentials())
+        .expect(201);
+
+      const before = await request(context.app)
+        .get('/auth/sessions')
+        .set('Authorization', `Bearer ${registerResponse.body.accessToken}`)
+        .expect(200);
+
+      const refreshResponse = await request(context.app)
+        .post('/auth/token/refresh')
+        .send({ refreshToken: registerResponse.body.refreshToken })
+        .expect(200);
+
+      const after = await request(context.app)
+        .get('/auth/sessions')
+        .set('Authorization', `Bearer ${refreshResponse.body.accessToken}`)
+        .expect(200);
+
+      expect(after.body.sessions).toHaveLength(1);
+      expect(after.body.sessions[0].id).toBe(before.body.sessions[0].id);
+      expect(after.body.sessions[0].current).toBe(true);
+      expect(new Date(after.body.sessions[0].lastUsedAt).getTime())
+        .toBeGreaterThan(new Date(before.body.sessions[0].lastUsedAt).getTime());
+    });
+
+    it('should not list sessions ended by logout', async () => {
+      const credentials = createTestCredentials();
+
+      const registerResponse = await request(context.app)
+        .post('/auth/register')
+        .send(credentials)
+        .expect(201);
+
+      const loginResponse = await request(context.app)
+        .post('/auth/login')
+        .send(credentials)
+        .expect(200);
+
+      await request(context.app)
+        .post('/auth/logout')
+        .send({
+          accessToken: registerResponse.body.accessToken,
+          refreshToken: registerResponse.body.refreshToken
+        })
+        .expect(200);
+
+      const response = await request(context.app)
+        .get('/auth/sessions')
+        .set('Authorization', `Bearer ${loginResponse.body.accessToken}`)
+        .expect(200);
+
+      expect(response.body.sessions).toHaveLength(1);
+      expect(response.body.sessions[0].current).toBe(true);
+    });
+
+    it('should not list sessions of other users', async () => {
+      await request(context.app)
+        .post('/auth/register')
+        .send(createTestCredentials())
+        .expect(201);
+
+      const otherUser = await request(context.app)
+        .post('/auth/register')
+        .send(createTestCredentials())
+        .expect(201);
+
+      const response = await request(context.app)
+        .get('/auth/sessions')
+        .set('Authorization', `Bearer ${otherUser.body.accessToken}`)
+        .expect(200);
+
+      expect(response.body.sessions).toHaveLength(1);
+    });
+
+    it('should require authentication', async () => {
+      const response = await request(context.app)
+        .get('/auth/sessions')
+        .expect(401);
+
+      validateErrorResponse(response, 401);
+    });
+  });
+});
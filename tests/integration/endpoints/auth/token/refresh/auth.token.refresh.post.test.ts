@@ -1,6 +1,12 @@
 import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import { MongoDBSessionProducer } from '../../../../../../src/domain/mongodb/MongoDBSessionProducer';
 import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
-import { validateErrorResponse, createTestCredentials, extractRefreshTokenFromResponse } from '../../../../helpers';
+import {
+  validateErrorResponse,
+  createTestCredentials,
+  extractRefreshTokenFromResponse
+} from '../../../../helpers';
 
 /**
  * Validate response structure for token refresh endpoints
@@ -173,6 +179,35 @@ describe('Auth Token Refresh Integration Tests', () => {
       expect(refreshResponse1.body.refreshToken).not.toBe(refreshResponse2.body.refreshToken);
     });
 
+    it('should revoke the access token issued with the rotated refresh token', async () => {
+      const credentials = createTestCredentials();
+
+      await request(context.app)
+        .post('/auth/register')
+        .send(credentials)
+        .expect(201);
+
+      const loginResponse = await request(context.app)
+        .post('/auth/login')
+        .send(credentials)
+        .expect(200);
+
+      const refreshResponse = await request(context.app)
+        .post('/auth/token/refresh')
+        .send({ refreshToken: extractRefreshTokenFromResponse(loginResponse) })
+        .expect(200);
+
+      await request(context.app)
+        .get('/project/list')
+        .set('Authorization', `Bearer ${loginResponse.body.accessToken}`)
+        .expect(401);
+
+      await request(context.app)
+        .get('/project/list')
+        .set('Authorization', `Bearer ${refreshResponse.body.accessToken}`)
+        .expect(200);
+    });
+
     it('should handle concurrent refresh requests', async () => {
       const credentials = createTestCredentials();
       
@@ -330,5 +365,153 @@ describe('Auth Token Refresh Integration Tests', () => {
 
       validateErrorResponse(response, 401);
     });
+
+    it('should revoke the whole token family when a rotated refresh token is reused', async () => {
+      const credentials = createTestCredentials();
+
+      await request(context.app)
+        .post('/auth/register')
+        .send(credentials)
+        .expect(201);
+
+      const loginResponse = await request(context.app)
+        .post('/auth/login')
+        .send(credentials)
+        .expect(200);
+
+      const originalRefreshToken = extractRefreshTokenFromResponse(loginResponse);
+
+      // Legitimate rotation
+      const rotatedResponse = await request(context.app)
+        .post('/auth/token/refresh')
+        .send({ refreshToken: originalRefreshToken })
+        .expect(200);
+
+      const storedOriginal = await context.containerDAO.refreshTokenDAO.findRevokedRefreshToken(originalRefreshToken);
+      const storedRotated = await context.containerDAO.refreshTokenDAO.findRefreshToken(
+        rotatedResponse.body.refreshToken
+      );
+      expect(storedOriginal).not.toBeNull();
+      expect(storedRotated?.familyId).toBe(storedOriginal?.familyId);
+
+      // Replay of the rotated (revoked) token
+      const replayResponse = await request(context.app)
+        .post('/auth/token/refresh')
+        .send({ refreshToken: originalRefreshToken })
+        .expect(401);
+
+      validateErrorResponse(replayResponse, 401, 'Invalid or revoked refresh token');
+
+      // The reuse is audited although the request failed
+      const { auditLogs } = await context.containerDAO.auditLogDAO.findAuditLogs(
+        { action: 'auth.token_reuse', targetId: storedOriginal!.familyId }, 1, 10
+      );
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0].actor).toMatchObject({ userId: loginResponse.body.user.id, username: credentials.username });
+      expect(auditLogs[0].changes?.after).toHaveProperty('revokedRefreshTokens');
+
+      // The latest refresh token of the family is revoked too
+      await request(context.app)
+        .post('/auth/token/refresh')
+        .send({ refreshToken: rotatedResponse.body.refreshToken })
+        .expect(401);
+
+      // Access tokens of the family no longer authenticate
+      await request(context.app)
+        .get('/project/list')
+        .set('Authorization', `Bearer ${rotatedResponse.body.accessToken}`)
+        .expect(401);
+
+      await request(context.app)
+        .get('/project/list')
+        .set('Authorization', `Bearer ${loginResponse.body.accessToken}`)
+        .expect(401);
+    });
+
+    it('should not revoke other token families of the same user on reuse', async () => {
+      const credentials = createTestCredentials();
+
+      const registerResponse = await request(context.app)
+        .post('/auth/register')
+        .send(credentials)
+        .expect(201);
+
+      const loginResponse = await request(context.app)
+        .post('/auth/login')
+        .send(credentials)
+        .expect(200);
+
+      const refreshToken = extractRefreshTokenFromResponse(loginResponse);
+
+      await request(context.app)
+        .post('/auth/token/refresh')
+        .send({ refreshToken })
+        .expect(200);
+
+      await request(context.app)
+        .post('/auth/token/refresh')
+        .send({ refreshToken })
+        .expect(401);
+
+      // The family started at registration is unaffected
+      await request(context.app)
+        .get('/project/list')
+        .set('Authorization', `Bearer ${registerResponse.body.accessToken}`)
+        .expect(200);
+
+      await request(context.app)
+        .post('/auth/token/refresh')
+        .send({ refreshToken: registerResponse.body.refreshToken })
+        .expect(200);
+    });
+
+    it('should embed the current user roles in refreshed tokens', async () => {
+      const credentials = createTestCredentials();
+
+      const registerResponse = await request(context.app)
+        .post('/auth/register')
+        .send(credentials)
+        .expect(201);
+
+      expect(registerResponse.body.user.roles).toEqual(['user']);
+
+      const dbSession = await new MongoDBSessionProducer().createSession();
+      try {
+        await context.containerDAO.userDAO.updateRoles(dbSession, registerResponse.body.user.id, ['user', 'admin']);
+      } finally {
+        await dbSession.endSession();
+      }
+
+      const response = await request(context.app)
+        .post('/auth/token/refresh')
+        .send({ refreshToken: extractRefreshTokenFromResponse(registerResponse) })
+        .expect(200);
+
+      const payload = jwt.decode(response.body.accessToken) as { roles: string[] };
+      expect(payload.roles).toEqual(['user', 'admin']);
+    });
+
+    it('should reject refresh for a disabled account', async () => {
+      const credentials = createTestCredentials();
+
+      const registerResponse = await request(context.app)
+        .post('/auth/register')
+        .send(credentials)
+        .expect(201);
+
+      const dbSession = await new MongoDBSessionProducer().createSession();
+      try {
+        await context.containerDAO.userDAO.setUserDisabled(dbSession, registerResponse.body.user.id, true);
+      } finally {
+        await dbSession.endSession();
+      }
+
+      const response = await request(context.app)
+        .post('/auth/token/refresh')
+        .send({ refreshToken: extractRefreshTokenFromResponse(registerResponse) })
+        .expect(403);
+
+      validateErrorResponse(response, 403, 'Account is disabled');
+    });
   });
 });
@@ -0,0 +1,84 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../setup';
+import { validateErrorResponse } from '../../../helpers';
+import { createUserAndGetToken } from '../../project/projectHelpers';
+import { createOrganizationViaAPI, createTestOrganizationName, validateOrganizationResponse } from '../orgHelpers';
+
+describe('Organization Create Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('POST /org', () => {
+    it('should create an organization owned by the user', async () => {
+      const { token, user } = await createUserAndGetToken(context.app);
+      const name = createTestOrganizationName();
+
+      const response = await createOrganizationViaAPI(context.app, token, name);
+
+      validateOrganizationResponse(response);
+      expect(response.body.name).toBe(name);
+      expect(response.body.role).toBe('owner');
+      const member = await context.containerDAO.organizationMemberDAO.findMember(response.body.id, user.id);
+      expect(member?.role).toBe('owner');
+    });
+
+    it('should record the creation in the audit log', async () => {
+      const { token, user } = await createUserAndGetToken(context.app);
+      const name = createTestOrganizationName();
+
+      const organizationId = (await createOrganizationViaAPI(context.app, token, name)).body.id;
+
+      const { auditLogs } = await context.containerDAO.auditLogDAO.findAuditLogs(
+        { action: 'org.create', targetId: organizationId }, 1, 10
+      );
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0].actor.userId).toBe(user.id);
+      expect(auditLogs[0].changes).toEqual({ before: null, after: { name } });
+    });
+
+    it('should return 409 when the name is taken', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: otherToken } = await createUserAndGetToken(context.app);
+      const name = createTestOrganizationName();
+      await createOrganizationViaAPI(context.app, token, name);
+
+      const response = await request(context.app)
+        .post('/org')
+        .set('Authorization', `Bearer ${otherToken}`)
+        .send({ name })
+        .expect(409);
+
+      validateErrorResponse(response, 409, 'already exists');
+    });
+
+    it('should validate the name', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+
+      const missing = await request(context.app)
+        .post('/org')
+        .set('Authorization', `Bearer ${token}`)
+        .send({})
+        .expect(400);
+      validateErrorResponse(missing, 400);
+
+      const tooLong = await request(context.app)
+        .post('/org')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name: 'a'.repeat(101) })
+        .expect(400);
+      validateErrorResponse(tooLong, 400);
+    });
+
+    it('should require authentication', async () => {
+      const response = await request(context.app)
+        .post('/org')
+        .send({ name: createTestOrganizationName() })
+        .expect(401);
+
+      validateErrorResponse(response, 401);
+    });
+  });
+});
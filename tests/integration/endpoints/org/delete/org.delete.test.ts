@@ -0,0 +1,72 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../setup';
+import { validateErrorResponse } from '../../../helpers';
+import { createProjectViaAPI, createTestProject, createUserAndGetToken } from '../../project/projectHelpers';
+import { addOrganizationMemberViaAPI, createOrganizationViaAPI } from '../orgHelpers';
+
+describe('Organization Delete Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('DELETE /org/:organizationId', () => {
+    it('should delete the organization together with its memberships', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { user: member } = await createUserAndGetToken(context.app);
+      const organization = (await createOrganizationViaAPI(context.app, token)).body;
+      await addOrganizationMemberViaAPI(context.app, token, organization.id, member.username, 'member');
+
+      const response = await request(context.app)
+        .delete(`/org/${organization.id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(response.body.message).toBe('Organization deleted successfully');
+      expect(await context.containerDAO.organizationDAO.findById(organization.id)).toBeNull();
+      expect(await context.containerDAO.organizationMemberDAO.findByOrganizationId(organization.id)).toEqual([]);
+
+      const { auditLogs } = await context.containerDAO.auditLogDAO.findAuditLogs(
+        { action: 'org.delete', targetId: organization.id }, 1, 10
+      );
+      expect(auditLogs[0].changes).toEqual({ before: { name: organization.name }, after: null });
+    });
+
+    it('should return 409 while the organization owns projects', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+      await createProjectViaAPI(context.app, token, { ...createTestProject(), organizationId });
+
+      const response = await request(context.app)
+        .delete(`/org/${organizationId}`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(409);
+
+      validateErrorResponse(response, 409, 'still owns projects');
+    });
+
+    it('should return 403 to admins', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: adminToken, user: admin } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+      await addOrganizationMemberViaAPI(context.app, token, organizationId, admin.username, 'admin');
+
+      const response = await request(context.app)
+        .delete(`/org/${organizationId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(403);
+
+      validateErrorResponse(response, 403);
+    });
+
+    it('should require authentication', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+
+      await request(context.app)
+        .delete(`/org/${organizationId}`)
+        .expect(401);
+    });
+  });
+});
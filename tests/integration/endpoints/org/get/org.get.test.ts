@@ -0,0 +1,66 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../setup';
+import { validateErrorResponse } from '../../../helpers';
+import { createUserAndGetToken } from '../../project/projectHelpers';
+import { addOrganizationMemberViaAPI, createOrganizationViaAPI, validateOrganizationResponse } from '../orgHelpers';
+
+describe('Organization Get Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('GET /org/:organizationId', () => {
+    it('should return the organization to its members with their role', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: memberToken, user: member } = await createUserAndGetToken(context.app);
+      const organization = (await createOrganizationViaAPI(context.app, token)).body;
+      await addOrganizationMemberViaAPI(context.app, token, organization.id, member.username, 'admin');
+
+      const response = await request(context.app)
+        .get(`/org/${organization.id}`)
+        .set('Authorization', `Bearer ${memberToken}`)
+        .expect(200);
+
+      validateOrganizationResponse(response);
+      expect(response.body.name).toBe(organization.name);
+      expect(response.body.role).toBe('admin');
+    });
+
+    it('should return 403 to users outside the organization', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: otherToken } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+
+      const response = await request(context.app)
+        .get(`/org/${organizationId}`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(403);
+
+      validateErrorResponse(response, 403);
+    });
+
+    it('should return 404 for unknown organizations', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+
+      const response = await request(context.app)
+        .get('/org/507f1f77bcf86cd799439011')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(404);
+
+      validateErrorResponse(response, 404, 'Organization not found');
+    });
+
+    it('should return 400 for invalid organization IDs', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+
+      const response = await request(context.app)
+        .get('/org/not-an-id')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(400);
+
+      validateErrorResponse(response, 400);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../setup';
+import { validateErrorResponse } from '../../../helpers';
+import { createUserAndGetToken } from '../../project/projectHelpers';
+import { addOrganizationMemberViaAPI, createOrganizationViaAPI } from '../orgHelpers';
+
+describe('Organization List Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('GET /org/list', () => {
+    it('should list the organizations of the user ordered by name with their role', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: otherToken, user } = await createUserAndGetToken(context.app);
+      const suffix = Date.now().toString(36);
+      const owned = (await createOrganizationViaAPI(context.app, otherToken, `B Org ${suffix}`)).body;
+      const joined = (await createOrganizationViaAPI(context.app, token, `A Org ${suffix}`)).body;
+      await addOrganizationMemberViaAPI(context.app, token, joined.id, user.username, 'member');
+
+      const response = await request(context.app)
+        .get('/org/list')
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(200);
+
+      expect(response.body.organizations.map((organization: { id: string; role: string }) => [
+        organization.id, organization.role
+      ])).toEqual([[joined.id, 'member'], [owned.id, 'owner']]);
+    });
+
+    it('should not list the organizations the user does not belong to', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: otherToken } = await createUserAndGetToken(context.app);
+      await createOrganizationViaAPI(context.app, token);
+
+      const response = await request(context.app)
+        .get('/org/list')
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(200);
+
+      expect(response.body.organizations).toEqual([]);
+    });
+
+    it('should require authentication', async () => {
+      const response = await request(context.app)
+        .get('/org/list')
+        .expect(401);
+
+      validateErrorResponse(response, 401);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse } from '../../../../helpers';
+import { createUserAndGetToken } from '../../../project/projectHelpers';
+import { addOrganizationMemberViaAPI, createOrganizationViaAPI } from '../../orgHelpers';
+
+describe('Organization Members Create Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('POST /org/:organizationId/members', () => {
+    it('should add a member to the organization', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: memberToken, user: member } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+
+      const response = await addOrganizationMemberViaAPI(
+        context.app, token, organizationId, member.username, 'member'
+      );
+
+      expect(response.body.userId).toBe(member.id);
+      expect(response.body.username).toBe(member.username);
+      expect(response.body.role).toBe('member');
+      expect(response.body).toHaveProperty('joinedAt');
+
+      const organization = await request(context.app)
+        .get(`/org/${organizationId}`)
+        .set('Authorization', `Bearer ${memberToken}`)
+        .expect(200);
+      expect(organization.body.role).toBe('member');
+
+      const { auditLogs } = await context.containerDAO.auditLogDAO.findAuditLogs(
+        { action: 'org.member_add', targetId: organizationId }, 1, 10
+      );
+      expect(auditLogs[0].changes).toEqual({ before: null, after: { userId: member.id, role: 'member' } });
+    });
+
+    it('should let admins add members', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: adminToken, user: admin } = await createUserAndGetToken(context.app);
+      const { user: member } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+      await addOrganizationMemberViaAPI(context.app, token, organizationId, admin.username, 'admin');
+
+      await addOrganizationMemberViaAPI(context.app, adminToken, organizationId, member.username, 'admin');
+    });
+
+    it('should return 403 when an admin grants the owner role', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: adminToken, user: admin } = await createUserAndGetToken(context.app);
+      const { user: member } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+      await addOrganizationMemberViaAPI(context.app, token, organizationId, admin.username, 'admin');
+
+      const response = await request(context.app)
+        .post(`/org/${organizationId}/members`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ username: member.username, role: 'owner' })
+        .expect(403);
+
+      validateErrorResponse(response, 403, 'Only owners');
+    });
+
+    it('should return 403 when a member adds members', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: memberToken, user: member } = await createUserAndGetToken(context.app);
+      const { user: other } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+      await addOrganizationMemberViaAPI(context.app, token, organizationId, member.username, 'member');
+
+      const response = await request(context.app)
+        .post(`/org/${organizationId}/members`)
+        .set('Authorization', `Bearer ${memberToken}`)
+        .send({ username: other.username, role: 'member' })
+        .expect(403);
+
+      validateErrorResponse(response, 403);
+    });
+
+    it('should return 404 for unknown users', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+
+      const response = await request(context.app)
+        .post(`/org/${organizationId}/members`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ username: 'nobody_here_123', role: 'member' })
+        .expect(404);
+
+      validateErrorResponse(response, 404, 'User not found');
+    });
+
+    it('should return 409 for existing members', async () => {
+      const { token, user } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+
+      const response = await request(context.app)
+        .post(`/org/${organizationId}/members`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ username: user.username, role: 'member' })
+        .expect(409);
+
+      validateErrorResponse(response, 409, 'already a member');
+    });
+
+    it('should return 400 for invalid roles', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { user: member } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+
+      const response = await request(context.app)
+        .post(`/org/${organizationId}/members`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ username: member.username, role: 'viewer' })
+        .expect(400);
+
+      validateErrorResponse(response, 400);
+    });
+  });
+});
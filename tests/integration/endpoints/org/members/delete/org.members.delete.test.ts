@@ -0,0 +1,91 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse } from '../../../../helpers';
+import { createUserAndGetToken } from '../../../project/projectHelpers';
+import { addOrganizationMemberViaAPI, createOrganizationViaAPI } from '../../orgHelpers';
+
+describe('Organization Members Delete Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('DELETE /org/:organizationId/members/:userId', () => {
+    it('should remove a member and revoke their access', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: memberToken, user: member } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+      await addOrganizationMemberViaAPI(context.app, token, organizationId, member.username, 'member');
+
+      const response = await request(context.app)
+        .delete(`/org/${organizationId}/members/${member.id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(response.body.message).toBe('Member removed successfully');
+      expect(response.body).toHaveProperty('removedAt');
+
+      await request(context.app)
+        .get(`/org/${organizationId}`)
+        .set('Authorization', `Bearer ${memberToken}`)
+        .expect(403);
+    });
+
+    it('should let members leave the organization', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: memberToken, user: member } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+      await addOrganizationMemberViaAPI(context.app, token, organizationId, member.username, 'member');
+
+      await request(context.app)
+        .delete(`/org/${organizationId}/members/${member.id}`)
+        .set('Authorization', `Bearer ${memberToken}`)
+        .expect(200);
+
+      expect(await context.containerDAO.organizationMemberDAO.findMember(organizationId, member.id)).toBeNull();
+    });
+
+    it('should return 400 when the last owner leaves', async () => {
+      const { token, user } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+
+      const response = await request(context.app)
+        .delete(`/org/${organizationId}/members/${user.id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'at least one owner');
+    });
+
+    it('should return 403 when a member removes another member', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: memberToken, user: member } = await createUserAndGetToken(context.app);
+      const { user: other } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+      await addOrganizationMemberViaAPI(context.app, token, organizationId, member.username, 'member');
+      await addOrganizationMemberViaAPI(context.app, token, organizationId, other.username, 'member');
+
+      const response = await request(context.app)
+        .delete(`/org/${organizationId}/members/${other.id}`)
+        .set('Authorization', `Bearer ${memberToken}`)
+        .expect(403);
+
+      validateErrorResponse(response, 403);
+    });
+
+    it('should return 403 when an admin removes an owner', async () => {
+      const { token, user: owner } = await createUserAndGetToken(context.app);
+      const { token: adminToken, user: admin } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+      await addOrganizationMemberViaAPI(context.app, token, organizationId, admin.username, 'admin');
+
+      const response = await request(context.app)
+        .delete(`/org/${organizationId}/members/${owner.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(403);
+
+      validateErrorResponse(response, 403, 'Only owners');
+    });
+  });
+});
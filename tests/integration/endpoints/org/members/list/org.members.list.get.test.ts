@@ -0,0 +1,56 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse } from '../../../../helpers';
+import { createUserAndGetToken } from '../../../project/projectHelpers';
+import { addOrganizationMemberViaAPI, createOrganizationViaAPI } from '../../orgHelpers';
+
+describe('Organization Members List Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('GET /org/:organizationId/members', () => {
+    it('should list the members in the order they joined', async () => {
+      const { token, user: owner } = await createUserAndGetToken(context.app);
+      const { token: memberToken, user: member } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+      await addOrganizationMemberViaAPI(context.app, token, organizationId, member.username, 'member');
+
+      const response = await request(context.app)
+        .get(`/org/${organizationId}/members`)
+        .set('Authorization', `Bearer ${memberToken}`)
+        .expect(200);
+
+      expect(response.body.members.map((entry: { userId: string; username: string; role: string }) => [
+        entry.userId, entry.username, entry.role
+      ])).toEqual([
+        [owner.id, owner.username, 'owner'],
+        [member.id, member.username, 'member']
+      ]);
+    });
+
+    it('should return 403 to users outside the organization', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: otherToken } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+
+      const response = await request(context.app)
+        .get(`/org/${organizationId}/members`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(403);
+
+      validateErrorResponse(response, 403);
+    });
+
+    it('should require authentication', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+
+      await request(context.app)
+        .get(`/org/${organizationId}/members`)
+        .expect(401);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse } from '../../../../helpers';
+import { createUserAndGetToken } from '../../../project/projectHelpers';
+import { addOrganizationMemberViaAPI, createOrganizationViaAPI } from '../../orgHelpers';
+
+describe('Organization Members Update Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('PUT /org/:organizationId/members/:userId', () => {
+    it('should change the role of a member', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { user: member } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+      await addOrganizationMemberViaAPI(context.app, token, organizationId, member.username, 'member');
+
+      const response = await request(context.app)
+        .put(`/org/${organizationId}/members/${member.id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ role: 'owner' })
+        .expect(200);
+
+      expect(response.body.role).toBe('owner');
+
+      const { auditLogs } = await context.containerDAO.auditLogDAO.findAuditLogs(
+        { action: 'org.member_update', targetId: organizationId }, 1, 10
+      );
+      expect(auditLogs[0].changes).toEqual({
+        before: { userId: member.id, role: 'member' },
+        after: { userId: member.id, role: 'owner' }
+      });
+    });
+
+    it('should return 400 when the last owner steps down', async () => {
+      const { token, user } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+
+      const response = await request(context.app)
+        .put(`/org/${organizationId}/members/${user.id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ role: 'admin' })
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'at least one owner');
+    });
+
+    it('should return 403 when an admin changes the role of an owner', async () => {
+      const { token, user: owner } = await createUserAndGetToken(context.app);
+      const { token: adminToken, user: admin } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+      await addOrganizationMemberViaAPI(context.app, token, organizationId, admin.username, 'admin');
+
+      const response = await request(context.app)
+        .put(`/org/${organizationId}/members/${owner.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ role: 'member' })
+        .expect(403);
+
+      validateErrorResponse(response, 403, 'Only owners');
+    });
+
+    it('should return 404 for users outside the organization', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { user: other } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+
+      const response = await request(context.app)
+        .put(`/org/${organizationId}/members/${other.id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ role: 'member' })
+        .expect(404);
+
+      validateErrorResponse(response, 404, 'Member not found');
+    });
+  });
+});
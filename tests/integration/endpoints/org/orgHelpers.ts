@@ -0,0 +1,72 @@
+import request from 'supertest';
+import { Application } from 'express';
+import { OrganizationResponse } from '../../../../src/dto/org/OrganizationResponse';
+import { OrganizationRole } from '../../../../src/domain/interfaces/entities/OrganizationMember';
+
+/**
+ * Organization test utilities
+ */
+
+// Counter for unique organization names
+let organizationCounter = 0;
+
+/**
+ * Create a unique organization name
+ */
+export const createTestOrganizationName = () => {
+  organizationCounter++;
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substr(2, 8);
+  return `Test Organization ${timestamp}_${random}_${organizationCounter}`;
+};
+
+/**
+ * Response type for organization endpoints (using supertest response wrapper)
+ */
+type OrganizationApiResponse = {
+  body: OrganizationResponse;
+};
+
+/**
+ * Validate organization response structure
+ */
+export const validateOrganizationResponse = (response: OrganizationApiResponse) => {
+  expect(response.body).toHaveProperty('id');
+  expect(response.body).toHaveProperty('name');
+  expect(response.body).toHaveProperty('role');
+  expect(response.body).toHaveProperty('createdAt');
+  expect(response.body).toHaveProperty('updatedAt');
+
+  expect(typeof response.body.id).toBe('string');
+  expect(typeof response.body.name).toBe('string');
+  expect(response.body.id.length).toBeGreaterThan(0);
+  expect(response.body.name.length).toBeGreaterThan(0);
+};
+
+/**
+ * Create an organization via API and return the response
+ */
+export const createOrganizationViaAPI = async (app: Application, token: string, name?: string) => {
+  return request(app)
+    .post('/org')
+    .set('Authorization', `Bearer ${token}`)
+    .send({ name: name || createTestOrganizationName() })
+    .expect(201);
+};
+
+/**
+ * Add a user to an organization via API and return the response
+ */
+export const addOrganizationMemberViaAPI = async (
+  app: Application,
+  token: string,
+  organizationId: string,
+  username: string,
+  role: OrganizationRole
+) => {
+  return request(app)
+    .post(`/org/${organizationId}/members`)
+    .set('Authorization', `Bearer ${token}`)
+    .send({ username, role })
+    .expect(201);
+};
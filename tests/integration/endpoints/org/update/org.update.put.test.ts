@@ -0,0 +1,77 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../setup';
+import { validateErrorResponse } from '../../../helpers';
+import { createUserAndGetToken } from '../../project/projectHelpers';
+import {
+  addOrganizationMemberViaAPI, createOrganizationViaAPI, createTestOrganizationName, validateOrganizationResponse
+} from '../orgHelpers';
+
+describe('Organization Update Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('PUT /org/:organizationId', () => {
+    it('should rename the organization', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const organization = (await createOrganizationViaAPI(context.app, token)).body;
+      const name = createTestOrganizationName();
+
+      const response = await request(context.app)
+        .put(`/org/${organization.id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name })
+        .expect(200);
+
+      validateOrganizationResponse(response);
+      expect(response.body.name).toBe(name);
+      expect(response.body.role).toBe('owner');
+
+      const { auditLogs } = await context.containerDAO.auditLogDAO.findAuditLogs(
+        { action: 'org.update', targetId: organization.id }, 1, 10
+      );
+      expect(auditLogs[0].changes).toEqual({ before: { name: organization.name }, after: { name } });
+    });
+
+    it('should return 409 when the name is taken', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const taken = (await createOrganizationViaAPI(context.app, token)).body;
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+
+      const response = await request(context.app)
+        .put(`/org/${organizationId}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name: taken.name })
+        .expect(409);
+
+      validateErrorResponse(response, 409, 'already exists');
+    });
+
+    it('should return 403 to admins', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: adminToken, user: admin } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+      await addOrganizationMemberViaAPI(context.app, token, organizationId, admin.username, 'admin');
+
+      const response = await request(context.app)
+        .put(`/org/${organizationId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: createTestOrganizationName() })
+        .expect(403);
+
+      validateErrorResponse(response, 403);
+    });
+
+    it('should require authentication', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+
+      await request(context.app)
+        .put(`/org/${organizationId}`)
+        .send({ name: createTestOrganizationName() })
+        .expect(401);
+    });
+  });
+});
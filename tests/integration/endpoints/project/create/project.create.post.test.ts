@@ -6,6 +6,7 @@ import {
   validateProjectResponse, 
   createUserAndGetToken 
 } from '../projectHelpers';
+import { addOrganizationMemberViaAPI, createOrganizationViaAPI } from '../../org/orgHelpers';
 
 describe('Project Create Integration Tests', () => {
   let context: IntegrationTestContext;
@@ -197,6 +198,63 @@ describe('Project Create Integration Tests', () => {
       expect(response1.body.gitUrl).toBe(response2.body.gitUrl);
     });
 
+    it('should create projects owned by an organization', async () => {
+      const { token, user } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+
+      const response = await request(context.app)
+        .post('/project')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ ...createTestProject(), organizationId })
+        .expect(201);
+
+      validateProjectResponse(response);
+      expect(response.body.organizationId).toBe(organizationId);
+      expect(response.body.userId).toBe(user.id);
+      expect(response.body.role).toBe('owner');
+    });
+
+    it('should allow the same project name for a user and an organization', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+      const projectData = createTestProject();
+
+      await request(context.app)
+        .post('/project')
+        .set('Authorization', `Bearer ${token}`)
+        .send(projectData)
+        .expect(201);
+
+      await request(context.app)
+        .post('/project')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ ...projectData, organizationId })
+        .expect(201);
+
+      const response = await request(context.app)
+        .post('/project')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ ...projectData, organizationId })
+        .expect(409);
+
+      validateErrorResponse(response, 409);
+    });
+
+    it('should return 403 when a member creates projects in the organization', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: memberToken, user: member } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+      await addOrganizationMemberViaAPI(context.app, token, organizationId, member.username, 'member');
+
+      const response = await request(context.app)
+        .post('/project')
+        .set('Authorization', `Bearer ${memberToken}`)
+        .send({ ...createTestProject(), organizationId })
+        .expect(403);
+
+      validateErrorResponse(response, 403);
+    });
+
     it('should handle concurrent project creation', async () => {
       const { token } = await createUserAndGetToken(context.app);
       
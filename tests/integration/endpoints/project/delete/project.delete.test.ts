@@ -3,8 +3,11 @@ import { setupIntegrationTest, IntegrationTestContext } from '../../../setup';
 import { validateErrorResponse } from '../../../helpers';
 import { 
   createUserAndGetToken,
-  createProjectViaAPI 
+  createProjectViaAPI,
+  createTestProject,
+  addMemberViaAPI
 } from '../projectHelpers';
+import { addOrganizationMemberViaAPI, createOrganizationViaAPI } from '../../org/orgHelpers';
 
 describe('Project Delete Integration Tests', () => {
   let context: IntegrationTestContext;
@@ -111,6 +114,61 @@ describe('Project Delete Integration Tests', () => {
       validateErrorResponse(response, 403);
     });
 
+    it('should return 403 when a maintainer tries to delete the project', async () => {
+      const { token: ownerToken } = await createUserAndGetToken(context.app);
+      const { token: maintainerToken, user: maintainer } = await createUserAndGetToken(context.app);
+      
+      const createResponse = await createProjectViaAPI(context.app, ownerToken);
+      const projectId = createResponse.body.id;
+      await addMemberViaAPI(context.app, ownerToken, projectId, maintainer.username, 'maintainer');
+      
+      const response = await request(context.app)
+        .delete(`/project/${projectId}`)
+        .set('Authorization', `Bearer ${maintainerToken}`)
+        .expect(403);
+
+      validateErrorResponse(response, 403);
+    });
+
+    it('should let organization admins delete organization projects', async () => {
+      const { token: ownerToken } = await createUserAndGetToken(context.app);
+      const { token: adminToken, user: admin } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, ownerToken)).body.id;
+      await addOrganizationMemberViaAPI(context.app, ownerToken, organizationId, admin.username, 'admin');
+      const projectId = (await createProjectViaAPI(
+        context.app, ownerToken, { ...createTestProject(), organizationId }
+      )).body.id;
+
+      await request(context.app)
+        .delete(`/project/${projectId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(await context.containerDAO.projectDAO.findById(projectId)).toBeNull();
+    });
+
+    it('should remove the project from the lists of its members after deletion', async () => {
+      const { token: ownerToken } = await createUserAndGetToken(context.app);
+      const { token: viewerToken, user: viewer } = await createUserAndGetToken(context.app);
+      
+      const createResponse = await createProjectViaAPI(context.app, ownerToken);
+      const projectId = createResponse.body.id;
+      await addMemberViaAPI(context.app, ownerToken, projectId, viewer.username, 'viewer');
+      
+      await request(context.app)
+        .delete(`/project/${projectId}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .expect(200);
+
+      const listResponse = await request(context.app)
+        .get('/project/list')
+        .set('Authorization', `Bearer ${viewerToken}`)
+        .expect(200);
+
+      expect(listResponse.body.total).toBe(0);
+      expect(await context.containerDAO.projectMemberDAO.findByProjectId(projectId)).toEqual([]);
+    });
+
     it('should make project inaccessible after deletion', async () => {
       const { token } = await createUserAndGetToken(context.app);
       
@@ -4,8 +4,11 @@ import { validateErrorResponse } from '../../../helpers';
 import { 
   validateProjectResponse, 
   createUserAndGetToken,
-  createProjectViaAPI 
+  createProjectViaAPI,
+  createTestProject,
+  addMemberViaAPI
 } from '../projectHelpers';
+import { addOrganizationMemberViaAPI, createOrganizationViaAPI } from '../../org/orgHelpers';
 
 describe('Project Get Integration Tests', () => {
   let context: IntegrationTestContext;
@@ -115,6 +118,43 @@ describe('Project Get Integration Tests', () => {
       validateErrorResponse(response, 403);
     });
 
+    it('should return project to members with their role', async () => {
+      const { token: ownerToken } = await createUserAndGetToken(context.app);
+      const { token: viewerToken, user: viewer } = await createUserAndGetToken(context.app);
+      
+      const createResponse = await createProjectViaAPI(context.app, ownerToken);
+      const projectId = createResponse.body.id;
+      await addMemberViaAPI(context.app, ownerToken, projectId, viewer.username, 'viewer');
+      
+      const response = await request(context.app)
+        .get(`/project/${projectId}`)
+        .set('Authorization', `Bearer ${viewerToken}`)
+        .expect(200);
+
+      validateProjectResponse(response);
+      expect(response.body.userId).toBe(createResponse.body.userId);
+      expect(response.body.role).toBe('viewer');
+    });
+
+    it('should return organization projects to organization members', async () => {
+      const { token: ownerToken } = await createUserAndGetToken(context.app);
+      const { token: adminToken, user: admin } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, ownerToken)).body.id;
+      await addOrganizationMemberViaAPI(context.app, ownerToken, organizationId, admin.username, 'admin');
+      const projectId = (await createProjectViaAPI(
+        context.app, ownerToken, { ...createTestProject(), organizationId }
+      )).body.id;
+
+      const response = await request(context.app)
+        .get(`/project/${projectId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      validateProjectResponse(response);
+      expect(response.body.organizationId).toBe(organizationId);
+      expect(response.body.role).toBe('owner');
+    });
+
     it('should include all project fields in response', async () => {
       const { token } = await createUserAndGetToken(context.app);
       
@@ -1,11 +1,14 @@
 import request from 'supertest';
 import { setupIntegrationTest, IntegrationTestContext } from '../../../setup';
-import { validateErrorResponse } from '../../../helpers';
+import { validateErrorResponse, createTestCredentials } from '../../../helpers';
 import { 
   validateProjectListResponse, 
   createUserAndGetToken,
-  createProjectViaAPI 
+  createProjectViaAPI,
+  createTestProject,
+  addMemberViaAPI
 } from '../projectHelpers';
+import { addOrganizationMemberViaAPI, createOrganizationViaAPI } from '../../org/orgHelpers';
 
 describe('Project List Integration Tests', () => {
   let context: IntegrationTestContext;
@@ -79,6 +82,70 @@ describe('Project List Integration Tests', () => {
       validateErrorResponse(response, 401);
     });
 
+    it('should reject access token after logout', async () => {
+      const authResponse = await request(context.app)
+        .post('/auth/register')
+        .send(createTestCredentials())
+        .expect(201);
+
+      const { accessToken, refreshToken } = authResponse.body;
+
+      await request(context.app)
+        .get('/project/list')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      await request(context.app)
+        .post('/auth/logout')
+        .send({ accessToken, refreshToken })
+        .expect(200);
+
+      const response = await request(context.app)
+        .get('/project/list')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(401);
+
+      validateErrorResponse(response, 401, 'Access token has been revoked');
+
+      // Repeated requests are served from the revocation cache with the same outcome
+      await request(context.app)
+        .get('/project/list')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(401);
+    });
+
+    it('should keep other sessions of the same user valid after logout', async () => {
+      const credentials = createTestCredentials();
+
+      const registerResponse = await request(context.app)
+        .post('/auth/register')
+        .send(credentials)
+        .expect(201);
+
+      const loginResponse = await request(context.app)
+        .post('/auth/login')
+        .send(credentials)
+        .expect(200);
+
+      await request(context.app)
+        .post('/auth/logout')
+        .send({
+          accessToken: registerResponse.body.accessToken,
+          refreshToken: registerResponse.body.refreshToken
+        })
+        .expect(200);
+
+      await request(context.app)
+        .get('/project/list')
+        .set('Authorization', `Bearer ${registerResponse.body.accessToken}`)
+        .expect(401);
+
+      await request(context.app)
+        .get('/project/list')
+        .set('Authorization', `Bearer ${loginResponse.body.accessToken}`)
+        .expect(200);
+    });
+
     it('should handle custom pagination parameters', async () => {
       const { token } = await createUserAndGetToken(context.app);
       
@@ -195,6 +262,55 @@ describe('Project List Integration Tests', () => {
       });
     });
 
+    it('should include projects shared with the user with their role', async () => {
+      const { token: ownerToken } = await createUserAndGetToken(context.app);
+      const { token, user } = await createUserAndGetToken(context.app);
+      
+      const ownResponse = await createProjectViaAPI(context.app, token);
+      const sharedResponse = await createProjectViaAPI(context.app, ownerToken);
+      await createProjectViaAPI(context.app, ownerToken);
+      await addMemberViaAPI(context.app, ownerToken, sharedResponse.body.id, user.username, 'maintainer');
+      
+      const response = await request(context.app)
+        .get('/project/list')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      validateProjectListResponse(response);
+      expect(response.body.total).toBe(2);
+      expect(response.body.projects.map((project: { id: string; role: string }) => [project.id, project.role]))
+        .toEqual([[sharedResponse.body.id, 'maintainer'], [ownResponse.body.id, 'owner']]);
+    });
+
+    it('should include the projects of the organizations of the user', async () => {
+      const { token: ownerToken } = await createUserAndGetToken(context.app);
+      const { token, user } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, ownerToken)).body.id;
+      await addOrganizationMemberViaAPI(context.app, ownerToken, organizationId, user.username, 'member');
+
+      const ownResponse = await createProjectViaAPI(context.app, token);
+      const organizationResponse = await createProjectViaAPI(
+        context.app, ownerToken, { ...createTestProject(), organizationId }
+      );
+
+      const response = await request(context.app)
+        .get('/project/list')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      validateProjectListResponse(response);
+      expect(response.body.projects.map((project: { id: string; role: string }) => [project.id, project.role]))
+        .toEqual([[organizationResponse.body.id, 'maintainer'], [ownResponse.body.id, 'owner']]);
+
+      const filtered = await request(context.app)
+        .get(`/project/list?organizationId=${organizationId}`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(filtered.body.total).toBe(1);
+      expect(filtered.body.projects[0].id).toBe(organizationResponse.body.id);
+    });
+
     it('should handle large page numbers gracefully', async () => {
       const { token } = await createUserAndGetToken(context.app);
       
@@ -289,4 +405,247 @@ describe('Project List Integration Tests', () => {
       expect(response.body.limit).toBe(10);
     });
   });
+
+  describe('GET /project/list filters', () => {
+    const unique = () => createTestProject().name.replace('Test Project ', '');
+    const listProjects = (token: string, query: string) => request(context.app)
+      .get(`/project/list?${query}`)
+      .set('Authorization', `Bearer ${token}`);
+    const projectIds = (response: request.Response) =>
+      response.body.projects.map((project: { id: string }) => project.id);
+
+    it('should filter by case-insensitive name substring', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const suffix = unique();
+      const matching = await createProjectViaAPI(
+        context.app, token, { name: `Billing.API ${suffix}`, gitUrl: `https://github.com/acme/billing-${suffix}.git` }
+      );
+      await createProjectViaAPI(
+        context.app, token, { name: `BillingXAPI ${suffix}`, gitUrl: `https://github.com/acme/other-${suffix}.git` }
+      );
+
+      const response = await listProjects(token, 'name=billing.api').expect(200);
+
+      validateProjectListResponse(response);
+      expect(projectIds(response)).toEqual([matching.body.id]);
+      expect(response.body.total).toBe(1);
+      expect(response.body.filters).toEqual({ name: 'billing.api', sort: '-createdAt' });
+    });
+
+    it('should run a full-text search on the name', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const suffix = unique();
+      const matching = await createProjectViaAPI(
+        context.app, token, { name: `Payment Service ${suffix}`, gitUrl: `https://github.com/acme/pay-${suffix}.git` }
+      );
+      await createProjectViaAPI(
+        context.app, token, { name: `Billing Portal ${suffix}`, gitUrl: `https://github.com/acme/bill-${suffix}.git` }
+      );
+
+      const response = await listProjects(token, 'search=payment').expect(200);
+
+      expect(projectIds(response)).toEqual([matching.body.id]);
+      expect(response.body.filters.search).toBe('payment');
+    });
+
+    it('should filter by git host of HTTPS and SSH URLs', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const suffix = unique();
+      const https = await createProjectViaAPI(
+        context.app, token, { name: `HTTPS ${suffix}`, gitUrl: `https://gitlab.com/acme/https-${suffix}.git` }
+      );
+      const ssh = await createProjectViaAPI(
+        context.app, token, { name: `SSH ${suffix}`, gitUrl: `git@GitLab.com:acme/ssh-${suffix}.git` }
+      );
+      await createProjectViaAPI(
+        context.app, token, { name: `Other ${suffix}`, gitUrl: `https://gitlab.com.evil.io/acme/${suffix}.git` }
+      );
+
+      const response = await listProjects(token, 'gitHost=gitlab.com').expect(200);
+
+      expect(projectIds(response)).toEqual([ssh.body.id, https.body.id]);
+      expect(response.body.filters.gitHost).toBe('gitlab.com');
+    });
+
+    it('should filter by inclusive creation and update date ranges', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const first = await createProjectViaAPI(context.app, token);
+      const second = await createProjectViaAPI(context.app, token);
+      const third = await createProjectViaAPI(context.app, token);
+
+      const created = await listProjects(
+        token, `createdFrom=${second.body.createdAt}&createdTo=${third.body.createdAt}`
+      ).expect(200);
+
+      expect(projectIds(created)).toEqual([third.body.id, second.body.id]);
+      expect(created.body.filters).toEqual({
+        createdFrom: second.body.createdAt, createdTo: third.body.createdAt, sort: '-createdAt'
+      });
+
+      const updated = await request(context.app)
+        .put(`/project/${first.body.id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name: `Renamed ${unique()}` })
+        .expect(200);
+
+      const response = await listProjects(token, `updatedFrom=${updated.body.updatedAt}`).expect(200);
+
+      expect(projectIds(response)).toEqual([first.body.id]);
+    });
+
+    it('should sort by name and update date in either direction', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const suffix = unique();
+      const beta = await createProjectViaAPI(
+        context.app, token, { name: `beta ${suffix}`, gitUrl: `https://github.com/acme/beta-${suffix}.git` }
+      );
+      const alpha = await createProjectViaAPI(
+        context.app, token, { name: `Alpha ${suffix}`, gitUrl: `https://github.com/acme/alpha-${suffix}.git` }
+      );
+      const gamma = await createProjectViaAPI(
+        context.app, token, { name: `gamma ${suffix}`, gitUrl: `https://github.com/acme/gamma-${suffix}.git` }
+      );
+
+      const byName = await listProjects(token, 'sort=-name').expect(200);
+      expect(projectIds(byName)).toEqual([gamma.body.id, beta.body.id, alpha.body.id]);
+      expect(byName.body.filters).toEqual({ sort: '-name' });
+
+      await request(context.app)
+        .put(`/project/${beta.body.id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ gitUrl: `https://github.com/acme/beta-${suffix}-renamed.git` })
+        .expect(200);
+
+      const byUpdate = await listProjects(token, 'sort=updatedAt').expect(200);
+      expect(projectIds(byUpdate)).toEqual([alpha.body.id, gamma.body.id, beta.body.id]);
+    });
+
+    it('should combine filters with pagination', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const suffix = unique();
+      for (let i = 0; i < 3; i++) {
+        await createProjectViaAPI(
+          context.app, token, { name: `Service ${i} ${suffix}`, gitUrl: `https://github.com/acme/s${i}-${suffix}.git` }
+        );
+      }
+      await createProjectViaAPI(context.app, token);
+
+      const response = await listProjects(token, 'name=service&sort=name&page=2&limit=2').expect(200);
+
+      expect(response.body.total).toBe(3);
+      expect(response.body.totalPages).toBe(2);
+      expect(response.body.projects.map((project: { name: string }) => project.name)).toEqual([`Service 2 ${suffix}`]);
+    });
+
+    it('should reject invalid filters', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+
+      validateErrorResponse(await listProjects(token, 'sort=gitUrl'), 400, 'Sort must be one of');
+      validateErrorResponse(await listProjects(token, 'createdFrom=yesterday'), 400, 'createdFrom must be a valid');
+      validateErrorResponse(await listProjects(token, 'gitHost=github.com/acme'), 400, 'Git host must be a host name');
+      validateErrorResponse(await listProjects(token, 'organizationId=invalid'), 400, 'Invalid organization ID format');
+      validateErrorResponse(await listProjects(token, 'name=a&name=b'), 400, 'Name must be a string');
+      validateErrorResponse(
+        await listProjects(token, 'updatedFrom=2024-02-01&updatedTo=2024-01-01'), 400,
+        'updatedFrom must not be after updatedTo'
+      );
+    });
+  });
+
+  describe('GET /project/list cursor pagination', () => {
+    const listProjects = (token: string, query: string) => request(context.app)
+      .get(`/project/list?${query}`)
+      .set('Authorization', `Bearer ${token}`);
+    const projectIds = (response: request.Response) =>
+      response.body.projects.map((project: { id: string }) => project.id);
+    const createProjects = async (token: string, count: number) => {
+      const ids: string[] = [];
+      for (let i = 0; i < count; i++) {
+        ids.push((await createProjectViaAPI(context.app, token)).body.id);
+      }
+      return ids;
+    };
+
+    it('should walk through the pages forwards and backwards', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const ids = (await createProjects(token, 5)).reverse();
+
+      const first = await listProjects(token, 'pagination=cursor&limit=2').expect(200);
+      expect(projectIds(first)).toEqual(ids.slice(0, 2));
+      expect(first.body.prevCursor).toBeNull();
+      expect(first.body).not.toHaveProperty('total');
+      expect(first.body).not.toHaveProperty('currentPage');
+      expect(first.body.limit).toBe(2);
+
+      const second = await listProjects(token, `cursor=${first.body.nextCursor}&limit=2`).expect(200);
+      expect(projectIds(second)).toEqual(ids.slice(2, 4));
+
+      const last = await listProjects(token, `cursor=${second.body.nextCursor}&limit=2`).expect(200);
+      expect(projectIds(last)).toEqual(ids.slice(4));
+      expect(last.body.nextCursor).toBeNull();
+
+      const back = await listProjects(token, `cursor=${last.body.prevCursor}&limit=2`).expect(200);
+      expect(projectIds(back)).toEqual(ids.slice(2, 4));
+
+      const start = await listProjects(token, `cursor=${back.body.prevCursor}&limit=2`).expect(200);
+      expect(projectIds(start)).toEqual(ids.slice(0, 2));
+      expect(start.body.prevCursor).toBeNull();
+      expect(start.body.nextCursor).toEqual(expect.any(String));
+    });
+
+    it('should keep pages stable when projects are created in between', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const ids = (await createProjects(token, 4)).reverse();
+
+      const first = await listProjects(token, 'pagination=cursor&limit=2').expect(200);
+      await createProjectViaAPI(context.app, token);
+
+      const second = await listProjects(token, `cursor=${first.body.nextCursor}&limit=2`).expect(200);
+      expect(projectIds(second)).toEqual(ids.slice(2));
+    });
+
+    it('should paginate on the sort order and filters', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const suffix = createTestProject().name;
+      const names = ['delta', 'Alpha', 'charlie', 'bravo'];
+      for (const name of names) {
+        await createProjectViaAPI(context.app, token, { ...createTestProject(), name: `${name} ${suffix}` });
+      }
+      await createProjectViaAPI(context.app, token, { ...createTestProject(), name: 'Unrelated' });
+
+      const query = `pagination=cursor&sort=name&name=${encodeURIComponent(suffix)}&limit=3&includeTotal=true`;
+      const first = await listProjects(token, query).expect(200);
+      expect(first.body.projects.map((project: { name: string }) => project.name))
+        .toEqual(['Alpha', 'bravo', 'charlie'].map(name => `${name} ${suffix}`));
+      expect(first.body.total).toBe(4);
+      expect(first.body.totalPages).toBe(2);
+
+      const second = await listProjects(
+        token, `cursor=${first.body.nextCursor}&sort=name&name=${encodeURIComponent(suffix)}&limit=3`
+      ).expect(200);
+      expect(second.body.projects.map((project: { name: string }) => project.name)).toEqual([`delta ${suffix}`]);
+      expect(second.body.nextCursor).toBeNull();
+      expect(second.body.filters).toEqual({ name: suffix, sort: 'name' });
+    });
+
+    it('should reject invalid cursors', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      await createProjects(token, 2);
+      const first = await listProjects(token, 'pagination=cursor&limit=1').expect(200);
+      const malformed = Buffer.from(JSON.stringify({ s: '-createdAt', d: 'a' })).toString('base64url');
+
+      validateErrorResponse(await listProjects(token, 'cursor=not-a-cursor'), 400, 'Invalid cursor');
+      validateErrorResponse(await listProjects(token, `cursor=${malformed}`), 400, 'Invalid cursor');
+      validateErrorResponse(await listProjects(token, 'cursor=abc%2B%2F'), 400, 'Invalid cursor');
+      validateErrorResponse(
+        await listProjects(token, `cursor=${first.body.nextCursor}&sort=name`), 400, 'another sort order'
+      );
+      validateErrorResponse(
+        await listProjects(token, `pagination=offset&cursor=${first.body.nextCursor}`), 400,
+        'cursor can only be used with cursor pagination'
+      );
+      validateErrorResponse(await listProjects(token, 'pagination=keyset'), 400, 'Pagination must be one of');
+      validateErrorResponse(await listProjects(token, 'pagination=cursor&includeTotal=yes'), 400, 'includeTotal');
+    });
+  });
 });
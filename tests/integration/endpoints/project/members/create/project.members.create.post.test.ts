@@ -0,0 +1,123 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse } from '../../../../helpers';
+import { createUserAndGetToken, createProjectViaAPI, addMemberViaAPI } from '../../projectHelpers';
+
+describe('Project Members Create Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('POST /project/:projectId/members', () => {
+    it('should share the project with another user', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { user: member } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+
+      const response = await addMemberViaAPI(context.app, token, projectId, member.username, 'viewer');
+
+      expect(response.body.userId).toBe(member.id);
+      expect(response.body.username).toBe(member.username);
+      expect(response.body.role).toBe('viewer');
+      expect(response.body).toHaveProperty('addedAt');
+    });
+
+    it('should record the new member in the audit log', async () => {
+      const { token, user } = await createUserAndGetToken(context.app);
+      const { user: member } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+
+      await addMemberViaAPI(context.app, token, projectId, member.username, 'maintainer');
+
+      const { auditLogs } = await context.containerDAO.auditLogDAO.findAuditLogs(
+        { action: 'project.member_add', targetId: projectId }, 1, 10
+      );
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0].actor.userId).toBe(user.id);
+      expect(auditLogs[0].changes).toEqual({ before: null, after: { userId: member.id, role: 'maintainer' } });
+    });
+
+    it('should return 404 for unknown usernames', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+
+      const response = await request(context.app)
+        .post(`/project/${projectId}/members`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ username: 'nobody_with_this_name', role: 'viewer' })
+        .expect(404);
+
+      validateErrorResponse(response, 404, 'User not found');
+    });
+
+    it('should return 409 when the user is already a member', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { user: member } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+      await addMemberViaAPI(context.app, token, projectId, member.username, 'viewer');
+
+      const response = await request(context.app)
+        .post(`/project/${projectId}/members`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ username: member.username, role: 'maintainer' })
+        .expect(409);
+
+      validateErrorResponse(response, 409, 'already a member');
+    });
+
+    it('should return 409 when sharing the project with its owner', async () => {
+      const { token, user } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+
+      const response = await request(context.app)
+        .post(`/project/${projectId}/members`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ username: user.username, role: 'viewer' })
+        .expect(409);
+
+      validateErrorResponse(response, 409, 'owner');
+    });
+
+    it('should reject the owner role', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { user: member } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+
+      const response = await request(context.app)
+        .post(`/project/${projectId}/members`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ username: member.username, role: 'owner' })
+        .expect(400);
+
+      validateErrorResponse(response, 400);
+    });
+
+    it('should return 403 when a maintainer shares the project', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: maintainerToken, user: maintainer } = await createUserAndGetToken(context.app);
+      const { user: other } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+      await addMemberViaAPI(context.app, token, projectId, maintainer.username, 'maintainer');
+
+      const response = await request(context.app)
+        .post(`/project/${projectId}/members`)
+        .set('Authorization', `Bearer ${maintainerToken}`)
+        .send({ username: other.username, role: 'viewer' })
+        .expect(403);
+
+      validateErrorResponse(response, 403);
+    });
+
+    it('should require authentication', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+
+      await request(context.app)
+        .post(`/project/${projectId}/members`)
+        .send({ username: 'someone', role: 'viewer' })
+        .expect(401);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse } from '../../../../helpers';
+import { createUserAndGetToken, createProjectViaAPI, addMemberViaAPI } from '../../projectHelpers';
+
+describe('Project Members Delete Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('DELETE /project/:projectId/members/:userId', () => {
+    it('should remove a member and revoke their access', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: memberToken, user: member } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+      await addMemberViaAPI(context.app, token, projectId, member.username, 'viewer');
+
+      const response = await request(context.app)
+        .delete(`/project/${projectId}/members/${member.id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(response.body.message).toBe('Member removed successfully');
+      expect(response.body).toHaveProperty('removedAt');
+
+      await request(context.app)
+        .get(`/project/${projectId}`)
+        .set('Authorization', `Bearer ${memberToken}`)
+        .expect(403);
+    });
+
+    it('should let members leave the project', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: memberToken, user: member } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+      await addMemberViaAPI(context.app, token, projectId, member.username, 'viewer');
+
+      await request(context.app)
+        .delete(`/project/${projectId}/members/${member.id}`)
+        .set('Authorization', `Bearer ${memberToken}`)
+        .expect(200);
+
+      expect(await context.containerDAO.projectMemberDAO.findMember(projectId, member.id)).toBeNull();
+    });
+
+    it('should return 403 when a member removes another member', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: maintainerToken, user: maintainer } = await createUserAndGetToken(context.app);
+      const { user: viewer } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+      await addMemberViaAPI(context.app, token, projectId, maintainer.username, 'maintainer');
+      await addMemberViaAPI(context.app, token, projectId, viewer.username, 'viewer');
+
+      const response = await request(context.app)
+        .delete(`/project/${projectId}/members/${viewer.id}`)
+        .set('Authorization', `Bearer ${maintainerToken}`)
+        .expect(403);
+
+      validateErrorResponse(response, 403);
+    });
+
+    it('should not remove the owner', async () => {
+      const { token, user } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+
+      const response = await request(context.app)
+        .delete(`/project/${projectId}/members/${user.id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'owner');
+    });
+
+    it('should return 404 for users who are not members', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { user: other } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+
+      const response = await request(context.app)
+        .delete(`/project/${projectId}/members/${other.id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(404);
+
+      validateErrorResponse(response, 404, 'Member not found');
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse } from '../../../../helpers';
+import { createUserAndGetToken, createProjectViaAPI, addMemberViaAPI } from '../../projectHelpers';
+
+describe('Project Members List Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('GET /project/:projectId/members', () => {
+    it('should list the owner first, then members in the order they were added', async () => {
+      const { token, user } = await createUserAndGetToken(context.app);
+      const { user: maintainer } = await createUserAndGetToken(context.app);
+      const { token: viewerToken, user: viewer } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+      await addMemberViaAPI(context.app, token, projectId, maintainer.username, 'maintainer');
+      await addMemberViaAPI(context.app, token, projectId, viewer.username, 'viewer');
+
+      const response = await request(context.app)
+        .get(`/project/${projectId}/members`)
+        .set('Authorization', `Bearer ${viewerToken}`)
+        .expect(200);
+
+      expect(response.body.members.map((member: { username: string; role: string }) => [member.username, member.role]))
+        .toEqual([[user.username, 'owner'], [maintainer.username, 'maintainer'], [viewer.username, 'viewer']]);
+    });
+
+    it('should return 403 to users the project is not shared with', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: otherToken } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+
+      const response = await request(context.app)
+        .get(`/project/${projectId}/members`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(403);
+
+      validateErrorResponse(response, 403);
+    });
+
+    it('should return 404 for non-existent project', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+
+      const response = await request(context.app)
+        .get('/project/507f1f77bcf86cd799439011/members')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(404);
+
+      validateErrorResponse(response, 404);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse } from '../../../../helpers';
+import { createUserAndGetToken, createProjectViaAPI, addMemberViaAPI } from '../../projectHelpers';
+
+describe('Project Members Update Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('PUT /project/:projectId/members/:userId', () => {
+    it('should change the role of a member', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: memberToken, user: member } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+      await addMemberViaAPI(context.app, token, projectId, member.username, 'viewer');
+
+      const response = await request(context.app)
+        .put(`/project/${projectId}/members/${member.id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ role: 'maintainer' })
+        .expect(200);
+
+      expect(response.body.userId).toBe(member.id);
+      expect(response.body.role).toBe('maintainer');
+
+      await request(context.app)
+        .put(`/project/${projectId}`)
+        .set('Authorization', `Bearer ${memberToken}`)
+        .send({ name: 'Promoted Name' })
+        .expect(200);
+    });
+
+    it('should return 404 for users who are not members', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { user: other } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+
+      const response = await request(context.app)
+        .put(`/project/${projectId}/members/${other.id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ role: 'maintainer' })
+        .expect(404);
+
+      validateErrorResponse(response, 404, 'Member not found');
+    });
+
+    it('should not change the role of the owner', async () => {
+      const { token, user } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+
+      const response = await request(context.app)
+        .put(`/project/${projectId}/members/${user.id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ role: 'viewer' })
+        .expect(400);
+
+      validateErrorResponse(response, 400, 'owner');
+    });
+
+    it('should return 403 when a member changes roles', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: maintainerToken, user: maintainer } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+      await addMemberViaAPI(context.app, token, projectId, maintainer.username, 'maintainer');
+
+      const response = await request(context.app)
+        .put(`/project/${projectId}/members/${maintainer.id}`)
+        .set('Authorization', `Bearer ${maintainerToken}`)
+        .send({ role: 'viewer' })
+        .expect(403);
+
+      validateErrorResponse(response, 403);
+    });
+  });
+});
@@ -48,6 +48,8 @@ export const validateProjectResponse = (response: ProjectApiResponse) => {
   expect(response.body).toHaveProperty('name');
   expect(response.body).toHaveProperty('gitUrl');
   expect(response.body).toHaveProperty('userId');
+  expect(response.body).toHaveProperty('organizationId');
+  expect(response.body).toHaveProperty('role');
   expect(response.body).toHaveProperty('createdAt');
   expect(response.body).toHaveProperty('updatedAt');
   
@@ -83,6 +85,7 @@ export const validateProjectListResponse = (response: ProjectListApiResponse) =>
     expect(project).toHaveProperty('name');
     expect(project).toHaveProperty('gitUrl');
     expect(project).toHaveProperty('userId');
+    expect(project).toHaveProperty('role');
     expect(project).toHaveProperty('createdAt');
     expect(project).toHaveProperty('updatedAt');
   });
@@ -94,7 +97,7 @@ export const validateProjectListResponse = (response: ProjectListApiResponse) =>
 export const createProjectViaAPI = async (
   app: Application,
   token: string,
-  projectData?: { name: string; gitUrl: string }
+  projectData?: { name: string; gitUrl: string; organizationId?: string }
 ) => {
   const project = projectData || createTestProject();
   
@@ -124,3 +127,36 @@ export const createUserAndGetToken = async (app: Application) => {
     credentials
   };
 };
+
+/**
+ * Share a project with another user via API and return the response
+ */
+export const addMemberViaAPI = async (
+  app: Application,
+  ownerToken: string,
+  projectId: string,
+  username: string,
+  role: 'maintainer' | 'viewer'
+) => {
+  return request(app)
+    .post(`/project/${projectId}/members`)
+    .set('Authorization', `Bearer ${ownerToken}`)
+    .send({ username, role })
+    .expect(201);
+};
+
+/**
+ * Offer a project to another user via API and return the response
+ */
+export const requestTransferViaAPI = async (
+  app: Application,
+  ownerToken: string,
+  projectId: string,
+  username: string
+) => {
+  return request(app)
+    .post(`/project/${projectId}/transfer`)
+    .set('Authorization', `Bearer ${ownerToken}`)
+    .send({ username })
+    .expect(201);
+};
@@ -0,0 +1,159 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse } from '../../../../helpers';
+import {
+  createUserAndGetToken, createProjectViaAPI, createTestProject, addMemberViaAPI, requestTransferViaAPI,
+  validateProjectResponse
+} from '../../projectHelpers';
+import { addOrganizationMemberViaAPI, createOrganizationViaAPI } from '../../../org/orgHelpers';
+
+describe('Project Transfer Accept Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('POST /project/:projectId/transfer/accept', () => {
+    it('should make the recipient the owner of the project', async () => {
+      const { token, user } = await createUserAndGetToken(context.app);
+      const { token: recipientToken, user: recipient } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+      await requestTransferViaAPI(context.app, token, projectId, recipient.username);
+
+      const response = await request(context.app)
+        .post(`/project/${projectId}/transfer/accept`)
+        .set('Authorization', `Bearer ${recipientToken}`)
+        .expect(200);
+
+      validateProjectResponse(response);
+      expect(response.body.userId).toBe(recipient.id);
+      expect(response.body.role).toBe('owner');
+      expect(await context.containerDAO.projectTransferDAO.findByProjectId(projectId)).toBeNull();
+
+      await request(context.app)
+        .get(`/project/${projectId}`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(403);
+
+      const { auditLogs } = await context.containerDAO.auditLogDAO.findAuditLogs(
+        { action: 'project.transfer_accept', targetId: projectId }, 1, 10
+      );
+      expect(auditLogs[0].changes?.before).toMatchObject({ userId: user.id });
+      expect(auditLogs[0].changes?.after).toMatchObject({ userId: recipient.id });
+    });
+
+    it('should move organization projects out of the organization', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: recipientToken, user: recipient } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+      const projectId = (await createProjectViaAPI(
+        context.app, token, { ...createTestProject(), organizationId }
+      )).body.id;
+      await requestTransferViaAPI(context.app, token, projectId, recipient.username);
+
+      const response = await request(context.app)
+        .post(`/project/${projectId}/transfer/accept`)
+        .set('Authorization', `Bearer ${recipientToken}`)
+        .expect(200);
+
+      expect(response.body.organizationId).toBeNull();
+      expect(response.body.userId).toBe(recipient.id);
+    });
+
+    it('should replace the membership of the recipient', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: recipientToken, user: recipient } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+      await addMemberViaAPI(context.app, token, projectId, recipient.username, 'viewer');
+      await requestTransferViaAPI(context.app, token, projectId, recipient.username);
+
+      await request(context.app)
+        .post(`/project/${projectId}/transfer/accept`)
+        .set('Authorization', `Bearer ${recipientToken}`)
+        .expect(200);
+
+      expect(await context.containerDAO.projectMemberDAO.findMember(projectId, recipient.id)).toBeNull();
+    });
+
+    it('should return 409 when the recipient already owns a project with the same name', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: recipientToken, user: recipient } = await createUserAndGetToken(context.app);
+      const projectData = createTestProject();
+      const projectId = (await createProjectViaAPI(context.app, token, projectData)).body.id;
+      await createProjectViaAPI(context.app, recipientToken, projectData);
+      await requestTransferViaAPI(context.app, token, projectId, recipient.username);
+
+      const response = await request(context.app)
+        .post(`/project/${projectId}/transfer/accept`)
+        .set('Authorization', `Bearer ${recipientToken}`)
+        .expect(409);
+
+      validateErrorResponse(response, 409, 'already own a project with this name');
+      expect(await context.containerDAO.projectTransferDAO.findByProjectId(projectId)).not.toBeNull();
+    });
+
+    it('should return 409 when the requester no longer owns the project', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: ownerToken, user: owner } = await createUserAndGetToken(context.app);
+      const { token: recipientToken, user: recipient } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+      await addOrganizationMemberViaAPI(context.app, token, organizationId, owner.username, 'owner');
+      const projectId = (await createProjectViaAPI(
+        context.app, token, { ...createTestProject(), organizationId }
+      )).body.id;
+      await requestTransferViaAPI(context.app, ownerToken, projectId, recipient.username);
+      await request(context.app)
+        .delete(`/org/${organizationId}/members/${owner.id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      const response = await request(context.app)
+        .post(`/project/${projectId}/transfer/accept`)
+        .set('Authorization', `Bearer ${recipientToken}`)
+        .expect(409);
+
+      validateErrorResponse(response, 409, 'no longer owns the project');
+    });
+
+    it('should return 409 when the requester is no longer an owner of the organization', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: ownerToken, user: owner } = await createUserAndGetToken(context.app);
+      const { token: recipientToken, user: recipient } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+      await addOrganizationMemberViaAPI(context.app, token, organizationId, owner.username, 'owner');
+      const projectId = (await createProjectViaAPI(
+        context.app, token, { ...createTestProject(), organizationId }
+      )).body.id;
+      await requestTransferViaAPI(context.app, ownerToken, projectId, recipient.username);
+      await request(context.app)
+        .put(`/org/${organizationId}/members/${owner.id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ role: 'admin' })
+        .expect(200);
+
+      const response = await request(context.app)
+        .post(`/project/${projectId}/transfer/accept`)
+        .set('Authorization', `Bearer ${recipientToken}`)
+        .expect(409);
+
+      validateErrorResponse(response, 409, 'no longer owns the project');
+      expect((await context.containerDAO.projectDAO.findById(projectId))?.organizationId).toBe(organizationId);
+    });
+
+    it('should return 404 to users the project was not offered to', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { user: recipient } = await createUserAndGetToken(context.app);
+      const { token: otherToken } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+      await requestTransferViaAPI(context.app, token, projectId, recipient.username);
+
+      const response = await request(context.app)
+        .post(`/project/${projectId}/transfer/accept`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(404);
+
+      validateErrorResponse(response, 404, 'Transfer not found');
+    });
+  });
+});
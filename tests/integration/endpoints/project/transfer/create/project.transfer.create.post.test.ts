@@ -0,0 +1,158 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse } from '../../../../helpers';
+import {
+  createUserAndGetToken, createProjectViaAPI, createTestProject, addMemberViaAPI, requestTransferViaAPI
+} from '../../projectHelpers';
+import { addOrganizationMemberViaAPI, createOrganizationViaAPI } from '../../../org/orgHelpers';
+
+describe('Project Transfer Create Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('POST /project/:projectId/transfer', () => {
+    it('should offer the project without changing its owner', async () => {
+      const { token, user } = await createUserAndGetToken(context.app);
+      const { user: recipient } = await createUserAndGetToken(context.app);
+      const project = (await createProjectViaAPI(context.app, token)).body;
+
+      const response = await requestTransferViaAPI(context.app, token, project.id, recipient.username);
+
+      expect(response.body).toEqual({
+        projectId: project.id,
+        projectName: project.name,
+        fromUserId: user.id,
+        fromUsername: user.username,
+        toUserId: recipient.id,
+        toUsername: recipient.username,
+        requestedAt: expect.any(String)
+      });
+      expect((await context.containerDAO.projectDAO.findById(project.id))?.userId).toBe(user.id);
+
+      const { auditLogs } = await context.containerDAO.auditLogDAO.findAuditLogs(
+        { action: 'project.transfer_request', targetId: project.id }, 1, 10
+      );
+      expect(auditLogs[0].changes).toEqual({ before: null, after: { fromUserId: user.id, toUserId: recipient.id } });
+    });
+
+    it('should replace the pending transfer of the project', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { user: first } = await createUserAndGetToken(context.app);
+      const { user: second } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+
+      await requestTransferViaAPI(context.app, token, projectId, first.username);
+      await requestTransferViaAPI(context.app, token, projectId, second.username);
+
+      expect((await context.containerDAO.projectTransferDAO.findByProjectId(projectId))?.toUserId).toBe(second.id);
+      expect(await context.containerDAO.projectTransferDAO.findByToUserId(first.id)).toEqual([]);
+    });
+
+    it('should return 403 when a maintainer offers the project', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: maintainerToken, user: maintainer } = await createUserAndGetToken(context.app);
+      const { user: recipient } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+      await addMemberViaAPI(context.app, token, projectId, maintainer.username, 'maintainer');
+
+      const response = await request(context.app)
+        .post(`/project/${projectId}/transfer`)
+        .set('Authorization', `Bearer ${maintainerToken}`)
+        .send({ username: recipient.username })
+        .expect(403);
+
+      validateErrorResponse(response, 403);
+    });
+
+    it('should return 403 when an organization admin offers an organization project', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: adminToken, user: admin } = await createUserAndGetToken(context.app);
+      const { user: recipient } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+      await addOrganizationMemberViaAPI(context.app, token, organizationId, admin.username, 'admin');
+      const projectId = (await createProjectViaAPI(
+        context.app, token, { ...createTestProject(), organizationId }
+      )).body.id;
+
+      for (const username of [recipient.username, admin.username]) {
+        const response = await request(context.app)
+          .post(`/project/${projectId}/transfer`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ username })
+          .expect(403);
+
+        validateErrorResponse(response, 403);
+      }
+      expect(await context.containerDAO.projectTransferDAO.findByProjectId(projectId)).toBeNull();
+    });
+
+    it('should return 404 for unknown users', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+
+      const response = await request(context.app)
+        .post(`/project/${projectId}/transfer`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ username: 'nobody_here_123' })
+        .expect(404);
+
+      validateErrorResponse(response, 404, 'User not found');
+    });
+
+    it('should return 409 when offering the project to its owner', async () => {
+      const { token, user } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+
+      const response = await request(context.app)
+        .post(`/project/${projectId}/transfer`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ username: user.username })
+        .expect(409);
+
+      validateErrorResponse(response, 409, 'owner of this project');
+    });
+
+    it('should return 409 when an organization owner offers an organization project to themselves', async () => {
+      const { token, user } = await createUserAndGetToken(context.app);
+      const organizationId = (await createOrganizationViaAPI(context.app, token)).body.id;
+      const projectId = (await createProjectViaAPI(
+        context.app, token, { ...createTestProject(), organizationId }
+      )).body.id;
+
+      const response = await request(context.app)
+        .post(`/project/${projectId}/transfer`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ username: user.username })
+        .expect(409);
+
+      validateErrorResponse(response, 409, 'Cannot transfer a project to yourself');
+      expect(await context.containerDAO.projectTransferDAO.findByProjectId(projectId)).toBeNull();
+    });
+
+    it('should validate the request', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+
+      const response = await request(context.app)
+        .post(`/project/${projectId}/transfer`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({})
+        .expect(400);
+
+      validateErrorResponse(response, 400);
+    });
+
+    it('should require authentication', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+
+      await request(context.app)
+        .post(`/project/${projectId}/transfer`)
+        .send({ username: 'jane_doe' })
+        .expect(401);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse } from '../../../../helpers';
+import { createUserAndGetToken, createProjectViaAPI, requestTransferViaAPI } from '../../projectHelpers';
+
+describe('Project Transfer Decline Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('POST /project/:projectId/transfer/decline', () => {
+    it('should let the recipient decline the transfer', async () => {
+      const { token, user } = await createUserAndGetToken(context.app);
+      const { token: recipientToken, user: recipient } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+      await requestTransferViaAPI(context.app, token, projectId, recipient.username);
+
+      const response = await request(context.app)
+        .post(`/project/${projectId}/transfer/decline`)
+        .set('Authorization', `Bearer ${recipientToken}`)
+        .expect(200);
+
+      expect(response.body.message).toBe('Transfer declined successfully');
+      expect(response.body).toHaveProperty('declinedAt');
+      expect(await context.containerDAO.projectTransferDAO.findByProjectId(projectId)).toBeNull();
+      expect((await context.containerDAO.projectDAO.findById(projectId))?.userId).toBe(user.id);
+
+      const { auditLogs } = await context.containerDAO.auditLogDAO.findAuditLogs(
+        { action: 'project.transfer_decline', targetId: projectId }, 1, 10
+      );
+      expect(auditLogs[0].actor.userId).toBe(recipient.id);
+      expect(auditLogs[0].changes).toEqual({ before: { fromUserId: user.id, toUserId: recipient.id }, after: null });
+    });
+
+    it('should let the owner withdraw the transfer', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { user: recipient } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+      await requestTransferViaAPI(context.app, token, projectId, recipient.username);
+
+      await request(context.app)
+        .post(`/project/${projectId}/transfer/decline`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(await context.containerDAO.projectTransferDAO.findByToUserId(recipient.id)).toEqual([]);
+    });
+
+    it('should return 403 to other users', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { user: recipient } = await createUserAndGetToken(context.app);
+      const { token: otherToken } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+      await requestTransferViaAPI(context.app, token, projectId, recipient.username);
+
+      const response = await request(context.app)
+        .post(`/project/${projectId}/transfer/decline`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(403);
+
+      validateErrorResponse(response, 403);
+    });
+
+    it('should return 404 when no transfer is pending', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+
+      const response = await request(context.app)
+        .post(`/project/${projectId}/transfer/decline`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(404);
+
+      validateErrorResponse(response, 404, 'Transfer not found');
+    });
+  });
+});
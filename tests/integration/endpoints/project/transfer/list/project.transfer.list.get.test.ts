@@ -0,0 +1,63 @@
+import request from 'supertest';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../../setup';
+import { validateErrorResponse } from '../../../../helpers';
+import { createUserAndGetToken, createProjectViaAPI, requestTransferViaAPI } from '../../projectHelpers';
+
+describe('Project Transfer List Integration Tests', () => {
+  let context: IntegrationTestContext;
+
+  beforeAll(async () => {
+    context = await setupIntegrationTest();
+  });
+
+  describe('GET /project/transfer/incoming', () => {
+    it('should list the transfers offered to the user, newest first', async () => {
+      const { token, user } = await createUserAndGetToken(context.app);
+      const { token: recipientToken, user: recipient } = await createUserAndGetToken(context.app);
+      const { user: other } = await createUserAndGetToken(context.app);
+      const first = (await createProjectViaAPI(context.app, token)).body;
+      const second = (await createProjectViaAPI(context.app, token)).body;
+      const third = (await createProjectViaAPI(context.app, token)).body;
+      await requestTransferViaAPI(context.app, token, first.id, recipient.username);
+      await requestTransferViaAPI(context.app, token, second.id, recipient.username);
+      await requestTransferViaAPI(context.app, token, third.id, other.username);
+
+      const response = await request(context.app)
+        .get('/project/transfer/incoming')
+        .set('Authorization', `Bearer ${recipientToken}`)
+        .expect(200);
+
+      expect(response.body.transfers.map((transfer: { projectId: string }) => transfer.projectId))
+        .toEqual([second.id, first.id]);
+      expect(response.body.transfers[0].fromUsername).toBe(user.username);
+      expect(response.body.transfers[0].toUsername).toBe(recipient.username);
+    });
+
+    it('should not list the transfers of deleted projects', async () => {
+      const { token } = await createUserAndGetToken(context.app);
+      const { token: recipientToken, user: recipient } = await createUserAndGetToken(context.app);
+      const projectId = (await createProjectViaAPI(context.app, token)).body.id;
+      await requestTransferViaAPI(context.app, token, projectId, recipient.username);
+
+      await request(context.app)
+        .delete(`/project/${projectId}`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      const response = await request(context.app)
+        .get('/project/transfer/incoming')
+        .set('Authorization', `Bearer ${recipientToken}`)
+        .expect(200);
+
+      expect(response.body.transfers).toEqual([]);
+    });
+
+    it('should require authentication', async () => {
+      const response = await request(context.app)
+        .get('/project/transfer/incoming')
+        .expect(401);
+
+      validateErrorResponse(response, 401);
+    });
+  });
+});
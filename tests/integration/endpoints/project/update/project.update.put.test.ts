@@ -4,7 +4,8 @@ import { validateErrorResponse } from '../../../helpers';
 import { 
   validateProjectResponse, 
   createUserAndGetToken,
-  createProjectViaAPI 
+  createProjectViaAPI,
+  addMemberViaAPI
 } from '../projectHelpers';
 
 describe('Project Update Integration Tests', () => {
@@ -169,6 +170,43 @@ describe('Project Update Integration Tests', () => {
       validateErrorResponse(response, 403);
     });
 
+    it('should allow maintainers to update the project', async () => {
+      const { token: ownerToken } = await createUserAndGetToken(context.app);
+      const { token: maintainerToken, user: maintainer } = await createUserAndGetToken(context.app);
+      
+      const createResponse = await createProjectViaAPI(context.app, ownerToken);
+      const projectId = createResponse.body.id;
+      await addMemberViaAPI(context.app, ownerToken, projectId, maintainer.username, 'maintainer');
+      
+      const response = await request(context.app)
+        .put(`/project/${projectId}`)
+        .set('Authorization', `Bearer ${maintainerToken}`)
+        .send({ name: 'Maintained Name' })
+        .expect(200);
+
+      validateProjectResponse(response);
+      expect(response.body.name).toBe('Maintained Name');
+      expect(response.body.userId).toBe(createResponse.body.userId);
+      expect(response.body.role).toBe('maintainer');
+    });
+
+    it('should return 403 when a viewer tries to update the project', async () => {
+      const { token: ownerToken } = await createUserAndGetToken(context.app);
+      const { token: viewerToken, user: viewer } = await createUserAndGetToken(context.app);
+      
+      const createResponse = await createProjectViaAPI(context.app, ownerToken);
+      const projectId = createResponse.body.id;
+      await addMemberViaAPI(context.app, ownerToken, projectId, viewer.username, 'viewer');
+      
+      const response = await request(context.app)
+        .put(`/project/${projectId}`)
+        .set('Authorization', `Bearer ${viewerToken}`)
+        .send({ name: 'Viewed Name' })
+        .expect(403);
+
+      validateErrorResponse(response, 403);
+    });
+
     it('should validate name field when provided', async () => {
       const { token } = await createUserAndGetToken(context.app);
       
@@ -0,0 +1,82 @@
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import { createPublicKey, JsonWebKey } from 'crypto';
+import { setupIntegrationTest, IntegrationTestContext } from '../../../setup';
+import { createTestCredentials } from '../../../helpers';
+import { MockJwtKeys } from '../../../../mocks/MockJwtKeys';
+import { JwksResponse } from '../../../../../src/dto/wellKnown/JwksResponse';
+
+describe('GET /.well-known/jwks.json', () => {
+  describe('with HS256 access tokens', () => {
+    let context: IntegrationTestContext;
+
+    beforeAll(async () => {
+      context = await setupIntegrationTest();
+    });
+
+    it('should publish an empty key set', async () => {
+      const response = await request(context.app)
+        .get('/.well-known/jwks.json')
+        .expect(200)
+        .expect('Content-Type', /json/);
+
+      expect(response.body).toEqual({ keys: [] });
+    });
+  });
+
+  describe('with RS256 access tokens', () => {
+    let context: IntegrationTestContext;
+    let keys: MockJwtKeys;
+
+    beforeAll(async () => {
+      keys = new MockJwtKeys();
+      keys.writeKey('2020-01-01');
+      keys.writeKey('2999-01-01');
+      context = await setupIntegrationTest({ JWT_ALGORITHM: 'RS256', JWT_KEYS_DIR: keys.dir });
+    });
+
+    afterAll(() => {
+      keys.remove();
+    });
+
+    it('should publish every public key, cacheable', async () => {
+      const response = await request(context.app)
+        .get('/.well-known/jwks.json')
+        .expect(200)
+        .expect('Cache-Control', 'public, max-age=300');
+
+      const body = response.body as JwksResponse;
+      expect(body.keys.map(jwk => jwk.kid)).toEqual(['2020-01-01', '2999-01-01']);
+      for (const jwk of body.keys) {
+        expect(jwk).toMatchObject({ kty: 'RSA', use: 'sig', alg: 'RS256', e: 'AQAB' });
+        expect(jwk).not.toHaveProperty('d');
+      }
+    });
+
+    it('should verify issued access tokens with the published key', async () => {
+      const registerResponse = await request(context.app)
+        .post('/auth/register')
+        .send(createTestCredentials())
+        .expect(201);
+      const accessToken = registerResponse.body.accessToken as string;
+      const jwksResponse = await request(context.app).get('/.well-known/jwks.json').expect(200);
+
+      const header = jwt.decode(accessToken, { complete: true })?.header;
+      expect(header).toMatchObject({ alg: 'RS256', kid: '2020-01-01' });
+      const jwks = jwksResponse.body.keys as JsonWebKey[];
+      const jwk = jwks.find(key => key.kid === header?.kid);
+      const publicKey = createPublicKey({ key: jwk as JsonWebKey, format: 'jwk' });
+      const verifyOptions: jwt.VerifyOptions = {
+        algorithms: ['RS256'], issuer: context.envVars.JWT_ISSUER, audience: context.envVars.JWT_AUDIENCE
+      };
+      expect(jwt.verify(accessToken, publicKey, verifyOptions)).toMatchObject({
+        sub: registerResponse.body.user.id
+      });
+
+      await request(context.app)
+        .get('/project/list')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+    });
+  });
+});
@@ -7,6 +7,10 @@ export const createMockUser = (overrides: Partial<User> = {}): User => ({
   id: '507f1f77bcf86cd799439011',
   username: 'testuser',
   password: 'hashedpassword123',
+  email: null,
+  isEmailVerified: false,
+  roles: ['user'],
+  isDisabled: false,
   createdAt: new Date('2022-01-12T10:26:40.000Z'),
   updatedAt: new Date('2022-01-12T10:26:40.000Z'),
   ...overrides,
@@ -18,6 +22,10 @@ export const createMockUser = (overrides: Partial<User> = {}): User => ({
 export const createMockUserWithoutPassword = (overrides: Partial<Omit<User, 'password'>> = {}) => ({
   id: '507f1f77bcf86cd799439011',
   username: 'testuser',
+  email: null,
+  isEmailVerified: false,
+  roles: ['user'],
+  isDisabled: false,
   createdAt: new Date('2022-01-12T10:26:40.000Z'),
   updatedAt: new Date('2022-01-12T10:26:40.000Z'),
   ...overrides,
@@ -53,6 +61,8 @@ export const FIXED_TIMESTAMP = 1642000000000; // 2022-01-12T10:26:40.000Z
 export const createTestTokenPayload = (userId?: string) => ({
   userId: userId || '507f1f77bcf86cd799439011',
   username: 'testuser',
+  roles: ['user'],
+  isDisabled: false,
   iat: Math.floor(FIXED_TIMESTAMP / 1000),
   exp: Math.floor(FIXED_TIMESTAMP / 1000) + 15 * 60, // 15 minutes
 });
@@ -63,6 +73,8 @@ export const createTestTokenPayload = (userId?: string) => ({
 export const createTestRefreshTokenPayload = (userId?: string) => ({
   userId: userId || '507f1f77bcf86cd799439011',
   username: 'testuser',
+  roles: ['user'],
+  isDisabled: false,
   iat: Math.floor(FIXED_TIMESTAMP / 1000),
   exp: Math.floor(FIXED_TIMESTAMP / 1000) + 7 * 24 * 60 * 60, // 7 days
 });
@@ -81,6 +93,28 @@ export const extractRefreshTokenFromResponse = (response: { body?: { refreshToke
   return response.body?.refreshToken || '';
 };
 
+/**
+ * Helper to find the Set-Cookie header of a cookie set by the response
+ */
+export const extractSetCookieHeader = (
+  response: { headers: Record<string, unknown> },
+  name: string
+): string | undefined => {
+  const header = response.headers['set-cookie'] as string[] | undefined;
+  return header?.find(cookie => cookie.startsWith(`${name}=`));
+};
+
+/**
+ * Helper to read the value of a cookie set by the response
+ */
+export const extractCookieValue = (response: { headers: Record<string, unknown> }, name: string): string => {
+  const cookie = extractSetCookieHeader(response, name);
+  if (!cookie) {
+    throw new Error(`Cookie ${name} was not set`);
+  }
+  return decodeURIComponent(cookie.substring(name.length + 1, cookie.indexOf(';')));
+};
+
 /**
  * Sleep utility for tests
  */
@@ -97,6 +131,7 @@ type AuthResponse = {
     user: {
       id: string;
       username: string;
+      roles: string[];
     };
   };
 };
@@ -125,6 +160,7 @@ export const validateAuthResponse = (response: AuthResponse) => {
   expect(typeof response.body.refreshToken).toBe('string');
   expect(typeof response.body.user.id).toBe('string');
   expect(typeof response.body.user.username).toBe('string');
+  expect(Array.isArray(response.body.user.roles)).toBe(true);
 };
 
 /**
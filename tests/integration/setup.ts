@@ -6,6 +6,7 @@ import { ContainerDAOMongoDB } from '../../src/domain/mongodb/ContainerDAOMongoD
 import { DatabaseConnectionMongoDB } from '../../src/domain/mongodb/DatabaseConnectionMongoDB';
 import { MongoDBSessionProducer } from '../../src/domain/mongodb/MongoDBSessionProducer';
 import { TimestampProducer } from '../../src/utils/TimestampProducer';
+import { MockMailer } from '../mocks/MockMailer';
 import winston from 'winston';
 
 declare global {
@@ -18,6 +19,7 @@ export interface IntegrationTestContext {
   containerDAO: ContainerDAOMongoDB;
   dbConnection: DatabaseConnectionMongoDB;
   logger: winston.Logger;
+  mailer: MockMailer;
 }
 
 /**
@@ -38,8 +40,11 @@ class SequentialTimestampProducer implements TimestampProducer {
 
 /**
  * Setup integration test environment with shared MongoDB connection
+ * @param envOverrides - Environment variables applied on top of the test defaults
  */
-export async function setupIntegrationTest(): Promise<IntegrationTestContext> {
+export async function setupIntegrationTest(
+  envOverrides: Record<string, string> = {}
+): Promise<IntegrationTestContext> {
   // Use the global MongoDB URI from globalSetup
   const mongoUri = (globalThis as typeof globalThis & { __MONGO_URI__: string }).__MONGO_URI__;
   
@@ -48,7 +53,7 @@ export async function setupIntegrationTest(): Promise<IntegrationTestContext> {
   }
 
   // Create test environment variables
-  const envVars = createTestEnvVars(mongoUri);
+  const envVars = createTestEnvVars(mongoUri, envOverrides);
   
   // Create logger for tests (silent)
   const logger = createTestLogger();
@@ -58,6 +63,7 @@ export async function setupIntegrationTest(): Promise<IntegrationTestContext> {
   const dbConnection = new DatabaseConnectionMongoDB();
   const dbSessionProducer = new MongoDBSessionProducer();
   const timestampProducer = new SequentialTimestampProducer();
+  const mailer = new MockMailer();
 
   // Connect to test database (reuse existing connection if available)
   if (mongoose.connection.readyState !== 1) {
@@ -65,7 +71,7 @@ export async function setupIntegrationTest(): Promise<IntegrationTestContext> {
   }
 
   // Create app
-  const app = await createApp(envVars, containerDAO, dbSessionProducer, timestampProducer, logger);
+  const app = await createApp(envVars, containerDAO, dbSessionProducer, timestampProducer, logger, mailer);
 
   return {
     app,
@@ -73,6 +79,7 @@ export async function setupIntegrationTest(): Promise<IntegrationTestContext> {
     containerDAO,
     dbConnection,
     logger,
+    mailer,
   };
 }
 
@@ -94,7 +101,7 @@ export async function clearTestDatabase(): Promise<void> {
 /**
  * Create test environment variables (reused from globalSetup logic)
  */
-function createTestEnvVars(mongoUri: string): EnvVars {
+function createTestEnvVars(mongoUri: string, envOverrides: Record<string, string>): EnvVars {
   // Backup original env vars
   const originalEnv = { ...process.env };
   
@@ -108,6 +115,8 @@ function createTestEnvVars(mongoUri: string): EnvVars {
   process.env.JWT_REFRESH_SECRET = 'test-jwt-refresh-secret-key-for-testing-only-do-not-use-in-production';
   process.env.JWT_EXPIRES_IN = '15m';
   process.env.JWT_REFRESH_EXPIRES_IN = '7d';
+  process.env.LOGIN_MAX_FAILED_ATTEMPTS = '3';
+  Object.assign(process.env, envOverrides);
   
   const envVars = new EnvVars();
   
@@ -1,55 +1,266 @@
 import { ContainerDAO } from '../../src/domain/interfaces/ContainerDAO';
-import { UserDAO } from '../../src/domain/interfaces/dao/UserDAO';
+import { UserDAO, GetAllUsersResult } from '../../src/domain/interfaces/dao/UserDAO';
 import { AccessTokenDAO } from '../../src/domain/interfaces/dao/AccessTokenDAO';
 import { RefreshTokenDAO } from '../../src/domain/interfaces/dao/RefreshTokenDAO';
-import { ProjectDAO, GetAllProjectsResult } from '../../src/domain/interfaces/dao/ProjectDAO';
-import { User } from '../../src/domain/interfaces/entities/User';
+import {
+  ProjectDAO, GetAllProjectsResult, GetProjectsByCursorResult, ProjectAccess, ProjectCursor, ProjectFilter, ProjectSort
+} from '../../src/domain/interfaces/dao/ProjectDAO';
+import { User, UserRole } from '../../src/domain/interfaces/entities/User';
 import { AccessToken } from '../../src/domain/interfaces/entities/AccessToken';
 import { RefreshToken } from '../../src/domain/interfaces/entities/RefreshToken';
 import { Project } from '../../src/domain/interfaces/entities/Project';
+import { UserSession } from '../../src/domain/interfaces/entities/UserSession';
+import { UserSessionDAO } from '../../src/domain/interfaces/dao/UserSessionDAO';
+import { PasswordResetToken } from '../../src/domain/interfaces/entities/PasswordResetToken';
+import { PasswordResetTokenDAO } from '../../src/domain/interfaces/dao/PasswordResetTokenDAO';
+import { EmailVerificationToken } from '../../src/domain/interfaces/entities/EmailVerificationToken';
+import { EmailVerificationTokenDAO } from '../../src/domain/interfaces/dao/EmailVerificationTokenDAO';
+import { LoginAttempt } from '../../src/domain/interfaces/entities/LoginAttempt';
+import { LoginAttemptDAO } from '../../src/domain/interfaces/dao/LoginAttemptDAO';
+import { TotpCredential } from '../../src/domain/interfaces/entities/TotpCredential';
+import { TotpCredentialDAO } from '../../src/domain/interfaces/dao/TotpCredentialDAO';
+import { LinkedIdentity } from '../../src/domain/interfaces/entities/LinkedIdentity';
+import { LinkedIdentityDAO } from '../../src/domain/interfaces/dao/LinkedIdentityDAO';
+import { ApiKey } from '../../src/domain/interfaces/entities/ApiKey';
+import { TokenScope } from '../../src/domain/interfaces/entities/TokenScope';
+import { ApiKeyDAO } from '../../src/domain/interfaces/dao/ApiKeyDAO';
+import { JobLockDAO } from '../../src/domain/interfaces/dao/JobLockDAO';
+import { AuditLogDAO, AuditLogFilter, GetAuditLogsResult } from '../../src/domain/interfaces/dao/AuditLogDAO';
+import { AuditAction, AuditActor, AuditChanges, AuditLog } from '../../src/domain/interfaces/entities/AuditLog';
+import { ProjectMemberDAO } from '../../src/domain/interfaces/dao/ProjectMemberDAO';
+import { ProjectMember, ProjectMemberRole } from '../../src/domain/interfaces/entities/ProjectMember';
+import { OrganizationDAO } from '../../src/domain/interfaces/dao/OrganizationDAO';
+import { Organization } from '../../src/domain/interfaces/entities/Organization';
+import { OrganizationMemberDAO } from '../../src/domain/interfaces/dao/OrganizationMemberDAO';
+import { OrganizationMember, OrganizationRole } from '../../src/domain/interfaces/entities/OrganizationMember';
+import { ProjectTransferDAO } from '../../src/domain/interfaces/dao/ProjectTransferDAO';
+import { ProjectTransfer } from '../../src/domain/interfaces/entities/ProjectTransfer';
 import { DatabaseSession } from '../../src/domain/interfaces/DatabaseSession';
 
 /**
  * Mock implementation of UserDAO for testing
  */
 class MockUserDAO implements UserDAO<unknown> {
-  createUser = jest.fn<Promise<User | null>, [DatabaseSession<unknown>, string, string]>();
+  createUser = jest.fn<Promise<User | null>, [DatabaseSession<unknown>, string, string, UserRole[], string | null]>();
   findById = jest.fn<Promise<User | null>, [string]>();
   findByUsername = jest.fn<Promise<User | null>, [string]>();
   findByUsernameWithPassword = jest.fn<Promise<User | null>, [string]>();
+  findByEmail = jest.fn<Promise<User | null>, [string]>();
+  findByEmailWithPassword = jest.fn<Promise<User | null>, [string]>();
+  findUnverifiedByEmail = jest.fn<Promise<User[]>, [string]>();
+  markEmailVerified = jest.fn<Promise<boolean>, [DatabaseSession<unknown>, string, string]>();
+  updateRoles = jest.fn<Promise<User | null>, [DatabaseSession<unknown>, string, UserRole[]]>();
+  updatePassword = jest.fn<Promise<boolean>, [DatabaseSession<unknown>, string, string]>();
+  findUsers = jest.fn<Promise<GetAllUsersResult>, [number, number, string?]>();
+  setUserDisabled = jest.fn<Promise<User | null>, [DatabaseSession<unknown>, string, boolean]>();
+  deleteUser = jest.fn<Promise<boolean>, [DatabaseSession<unknown>, string]>();
 }
 
 /**
  * Mock implementation of AccessTokenDAO for testing
  */
 class MockAccessTokenDAO implements AccessTokenDAO<unknown> {
-  createAccessToken = jest.fn<Promise<AccessToken>, [DatabaseSession<unknown>, string, string, Date, number]>();
+  createAccessToken = jest.fn<Promise<AccessToken>, [DatabaseSession<unknown>, string, string, string, Date, number]>();
   findAccessToken = jest.fn<Promise<AccessToken | null>, [string]>();
   revokeAccessToken = jest.fn<Promise<boolean>, [DatabaseSession<unknown>, string, number]>();
+  revokeAccessTokenFamily = jest.fn<Promise<number>, [DatabaseSession<unknown>, string, number]>();
+  revokeAllUserAccessTokens = jest.fn<Promise<number>, [DatabaseSession<unknown>, string, number, string?]>();
+  cleanExpiredAccessTokens = jest.fn<Promise<number>, [DatabaseSession<unknown>, Date]>();
+  deleteAllUserAccessTokens = jest.fn<Promise<number>, [DatabaseSession<unknown>, string]>();
 }
 
 /**
  * Mock implementation of RefreshTokenDAO for testing
  */
 class MockRefreshTokenDAO implements RefreshTokenDAO<unknown> {
-  createRefreshToken = jest.fn<Promise<RefreshToken>, [DatabaseSession<unknown>, string, string, Date, number]>();
+  createRefreshToken = jest.fn<Promise<RefreshToken>, 
+    [DatabaseSession<unknown>, string, string, string, Date, number]>();
   findRefreshToken = jest.fn<Promise<RefreshToken | null>, [string]>();
+  findRevokedRefreshToken = jest.fn<Promise<RefreshToken | null>, [string]>();
   revokeRefreshToken = jest.fn<Promise<boolean>, [DatabaseSession<unknown>, string, number]>();
-  cleanExpiredRefreshTokens = jest.fn<Promise<void>, [DatabaseSession<unknown>, Date]>();
+  revokeRefreshTokenFamily = jest.fn<Promise<number>, [DatabaseSession<unknown>, string, number]>();
+  revokeAllUserRefreshTokens = jest.fn<Promise<number>, [DatabaseSession<unknown>, string, number, string?]>();
+  cleanExpiredRefreshTokens = jest.fn<Promise<number>, [DatabaseSession<unknown>, Date]>();
+  deleteAllUserRefreshTokens = jest.fn<Promise<number>, [DatabaseSession<unknown>, string]>();
 }
 
 /**
  * Mock implementation of ProjectDAO for testing
  */
 class MockProjectDAO implements ProjectDAO<unknown> {
-  createProject = jest.fn<Promise<Project | null>, [DatabaseSession<unknown>, string, string, string, number]>();
+  createProject = jest.fn<Promise<Project | null>,
+    [DatabaseSession<unknown>, string, string, string, string | null, number]>();
   findById = jest.fn<Promise<Project | null>, [string]>();
-  findByUserId = jest.fn<Promise<GetAllProjectsResult>, [string, number, number]>();
+  findAccessibleProjects = jest.fn<Promise<GetAllProjectsResult>,
+    [ProjectAccess, ProjectFilter, ProjectSort, number, number]>();
+  findAccessibleProjectsByCursor = jest.fn<Promise<GetProjectsByCursorResult>,
+    [ProjectAccess, ProjectFilter, ProjectSort, ProjectCursor | null, number, boolean]>();
+  countByOrganizationId = jest.fn<Promise<number>, [string]>();
+  findProjectIdsByUserId = jest.fn<Promise<string[]>, [string]>();
   updateProject = jest.fn<Promise<Project | null>, 
-    [DatabaseSession<unknown>, string, string, number, string?, string?]>();
-  deleteProject = jest.fn<Promise<boolean>, [DatabaseSession<unknown>, string, string]>();
-  isProjectOwnedByUser = jest.fn<Promise<boolean>, [string, string]>();
+    [DatabaseSession<unknown>, string, number, string?, string?]>();
+  transferProject = jest.fn<Promise<Project | null>, [DatabaseSession<unknown>, string, string, number]>();
+  deleteProject = jest.fn<Promise<boolean>, [DatabaseSession<unknown>, string]>();
   getAllProjects = jest.fn<Promise<GetAllProjectsResult>, [number, number]>();
+  deleteAllUserProjects = jest.fn<Promise<number>, [DatabaseSession<unknown>, string]>();
+}
+
+/**
+ * Mock implementation of UserSessionDAO for testing
+ */
+class MockUserSessionDAO implements UserSessionDAO<unknown> {
+  createUserSession = jest.fn<Promise<UserSession>, [DatabaseSession<unknown>, string, string, string, number]>();
+  findById = jest.fn<Promise<UserSession | null>, [string]>();
+  findActiveByUserId = jest.fn<Promise<UserSession[]>, [string]>();
+  touchUserSession = jest.fn<Promise<boolean>, [DatabaseSession<unknown>, string, number]>();
+  revokeUserSession = jest.fn<Promise<boolean>, [DatabaseSession<unknown>, string, number]>();
+  revokeAllUserSessions = jest.fn<Promise<number>, [DatabaseSession<unknown>, string, number, string?]>();
+  deleteAllUserSessions = jest.fn<Promise<number>, [DatabaseSession<unknown>, string]>();
+}
+
+/**
+ * Mock implementation of PasswordResetTokenDAO for testing
+ */
+class MockPasswordResetTokenDAO implements PasswordResetTokenDAO<unknown> {
+  createPasswordResetToken = jest.fn<Promise<PasswordResetToken>,
+    [DatabaseSession<unknown>, string, string, Date, number]>();
+  consumePasswordResetToken = jest.fn<Promise<PasswordResetToken | null>, [DatabaseSession<unknown>, string, number]>();
+  invalidateAllUserPasswordResetTokens = jest.fn<Promise<number>, [DatabaseSession<unknown>, string, number]>();
+  deleteAllUserPasswordResetTokens = jest.fn<Promise<number>, [DatabaseSession<unknown>, string]>();
+}
+
+/**
+ * Mock implementation of EmailVerificationTokenDAO for testing
+ */
+class MockEmailVerificationTokenDAO implements EmailVerificationTokenDAO<unknown> {
+  createEmailVerificationToken = jest.fn<Promise<EmailVerificationToken>,
+    [DatabaseSession<unknown>, string, string, string, Date, number]>();
+  consumeEmailVerificationToken = jest.fn<Promise<EmailVerificationToken | null>,
+    [DatabaseSession<unknown>, string, number]>();
+  invalidateAllUserEmailVerificationTokens = jest.fn<Promise<number>, [DatabaseSession<unknown>, string, number]>();
+  deleteAllUserEmailVerificationTokens = jest.fn<Promise<number>, [DatabaseSession<unknown>, string]>();
+}
+
+/**
+ * Mock implementation of LoginAttemptDAO for testing
+ */
+class MockLoginAttemptDAO implements LoginAttemptDAO<unknown> {
+  findByUsername = jest.fn<Promise<LoginAttempt | null>, [string]>();
+  recordFailedAttempt = jest.fn<Promise<LoginAttempt>, [DatabaseSession<unknown>, string, number]>();
+  lockUsername = jest.fn<Promise<LoginAttempt | null>, [DatabaseSession<unknown>, string, Date, number]>();
+  resetLoginAttempts = jest.fn<Promise<boolean>, [DatabaseSession<unknown>, string]>();
+}
+
+/**
+ * Mock implementation of TotpCredentialDAO for testing
+ */
+class MockTotpCredentialDAO implements TotpCredentialDAO<unknown> {
+  findByUserId = jest.fn<Promise<TotpCredential | null>, [string]>();
+  savePendingCredential = jest.fn<Promise<TotpCredential | null>,
+    [DatabaseSession<unknown>, string, string, string[], number]>();
+  confirmCredential = jest.fn<Promise<boolean>, [DatabaseSession<unknown>, string, number, number]>();
+  useStep = jest.fn<Promise<boolean>, [DatabaseSession<unknown>, string, number, number]>();
+  useRecoveryCode = jest.fn<Promise<TotpCredential | null>, [DatabaseSession<unknown>, string, string, number]>();
+  deleteCredential = jest.fn<Promise<boolean>, [DatabaseSession<unknown>, string]>();
+}
+
+/**
+ * Mock implementation of LinkedIdentityDAO for testing
+ */
+class MockLinkedIdentityDAO implements LinkedIdentityDAO<unknown> {
+  findByProviderSubject = jest.fn<Promise<LinkedIdentity | null>, [string, string]>();
+  createLinkedIdentity = jest.fn<Promise<LinkedIdentity | null>,
+    [DatabaseSession<unknown>, string, string, string, string | null, number]>();
+  recordLogin = jest.fn<Promise<boolean>, [DatabaseSession<unknown>, string, string | null, number]>();
+  deleteAllUserLinkedIdentities = jest.fn<Promise<number>, [DatabaseSession<unknown>, string]>();
+}
+
+/**
+ * Mock implementation of ApiKeyDAO for testing
+ */
+class MockApiKeyDAO implements ApiKeyDAO<unknown> {
+  createApiKey = jest.fn<Promise<ApiKey>,
+    [DatabaseSession<unknown>, string, string, string, string, TokenScope[], Date | null, number]>();
+  findByTokenHash = jest.fn<Promise<ApiKey | null>, [string]>();
+  findById = jest.fn<Promise<ApiKey | null>, [string]>();
+  findByUserId = jest.fn<Promise<ApiKey[]>, [string]>();
+  recordUsage = jest.fn<Promise<boolean>, [string, number]>();
+  deleteApiKey = jest.fn<Promise<boolean>, [DatabaseSession<unknown>, string]>();
+  deleteAllUserApiKeys = jest.fn<Promise<number>, [DatabaseSession<unknown>, string]>();
+}
+
+/**
+ * Mock implementation of JobLockDAO for testing
+ */
+class MockJobLockDAO implements JobLockDAO {
+  acquireLock = jest.fn<Promise<boolean>, [string, string, Date, number]>();
+  releaseLock = jest.fn<Promise<boolean>, [string, string]>();
+}
+
+/**
+ * Mock implementation of AuditLogDAO for testing
+ */
+class MockAuditLogDAO implements AuditLogDAO<unknown> {
+  createAuditLog = jest.fn<
+    Promise<AuditLog>,
+    [DatabaseSession<unknown>, AuditAction, AuditActor, string | null, AuditChanges | null, number]
+  >();
+  findAuditLogs = jest.fn<Promise<GetAuditLogsResult>, [AuditLogFilter, number, number]>();
+}
+
+/**
+ * Mock implementation of ProjectMemberDAO for testing
+ */
+class MockProjectMemberDAO implements ProjectMemberDAO<unknown> {
+  createProjectMember = jest.fn<Promise<ProjectMember | null>,
+    [DatabaseSession<unknown>, string, string, ProjectMemberRole, number]>();
+  findMember = jest.fn<Promise<ProjectMember | null>, [string, string]>();
+  findByProjectId = jest.fn<Promise<ProjectMember[]>, [string]>();
+  findByUserId = jest.fn<Promise<ProjectMember[]>, [string]>();
+  updateMemberRole = jest.fn<Promise<ProjectMember | null>,
+    [DatabaseSession<unknown>, string, string, ProjectMemberRole, number]>();
+  deleteProjectMember = jest.fn<Promise<boolean>, [DatabaseSession<unknown>, string, string]>();
+  deleteAllProjectMembers = jest.fn<Promise<number>, [DatabaseSession<unknown>, string[]]>();
+  deleteAllUserMemberships = jest.fn<Promise<number>, [DatabaseSession<unknown>, string]>();
+}
+
+/**
+ * Mock implementation of OrganizationDAO for testing
+ */
+class MockOrganizationDAO implements OrganizationDAO<unknown> {
+  createOrganization = jest.fn<Promise<Organization | null>, [DatabaseSession<unknown>, string, number]>();
+  findById = jest.fn<Promise<Organization | null>, [string]>();
+  findByIds = jest.fn<Promise<Organization[]>, [string[]]>();
+  updateOrganization = jest.fn<Promise<Organization | null>, [DatabaseSession<unknown>, string, string, number]>();
+  deleteOrganization = jest.fn<Promise<boolean>, [DatabaseSession<unknown>, string]>();
+}
+
+/**
+ * Mock implementation of OrganizationMemberDAO for testing
+ */
+class MockOrganizationMemberDAO implements OrganizationMemberDAO<unknown> {
+  createOrganizationMember = jest.fn<Promise<OrganizationMember | null>,
+    [DatabaseSession<unknown>, string, string, OrganizationRole, number]>();
+  findMember = jest.fn<Promise<OrganizationMember | null>, [string, string]>();
+  findByOrganizationId = jest.fn<Promise<OrganizationMember[]>, [string]>();
+  findByUserId = jest.fn<Promise<OrganizationMember[]>, [string]>();
+  countMembersWithRole = jest.fn<Promise<number>, [string, OrganizationRole]>();
+  updateMemberRole = jest.fn<Promise<OrganizationMember | null>,
+    [DatabaseSession<unknown>, string, string, OrganizationRole, number]>();
+  deleteOrganizationMember = jest.fn<Promise<boolean>, [DatabaseSession<unknown>, string, string]>();
+  deleteAllOrganizationMembers = jest.fn<Promise<number>, [DatabaseSession<unknown>, string]>();
+  deleteAllUserMemberships = jest.fn<Promise<number>, [DatabaseSession<unknown>, string]>();
+}
+
+/**
+ * Mock implementation of ProjectTransferDAO for testing
+ */
+class MockProjectTransferDAO implements ProjectTransferDAO<unknown> {
+  saveProjectTransfer = jest.fn<Promise<ProjectTransfer>, [DatabaseSession<unknown>, string, string, string, number]>();
+  findByProjectId = jest.fn<Promise<ProjectTransfer | null>, [string]>();
+  findByToUserId = jest.fn<Promise<ProjectTransfer[]>, [string]>();
+  deleteProjectTransfer = jest.fn<Promise<boolean>, [DatabaseSession<unknown>, string]>();
+  deleteAllUserProjectTransfers = jest.fn<Promise<number>, [DatabaseSession<unknown>, string]>();
 }
 
 /**
@@ -60,11 +271,37 @@ export class MockContainerDAO implements ContainerDAO<unknown> {
   public readonly accessTokenDAO: AccessTokenDAO<unknown>;
   public readonly refreshTokenDAO: RefreshTokenDAO<unknown>;
   public readonly projectDAO: ProjectDAO<unknown>;
+  public readonly userSessionDAO: UserSessionDAO<unknown>;
+  public readonly passwordResetTokenDAO: PasswordResetTokenDAO<unknown>;
+  public readonly emailVerificationTokenDAO: EmailVerificationTokenDAO<unknown>;
+  public readonly loginAttemptDAO: LoginAttemptDAO<unknown>;
+  public readonly totpCredentialDAO: TotpCredentialDAO<unknown>;
+  public readonly linkedIdentityDAO: LinkedIdentityDAO<unknown>;
+  public readonly apiKeyDAO: ApiKeyDAO<unknown>;
+  public readonly jobLockDAO: JobLockDAO;
+  public readonly auditLogDAO: AuditLogDAO<unknown>;
+  public readonly projectMemberDAO: ProjectMemberDAO<unknown>;
+  public readonly organizationDAO: OrganizationDAO<unknown>;
+  public readonly organizationMemberDAO: OrganizationMemberDAO<unknown>;
+  public readonly projectTransferDAO: ProjectTransferDAO<unknown>;
 
   constructor() {
     this.userDAO = new MockUserDAO();
     this.accessTokenDAO = new MockAccessTokenDAO();
     this.refreshTokenDAO = new MockRefreshTokenDAO();
     this.projectDAO = new MockProjectDAO();
+    this.userSessionDAO = new MockUserSessionDAO();
+    this.passwordResetTokenDAO = new MockPasswordResetTokenDAO();
+    this.emailVerificationTokenDAO = new MockEmailVerificationTokenDAO();
+    this.loginAttemptDAO = new MockLoginAttemptDAO();
+    this.totpCredentialDAO = new MockTotpCredentialDAO();
+    this.linkedIdentityDAO = new MockLinkedIdentityDAO();
+    this.apiKeyDAO = new MockApiKeyDAO();
+    this.jobLockDAO = new MockJobLockDAO();
+    this.auditLogDAO = new MockAuditLogDAO();
+    this.projectMemberDAO = new MockProjectMemberDAO();
+    this.organizationDAO = new MockOrganizationDAO();
+    this.organizationMemberDAO = new MockOrganizationMemberDAO();
+    this.projectTransferDAO = new MockProjectTransferDAO();
   }
 }
@@ -0,0 +1,36 @@
+import { generateKeyPairSync } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Temporary directory of PEM private keys for asymmetric access token signing
+ *
+ * Keys are written as `<kid>.pem`, the layout JWT_KEYS_DIR expects.
+ */
+export class MockJwtKeys {
+  public readonly dir: string;
+
+  constructor() {
+    this.dir = mkdtempSync(path.join(os.tmpdir(), 'jwt-keys-'));
+  }
+
+  /**
+   * Writes a new private key and returns the path of its file
+   */
+  public writeKey(kid: string, type: 'rsa' | 'ec' = 'rsa', modulusLength: number = 2048): string {
+    const { privateKey } = type === 'rsa'
+      ? generateKeyPairSync('rsa', { modulusLength })
+      : generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+    const file = path.join(this.dir, `${kid}.pem`);
+    writeFileSync(file, privateKey.export({ type: 'pkcs8', format: 'pem' }));
+    return file;
+  }
+
+  /**
+   * Deletes the directory and its keys
+   */
+  public remove(): void {
+    rmSync(this.dir, { recursive: true, force: true });
+  }
+}
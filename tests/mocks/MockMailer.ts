@@ -0,0 +1,27 @@
+import { Mailer, MailMessage } from '../../src/utils/Mailer';
+
+/**
+ * Mock implementation of Mailer for testing
+ * Records every message instead of delivering it
+ */
+export class MockMailer implements Mailer {
+  /** Messages sent so far, oldest first */
+  public readonly sentMessages: MailMessage[] = [];
+
+  /**
+   * Record a message
+   * @param message - Message to record
+   */
+  public async send(message: MailMessage): Promise<void> {
+    this.sentMessages.push(message);
+  }
+
+  /**
+   * Get the most recent message sent to a recipient
+   * @param to - Recipient address
+   * @returns Last message sent to the recipient, or undefined if none
+   */
+  public lastMessageTo(to: string): MailMessage | undefined {
+    return [...this.sentMessages].reverse().find(message => message.to === to);
+  }
+}
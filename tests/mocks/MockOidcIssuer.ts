@@ -0,0 +1,192 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createHash, generateKeyPairSync, KeyObject, randomBytes } from 'crypto';
+import jwt from 'jsonwebtoken';
+
+/**
+ * Claims of the account signing in at the mock issuer
+ */
+export interface MockOidcAccount {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  preferred_username?: string;
+}
+
+/**
+ * Authorization code issued by the mock issuer, waiting to be exchanged
+ */
+interface PendingCode {
+  account: MockOidcAccount;
+  clientId: string;
+  redirectUri: string;
+  nonce: string;
+  codeChallenge: string;
+}
+
+/**
+ * Local OpenID Connect issuer for tests
+ *
+ * Serves the discovery document, a key set and a token endpoint on a random
+ * localhost port. Instead of a sign-in page, `authorize` takes the
+ * authorization URL the server redirected to and returns the callback URL
+ * the provider would redirect back to. The token endpoint checks client
+ * credentials, redirect URI and PKCE like a real provider.
+ */
+export class MockOidcIssuer {
+  public readonly clientId = 'test-client';
+  public readonly clientSecret = 'test-client-secret';
+
+  /** Number of requests served by the key set endpoint */
+  public jwksRequests = 0;
+
+  private server: http.Server | null = null;
+  private baseUrl = '';
+  private keyId = '';
+  private privateKey!: KeyObject;
+  private publicKey!: KeyObject;
+  private readonly codes = new Map<string, PendingCode>();
+
+  constructor() {
+    this.rotateKey();
+  }
+
+  /**
+   * Issuer URL, available once the issuer is started
+   */
+  get issuer(): string {
+    return this.baseUrl;
+  }
+
+  /**
+   * Start listening on a random localhost port
+   * @returns Issuer URL
+   */
+  async start(): Promise<string> {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+    this.baseUrl = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    return this.baseUrl;
+  }
+
+  /**
+   * Stop listening
+   */
+  async stop(): Promise<void> {
+    if (this.server) {
+      const server = this.server;
+      await new Promise<void>(resolve => {
+        server.close(() => resolve());
+        server.closeAllConnections(); // Keep-alive connections of fetch would delay the close
+      });
+      this.server = null;
+    }
+  }
+
+  /**
+   * Replace the signing key, as providers do during key rotation
+   */
+  rotateKey(): void {
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    this.privateKey = privateKey;
+    this.publicKey = publicKey;
+    this.keyId = randomBytes(8).toString('hex');
+  }
+
+  /**
+   * Sign an account in, as if the user completed the sign-in page
+   * @param authorizationUrl - URL the server redirected the browser to
+   * @param account - Claims of the account signing in
+   * @returns Callback URL with authorization code and state
+   */
+  authorize(authorizationUrl: string, account: MockOidcAccount): string {
+    const params = new URL(authorizationUrl).searchParams;
+    const code = randomBytes(16).toString('hex');
+    this.codes.set(code, {
+      account,
+      clientId: params.get('client_id') ?? '',
+      redirectUri: params.get('redirect_uri') ?? '',
+      nonce: params.get('nonce') ?? '',
+      codeChallenge: params.get('code_challenge') ?? ''
+    });
+
+    const callbackUrl = new URL(params.get('redirect_uri') ?? '');
+    callbackUrl.searchParams.set('code', code);
+    callbackUrl.searchParams.set('state', params.get('state') ?? '');
+    return callbackUrl.toString();
+  }
+
+  /**
+   * Sign an ID token with the current key, for tests crafting tokens directly
+   * @param claims - Claims of the token
+   * @returns Signed ID token
+   */
+  signIdToken(claims: Record<string, unknown>): string {
+    return jwt.sign(claims, this.privateKey, { algorithm: 'RS256', keyid: this.keyId });
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const path = new URL(req.url ?? '/', this.baseUrl).pathname;
+
+    if (req.method === 'GET' && path === '/.well-known/openid-configuration') {
+      this.sendJson(res, 200, {
+        issuer: this.baseUrl,
+        authorization_endpoint: `${this.baseUrl}/authorize`,
+        token_endpoint: `${this.baseUrl}/token`,
+        jwks_uri: `${this.baseUrl}/jwks`,
+        response_types_supported: ['code'],
+        code_challenge_methods_supported: ['S256']
+      });
+    } else if (req.method === 'GET' && path === '/jwks') {
+      this.jwksRequests++;
+      const jwk = this.publicKey.export({ format: 'jwk' });
+      this.sendJson(res, 200, { keys: [{ ...jwk, kid: this.keyId, use: 'sig', alg: 'RS256' }] });
+    } else if (req.method === 'POST' && path === '/token') {
+      let body = '';
+      req.on('data', (chunk: Buffer) => { body += chunk.toString(); });
+      req.on('end', () => this.handleToken(req, res, new URLSearchParams(body)));
+    } else {
+      this.sendJson(res, 404, { error: 'not_found' });
+    }
+  }
+
+  private handleToken(req: http.IncomingMessage, res: http.ServerResponse, params: URLSearchParams): void {
+    const expectedAuthorization = `Basic ${Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64')}`;
+    if (req.headers.authorization !== expectedAuthorization) {
+      this.sendJson(res, 401, { error: 'invalid_client' });
+      return;
+    }
+
+    const code = params.get('code') ?? '';
+    const pending = this.codes.get(code);
+    this.codes.delete(code);
+
+    const codeChallenge = createHash('sha256').update(params.get('code_verifier') ?? '').digest('base64url');
+    if (
+      params.get('grant_type') !== 'authorization_code' ||
+      !pending ||
+      pending.clientId !== this.clientId ||
+      pending.redirectUri !== params.get('redirect_uri') ||
+      pending.codeChallenge !== codeChallenge
+    ) {
+      this.sendJson(res, 400, { error: 'invalid_grant' });
+      return;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const idToken = this.signIdToken({
+      ...pending.account,
+      iss: this.baseUrl,
+      aud: this.clientId,
+      nonce: pending.nonce,
+      iat: now,
+      exp: now + 300
+    });
+    this.sendJson(res, 200, { access_token: 'mock-access-token', token_type: 'Bearer', id_token: idToken });
+  }
+
+  private sendJson(res: http.ServerResponse, statusCode: number, body: unknown): void {
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
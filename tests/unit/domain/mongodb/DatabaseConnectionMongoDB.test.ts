@@ -3,11 +3,20 @@ import { DatabaseConnectionMongoDB } from '../../../../src/domain/mongodb/Databa
 import { EnvVars } from '../../../../src/setup/EnvVars';
 import winston from 'winston';
 import { MongoClient } from 'mongodb';
+import { migrateLegacyTokenRecords } from '../../../../src/domain/mongodb/utils/BaseTokenMongoDB';
+import { migrateProjectOwners } from '../../../../src/domain/mongodb/entities/ProjectMongoDB';
+import { migrateUserEmailIndex } from '../../../../src/domain/mongodb/entities/UserMongoDB';
 
 // Mock mongoose module
 jest.mock('mongoose');
+jest.mock('../../../../src/domain/mongodb/utils/BaseTokenMongoDB');
+jest.mock('../../../../src/domain/mongodb/entities/ProjectMongoDB');
+jest.mock('../../../../src/domain/mongodb/entities/UserMongoDB');
 
 const mockedMongoose = jest.mocked(mongoose);
+const mockedMigrateLegacyTokenRecords = jest.mocked(migrateLegacyTokenRecords);
+const mockedMigrateProjectOwners = jest.mocked(migrateProjectOwners);
+const mockedMigrateUserEmailIndex = jest.mocked(migrateUserEmailIndex);
 
 describe('DatabaseConnectionMongoDB', () => {
   let databaseConnection: DatabaseConnectionMongoDB;
@@ -21,6 +30,9 @@ describe('DatabaseConnectionMongoDB', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    mockedMigrateLegacyTokenRecords.mockResolvedValue(0);
+    mockedMigrateProjectOwners.mockResolvedValue(0);
+    mockedMigrateUserEmailIndex.mockResolvedValue(0);
     
     // Setup connection mock
     mockConnection = {
@@ -93,6 +105,71 @@ describe('DatabaseConnectionMongoDB', () => {
       expect(databaseConnection.getConnectionState(mockEnvVars, mockLogger)).toBe(true);
     });
 
+    it('should migrate the access and refresh token collections', async () => {
+      mockedMongoose.connect.mockResolvedValue(mongoose);
+
+      await databaseConnection.connect(mockEnvVars, mockLogger);
+
+      expect(mockedMigrateLegacyTokenRecords).toHaveBeenCalledTimes(2);
+      expect(mockLogger.info).not.toHaveBeenCalledWith('Deleted token records stored before token hashes', expect.anything());
+    });
+
+    it('should log the legacy token records deleted', async () => {
+      mockedMongoose.connect.mockResolvedValue(mongoose);
+      mockedMigrateLegacyTokenRecords.mockResolvedValueOnce(3).mockResolvedValueOnce(2);
+
+      await databaseConnection.connect(mockEnvVars, mockLogger);
+
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        'Deleted token records stored before token hashes',
+        { deletedAccessTokens: 3, deletedRefreshTokens: 2 }
+      );
+    });
+
+    it('should migrate the projects collection', async () => {
+      mockedMongoose.connect.mockResolvedValue(mongoose);
+
+      await databaseConnection.connect(mockEnvVars, mockLogger);
+
+      expect(mockedMigrateProjectOwners).toHaveBeenCalledTimes(1);
+      expect(mockLogger.info).not.toHaveBeenCalledWith(
+        'Assigned owners to projects stored before organizations', expect.anything()
+      );
+    });
+
+    it('should log the projects given an owner', async () => {
+      mockedMongoose.connect.mockResolvedValue(mongoose);
+      mockedMigrateProjectOwners.mockResolvedValueOnce(4);
+
+      await databaseConnection.connect(mockEnvVars, mockLogger);
+
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        'Assigned owners to projects stored before organizations', { migratedProjects: 4 }
+      );
+    });
+
+    it('should migrate the users collection', async () => {
+      mockedMongoose.connect.mockResolvedValue(mongoose);
+
+      await databaseConnection.connect(mockEnvVars, mockLogger);
+
+      expect(mockedMigrateUserEmailIndex).toHaveBeenCalledTimes(1);
+      expect(mockLogger.info).not.toHaveBeenCalledWith(
+        'Dropped the unique index on unverified email addresses', expect.anything()
+      );
+    });
+
+    it('should log the legacy email index dropped', async () => {
+      mockedMongoose.connect.mockResolvedValue(mongoose);
+      mockedMigrateUserEmailIndex.mockResolvedValueOnce(1);
+
+      await databaseConnection.connect(mockEnvVars, mockLogger);
+
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        'Dropped the unique index on unverified email addresses', { droppedIndexes: 1 }
+      );
+    });
+
     it('should not connect if already connected', async () => {
       // First connection
       mockedMongoose.connect.mockResolvedValue(mongoose);
@@ -1,10 +1,13 @@
 import mongoose from 'mongoose';
+import { Collection } from 'mongodb';
 import { AppError } from '../../../../../src/setup/middleware/errorHandler';
 import {
   isMongoDBDuplicateKeyError,
+  dropIndexIfExists,
   extractUserIdString,
   validateMongoObjectId,
   validateMongoObjectIds,
+  escapeRegex,
 } from '../../../../../src/domain/mongodb/utils/MongoDBErrorUtils';
 
 // Mock mongoose
@@ -73,6 +76,30 @@ describe('MongoDBErrorUtils', () => {
     });
   });
 
+  describe('dropIndexIfExists', () => {
+    const mongoError = (code: number) => Object.assign(new Error('index error'), { code });
+
+    it('should drop the index', async () => {
+      const collection = { dropIndex: jest.fn().mockResolvedValue({}) };
+
+      await dropIndexIfExists(collection as unknown as Collection, 'token_1');
+
+      expect(collection.dropIndex).toHaveBeenCalledWith('token_1');
+    });
+
+    it('should succeed when the index was already dropped', async () => {
+      const collection = { dropIndex: jest.fn().mockRejectedValue(mongoError(27)) };
+
+      await expect(dropIndexIfExists(collection as unknown as Collection, 'token_1')).resolves.toBeUndefined();
+    });
+
+    it('should rethrow other errors', async () => {
+      const collection = { dropIndex: jest.fn().mockRejectedValue(mongoError(13)) };
+
+      await expect(dropIndexIfExists(collection as unknown as Collection, 'token_1')).rejects.toThrow('index error');
+    });
+  });
+
   describe('extractUserIdString', () => {
     it('should return string userId as is', () => {
       const userId = '507f1f77bcf86cd799439011';
@@ -252,4 +279,21 @@ describe('MongoDBErrorUtils', () => {
       expect(mockedMongoose.Types.ObjectId.isValid).toHaveBeenCalledTimes(1);
     });
   });
-});
\ No newline at end of file
+
+  describe('escapeRegex', () => {
+    it('should escape regular expression metacharacters', () => {
+      expect(escapeRegex('a.b*c+d?e^f$g{h}i(j)k|l[m]n\\o')).toBe(
+        'a\\.b\\*c\\+d\\?e\\^f\\$g\\{h\\}i\\(j\\)k\\|l\\[m\\]n\\\\o'
+      );
+    });
+
+    it('should leave plain text unchanged', () => {
+      expect(escapeRegex('my_project-1')).toBe('my_project-1');
+    });
+
+    it('should make the text match literally', () => {
+      expect(new RegExp(`^${escapeRegex('git.hub')}$`).test('gitxhub')).toBe(false);
+      expect(new RegExp(`^${escapeRegex('git.hub')}$`).test('git.hub')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import mongoose from 'mongoose';
+import {
+  toAccessibleProjectsQuery,
+  toProjectKeysetQuery,
+  toProjectSortQuery,
+} from '../../../../../src/domain/mongodb/utils/ProjectQueryMongoDB';
+import { ProjectCursor } from '../../../../../src/domain/interfaces/dao/ProjectDAO';
+
+describe('ProjectQueryMongoDB', () => {
+  const userId = '507f1f77bcf86cd799439011';
+  const projectId = '507f1f77bcf86cd799439012';
+  const createdAt = new Date('2024-01-01T00:00:00.000Z');
+
+  describe('toAccessibleProjectsQuery', () => {
+    it('should match the accessible projects with the filters', () => {
+      const query = toAccessibleProjectsQuery(
+        { userId, organizationIds: [], sharedProjectIds: [projectId] },
+        { name: 'a.b', gitHost: 'github.com', createdFrom: createdAt }
+      );
+
+      expect(query.$or).toEqual([
+        { userId: new mongoose.Types.ObjectId(userId), organizationId: null },
+        { organizationId: { $in: [] } },
+        { _id: { $in: [new mongoose.Types.ObjectId(projectId)] } }
+      ]);
+      expect(query.name).toEqual({ $regex: 'a\\.b', $options: 'i' });
+      expect(query.gitUrl).toEqual({ $regex: '^(https?://([^@/]+@)?|[^@/:]+@)github\\.com([:/]|$)', $options: 'i' });
+      expect(query.createdAt).toEqual({ $gte: createdAt });
+      expect(query.updatedAt).toBeUndefined();
+    });
+
+    it('should reject invalid IDs', () => {
+      expect(() => toAccessibleProjectsQuery(
+        { userId, organizationIds: ['invalid'], sharedProjectIds: [] }, {}
+      )).toThrow('Invalid organization ID format');
+    });
+  });
+
+  describe('toProjectSortQuery', () => {
+    it('should break ties by creation date and ID in the same direction', () => {
+      expect(toProjectSortQuery({ field: 'name', direction: 'asc' })).toEqual({ name: 1, createdAt: 1, _id: 1 });
+      expect(toProjectSortQuery({ field: 'createdAt', direction: 'desc' })).toEqual({ createdAt: -1, _id: -1 });
+    });
+
+    it('should reverse the order', () => {
+      expect(toProjectSortQuery({ field: 'updatedAt', direction: 'desc' }, true))
+        .toEqual({ updatedAt: 1, createdAt: 1, _id: 1 });
+    });
+  });
+
+  describe('toProjectKeysetQuery', () => {
+    const cursor = (direction: ProjectCursor['direction'], value: string | Date): ProjectCursor =>
+      ({ value, createdAt, id: projectId, direction });
+
+    it('should match the projects after a cursor on the creation date', () => {
+      expect(toProjectKeysetQuery({ field: 'createdAt', direction: 'desc' }, cursor('after', createdAt))).toEqual({
+        $or: [
+          { createdAt: { $lt: createdAt } },
+          { createdAt, _id: { $lt: new mongoose.Types.ObjectId(projectId) } }
+        ]
+      });
+    });
+
+    it('should compare on the sort field first', () => {
+      expect(toProjectKeysetQuery({ field: 'name', direction: 'asc' }, cursor('after', 'alpha'))).toEqual({
+        $or: [
+          { name: { $gt: 'alpha' } },
+          { name: 'alpha', createdAt: { $gt: createdAt } },
+          { name: 'alpha', createdAt, _id: { $gt: new mongoose.Types.ObjectId(projectId) } }
+        ]
+      });
+    });
+
+    it('should flip the comparison before a cursor', () => {
+      const query = toProjectKeysetQuery({ field: 'name', direction: 'asc' }, cursor('before', 'alpha'));
+      expect(query.$or![0]).toEqual({ name: { $lt: 'alpha' } });
+
+      const descending = toProjectKeysetQuery({ field: 'createdAt', direction: 'desc' }, cursor('before', createdAt));
+      expect(descending.$or![0]).toEqual({ createdAt: { $gt: createdAt } });
+    });
+
+    it('should reject an invalid cursor project ID', () => {
+      expect(() => toProjectKeysetQuery(
+        { field: 'createdAt', direction: 'desc' }, { ...cursor('after', createdAt), id: 'invalid' }
+      )).toThrow('Invalid project ID format');
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { AuditLogDBUtils } from '../../../../src/domain/utils/AuditLogDBUtils';
+import { AuditActor } from '../../../../src/domain/interfaces/entities/AuditLog';
+import { MockContainerDAO } from '../../../mocks/MockContainerDAO';
+import { MockDatabaseSession } from '../../../mocks/MockDatabaseSession';
+
+describe('AuditLogDBUtils', () => {
+  const actor: AuditActor = { userId: 'user-1', username: 'alice', ip: '127.0.0.1', userAgent: 'jest' };
+
+  describe('diff', () => {
+    it('should return null when there is no state on either side', () => {
+      expect(AuditLogDBUtils.diff(null, null)).toBeNull();
+    });
+
+    it('should keep the whole state of created entities', () => {
+      const after = { name: 'Project', gitUrl: 'https://github.com/a/b.git' };
+
+      expect(AuditLogDBUtils.diff(null, after)).toEqual({ before: null, after });
+    });
+
+    it('should keep the whole state of deleted entities', () => {
+      const before = { name: 'Project', gitUrl: 'https://github.com/a/b.git' };
+
+      expect(AuditLogDBUtils.diff(before, null)).toEqual({ before, after: null });
+    });
+
+    it('should keep only the changed fields of updated entities', () => {
+      const before = { name: 'Old', gitUrl: 'https://github.com/a/b.git', roles: ['user'] };
+      const after = { name: 'New', gitUrl: 'https://github.com/a/b.git', roles: ['user'] };
+
+      expect(AuditLogDBUtils.diff(before, after)).toEqual({
+        before: { name: 'Old' },
+        after: { name: 'New' }
+      });
+    });
+
+    it('should record added and removed fields as null on the other side', () => {
+      expect(AuditLogDBUtils.diff({ email: 'a@example.com' }, { username: 'alice' })).toEqual({
+        before: { email: 'a@example.com', username: null },
+        after: { email: null, username: 'alice' }
+      });
+    });
+
+    it('should compare arrays and dates by value', () => {
+      const before = { roles: ['user'], updatedAt: new Date(1000) };
+      const after = { roles: ['user'], updatedAt: new Date(1000) };
+
+      expect(AuditLogDBUtils.diff(before, after)).toBeNull();
+      expect(AuditLogDBUtils.diff(before, { ...after, roles: ['user', 'admin'] })).toEqual({
+        before: { roles: ['user'] },
+        after: { roles: ['user', 'admin'] }
+      });
+    });
+  });
+
+  describe('record', () => {
+    it('should append the entry with the computed changes in the given session', async () => {
+      const containerDAO = new MockContainerDAO();
+      const session = new MockDatabaseSession();
+
+      await AuditLogDBUtils.record(
+        containerDAO, session, 'project.update', actor, 'project-1', 1000, { name: 'Old' }, { name: 'New' }
+      );
+
+      expect(containerDAO.auditLogDAO.createAuditLog).toHaveBeenCalledWith(
+        session, 'project.update', actor, 'project-1', { before: { name: 'Old' }, after: { name: 'New' } }, 1000
+      );
+    });
+
+    it('should append entries without changes for actions on no state', async () => {
+      const containerDAO = new MockContainerDAO();
+      const session = new MockDatabaseSession();
+
+      await AuditLogDBUtils.record(containerDAO, session, 'auth.logout', actor, null, 1000);
+
+      expect(containerDAO.auditLogDAO.createAuditLog).toHaveBeenCalledWith(
+        session, 'auth.logout', actor, null, null, 1000
+      );
+    });
+  });
+});
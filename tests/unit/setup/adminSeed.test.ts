@@ -0,0 +1,92 @@
+import winston from 'winston';
+import { seedAdmins } from '../../../src/setup/adminSeed';
+import { DatabaseSessionProducer } from '../../../src/domain/interfaces/DatabaseSessionProducer';
+import { User } from '../../../src/domain/interfaces/entities/User';
+import { EnvVars } from '../../../src/setup/EnvVars';
+import { MockContainerDAO } from '../../mocks/MockContainerDAO';
+import { MockDatabaseSession } from '../../mocks/MockDatabaseSession';
+import { MockTimestampProducer } from '../../mocks/MockTimestampProducer';
+
+describe('seedAdmins', () => {
+  const envVars = { ADMIN_USERNAMES: ['alice', 'bob'] } as unknown as EnvVars;
+  let mockContainerDAO: MockContainerDAO;
+  let session: MockDatabaseSession;
+  let sessionProducer: DatabaseSessionProducer<unknown>;
+  let timestampProducer: MockTimestampProducer;
+  let logger: { info: jest.Mock; warn: jest.Mock };
+
+  const user = (username: string, roles: User['roles']): User => ({
+    id: `${username}-id`,
+    username,
+    password: 'hashed',
+    email: null,
+    isEmailVerified: false,
+    roles,
+    isDisabled: false
+  });
+
+  const findByUsername = (find: (username: string) => User | null) =>
+    (mockContainerDAO.userDAO.findByUsername as jest.Mock).mockImplementation(
+      async (username: string) => find(username)
+    );
+
+  const runSeed = () => seedAdmins(
+    envVars, mockContainerDAO, sessionProducer, timestampProducer, logger as unknown as winston.Logger
+  );
+
+  beforeEach(() => {
+    mockContainerDAO = new MockContainerDAO();
+    session = new MockDatabaseSession();
+    sessionProducer = { createSession: jest.fn().mockResolvedValue(session) };
+    timestampProducer = new MockTimestampProducer();
+    logger = { info: jest.fn(), warn: jest.fn() };
+  });
+
+  it('should grant the admin role to the listed users in a transaction and audit it', async () => {
+    findByUsername(username => user(username, ['user']));
+    const commitSpy = jest.spyOn(session, 'commitTransaction');
+
+    expect(await runSeed()).toEqual(['alice', 'bob']);
+
+    expect(mockContainerDAO.userDAO.updateRoles).toHaveBeenCalledWith(session, 'alice-id', ['user', 'admin']);
+    expect(mockContainerDAO.userDAO.updateRoles).toHaveBeenCalledWith(session, 'bob-id', ['user', 'admin']);
+    expect(mockContainerDAO.auditLogDAO.createAuditLog).toHaveBeenCalledWith(
+      session,
+      'user.admin_grant',
+      { userId: null, username: 'admin-seed', ip: 'local', userAgent: 'admin-seed' },
+      'alice-id',
+      { before: { roles: ['user'] }, after: { roles: ['user', 'admin'] } },
+      timestampProducer.getNow()
+    );
+    expect(commitSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should skip usernames without an account', async () => {
+    findByUsername(username => (username === 'bob' ? user('bob', ['user']) : null));
+
+    expect(await runSeed()).toEqual(['bob']);
+
+    expect(mockContainerDAO.userDAO.updateRoles).toHaveBeenCalledTimes(1);
+    expect(logger.warn).toHaveBeenCalledWith('Admin seed skipped an unknown username', { username: 'alice' });
+  });
+
+  it('should leave users already holding the admin role alone', async () => {
+    findByUsername(username => user(username, ['user', 'admin']));
+
+    expect(await runSeed()).toEqual([]);
+
+    expect(mockContainerDAO.userDAO.updateRoles).not.toHaveBeenCalled();
+    expect(mockContainerDAO.auditLogDAO.createAuditLog).not.toHaveBeenCalled();
+  });
+
+  it('should abort the transaction when the grant fails', async () => {
+    findByUsername(() => user('alice', ['user']));
+    (mockContainerDAO.userDAO.updateRoles as jest.Mock).mockRejectedValue(new Error('write failed'));
+    const abortSpy = jest.spyOn(session, 'abortTransaction');
+
+    await expect(runSeed()).rejects.toThrow('write failed');
+
+    expect(abortSpy).toHaveBeenCalled();
+    expect(mockContainerDAO.auditLogDAO.createAuditLog).not.toHaveBeenCalled();
+  });
+});
@@ -32,7 +32,7 @@ describe('CORS initialization', () => {
         expect.objectContaining({
           credentials: true,
           methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-          allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
+          allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-CSRF-Token', 'X-Requested-With']
         })
       );
       expect(mockApp.use).toHaveBeenCalled();
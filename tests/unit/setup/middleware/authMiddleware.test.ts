@@ -1,7 +1,17 @@
 import { Request, Response, NextFunction } from 'express';
-import { authMiddleware, getAuthenticatedUser, AuthenticatedRequestExtended } from '../../../../src/setup/middleware/authMiddleware';
+import {
+  authMiddleware, getAuthenticatedUser, requireScope, AuthenticatedRequestExtended
+} from '../../../../src/setup/middleware/authMiddleware';
 import { AppError } from '../../../../src/setup/middleware/errorHandler';
+import { JWTService, JWTPayload } from '../../../../src/utils/JWTService';
+import { AccessToken } from '../../../../src/domain/interfaces/entities/AccessToken';
+import { ApiKey } from '../../../../src/domain/interfaces/entities/ApiKey';
+import { User } from '../../../../src/domain/interfaces/entities/User';
+import { TokenScope } from '../../../../src/domain/interfaces/entities/TokenScope';
+import { ApiKeyService } from '../../../../src/utils/ApiKeyService';
 import { createMockEnvVars } from '../../../setup';
+import { MockContainerDAO } from '../../../mocks/MockContainerDAO';
+import { MockTimestampProducer } from '../../../mocks/MockTimestampProducer';
 
 describe('authMiddleware', () => {
   let mockRequest: Partial<AuthenticatedRequestExtended>;
@@ -22,7 +32,7 @@ describe('authMiddleware', () => {
   });
 
   describe('authMiddleware function', () => {
-    const middleware = authMiddleware(envVars);
+    const middleware = authMiddleware(envVars, new MockContainerDAO(), new MockTimestampProducer());
 
     it('should throw AppError when no authorization header is provided', () => {
       // No authorization header
@@ -73,6 +83,382 @@ describe('authMiddleware', () => {
     });
   });
 
+  describe('access token revocation', () => {
+    const jwtService = new JWTService(envVars, Date.now());
+    const userId = '507f1f77bcf86cd799439011';
+    const tokenId = '0f8c2f4e-6b1d-4c3a-9e7f-2d5b8a1c4e60';
+    let containerDAO: MockContainerDAO;
+    let timestampProducer: MockTimestampProducer;
+    let findAccessToken: jest.Mock;
+    let token: string;
+
+    const storedToken = (overrides: Partial<AccessToken> = {}): AccessToken => ({
+      id: '507f1f77bcf86cd799439012',
+      userId,
+      familyId: '6502f1a2b3c4d5e6f7a8b9c0',
+      tokenHash: 'a3f5c1e9b7d2046f8e1c3b5a7d9f0e2c4b6a8d0f1e3c5b7a9d2f4e6c8b0a1d3f',
+      expiresAt: new Date(timestampProducer.getNow() + 15 * 60 * 1000),
+      isRevoked: false,
+      createdAt: new Date(timestampProducer.getNow()),
+      updatedAt: new Date(timestampProducer.getNow()),
+      ...overrides
+    });
+
+    const runMiddleware = async (middleware: ReturnType<typeof authMiddleware>): Promise<void> => {
+      mockRequest.headers = { authorization: `Bearer ${token}` };
+      middleware(mockRequest as AuthenticatedRequestExtended, mockResponse as Response, mockNext);
+      await new Promise(resolve => setImmediate(resolve));
+    };
+
+    beforeEach(() => {
+      containerDAO = new MockContainerDAO();
+      timestampProducer = new MockTimestampProducer();
+      findAccessToken = containerDAO.accessTokenDAO.findAccessToken as jest.Mock;
+      token = jwtService.generateAccessToken({
+        userId, username: 'testuser', roles: ['user', 'admin'], scopes: ['project:read']
+      }, timestampProducer.getNow(), tokenId);
+    });
+
+    it('should authenticate when token is stored and not revoked', async () => {
+      findAccessToken.mockResolvedValue(storedToken());
+      const middleware = authMiddleware(envVars, containerDAO, timestampProducer);
+
+      await runMiddleware(middleware);
+
+      expect(findAccessToken).toHaveBeenCalledWith(token);
+      expect(mockNext).toHaveBeenCalledWith();
+      expect(mockRequest.user).toEqual({
+        userId,
+        username: 'testuser',
+        sessionId: '6502f1a2b3c4d5e6f7a8b9c0',
+        roles: ['user', 'admin'],
+        scopes: ['project:read']
+      });
+    });
+
+    it('should attach no roles for tokens issued without them', async () => {
+      token = jwtService.generateAccessToken({ userId, username: 'testuser' } as JWTPayload, timestampProducer.getNow());
+      findAccessToken.mockResolvedValue(storedToken());
+      const middleware = authMiddleware(envVars, containerDAO, timestampProducer);
+
+      await runMiddleware(middleware);
+
+      expect(mockNext).toHaveBeenCalledWith();
+      expect(mockRequest.user?.roles).toEqual([]);
+    });
+
+    it('should attach every scope for tokens issued without scopes', async () => {
+      token = jwtService.generateAccessToken(
+        { userId, username: 'testuser', roles: ['user'] } as JWTPayload, timestampProducer.getNow()
+      );
+      findAccessToken.mockResolvedValue(storedToken());
+      const middleware = authMiddleware(envVars, containerDAO, timestampProducer);
+
+      await runMiddleware(middleware);
+
+      expect(mockNext).toHaveBeenCalledWith();
+      expect(mockRequest.user?.scopes).toEqual(['project:read', 'project:write', 'org:read', 'org:write']);
+    });
+
+    it('should reject a revoked token with 401', async () => {
+      findAccessToken.mockResolvedValue(null);
+      const middleware = authMiddleware(envVars, containerDAO, timestampProducer);
+
+      await runMiddleware(middleware);
+
+      expect(mockNext).toHaveBeenCalledWith(new AppError('Access token has been revoked', 401));
+      expect(mockRequest.user).toBeUndefined();
+    });
+
+    it('should reject a stored token belonging to another user', async () => {
+      findAccessToken.mockResolvedValue(storedToken({ userId: '507f1f77bcf86cd799439099' }));
+      const middleware = authMiddleware(envVars, containerDAO, timestampProducer);
+
+      await runMiddleware(middleware);
+
+      expect(mockNext).toHaveBeenCalledWith(new AppError('Access token has been revoked', 401));
+    });
+
+    it('should serve repeated revocations from the cache', async () => {
+      findAccessToken.mockResolvedValue(null);
+      const middleware = authMiddleware(envVars, containerDAO, timestampProducer);
+
+      await runMiddleware(middleware);
+      await runMiddleware(middleware);
+
+      expect(findAccessToken).toHaveBeenCalledTimes(1);
+      expect(mockNext).toHaveBeenCalledTimes(2);
+      expect((mockNext as jest.Mock).mock.calls[1][0]).toEqual(new AppError('Access token has been revoked', 401));
+    });
+
+    it('should look the token up again once the cache entry expires', async () => {
+      findAccessToken.mockResolvedValue(null);
+      const middleware = authMiddleware(envVars, containerDAO, timestampProducer);
+
+      await runMiddleware(middleware);
+      timestampProducer.advanceBy(31 * 1000);
+      await runMiddleware(middleware);
+
+      expect(findAccessToken).toHaveBeenCalledTimes(2);
+    });
+
+    it('should always query the DAO when the cache is disabled', async () => {
+      process.env.TOKEN_REVOCATION_CACHE_ENABLED = 'false';
+      const envVarsWithoutCache = createMockEnvVars();
+      delete process.env.TOKEN_REVOCATION_CACHE_ENABLED;
+
+      findAccessToken.mockResolvedValue(null);
+      const middleware = authMiddleware(envVarsWithoutCache, containerDAO, timestampProducer);
+
+      await runMiddleware(middleware);
+      await runMiddleware(middleware);
+
+      expect(findAccessToken).toHaveBeenCalledTimes(2);
+    });
+
+    it('should forward DAO errors to next', async () => {
+      const dbError = new Error('Database unavailable');
+      findAccessToken.mockRejectedValue(dbError);
+      const middleware = authMiddleware(envVars, containerDAO, timestampProducer);
+
+      await runMiddleware(middleware);
+
+      expect(mockNext).toHaveBeenCalledWith(dbError);
+      expect(mockRequest.user).toBeUndefined();
+    });
+
+    it('should not query the DAO when JWT verification fails', async () => {
+      token = 'invalidtoken';
+      const middleware = authMiddleware(envVars, containerDAO, timestampProducer);
+
+      await runMiddleware(middleware);
+
+      expect(findAccessToken).not.toHaveBeenCalled();
+      expect((mockNext as jest.Mock).mock.calls[0][0]).toBeInstanceOf(Error);
+    });
+
+    describe('access token cookie', () => {
+      const envVarsWithCookies = (mode: string) => {
+        process.env.AUTH_COOKIES = mode;
+        const cookieEnvVars = createMockEnvVars();
+        delete process.env.AUTH_COOKIES;
+        return cookieEnvVars;
+      };
+
+      const runWithCookie = async (middleware: ReturnType<typeof authMiddleware>): Promise<void> => {
+        mockRequest.cookies = { access_token: token };
+        middleware(mockRequest as AuthenticatedRequestExtended, mockResponse as Response, mockNext);
+        await new Promise(resolve => setImmediate(resolve));
+      };
+
+      it('should authenticate with the access token cookie when AUTH_COOKIES is both', async () => {
+        findAccessToken.mockResolvedValue(storedToken());
+        const middleware = authMiddleware(envVarsWithCookies('both'), containerDAO, timestampProducer);
+
+        await runWithCookie(middleware);
+
+        expect(findAccessToken).toHaveBeenCalledWith(token);
+        expect(mockNext).toHaveBeenCalledWith();
+        expect(mockRequest.user?.userId).toBe(userId);
+      });
+
+      it.each(['off', 'refresh'])('should ignore the access token cookie when AUTH_COOKIES is %s', (mode) => {
+        const middleware = authMiddleware(envVarsWithCookies(mode), containerDAO, timestampProducer);
+        mockRequest.cookies = { access_token: token };
+
+        expect(() => {
+          middleware(mockRequest as AuthenticatedRequestExtended, mockResponse as Response, mockNext);
+        }).toThrow(new AppError('Access token required', 401));
+      });
+
+      it('should prefer the Authorization header over the cookie', async () => {
+        const middleware = authMiddleware(envVarsWithCookies('both'), containerDAO, timestampProducer);
+        mockRequest.cookies = { access_token: token };
+        mockRequest.headers = { authorization: 'Bearer invalidtoken' };
+
+        middleware(mockRequest as AuthenticatedRequestExtended, mockResponse as Response, mockNext);
+
+        expect(findAccessToken).not.toHaveBeenCalled();
+        expect((mockNext as jest.Mock).mock.calls[0][0]).toBeInstanceOf(Error);
+      });
+    });
+  });
+
+  describe('API keys', () => {
+    const userId = '507f1f77bcf86cd799439011';
+    const apiKeyId = '6502f1a2b3c4d5e6f7a8b9c1';
+    let containerDAO: MockContainerDAO;
+    let timestampProducer: MockTimestampProducer;
+    let findByTokenHash: jest.Mock;
+    let findById: jest.Mock;
+    let recordUsage: jest.Mock;
+    let token: string;
+
+    const storedKey = (overrides: Partial<ApiKey> = {}): ApiKey => ({
+      id: apiKeyId,
+      userId,
+      name: 'CI',
+      tokenHash: ApiKeyService.hash(token),
+      tokenPrefix: token.substring(0, 12),
+      scopes: ['project:read'],
+      expiresAt: null,
+      lastUsedAt: null,
+      ...overrides
+    });
+
+    const user = (overrides: Partial<User> = {}): User => ({
+      id: userId,
+      username: 'testuser',
+      password: 'hashed',
+      email: null,
+      isEmailVerified: false,
+      roles: ['user'],
+      isDisabled: false,
+      ...overrides
+    });
+
+    const runMiddleware = async (
+      headers: Record<string, string>,
+      acceptApiKeys: boolean = true
+    ): Promise<void> => {
+      const middleware = authMiddleware(envVars, containerDAO, timestampProducer, { acceptApiKeys });
+      mockRequest.headers = headers;
+      middleware(mockRequest as AuthenticatedRequestExtended, mockResponse as Response, mockNext);
+      await new Promise(resolve => setImmediate(resolve));
+    };
+
+    beforeEach(() => {
+      containerDAO = new MockContainerDAO();
+      timestampProducer = new MockTimestampProducer();
+      findByTokenHash = containerDAO.apiKeyDAO.findByTokenHash as jest.Mock;
+      findById = containerDAO.userDAO.findById as jest.Mock;
+      recordUsage = containerDAO.apiKeyDAO.recordUsage as jest.Mock;
+      recordUsage.mockResolvedValue(true);
+      token = ApiKeyService.generate().token;
+    });
+
+    it('should authenticate a Bearer API key as its owner', async () => {
+      findByTokenHash.mockResolvedValue(storedKey());
+      findById.mockResolvedValue(user());
+
+      await runMiddleware({ authorization: `Bearer ${token}` });
+
+      expect(findByTokenHash).toHaveBeenCalledWith(ApiKeyService.hash(token));
+      expect(mockNext).toHaveBeenCalledWith();
+      expect(mockRequest.user).toEqual({
+        userId,
+        username: 'testuser',
+        sessionId: apiKeyId,
+        roles: ['user'],
+        scopes: ['project:read']
+      });
+      expect(mockRequest.apiKey).toEqual({ id: apiKeyId });
+      expect(recordUsage).toHaveBeenCalledWith(apiKeyId, timestampProducer.getNow());
+    });
+
+    it('should authenticate an API key sent in the X-API-Key header', async () => {
+      findByTokenHash.mockResolvedValue(storedKey());
+      findById.mockResolvedValue(user());
+
+      await runMiddleware({ 'x-api-key': token });
+
+      expect(mockNext).toHaveBeenCalledWith();
+      expect(mockRequest.user?.userId).toBe(userId);
+    });
+
+    it('should refuse API keys on routes that do not accept them', async () => {
+      await expect(runMiddleware({ authorization: `Bearer ${token}` }, false))
+        .rejects.toThrow(new AppError('API keys are not accepted for this endpoint', 403));
+      await expect(runMiddleware({ 'x-api-key': token }, false))
+        .rejects.toThrow(new AppError('API keys are not accepted for this endpoint', 403));
+
+      expect(findByTokenHash).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed API keys without a lookup', async () => {
+      await expect(runMiddleware({ 'x-api-key': 'not-a-key' }))
+        .rejects.toThrow(new AppError('Invalid API key', 401));
+
+      expect(findByTokenHash).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown API keys', async () => {
+      findByTokenHash.mockResolvedValue(null);
+
+      await runMiddleware({ authorization: `Bearer ${token}` });
+
+      expect(mockNext).toHaveBeenCalledWith(new AppError('Invalid API key', 401));
+      expect(mockRequest.user).toBeUndefined();
+    });
+
+    it('should reject expired API keys', async () => {
+      findByTokenHash.mockResolvedValue(storedKey({ expiresAt: new Date(timestampProducer.getNow()) }));
+
+      await runMiddleware({ authorization: `Bearer ${token}` });
+
+      expect(mockNext).toHaveBeenCalledWith(new AppError('API key has expired', 401));
+      expect(findById).not.toHaveBeenCalled();
+    });
+
+    it('should reject API keys of disabled users', async () => {
+      findByTokenHash.mockResolvedValue(storedKey());
+      findById.mockResolvedValue(user({ isDisabled: true }));
+
+      await runMiddleware({ authorization: `Bearer ${token}` });
+
+      expect(mockNext).toHaveBeenCalledWith(new AppError('Account is disabled', 403));
+      expect(recordUsage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requireScope', () => {
+    const authenticateWith = (scopes: TokenScope[]): void => {
+      mockRequest.user = { userId: 'user123', username: 'testuser', sessionId: 'session123', roles: ['user'], scopes };
+    };
+
+    it('should let access tokens with the scope through', () => {
+      authenticateWith(['project:read', 'project:write']);
+
+      requireScope('project:write')(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should refuse access tokens without the scope', () => {
+      authenticateWith(['project:read']);
+
+      expect(() => {
+        requireScope('project:write')(mockRequest as Request, mockResponse as Response, mockNext);
+      }).toThrow(new AppError('Access token is missing the project:write scope', 403));
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+
+    it('should let API keys with the scope through', () => {
+      authenticateWith(['project:read', 'project:write']);
+      mockRequest.apiKey = { id: '6502f1a2b3c4d5e6f7a8b9c1' };
+
+      requireScope('project:write')(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should refuse API keys without the scope', () => {
+      authenticateWith(['project:read']);
+      mockRequest.apiKey = { id: '6502f1a2b3c4d5e6f7a8b9c1' };
+
+      expect(() => {
+        requireScope('project:write')(mockRequest as Request, mockResponse as Response, mockNext);
+      }).toThrow(new AppError('API key is missing the project:write scope', 403));
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+
+    it('should reject unauthenticated requests', () => {
+      expect(() => {
+        requireScope('project:read')(mockRequest as Request, mockResponse as Response, mockNext);
+      }).toThrow(new AppError('User not authenticated', 401));
+    });
+  });
+
   describe('getAuthenticatedUser', () => {
     it('should return user when authenticated', () => {
       const mockUser = {
@@ -1,7 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { validate } from 'class-validator';
 import { plainToClass } from 'class-transformer';
-import { validateRequestBody } from '../../../../src/setup/middleware/classValidation';
+import { validateRequestBody, validateRequestQuery } from '../../../../src/setup/middleware/classValidation';
 
 // Mock class-validator and class-transformer
 jest.mock('class-validator');
@@ -133,4 +133,55 @@ describe('classValidation middleware', () => {
       expect(mockNext).toHaveBeenCalledWith(transformError);
     });
   });
+
+  describe('validateRequestQuery', () => {
+    beforeEach(() => {
+      mockRequest = {
+        query: { name: 'Test' }
+      };
+    });
+
+    it('should replace the query with the validated instance', async () => {
+      const dtoInstance = new TestDTO();
+      mockPlainToClass.mockReturnValue(dtoInstance);
+      mockValidate.mockResolvedValue([]);
+
+      const middleware = validateRequestQuery(TestDTO);
+      await middleware(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockPlainToClass).toHaveBeenCalledWith(TestDTO, { name: 'Test' });
+      expect(mockValidate).toHaveBeenCalledWith(dtoInstance);
+      expect(mockRequest.query).toBe(dtoInstance);
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should throw AppError when validation fails', async () => {
+      const validationErrors = [
+        {
+          property: 'name',
+          constraints: {
+            maxLength: 'Name cannot exceed 100 characters'
+          }
+        },
+        {
+          property: 'email',
+          constraints: undefined
+        }
+      ];
+
+      mockPlainToClass.mockReturnValue(new TestDTO());
+      mockValidate.mockResolvedValue(validationErrors as never[]);
+
+      const middleware = validateRequestQuery(TestDTO);
+      await middleware(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: 'Query validation failed: Name cannot exceed 100 characters; Validation error',
+          statusCode: 400
+        })
+      );
+      expect(mockRequest.query).toEqual({ name: 'Test' });
+    });
+  });
 });
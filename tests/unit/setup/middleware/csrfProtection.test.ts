@@ -0,0 +1,76 @@
+import { Request, Response, NextFunction } from 'express';
+import { csrfProtection } from '../../../../src/setup/middleware/csrfProtection';
+import { AppError } from '../../../../src/setup/middleware/errorHandler';
+import { EnvVars } from '../../../../src/setup/EnvVars';
+import { createMockEnvVars } from '../../../setup';
+
+describe('csrfProtection', () => {
+  let mockNext: NextFunction;
+  let envVars: EnvVars;
+
+  const mockRequest = (
+    method: string,
+    cookies: Record<string, string>,
+    headers: Record<string, string> = {}
+  ): Request => ({
+    method,
+    cookies,
+    headers,
+    get: (name: string) => headers[name.toLowerCase()]
+  }) as unknown as Request;
+
+  const run = (req: Request, middlewareEnvVars: EnvVars = envVars): void => {
+    csrfProtection(middlewareEnvVars)(req, {} as Response, mockNext);
+  };
+
+  beforeEach(() => {
+    mockNext = jest.fn();
+    process.env.AUTH_COOKIES = 'both';
+    envVars = createMockEnvVars();
+    delete process.env.AUTH_COOKIES;
+  });
+
+  it('should reject unsafe cookie-authenticated requests without CSRF token', () => {
+    run(mockRequest('PUT', { access_token: 'access.jwt', csrf_token: 'csrf-value' }));
+
+    expect(mockNext).toHaveBeenCalledWith(new AppError('Invalid or missing CSRF token', 403));
+  });
+
+  it('should reject a CSRF token not matching the cookie', () => {
+    run(mockRequest('POST', { refresh_token: 'refresh.jwt', csrf_token: 'csrf-value' }, { 'x-csrf-token': 'forged' }));
+
+    expect(mockNext).toHaveBeenCalledWith(new AppError('Invalid or missing CSRF token', 403));
+  });
+
+  it('should accept a CSRF token matching the cookie', () => {
+    run(mockRequest('DELETE', { access_token: 'access.jwt', csrf_token: 'csrf-value' }, { 'x-csrf-token': 'csrf-value' }));
+
+    expect(mockNext).toHaveBeenCalledWith();
+  });
+
+  it('should not check safe methods', () => {
+    run(mockRequest('GET', { access_token: 'access.jwt' }));
+
+    expect(mockNext).toHaveBeenCalledWith();
+  });
+
+  it('should exempt requests authenticated by header', () => {
+    run(mockRequest('PUT', { access_token: 'access.jwt' }, { authorization: 'Bearer access.jwt' }));
+    run(mockRequest('PUT', { access_token: 'access.jwt' }, { 'x-api-key': 'pat_key' }));
+
+    expect(mockNext).toHaveBeenNthCalledWith(1);
+    expect(mockNext).toHaveBeenNthCalledWith(2);
+  });
+
+  it('should not check requests without authentication cookie', () => {
+    run(mockRequest('POST', {}));
+
+    expect(mockNext).toHaveBeenCalledWith();
+  });
+
+  it('should do nothing while AUTH_COOKIES is off', () => {
+    run(mockRequest('PUT', { access_token: 'access.jwt', refresh_token: 'refresh.jwt' }), createMockEnvVars());
+
+    expect(mockNext).toHaveBeenCalledWith();
+  });
+});
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { 
   AppError, 
+  CommittingAppError,
   createErrorHandler, 
   notFoundHandler, 
   asyncHandler,
@@ -191,5 +192,43 @@ describe('errorHandler middleware', () => {
       expect(mockSessionProducer.createSession).toHaveBeenCalled();
       expect(mockSession.commitTransaction).toHaveBeenCalled();
     });
+
+    it('should abort transaction and forward AppError', async () => {
+      const error = new AppError('Failure', 400);
+      mockAsyncFn.mockRejectedValue(error);
+      const wrappedFn = dbTransactionHandler(mockSessionProducer, mockAsyncFn);
+
+      await wrappedFn(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockSession.commitTransaction).not.toHaveBeenCalled();
+      expect(mockSession.abortTransaction).toHaveBeenCalled();
+      expect(mockSession.endSession).toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+
+    it('should commit transaction and forward CommittingAppError', async () => {
+      const error = new CommittingAppError('Committed failure', 401);
+      mockAsyncFn.mockRejectedValue(error);
+      const wrappedFn = dbTransactionHandler(mockSessionProducer, mockAsyncFn);
+
+      await wrappedFn(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockSession.commitTransaction).toHaveBeenCalled();
+      expect(mockSession.abortTransaction).not.toHaveBeenCalled();
+      expect(mockResponse.status).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+
+    it('should abort and forward commit error when committing a CommittingAppError fails', async () => {
+      const commitError = new Error('Commit failed');
+      mockSession.commitTransaction.mockRejectedValue(commitError);
+      mockAsyncFn.mockRejectedValue(new CommittingAppError('Committed failure', 401));
+      const wrappedFn = dbTransactionHandler(mockSessionProducer, mockAsyncFn);
+
+      await wrappedFn(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockSession.abortTransaction).toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(commitError);
+    });
   });
 });
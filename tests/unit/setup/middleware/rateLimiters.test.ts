@@ -23,14 +23,16 @@ describe('rateLimiters', () => {
   });
 
   describe('createRateLimiters', () => {
-    it('should create all three limiters', () => {
+    it('should create all five limiters', () => {
       const mockEnvVars = { isDevelopment: false } as EnvVars;
       const limiters = createRateLimiters(mockEnvVars);
 
       expect(limiters).toHaveProperty('generalLimiter');
       expect(limiters).toHaveProperty('strictLimiter');
+      expect(limiters).toHaveProperty('passwordResetLimiter');
+      expect(limiters).toHaveProperty('emailVerificationLimiter');
       expect(limiters).toHaveProperty('speedLimiter');
-      expect(mockRateLimit).toHaveBeenCalledTimes(2);
+      expect(mockRateLimit).toHaveBeenCalledTimes(4);
       expect(mockSlowDown).toHaveBeenCalledTimes(1);
     });
 
@@ -106,6 +108,66 @@ describe('rateLimiters', () => {
       );
     });
 
+    it('should configure password reset limiter with production settings', () => {
+      const mockEnvVars = { isDevelopment: false } as EnvVars;
+      createRateLimiters(mockEnvVars);
+
+      expect(mockRateLimit).toHaveBeenNthCalledWith(3,
+        expect.objectContaining({
+          windowMs: 60 * 60 * 1000,
+          max: 3,
+          message: {
+            error: 'Too many password reset requests, please try again later.',
+            retryAfter: '1 hour',
+          },
+          standardHeaders: true,
+          legacyHeaders: false,
+        })
+      );
+    });
+
+    it('should configure password reset limiter with development settings', () => {
+      const mockEnvVars = { isDevelopment: true } as EnvVars;
+      createRateLimiters(mockEnvVars);
+
+      expect(mockRateLimit).toHaveBeenNthCalledWith(3,
+        expect.objectContaining({
+          windowMs: 60 * 60 * 1000,
+          max: 20,
+        })
+      );
+    });
+
+    it('should configure email verification limiter with production settings', () => {
+      const mockEnvVars = { isDevelopment: false } as EnvVars;
+      createRateLimiters(mockEnvVars);
+
+      expect(mockRateLimit).toHaveBeenNthCalledWith(4,
+        expect.objectContaining({
+          windowMs: 60 * 60 * 1000,
+          max: 3,
+          message: {
+            error: 'Too many verification email requests, please try again later.',
+            retryAfter: '1 hour',
+          },
+          standardHeaders: true,
+          legacyHeaders: false,
+        })
+      );
+    });
+
+    it('should configure email verification limiter with development settings', () => {
+      const mockEnvVars = { isDevelopment: true } as EnvVars;
+      createRateLimiters(mockEnvVars);
+
+      expect(mockRateLimit).toHaveBeenNthCalledWith(4,
+        expect.objectContaining({
+          windowMs: 60 * 60 * 1000,
+          max: 20,
+        })
+      );
+    });
+
     it('should configure speed limiter with production settings', () => {
       const mockEnvVars = { isDevelopment: false } as EnvVars;
       createRateLimiters(mockEnvVars);
@@ -179,6 +241,14 @@ describe('rateLimiters', () => {
       expect(strictConfig?.legacyHeaders).toBe(false);
     });
 
+    it('should only count failed requests in the strict limiter', () => {
+      const mockEnvVars = { isDevelopment: false } as EnvVars;
+      createRateLimiters(mockEnvVars);
+
+      expect(mockRateLimit.mock.calls[0]?.[0]?.skipSuccessfulRequests).toBeUndefined();
+      expect(mockRateLimit.mock.calls[1]?.[0]?.skipSuccessfulRequests).toBe(true);
+    });
+
     it('should have correct error messages', () => {
       const mockEnvVars = { isDevelopment: false } as EnvVars;
       createRateLimiters(mockEnvVars);
@@ -212,14 +282,18 @@ describe('rateLimiters', () => {
   });
 
   describe('return structure', () => {
-    it('should return object with all three limiters', () => {
+    it('should return object with all five limiters', () => {
       const generalMock = jest.fn();
       const strictMock = jest.fn();
+      const passwordResetMock = jest.fn();
+      const emailVerificationMock = jest.fn();
       const speedMock = jest.fn();
 
       mockRateLimit
         .mockReturnValueOnce(generalMock as unknown as ReturnType<typeof rateLimit>)
-        .mockReturnValueOnce(strictMock as unknown as ReturnType<typeof rateLimit>);
+        .mockReturnValueOnce(strictMock as unknown as ReturnType<typeof rateLimit>)
+        .mockReturnValueOnce(passwordResetMock as unknown as ReturnType<typeof rateLimit>)
+        .mockReturnValueOnce(emailVerificationMock as unknown as ReturnType<typeof rateLimit>);
       mockSlowDown.mockReturnValue(speedMock as unknown as ReturnType<typeof slowDown>);
 
       const mockEnvVars = { isDevelopment: false } as EnvVars;
@@ -228,6 +302,8 @@ describe('rateLimiters', () => {
       expect(result).toEqual({
         generalLimiter: generalMock,
         strictLimiter: strictMock,
+        passwordResetLimiter: passwordResetMock,
+        emailVerificationLimiter: emailVerificationMock,
         speedLimiter: speedMock,
       });
     });
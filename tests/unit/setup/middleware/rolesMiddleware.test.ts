@@ -0,0 +1,88 @@
+import { Request, Response, NextFunction } from 'express';
+import { Roles, getRequiredRoles, requireRoles } from '../../../../src/setup/middleware/rolesMiddleware';
+import { AuthenticatedRequestExtended, AuthenticatedUser } from '../../../../src/setup/middleware/authMiddleware';
+import { AppError } from '../../../../src/setup/middleware/errorHandler';
+
+class TestController {
+  @Roles('admin')
+  public adminOnly(): void {}
+
+  @Roles('user', 'admin')
+  public anyMember(): void {}
+
+  public undecorated(): void {}
+}
+
+describe('rolesMiddleware', () => {
+  let mockRequest: Partial<AuthenticatedRequestExtended>;
+  let mockResponse: Partial<Response>;
+  let mockNext: jest.Mock;
+
+  const authenticatedAs = (roles: AuthenticatedUser['roles']): AuthenticatedUser => ({
+    userId: '507f1f77bcf86cd799439011',
+    username: 'testuser',
+    sessionId: '6502f1a2b3c4d5e6f7a8b9c0',
+    roles,
+    scopes: ['project:read', 'project:write']
+  });
+
+  const run = (middleware: ReturnType<typeof requireRoles>): void => {
+    middleware(mockRequest as Request, mockResponse as Response, mockNext as NextFunction);
+  };
+
+  beforeEach(() => {
+    mockRequest = {};
+    mockResponse = {};
+    mockNext = jest.fn();
+  });
+
+  describe('getRequiredRoles', () => {
+    it('should return the roles declared with @Roles', () => {
+      expect(getRequiredRoles(TestController, 'adminOnly')).toEqual(['admin']);
+      expect(getRequiredRoles(TestController, 'anyMember')).toEqual(['user', 'admin']);
+    });
+
+    it('should return an empty array for undecorated methods', () => {
+      expect(getRequiredRoles(TestController, 'undecorated')).toEqual([]);
+    });
+  });
+
+  describe('requireRoles', () => {
+    it('should throw at registration when the method declares no roles', () => {
+      expect(() => requireRoles(TestController, 'undecorated'))
+        .toThrow('No @Roles declared on TestController.undecorated');
+    });
+
+    it('should call next when the user holds a required role', () => {
+      mockRequest.user = authenticatedAs(['user', 'admin']);
+
+      run(requireRoles(TestController, 'adminOnly'));
+
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should accept any one of several declared roles', () => {
+      mockRequest.user = authenticatedAs(['user']);
+
+      run(requireRoles(TestController, 'anyMember'));
+
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should reject with 403 when the user lacks the required roles', () => {
+      mockRequest.user = authenticatedAs(['user']);
+
+      run(requireRoles(TestController, 'adminOnly'));
+
+      expect(mockNext).toHaveBeenCalledWith(new AppError('Insufficient permissions', 403));
+      expect(mockNext.mock.calls[0][0].statusCode).toBe(403);
+    });
+
+    it('should reject with 401 when no user is attached', () => {
+      run(requireRoles(TestController, 'adminOnly'));
+
+      expect(mockNext).toHaveBeenCalledWith(new AppError('User not authenticated', 401));
+      expect(mockNext.mock.calls[0][0].statusCode).toBe(401);
+    });
+  });
+});
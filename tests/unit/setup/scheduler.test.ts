@@ -0,0 +1,89 @@
+import winston from 'winston';
+import { createScheduler } from '../../../src/setup/scheduler';
+import { DatabaseSessionProducer } from '../../../src/domain/interfaces/DatabaseSessionProducer';
+import { EnvVars } from '../../../src/setup/EnvVars';
+import { MockContainerDAO } from '../../mocks/MockContainerDAO';
+import { MockDatabaseSession } from '../../mocks/MockDatabaseSession';
+import { MockTimestampProducer } from '../../mocks/MockTimestampProducer';
+
+describe('createScheduler', () => {
+  const envVars = { TOKEN_CLEANUP_INTERVAL: '1h' } as unknown as EnvVars;
+  let mockContainerDAO: MockContainerDAO;
+  let session: MockDatabaseSession;
+  let sessionProducer: DatabaseSessionProducer<unknown>;
+  let timestampProducer: MockTimestampProducer;
+  let logger: { info: jest.Mock; debug: jest.Mock; error: jest.Mock };
+
+  const startScheduler = async () => {
+    const scheduler = createScheduler(
+      envVars, mockContainerDAO, sessionProducer, timestampProducer, logger as unknown as winston.Logger
+    );
+    scheduler.start();
+    await scheduler.stop();
+  };
+
+  beforeEach(() => {
+    mockContainerDAO = new MockContainerDAO();
+    session = new MockDatabaseSession();
+    sessionProducer = { createSession: jest.fn().mockResolvedValue(session) };
+    timestampProducer = new MockTimestampProducer();
+    logger = { info: jest.fn(), debug: jest.fn(), error: jest.fn() };
+    (mockContainerDAO.jobLockDAO.acquireLock as jest.Mock).mockResolvedValue(true);
+    (mockContainerDAO.jobLockDAO.releaseLock as jest.Mock).mockResolvedValue(true);
+  });
+
+  describe('token-cleanup job', () => {
+    it('should delete the tokens expired at run time in a transaction', async () => {
+      (mockContainerDAO.accessTokenDAO.cleanExpiredAccessTokens as jest.Mock).mockResolvedValue(3);
+      (mockContainerDAO.refreshTokenDAO.cleanExpiredRefreshTokens as jest.Mock).mockResolvedValue(2);
+      const commitSpy = jest.spyOn(session, 'commitTransaction');
+      const endSpy = jest.spyOn(session, 'endSession');
+
+      await startScheduler();
+
+      const now = new Date(timestampProducer.getNow());
+      expect(mockContainerDAO.accessTokenDAO.cleanExpiredAccessTokens).toHaveBeenCalledWith(session, now);
+      expect(mockContainerDAO.refreshTokenDAO.cleanExpiredRefreshTokens).toHaveBeenCalledWith(session, now);
+      expect(commitSpy).toHaveBeenCalled();
+      expect(endSpy).toHaveBeenCalled();
+      expect(logger.info).toHaveBeenCalledWith('Expired tokens deleted', {
+        deletedAccessTokens: 3,
+        deletedRefreshTokens: 2
+      });
+    });
+
+    it('should run again after the cleanup interval', async () => {
+      jest.useFakeTimers();
+      (mockContainerDAO.accessTokenDAO.cleanExpiredAccessTokens as jest.Mock).mockResolvedValue(0);
+      (mockContainerDAO.refreshTokenDAO.cleanExpiredRefreshTokens as jest.Mock).mockResolvedValue(0);
+      const scheduler = createScheduler(
+        envVars, mockContainerDAO, sessionProducer, timestampProducer, logger as unknown as winston.Logger
+      );
+
+      try {
+        scheduler.start();
+        await jest.advanceTimersByTimeAsync(60 * 60 * 1000 - 1);
+        expect(mockContainerDAO.accessTokenDAO.cleanExpiredAccessTokens).toHaveBeenCalledTimes(1);
+
+        await jest.advanceTimersByTimeAsync(1);
+        expect(mockContainerDAO.accessTokenDAO.cleanExpiredAccessTokens).toHaveBeenCalledTimes(2);
+      } finally {
+        await scheduler.stop();
+        jest.useRealTimers();
+      }
+    });
+
+    it('should roll back when the cleanup fails', async () => {
+      (mockContainerDAO.refreshTokenDAO.cleanExpiredRefreshTokens as jest.Mock)
+        .mockRejectedValue(new Error('Database unavailable'));
+      const abortSpy = jest.spyOn(session, 'abortTransaction');
+      const endSpy = jest.spyOn(session, 'endSession');
+
+      await startScheduler();
+
+      expect(abortSpy).toHaveBeenCalled();
+      expect(endSpy).toHaveBeenCalled();
+      expect(logger.error).toHaveBeenCalledWith('Job token-cleanup failed:', expect.any(Error));
+    });
+  });
+});
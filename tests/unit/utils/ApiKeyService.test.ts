@@ -0,0 +1,54 @@
+import { ApiKeyService } from '../../../src/utils/ApiKeyService';
+import { OneTimeTokenService } from '../../../src/utils/OneTimeTokenService';
+
+describe('ApiKeyService', () => {
+  describe('generate', () => {
+    it('should generate a prefixed 64 character hex token', () => {
+      const { token } = ApiKeyService.generate();
+
+      expect(token).toMatch(/^pat_[a-f0-9]{64}$/);
+      expect(ApiKeyService.isWellFormed(token)).toBe(true);
+    });
+
+    it('should generate different tokens on each call', () => {
+      const first = ApiKeyService.generate();
+      const second = ApiKeyService.generate();
+
+      expect(first.token).not.toBe(second.token);
+      expect(first.tokenHash).not.toBe(second.tokenHash);
+    });
+
+    it('should return the hash of the whole token', () => {
+      const { token, tokenHash } = ApiKeyService.generate();
+
+      expect(tokenHash).toBe(ApiKeyService.hash(token));
+      expect(tokenHash).toBe(OneTimeTokenService.hash(token));
+    });
+
+    it('should keep the first characters of the token as prefix', () => {
+      const { token, tokenPrefix } = ApiKeyService.generate();
+
+      expect(tokenPrefix).toHaveLength(12);
+      expect(token.startsWith(tokenPrefix)).toBe(true);
+    });
+  });
+
+  describe('isApiKey', () => {
+    it('should recognise API keys by their prefix', () => {
+      expect(ApiKeyService.isApiKey(ApiKeyService.generate().token)).toBe(true);
+      expect(ApiKeyService.isApiKey('pat_short')).toBe(true);
+    });
+
+    it('should not mistake JWTs for API keys', () => {
+      expect(ApiKeyService.isApiKey('eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.e30.signature')).toBe(false);
+    });
+  });
+
+  describe('isWellFormed', () => {
+    it('should reject keys with a wrong length or alphabet', () => {
+      expect(ApiKeyService.isWellFormed('pat_short')).toBe(false);
+      expect(ApiKeyService.isWellFormed(`pat_${'G'.repeat(64)}`)).toBe(false);
+      expect(ApiKeyService.isWellFormed('a'.repeat(68))).toBe(false);
+    });
+  });
+});
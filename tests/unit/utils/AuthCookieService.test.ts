@@ -0,0 +1,168 @@
+import { Request, Response } from 'express';
+import { AuthCookieService } from '../../../src/utils/AuthCookieService';
+import { EnvVars } from '../../../src/setup/EnvVars';
+import { createMockEnvVars } from '../../setup';
+
+describe('AuthCookieService', () => {
+  let res: { cookie: jest.Mock; clearCookie: jest.Mock };
+
+  const envVarsWithCookies = (mode: string): EnvVars => {
+    process.env.AUTH_COOKIES = mode;
+    const envVars = createMockEnvVars();
+    delete process.env.AUTH_COOKIES;
+    return envVars;
+  };
+
+  const mockRequest = (cookies: Record<string, string>, headers: Record<string, string> = {}): Request => ({
+    cookies,
+    get: (name: string) => headers[name.toLowerCase()]
+  }) as unknown as Request;
+
+  const tokens: { accessToken?: string; refreshToken?: string; csrfToken?: string; user: { id: string } } = {
+    accessToken: 'access.jwt',
+    refreshToken: 'refresh.jwt',
+    user: { id: '507f1f77bcf86cd799439011' }
+  };
+
+  beforeEach(() => {
+    res = { cookie: jest.fn(), clearCookie: jest.fn() };
+  });
+
+  describe('setTokenCookies', () => {
+    it('should leave the body unchanged while AUTH_COOKIES is off', () => {
+      const data = AuthCookieService.setTokenCookies(res as unknown as Response, createMockEnvVars(), tokens);
+
+      expect(data).toBe(tokens);
+      expect(res.cookie).not.toHaveBeenCalled();
+    });
+
+    it('should move the refresh token into an HttpOnly cookie scoped to /auth', () => {
+      const data = AuthCookieService.setTokenCookies(res as unknown as Response, envVarsWithCookies('refresh'), tokens);
+
+      expect(data).toEqual({
+        accessToken: 'access.jwt',
+        user: tokens.user,
+        csrfToken: expect.stringMatching(/^[A-Za-z0-9_-]{43}$/)
+      });
+      expect(res.cookie).toHaveBeenCalledWith('refresh_token', 'refresh.jwt', {
+        httpOnly: true, secure: true, sameSite: 'strict', path: '/auth', maxAge: 7 * 24 * 60 * 60 * 1000
+      });
+      expect(res.cookie).not.toHaveBeenCalledWith('access_token', expect.anything(), expect.anything());
+    });
+
+    it('should move both tokens into cookies when AUTH_COOKIES is both', () => {
+      const data = AuthCookieService.setTokenCookies(res as unknown as Response, envVarsWithCookies('both'), tokens);
+
+      expect(data).not.toHaveProperty('accessToken');
+      expect(data).not.toHaveProperty('refreshToken');
+      expect(res.cookie).toHaveBeenCalledWith('access_token', 'access.jwt', {
+        httpOnly: true, secure: true, sameSite: 'strict', path: '/', maxAge: 15 * 60 * 1000
+      });
+    });
+
+    it('should set the CSRF token as cookie readable by the frontend', () => {
+      const data = AuthCookieService.setTokenCookies(res as unknown as Response, envVarsWithCookies('refresh'), tokens);
+
+      expect(res.cookie).toHaveBeenCalledWith('csrf_token', data.csrfToken, {
+        httpOnly: false, secure: true, sameSite: 'strict', path: '/', maxAge: 7 * 24 * 60 * 60 * 1000
+      });
+    });
+
+    it('should apply the configured SameSite and Secure attributes', () => {
+      process.env.AUTH_COOKIE_SAME_SITE = 'lax';
+      process.env.AUTH_COOKIE_SECURE = 'false';
+      const envVars = envVarsWithCookies('refresh');
+      delete process.env.AUTH_COOKIE_SAME_SITE;
+      delete process.env.AUTH_COOKIE_SECURE;
+
+      AuthCookieService.setTokenCookies(res as unknown as Response, envVars, tokens);
+
+      expect(res.cookie).toHaveBeenCalledWith('refresh_token', 'refresh.jwt', expect.objectContaining({
+        secure: false, sameSite: 'lax'
+      }));
+    });
+
+    it('should leave bodies without refresh token unchanged', () => {
+      const challenge = { mfaRequired: true, mfaToken: 'mfa.jwt' };
+
+      const data = AuthCookieService.setTokenCookies(res as unknown as Response, envVarsWithCookies('both'), challenge);
+
+      expect(data).toBe(challenge);
+      expect(res.cookie).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('clearTokenCookies', () => {
+    it('should clear every cookie with the options it was set with', () => {
+      AuthCookieService.clearTokenCookies(res as unknown as Response, envVarsWithCookies('both'));
+
+      expect(res.clearCookie).toHaveBeenCalledWith('access_token', expect.objectContaining({ path: '/' }));
+      expect(res.clearCookie).toHaveBeenCalledWith('refresh_token', expect.objectContaining({ path: '/auth' }));
+      expect(res.clearCookie).toHaveBeenCalledWith('csrf_token', expect.objectContaining({ httpOnly: false }));
+    });
+
+    it('should not touch cookies while AUTH_COOKIES is off', () => {
+      AuthCookieService.clearTokenCookies(res as unknown as Response, createMockEnvVars());
+
+      expect(res.clearCookie).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('readTokenCookie', () => {
+    const req = mockRequest({ access_token: 'access.jwt', refresh_token: 'refresh.jwt' });
+
+    it('should read the refresh token cookie unless AUTH_COOKIES is off', () => {
+      expect(AuthCookieService.readTokenCookie(req, envVarsWithCookies('refresh'), 'refresh_token')).toBe('refresh.jwt');
+      expect(AuthCookieService.readTokenCookie(req, createMockEnvVars(), 'refresh_token')).toBeUndefined();
+    });
+
+    it('should read the access token cookie only when AUTH_COOKIES is both', () => {
+      expect(AuthCookieService.readTokenCookie(req, envVarsWithCookies('both'), 'access_token')).toBe('access.jwt');
+      expect(AuthCookieService.readTokenCookie(req, envVarsWithCookies('refresh'), 'access_token')).toBeUndefined();
+    });
+
+    it('should ignore empty cookies', () => {
+      expect(AuthCookieService.readTokenCookie(
+        mockRequest({ refresh_token: '' }), envVarsWithCookies('refresh'), 'refresh_token'
+      )).toBeUndefined();
+    });
+  });
+
+  describe('readCsrfToken', () => {
+    it('should read the CSRF token cookie', () => {
+      expect(AuthCookieService.readCsrfToken(mockRequest({ csrf_token: 'csrf-value' }))).toBe('csrf-value');
+    });
+
+    it('should return undefined without cookie', () => {
+      expect(AuthCookieService.readCsrfToken(mockRequest({}))).toBeUndefined();
+    });
+  });
+
+  describe('generateCsrfToken', () => {
+    it('should generate distinct URL-safe tokens', () => {
+      const token = AuthCookieService.generateCsrfToken();
+
+      expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(AuthCookieService.generateCsrfToken()).not.toBe(token);
+    });
+  });
+
+  describe('hasValidCsrfToken', () => {
+    it('should accept a header matching the cookie', () => {
+      expect(AuthCookieService.hasValidCsrfToken(
+        mockRequest({ csrf_token: 'csrf-value' }, { 'x-csrf-token': 'csrf-value' })
+      )).toBe(true);
+    });
+
+    it('should reject a header not matching the cookie', () => {
+      expect(AuthCookieService.hasValidCsrfToken(
+        mockRequest({ csrf_token: 'csrf-value' }, { 'x-csrf-token': 'other-value' })
+      )).toBe(false);
+    });
+
+    it('should reject a missing header or cookie', () => {
+      expect(AuthCookieService.hasValidCsrfToken(mockRequest({ csrf_token: 'csrf-value' }))).toBe(false);
+      expect(AuthCookieService.hasValidCsrfToken(mockRequest({}, { 'x-csrf-token': 'csrf-value' }))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import winston from 'winston';
+import { ConsoleMailer } from '../../../src/utils/ConsoleMailer';
+
+describe('ConsoleMailer', () => {
+  it('should log the message with its recipient and subject', async () => {
+    const logger = { info: jest.fn() } as unknown as winston.Logger;
+    const mailer = new ConsoleMailer(logger);
+
+    await mailer.send({ to: 'john_doe@example.com', subject: 'Reset your password', text: 'Hello john_doe' });
+
+    expect(logger.info).toHaveBeenCalledWith(
+      'Mail to john_doe@example.com: Reset your password\nHello john_doe',
+      { to: 'john_doe@example.com', subject: 'Reset your password' }
+    );
+  });
+
+  it('should redact token values of links', async () => {
+    const logger = { info: jest.fn() } as unknown as winston.Logger;
+    const mailer = new ConsoleMailer(logger);
+    const token = 'a'.repeat(64);
+
+    await mailer.send({
+      to: 'john_doe@example.com',
+      subject: 'Reset your password',
+      text: `Open http://localhost:3000/reset-password?token=${token}\nor http://localhost/verify?lang=en&token=${token}#top`
+    });
+
+    const logged = (logger.info as jest.Mock).mock.calls[0][0] as string;
+    expect(logged).not.toContain(token);
+    expect(logged).toContain('http://localhost:3000/reset-password?token=[redacted]');
+    expect(logged).toContain('http://localhost/verify?lang=en&token=[redacted]#top');
+  });
+});
@@ -0,0 +1,49 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileMailer } from '../../../src/utils/FileMailer';
+import { MockTimestampProducer } from '../../mocks/MockTimestampProducer';
+
+describe('FileMailer', () => {
+  let tempDir: string;
+  let outboxPath: string;
+
+  const message = {
+    to: 'john_doe@example.com',
+    subject: 'Reset your password',
+    text: 'Hello john_doe'
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-mailer-'));
+    outboxPath = path.join(tempDir, 'nested', 'outbox.log');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should create the outbox directory and write the message', async () => {
+    const mailer = new FileMailer(outboxPath, 'no-reply@example.com', new MockTimestampProducer());
+
+    await mailer.send(message);
+
+    const content = await fs.readFile(outboxPath, 'utf8');
+    expect(content).toContain('----- 2022-01-01T00:00:00.000Z -----\r\n');
+    expect(content).toContain('From: no-reply@example.com\r\n');
+    expect(content).toContain('To: john_doe@example.com\r\n');
+    expect(content).toContain('Subject: Reset your password\r\n');
+    expect(content).toContain('\r\n\r\nHello john_doe');
+  });
+
+  it('should append messages to the same file', async () => {
+    const mailer = new FileMailer(outboxPath, 'no-reply@example.com', new MockTimestampProducer());
+
+    await mailer.send(message);
+    await mailer.send({ ...message, subject: 'Second message' });
+
+    const content = await fs.readFile(outboxPath, 'utf8');
+    expect(content.match(/^----- /gm)).toHaveLength(2);
+    expect(content.indexOf('Subject: Reset your password')).toBeLessThan(content.indexOf('Subject: Second message'));
+  });
+});
@@ -1,25 +1,32 @@
-import { JWTService, JWTPayload } from '../../../src/utils/JWTService';
+import { createPrivateKey } from 'crypto';
+import { readFileSync } from 'fs';
+import jwt from 'jsonwebtoken';
+import { JWTService, JWTPayload, MfaTokenPayload } from '../../../src/utils/JWTService';
 import { createMockEnvVars } from '../../setup';
 import { AppError } from '../../../src/setup/middleware/errorHandler';
 import { EnvVars } from '../../../src/setup/EnvVars';
+import { MockJwtKeys } from '../../mocks/MockJwtKeys';
 
 describe('JWTService', () => {
+  const now = Date.now();
   let jwtService: JWTService;
   let envVars: EnvVars;
 
   const mockPayload: JWTPayload = {
     userId: 'user123',
-    username: 'testuser'
+    username: 'testuser',
+    roles: ['user'],
+    scopes: ['project:read', 'project:write']
   };
 
   beforeEach(() => {
     envVars = createMockEnvVars();
-    jwtService = new JWTService(envVars);
+    jwtService = new JWTService(envVars, now);
   });
 
   describe('generateAccessToken', () => {
     it('should generate a valid access token', () => {
-      const token = jwtService.generateAccessToken(mockPayload);
+      const token = jwtService.generateAccessToken(mockPayload, now);
       
       expect(token).toBeDefined();
       expect(typeof token).toBe('string');
@@ -27,11 +34,11 @@ describe('JWTService', () => {
     });
 
     it('should generate different tokens for different payloads', () => {
-      const payload1: JWTPayload = { userId: 'user1', username: 'user1' };
-      const payload2: JWTPayload = { userId: 'user2', username: 'user2' };
+      const payload1: JWTPayload = { ...mockPayload, userId: 'user1', username: 'user1' };
+      const payload2: JWTPayload = { ...mockPayload, userId: 'user2', username: 'user2' };
 
-      const token1 = jwtService.generateAccessToken(payload1);
-      const token2 = jwtService.generateAccessToken(payload2);
+      const token1 = jwtService.generateAccessToken(payload1, now);
+      const token2 = jwtService.generateAccessToken(payload2, now);
 
       expect(token1).not.toBe(token2);
     });
@@ -47,7 +54,7 @@ describe('JWTService', () => {
     });
 
     it('should generate different refresh tokens than access tokens', () => {
-      const accessToken = jwtService.generateAccessToken(mockPayload);
+      const accessToken = jwtService.generateAccessToken(mockPayload, now);
       const refreshToken = jwtService.generateRefreshToken(mockPayload);
 
       expect(accessToken).not.toBe(refreshToken);
@@ -56,7 +63,7 @@ describe('JWTService', () => {
 
   describe('generateTokenPair', () => {
     it('should generate both access and refresh tokens', () => {
-      const tokenPair = jwtService.generateTokenPair(mockPayload);
+      const tokenPair = jwtService.generateTokenPair(mockPayload, now);
 
       expect(tokenPair).toHaveProperty('accessToken');
       expect(tokenPair).toHaveProperty('refreshToken');
@@ -64,11 +71,27 @@ describe('JWTService', () => {
       expect(typeof tokenPair.refreshToken).toBe('string');
       expect(tokenPair.accessToken).not.toBe(tokenPair.refreshToken);
     });
+
+    it('should embed the user roles in both tokens', () => {
+      const adminPayload: JWTPayload = { ...mockPayload, userId: 'admin1', username: 'admin', roles: ['user', 'admin'] };
+      const tokenPair = jwtService.generateTokenPair(adminPayload, now);
+
+      expect(jwtService.verifyAccessToken(tokenPair.accessToken).roles).toEqual(['user', 'admin']);
+      expect(jwtService.verifyRefreshToken(tokenPair.refreshToken).roles).toEqual(['user', 'admin']);
+    });
+
+    it('should embed the scopes in both tokens', () => {
+      const readOnlyPayload: JWTPayload = { ...mockPayload, scopes: ['project:read'] };
+      const tokenPair = jwtService.generateTokenPair(readOnlyPayload, now);
+
+      expect(jwtService.verifyAccessToken(tokenPair.accessToken).scopes).toEqual(['project:read']);
+      expect(jwtService.verifyRefreshToken(tokenPair.refreshToken).scopes).toEqual(['project:read']);
+    });
   });
 
   describe('verifyAccessToken', () => {
     it('should verify a valid access token', () => {
-      const token = jwtService.generateAccessToken(mockPayload);
+      const token = jwtService.generateAccessToken(mockPayload, now);
       const decoded = jwtService.verifyAccessToken(token);
 
       expect(decoded).toMatchObject({
@@ -117,16 +140,236 @@ describe('JWTService', () => {
     });
 
     it('should not verify access token as refresh token', () => {
-      const accessToken = jwtService.generateAccessToken(mockPayload);
+      const accessToken = jwtService.generateAccessToken(mockPayload, now);
 
       expect(() => jwtService.verifyRefreshToken(accessToken))
         .toThrow(AppError);
     });
   });
 
+  describe('registered claims', () => {
+    // Options set to undefined are left out of the token
+    const signWithSecret = (claims: object, options: jwt.SignOptions, secret = envVars.JWT_SECRET): string => {
+      const signOptions: jwt.SignOptions = {
+        issuer: envVars.JWT_ISSUER,
+        audience: envVars.JWT_AUDIENCE,
+        subject: mockPayload.userId,
+        jwtid: 'token-id',
+        expiresIn: '15m',
+        ...options
+      };
+      return jwt.sign({ ...mockPayload, ...claims }, secret, Object.fromEntries(
+        Object.entries(signOptions).filter(([, value]) => value !== undefined)
+      ));
+    };
+
+    it('should set issuer, audience, subject and token ID', () => {
+      const { accessToken, refreshToken, accessTokenId, refreshTokenId } = jwtService.generateTokenPair(mockPayload, now);
+
+      expect(jwt.decode(accessToken)).toMatchObject({
+        iss: 'Test Server', aud: 'Test Server', sub: mockPayload.userId, jti: accessTokenId
+      });
+      expect(jwt.decode(refreshToken)).toMatchObject({
+        iss: 'Test Server', aud: 'Test Server', sub: mockPayload.userId, jti: refreshTokenId
+      });
+      expect(accessTokenId).not.toBe(refreshTokenId);
+    });
+
+    it('should return the token ID of verified tokens', () => {
+      const { accessToken, refreshToken, accessTokenId, refreshTokenId } = jwtService.generateTokenPair(mockPayload, now);
+
+      expect(jwtService.verifyAccessToken(accessToken).jti).toBe(accessTokenId);
+      expect(jwtService.verifyRefreshToken(refreshToken).jti).toBe(refreshTokenId);
+    });
+
+    it('should give identical payloads different token IDs', () => {
+      const first = jwtService.verifyAccessToken(jwtService.generateAccessToken(mockPayload, now));
+      const second = jwtService.verifyAccessToken(jwtService.generateAccessToken(mockPayload, now));
+
+      expect(first.jti).not.toBe(second.jti);
+    });
+
+    it('should reject tokens of another issuer or audience', () => {
+      const otherIssuer = signWithSecret({}, { issuer: 'Other Server' });
+      const otherAudience = signWithSecret({}, { audience: 'Other Server' });
+
+      expect(() => jwtService.verifyAccessToken(otherIssuer)).toThrow('Invalid or expired access token');
+      expect(() => jwtService.verifyAccessToken(otherAudience)).toThrow('Invalid or expired access token');
+    });
+
+    it('should reject tokens without token ID or with another subject', () => {
+      const withoutId = signWithSecret({}, { jwtid: undefined });
+      const otherSubject = signWithSecret({}, { subject: 'user456' });
+
+      expect(() => jwtService.verifyAccessToken(withoutId)).toThrow('Invalid or expired access token');
+      expect(() => jwtService.verifyAccessToken(otherSubject)).toThrow('Invalid or expired access token');
+    });
+
+    it('should only accept the configured algorithm', () => {
+      const hs512AccessToken = signWithSecret({}, { algorithm: 'HS512' });
+      const hs512RefreshToken = signWithSecret({}, { algorithm: 'HS512' }, envVars.JWT_REFRESH_SECRET);
+
+      expect(() => jwtService.verifyAccessToken(hs512AccessToken)).toThrow('Invalid or expired access token');
+      expect(() => jwtService.verifyRefreshToken(hs512RefreshToken)).toThrow('Invalid or expired refresh token');
+    });
+
+    it('should accept recently expired tokens within the clock tolerance', () => {
+      const expiredToken = signWithSecret({ exp: Math.floor(Date.now() / 1000) - 10 }, { expiresIn: undefined });
+
+      expect(() => jwtService.verifyAccessToken(expiredToken)).toThrow('Invalid or expired access token');
+
+      process.env.JWT_CLOCK_TOLERANCE = '30s';
+      try {
+        expect(new JWTService(createMockEnvVars(), now).verifyAccessToken(expiredToken).jti).toBe('token-id');
+      } finally {
+        delete process.env.JWT_CLOCK_TOLERANCE;
+      }
+    });
+  });
+
+  describe('MFA tokens', () => {
+    const mfaPayload: MfaTokenPayload = { userId: 'user123', username: 'testuser', scopes: ['project:read'] };
+
+    it('should verify a generated MFA token', () => {
+      const token = jwtService.generateMfaToken(mfaPayload);
+
+      expect(jwtService.verifyMfaToken(token)).toEqual(mfaPayload);
+    });
+
+    it('should not accept an MFA token as access token', () => {
+      const token = jwtService.generateMfaToken(mfaPayload);
+
+      expect(() => jwtService.verifyAccessToken(token))
+        .toThrow('Invalid or expired access token');
+    });
+
+    it('should not accept an access token as MFA token', () => {
+      const accessToken = jwtService.generateAccessToken(mockPayload, now);
+
+      expect(() => jwtService.verifyMfaToken(accessToken))
+        .toThrow('Invalid or expired MFA token');
+    });
+
+    it('should throw AppError for invalid MFA token', () => {
+      expect(() => jwtService.verifyMfaToken('invalid.token.here'))
+        .toThrow(AppError);
+    });
+  });
+
+  describe('OIDC state tokens', () => {
+    const statePayload = {
+      provider: 'corporate',
+      state: 'state123',
+      nonce: 'nonce123',
+      codeVerifier: 'verifier123'
+    };
+
+    it('should verify a generated state token', () => {
+      const token = jwtService.generateOidcStateToken(statePayload);
+
+      expect(jwtService.verifyOidcStateToken(token)).toEqual(statePayload);
+    });
+
+    it('should not accept a state token as access token or MFA token', () => {
+      const token = jwtService.generateOidcStateToken(statePayload);
+
+      expect(() => jwtService.verifyAccessToken(token))
+        .toThrow('Invalid or expired access token');
+      expect(() => jwtService.verifyMfaToken(token))
+        .toThrow('Invalid or expired MFA token');
+    });
+
+    it('should not accept an MFA token as state token', () => {
+      const mfaToken = jwtService.generateMfaToken({ userId: 'user123', username: 'testuser', scopes: ['project:read'] });
+
+      expect(() => jwtService.verifyOidcStateToken(mfaToken))
+        .toThrow('Invalid or expired OIDC state');
+    });
+  });
+
+  describe('asymmetric signing', () => {
+    let keys: MockJwtKeys;
+
+    const createService = (algorithm: 'RS256' | 'ES256'): JWTService => {
+      process.env.JWT_ALGORITHM = algorithm;
+      process.env.JWT_KEYS_DIR = keys.dir;
+      return new JWTService(createMockEnvVars(), now);
+    };
+
+    beforeEach(() => {
+      keys = new MockJwtKeys();
+    });
+
+    afterEach(() => {
+      delete process.env.JWT_ALGORITHM;
+      delete process.env.JWT_KEYS_DIR;
+      keys.remove();
+    });
+
+    it('should sign access tokens with RS256 and name the key', () => {
+      keys.writeKey('2025-01-01');
+      const rsaService = createService('RS256');
+
+      const token = rsaService.generateAccessToken(mockPayload, now);
+
+      expect(jwt.decode(token, { complete: true })?.header).toMatchObject({ alg: 'RS256', kid: '2025-01-01' });
+      expect(rsaService.verifyAccessToken(token)).toMatchObject(mockPayload);
+    });
+
+    it('should sign access tokens with ES256', () => {
+      keys.writeKey('primary', 'ec');
+      const ecService = createService('ES256');
+
+      const token = ecService.generateAccessToken(mockPayload, now);
+
+      expect(jwt.decode(token, { complete: true })?.header).toMatchObject({ alg: 'ES256', kid: 'primary' });
+      expect(ecService.verifyAccessToken(token)).toMatchObject(mockPayload);
+    });
+
+    it('should reject access tokens signed with the secret or an unknown key', () => {
+      keys.writeKey('primary');
+      const rsaService = createService('RS256');
+      const otherKeys = new MockJwtKeys();
+      const unknownKey = createPrivateKey(readFileSync(otherKeys.writeKey('primary')));
+      otherKeys.remove();
+
+      const hmacToken = jwtService.generateAccessToken(mockPayload, now);
+      const unknownKeyToken = jwt.sign(mockPayload, unknownKey, { algorithm: 'RS256', keyid: 'primary' });
+      const unknownKidToken = jwt.sign(mockPayload, unknownKey, { algorithm: 'RS256', keyid: 'retired' });
+
+      for (const token of [hmacToken, unknownKeyToken, unknownKidToken]) {
+        expect(() => rsaService.verifyAccessToken(token)).toThrow('Invalid or expired access token');
+      }
+    });
+
+    it('should sign with the key active at the timestamp of the caller', () => {
+      keys.writeKey('2025-01-01');
+      keys.writeKey('2099-01-01');
+      const rsaService = createService('RS256');
+
+      const currentToken = rsaService.generateAccessToken(mockPayload, now);
+      const futureToken = rsaService.generateAccessToken(mockPayload, Date.parse('2099-06-01T00:00:00Z'));
+
+      expect(jwt.decode(currentToken, { complete: true })?.header.kid).toBe('2025-01-01');
+      expect(jwt.decode(futureToken, { complete: true })?.header.kid).toBe('2099-01-01');
+    });
+
+    it('should keep signing refresh and MFA tokens with the secrets', () => {
+      keys.writeKey('primary');
+      const rsaService = createService('RS256');
+
+      const { refreshToken } = rsaService.generateTokenPair(mockPayload, now);
+      const mfaToken = rsaService.generateMfaToken({ userId: 'user123', username: 'testuser', scopes: [] });
+
+      expect(jwt.decode(refreshToken, { complete: true })?.header.alg).toBe('HS256');
+      expect(rsaService.verifyRefreshToken(refreshToken)).toMatchObject(mockPayload);
+      expect(() => rsaService.verifyAccessToken(mfaToken)).toThrow('Invalid or expired access token');
+    });
+  });
+
   describe('decodeToken', () => {
     it('should decode a valid token without verification', () => {
-      const token = jwtService.generateAccessToken(mockPayload);
+      const token = jwtService.generateAccessToken(mockPayload, now);
       const decoded = jwtService.decodeToken(token);
 
       expect(decoded).toMatchObject({
@@ -145,7 +388,7 @@ describe('JWTService', () => {
     it('should decode expired tokens', () => {
       // This test would require creating an expired token
       // For now, we test that it doesn't throw an error
-      const token = jwtService.generateAccessToken(mockPayload);
+      const token = jwtService.generateAccessToken(mockPayload, now);
       const decoded = jwtService.decodeToken(token);
 
       expect(decoded).not.toBeNull();
@@ -155,7 +398,7 @@ describe('JWTService', () => {
   describe('integration tests', () => {
     it('should work with the complete token lifecycle', () => {
       // Generate token pair
-      const tokenPair = jwtService.generateTokenPair(mockPayload);
+      const tokenPair = jwtService.generateTokenPair(mockPayload, now);
 
       // Verify both tokens
       const accessDecoded = jwtService.verifyAccessToken(tokenPair.accessToken);
@@ -0,0 +1,163 @@
+import winston from 'winston';
+import { JobScheduler, ScheduledJob } from '../../../src/utils/JobScheduler';
+import { MockContainerDAO } from '../../mocks/MockContainerDAO';
+import { MockTimestampProducer } from '../../mocks/MockTimestampProducer';
+
+describe('JobScheduler', () => {
+  const interval = 60 * 60 * 1000;
+  let mockContainerDAO: MockContainerDAO;
+  let timestampProducer: MockTimestampProducer;
+  let logger: { info: jest.Mock; debug: jest.Mock; warn: jest.Mock; error: jest.Mock };
+  let scheduler: JobScheduler;
+  let job: ScheduledJob & { run: jest.Mock };
+
+  const acquireLock = () => mockContainerDAO.jobLockDAO.acquireLock as jest.Mock;
+  const releaseLock = () => mockContainerDAO.jobLockDAO.releaseLock as jest.Mock;
+
+  /**
+   * Makes the next run of the job last until the returned function is called
+   */
+  const holdNextRun = () => {
+    let finishRun: () => void = () => undefined;
+    job.run.mockReturnValueOnce(new Promise<void>(resolve => {
+      finishRun = resolve;
+    }));
+    return () => finishRun();
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockContainerDAO = new MockContainerDAO();
+    timestampProducer = new MockTimestampProducer();
+    logger = { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    scheduler = new JobScheduler(
+      mockContainerDAO.jobLockDAO, timestampProducer, logger as unknown as winston.Logger, 'instance-1'
+    );
+    job = { name: 'token-cleanup', interval, run: jest.fn().mockResolvedValue(undefined) };
+    acquireLock().mockResolvedValue(true);
+    releaseLock().mockResolvedValue(true);
+  });
+
+  afterEach(async () => {
+    await scheduler.stop();
+    jest.useRealTimers();
+  });
+
+  it('should run the jobs on start, holding their lease until the run has finished', async () => {
+    scheduler.schedule(job);
+
+    scheduler.start();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(acquireLock()).toHaveBeenCalledWith(
+      'token-cleanup', 'instance-1', new Date(timestampProducer.getNow() + JobScheduler.LEASE_DURATION),
+      timestampProducer.getNow()
+    );
+    expect(job.run).toHaveBeenCalledWith(timestampProducer.getNow());
+    expect(releaseLock()).toHaveBeenCalledWith('token-cleanup', 'instance-1');
+  });
+
+  it('should renew the lease while a run lasts longer than it', async () => {
+    const finishRun = holdNextRun();
+    scheduler.schedule(job);
+    scheduler.start();
+    await jest.advanceTimersByTimeAsync(0);
+
+    for (let renewal = 0; renewal < 6; renewal++) {
+      timestampProducer.advanceBy(JobScheduler.LEASE_DURATION / 3);
+      await jest.advanceTimersByTimeAsync(JobScheduler.LEASE_DURATION / 3);
+    }
+
+    expect(acquireLock()).toHaveBeenCalledTimes(7);
+    expect(acquireLock()).toHaveBeenLastCalledWith(
+      'token-cleanup', 'instance-1', new Date(timestampProducer.getNow() + JobScheduler.LEASE_DURATION),
+      timestampProducer.getNow()
+    );
+    expect(releaseLock()).not.toHaveBeenCalled();
+
+    finishRun();
+    await jest.advanceTimersByTimeAsync(JobScheduler.LEASE_DURATION);
+
+    expect(releaseLock()).toHaveBeenCalledTimes(1);
+    expect(acquireLock()).toHaveBeenCalledTimes(7);
+  });
+
+  it('should log a lease lost while the job runs', async () => {
+    const finishRun = holdNextRun();
+    scheduler.schedule(job);
+    scheduler.start();
+    await jest.advanceTimersByTimeAsync(0);
+
+    acquireLock().mockResolvedValueOnce(false);
+    await jest.advanceTimersByTimeAsync(JobScheduler.LEASE_DURATION / 3);
+    finishRun();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Job token-cleanup lost its lease to another instance', { job: 'token-cleanup' }
+    );
+  });
+
+  it('should run the jobs again after their interval', async () => {
+    scheduler.schedule(job);
+    scheduler.start();
+    await jest.advanceTimersByTimeAsync(0);
+
+    timestampProducer.advanceBy(interval);
+    await jest.advanceTimersByTimeAsync(interval);
+
+    expect(job.run).toHaveBeenCalledTimes(2);
+    expect(job.run).toHaveBeenLastCalledWith(timestampProducer.getNow());
+  });
+
+  it('should skip jobs whose lease is held by another instance', async () => {
+    acquireLock().mockResolvedValue(false);
+    scheduler.schedule(job);
+
+    scheduler.start();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(job.run).not.toHaveBeenCalled();
+    expect(releaseLock()).not.toHaveBeenCalled();
+  });
+
+  it('should log failures and keep running the job', async () => {
+    const error = new Error('Database unavailable');
+    job.run.mockRejectedValueOnce(error);
+    scheduler.schedule(job);
+
+    scheduler.start();
+    await jest.advanceTimersByTimeAsync(0);
+    await jest.advanceTimersByTimeAsync(interval);
+
+    expect(logger.error).toHaveBeenCalledWith('Job token-cleanup failed:', error);
+    expect(releaseLock()).toHaveBeenCalledTimes(2);
+    expect(job.run).toHaveBeenCalledTimes(2);
+  });
+
+  it('should wait for running jobs on stop and not run them anymore', async () => {
+    const finishRun = holdNextRun();
+    scheduler.schedule(job);
+    scheduler.start();
+    await jest.advanceTimersByTimeAsync(0);
+
+    let stopped = false;
+    const stopping = scheduler.stop().then(() => {
+      stopped = true;
+    });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(stopped).toBe(false);
+
+    finishRun();
+    await stopping;
+    await jest.advanceTimersByTimeAsync(interval);
+
+    expect(job.run).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse two jobs with the same name', () => {
+    scheduler.schedule(job);
+
+    expect(() => scheduler.schedule({ ...job })).toThrow('Job token-cleanup is already scheduled');
+  });
+});
@@ -0,0 +1,55 @@
+import jwt from 'jsonwebtoken';
+import { JwtAccessTokenKeys } from '../../../src/utils/JwtAccessTokenKeys';
+import { createMockEnvVars } from '../../setup';
+import { MockJwtKeys } from '../../mocks/MockJwtKeys';
+
+describe('JwtAccessTokenKeys', () => {
+  const now = Date.parse('2025-06-15T12:00:00Z');
+
+  it('should sign and verify with the secret without key store', () => {
+    const envVars = createMockEnvVars();
+    const accessTokenKeys = new JwtAccessTokenKeys(envVars, now);
+
+    expect(accessTokenKeys.signingKey(now)).toEqual({ key: envVars.JWT_SECRET, options: { algorithm: 'HS256' } });
+    expect(accessTokenKeys.verificationKey('any.token.value')).toEqual({ key: envVars.JWT_SECRET, algorithm: 'HS256' });
+  });
+
+  describe('with key store', () => {
+    let keys: MockJwtKeys;
+
+    beforeEach(() => {
+      keys = new MockJwtKeys();
+      process.env.JWT_ALGORITHM = 'RS256';
+      process.env.JWT_KEYS_DIR = keys.dir;
+    });
+
+    afterEach(() => {
+      delete process.env.JWT_ALGORITHM;
+      delete process.env.JWT_KEYS_DIR;
+      keys.remove();
+    });
+
+    it('should sign with the active key and verify with the key named in the header', () => {
+      keys.writeKey('2025-01-01');
+      keys.writeKey('2025-07-01');
+      const accessTokenKeys = new JwtAccessTokenKeys(createMockEnvVars(), now);
+
+      const { key, options } = accessTokenKeys.signingKey(now);
+      const token = jwt.sign({ userId: 'user123' }, key, options);
+
+      expect(options).toEqual({ algorithm: 'RS256', keyid: '2025-01-01' });
+      const { key: publicKey, algorithm } = accessTokenKeys.verificationKey(token);
+      expect(algorithm).toBe('RS256');
+      expect(jwt.verify(token, publicKey, { algorithms: [algorithm] })).toMatchObject({ userId: 'user123' });
+    });
+
+    it('should throw for tokens naming no loaded key', () => {
+      keys.writeKey('primary');
+      const accessTokenKeys = new JwtAccessTokenKeys(createMockEnvVars(), now);
+      const token = jwt.sign({ userId: 'user123' }, 'secret', { keyid: 'retired' });
+
+      expect(() => accessTokenKeys.verificationKey(token)).toThrow('Unknown signing key');
+      expect(() => accessTokenKeys.verificationKey('not-a-token')).toThrow('Unknown signing key');
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { createPublicKey } from 'crypto';
+import { writeFileSync } from 'fs';
+import * as path from 'path';
+import { JwtKeyStore } from '../../../src/utils/JwtKeyStore';
+import { EnvVars } from '../../../src/setup/EnvVars';
+import { createMockEnvVars } from '../../setup';
+import { MockJwtKeys } from '../../mocks/MockJwtKeys';
+
+describe('JwtKeyStore', () => {
+  const now = Date.parse('2025-06-15T12:00:00Z');
+  let keys: MockJwtKeys;
+
+  beforeEach(() => {
+    keys = new MockJwtKeys();
+  });
+
+  afterEach(() => {
+    keys.remove();
+  });
+
+  describe('load', () => {
+    it('should sign with the active key activated last', () => {
+      const files = [
+        keys.writeKey('2025-01-01'),
+        keys.writeKey('2025-06-01'),
+        keys.writeKey('2025-07-01')
+      ];
+
+      const keyStore = JwtKeyStore.load('RS256', files, now);
+
+      expect(keyStore.signingKey(now).kid).toBe('2025-06-01');
+      expect(keyStore.signingKey(Date.parse('2025-07-01T00:00:00Z')).kid).toBe('2025-07-01');
+    });
+
+    it('should treat keys without date prefix as active from the start', () => {
+      const keyStore = JwtKeyStore.load('RS256', [keys.writeKey('primary')], now);
+
+      expect(keyStore.signingKey(0).kid).toBe('primary');
+    });
+
+    it('should load P-256 keys for ES256', () => {
+      const keyStore = JwtKeyStore.load('ES256', [keys.writeKey('primary', 'ec')], now);
+
+      expect(keyStore.signingKey(now).privateKey.asymmetricKeyType).toBe('ec');
+    });
+
+    it('should reject keys of another type than the algorithm', () => {
+      const file = keys.writeKey('primary', 'ec');
+
+      expect(() => JwtKeyStore.load('RS256', [file], now))
+        .toThrow(`JWT key file ${file} must contain an RSA key of at least 2048 bits for RS256`);
+    });
+
+    it('should reject RSA keys shorter than 2048 bits', () => {
+      const file = keys.writeKey('primary', 'rsa', 1024);
+
+      expect(() => JwtKeyStore.load('RS256', [file], now)).toThrow('at least 2048 bits');
+    });
+
+    it('should reject files without a private key', () => {
+      const file = path.join(keys.dir, 'primary.pem');
+      writeFileSync(file, 'not a key');
+
+      expect(() => JwtKeyStore.load('RS256', [file], now))
+        .toThrow(`JWT key file ${file} is not a readable PEM private key`);
+    });
+
+    it('should reject key IDs used twice', () => {
+      const file = keys.writeKey('primary');
+
+      expect(() => JwtKeyStore.load('RS256', [file, file], now))
+        .toThrow('JWT key ID primary is used by several key files');
+    });
+
+    it('should reject file names that cannot be key IDs', () => {
+      const file = keys.writeKey('primary key');
+
+      expect(() => JwtKeyStore.load('RS256', [file], now)).toThrow('must be named with letters');
+    });
+
+    it('should require a key that is already active', () => {
+      expect(() => JwtKeyStore.load('RS256', [keys.writeKey('2030-01-01')], now))
+        .toThrow('No JWT signing key is active yet');
+    });
+
+    it('should require at least one key', () => {
+      expect(() => JwtKeyStore.load('ES256', [], now)).toThrow('No JWT key file found for ES256');
+    });
+  });
+
+  describe('findPublicKey', () => {
+    it('should find keys by ID, including retired and scheduled ones', () => {
+      const keyStore = JwtKeyStore.load('RS256', [keys.writeKey('2025-01-01'), keys.writeKey('2025-07-01')], now);
+
+      expect(keyStore.findPublicKey('2025-01-01')?.type).toBe('public');
+      expect(keyStore.findPublicKey('2025-07-01')?.type).toBe('public');
+    });
+
+    it('should return null for unknown or missing key IDs', () => {
+      const keyStore = JwtKeyStore.load('RS256', [keys.writeKey('primary')], now);
+
+      expect(keyStore.findPublicKey('other')).toBeNull();
+      expect(keyStore.findPublicKey(undefined)).toBeNull();
+    });
+  });
+
+  describe('toJwks', () => {
+    it('should publish the public part of every key', () => {
+      const keyStore = JwtKeyStore.load('RS256', [keys.writeKey('2025-01-01'), keys.writeKey('2025-07-01')], now);
+
+      const { keys: jwks } = keyStore.toJwks();
+
+      expect(jwks.map(jwk => jwk.kid)).toEqual(['2025-01-01', '2025-07-01']);
+      for (const jwk of jwks) {
+        expect(jwk).toEqual({ kty: 'RSA', n: expect.any(String), e: 'AQAB', kid: jwk.kid, use: 'sig', alg: 'RS256' });
+        expect(jwk).not.toHaveProperty('d');
+        expect(createPublicKey({ key: jwk, format: 'jwk' }).asymmetricKeyType).toBe('rsa');
+      }
+    });
+
+    it('should publish EC keys with their curve', () => {
+      const keyStore = JwtKeyStore.load('ES256', [keys.writeKey('primary', 'ec')], now);
+
+      expect(keyStore.toJwks().keys[0]).toEqual({
+        kty: 'EC', crv: 'P-256', x: expect.any(String), y: expect.any(String), kid: 'primary', use: 'sig', alg: 'ES256'
+      });
+    });
+  });
+
+  describe('fromEnvVars', () => {
+    let envVars: EnvVars;
+
+    afterEach(() => {
+      delete process.env.JWT_ALGORITHM;
+      delete process.env.JWT_KEYS_DIR;
+      delete process.env.JWT_KEY_FILES;
+    });
+
+    it('should return null for HS256', () => {
+      envVars = createMockEnvVars();
+
+      expect(JwtKeyStore.fromEnvVars(envVars, now)).toBeNull();
+    });
+
+    it('should load the keys of the directory and the key files once', () => {
+      keys.writeKey('2025-01-01');
+      writeFileSync(path.join(keys.dir, 'README.txt'), 'ignored');
+      const otherKeys = new MockJwtKeys();
+      process.env.JWT_ALGORITHM = 'RS256';
+      process.env.JWT_KEYS_DIR = keys.dir;
+      process.env.JWT_KEY_FILES = otherKeys.writeKey('standby');
+      envVars = createMockEnvVars();
+
+      try {
+        const keyStore = JwtKeyStore.fromEnvVars(envVars, now);
+
+        expect(keyStore?.toJwks().keys.map(jwk => jwk.kid)).toEqual(['standby', '2025-01-01']);
+        expect(JwtKeyStore.fromEnvVars(envVars, now)).toBe(keyStore);
+      } finally {
+        otherKeys.remove();
+      }
+    });
+
+    it('should check the key activations against the given time', () => {
+      keys.writeKey('2025-07-01');
+      process.env.JWT_ALGORITHM = 'RS256';
+      process.env.JWT_KEYS_DIR = keys.dir;
+      envVars = createMockEnvVars();
+
+      expect(() => JwtKeyStore.fromEnvVars(envVars, now)).toThrow('No JWT signing key is active yet');
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import jwt from 'jsonwebtoken';
+import { JwtPurposeTokenService, MfaTokenPayload } from '../../../src/utils/JwtPurposeTokenService';
+import { createMockEnvVars } from '../../setup';
+import { AppError } from '../../../src/setup/middleware/errorHandler';
+import { EnvVars } from '../../../src/setup/EnvVars';
+
+describe('JwtPurposeTokenService', () => {
+  let purposeTokens: JwtPurposeTokenService;
+  let envVars: EnvVars;
+
+  const mfaPayload: MfaTokenPayload = { userId: 'user123', username: 'testuser', scopes: ['project:read'] };
+  const statePayload = {
+    provider: 'corporate',
+    state: 'state123',
+    nonce: 'nonce123',
+    codeVerifier: 'verifier123'
+  };
+
+  beforeEach(() => {
+    envVars = createMockEnvVars();
+    purposeTokens = new JwtPurposeTokenService(envVars);
+  });
+
+  it('should sign MFA and state tokens with the secret and their purpose', () => {
+    const mfaToken = purposeTokens.generateMfaToken(mfaPayload);
+    const stateToken = purposeTokens.generateOidcStateToken(statePayload);
+
+    expect(jwt.decode(mfaToken, { complete: true })?.header.alg).toBe('HS256');
+    expect(jwt.verify(mfaToken, envVars.JWT_SECRET)).toMatchObject({ ...mfaPayload, purpose: 'mfa' });
+    expect(jwt.verify(stateToken, envVars.JWT_SECRET)).toMatchObject({ ...statePayload, purpose: 'oidc-state' });
+  });
+
+  it('should verify each token type only as itself', () => {
+    const mfaToken = purposeTokens.generateMfaToken(mfaPayload);
+    const stateToken = purposeTokens.generateOidcStateToken(statePayload);
+
+    expect(purposeTokens.verifyMfaToken(mfaToken)).toEqual(mfaPayload);
+    expect(purposeTokens.verifyOidcStateToken(stateToken)).toEqual(statePayload);
+    expect(() => purposeTokens.verifyMfaToken(stateToken)).toThrow('Invalid or expired MFA token');
+    expect(() => purposeTokens.verifyOidcStateToken(mfaToken)).toThrow('Invalid or expired OIDC state');
+  });
+
+  it('should reject tokens without purpose or signed with another secret', () => {
+    const plainToken = jwt.sign(mfaPayload, envVars.JWT_SECRET);
+    const foreignToken = jwt.sign({ ...mfaPayload, purpose: 'mfa' }, 'another-secret');
+
+    for (const token of [plainToken, foreignToken, 'invalid.token.here']) {
+      expect(() => purposeTokens.verifyMfaToken(token)).toThrow(AppError);
+    }
+  });
+});
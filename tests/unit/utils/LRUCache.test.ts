@@ -0,0 +1,102 @@
+import { LRUCache } from '../../../src/utils/LRUCache';
+import { MockTimestampProducer } from '../../mocks/MockTimestampProducer';
+
+describe('LRUCache', () => {
+  let timestampProducer: MockTimestampProducer;
+
+  beforeEach(() => {
+    timestampProducer = new MockTimestampProducer();
+  });
+
+  describe('constructor', () => {
+    it('should throw error for non-positive max size', () => {
+      expect(() => new LRUCache<string, number>(0, 1000, timestampProducer))
+        .toThrow('LRUCache maxSize must be a positive integer');
+      expect(() => new LRUCache<string, number>(-1, 1000, timestampProducer))
+        .toThrow('LRUCache maxSize must be a positive integer');
+    });
+  });
+
+  describe('get and set', () => {
+    it('should return stored values', () => {
+      const cache = new LRUCache<string, number>(10, 1000, timestampProducer);
+
+      cache.set('a', 1);
+
+      expect(cache.get('a')).toBe(1);
+      expect(cache.has('a')).toBe(true);
+      expect(cache.size).toBe(1);
+    });
+
+    it('should return undefined for missing keys', () => {
+      const cache = new LRUCache<string, number>(10, 1000, timestampProducer);
+
+      expect(cache.get('missing')).toBeUndefined();
+      expect(cache.has('missing')).toBe(false);
+    });
+
+    it('should overwrite existing keys and refresh their TTL', () => {
+      const cache = new LRUCache<string, number>(10, 1000, timestampProducer);
+
+      cache.set('a', 1);
+      timestampProducer.advanceBy(800);
+      cache.set('a', 2);
+      timestampProducer.advanceBy(800);
+
+      expect(cache.get('a')).toBe(2);
+      expect(cache.size).toBe(1);
+    });
+  });
+
+  describe('expiration', () => {
+    it('should expire entries after the TTL', () => {
+      const cache = new LRUCache<string, number>(10, 1000, timestampProducer);
+
+      cache.set('a', 1);
+      timestampProducer.advanceBy(999);
+      expect(cache.get('a')).toBe(1);
+
+      timestampProducer.advanceBy(1);
+      expect(cache.get('a')).toBeUndefined();
+      expect(cache.size).toBe(0);
+    });
+  });
+
+  describe('eviction', () => {
+    it('should evict the least recently used entry when full', () => {
+      const cache = new LRUCache<string, number>(2, 1000, timestampProducer);
+
+      cache.set('a', 1);
+      cache.set('b', 2);
+      cache.get('a');
+      cache.set('c', 3);
+
+      expect(cache.has('a')).toBe(true);
+      expect(cache.has('b')).toBe(false);
+      expect(cache.has('c')).toBe(true);
+      expect(cache.size).toBe(2);
+    });
+  });
+
+  describe('delete and clear', () => {
+    it('should remove single entries', () => {
+      const cache = new LRUCache<string, number>(10, 1000, timestampProducer);
+
+      cache.set('a', 1);
+
+      expect(cache.delete('a')).toBe(true);
+      expect(cache.delete('a')).toBe(false);
+      expect(cache.has('a')).toBe(false);
+    });
+
+    it('should remove all entries', () => {
+      const cache = new LRUCache<string, number>(10, 1000, timestampProducer);
+
+      cache.set('a', 1);
+      cache.set('b', 2);
+      cache.clear();
+
+      expect(cache.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { formatMailMessage } from '../../../src/utils/Mailer';
+
+describe('formatMailMessage', () => {
+  const now = Date.UTC(2022, 0, 1);
+  const message = {
+    to: 'john_doe@example.com',
+    subject: 'Reset your password',
+    text: 'Hello,\nfirst line\r\nsecond line'
+  };
+
+  it('should produce headers and body separated by an empty line', () => {
+    const raw = formatMailMessage('no-reply@example.com', message, now);
+    const [headers, body] = raw.split('\r\n\r\n');
+
+    expect(headers.split('\r\n')).toEqual([
+      'From: no-reply@example.com',
+      'To: john_doe@example.com',
+      'Subject: Reset your password',
+      'Date: Sat, 01 Jan 2022 00:00:00 GMT',
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 8bit'
+    ]);
+    expect(body).toBe('Hello,\r\nfirst line\r\nsecond line');
+  });
+
+  it('should encode non-ASCII subjects', () => {
+    const raw = formatMailMessage('no-reply@example.com', { ...message, subject: 'Réinitialisation' }, now);
+
+    expect(raw).toContain(`Subject: =?UTF-8?B?${Buffer.from('Réinitialisation').toString('base64')}?=\r\n`);
+  });
+
+  it('should reject header values containing line breaks', () => {
+    expect(() => formatMailMessage('no-reply@example.com', { ...message, subject: 'Hi\r\nBcc: x@example.com' }, now))
+      .toThrow('Mail headers must not contain line breaks');
+    expect(() => formatMailMessage('no-reply@example.com', { ...message, to: 'a@example.com\nb@example.com' }, now))
+      .toThrow('Mail headers must not contain line breaks');
+  });
+});
@@ -0,0 +1,150 @@
+import { OidcClient } from '../../../src/utils/OidcClient';
+import { OidcProviderConfig } from '../../../src/setup/EnvVars';
+import { MockOidcAccount, MockOidcIssuer } from '../../mocks/MockOidcIssuer';
+
+const REDIRECT_URI = 'http://localhost:8080/auth/oidc/mock/callback';
+
+describe('OidcClient', () => {
+  const issuer = new MockOidcIssuer();
+  let provider: OidcProviderConfig;
+
+  beforeAll(async () => {
+    await issuer.start();
+    provider = {
+      name: 'mock',
+      issuer: issuer.issuer,
+      clientId: issuer.clientId,
+      clientSecret: issuer.clientSecret,
+      scopes: 'openid email profile'
+    };
+  });
+
+  afterAll(async () => {
+    await issuer.stop();
+  });
+
+  /**
+   * Runs a sign-in up to the callback and returns what the callback needs for the code exchange
+   */
+  const signIn = async (client: OidcClient, account: MockOidcAccount) => {
+    const nonce = OidcClient.generateRandomValue();
+    const { codeVerifier, codeChallenge } = OidcClient.generatePkce();
+    const authorizationUrl = await client.buildAuthorizationUrl('state123', nonce, codeChallenge);
+    const code = new URL(issuer.authorize(authorizationUrl, account)).searchParams.get('code')!;
+    return { code, codeVerifier, nonce };
+  };
+
+  describe('generatePkce', () => {
+    it('should generate distinct verifiers with 43 character challenges', () => {
+      const first = OidcClient.generatePkce();
+      const second = OidcClient.generatePkce();
+
+      expect(first.codeVerifier).not.toBe(second.codeVerifier);
+      expect(first.codeChallenge).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    });
+  });
+
+  describe('buildAuthorizationUrl', () => {
+    it('should point to the discovered endpoint with all flow parameters', async () => {
+      const client = new OidcClient(provider, REDIRECT_URI);
+
+      const url = new URL(await client.buildAuthorizationUrl('state123', 'nonce123', 'challenge123'));
+
+      expect(`${url.origin}${url.pathname}`).toBe(`${issuer.issuer}/authorize`);
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        response_type: 'code',
+        client_id: issuer.clientId,
+        redirect_uri: REDIRECT_URI,
+        scope: 'openid email profile',
+        state: 'state123',
+        nonce: 'nonce123',
+        code_challenge: 'challenge123',
+        code_challenge_method: 'S256'
+      });
+    });
+
+    it('should reject a provider whose discovery document names another issuer', async () => {
+      const client = new OidcClient({ ...provider, issuer: `${issuer.issuer}/` }, REDIRECT_URI);
+
+      await expect(client.buildAuthorizationUrl('state', 'nonce', 'challenge'))
+        .rejects.toMatchObject({ statusCode: 502, message: 'OIDC provider is unavailable' });
+    });
+
+    it('should reject an unreachable provider', async () => {
+      const client = new OidcClient({ ...provider, issuer: 'http://127.0.0.1:1' }, REDIRECT_URI);
+
+      await expect(client.buildAuthorizationUrl('state', 'nonce', 'challenge'))
+        .rejects.toMatchObject({ statusCode: 502 });
+    });
+  });
+
+  describe('exchangeCode', () => {
+    it('should return the identity asserted by the ID token', async () => {
+      const client = new OidcClient(provider, REDIRECT_URI);
+      const { code, codeVerifier, nonce } = await signIn(client, {
+        sub: 'subject-1', email: 'Jane.Doe@Example.com', email_verified: true, preferred_username: 'jane'
+      });
+
+      const identity = await client.exchangeCode(code, codeVerifier, nonce, Date.now());
+
+      expect(identity).toEqual({ subject: 'subject-1', email: 'jane.doe@example.com', preferredUsername: 'jane' });
+    });
+
+    it('should ignore email addresses the provider did not verify', async () => {
+      const client = new OidcClient(provider, REDIRECT_URI);
+      const { code, codeVerifier, nonce } = await signIn(client, {
+        sub: 'subject-2', email: 'unverified@example.com', email_verified: false
+      });
+
+      const identity = await client.exchangeCode(code, codeVerifier, nonce, Date.now());
+
+      expect(identity).toEqual({ subject: 'subject-2', email: null, preferredUsername: null });
+    });
+
+    it('should reject a wrong code verifier', async () => {
+      const client = new OidcClient(provider, REDIRECT_URI);
+      const { code, nonce } = await signIn(client, { sub: 'subject-3' });
+
+      await expect(client.exchangeCode(code, OidcClient.generatePkce().codeVerifier, nonce, Date.now()))
+        .rejects.toMatchObject({ statusCode: 401, message: 'OIDC authentication failed' });
+    });
+
+    it('should reject an ID token with another nonce', async () => {
+      const client = new OidcClient(provider, REDIRECT_URI);
+      const { code, codeVerifier } = await signIn(client, { sub: 'subject-4' });
+
+      await expect(client.exchangeCode(code, codeVerifier, 'other-nonce', Date.now()))
+        .rejects.toMatchObject({ statusCode: 401 });
+    });
+
+    it('should reject an expired ID token', async () => {
+      const client = new OidcClient(provider, REDIRECT_URI);
+      const { code, codeVerifier, nonce } = await signIn(client, { sub: 'subject-5' });
+
+      await expect(client.exchangeCode(code, codeVerifier, nonce, Date.now() + 60 * 60 * 1000))
+        .rejects.toMatchObject({ statusCode: 401 });
+    });
+
+    it('should reject ID tokens issued to another client', async () => {
+      const client = new OidcClient({ ...provider, clientId: 'other-client' }, REDIRECT_URI);
+      const { code, codeVerifier, nonce } = await signIn(client, { sub: 'subject-6' });
+
+      await expect(client.exchangeCode(code, codeVerifier, nonce, Date.now()))
+        .rejects.toMatchObject({ statusCode: 401 });
+    });
+
+    it('should reload the key set once the provider rotates its key', async () => {
+      const client = new OidcClient(provider, REDIRECT_URI);
+      const first = await signIn(client, { sub: 'subject-7' });
+      await client.exchangeCode(first.code, first.codeVerifier, first.nonce, Date.now());
+      const jwksRequests = issuer.jwksRequests;
+
+      issuer.rotateKey();
+      const second = await signIn(client, { sub: 'subject-7' });
+      const identity = await client.exchangeCode(second.code, second.codeVerifier, second.nonce, Date.now());
+
+      expect(identity.subject).toBe('subject-7');
+      expect(issuer.jwksRequests).toBe(jwksRequests + 1);
+    });
+  });
+});
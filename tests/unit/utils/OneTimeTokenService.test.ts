@@ -0,0 +1,37 @@
+import { OneTimeTokenService } from '../../../src/utils/OneTimeTokenService';
+
+describe('OneTimeTokenService', () => {
+  describe('generate', () => {
+    it('should generate a 64 character hex token', () => {
+      const { token } = OneTimeTokenService.generate();
+
+      expect(token).toMatch(/^[a-f0-9]{64}$/);
+    });
+
+    it('should generate different tokens on each call', () => {
+      const first = OneTimeTokenService.generate();
+      const second = OneTimeTokenService.generate();
+
+      expect(first.token).not.toBe(second.token);
+      expect(first.tokenHash).not.toBe(second.tokenHash);
+    });
+
+    it('should return the hash of the generated token', () => {
+      const { token, tokenHash } = OneTimeTokenService.generate();
+
+      expect(tokenHash).not.toBe(token);
+      expect(tokenHash).toBe(OneTimeTokenService.hash(token));
+    });
+  });
+
+  describe('hash', () => {
+    it('should produce the SHA-256 hex digest of the token', () => {
+      expect(OneTimeTokenService.hash('abc'))
+        .toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+
+    it('should be deterministic', () => {
+      expect(OneTimeTokenService.hash('some-token')).toBe(OneTimeTokenService.hash('some-token'));
+    });
+  });
+});
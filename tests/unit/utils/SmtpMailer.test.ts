@@ -0,0 +1,260 @@
+import * as net from 'net';
+import * as tls from 'tls';
+import { AddressInfo } from 'net';
+import { SmtpMailer, SmtpMailerOptions } from '../../../src/utils/SmtpMailer';
+import { MockTimestampProducer } from '../../mocks/MockTimestampProducer';
+import { MOCK_TLS_CERTIFICATE, MOCK_TLS_KEY } from '../../mocks/MockTlsCertificate';
+
+interface StandInOptions {
+  /** Reply code sent to RCPT TO (250 by default) */
+  rcptReply?: string;
+
+  /** Whether the server stays silent instead of greeting the client */
+  silent?: boolean;
+
+  /** Whether the server offers STARTTLS */
+  startTls?: boolean;
+}
+
+interface SmtpStandIn {
+  port: number;
+  commands: string[];
+  /** Commands received after the connection was upgraded to TLS */
+  encryptedCommands: string[];
+  messages: string[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Starts a minimal local SMTP server that records the conversation
+ */
+const startSmtpStandIn = async (options: StandInOptions = {}): Promise<SmtpStandIn> => {
+  const commands: string[] = [];
+  const encryptedCommands: string[] = [];
+  const messages: string[] = [];
+  const sockets = new Set<net.Socket>();
+
+  /**
+   * Answers the commands read from the socket, until the client starts TLS
+   */
+  const converse = (socket: net.Socket, encrypted: boolean) => {
+    let buffer = '';
+    let inData = false;
+
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) {
+          return;
+        }
+        messages.push(buffer.slice(0, end));
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write('250 2.0.0 queued\r\n');
+      }
+
+      let lineEnd: number;
+      while (!inData && (lineEnd = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+        commands.push(line);
+        if (encrypted) {
+          encryptedCommands.push(line);
+        }
+
+        const verb = line.split(' ')[0].toUpperCase();
+        if (verb === 'EHLO') {
+          const startTls = options.startTls && !encrypted ? '250-STARTTLS\r\n' : '';
+          socket.write(`250-stand-in greets you\r\n${startTls}250-AUTH PLAIN\r\n250 8BITMIME\r\n`);
+        } else if (verb === 'STARTTLS') {
+          socket.removeAllListeners('data');
+          socket.write('220 2.0.0 ready to start TLS\r\n', () => {
+            const secureSocket = new tls.TLSSocket(socket, {
+              isServer: true, key: MOCK_TLS_KEY, cert: MOCK_TLS_CERTIFICATE
+            });
+            secureSocket.setEncoding('utf8');
+            secureSocket.on('error', () => socket.destroy());
+            converse(secureSocket, true);
+          });
+          return;
+        } else if (verb === 'AUTH') {
+          socket.write('235 2.7.0 authenticated\r\n');
+        } else if (verb === 'RCPT') {
+          socket.write(`${options.rcptReply ?? '250 2.1.5 ok'}\r\n`);
+        } else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 end data with <CR><LF>.<CR><LF>\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 2.0.0 bye\r\n');
+        } else {
+          socket.write('250 2.0.0 ok\r\n');
+        }
+      }
+    });
+  };
+
+  const server = net.createServer(socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    socket.on('error', () => socket.destroy());
+    socket.setEncoding('utf8');
+    if (options.silent) {
+      return;
+    }
+
+    socket.write('220 stand-in ESMTP ready\r\n');
+    converse(socket, false);
+  });
+
+  await new Promise<void>(resolve => server.listen(0, 'localhost', resolve));
+
+  return {
+    port: (server.address() as AddressInfo).port,
+    commands,
+    encryptedCommands,
+    messages,
+    close: () => new Promise<void>(resolve => {
+      sockets.forEach(socket => socket.destroy());
+      server.close(() => resolve());
+    })
+  };
+};
+
+describe('SmtpMailer', () => {
+  const message = {
+    to: 'john_doe@example.com',
+    subject: 'Reset your password',
+    text: 'Hello john_doe,\n\nUse the link below.'
+  };
+
+  let standIn: SmtpStandIn | undefined;
+
+  const createMailer = (overrides: Partial<SmtpMailerOptions> = {}): SmtpMailer => new SmtpMailer({
+    host: 'localhost',
+    port: standIn!.port,
+    secure: false,
+    username: '',
+    password: '',
+    allowInsecureAuth: false,
+    from: 'no-reply@example.com',
+    timeoutMs: 2000,
+    ...overrides
+  }, new MockTimestampProducer());
+
+  afterEach(async () => {
+    await standIn?.close();
+    standIn = undefined;
+  });
+
+  it('should deliver the message through the SMTP conversation', async () => {
+    standIn = await startSmtpStandIn();
+
+    await createMailer().send(message);
+
+    expect(standIn.commands).toEqual([
+      'EHLO example.com',
+      'MAIL FROM:<no-reply@example.com>',
+      'RCPT TO:<john_doe@example.com>',
+      'DATA',
+      'QUIT'
+    ]);
+    expect(standIn.messages).toHaveLength(1);
+    expect(standIn.messages[0]).toContain('From: no-reply@example.com\r\n');
+    expect(standIn.messages[0]).toContain('To: john_doe@example.com\r\n');
+    expect(standIn.messages[0]).toContain('Subject: Reset your password\r\n');
+    expect(standIn.messages[0]).toContain('Date: Sat, 01 Jan 2022 00:00:00 GMT\r\n');
+    expect(standIn.messages[0]).toContain('\r\n\r\nHello john_doe,\r\n\r\nUse the link below.');
+  });
+
+  it('should authenticate with AUTH PLAIN after upgrading the connection with STARTTLS', async () => {
+    standIn = await startSmtpStandIn({ startTls: true });
+
+    await createMailer({
+      username: 'mailer', password: 'secret', tlsOptions: { ca: MOCK_TLS_CERTIFICATE }
+    }).send(message);
+
+    const expectedCredentials = Buffer.from('\0mailer\0secret').toString('base64');
+    expect(standIn.commands.slice(0, 2)).toEqual(['EHLO example.com', 'STARTTLS']);
+    expect(standIn.encryptedCommands).toEqual([
+      'EHLO example.com',
+      `AUTH PLAIN ${expectedCredentials}`,
+      'MAIL FROM:<no-reply@example.com>',
+      'RCPT TO:<john_doe@example.com>',
+      'DATA',
+      'QUIT'
+    ]);
+    expect(standIn.messages).toHaveLength(1);
+  });
+
+  it('should upgrade to TLS when offered even without credentials', async () => {
+    standIn = await startSmtpStandIn({ startTls: true });
+
+    await createMailer({ tlsOptions: { ca: MOCK_TLS_CERTIFICATE } }).send(message);
+
+    expect(standIn.encryptedCommands[0]).toBe('EHLO example.com');
+    expect(standIn.messages).toHaveLength(1);
+  });
+
+  it('should reject a STARTTLS server whose certificate is not trusted', async () => {
+    standIn = await startSmtpStandIn({ startTls: true });
+
+    await expect(createMailer({ username: 'mailer', password: 'secret' }).send(message)).rejects.toThrow(/certificate/);
+    expect(standIn.commands.some(command => command.startsWith('AUTH'))).toBe(false);
+  });
+
+  it('should refuse to send credentials when the server does not offer STARTTLS', async () => {
+    standIn = await startSmtpStandIn();
+
+    await expect(createMailer({ username: 'mailer', password: 'secret' }).send(message))
+      .rejects.toThrow('SMTP server does not offer STARTTLS, refusing to send credentials unencrypted');
+    expect(standIn.commands.some(command => command.startsWith('AUTH'))).toBe(false);
+  });
+
+  it('should send credentials unencrypted when explicitly allowed', async () => {
+    standIn = await startSmtpStandIn();
+
+    await createMailer({ username: 'mailer', password: 'secret', allowInsecureAuth: true }).send(message);
+
+    const expectedCredentials = Buffer.from('\0mailer\0secret').toString('base64');
+    expect(standIn.commands[1]).toBe(`AUTH PLAIN ${expectedCredentials}`);
+  });
+
+  it('should escape lines starting with a dot', async () => {
+    standIn = await startSmtpStandIn();
+
+    await createMailer().send({ ...message, text: 'first line\n.\n.second line' });
+
+    expect(standIn.messages[0]).toContain('first line\r\n..\r\n..second line');
+  });
+
+  it('should reject when the server refuses the recipient', async () => {
+    standIn = await startSmtpStandIn({ rcptReply: '550 5.1.1 no such user' });
+
+    await expect(createMailer().send(message)).rejects.toThrow('SMTP server replied 550: 5.1.1 no such user');
+    expect(standIn.messages).toHaveLength(0);
+  });
+
+  it('should reject when the server does not answer in time', async () => {
+    standIn = await startSmtpStandIn({ silent: true });
+
+    await expect(createMailer({ timeoutMs: 50 }).send(message)).rejects.toThrow('SMTP connection timed out');
+  });
+
+  it('should reject when the server cannot be reached', async () => {
+    standIn = await startSmtpStandIn();
+    const mailer = createMailer();
+    await standIn.close();
+    standIn = undefined;
+
+    await expect(mailer.send(message)).rejects.toThrow();
+  });
+
+  it('should reject recipients containing line breaks without connecting', async () => {
+    standIn = await startSmtpStandIn();
+
+    await expect(createMailer().send({ ...message, to: 'a@example.com\r\nBcc: b@example.com' }))
+      .rejects.toThrow('Mail headers must not contain line breaks');
+    expect(standIn.commands).toHaveLength(0);
+  });
+});
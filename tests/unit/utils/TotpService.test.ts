@@ -0,0 +1,102 @@
+import { TotpService } from '../../../src/utils/TotpService';
+import { OneTimeTokenService } from '../../../src/utils/OneTimeTokenService';
+
+// RFC 6238 appendix B test secret "12345678901234567890" in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TotpService', () => {
+  describe('generateSecret', () => {
+    it('should generate a 32 character base32 secret', () => {
+      expect(TotpService.generateSecret()).toMatch(/^[A-Z2-7]{32}$/);
+    });
+
+    it('should generate different secrets on each call', () => {
+      expect(TotpService.generateSecret()).not.toBe(TotpService.generateSecret());
+    });
+  });
+
+  describe('generateCode', () => {
+    it.each([
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1234567890, '005924'],
+      [2000000000, '279037']
+    ])('should match the RFC 6238 test vector at %i seconds', (seconds, expectedCode) => {
+      const step = TotpService.stepAt(seconds * 1000);
+
+      expect(TotpService.generateCode(RFC_SECRET, step)).toBe(expectedCode);
+    });
+
+    it('should produce codes for generated secrets', () => {
+      const code = TotpService.generateCode(TotpService.generateSecret(), 1);
+
+      expect(code).toMatch(/^\d{6}$/);
+    });
+  });
+
+  describe('matchStep', () => {
+    const now = 1234567890 * 1000;
+    const currentStep = TotpService.stepAt(now);
+
+    it('should return the step of the current code', () => {
+      const code = TotpService.generateCode(RFC_SECRET, currentStep);
+
+      expect(TotpService.matchStep(RFC_SECRET, code, now)).toBe(currentStep);
+    });
+
+    it('should accept codes of the previous and next step', () => {
+      const previousCode = TotpService.generateCode(RFC_SECRET, currentStep - 1);
+      const nextCode = TotpService.generateCode(RFC_SECRET, currentStep + 1);
+
+      expect(TotpService.matchStep(RFC_SECRET, previousCode, now)).toBe(currentStep - 1);
+      expect(TotpService.matchStep(RFC_SECRET, nextCode, now)).toBe(currentStep + 1);
+    });
+
+    it('should reject codes outside the window', () => {
+      const oldCode = TotpService.generateCode(RFC_SECRET, currentStep - 2);
+
+      expect(TotpService.matchStep(RFC_SECRET, oldCode, now)).toBeNull();
+    });
+
+    it('should reject codes that are not six digits', () => {
+      expect(TotpService.matchStep(RFC_SECRET, '12345', now)).toBeNull();
+      expect(TotpService.matchStep(RFC_SECRET, 'abcdef', now)).toBeNull();
+    });
+  });
+
+  describe('buildUri', () => {
+    it('should build an otpauth URI with the issuer and account name', () => {
+      const uri = TotpService.buildUri('Express Server', 'john_doe', RFC_SECRET);
+
+      expect(uri).toBe(
+        'otpauth://totp/Express%20Server:john_doe' +
+        `?secret=${RFC_SECRET}&issuer=Express+Server&algorithm=SHA1&digits=6&period=30`
+      );
+    });
+  });
+
+  describe('generateRecoveryCodes', () => {
+    it('should generate ten distinct codes', () => {
+      const codes = TotpService.generateRecoveryCodes();
+
+      expect(codes).toHaveLength(10);
+      expect(new Set(codes.map(recoveryCode => recoveryCode.code)).size).toBe(10);
+      codes.forEach(recoveryCode => expect(recoveryCode.code).toMatch(/^[a-z2-7]{4}(-[a-z2-7]{4}){3}$/));
+    });
+
+    it('should return the hash of each code', () => {
+      const [{ code, codeHash }] = TotpService.generateRecoveryCodes();
+
+      expect(codeHash).toBe(TotpService.hashRecoveryCode(code));
+    });
+  });
+
+  describe('hashRecoveryCode', () => {
+    it('should ignore case, spaces and dashes', () => {
+      const expectedHash = OneTimeTokenService.hash('k3mfq8zta2bc7dex');
+
+      expect(TotpService.hashRecoveryCode('k3mf-q8zt-a2bc-7dex')).toBe(expectedHash);
+      expect(TotpService.hashRecoveryCode('K3MF Q8ZT A2BC 7DEX')).toBe(expectedHash);
+    });
+  });
+});